@@ -20,15 +20,18 @@ import {
 } from '../logging/Logger.js';
 import { McpRegistry } from '../mcp/McpRegistry.js';
 import { buildSystemPrompt } from '../prompts/index.js';
+import type { ProjectInstructions } from '../prompts/ProjectInstructions.js';
 import {
     getContextCwd,
     type RuntimeContext,
+    type RuntimeContextPatch,
 } from '../runtime/index.js';
 import type {
     IChatService,
     Message,
 } from '../services/ChatServiceInterface.js';
-import { discoverSkills } from '../skills/index.js';
+import { discoverSkills, type SkillRegistry } from '../skills/index.js';
+import type { SkillDiscoveryResult } from '../skills/types.js';
 import { getBuiltinTools } from '../tools/builtin/index.js';
 import { ToolCatalog } from '../tools/catalog/ToolCatalog.js';
 import { ExecutionPipeline } from '../tools/execution/ExecutionPipeline.js';
@@ -75,6 +78,8 @@ export interface AgentRuntimeDeps {
   subagentRegistry?: SubagentRegistry;
   backgroundAgentManager?: BackgroundAgentManager;
   hookRuntime?: HookRuntime;
+  projectInstructions?: ProjectInstructions;
+  skillRegistry?: SkillRegistry;
   runtimeManaged?: boolean;
   logger?: InternalLogger;
 }
@@ -104,6 +109,8 @@ export class Agent {
   private readonly subagentRegistry: SubagentRegistry;
   private readonly backgroundAgentManager: BackgroundAgentManager;
   private readonly hookRuntime?: HookRuntime;
+  private readonly projectInstructions?: ProjectInstructions;
+  private readonly skillRegistry?: SkillRegistry;
   private readonly logger: InternalLogger;
   private readonly rootLogger: InternalLogger;
   private lastPreparedSkillCwd?: string;
@@ -134,6 +141,8 @@ export class Agent {
     this.backgroundAgentManager =
       deps.backgroundAgentManager ?? BackgroundAgentManager.create(this.rootLogger, AgentSessionStore.create());
     this.hookRuntime = deps.hookRuntime;
+    this.projectInstructions = deps.projectInstructions;
+    this.skillRegistry = deps.skillRegistry;
     this.modelManager = new ModelManager(
       config,
       runtimeOptions.outputFormat,
@@ -191,11 +200,18 @@ export class Agent {
       await this.discoverSkills();
 
       const modelConfig = this.modelManager.resolveModelConfig(this.runtimeOptions.modelId);
-      await this.modelManager.applyModelConfig(modelConfig, '🚀 使用模型:');
+      // 子 Agent 与父 Agent 共用 BladeConfig：显式指定的模型不改写共享的 currentModelId
+      await this.modelManager.applyModelConfig(
+        modelConfig,
+        '🚀 使用模型:',
+        !this.runtimeOptions.modelId,
+      );
       const compactionHandler = new CompactionHandler(
         () => this.modelManager.getChatService(),
         () => this.modelManager.getContextManager(),
         this.rootLogger,
+        this.modelManager.getChatServiceFactory(),
+        (request) => this.modelManager.route(request),
       );
 
       this.loopRunner = new LoopRunner(
@@ -209,6 +225,8 @@ export class Agent {
         compactionHandler,
         this.tokenBudget,
         this.hookRuntime,
+        this.projectInstructions,
+        this.skillRegistry,
       );
 
       this.isInitialized = true;
@@ -346,6 +364,11 @@ export class Agent {
     this.loopRunner.clearSkillContext();
   }
 
+  /** 恢复会话时重放已持久化的运行时 context overlay */
+  public applyRuntimeContextPatch(patch: RuntimeContextPatch): void {
+    this.loopRunner.applyRuntimeContextPatch(patch);
+  }
+
   public async setModel(model: string): Promise<void> {
     await this.modelManager.setModel(model);
   }
@@ -607,18 +630,31 @@ export class Agent {
   }
 
   private async discoverSkills(): Promise<void> {
+    const skillRegistry = this.skillRegistry;
+    if (skillRegistry) {
+      // 会话级注册表在创建时已绑定工作目录，只需初始化一次
+      await this.reportSkillDiscovery(() => skillRegistry.initialize());
+      return;
+    }
     await this.discoverSkillsForCwd(
       getContextCwd(this.defaultContext),
     );
   }
 
   private async discoverSkillsForCwd(cwd?: string): Promise<void> {
-    if (!cwd || this.lastPreparedSkillCwd === cwd) {
+    if (this.skillRegistry || !cwd || this.lastPreparedSkillCwd === cwd) {
       return;
     }
-    try {
-      const result = await discoverSkills({ cwd });
+    if (await this.reportSkillDiscovery(() => discoverSkills({ cwd }))) {
       this.lastPreparedSkillCwd = cwd;
+    }
+  }
+
+  private async reportSkillDiscovery(
+    discover: () => Promise<SkillDiscoveryResult>,
+  ): Promise<boolean> {
+    try {
+      const result = await discover();
       if (result.skills.length > 0) {
         this.logger.debug(`✅ Discovered ${result.skills.length} skills: ${result.skills.map((s) => s.name).join(', ')}`);
       } else {
@@ -627,8 +663,10 @@ export class Agent {
       for (const error of result.errors) {
         this.logger.warn(`⚠️  Skill loading error at ${error.path}: ${error.error}`);
       }
+      return true;
     } catch (error) {
       this.logger.warn('Failed to discover skills:', error);
+      return false;
     }
   }
 
@@ -16,6 +16,7 @@ import type {
   ToolResult,
 } from '../tools/types/ToolResult.js';
 import type { InputId, RequestId } from '../types/branded.js';
+import type { ModelFallbackReason, ProviderType } from '../types/common.js';
 import type { PermissionUpdate } from '../types/permissions.js';
 import type { TokenBudgetSnapshot } from './TokenBudget.js';
 
@@ -64,7 +65,7 @@ export interface TurnEndEvent {
 export interface TurnRetryEvent {
   type: 'turn_retry';
   turn: number;
-  reason: 'reactive_compact';
+  reason: 'reactive_compact' | 'model_fallback';
 }
 
 export interface InputAppliedEvent {
@@ -185,10 +186,24 @@ export interface BudgetWarningEvent {
   snapshot: TokenBudgetSnapshot;
 }
 
+/** 一次已完成的上下文压缩 */
+export interface CompactionOutcome {
+  /** auto：循环内阈值触发；reactive：上下文超长错误后触发 */
+  trigger: 'auto' | 'reactive';
+  /** microcompact：工具结果替换；summary：LLM 总结；fallback：总结降级；truncate：紧急截断 */
+  strategy: 'microcompact' | 'summary' | 'fallback' | 'truncate';
+  /** 压缩后保留的上下文消息数 */
+  retainedMessages: number;
+  preTokens?: number;
+  postTokens?: number;
+}
+
 /** 上下文压缩状态 */
 export interface CompactingEvent {
   type: 'compacting';
   isCompacting: boolean;
+  /** 压缩结束且上下文已被替换时携带 */
+  result?: CompactionOutcome;
 }
 
 /** Todo 列表更新 */
@@ -214,6 +229,12 @@ export interface ModelFallbackEvent {
   type: 'model_fallback';
   originalModel: string;
   fallbackModel: string;
+  /** 触发 fallback 的错误类别 */
+  reason: ModelFallbackReason;
+  /** fallback 模型的 provider；RetryPolicy 自身触发（未经 fallback 链切换）时为空 */
+  provider?: ProviderType;
+  /** 触发 fallback 的错误消息 */
+  error?: string;
 }
 
 /** 错误事件 */
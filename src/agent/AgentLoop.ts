@@ -10,17 +10,19 @@ import type { InternalLogger } from '../logging/Logger.js';
 import type { ChatResponse, Message, ToolCall } from '../services/ChatServiceInterface.js';
 import { FallbackTriggeredError } from '../services/RetryPolicy.js';
 import type { ExecutionPipeline } from '../tools/execution/ExecutionPipeline.js';
-import type { ToolEffect, ToolResult } from '../tools/types/index.js';
-import type { JsonObject, PermissionMode } from '../types/common.js';
+import { isMultimodalContent, type ToolEffect, type ToolResult } from '../tools/types/index.js';
+import type { JsonObject, ModelFallbackReason, PermissionMode } from '../types/common.js';
 import type { AgentEvent, TokenUsageInfo } from './AgentEvent.js';
 import type {
   AgentRunControl,
   AgentSteeringInput,
 } from './AgentRunControl.js';
 import { getSteeringInterruptInputId } from '../types/abort.js';
+import { classifyModelError } from './classifyModelError.js';
 import { AGENT_TURN_SAFETY_LIMIT } from './constants.js';
 import { ExecutionEpoch } from './ExecutionEpoch.js';
 import { isOverflowRecoverable } from './isOverflowRecoverable.js';
+import type { ModelFallbackSwitch } from './ModelManager.js';
 import { decideNoToolTurn } from './loop/decideNoToolTurn.js';
 import { decideTurnLimit } from './loop/decideTurnLimit.js';
 import { executeToolCalls } from './loop/executeToolCalls.js';
@@ -101,6 +103,11 @@ export interface AgentLoopHooks {
       reason?: string;
       attempt: number;
     }) => void;
+    /** 按 fallback 链切换模型；返回 undefined 表示没有可切换的候选 */
+    modelFallback?: (ctx: {
+      reason: ModelFallbackReason;
+      error: unknown;
+    }) => Promise<ModelFallbackSwitch | undefined>;
   };
   stop?: {
     check?: (ctx: {
@@ -175,8 +182,31 @@ export async function* agentLoop(
     | { phase: 'retry_pending'; turn: number; attempt: number }
     | { phase: 'in_retried_turn'; turn: number; attempt: number };
   let recovery: RecoveryState = { phase: 'idle' };
+  /** 模型 fallback 后重试当前轮（与 retry_pending 一样跳过 beforeTurn/turn_start/turnsCount） */
+  let fallbackRetryPending = false;
   let epoch: ExecutionEpoch | null = null;
 
+  /**
+   * 按错误类别切换到 fallback 模型；切换成功时产出 model_fallback / turn_retry 并返回 true
+   */
+  async function* switchToFallbackModel(error: unknown): AsyncGenerator<AgentEvent, boolean> {
+    const reason = recoveryHooks?.modelFallback ? classifyModelError(error) : undefined;
+    if (!reason) return false;
+    const switched = await recoveryHooks?.modelFallback?.({ reason, error });
+    if (!switched) return false;
+    epoch?.invalidate();
+    yield {
+      type: 'model_fallback',
+      originalModel: switched.originalModel,
+      fallbackModel: switched.fallbackModel,
+      reason,
+      provider: switched.provider,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    yield { type: 'turn_retry', turn: turnsCount, reason: 'model_fallback' };
+    return true;
+  }
+
   const recordToolResult = (result: ToolResult): void => {
     totalToolCalls += 1;
     recentToolResults.push(result);
@@ -205,7 +235,10 @@ export async function* agentLoop(
       includeNow: true,
     });
 
-    if (recovery.phase !== 'retry_pending' && turnHooks?.beforeTurn) {
+    const retryingTurn = recovery.phase === 'retry_pending' || fallbackRetryPending;
+    fallbackRetryPending = false;
+
+    if (!retryingTurn && turnHooks?.beforeTurn) {
       const beforeTurnStream = turnHooks.beforeTurn({
         turn: turnsCount,
         messages: convState.toArray(),
@@ -218,7 +251,7 @@ export async function* agentLoop(
       }
     }
 
-    if (recovery.phase !== 'retry_pending') {
+    if (!retryingTurn) {
       turnsCount++;
       yield { type: 'turn_start', turn: turnsCount, maxTurns: effectiveMaxTurns };
     }
@@ -301,11 +334,16 @@ export async function* agentLoop(
         continue;
       }
       if (llmError instanceof FallbackTriggeredError) {
+        if (yield* switchToFallbackModel(llmError)) {
+          fallbackRetryPending = true;
+          continue;
+        }
         epoch?.invalidate();
         yield {
           type: 'model_fallback',
           originalModel: llmError.originalModel,
           fallbackModel: llmError.fallbackModel,
+          reason: 'overloaded',
         };
         throw llmError;
       }
@@ -343,6 +381,10 @@ export async function* agentLoop(
             attempt,
           });
           yield { type: 'recovery', phase: 'failed', reason: 'reactive_compact' };
+          if (yield* switchToFallbackModel(llmError)) {
+            fallbackRetryPending = true;
+            continue;
+          }
           throw llmError;
         }
         recoveryHooks.onStateChange?.({
@@ -367,6 +409,10 @@ export async function* agentLoop(
         });
         yield { type: 'recovery', phase: 'failed', reason: 'recovery_exhausted' };
       }
+      if (yield* switchToFallbackModel(llmError)) {
+        fallbackRetryPending = true;
+        continue;
+      }
       throw llmError;
     }
 
@@ -666,20 +712,18 @@ export async function* agentLoop(
       }
       await toolHooks?.afterExec?.({ toolCall, result, effects, toolUseUuid });
 
-      // 写入 tool 消息
-      let toolResultContent = result.model;
-
-      if (typeof toolResultContent === 'object' && toolResultContent !== null) {
-        toolResultContent = JSON.stringify(toolResultContent, null, 2);
-      }
+      // 写入 tool 消息；多模态结果保留 ContentPart，其余序列化为文本
+      const toolResultContent = result.model;
 
       convState.append({
         role: 'tool',
         tool_call_id: toolCall.id,
         name: toolCall.function.name,
-        content: typeof toolResultContent === 'string'
-          ? toolResultContent
-          : JSON.stringify(toolResultContent),
+        content: isMultimodalContent(toolResultContent)
+          ? toolResultContent.parts
+          : typeof toolResultContent === 'string'
+            ? toolResultContent
+            : JSON.stringify(toolResultContent, null, 2),
       });
     }
 
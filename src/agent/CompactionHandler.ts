@@ -2,16 +2,52 @@ import { CompactionService } from '../context/CompactionService.js';
 import type { ContextManager } from '../context/ContextManager.js';
 import { softCompact } from '../context/strategies/SoftCompactionStrategy.js';
 import { TokenCounter } from '../context/TokenCounter.js';
+import type { HookSessionServices } from '../hooks/types/HookTypes.js';
 import { type InternalLogger, LogCategory, NOOP_LOGGER } from '../logging/Logger.js';
-import type { IChatService } from '../services/ChatServiceInterface.js';
+import type {
+  ChatConfig,
+  ChatServiceFactory,
+  IChatService,
+  Message,
+} from '../services/ChatServiceInterface.js';
 import { cloneMessage } from '../services/messageUtils.js';
 import type { SessionId } from '../types/branded.js';
+import type { JsonObject, ModelConfig, ModelRouteRequest } from '../types/common.js';
 import type { CompactingEvent } from './AgentEvent.js';
 import type { ConversationState } from './state/ConversationState.js';
 
 export interface CompactionRuntimeContext {
   sessionId: SessionId;
   projectDir?: string;
+  /** 会话级 Hook 能力，透传给压缩相关 hooks */
+  hookServices?: HookSessionServices;
+  /** 当前 RuntimeContext 的 metadata，传给模型路由策略 */
+  metadata?: JsonObject;
+}
+
+export type CompactionModelRouter = (
+  request: Omit<ModelRouteRequest, 'currentModelId'>,
+) => Promise<ModelConfig | undefined>;
+
+/**
+ * LLM 压缩使用的模型连接参数：路由策略选中的模型，否则沿用当前 ChatService 的配置
+ */
+export function compactionModelOptions(chatConfig: ChatConfig, routed?: ModelConfig) {
+  return routed
+    ? {
+        provider: routed.provider,
+        modelName: routed.model,
+        apiKey: routed.apiKey,
+        baseURL: routed.baseUrl,
+        customHeaders: routed.headers,
+      }
+    : {
+        provider: chatConfig.provider,
+        modelName: chatConfig.model,
+        apiKey: chatConfig.apiKey,
+        baseURL: chatConfig.baseUrl,
+        customHeaders: chatConfig.customHeaders,
+      };
 }
 
 export class CompactionHandler {
@@ -21,10 +57,24 @@ export class CompactionHandler {
     private getChatService: () => IChatService,
     private getContextManager: () => ContextManager | undefined,
     logger?: InternalLogger,
+    private chatServiceFactory?: ChatServiceFactory,
+    private routeModel?: CompactionModelRouter,
   ) {
     this.logger = (logger ?? NOOP_LOGGER).child(LogCategory.AGENT);
   }
 
+  private async routeCompaction(
+    messages: Message[],
+    chatConfig: ChatConfig,
+    runtimeCtx: CompactionRuntimeContext,
+  ): Promise<ModelConfig | undefined> {
+    return this.routeModel?.({
+      source: 'compact',
+      estimatedInputTokens: TokenCounter.countTokens(messages, chatConfig.model),
+      metadata: runtimeCtx.metadata,
+    });
+  }
+
   async *checkAndCompactInLoop(
     convState: ConversationState,
     runtimeCtx: CompactionRuntimeContext,
@@ -93,7 +143,16 @@ export class CompactionHandler {
       const recentMessages = convState.getContextMessages().slice(-40);
       convState.replaceContent(recentMessages);
 
-      yield { type: 'compacting', isCompacting: false };
+      yield {
+        type: 'compacting',
+        isCompacting: false,
+        result: {
+          trigger: 'auto',
+          strategy: 'truncate',
+          retainedMessages: recentMessages.length,
+          preTokens: effectivePromptTokens,
+        },
+      };
       return true;
     }
 
@@ -108,16 +167,17 @@ export class CompactionHandler {
       yield { type: 'compacting', isCompacting: true };
 
       try {
-        const result = await CompactionService.compact(convState.getContextMessages(), {
+        const contextMessages = convState.getContextMessages();
+        const routed = await this.routeCompaction(contextMessages, chatConfig, runtimeCtx);
+        const result = await CompactionService.compact(contextMessages, {
           trigger: 'auto',
-          provider: chatConfig.provider,
-          modelName,
+          ...compactionModelOptions(chatConfig, routed),
           maxContextTokens,
-          apiKey: chatConfig.apiKey,
-          baseURL: chatConfig.baseUrl,
-          customHeaders: chatConfig.customHeaders,
+          chatServiceFactory: this.chatServiceFactory,
           actualPreTokens: actualPromptTokens,
+          sessionId: runtimeCtx.sessionId,
           projectDir: runtimeCtx.projectDir,
+          hookServices: runtimeCtx.hookServices,
         });
 
         if (result.success) {
@@ -154,7 +214,17 @@ export class CompactionHandler {
           this.logger.warn(`[Agent] [轮次 ${currentTurn}] 保存压缩数据失败:`, saveError);
         }
 
-        yield { type: 'compacting', isCompacting: false };
+        yield {
+          type: 'compacting',
+          isCompacting: false,
+          result: {
+            trigger: 'auto',
+            strategy: result.success ? 'summary' : 'fallback',
+            retainedMessages: result.compactedMessages.length,
+            preTokens: result.preTokens,
+            postTokens: result.postTokens,
+          },
+        };
 
         return true;
       } catch (error) {
@@ -212,7 +282,16 @@ export class CompactionHandler {
           (this.getChatService().getConfig().maxContextTokens ?? 128000) - maxOutputTokens;
         if (postMicrocompactTokens < availableForInput) {
           convState.replaceContent(workingMessages);
-          yield { type: 'compacting', isCompacting: false };
+          yield {
+            type: 'compacting',
+            isCompacting: false,
+            result: {
+              trigger: 'reactive',
+              strategy: 'microcompact',
+              retainedMessages: workingMessages.length,
+              postTokens: postMicrocompactTokens,
+            },
+          };
           return true;
         }
       }
@@ -229,15 +308,15 @@ export class CompactionHandler {
       // Step 2: LLM-based compaction
       const chatService = this.getChatService();
       const chatConfig = chatService.getConfig();
+      const routed = await this.routeCompaction(workingMessages, chatConfig, runtimeCtx);
       const result = await CompactionService.compact(workingMessages, {
         trigger: 'auto',
-        provider: chatConfig.provider,
-        modelName: chatConfig.model,
+        ...compactionModelOptions(chatConfig, routed),
         maxContextTokens: chatConfig.maxContextTokens ?? 128000,
-        apiKey: chatConfig.apiKey,
-        baseURL: chatConfig.baseUrl,
-        customHeaders: chatConfig.customHeaders,
+        chatServiceFactory: this.chatServiceFactory,
+        sessionId: runtimeCtx.sessionId,
         projectDir: runtimeCtx.projectDir,
+        hookServices: runtimeCtx.hookServices,
       });
 
       convState.replaceContent(result.compactedMessages);
@@ -262,7 +341,17 @@ export class CompactionHandler {
         this.logger.warn('[Agent] 保存反应式压缩数据失败:', saveError);
       }
 
-      yield { type: 'compacting', isCompacting: false };
+      yield {
+        type: 'compacting',
+        isCompacting: false,
+        result: {
+          trigger: 'reactive',
+          strategy: result.success ? 'summary' : 'fallback',
+          retainedMessages: result.compactedMessages.length,
+          preTokens: result.preTokens,
+          postTokens: result.postTokens,
+        },
+      };
       return true;
     } catch (error) {
       // Fallback: emergency truncation
@@ -270,7 +359,15 @@ export class CompactionHandler {
       const recentMessages = originalMessages.slice(-40);
       convState.replaceContent(recentMessages);
 
-      yield { type: 'compacting', isCompacting: false };
+      yield {
+        type: 'compacting',
+        isCompacting: false,
+        result: {
+          trigger: 'reactive',
+          strategy: 'truncate',
+          retainedMessages: recentMessages.length,
+        },
+      };
       return true;
     }
   }
@@ -8,16 +8,24 @@
 
 import { CompactionService } from '../context/CompactionService.js';
 import type { ContextManager } from '../context/ContextManager.js';
+import { TokenCounter } from '../context/TokenCounter.js';
 import { SdkError } from '../errors/SdkError.js';
 import type { HookRuntime } from '../hooks/HookRuntime.js';
 import type { InternalLogger } from '../logging/Logger.js';
+import type { ProjectInstructions } from '../prompts/ProjectInstructions.js';
 import type { Message } from '../services/ChatServiceInterface.js';
+import { getFileSystemService } from '../services/FileSystemService.js';
+import { FileAccessTracker } from '../tools/builtin/file/FileAccessTracker.js';
 import type { ExecutionPipeline } from '../tools/execution/ExecutionPipeline.js';
-import type { ToolEffect } from '../tools/types/index.js';
+import { type ToolEffect, type ToolResult, toolModelContentToJson } from '../tools/types/index.js';
 import type { SessionId } from '../types/branded.js';
 import type { AgentLoopConfig, AgentLoopHooks } from './AgentLoop.js';
 import type { AgentRunControl } from './AgentRunControl.js';
-import type { CompactionHandler, CompactionRuntimeContext } from './CompactionHandler.js';
+import {
+    type CompactionHandler,
+    type CompactionRuntimeContext,
+    compactionModelOptions,
+} from './CompactionHandler.js';
 import type { ModelManager } from './ModelManager.js';
 import type { RuntimePatchManager } from './RuntimePatchManager.js';
 import type { LoopState } from './state/LoopState.js';
@@ -41,6 +49,7 @@ export interface LoopHookBuilderDeps {
   tokenBudget?: TokenBudget;
   compactionHandler?: CompactionHandler;
   hookRuntime?: HookRuntime;
+  projectInstructions?: ProjectInstructions;
   modelManager: ModelManager;
   runtimePatchManager: RuntimePatchManager;
   defaultProjectPath?: string;
@@ -64,6 +73,26 @@ async function persistToJsonl(
   }
 }
 
+// ===== FileChanged 辅助 =====
+const FILE_WRITE_TOOLS = new Set(['Write', 'Edit', 'NotebookEdit']);
+
+function toolFileChange(
+  toolName: string,
+  result: ToolResult,
+): { filePath: string; changeType: 'created' | 'modified' } | undefined {
+  if (result.status !== 'success' || !FILE_WRITE_TOOLS.has(toolName)) {
+    return undefined;
+  }
+  const filePath = result.metadata?.file_path ?? result.metadata?.notebook_path;
+  if (typeof filePath !== 'string') {
+    return undefined;
+  }
+  return {
+    filePath,
+    changeType: result.metadata?.created_file === true ? 'created' : 'modified',
+  };
+}
+
 // ===== Main builder =====
 
 export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
@@ -71,7 +100,7 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
     context, options, loopState, maxTurns, isYoloMode,
     getLastUuid, setLastUuid,
     streaming, executionPipeline, logger, tokenBudget,
-    compactionHandler, hookRuntime, modelManager,
+    compactionHandler, hookRuntime, projectInstructions, modelManager,
     runtimePatchManager, defaultProjectPath,
     runControl,
   } = deps;
@@ -81,6 +110,69 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
   let pendingInjectedMessages: Message[] = [];
   let currentAssistantMessageId: string | null = null;
 
+  const routingMetadata = () =>
+    (loopState.executionContext.contextSnapshot ?? context.snapshot)?.context.metadata;
+
+  const notifyCwdChanged = async (oldCwd: string | undefined, newCwd: string | undefined) => {
+    if (!hookRuntime || !oldCwd || !newCwd || oldCwd === newCwd) {
+      return;
+    }
+    try {
+      await hookRuntime.runCwdChanged({ oldCwd, newCwd });
+    } catch (error) {
+      logger.warn('[LoopHookBuilder] CwdChanged hook failed:', error);
+    }
+  };
+
+  const notifyFileChanged = async (
+    filePath: string,
+    changeType: 'created' | 'modified' | 'deleted',
+  ) => {
+    if (!hookRuntime) {
+      return;
+    }
+    try {
+      await hookRuntime.runFileChanged({ filePath, changeType });
+    } catch (error) {
+      logger.warn('[LoopHookBuilder] FileChanged hook failed:', error);
+    }
+  };
+
+  // 会话读写过的文件在两轮之间被外部程序修改或删除
+  const notifyExternalFileChanges = async () => {
+    if (!hookRuntime || !context.sessionId || context.subagentInfo) {
+      return;
+    }
+    const changes = await FileAccessTracker.getInstance().collectExternalChanges(
+      context.sessionId,
+      getFileSystemService(loopState.executionContext),
+    );
+    for (const change of changes) {
+      await notifyFileChanged(change.filePath, change.changeType);
+    }
+  };
+
+  // 按当前工作目录重新计算项目指令，同步到 system 消息
+  const syncProjectInstructions = async () => {
+    if (!projectInstructions || context.subagentInfo) {
+      return;
+    }
+    const cwd = loopState.executionContext.contextSnapshot?.cwd
+      ?? context.snapshot?.cwd
+      ?? defaultProjectPath;
+    if (!cwd) {
+      return;
+    }
+    try {
+      runtimePatchManager.syncProjectInstructionsMessage(
+        loopState.conversationState,
+        await projectInstructions.render(cwd),
+      );
+    } catch (error) {
+      logger.warn('[LoopHookBuilder] Project instructions sync failed:', error);
+    }
+  };
+
   const hooks: AgentLoopHooks = {
     input: {
       async apply({ input }) {
@@ -125,10 +217,22 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
 
     turn: {
       async *beforeTurn(ctx) {
+        await notifyExternalFileChanges();
+        await syncProjectInstructions();
+        // 子 Agent 的模型在创建时路由，循环内不再逐轮切换
+        if (!context.subagentInfo) {
+          await modelManager.routeTurn({
+            turn: ctx.turn + 1,
+            messages: ctx.messages,
+            metadata: routingMetadata(),
+          });
+        }
         if (!compactionHandler) return false;
         const runtimeCtx: CompactionRuntimeContext = {
           sessionId: context.sessionId,
           projectDir: context.snapshot?.cwd ?? defaultProjectPath,
+          hookServices: hookRuntime?.getSessionServices(),
+          metadata: routingMetadata(),
         };
         const compactionStream = compactionHandler.checkAndCompactInLoop(
           loopState.conversationState, runtimeCtx, ctx.turn, ctx.lastPromptTokens,
@@ -147,17 +251,22 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
       async onTurnLimitCompact(_ctx) {
         try {
           const cs = loopState.getChatService().getConfig();
+          const contextMessages = loopState.conversationState.getContextMessages();
+          const routed = await modelManager.route({
+            source: 'compact',
+            estimatedInputTokens: TokenCounter.countTokens(contextMessages, cs.model),
+            metadata: routingMetadata(),
+          });
           const compactResult = await CompactionService.compact(
-            loopState.conversationState.getContextMessages(),
+            contextMessages,
             {
               trigger: 'auto',
-              provider: cs.provider,
-              modelName: cs.model,
+              ...compactionModelOptions(cs, routed),
               maxContextTokens: cs.maxContextTokens ?? 128000,
-              apiKey: cs.apiKey,
-              baseURL: cs.baseUrl,
-              customHeaders: cs.customHeaders,
+              chatServiceFactory: modelManager.getChatServiceFactory(),
+              sessionId: context.sessionId,
               projectDir: context.snapshot?.cwd ?? defaultProjectPath,
+              hookServices: hookRuntime?.getSessionServices(),
             },
           );
           const continueMessage: Message = {
@@ -221,7 +330,7 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
             : undefined;
           const uuid = await contextMgr.saveToolResult(
             sessionId, toolCall.id, toolCall.function.name,
-            result.status === 'success' ? result.model : null,
+            result.status === 'success' ? toolModelContentToJson(result.model) : null,
             getLastUuid(), result.status === 'success' ? undefined : result.error.message,
             context.subagentInfo, subagentRef,
           );
@@ -259,12 +368,39 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
           });
         }
 
+        // 读取子目录文件后激活该子树的嵌套指令，下一轮生效
+        const readPath = result.metadata?.file_path;
+        if (
+          projectInstructions
+          && toolCall.function.name === 'Read'
+          && result.status === 'success'
+          && typeof readPath === 'string'
+        ) {
+          projectInstructions.noteFileRead(readPath);
+        }
+
+        const fileChange = toolFileChange(toolCall.function.name, result);
+        if (fileChange) {
+          await notifyFileChanged(fileChange.filePath, fileChange.changeType);
+        }
+
+        // 前台 Bash 的常驻 Shell 切换了目录
+        const previousCwd = result.metadata?.previous_cwd;
+        const nextCwd = result.metadata?.cwd;
+        if (typeof previousCwd === 'string' && typeof nextCwd === 'string') {
+          await notifyCwdChanged(previousCwd, nextCwd);
+        }
+
+        // 工具通过 contextPatch 修改了运行时上下文的工作目录
+        const snapshotCwd = () => loopState.executionContext.contextSnapshot?.cwd;
+        const cwdBeforePatch = snapshotCwd();
         for (const effect of effects) {
           if (effect.type === 'contextPatch') {
             runtimePatchManager.applyRuntimeContextPatch(effect.patch);
             runtimePatchManager.refreshRuntimeContextSnapshot(loopState);
           }
         }
+        await notifyCwdChanged(cwdBeforePatch, snapshotCwd());
 
         const runtimePatch = runtimePatchManager.deriveRuntimePatch({
           status: result.status,
@@ -331,6 +467,8 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
             const runtimeCtx: CompactionRuntimeContext = {
               sessionId: context.sessionId,
               projectDir: context.snapshot?.cwd ?? defaultProjectPath,
+              hookServices: hookRuntime?.getSessionServices(),
+              metadata: routingMetadata(),
             };
             const compactStream = compactionHandler?.reactiveCompact(loopState.conversationState, runtimeCtx);
             if (!compactStream) return false;
@@ -343,6 +481,7 @@ export function buildLoopConfig(deps: LoopHookBuilderDeps): AgentLoopConfig {
             return result;
           }
         : undefined,
+      modelFallback: ({ reason }) => modelManager.fallback(reason),
     },
 
     stop: {
@@ -13,12 +13,15 @@
 import type { HookRuntime } from '../hooks/HookRuntime.js';
 import { type InternalLogger, LogCategory, NOOP_LOGGER } from '../logging/Logger.js';
 import { buildSystemPrompt } from '../prompts/index.js';
+import type { ProjectInstructions } from '../prompts/ProjectInstructions.js';
+import type { RuntimeContextPatch } from '../runtime/index.js';
 import type { Message } from '../services/ChatServiceInterface.js';
-import type { SkillActivationContext } from '../skills/index.js';
+import type { SkillActivationContext, SkillRegistry } from '../skills/index.js';
 import { injectSkillsMetadata } from '../skills/index.js';
 import { ToolCatalog } from '../tools/catalog/index.js';
 import type { ExecutionPipeline } from '../tools/execution/ExecutionPipeline.js';
 import { ToolExposurePlanner } from '../tools/exposure/index.js';
+import type { ConfirmationHandler } from '../tools/types/ExecutionTypes.js';
 import { type BladeConfig, PermissionMode } from '../types/common.js';
 import { getEnvironmentContext } from '../utils/environment.js';
 import type { AgentEvent } from './AgentEvent.js';
@@ -26,6 +29,7 @@ import { agentLoop } from './AgentLoop.js';
 import type { CompactionHandler } from './CompactionHandler.js';
 import { AGENT_TURN_SAFETY_LIMIT } from './constants.js';
 import { buildLoopConfig } from './LoopHookBuilder.js';
+import { observeChatService } from './loop/observeChatService.js';
 import type { ModelManager } from './ModelManager.js';
 import { RuntimePatchManager } from './RuntimePatchManager.js';
 import { ConversationState } from './state/ConversationState.js';
@@ -68,6 +72,8 @@ export class LoopRunner {
     private compactionHandler?: CompactionHandler,
     private tokenBudget?: TokenBudget,
     private hookRuntime?: HookRuntime,
+    private projectInstructions?: ProjectInstructions,
+    private skillRegistry?: SkillRegistry,
   ) {
     this.logger = (logger ?? NOOP_LOGGER).child(LogCategory.AGENT);
     this.runtimePatchManager = new RuntimePatchManager(hookRuntime, this.logger);
@@ -152,7 +158,11 @@ export class LoopRunner {
     const conversationState = new ConversationState(
       rootPromptMessage,
       contextMessages,
-      { role: 'user', content: message },
+      {
+        role: 'user',
+        content: message,
+        ...(options?.inputApplication?.messageId ? { id: options.inputApplication.messageId } : {}),
+      },
     );
 
     const permissionMode = context.permissionMode;
@@ -161,6 +171,7 @@ export class LoopRunner {
       conversationState,
       permissionMode,
       options?.toolExecutionLifecycle,
+      options?.modelResponseObserver,
     );
 
     // 2. 保存用户消息到 JSONL
@@ -175,6 +186,7 @@ export class LoopRunner {
           message,
           null,
           context.subagentInfo,
+          options.inputApplication.messageId,
         );
       } catch (error) {
         // 与其他消息写入保持一致的 best-effort 策略：持久化失败不应中断请求。
@@ -224,6 +236,7 @@ export class LoopRunner {
       tokenBudget: this.tokenBudget,
       compactionHandler: this.compactionHandler,
       hookRuntime: this.hookRuntime,
+      projectInstructions: this.projectInstructions,
       modelManager: this.modelManager,
       runtimePatchManager: this.runtimePatchManager,
       defaultProjectPath: this.defaultProjectPath,
@@ -307,6 +320,7 @@ export class LoopRunner {
       includeEnvironment: false,
       language: this.config.language,
       skillActivationContext,
+      skillRegistry: this.skillRegistry,
     });
 
     return result.prompt;
@@ -326,6 +340,10 @@ export class LoopRunner {
     this.runtimePatchManager.clearSkillContext();
   }
 
+  applyRuntimeContextPatch(patch: RuntimeContextPatch): void {
+    this.runtimePatchManager.applyRuntimeContextPatch(patch);
+  }
+
   getRuntimePatchApplications() {
     return this.runtimePatchManager.getRuntimePatchApplications();
   }
@@ -337,6 +355,7 @@ export class LoopRunner {
     conversationState: ConversationState,
     permissionMode: PermissionMode | undefined,
     toolExecutionLifecycle: LoopOptions['toolExecutionLifecycle'],
+    modelResponseObserver: LoopOptions['modelResponseObserver'],
   ): LoopState {
     const rpm = this.runtimePatchManager;
     const catalog = this.executionPipeline.getCatalog();
@@ -386,7 +405,7 @@ export class LoopRunner {
         userId: context.userId || 'default',
         contextSnapshot: effectiveSnapshot,
         skillActivationPaths: initialSkillActivationContext.referencedPaths,
-        confirmationHandler: context.confirmationHandler,
+        confirmationHandler: this.withNotificationHooks(context.confirmationHandler),
         bladeConfig: this.config,
         backgroundAgentManager: context.backgroundAgentManager,
         toolCatalog: catalog instanceof ToolCatalog
@@ -395,6 +414,8 @@ export class LoopRunner {
         toolRegistry: registry,
         discoveredTools: Array.from(rpm.discoveredTools ?? []),
         lifecycle: toolExecutionLifecycle,
+        hookServices: this.hookRuntime?.getSessionServices(),
+        skillRegistry: this.skillRegistry,
       },
       baseContextSnapshot: context.snapshot,
       initialActiveSkill: rpm.skillContext,
@@ -421,12 +442,43 @@ export class LoopRunner {
         rawTools = injectSkillsMetadata(
           rawTools,
           skillActivationContext,
+          this.skillRegistry,
         );
         return rawTools;
       },
-      resolveChatService: () => this.modelManager.getChatService(),
+      resolveChatService: () =>
+        modelResponseObserver
+          ? observeChatService(this.modelManager.getChatService(), modelResponseObserver)
+          : this.modelManager.getChatService(),
       resolveMaxContextTokens: () => this.modelManager.getMaxContextTokens(),
     });
     return loopState;
   }
+
+  /**
+   * 包装确认处理器：等待用户确认或输入前先触发 Notification hooks
+   */
+  private withNotificationHooks(
+    handler: ConfirmationHandler | undefined,
+  ): ConfirmationHandler | undefined {
+    const hookRuntime = this.hookRuntime;
+    if (!handler || !hookRuntime) {
+      return handler;
+    }
+    return {
+      requestConfirmation: async (details) => {
+        try {
+          await hookRuntime.runNotification({
+            notificationType:
+              !details.type || details.type === 'permission' ? 'permission_prompt' : 'idle_prompt',
+            message: details.message,
+            title: details.title,
+          });
+        } catch (error) {
+          this.logger.warn('[LoopRunner] Notification hook failed:', error);
+        }
+        return handler.requestConfirmation(details);
+      },
+    };
+  }
 }
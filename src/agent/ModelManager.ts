@@ -5,18 +5,71 @@
  */
 
 import { ContextManager } from '../context/ContextManager.js';
+import { TokenCounter } from '../context/TokenCounter.js';
 import { type InternalLogger, LogCategory, NOOP_LOGGER } from '../logging/Logger.js';
-import { createChatServiceAsync, type IChatService } from '../services/ChatServiceInterface.js';
+import {
+  type ChatConfig,
+  type ChatServiceFactory,
+  createChatServiceAsync,
+  type IChatService,
+  type Message,
+} from '../services/ChatServiceInterface.js';
 import { withDeepSeekDefaults } from '../services/deepseek.js';
-import type { BladeConfig, ModelConfig, OutputFormat } from '../types/common.js';
+import { getOllamaContextLength } from '../services/ollama.js';
+import type {
+  BladeConfig,
+  JsonObject,
+  ModelConfig,
+  ModelFallbackReason,
+  ModelRouteRequest,
+  OutputFormat,
+  ProviderType,
+} from '../types/common.js';
 import { isThinkingModel } from '../utils/modelDetection.js';
 
+/** 一次模型 fallback 切换的结果 */
+export interface ModelFallbackSwitch {
+  originalModel: string;
+  fallbackModel: string;
+  provider: ProviderType;
+  reason: ModelFallbackReason;
+}
+
+/**
+ * 调用 `config.modelRouter` 为一次模型调用选择模型
+ *
+ * 没有配置路由策略、策略未给出决策或选中的模型不存在时返回 undefined（使用当前模型）；
+ * 路由策略抛错时同样回退到当前模型。
+ */
+export async function routeModel(
+  config: BladeConfig,
+  request: ModelRouteRequest,
+  logger: InternalLogger = NOOP_LOGGER,
+): Promise<ModelConfig | undefined> {
+  const router = config.modelRouter;
+  if (!router) return undefined;
+  let decision: Awaited<ReturnType<typeof router>>;
+  try {
+    decision = await router(request);
+  } catch (error) {
+    logger.warn(`[ModelManager] ⚠️ 模型路由失败（${request.source}），使用当前模型`, error);
+    return undefined;
+  }
+  if (!decision) return undefined;
+  const modelConfig = (config.models || []).find((m) => m.id === decision.modelId);
+  if (!modelConfig) {
+    logger.warn(`[ModelManager] ⚠️ 路由模型配置未找到: ${decision.modelId}`);
+  }
+  return modelConfig;
+}
+
 export class ModelManager {
   private chatService!: IChatService;
   private currentModelId?: string;
   private currentModelMaxContextTokens!: number;
   private readonly contextManager: ContextManager;
   private readonly logger: InternalLogger;
+  private readonly detectedContextTokens = new Map<string, number>();
 
   constructor(
     private config: BladeConfig,
@@ -47,6 +100,10 @@ export class ModelManager {
     return this.currentModelMaxContextTokens;
   }
 
+  getChatServiceFactory(): ChatServiceFactory | undefined {
+    return this.config.chatServiceFactory;
+  }
+
   // ===== 模型解析 =====
 
   resolveModelConfig(requestedModelId?: string): ModelConfig {
@@ -65,7 +122,10 @@ export class ModelManager {
 
   // ===== 模型应用 =====
 
-  async applyModelConfig(modelConfig: ModelConfig, label: string): Promise<void> {
+  /**
+   * @param sticky - false 时只替换当前 ChatService，不改变 `config.currentModelId`（用于单轮路由）
+   */
+  async applyModelConfig(modelConfig: ModelConfig, label: string, sticky = true): Promise<void> {
     modelConfig = withDeepSeekDefaults(modelConfig);
     this.logger.debug(`[ModelManager] ${label} ${modelConfig.name} (${modelConfig.model})`);
 
@@ -78,10 +138,11 @@ export class ModelManager {
       this.logger.debug(`[ModelManager] 🧠 Thinking 模式已启用，启用 reasoning_content 支持`);
     }
 
-    const maxContextTokens = modelConfig.maxContextTokens ?? 128000;
+    const maxContextTokens =
+      modelConfig.maxContextTokens ?? (await this.detectMaxContextTokens(modelConfig)) ?? 128000;
     this.currentModelMaxContextTokens = maxContextTokens;
 
-    this.chatService = await createChatServiceAsync({
+    const chatConfig: ChatConfig = {
       provider: modelConfig.provider,
       apiKey: modelConfig.apiKey || '',
       model: modelConfig.model,
@@ -93,10 +154,40 @@ export class ModelManager {
       supportsThinking,
       providerOptions: modelConfig.providerOptions as never,
       outputFormat: this.outputFormat,
-    });
+    };
+    this.chatService = this.config.chatServiceFactory
+      ? await this.config.chatServiceFactory(chatConfig)
+      : await createChatServiceAsync(chatConfig);
 
     this.currentModelId = modelConfig.id;
-    this.config.currentModelId = modelConfig.id;
+    if (sticky) {
+      this.config.currentModelId = modelConfig.id;
+    }
+  }
+
+  /**
+   * 本地 Ollama 模型未显式配置 maxContextTokens 时，从服务端读取实际上下文窗口。
+   * 注入 chatServiceFactory（测试 / 回放）时不访问网络。
+   */
+  private async detectMaxContextTokens(modelConfig: ModelConfig): Promise<number | undefined> {
+    if (modelConfig.provider !== 'ollama' || this.config.chatServiceFactory) return undefined;
+    const cacheKey = `${modelConfig.baseUrl ?? ''}\n${modelConfig.model}`;
+    const cached = this.detectedContextTokens.get(cacheKey);
+    if (cached) return cached;
+    try {
+      const detected = await getOllamaContextLength(modelConfig.model, {
+        baseUrl: modelConfig.baseUrl,
+        headers: modelConfig.headers,
+      });
+      if (detected) {
+        this.detectedContextTokens.set(cacheKey, detected);
+        this.logger.debug(`[ModelManager] 检测到 ${modelConfig.model} 上下文窗口 ${detected}`);
+      }
+      return detected;
+    } catch (error) {
+      this.logger.warn(`[ModelManager] ⚠️ 无法检测 ${modelConfig.model} 上下文窗口，使用默认值`, error);
+      return undefined;
+    }
   }
 
   // ===== 模型切换 =====
@@ -129,9 +220,85 @@ export class ModelManager {
       return;
     }
 
-    const activeModel = this.resolveModelConfig(this.currentModelId);
+    const activeModel = this.resolveModelConfig();
     activeModel.model = normalized;
     activeModel.name = normalized;
     await this.applyModelConfig(activeModel, '🔁 更新模型');
   }
+
+  // ===== 模型 fallback =====
+
+  /**
+   * 按 fallback 链切换到下一个接受该错误类别的候选模型
+   *
+   * 从当前模型在链中的位置之后开始查找（当前为主模型时从链首开始）；
+   * 候选的 ChatService 创建失败时继续尝试下一个。没有可切换的候选时返回 undefined。
+   */
+  async fallback(reason: ModelFallbackReason): Promise<ModelFallbackSwitch | undefined> {
+    const candidates = this.config.fallbackModels ?? [];
+    const models = this.config.models || [];
+    const from = models.find((m) => m.id === this.currentModelId);
+    const start = candidates.findIndex((candidate) => candidate.modelId === this.currentModelId) + 1;
+    const maxContextTokens = this.currentModelMaxContextTokens;
+
+    for (const candidate of candidates.slice(start)) {
+      if (!candidate.on.includes(reason)) continue;
+      const modelConfig = models.find((m) => m.id === candidate.modelId);
+      if (!modelConfig) {
+        this.logger.warn(`[ModelManager] ⚠️ fallback 模型配置未找到: ${candidate.modelId}`);
+        continue;
+      }
+      try {
+        await this.applyModelConfig(modelConfig, `⚠️ ${reason}，切换到 fallback 模型`);
+      } catch (error) {
+        this.currentModelMaxContextTokens = maxContextTokens;
+        this.logger.warn(`[ModelManager] ⚠️ fallback 模型 ${modelConfig.model} 不可用`, error);
+        continue;
+      }
+      return {
+        originalModel: from?.model ?? 'unknown',
+        fallbackModel: modelConfig.model,
+        provider: modelConfig.provider,
+        reason,
+      };
+    }
+    return undefined;
+  }
+
+  // ===== 模型路由 =====
+
+  /** 以当前模型为基准调用 `routeModel` */
+  async route(request: Omit<ModelRouteRequest, 'currentModelId'>): Promise<ModelConfig | undefined> {
+    const currentModelId = this.config.currentModelId ?? this.currentModelId ?? '';
+    return routeModel(this.config, { ...request, currentModelId }, this.logger);
+  }
+
+  /**
+   * 主循环每轮开始前调用：切换到路由选中的模型；未路由时回到当前模型
+   */
+  async routeTurn(request: {
+    turn: number;
+    messages: readonly Message[];
+    metadata?: JsonObject;
+  }): Promise<void> {
+    if (!this.config.modelRouter) return;
+    const routed = await this.route({
+      source: 'main_thread',
+      turn: request.turn,
+      estimatedInputTokens: TokenCounter.countTokens(
+        [...request.messages],
+        this.chatService.getConfig().model,
+      ),
+      metadata: request.metadata,
+    });
+    if (routed) {
+      if (routed.id !== this.currentModelId) {
+        await this.applyModelConfig(routed, '🧭 路由模型', false);
+      }
+      return;
+    }
+    if (this.config.currentModelId) {
+      await this.switchModelIfNeeded(this.config.currentModelId);
+    }
+  }
 }
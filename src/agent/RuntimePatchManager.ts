@@ -13,6 +13,7 @@
 import { analyzeFiles } from '../context/FileAnalyzer.js';
 import type { HookRuntime } from '../hooks/HookRuntime.js';
 import type { InternalLogger } from '../logging/Logger.js';
+import { PROJECT_INSTRUCTIONS_MARKER } from '../prompts/ProjectInstructions.js';
 import {
   createContextSnapshot,
   mergeContext,
@@ -361,6 +362,43 @@ ${summary}`,
     convState.insertAfterSystemBlock(catalogMessage);
   }
 
+  /**
+   * 同步项目指令 system 消息：按标记定位，内容为空时移除
+   */
+  syncProjectInstructionsMessage(
+    convState: ConversationState,
+    instructions: string | undefined,
+  ): void {
+    const existingIndex = convState.findIndex((message) =>
+      message.role === 'system'
+      && Array.isArray(message.content)
+      && message.content.some(
+        (part) => part.type === 'text'
+          && part.text.startsWith(PROJECT_INSTRUCTIONS_MARKER),
+      ),
+    );
+
+    if (!instructions) {
+      if (existingIndex >= 0) {
+        convState.removeAt(existingIndex);
+      }
+      return;
+    }
+
+    const instructionsMessage: Message = {
+      role: 'system',
+      content: [{ type: 'text', text: instructions }],
+      metadata: { _systemSource: 'instructions' },
+    };
+
+    if (existingIndex >= 0) {
+      convState.replaceAt(existingIndex, instructionsMessage);
+      return;
+    }
+
+    convState.insertAfterSystemBlock(instructionsMessage);
+  }
+
   // ===== Turn-scoped 状态清理 =====
 
   clearTurnScopedRuntimeState(): void {
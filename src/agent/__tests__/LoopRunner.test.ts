@@ -24,6 +24,7 @@ import {
 import { ToolKind } from '../../tools/types/ToolKind.js';
 import {
     InputId,
+    MessageId,
     RequestId,
     SessionId,
 } from '../../types/branded.js';
@@ -131,6 +132,7 @@ function createMockModelManager(overrides: Partial<Record<string, unknown>> = {}
     getContextManager: () => mockContextMgr,
     getMaxContextTokens: () => 128000,
     switchModelIfNeeded: vi.fn(async () => {}),
+    routeTurn: vi.fn(async () => {}),
     _chat: chatMock,
     _contextMgr: mockContextMgr,
   } as unknown as MockModelManager;
@@ -249,6 +251,7 @@ describe('LoopRunner', () => {
         getContextManager: () => contextManager,
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as ModelManager;
       const pipeline = {
         getCatalog: () => undefined,
@@ -429,6 +432,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -627,6 +631,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -813,6 +818,7 @@ describe('LoopRunner', () => {
           saveCompaction: vi.fn(async () => {}),
         }),
         getMaxContextTokens: () => 128000,
+        routeTurn: vi.fn(async () => {}),
         switchModelIfNeeded: vi.fn(async (modelId: string) => {
           if (modelId === 'model-b') {
             currentChatService = {
@@ -907,6 +913,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded,
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -985,6 +992,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded,
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -1063,6 +1071,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded,
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -1153,6 +1162,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -1246,6 +1256,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       let skillExecutions = 0;
@@ -1369,6 +1380,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -1462,6 +1474,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -1555,6 +1568,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -1669,6 +1683,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       let callCount = 0;
@@ -1806,6 +1821,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       let callCount = 0;
@@ -1957,6 +1973,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       let callCount = 0;
@@ -2128,6 +2145,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       let callCount = 0;
@@ -2232,6 +2250,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       const pipeline = {
@@ -2319,6 +2338,7 @@ describe('LoopRunner', () => {
           inputApplication: {
             inputId: initialInputId,
             requestId,
+            messageId: MessageId('initial-message'),
           },
         },
       );
@@ -2332,6 +2352,7 @@ describe('LoopRunner', () => {
         'Initial request',
         null,
         undefined,
+        'initial-message',
       );
       expect(mm._contextMgr.saveAppliedInputMessage).toHaveBeenNthCalledWith(
         2,
@@ -2347,6 +2368,7 @@ describe('LoopRunner', () => {
         'Initial request',
         'Apply this correction',
       ]);
+      expect(modelMessages.at(-2)?.id).toBe('initial-message');
       expect(inbox.size).toBe(0);
     });
 
@@ -2422,6 +2444,7 @@ describe('LoopRunner', () => {
         }),
         getMaxContextTokens: () => 128000,
         switchModelIfNeeded: vi.fn(async () => {}),
+        routeTurn: vi.fn(async () => {}),
       } as unknown as MockModelManager;
 
       let callCount = 0;
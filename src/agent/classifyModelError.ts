@@ -0,0 +1,68 @@
+import {
+  CannotRetryError,
+  extractStatusCode,
+  FallbackTriggeredError,
+  is529Error,
+} from '../services/RetryPolicy.js';
+import type { ModelFallbackReason } from '../types/common.js';
+import { isOverflowRecoverable } from './isOverflowRecoverable.js';
+
+const OVERLOADED_PATTERNS = ['overloaded', 'service unavailable'];
+const RATE_LIMIT_PATTERNS = ['rate limit', 'rate_limit', 'too many requests', 'quota exceeded'];
+const AUTH_PATTERNS = [
+  'unauthorized',
+  'invalid api key',
+  'invalid x-api-key',
+  'incorrect api key',
+  'authentication',
+  'permission denied',
+];
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
+}
+
+function classifySingleError(error: unknown): ModelFallbackReason | undefined {
+  if (error instanceof FallbackTriggeredError || is529Error(error)) {
+    return 'overloaded';
+  }
+
+  const statusCode = extractStatusCode(error);
+  if (statusCode === 503) return 'overloaded';
+  if (statusCode === 429) return 'rate_limited';
+  if (statusCode === 401 || statusCode === 403) return 'auth_failed';
+
+  const message = getErrorMessage(error);
+  if (RATE_LIMIT_PATTERNS.some((pattern) => message.includes(pattern))) return 'rate_limited';
+  if (OVERLOADED_PATTERNS.some((pattern) => message.includes(pattern))) return 'overloaded';
+  if (AUTH_PATTERNS.some((pattern) => message.includes(pattern))) return 'auth_failed';
+  return undefined;
+}
+
+/**
+ * 把模型请求失败归类为 fallback 错误类别；无法归类（如网络中断、请求参数错误）时返回 undefined
+ *
+ * 会展开 CannotRetryError 与 `cause` 链，按最先匹配的类别返回。
+ */
+export function classifyModelError(error: unknown): ModelFallbackReason | undefined {
+  if (isOverflowRecoverable(error)) {
+    return 'context_overflow';
+  }
+
+  let current: unknown = error;
+  const seen = new Set<unknown>();
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+    const reason = classifySingleError(current);
+    if (reason) {
+      return reason;
+    }
+    current =
+      current instanceof CannotRetryError
+        ? current.originalError
+        : current instanceof Error
+          ? current.cause
+          : undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,88 @@
+/**
+ * observeChatService — 透明包装 IChatService，把主循环收到的模型响应交给观察者
+ *
+ * - streamChat：按原样透传 chunk，流正常结束（含调用方在 finishReason 处提前 break）后上报
+ * - chat / chatWithRetryEvents：把最终 ChatResponse 作为单个 chunk 上报
+ * - 失败、中止或 0-chunk（随后会回退到 chat）的流不上报
+ * - sideQuery 不属于主循环，直接透传
+ */
+
+import type {
+  ChatResponse,
+  IChatService,
+  StreamChunk,
+} from '../../services/ChatServiceInterface.js';
+
+export interface ObservedModelResponse {
+  /** true when the chunks came from streamChat. */
+  streamed: boolean;
+  /** Tool names offered to the model for this call. */
+  tools: string[];
+  chunks: StreamChunk[];
+}
+
+export interface ModelResponseObserver {
+  onModelResponse(response: ObservedModelResponse): Promise<void>;
+}
+
+export function chatResponseToStreamChunk(response: ChatResponse): StreamChunk {
+  return {
+    content: response.content,
+    ...(response.reasoningContent ? { reasoningContent: response.reasoningContent } : {}),
+    ...(response.toolCalls?.length ? { toolCalls: response.toolCalls } : {}),
+    ...(response.usage ? { usage: response.usage } : {}),
+  };
+}
+
+export function observeChatService(
+  service: IChatService,
+  observer: ModelResponseObserver,
+): IChatService {
+  const toolNames = (tools: Parameters<IChatService['chat']>[1]) =>
+    (tools ?? []).map((tool) => tool.name);
+  const observeChat = async (
+    response: ChatResponse,
+    tools: Parameters<IChatService['chat']>[1],
+  ): Promise<ChatResponse> => {
+    await observer.onModelResponse({
+      streamed: false,
+      tools: toolNames(tools),
+      chunks: [chatResponseToStreamChunk(response)],
+    });
+    return response;
+  };
+
+  const observed: IChatService = {
+    chat: async (messages, tools, signal) =>
+      observeChat(await service.chat(messages, tools, signal), tools),
+    sideQuery: (messages, signal, options) => service.sideQuery(messages, signal, options),
+    async *streamChat(messages, tools, signal) {
+      const chunks: StreamChunk[] = [];
+      let failed = false;
+      try {
+        for await (const chunk of service.streamChat(messages, tools, signal)) {
+          chunks.push(chunk);
+          yield chunk;
+        }
+      } catch (error) {
+        failed = true;
+        throw error;
+      } finally {
+        if (!failed && !signal?.aborted && chunks.length > 0) {
+          await observer.onModelResponse({ streamed: true, tools: toolNames(tools), chunks });
+        }
+      }
+    },
+    getConfig: () => service.getConfig(),
+    updateConfig: (config) => service.updateConfig(config),
+  };
+
+  const chatWithRetryEvents = service.chatWithRetryEvents?.bind(service);
+  if (chatWithRetryEvents) {
+    observed.chatWithRetryEvents = async function* (messages, tools, signal) {
+      const response = yield* chatWithRetryEvents(messages, tools, signal);
+      return observeChat(response, tools);
+    };
+  }
+  return observed;
+}
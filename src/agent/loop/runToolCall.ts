@@ -1,5 +1,7 @@
+import type { HookSessionServices } from '../../hooks/types/HookTypes.js';
 import { type InternalLogger, LogCategory, NOOP_LOGGER } from '../../logging/Logger.js';
 import type { ContextSnapshot } from '../../runtime/index.js';
+import type { SkillRegistry } from '../../skills/SkillRegistry.js';
 import type { ToolCatalog } from '../../tools/catalog/index.js';
 import type { ExecutionPipeline } from '../../tools/execution/ExecutionPipeline.js';
 import type { ToolRegistry } from '../../tools/registry/ToolRegistry.js';
@@ -83,6 +85,8 @@ export interface ToolExecutionContext {
   toolRegistry?: ToolRegistry;
   discoveredTools?: string[];
   lifecycle?: ToolExecutionLifecycle;
+  hookServices?: HookSessionServices;
+  skillRegistry?: SkillRegistry;
 }
 
 export interface ToolExecutionHooks {
@@ -194,6 +198,7 @@ export async function runToolCall(input: RunToolCallInput): Promise<ToolExecutio
       execution = input.executionPipeline.execute(input.toolCall.function.name, params, {
         sessionId: input.executionContext.sessionId,
         userId: input.executionContext.userId,
+        toolCallId: ToolUseId(input.toolCall.id),
         contextSnapshot: input.executionContext.contextSnapshot,
         skillActivationPaths: input.executionContext.skillActivationPaths,
         signal: interruptSignal.signal,
@@ -203,6 +208,8 @@ export async function runToolCall(input: RunToolCallInput): Promise<ToolExecutio
         toolCatalog: input.executionContext.toolCatalog,
         toolRegistry: input.executionContext.toolRegistry,
         discoveredTools: input.executionContext.discoveredTools,
+        hookServices: input.executionContext.hookServices,
+        skillRegistry: input.executionContext.skillRegistry,
         permissionMode: input.permissionMode,
         toolInvocationLifecycle: invocationLifecycle,
       });
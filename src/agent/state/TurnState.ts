@@ -1,6 +1,8 @@
 import type { JSONSchema7 } from 'json-schema';
+import type { HookSessionServices } from '../../hooks/types/HookTypes.js';
 import type { ContextSnapshot } from '../../runtime/index.js';
 import type { IChatService, Message } from '../../services/ChatServiceInterface.js';
+import type { SkillRegistry } from '../../skills/SkillRegistry.js';
 import type { ToolCatalog } from '../../tools/catalog/index.js';
 import type { ToolRegistry } from '../../tools/registry/ToolRegistry.js';
 import type {
@@ -38,6 +40,8 @@ export interface LoopExecutionContext {
   toolCatalog?: ToolCatalog;
   discoveredTools?: string[];
   lifecycle?: ToolExecutionLifecycle;
+  hookServices?: HookSessionServices;
+  skillRegistry?: SkillRegistry;
 }
 
 export interface TurnState {
@@ -7,11 +7,12 @@ import {
 
 describe('systemSource controlled enum', () => {
   describe('VALID_SYSTEM_SOURCES', () => {
-    it('contains exactly the three expected values', () => {
+    it('contains exactly the four expected values', () => {
       expect([...VALID_SYSTEM_SOURCES]).toEqual([
         'catalog',
         'tool_injection',
         'compaction_summary',
+        'instructions',
       ]);
     });
   });
@@ -21,6 +22,7 @@ describe('systemSource controlled enum', () => {
       ['catalog', true],
       ['tool_injection', true],
       ['compaction_summary', true],
+      ['instructions', true],
       ['unknown', false],
       ['', false],
       ['CATALOG', false],       // case-sensitive
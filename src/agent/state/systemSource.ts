@@ -4,7 +4,12 @@
  * _systemSource 是内部保留字段（语义标记），不是不可伪造的安全边界。
  * 入口归一化只接受这些枚举值，其余一律删除。
  */
-export const VALID_SYSTEM_SOURCES = ['catalog', 'tool_injection', 'compaction_summary'] as const;
+export const VALID_SYSTEM_SOURCES = [
+  'catalog',
+  'tool_injection',
+  'compaction_summary',
+  'instructions',
+] as const;
 
 export type SystemSource = (typeof VALID_SYSTEM_SOURCES)[number];
 
@@ -14,6 +14,7 @@ import { join } from 'node:path';
 import { type InternalLogger, LogCategory, NOOP_LOGGER } from '../../logging/Logger.js';
 import type { ContextSnapshot } from '../../runtime/index.js';
 import type { Message } from '../../services/ChatServiceInterface.js';
+import type { SkillRegistry } from '../../skills/SkillRegistry.js';
 import { AgentId } from '../../types/branded.js';
 import type { BladeConfig, PermissionMode } from '../../types/common.js';
 import type {
@@ -60,6 +61,9 @@ export interface StartBackgroundAgentOptions {
   /** 当前会话生效的 subagent 注册表 */
   subagentRegistry?: SubagentRegistry;
 
+  /** 当前会话生效的 skill 注册表 */
+  skillRegistry?: SkillRegistry;
+
   /** 任务描述 */
   description: string;
 
@@ -152,6 +156,7 @@ export class BackgroundAgentManager {
       config,
       bladeConfig,
       subagentRegistry,
+      skillRegistry,
       description,
       prompt,
       parentSessionId,
@@ -203,6 +208,7 @@ export class BackgroundAgentManager {
       config,
       bladeConfig,
       subagentRegistry,
+      skillRegistry,
       prompt,
       parentSessionId,
       permissionMode,
@@ -239,6 +245,7 @@ export class BackgroundAgentManager {
     config: SubagentConfig,
     bladeConfig: BladeConfig,
     subagentRegistry: SubagentRegistry | undefined,
+    skillRegistry: SkillRegistry | undefined,
     prompt: string,
     parentSessionId: string | undefined,
     permissionMode: PermissionMode | undefined,
@@ -259,6 +266,7 @@ export class BackgroundAgentManager {
         config,
         bladeConfig,
         subagentRegistry,
+        skillRegistry,
         prompt,
         agentId,
         parentSessionId,
@@ -445,6 +453,7 @@ export class BackgroundAgentManager {
     permissionMode?: PermissionMode,
     subagentRegistry?: SubagentRegistry,
     description?: string,
+    skillRegistry?: SkillRegistry,
   ): string | undefined {
     const session = this.sessionStore.loadSession(agentId);
 
@@ -462,6 +471,7 @@ export class BackgroundAgentManager {
       config,
       bladeConfig,
       subagentRegistry,
+      skillRegistry,
       description: description ?? session.description,
       prompt: newPrompt,
       parentSessionId: parentSessionId || session.parentSessionId,
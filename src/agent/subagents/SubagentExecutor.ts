@@ -1,4 +1,5 @@
 import { nanoid } from 'nanoid';
+import type { SkillRegistry } from '../../skills/SkillRegistry.js';
 import type { BladeConfig } from '../../types/common.js';
 import type { SubagentRegistry } from './SubagentRegistry.js';
 import type { SubagentConfig, SubagentContext, SubagentResult } from './types.js';
@@ -18,6 +19,7 @@ export class SubagentExecutor {
     private config: SubagentConfig,
     private bladeConfig: BladeConfig,
     private readonly subagentRegistry?: SubagentRegistry,
+    private readonly skillRegistry?: SkillRegistry,
   ) {}
 
   /**
@@ -34,6 +36,7 @@ export class SubagentExecutor {
         config: this.config,
         bladeConfig: this.bladeConfig,
         subagentRegistry: this.subagentRegistry,
+        skillRegistry: this.skillRegistry,
         prompt: context.prompt,
         agentId,
         parentSessionId: context.parentSessionId,
@@ -1,8 +1,11 @@
+import { TokenCounter } from '../../context/TokenCounter.js';
 import { SessionId } from '../../types/branded.js';
 import type { BladeConfig, PermissionMode } from '../../types/common.js';
 import type { ContextSnapshot } from '../../runtime/index.js';
 import type { Message } from '../../services/ChatServiceInterface.js';
+import type { SkillRegistry } from '../../skills/SkillRegistry.js';
 import { Agent } from '../Agent.js';
+import { routeModel } from '../ModelManager.js';
 import type { AgentProgress, LoopResult } from '../types.js';
 import type { SubagentRegistry } from './SubagentRegistry.js';
 import type { SubagentConfig } from './types.js';
@@ -11,6 +14,7 @@ export interface RunSubagentOptions {
   config: SubagentConfig;
   bladeConfig: BladeConfig;
   subagentRegistry?: SubagentRegistry;
+  skillRegistry?: SkillRegistry;
   prompt: string;
   agentId: string;
   parentSessionId?: string;
@@ -26,6 +30,26 @@ function resolveModelId(config: SubagentConfig): string | undefined {
   return config.model && config.model !== 'inherit' ? config.model : undefined;
 }
 
+/** 子 Agent 创建时调用模型路由策略；未路由时使用定义中声明的模型 */
+async function routeSubagentModel(options: RunSubagentOptions): Promise<string | undefined> {
+  const { config, bladeConfig, prompt, messages, snapshot } = options;
+  const modelId = resolveModelId(config);
+  if (!bladeConfig.modelRouter) return modelId;
+  const currentModelId = modelId ?? bladeConfig.currentModelId ?? bladeConfig.models[0]?.id ?? '';
+  const currentModel = bladeConfig.models.find((m) => m.id === currentModelId);
+  const routed = await routeModel(bladeConfig, {
+    source: 'agent',
+    currentModelId,
+    estimatedInputTokens: TokenCounter.countTokens(
+      [...(messages ?? []), { role: 'user', content: prompt }],
+      currentModel?.model ?? currentModelId,
+    ),
+    subagentType: config.name,
+    metadata: snapshot?.context.metadata,
+  });
+  return routed?.id ?? modelId;
+}
+
 /**
  * 创建子 Agent 并运行一轮 agentic loop。
  *
@@ -38,6 +62,7 @@ export async function runSubagent(options: RunSubagentOptions): Promise<LoopResu
     config,
     bladeConfig,
     subagentRegistry,
+    skillRegistry,
     prompt,
     agentId,
     parentSessionId,
@@ -53,10 +78,11 @@ export async function runSubagent(options: RunSubagentOptions): Promise<LoopResu
     bladeConfig,
     {
       toolWhitelist: config.tools,
-      modelId: resolveModelId(config),
+      modelId: await routeSubagentModel(options),
     },
     {
       subagentRegistry,
+      skillRegistry,
       defaultContext: snapshot ? snapshot.context : {},
     },
   );
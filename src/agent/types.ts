@@ -6,10 +6,11 @@ import type { ContextSnapshot } from '../runtime/index.js';
 import type { ContentPart, Message } from '../services/ChatServiceInterface.js';
 import type { ToolCatalogSourcePolicy } from '../tools/catalog/index.js';
 import type { ConfirmationHandler, ToolExecutionLifecycle } from '../tools/types/ExecutionTypes.js';
-import type { AgentId, InputId, RequestId, SessionId } from '../types/branded.js';
+import type { AgentId, InputId, MessageId, RequestId, SessionId } from '../types/branded.js';
 import type { OutputFormat, PermissionMode, PermissionsConfig, SandboxSettings } from '../types/common.js';
 import type { CanUseTool, PermissionHandler } from '../types/permissions.js';
 import type { AgentRunControl } from './AgentRunControl.js';
+import type { ModelResponseObserver } from './loop/observeChatService.js';
 import type { AgentSession } from './subagents/AgentSessionStore.js';
 import type { StartBackgroundAgentOptions } from './subagents/BackgroundAgentManager.js';
 import type { TokenBudgetConfig, TokenBudgetSnapshot } from './TokenBudget.js';
@@ -132,6 +133,8 @@ export interface LoopOptions {
   inputApplication?: {
     inputId: InputId;
     requestId: RequestId;
+    /** ID of the user message, written to history and used as its rewind checkpoint. */
+    messageId?: MessageId;
   };
   /** @internal Applies the same attachment and skill preparation as initial input. */
   prepareInput?: (input: UserMessageContent) => Promise<UserMessageContent>;
@@ -139,6 +142,8 @@ export interface LoopOptions {
   runControl?: AgentRunControl;
   /** @internal Session-owned durable tool lifecycle recorder. */
   toolExecutionLifecycle?: ToolExecutionLifecycle;
+  /** @internal Session-owned durable model response recorder. */
+  modelResponseObserver?: ModelResponseObserver;
   onTurnLimitReached?: (data: { turnsCount: number }) => Promise<TurnLimitResponse>;
   /** 进度回调，每次 tool call 完成后触发 */
   onProgress?: (progress: AgentProgress) => void;
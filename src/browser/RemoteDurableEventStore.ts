@@ -0,0 +1,95 @@
+import {
+  type DurableEventStore,
+  DurableEventStoreError,
+  type DurableEventStoreErrorCode,
+} from '../session/events/DurableEventStore.js';
+import { DurableEventSubscriptionError } from '../session/events/DurableEventSubscription.js';
+import type {
+  DurableEventAppendResult,
+  DurableEventPage,
+  DurableEventReadOptions,
+} from '../session/events/types.js';
+import type { DurableEventHeadResponse } from '../session/remote/protocol.js';
+import type { EventSequence, SessionId } from '../types/branded.js';
+import { RemoteSessionError, type SessionServerTransport } from './SessionServerTransport.js';
+
+const STORE_ERROR_CODES: ReadonlySet<string> = new Set<DurableEventStoreErrorCode>([
+  'DURABLE_EVENT_CORRUPT_LOG',
+  'DURABLE_EVENT_INVALID_APPEND',
+  'DURABLE_EVENT_INVALID_CURSOR',
+  'DURABLE_EVENT_READ_FAILED',
+  'DURABLE_EVENT_WRITE_FAILED',
+]);
+
+/**
+ * Read-only DurableEventStore backed by the Session server's `/events` routes.
+ *
+ * 用于在浏览器侧复用 DurableEventSubscription 的回放、游标校验与轮询语义；
+ * 写入只能发生在服务端。
+ */
+export class RemoteDurableEventStore implements DurableEventStore {
+  constructor(private readonly transport: SessionServerTransport) {}
+
+  async append(): Promise<DurableEventAppendResult> {
+    throw new DurableEventStoreError(
+      'DURABLE_EVENT_INVALID_APPEND',
+      'Remote durable event stores are read-only',
+    );
+  }
+
+  async read(
+    sessionId: SessionId,
+    options: DurableEventReadOptions = {},
+  ): Promise<DurableEventPage> {
+    const query = new URLSearchParams();
+    if (options.after !== undefined) {
+      query.set('after', String(options.after));
+    }
+    if (options.limit !== undefined) {
+      query.set('limit', String(options.limit));
+    }
+    const search = query.toString();
+    const suffix = search ? `/events?${search}` : '/events';
+    return this.call(() =>
+      this.transport.json<DurableEventPage>('GET', this.transport.sessionPath(sessionId, suffix)),
+    );
+  }
+
+  async getHeadSequence(sessionId: SessionId): Promise<EventSequence | null> {
+    const { headSequence } = await this.call(() =>
+      this.transport.json<DurableEventHeadResponse>(
+        'GET',
+        this.transport.sessionPath(sessionId, '/events/head'),
+      ),
+    );
+    return headSequence;
+  }
+
+  private async call<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof RemoteSessionError) || !error.serverCode) {
+        throw new DurableEventStoreError(
+          'DURABLE_EVENT_READ_FAILED',
+          error instanceof Error ? error.message : String(error),
+          { cause: error },
+        );
+      }
+      if (error.serverCode === 'DURABLE_EVENT_SUBSCRIPTION_NOT_CONFIGURED') {
+        throw new DurableEventSubscriptionError(
+          'DURABLE_EVENT_SUBSCRIPTION_NOT_CONFIGURED',
+          error.message,
+          { cause: error },
+        );
+      }
+      throw new DurableEventStoreError(
+        STORE_ERROR_CODES.has(error.serverCode)
+          ? (error.serverCode as DurableEventStoreErrorCode)
+          : 'DURABLE_EVENT_READ_FAILED',
+        error.message,
+        { cause: error },
+      );
+    }
+  }
+}
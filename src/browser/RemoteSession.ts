@@ -0,0 +1,804 @@
+import type { UserMessageContent } from '../agent/types.js';
+import type { AgentTrace } from '../observability/index.js';
+import type { RuntimeContext } from '../runtime/index.js';
+import type { Message } from '../services/ChatServiceInterface.js';
+import type {
+  DurableSessionProjection,
+  DurableSessionRecoveryPlan,
+} from '../session/events/DurableSessionProjector.js';
+import {
+  DurableEventSubscription,
+  type DurableEventSubscriptionOptions,
+} from '../session/events/DurableEventSubscription.js';
+import type {
+  AbortSessionRequest,
+  CancelInputResponse,
+  CreateSessionResponse,
+  ForkSessionRequest,
+  RemotePermissionRequest,
+  RemotePermissionResult,
+  RewindSessionRequest,
+  RewindSessionResponse,
+  SendInputRequest,
+  SessionMessagesResponse,
+  SessionStateResponse,
+  SessionStreamEvent,
+} from '../session/remote/protocol.js';
+import type {
+  ForkSessionOptions,
+  InputSubmission,
+  ISession,
+  McpServerStatus,
+  McpToolInfo,
+  ModelInfo,
+  PendingSessionInput,
+  RewindOptions,
+  RewindResult,
+  SendOptions,
+  StreamMessage,
+  StreamOptions,
+} from '../session/types.js';
+import type { InputId, PermissionRequestId, RequestId, SessionId } from '../types/branded.js';
+import type { PermissionMode } from '../types/common.js';
+import type { PermissionHandler, PermissionResult } from '../types/permissions.js';
+import { RemoteDurableEventStore } from './RemoteDurableEventStore.js';
+import {
+  RemoteSessionError,
+  SessionServerTransport,
+  type SessionServerTransportOptions,
+} from './SessionServerTransport.js';
+import { readServerSentEvents } from './sse.js';
+
+const DEFAULT_RECONNECT_DELAY_MS = 1_000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+/** Statuses worth reconnecting after; anything else is reported to the caller. */
+const RETRYABLE_STATUSES: ReadonlySet<number> = new Set([408, 429, 502, 503, 504]);
+/** Requests of other clients (or not yet claimed by send()) kept in memory. */
+const MAX_UNCLAIMED_REQUESTS = 32;
+const MAX_UNCLAIMED_FRAMES = 1_000;
+
+export interface RemoteSessionOptions extends SessionServerTransportOptions {
+  /**
+   * Answers permission prompts the server forwards for this Session.
+   *
+   * The server's own permission policy runs first; only its `ask` results (or
+   * every tool call, when the server has none) reach this handler. Returned
+   * ToolEffects are not sent to the server.
+   */
+  permissionHandler?: PermissionHandler;
+  /**
+   * Delay before reconnecting a dropped event stream. Doubles after each
+   * consecutive failure, up to 30 seconds. Defaults to 1 second.
+   */
+  reconnectDelayMs?: number;
+  /** Consecutive failed reconnects before the client gives up. Defaults to 5. */
+  maxReconnectAttempts?: number;
+}
+
+export interface ResumeRemoteSessionOptions extends RemoteSessionOptions {
+  sessionId: SessionId;
+}
+
+const REQUEST_END = Symbol('request_end');
+
+type StreamFrame = StreamMessage | typeof REQUEST_END;
+
+/** A request started or queued by this client's send(). */
+interface OwnedRequest {
+  inputId: InputId;
+  /** Unknown for queued `later` input until the server starts the request. */
+  requestId?: RequestId;
+  /** Thrown from stream() instead of reading frames. */
+  failure?: unknown;
+  /** Removes the send() signal listener once the request has finished. */
+  detachSignal?: () => void;
+}
+
+/** Frames received for one request, in arrival order. */
+interface RequestFrames {
+  inputIds: InputId[];
+  frames: StreamFrame[];
+  ended: boolean;
+  /** Frames were dropped because no send() of this client claimed the request. */
+  overflowed: boolean;
+}
+
+/**
+ * ISession implementation backed by a Session server over HTTP/SSE.
+ *
+ * 服务端在 send() 后立即执行请求，因此客户端在连接时就打开事件流并按请求 ID 缓冲消息，
+ * stream() 只读取本客户端发起的请求，直到其 request_end，与本地 Session 的调用方式一致。
+ * 实时消息断线后无法重放：断线时仍在运行的请求会让对应的 stream() 抛出
+ * REMOTE_SESSION_STREAM_INTERRUPTED，而不是无限等待。
+ */
+class RemoteSession implements ISession {
+  readonly sessionId: SessionId;
+  private _messages: Message[] = [];
+  private pendingInputs: PendingSessionInput[] = [];
+  private defaultContext: RuntimeContext = {};
+  private closed = false;
+  private streaming = false;
+  /** Requests started or queued by this client, oldest first, until stream() reads them. */
+  private readonly ownedRequests: OwnedRequest[] = [];
+  private readonly requests = new Map<RequestId, RequestFrames>();
+  private frameWaiter: (() => void) | null = null;
+  /** Set when the event stream cannot be reopened; later sends fail with it. */
+  private streamFailure: unknown;
+  private readonly streamController = new AbortController();
+  private readonly permissionControllers = new Map<PermissionRequestId, AbortController>();
+  private commandTail: Promise<void> = Promise.resolve();
+  private commandError: unknown;
+
+  private constructor(
+    sessionId: SessionId,
+    private readonly transport: SessionServerTransport,
+    private readonly options: RemoteSessionOptions,
+  ) {
+    this.sessionId = sessionId;
+  }
+
+  static async connect(
+    sessionId: SessionId,
+    options: RemoteSessionOptions,
+  ): Promise<RemoteSession> {
+    const session = new RemoteSession(sessionId, new SessionServerTransport(options), options);
+    try {
+      await session.refresh();
+      await session.openEventStream();
+    } catch (error) {
+      session.streamController.abort();
+      throw error;
+    }
+    return session;
+  }
+
+  get messages(): Message[] {
+    return this._messages;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  async send(message: UserMessageContent, options?: SendOptions): Promise<InputSubmission> {
+    this.assertOpen();
+    if (this.streamFailure !== undefined) {
+      throw this.streamFailure;
+    }
+    await this.flushCommands();
+    const body: SendInputRequest = {
+      message,
+      ...(options?.priority ? { priority: options.priority } : {}),
+      ...(options?.expectedRequestId ? { expectedRequestId: options.expectedRequestId } : {}),
+      ...(options?.maxTurns !== undefined ? { maxTurns: options.maxTurns } : {}),
+      ...(options?.context ? { context: options.context } : {}),
+    };
+    const submission = await this.transport.json<InputSubmission>(
+      'POST',
+      this.path('/inputs'),
+      body,
+    );
+    if (submission.status !== 'steered') {
+      const request: OwnedRequest = {
+        inputId: submission.inputId,
+        ...(submission.status === 'started' ? { requestId: submission.requestId } : {}),
+      };
+      this.ownedRequests.push(request);
+      this.wakeFrameWaiter();
+      if (options?.signal) {
+        this.watchSignal(request, options.signal);
+      }
+    }
+    await this.refreshPendingInputs();
+    return submission;
+  }
+
+  getPendingInputs(): readonly PendingSessionInput[] {
+    return this.pendingInputs;
+  }
+
+  async cancelInput(inputId: InputId): Promise<boolean> {
+    this.assertOpen();
+    const { cancelled } = await this.transport.json<CancelInputResponse>(
+      'DELETE',
+      this.path(`/inputs/${encodeURIComponent(inputId)}`),
+    );
+    const owned = this.ownedRequests.find((request) => request.inputId === inputId);
+    if (cancelled && owned) {
+      this.releaseRequest(owned);
+    }
+    await this.refreshPendingInputs();
+    return cancelled;
+  }
+
+  async *stream(options?: StreamOptions): AsyncGenerator<StreamMessage> {
+    const request = this.ownedRequests[0];
+    if (this.streaming || !request) {
+      throw new Error('No pending message. Call send() before stream().');
+    }
+    this.streaming = true;
+    try {
+      while (true) {
+        const frame = await this.nextFrame(request);
+        if (frame === null) {
+          return;
+        }
+        if (frame === REQUEST_END) {
+          this.releaseRequest(request);
+          await this.refresh();
+          return;
+        }
+        if (frame.type === 'thinking' && !options?.includeThinking) {
+          continue;
+        }
+        yield frame;
+      }
+    } finally {
+      this.streaming = false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    try {
+      await this.flushCommands();
+      await this.transport.send('DELETE', this.path());
+    } catch (error) {
+      // 会话可能已被其他客户端关闭。
+      if (!(error instanceof RemoteSessionError) || error.status !== 404) {
+        throw error;
+      }
+    } finally {
+      this.markClosed();
+    }
+  }
+
+  async abort(): Promise<void> {
+    this.assertOpen();
+    await this.transport.send('POST', this.path('/abort'));
+  }
+
+  getDefaultContext(): RuntimeContext {
+    return structuredClone(this.defaultContext);
+  }
+
+  setDefaultContext(context: RuntimeContext): void {
+    this.defaultContext = structuredClone(context);
+    this.enqueueCommand(() =>
+      this.transport.send('PUT', this.path('/default-context'), {
+        body: JSON.stringify({ context }),
+      }),
+    );
+  }
+
+  setPermissionMode(mode: PermissionMode): void {
+    this.enqueueCommand(() =>
+      this.transport.send('PUT', this.path('/permission-mode'), {
+        body: JSON.stringify({ mode }),
+      }),
+    );
+  }
+
+  async setModel(model: string): Promise<void> {
+    this.assertOpen();
+    await this.flushCommands();
+    await this.transport.send('PUT', this.path('/model'), { body: JSON.stringify({ model }) });
+  }
+
+  setMaxTurns(maxTurns: number): void {
+    this.enqueueCommand(() =>
+      this.transport.send('PUT', this.path('/max-turns'), { body: JSON.stringify({ maxTurns }) }),
+    );
+  }
+
+  supportedModels(): Promise<ModelInfo[]> {
+    return this.transport.json<ModelInfo[]>('GET', this.path('/models'));
+  }
+
+  mcpServerStatus(): Promise<McpServerStatus[]> {
+    return Promise.reject(unsupported('mcpServerStatus'));
+  }
+
+  mcpConnect(_serverName: string): Promise<void> {
+    return Promise.reject(unsupported('mcpConnect'));
+  }
+
+  mcpDisconnect(_serverName: string): Promise<void> {
+    return Promise.reject(unsupported('mcpDisconnect'));
+  }
+
+  mcpReconnect(_serverName: string): Promise<void> {
+    return Promise.reject(unsupported('mcpReconnect'));
+  }
+
+  mcpListTools(): Promise<McpToolInfo[]> {
+    return Promise.reject(unsupported('mcpListTools'));
+  }
+
+  async fork(options?: ForkSessionOptions): Promise<ISession> {
+    this.assertOpen();
+    await this.flushCommands();
+    const body: ForkSessionRequest = options?.messageId ? { messageId: options.messageId } : {};
+    const { sessionId } = await this.transport.json<CreateSessionResponse>(
+      'POST',
+      this.path('/fork'),
+      body,
+    );
+    return RemoteSession.connect(sessionId, this.options);
+  }
+
+  async rewind(messageId: string, options?: RewindOptions): Promise<RewindResult> {
+    this.assertOpen();
+    await this.flushCommands();
+    const body: RewindSessionRequest = { messageId, ...options };
+    const result = await this.transport.json<RewindSessionResponse>(
+      'POST',
+      this.path('/rewind'),
+      body,
+    );
+    await this.refresh();
+    return result;
+  }
+
+  /** Traces are recorded on the server; remote clients do not receive them. */
+  getLastTrace(): AgentTrace | undefined {
+    return undefined;
+  }
+
+  getTraces(): AgentTrace[] {
+    return [];
+  }
+
+  /** Use subscribeDurableEvents() to observe durable state remotely. */
+  getDurableProjection(): DurableSessionProjection | null {
+    return null;
+  }
+
+  getDurableRecoveryPlan(): DurableSessionRecoveryPlan | null {
+    return null;
+  }
+
+  subscribeDurableEvents(
+    options?: DurableEventSubscriptionOptions,
+  ): Promise<DurableEventSubscription> {
+    return DurableEventSubscription.open(
+      new RemoteDurableEventStore(this.transport),
+      this.sessionId,
+      options,
+    );
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.close();
+  }
+
+  private path(suffix = ''): string {
+    return this.transport.sessionPath(this.sessionId, suffix);
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new RemoteSessionError('REMOTE_SESSION_CLOSED', `Session ${this.sessionId} is closed`);
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const [state, messages] = await Promise.all([
+      this.transport.json<SessionStateResponse>('GET', this.path()),
+      this.transport.json<SessionMessagesResponse>('GET', this.path('/messages')),
+    ]);
+    this.pendingInputs = state.pendingInputs;
+    this.defaultContext = state.defaultContext;
+    this._messages = messages;
+  }
+
+  private async refreshPendingInputs(): Promise<void> {
+    this.pendingInputs = await this.transport.json<PendingSessionInput[]>(
+      'GET',
+      this.path('/inputs'),
+    );
+  }
+
+  /** Runs fire-and-forget setters in order; the next awaited call reports their failure. */
+  private enqueueCommand(command: () => Promise<unknown>): void {
+    this.assertOpen();
+    this.commandTail = this.commandTail.then(async () => {
+      try {
+        await command();
+      } catch (error) {
+        this.commandError ??= error;
+      }
+    });
+  }
+
+  private async flushCommands(): Promise<void> {
+    await this.commandTail;
+    const error = this.commandError;
+    this.commandError = undefined;
+    if (error !== undefined) {
+      throw error;
+    }
+  }
+
+  private async nextFrame(request: OwnedRequest): Promise<StreamFrame | null> {
+    while (true) {
+      const buffered = this.claimFrames(request);
+      if (buffered?.overflowed) {
+        request.failure ??= new RemoteSessionError(
+          'REMOTE_SESSION_STREAM_INTERRUPTED',
+          `Messages of request ${request.requestId} were dropped before this client claimed it`,
+        );
+      }
+      if (request.failure !== undefined) {
+        this.releaseRequest(request);
+        throw request.failure;
+      }
+      const frame = buffered?.frames.shift();
+      if (frame !== undefined) {
+        return frame;
+      }
+      if (this.closed) {
+        return null;
+      }
+      await new Promise<void>((resolve) => {
+        this.frameWaiter = resolve;
+      });
+    }
+  }
+
+  /** Resolves a queued request's ID from request_start and returns its frames. */
+  private claimFrames(request: OwnedRequest): RequestFrames | undefined {
+    request.requestId ??= [...this.requests].find(([, entry]) =>
+      entry.inputIds.includes(request.inputId),
+    )?.[0];
+    return request.requestId ? this.requests.get(request.requestId) : undefined;
+  }
+
+  /**
+   * 信号无法跨进程传递：中止时只作用于这条输入所属的请求——仍在排队则撤回输入，
+   * 已开始则按请求 ID abort；请求结束后移除监听，之后的中止不会波及其他请求。
+   */
+  private watchSignal(request: OwnedRequest, signal: AbortSignal): void {
+    const onAbort = () => void this.abortOwnedRequest(request).catch(() => undefined);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    request.detachSignal = () => signal.removeEventListener('abort', onAbort);
+  }
+
+  private async abortOwnedRequest(request: OwnedRequest): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.claimFrames(request);
+    if (request.requestId === undefined && (await this.cancelInput(request.inputId))) {
+      return;
+    }
+    // 撤回失败说明请求已开始，此时 request_start 可能已经到达
+    this.claimFrames(request);
+    if (request.requestId === undefined) {
+      return;
+    }
+    const body: AbortSessionRequest = { requestId: request.requestId };
+    await this.transport.send('POST', this.path('/abort'), { body: JSON.stringify(body) });
+  }
+
+  private detachSignal(request: OwnedRequest): void {
+    request.detachSignal?.();
+    request.detachSignal = undefined;
+  }
+
+  private releaseRequest(request: OwnedRequest): void {
+    this.detachSignal(request);
+    const index = this.ownedRequests.indexOf(request);
+    if (index !== -1) {
+      this.ownedRequests.splice(index, 1);
+    }
+    if (request.requestId) {
+      this.requests.delete(request.requestId);
+    }
+  }
+
+  private isOwned(requestId: RequestId, entry: RequestFrames): boolean {
+    return this.ownedRequests.some(
+      (request) => request.requestId === requestId || entry.inputIds.includes(request.inputId),
+    );
+  }
+
+  /**
+   * 按请求 ID 取缓冲；send() 的响应可能晚于事件到达，所以未认领的请求也先缓冲，
+   * 但只保留最近的 MAX_UNCLAIMED_REQUESTS 个。
+   */
+  private requestFrames(requestId: RequestId): RequestFrames {
+    let entry = this.requests.get(requestId);
+    if (!entry) {
+      entry = { inputIds: [], frames: [], ended: false, overflowed: false };
+      this.requests.set(requestId, entry);
+      const unclaimed = [...this.requests].filter(([id, frames]) => !this.isOwned(id, frames));
+      for (const [id] of unclaimed.slice(0, -MAX_UNCLAIMED_REQUESTS)) {
+        this.requests.delete(id);
+      }
+    }
+    return entry;
+  }
+
+  private pushFrame(requestId: RequestId, frame: StreamFrame): void {
+    const entry = this.requestFrames(requestId);
+    if (entry.overflowed) {
+      return;
+    }
+    if (entry.frames.length >= MAX_UNCLAIMED_FRAMES && !this.isOwned(requestId, entry)) {
+      entry.overflowed = true;
+      entry.frames = [];
+      return;
+    }
+    entry.frames.push(frame);
+    entry.ended ||= frame === REQUEST_END;
+    this.wakeFrameWaiter();
+  }
+
+  private wakeFrameWaiter(): void {
+    const waiter = this.frameWaiter;
+    this.frameWaiter = null;
+    waiter?.();
+  }
+
+  /**
+   * The connection dropped: frames sent until the reconnect are lost, so
+   * requests that were running fail instead of waiting for request_end.
+   */
+  private interruptRequests(): void {
+    for (const [requestId, entry] of this.requests) {
+      if (entry.ended) {
+        continue;
+      }
+      this.requests.delete(requestId);
+      const owned = this.ownedRequests.find((request) => request.requestId === requestId);
+      if (owned) {
+        owned.failure ??= interruptedError(requestId);
+      }
+    }
+    this.wakeFrameWaiter();
+  }
+
+  /** Fails owned requests that started while the stream was disconnected. */
+  private async recoverOwnedRequests(): Promise<void> {
+    await this.refreshPendingInputs();
+    for (const request of this.ownedRequests) {
+      const pending = this.pendingInputs.find((input) => input.inputId === request.inputId);
+      request.requestId ??= pending?.targetRequestId;
+      if (!pending && !this.claimFrames(request)) {
+        request.failure ??= interruptedError(request.requestId);
+      }
+    }
+    this.wakeFrameWaiter();
+  }
+
+  private failEventStream(error: unknown): void {
+    this.streamFailure = error;
+    for (const request of this.ownedRequests) {
+      request.failure ??= error;
+    }
+    this.wakeFrameWaiter();
+  }
+
+  private markClosed(): void {
+    this.closed = true;
+    this.streamController.abort();
+    for (const controller of this.permissionControllers.values()) {
+      controller.abort();
+    }
+    this.permissionControllers.clear();
+    for (const request of this.ownedRequests) {
+      this.detachSignal(request);
+    }
+    this.wakeFrameWaiter();
+  }
+
+  /** Opens the first stream connection, then keeps it alive in the background. */
+  private async openEventStream(): Promise<void> {
+    const query = new URLSearchParams({ includeThinking: 'true', durable: 'false' });
+    if (this.options.permissionHandler) {
+      query.set('permissions', 'true');
+    }
+    const path = this.path(`/stream?${query}`);
+    const signal = this.streamController.signal;
+    const connect = () => this.transport.send('GET', path, { signal });
+    const first = await connect();
+    void this.followEventStream(first, connect);
+  }
+
+  /**
+   * Reads the event stream and reconnects with exponential backoff; a
+   * successful reconnect resets the backoff. 404 closes the client; other
+   * non-retryable statuses, or `maxReconnectAttempts` failed reconnects in a
+   * row, fail pending stream() calls and later sends with the error.
+   */
+  private async followEventStream(
+    first: Response,
+    connect: () => Promise<Response>,
+  ): Promise<void> {
+    const signal = this.streamController.signal;
+    const baseDelay = this.options.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS;
+    const maxAttempts = this.options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+    let response: Response | null = first;
+    let failures = 0;
+    while (!this.closed) {
+      try {
+        if (!response) {
+          response = await connect();
+          await this.recoverOwnedRequests();
+          failures = 0;
+        }
+        if (response.body) {
+          for await (const event of readServerSentEvents(response.body)) {
+            this.handleStreamEvent(JSON.parse(event.data) as SessionStreamEvent);
+          }
+        }
+      } catch (error) {
+        if (this.closed) {
+          return;
+        }
+        await response?.body?.cancel().catch(() => undefined);
+        if (error instanceof RemoteSessionError && error.status === 404) {
+          this.markClosed();
+          return;
+        }
+        if (!isRetryable(error) || failures >= maxAttempts) {
+          this.interruptRequests();
+          this.failEventStream(error);
+          return;
+        }
+      }
+      response = null;
+      if (this.closed) {
+        return;
+      }
+      this.interruptRequests();
+      await delay(Math.min(baseDelay * 2 ** failures, MAX_RECONNECT_DELAY_MS), signal);
+      failures += 1;
+    }
+  }
+
+  private handleStreamEvent(event: SessionStreamEvent): void {
+    switch (event.type) {
+      case 'request_start':
+        this.requestFrames(event.requestId).inputIds = event.inputIds;
+        this.wakeFrameWaiter();
+        break;
+      case 'message':
+        if (event.message.type === 'input_applied') {
+          const { inputId } = event.message;
+          this.pendingInputs = this.pendingInputs.filter((input) => input.inputId !== inputId);
+        }
+        this.pushFrame(event.requestId, event.message);
+        break;
+      case 'request_end': {
+        this.pushFrame(event.requestId, REQUEST_END);
+        const entry = this.requests.get(event.requestId);
+        for (const request of this.ownedRequests) {
+          if (request.requestId === event.requestId || entry?.inputIds.includes(request.inputId)) {
+            this.detachSignal(request);
+          }
+        }
+        break;
+      }
+      case 'permission_request':
+        void this.answerPermission(event.permissionRequestId, event.request);
+        break;
+      case 'permission_resolved':
+        this.permissionControllers.get(event.permissionRequestId)?.abort();
+        break;
+      case 'closed':
+        this.markClosed();
+        break;
+      case 'durable':
+      case 'caught_up':
+      case 'stream_error':
+        break;
+    }
+  }
+
+  private async answerPermission(
+    permissionRequestId: PermissionRequestId,
+    request: RemotePermissionRequest,
+  ): Promise<void> {
+    const handler = this.options.permissionHandler;
+    // 重连时服务端会重发仍在等待的请求；已在处理中的直接忽略。
+    if (!handler || this.permissionControllers.has(permissionRequestId)) {
+      return;
+    }
+    const controller = new AbortController();
+    this.permissionControllers.set(permissionRequestId, controller);
+    let result: PermissionResult;
+    try {
+      result = await handler({ ...request, signal: controller.signal });
+    } catch (error) {
+      result = {
+        behavior: 'deny',
+        message: `Permission handler failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    } finally {
+      this.permissionControllers.delete(permissionRequestId);
+    }
+    if (controller.signal.aborted) {
+      return;
+    }
+    try {
+      await this.transport.send(
+        'POST',
+        this.path(`/permissions/${encodeURIComponent(permissionRequestId)}`),
+        { body: JSON.stringify({ result: toRemotePermissionResult(result) }) },
+      );
+    } catch {
+      // 请求可能已被其他客户端回答或已取消。
+    }
+  }
+}
+
+/** Creates a Session on a Session server and returns a client for it. */
+export async function createRemoteSession(options: RemoteSessionOptions): Promise<ISession> {
+  const transport = new SessionServerTransport(options);
+  const { sessionId } = await transport.json<CreateSessionResponse>('POST', '/sessions');
+  return RemoteSession.connect(sessionId, options);
+}
+
+/**
+ * Connects to a Session hosted by a Session server, asking the server to
+ * resume it from persistence when it is not already live.
+ */
+export async function resumeRemoteSession(options: ResumeRemoteSessionOptions): Promise<ISession> {
+  const { sessionId, ...clientOptions } = options;
+  const transport = new SessionServerTransport(clientOptions);
+  const resumed = await transport.json<CreateSessionResponse>(
+    'POST',
+    transport.sessionPath(sessionId, '/resume'),
+  );
+  return RemoteSession.connect(resumed.sessionId, clientOptions);
+}
+
+function toRemotePermissionResult(result: PermissionResult): RemotePermissionResult {
+  if (result.behavior !== 'allow') {
+    return result;
+  }
+  const { effects: _effects, ...remote } = result;
+  return remote;
+}
+
+function unsupported(method: string): RemoteSessionError {
+  return new RemoteSessionError(
+    'REMOTE_SESSION_UNSUPPORTED',
+    `${method}() is not available on remote Sessions; MCP servers are managed by the Session server`,
+  );
+}
+
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof RemoteSessionError) || error.status === undefined) {
+    return true;
+  }
+  return RETRYABLE_STATUSES.has(error.status);
+}
+
+function interruptedError(requestId: RequestId | undefined): RemoteSessionError {
+  return new RemoteSessionError(
+    'REMOTE_SESSION_STREAM_INTERRUPTED',
+    `The event stream dropped while request ${requestId ?? '(queued)'} was running; its remaining messages were lost`,
+  );
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
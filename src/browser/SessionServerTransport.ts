@@ -0,0 +1,135 @@
+import { SdkError } from '../errors/SdkError.js';
+import { SessionInputError, type SessionInputErrorCode } from '../errors/SessionInputError.js';
+import type { SessionServerErrorBody } from '../session/remote/protocol.js';
+import type { SessionId } from '../types/branded.js';
+
+export type RemoteSessionErrorCode =
+  | 'REMOTE_SESSION_REQUEST_FAILED'
+  | 'REMOTE_SESSION_CLOSED'
+  | 'REMOTE_SESSION_STREAM_INTERRUPTED'
+  | 'REMOTE_SESSION_UNSUPPORTED';
+
+export class RemoteSessionError extends SdkError {
+  /** HTTP status of the failed request, when the server answered. */
+  readonly status?: number;
+  /** Error code reported by the Session server, when it sent one. */
+  readonly serverCode?: string;
+
+  constructor(
+    code: RemoteSessionErrorCode,
+    message: string,
+    options?: { cause?: unknown; status?: number; serverCode?: string },
+  ) {
+    super(code, message, options);
+    this.status = options?.status;
+    this.serverCode = options?.serverCode;
+  }
+}
+
+export type RemoteSessionHeaders =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export interface SessionServerTransportOptions {
+  /** Session server URL including any basePath, e.g. `https://example.com/api`. */
+  baseUrl: string;
+  /** Extra request headers, e.g. authorization. Functions are called per request. */
+  headers?: RemoteSessionHeaders;
+  /** Fetch implementation. Defaults to `globalThis.fetch`. */
+  fetch?: typeof fetch;
+}
+
+const SESSION_INPUT_ERROR_CODES: ReadonlySet<string> = new Set<SessionInputErrorCode>([
+  'SESSION_INPUT_QUEUE_FULL',
+  'SESSION_REQUEST_MISMATCH',
+  'SESSION_STEERING_UNAVAILABLE',
+  'SESSION_INPUT_OPTIONS_UNSUPPORTED',
+]);
+
+/**
+ * Thin JSON-over-fetch client for the Session server routes.
+ *
+ * 服务端的 SessionInputError 会按原错误码重建，其余错误统一包装为 RemoteSessionError，
+ * 让调用方可以像本地 Session 一样按 code 分支处理。
+ */
+export class SessionServerTransport {
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: SessionServerTransportOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetchImpl = options.fetch ?? ((input, init) => globalThis.fetch(input, init));
+  }
+
+  sessionPath(sessionId: SessionId, suffix = ''): string {
+    return `/sessions/${encodeURIComponent(sessionId)}${suffix}`;
+  }
+
+  /** Sends a JSON request and returns the parsed body, or undefined for empty responses. */
+  async json<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.send(method, path, {
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+    });
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  /** Sends a request and throws a typed error for non-2xx responses. */
+  async send(
+    method: string,
+    path: string,
+    init: { body?: string; headers?: Record<string, string>; signal?: AbortSignal } = {},
+  ): Promise<Response> {
+    const headers = new Headers(
+      typeof this.options.headers === 'function'
+        ? await this.options.headers()
+        : this.options.headers,
+    );
+    if (init.body !== undefined) {
+      headers.set('content-type', 'application/json');
+    }
+    for (const [name, value] of Object.entries(init.headers ?? {})) {
+      headers.set(name, value);
+    }
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method,
+        headers,
+        ...(init.body !== undefined ? { body: init.body } : {}),
+        ...(init.signal ? { signal: init.signal } : {}),
+      });
+    } catch (cause) {
+      if (init.signal?.aborted) {
+        throw cause;
+      }
+      throw new RemoteSessionError(
+        'REMOTE_SESSION_REQUEST_FAILED',
+        `${method} ${path} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+        { cause },
+      );
+    }
+    if (!response.ok) {
+      throw await toRemoteError(method, path, response);
+    }
+    return response;
+  }
+}
+
+async function toRemoteError(method: string, path: string, response: Response): Promise<Error> {
+  let body: Partial<SessionServerErrorBody> | undefined;
+  try {
+    body = (await response.json()) as Partial<SessionServerErrorBody>;
+  } catch {
+    body = undefined;
+  }
+  const serverCode = body?.error?.code;
+  const message = body?.error?.message ?? `${method} ${path} returned HTTP ${response.status}`;
+  if (serverCode && SESSION_INPUT_ERROR_CODES.has(serverCode)) {
+    return new SessionInputError(serverCode, message);
+  }
+  return new RemoteSessionError('REMOTE_SESSION_REQUEST_FAILED', message, {
+    status: response.status,
+    ...(serverCode ? { serverCode } : {}),
+  });
+}
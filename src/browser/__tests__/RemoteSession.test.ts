@@ -0,0 +1,479 @@
+import { mkdtempSync } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AgentEvent } from '../../agent/AgentEvent.js';
+import type {
+  ChatContext,
+  LoopOptions,
+  LoopResult,
+  UserMessageContent,
+} from '../../agent/types.js';
+import { SessionInputError } from '../../errors/SessionInputError.js';
+import { JsonlDurableEventStore } from '../../session/events/JsonlDurableEventStore.js';
+import type { ISession, SessionOptions, StreamMessage } from '../../session/types.js';
+import { ToolKind } from '../../tools/types/ToolKind.js';
+import { EventId, RequestId } from '../../types/branded.js';
+import type { PermissionHandler, PermissionHandlerRequest } from '../../types/permissions.js';
+
+type StreamChat = (
+  message: UserMessageContent,
+  context: ChatContext,
+  options?: LoopOptions,
+) => AsyncGenerator<AgentEvent, LoopResult>;
+
+function replyWith(text: string): StreamChat {
+  return async function* reply(_message, context) {
+    context.messages.push({ role: 'assistant', content: text });
+    yield { type: 'turn_start', turn: 1, maxTurns: 10 };
+    yield { type: 'thinking_delta', delta: 'hmm' };
+    yield { type: 'content_delta', delta: text };
+    yield { type: 'turn_end', turn: 1, hasToolCalls: false };
+    return {
+      success: true,
+      finalMessage: text,
+      metadata: { turnsCount: 1, toolCallsCount: 0, duration: 1 },
+    };
+  };
+}
+
+let streamChat: StreamChat = replyWith('done');
+let agentPermissionHandler: PermissionHandler | undefined;
+
+const createAgent = vi.fn(
+  async (_config: unknown, options: { permissionHandler?: PermissionHandler }) => {
+    agentPermissionHandler = options.permissionHandler;
+    return {
+      streamChat: (message: UserMessageContent, context: ChatContext, options?: LoopOptions) =>
+        streamChat(message, context, options),
+      async setModel() {},
+    };
+  },
+);
+
+vi.mock('../../agent/Agent.js', () => ({
+  Agent: { create: createAgent },
+}));
+
+const { createSessionServer } = await import('../../server/SessionServer.js');
+const { createRemoteSession, resumeRemoteSession } = await import('../RemoteSession.js');
+
+const tempRoots: string[] = [];
+const servers: Array<{ close(): Promise<void> }> = [];
+const remotes: ISession[] = [];
+
+function createServer(options: Partial<SessionOptions> = {}) {
+  const root = mkdtempSync(join(tmpdir(), 'remote-session-'));
+  tempRoots.push(root);
+  let eventId = 0;
+  const server = createSessionServer({
+    sessionOptions: {
+      provider: { type: 'openai-compatible', apiKey: 'test-key' },
+      model: 'test-model',
+      persistSession: false,
+      durableEventStore: new JsonlDurableEventStore(root, {
+        eventIdFactory: () => EventId(`event-${++eventId}`),
+      }),
+      ...options,
+    },
+    durablePollIntervalMs: 5,
+  });
+  servers.push(server);
+  return server;
+}
+
+function clientOptions(server: ReturnType<typeof createServer>) {
+  return {
+    baseUrl: 'http://test/',
+    fetch: ((input, init) => server.fetch(new Request(input as string, init))) as typeof fetch,
+    reconnectDelayMs: 5,
+  };
+}
+
+async function connect(
+  server: ReturnType<typeof createServer>,
+  options: { permissionHandler?: PermissionHandler } = {},
+): Promise<ISession> {
+  const session = await createRemoteSession({ ...clientOptions(server), ...options });
+  remotes.push(session);
+  return session;
+}
+
+/** Wraps server.fetch so tests can drop the event stream and control reconnects. */
+function droppableFetch(server: ReturnType<typeof createServer>) {
+  const connections: Array<{
+    controller: ReadableStreamDefaultController<Uint8Array>;
+    reader: ReadableStreamDefaultReader<Uint8Array>;
+  }> = [];
+  let reconnect: (() => Promise<Response>) | undefined;
+  const fetchImpl = (async (input, init) => {
+    const request = new Request(input as string, init);
+    if (!new URL(request.url).pathname.endsWith('/stream')) {
+      return server.fetch(request);
+    }
+    if (connections.length > 0 && reconnect) {
+      return reconnect();
+    }
+    const response = await server.fetch(request);
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        connections.push({ controller, reader });
+      },
+      async pull(controller) {
+        const { value, done } = await reader.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+    return new Response(body, response);
+  }) as typeof fetch;
+  return {
+    fetch: fetchImpl,
+    connections: () => connections.length,
+    drop() {
+      const connection = connections.at(-1);
+      connection?.controller.error(new TypeError('network connection lost'));
+      void connection?.reader.cancel().catch(() => undefined);
+    },
+    failReconnects(next: () => Promise<Response>) {
+      reconnect = next;
+    },
+  };
+}
+
+function gate() {
+  let open = () => {};
+  const opened = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  return { open, opened };
+}
+
+async function collect(stream: AsyncIterable<StreamMessage>): Promise<StreamMessage[]> {
+  const messages: StreamMessage[] = [];
+  for await (const message of stream) {
+    messages.push(message);
+  }
+  return messages;
+}
+
+function requestFor(context: ChatContext): PermissionHandlerRequest {
+  return {
+    toolName: 'Write',
+    input: { file_path: 'notes.txt' },
+    signal: context.signal ?? new AbortController().signal,
+    sessionId: context.sessionId,
+    affectedPaths: ['notes.txt'],
+    toolKind: ToolKind.Write,
+    toolMeta: {
+      sideEffect: 'idempotent',
+      isReadOnly: false,
+      isConcurrencySafe: false,
+      isDestructive: false,
+    },
+  };
+}
+
+afterEach(async () => {
+  streamChat = replyWith('done');
+  agentPermissionHandler = undefined;
+  await Promise.all(remotes.splice(0).map((session) => session.close().catch(() => undefined)));
+  await Promise.all(servers.splice(0).map((server) => server.close()));
+  await Promise.all(tempRoots.splice(0).map((root) => rm(root, { recursive: true, force: true })));
+});
+
+describe('RemoteSession', () => {
+  it('streams one request per stream() call like a local Session', async () => {
+    const server = createServer();
+    const session = await connect(server);
+
+    const submission = await session.send('hello');
+    expect(submission.status).toBe('started');
+    const messages = await collect(session.stream());
+
+    expect(messages.map((message) => message.type)).toEqual([
+      'turn_start',
+      'content',
+      'turn_end',
+      'usage',
+      'result',
+    ]);
+    expect(session.messages).toEqual([{ role: 'assistant', content: 'done' }]);
+    expect(session.getPendingInputs()).toEqual([]);
+
+    streamChat = replyWith('again');
+    await session.send('second');
+    const second = await collect(session.stream({ includeThinking: true }));
+    expect(second.some((message) => message.type === 'thinking')).toBe(true);
+    expect(second.at(-1)).toMatchObject({ type: 'result' });
+  });
+
+  it('aborts only the request its send() signal belongs to', async () => {
+    const server = createServer();
+    const paths: string[] = [];
+    const session = await createRemoteSession({
+      ...clientOptions(server),
+      fetch: ((input, init) => {
+        const request = new Request(input as string, init);
+        paths.push(`${request.method} ${new URL(request.url).pathname}`);
+        return server.fetch(request);
+      }) as typeof fetch,
+    });
+    remotes.push(session);
+    let started = gate();
+    const aborted: boolean[] = [];
+    streamChat = async function* (message, context) {
+      started.open();
+      await new Promise<void>((resolve) => {
+        if (context.signal?.aborted) {
+          resolve();
+        }
+        context.signal?.addEventListener('abort', () => resolve(), { once: true });
+        setTimeout(resolve, 50);
+      });
+      aborted.push(context.signal?.aborted ?? false);
+      return yield* replyWith('done')(message, context);
+    };
+
+    const controller = new AbortController();
+    await session.send('first', { signal: controller.signal });
+    await started.opened;
+    controller.abort();
+    await collect(session.stream());
+    expect(aborted).toEqual([true]);
+
+    const stale = new AbortController();
+    await session.send('second', { signal: stale.signal });
+    await collect(session.stream());
+    started = gate();
+    await session.send('third');
+    await started.opened;
+    stale.abort();
+    const messages = await collect(session.stream());
+
+    expect(aborted).toEqual([true, false, false]);
+    expect(messages.at(-1)).toMatchObject({ type: 'result' });
+    expect(paths.filter((path) => path.endsWith('/abort'))).toHaveLength(1);
+  });
+
+  it('rejects stream() without a pending request', async () => {
+    const server = createServer();
+    const session = await connect(server);
+
+    await expect(collect(session.stream())).rejects.toThrow('No pending message');
+  });
+
+  it('rehydrates server input errors', async () => {
+    const server = createServer();
+    const session = await connect(server);
+
+    streamChat = async function* (message, context) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return yield* replyWith('done')(message, context);
+    };
+    await session.send('hello');
+
+    await expect(
+      session.send('steer', { expectedRequestId: RequestId('other') }),
+    ).rejects.toBeInstanceOf(SessionInputError);
+    await collect(session.stream());
+  });
+
+  it('round-trips permission prompts to the client handler', async () => {
+    const server = createServer();
+    const permissionHandler = vi.fn<PermissionHandler>(async (request) => ({
+      behavior: 'deny',
+      message: `no writes to ${request.affectedPaths.join(', ')}`,
+    }));
+    const session = await connect(server, { permissionHandler });
+    streamChat = async function* (_message, context) {
+      const decision = await agentPermissionHandler?.(requestFor(context));
+      return yield* replyWith(decision?.behavior ?? 'missing')(_message, context);
+    };
+
+    await session.send('write the notes');
+    const messages = await collect(session.stream());
+
+    expect(permissionHandler).toHaveBeenCalledOnce();
+    expect(permissionHandler.mock.calls[0]?.[0]).toMatchObject({
+      toolName: 'Write',
+      sessionId: session.sessionId,
+      affectedPaths: ['notes.txt'],
+    });
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'content', delta: 'deny' }));
+  });
+
+  it('lets the server policy decide before asking the client', async () => {
+    const server = createServer({ canUseTool: async () => ({ behavior: 'allow' }) });
+    const permissionHandler = vi.fn<PermissionHandler>();
+    const session = await connect(server, { permissionHandler });
+    streamChat = async function* (_message, context) {
+      const decision = await agentPermissionHandler?.(requestFor(context));
+      return yield* replyWith(decision?.behavior ?? 'missing')(_message, context);
+    };
+
+    await session.send('write the notes');
+    const messages = await collect(session.stream());
+
+    expect(permissionHandler).not.toHaveBeenCalled();
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'content', delta: 'allow' }));
+  });
+
+  it('resumes a hosted session and reads its durable events', async () => {
+    const server = createServer();
+    const session = await connect(server);
+    await session.send('hello');
+    await collect(session.stream());
+
+    const resumed = await resumeRemoteSession({
+      ...clientOptions(server),
+      sessionId: session.sessionId,
+    });
+    remotes.push(resumed);
+    expect(resumed.sessionId).toBe(session.sessionId);
+    expect(resumed.messages).toHaveLength(1);
+
+    const subscription = await resumed.subscribeDurableEvents();
+    const types: string[] = [];
+    for await (const message of subscription) {
+      if (message.type === 'caught_up') {
+        break;
+      }
+      types.push(message.event.type);
+    }
+    await subscription.close();
+    expect(types).toContain('input_applied');
+    expect(types.at(-1)).toBe('request_completed');
+  });
+
+  it('marks the client closed when the session is closed', async () => {
+    const server = createServer();
+    const session = await connect(server);
+
+    await session.close();
+
+    expect(session.isClosed).toBe(true);
+    expect(server.getSession(session.sessionId)).toBeUndefined();
+    await expect(session.send('hello')).rejects.toMatchObject({ code: 'REMOTE_SESSION_CLOSED' });
+    await expect(session.mcpListTools()).rejects.toMatchObject({
+      code: 'REMOTE_SESSION_UNSUPPORTED',
+    });
+  });
+
+  it('reads only the requests this client sent', async () => {
+    const server = createServer();
+    const first = await connect(server);
+    const second = await resumeRemoteSession({
+      ...clientOptions(server),
+      sessionId: first.sessionId,
+    });
+    remotes.push(second);
+
+    await first.send('hello');
+    await collect(first.stream());
+    streamChat = replyWith('for second');
+    await second.send('hello');
+    const secondMessages = await collect(second.stream());
+    streamChat = replyWith('for first');
+    await first.send('again');
+    const firstMessages = await collect(first.stream());
+
+    expect(secondMessages).toContainEqual(
+      expect.objectContaining({ type: 'content', delta: 'for second' }),
+    );
+    expect(firstMessages.filter((message) => message.type === 'content')).toEqual([
+      expect.objectContaining({ delta: 'for first' }),
+    ]);
+  });
+
+  it('fails the pending stream when the event stream drops mid-request', async () => {
+    const server = createServer();
+    const transport = droppableFetch(server);
+    const session = await createRemoteSession({ ...clientOptions(server), fetch: transport.fetch });
+    remotes.push(session);
+    const running = gate();
+    const release = gate();
+    streamChat = async function* (message, context) {
+      running.open();
+      await release.opened;
+      return yield* replyWith('done')(message, context);
+    };
+
+    await session.send('hello');
+    await running.opened;
+    transport.drop();
+
+    await expect(collect(session.stream())).rejects.toMatchObject({
+      code: 'REMOTE_SESSION_STREAM_INTERRUPTED',
+    });
+    release.open();
+    await vi.waitFor(() => expect(transport.connections()).toBe(2));
+
+    streamChat = replyWith('after reconnect');
+    await session.send('later', { priority: 'later' });
+    const messages = await collect(session.stream());
+    expect(messages).toContainEqual(
+      expect.objectContaining({ type: 'content', delta: 'after reconnect' }),
+    );
+  });
+
+  it('surfaces non-retryable reconnect statuses to the caller', async () => {
+    const server = createServer();
+    const transport = droppableFetch(server);
+    const session = await createRemoteSession({ ...clientOptions(server), fetch: transport.fetch });
+    remotes.push(session);
+    transport.failReconnects(async () =>
+      Response.json({ error: { code: 'UNAUTHORIZED', message: 'token expired' } }, { status: 401 }),
+    );
+    const release = gate();
+    streamChat = async function* (message, context) {
+      await release.opened;
+      return yield* replyWith('done')(message, context);
+    };
+
+    await session.send('hello');
+    transport.drop();
+
+    await expect(collect(session.stream())).rejects.toMatchObject({
+      code: 'REMOTE_SESSION_STREAM_INTERRUPTED',
+    });
+    release.open();
+    await vi.waitFor(() =>
+      expect(session.send('again')).rejects.toMatchObject({
+        status: 401,
+        serverCode: 'UNAUTHORIZED',
+      }),
+    );
+  });
+
+  it('gives up after maxReconnectAttempts failed reconnects', async () => {
+    const server = createServer();
+    const transport = droppableFetch(server);
+    const session = await createRemoteSession({
+      ...clientOptions(server),
+      fetch: transport.fetch,
+      reconnectDelayMs: 1,
+      maxReconnectAttempts: 2,
+    });
+    remotes.push(session);
+    const reconnect = vi.fn(async (): Promise<Response> => {
+      throw new TypeError('fetch failed');
+    });
+    transport.failReconnects(reconnect);
+
+    transport.drop();
+
+    await vi.waitFor(() =>
+      expect(session.send('hello')).rejects.toMatchObject({
+        code: 'REMOTE_SESSION_REQUEST_FAILED',
+      }),
+    );
+    expect(reconnect).toHaveBeenCalledTimes(2);
+  });
+});
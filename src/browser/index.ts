@@ -2,13 +2,21 @@ export type {
   AgentTrace,
   ContextSnapshot,
   ExecutionContext,
+  ForkSessionOptions,
   InputSubmission,
+  ISession,
   JsonObject,
   JsonValue,
   ModelConfig,
+  MultimodalToolContent,
   ObservabilityOptions,
   PendingSessionInput,
+  PermissionHandler,
+  PermissionHandlerRequest,
+  PermissionResult,
   ProviderType,
+  RewindOptions,
+  RewindResult,
   RuntimeContext,
   RuntimeContextPatch,
   RuntimePatch,
@@ -42,7 +50,9 @@ export {
   HookEvent,
   InputId,
   InputPriority,
+  isMultimodalContent,
   MessageRole,
+  multimodalContent,
   PermissionDecision,
   PermissionMode,
   PermissionRequestId,
@@ -55,7 +65,18 @@ export {
   ToolUseId,
   TurnId,
 } from '../core/index.js';
+export { SdkError } from '../errors/SdkError.js';
+export { SessionInputError } from '../errors/SessionInputError.js';
 export * from '../session/events/core.js';
+export { RemoteDurableEventStore } from './RemoteDurableEventStore.js';
+export type { RemoteSessionOptions, ResumeRemoteSessionOptions } from './RemoteSession.js';
+export { createRemoteSession, resumeRemoteSession } from './RemoteSession.js';
+export type {
+  RemoteSessionErrorCode,
+  RemoteSessionHeaders,
+  SessionServerTransportOptions,
+} from './SessionServerTransport.js';
+export { RemoteSessionError } from './SessionServerTransport.js';
 
 export {
   createMemoryReadTool,
@@ -69,5 +90,6 @@ export {
   MemoryManager,
   prompt,
   resumeSession,
+  SqliteDurableEventStore,
   tool,
 } from './server-only-stub.js';
@@ -20,6 +20,10 @@ export function prompt(..._args: unknown[]): never {
   return serverOnly('prompt');
 }
 
+export function createSessionServer(..._args: unknown[]): never {
+  return serverOnly('createSessionServer');
+}
+
 export function getBuiltinTools(..._args: unknown[]): never {
   return serverOnly('getBuiltinTools');
 }
@@ -40,6 +44,14 @@ export function tool(..._args: unknown[]): never {
   return serverOnly('tool');
 }
 
+export function createRecordingChatServiceFactory(..._args: unknown[]): never {
+  return serverOnly('createRecordingChatServiceFactory');
+}
+
+export function createPlaybackChatServiceFactory(..._args: unknown[]): never {
+  return serverOnly('createPlaybackChatServiceFactory');
+}
+
 export class FileSystemMemoryStore {
   constructor(..._args: unknown[]) {
     serverOnly('FileSystemMemoryStore');
@@ -57,3 +69,15 @@ export class JsonlDurableEventStore {
     serverOnly('JsonlDurableEventStore');
   }
 }
+
+export class SqliteDurableEventStore {
+  constructor(..._args: unknown[]) {
+    serverOnly('SqliteDurableEventStore');
+  }
+}
+
+export class SessionServer {
+  constructor(..._args: unknown[]) {
+    serverOnly('SessionServer');
+  }
+}
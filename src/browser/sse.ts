@@ -0,0 +1,64 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parses a `text/event-stream` body into events.
+ *
+ * 只实现客户端需要的子集：`event`、`data`、`id` 字段与注释行；`retry` 被忽略。
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let event = '';
+  let id: string | undefined;
+  let data: string[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      buffer += value;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // 最后一段可能是不完整的行，留到下一次读取。
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) {
+            yield { event: event || 'message', data: data.join('\n'), ...(id ? { id } : {}) };
+          }
+          event = '';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) {
+          continue;
+        }
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        let fieldValue = separator === -1 ? '' : line.slice(separator + 1);
+        if (fieldValue.startsWith(' ')) {
+          fieldValue = fieldValue.slice(1);
+        }
+        switch (field) {
+          case 'event':
+            event = fieldValue;
+            break;
+          case 'data':
+            data.push(fieldValue);
+            break;
+          case 'id':
+            id = fieldValue;
+            break;
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
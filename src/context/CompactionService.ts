@@ -4,14 +4,18 @@
  */
 
 import { nanoid } from 'nanoid';
+import { resolveHookTarget } from '../hooks/callbackHooks.js';
 import { HookManager } from '../hooks/HookManager.js';
+import type { HookSessionServices } from '../hooks/types/HookTypes.js';
 import { NOOP_LOGGER } from '../logging/Logger.js';
 import {
+    type ChatServiceFactory,
     createChatServiceAsync,
     type Message,
 } from '../services/ChatServiceInterface.js';
 import { SessionId } from '../types/branded.js';
 import { PermissionMode, type ProviderType } from '../types/common.js';
+import { HookEvent } from '../types/constants.js';
 import { FileAnalyzer, type FileContent } from './FileAnalyzer.js';
 import {
     microcompact,
@@ -38,6 +42,8 @@ export interface CompactionOptions {
   provider?: ProviderType;
   /** Provider 自定义 headers（可选，压缩时沿用主对话配置） */
   customHeaders?: Record<string, string>;
+  /** 自定义 ChatService 工厂（可选，压缩时沿用主对话配置） */
+  chatServiceFactory?: ChatServiceFactory;
   /** 真实的 preTokens（可选，来自 LLM usage，比估算更准确） */
   actualPreTokens?: number;
   /** 会话 ID（用于 hooks） */
@@ -46,6 +52,8 @@ export interface CompactionOptions {
   permissionMode?: PermissionMode;
   /** 当前 turn 的项目目录（用于 hooks） */
   projectDir?: string;
+  /** 会话级 Hook 能力（用于 hooks，含 SessionOptions.hooks 注册的回调） */
+  hookServices?: HookSessionServices;
 }
 
 /**
@@ -127,20 +135,34 @@ export async function compact(
     : 'estimated';
   console.log(`[CompactionService] preTokens source: ${tokenSource}`);
 
-  if (options.projectDir) {
+  const preCompactTarget = resolveHookTarget(
+    HookEvent.PreCompact,
+    options.projectDir,
+    options.hookServices,
+  );
+  const compactionTarget = resolveHookTarget(
+    HookEvent.Compaction,
+    options.projectDir,
+    options.hookServices,
+  );
+  if (preCompactTarget || compactionTarget) {
     try {
     const hookManager = HookManager.getInstance();
 
-    const preCompactResult = await hookManager.executePreCompactHooks(
-      {
-        trigger: options.trigger,
-        messages_before: messages.length,
-        tokens_before: preTokens,
-      },
-      options.projectDir,
-      options.sessionId || SessionId('unknown'),
-      options.permissionMode || PermissionMode.DEFAULT,
-    );
+    const preCompactResult = preCompactTarget
+      ? await hookManager.executePreCompactHooks(
+          {
+            trigger: options.trigger,
+            messages_before: messages.length,
+            tokens_before: preTokens,
+          },
+          preCompactTarget.projectDir,
+          options.sessionId || SessionId('unknown'),
+          options.permissionMode || PermissionMode.DEFAULT,
+          undefined,
+          preCompactTarget.services,
+        )
+      : { blockCompaction: false };
 
     if (preCompactResult.blockCompaction) {
       console.log(
@@ -162,13 +184,16 @@ export async function compact(
       console.warn(`[CompactionService] PreCompact hook warning: ${preCompactResult.warning}`);
     }
 
-    const hookResult = await hookManager.executeCompactionHooks(options.trigger, {
-      projectDir: options.projectDir,
-      sessionId: options.sessionId || SessionId('unknown'),
-      permissionMode: options.permissionMode || PermissionMode.DEFAULT,
-      messagesBefore: messages.length,
-      tokensBefore: preTokens,
-    });
+    const hookResult = compactionTarget
+      ? await hookManager.executeCompactionHooks(options.trigger, {
+          projectDir: compactionTarget.projectDir,
+          sessionId: options.sessionId || SessionId('unknown'),
+          permissionMode: options.permissionMode || PermissionMode.DEFAULT,
+          messagesBefore: messages.length,
+          tokensBefore: preTokens,
+          ...compactionTarget.services,
+        })
+      : { blockCompaction: false };
 
     if (hookResult.blockCompaction) {
       console.log(
@@ -239,7 +264,12 @@ export async function compact(
       `(-${((1 - postTokens / preTokens) * 100).toFixed(1)}%)`
     );
 
-    if (options.projectDir) {
+    const postCompactTarget = resolveHookTarget(
+      HookEvent.PostCompact,
+      options.projectDir,
+      options.hookServices,
+    );
+    if (postCompactTarget) {
       try {
         const postHookManager = HookManager.getInstance();
         const postHookResult = await postHookManager.executePostCompactHooks(
@@ -251,9 +281,11 @@ export async function compact(
             tokens_after: postTokens,
             summary,
           },
-          options.projectDir,
+          postCompactTarget.projectDir,
           options.sessionId || SessionId('unknown'),
           options.permissionMode || PermissionMode.DEFAULT,
+          undefined,
+          postCompactTarget.services,
         );
         if (postHookResult.warning) {
           console.warn(`[CompactionService] PostCompact hook warning: ${postHookResult.warning}`);
@@ -305,7 +337,7 @@ async function generateSummary(
 
   console.log('[CompactionService] 使用压缩模型:', options.modelName);
 
-  const chatService = await createChatServiceAsync({
+  const chatConfig = {
     apiKey: options.apiKey || process.env.BLADE_API_KEY || '',
     baseUrl: baseURL,
     model: options.modelName,
@@ -314,7 +346,10 @@ async function generateSummary(
     timeout: 60000,
     provider: options.provider || inferProvider(baseURL),
     customHeaders: options.customHeaders,
-  }, NOOP_LOGGER);
+  };
+  const chatService = options.chatServiceFactory
+    ? await options.chatServiceFactory(chatConfig)
+    : await createChatServiceAsync(chatConfig, NOOP_LOGGER);
 
   const response = await chatService.sideQuery(
     [{ role: 'user', content: prompt }]
@@ -11,10 +11,12 @@ import {
 import type { ContentPart } from '../services/ChatServiceInterface.js';
 import {
   type InputId,
+  type MessageId,
   type RequestId,
   SessionId,
 } from '../types/branded.js';
 import type { JsonObject, JsonValue } from '../types/common.js';
+import { getGitInfo } from '../utils/git.js';
 import { ContextCompressor } from './processors/ContextCompressor.js';
 import { ContextFilter } from './processors/ContextFilter.js';
 import { CacheStore } from './storage/CacheStore.js';
@@ -366,6 +368,7 @@ export class ContextManager {
       subagentType: string;
       isSidechain: boolean;
     },
+    messageId?: MessageId,
   ): Promise<string> {
     return this.persistent.saveAppliedInputMessage(
       sessionId,
@@ -374,6 +377,7 @@ export class ContextManager {
       content,
       parentUuid,
       subagentInfo,
+      messageId,
     );
   }
 
@@ -385,6 +389,10 @@ export class ContextManager {
     return this.persistent.saveInputCancelled(sessionId, inputId, reason);
   }
 
+  async saveSessionRewound(sessionId: SessionId, messageId: MessageId): Promise<void> {
+    return this.persistent.saveSessionRewound(sessionId, messageId);
+  }
+
   /**
    * 保存工具调用到 JSONL (直接访问 PersistentStore)
    */
@@ -630,8 +638,10 @@ export class ContextManager {
   private async createWorkspaceContext(): Promise<WorkspaceContext> {
     try {
       const cwd = this.projectPath;
+      const gitInfo = cwd ? await getGitInfo(cwd) : undefined;
       return {
         ...(cwd ? { projectPath: cwd } : {}),
+        ...(gitInfo ? { gitInfo } : {}),
         currentFiles: [],
         recentFiles: [],
         environment: {
@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HookType, type CallbackHook } from '../../hooks/types/HookTypes.js';
 import type { Message } from '../../services/ChatServiceInterface.js';
 
 const mockChat = vi.fn(async () => ({
@@ -55,6 +56,56 @@ describe('CompactionService', () => {
     expect(mockChat).not.toHaveBeenCalled();
   });
 
+  it('lets session callbacks block compaction without a project directory', async () => {
+    const messages: Message[] = [{ role: 'user', content: 'hello' }];
+    const preCompact: CallbackHook = {
+      type: HookType.Callback,
+      callback: vi.fn(async () => ({
+        hookSpecificOutput: {
+          hookEventName: 'PreCompact' as const,
+          blockCompaction: true,
+          blockReason: 'not yet',
+        },
+      })),
+    };
+
+    const result = await compact(messages, {
+      trigger: 'manual',
+      modelName: 'gpt-5',
+      maxContextTokens: 128000,
+      hookServices: { callbackHooks: { PreCompact: [preCompact] } },
+    });
+
+    expect(preCompact.callback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        hook_event_name: 'PreCompact',
+        trigger: 'manual',
+        messages_before: 1,
+        project_dir: process.cwd(),
+      }),
+      expect.objectContaining({ signal: expect.any(AbortSignal) }),
+    );
+    expect(result).toMatchObject({ success: false, error: 'not yet', compactedMessages: messages });
+    expect(mockSideQuery).not.toHaveBeenCalled();
+  });
+
+  it('reports the summary to PostCompact callbacks', async () => {
+    const postCompact: CallbackHook = { type: HookType.Callback, callback: vi.fn(async () => undefined) };
+
+    const result = await compact([{ role: 'user', content: 'hello' }], {
+      trigger: 'auto',
+      modelName: 'gpt-5',
+      maxContextTokens: 128000,
+      hookServices: { callbackHooks: { PostCompact: [postCompact] } },
+    });
+
+    expect(result.success).toBe(true);
+    expect(postCompact.callback).toHaveBeenCalledWith(
+      expect.objectContaining({ hook_event_name: 'PostCompact', trigger: 'auto', summary: 'ok' }),
+      expect.anything(),
+    );
+  });
+
   it('retainRecentMessages drops orphan tool results outside the retained window', () => {
     const messages: Message[] = [
       { role: 'assistant', content: 'a', tool_calls: [{ id: 'tc-keep', type: 'function', function: { name: 'x', arguments: '{}' } }] },
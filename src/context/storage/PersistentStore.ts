@@ -260,12 +260,13 @@ export class PersistentStore {
       subagentType: string;
       isSidechain: boolean;
     },
+    requestedMessageId?: MessageId,
   ): Promise<string> {
     const filePath = getSessionFilePathFromStorageRoot(this.storageRoot, sessionId);
     const store = new JSONLStore(filePath);
     await this.ensureSessionCreated(sessionId, subagentInfo);
     const now = new Date().toISOString();
-    const messageId = MessageId(nanoid());
+    const messageId = requestedMessageId ?? MessageId(nanoid());
     const messageInfo: MessageInfo = {
       messageId,
       role: 'user',
@@ -304,6 +305,19 @@ export class PersistentStore {
     }));
   }
 
+  /**
+   * 记录会话回滚，加载历史时丢弃 messageId 及之后的消息
+   */
+  async saveSessionRewound(sessionId: SessionId, messageId: MessageId): Promise<void> {
+    const filePath = getSessionFilePathFromStorageRoot(this.storageRoot, sessionId);
+    const store = new JSONLStore(filePath);
+    await this.ensureSessionCreated(sessionId);
+    await store.append(this.createEvent('session_rewound', sessionId, {
+      messageId,
+      rewoundAt: Date.now(),
+    }));
+  }
+
   /**
    * 保存工具调用到 JSONL 文件
    */
@@ -865,8 +879,9 @@ export class NoopPersistentStore {
       subagentType: string;
       isSidechain: boolean;
     },
+    requestedMessageId?: MessageId,
   ): Promise<string> {
-    return nanoid();
+    return requestedMessageId ?? nanoid();
   }
 
   async saveInputCancelled(
@@ -877,6 +892,10 @@ export class NoopPersistentStore {
     return Promise.resolve();
   }
 
+  async saveSessionRewound(_sessionId: SessionId, _messageId: MessageId): Promise<void> {
+    return Promise.resolve();
+  }
+
   async saveToolUse(
     _sessionId: SessionId,
     _toolName: string,
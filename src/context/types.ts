@@ -130,7 +130,8 @@ export type JSONLEventType =
   | 'part_updated'
   | 'input_enqueued'
   | 'input_applied'
-  | 'input_cancelled';
+  | 'input_cancelled'
+  | 'session_rewound';
 
 export type PartType =
   | 'text'
@@ -199,6 +200,12 @@ export interface CancelledInputInfo {
   cancelledAt: number;
 }
 
+/** 会话回滚：从 messageId 起的消息不再属于会话历史 */
+export interface RewoundInfo {
+  messageId: MessageId;
+  rewoundAt: number;
+}
+
 export interface SessionEventBase {
   id: string;
   sessionId: SessionId;
@@ -217,4 +224,5 @@ export type SessionEvent =
   | (SessionEventBase & { type: 'part_updated'; data: PartInfo })
   | (SessionEventBase & { type: 'input_enqueued'; data: PendingInputInfo })
   | (SessionEventBase & { type: 'input_applied'; data: AppliedInputInfo })
-  | (SessionEventBase & { type: 'input_cancelled'; data: CancelledInputInfo });
+  | (SessionEventBase & { type: 'input_cancelled'; data: CancelledInputInfo })
+  | (SessionEventBase & { type: 'session_rewound'; data: RewoundInfo });
@@ -25,9 +25,17 @@ export type {
   RuntimeToolPolicyPatch,
 } from '../runtime/index.js';
 export * from '../session/events/core.js';
+export * from '../session/remote/protocol.js';
 export type {
+  ForkSessionOptions,
   InputSubmission,
+  ISession,
+  McpServerStatus,
+  McpToolInfo,
+  ModelInfo,
   PendingSessionInput,
+  RewindOptions,
+  RewindResult,
   SendOptions,
   StreamMessage,
   StreamOptions,
@@ -36,6 +44,7 @@ export { InputPriority } from '../session/types.js';
 export type {
   ExecutionContext,
   FunctionDeclaration,
+  MultimodalToolContent,
   ToolBehavior,
   ToolConfig,
   ToolDefinition,
@@ -64,6 +73,8 @@ export type {
 export {
   collectToolExecution,
   completeToolExecution,
+  isMultimodalContent,
+  multimodalContent,
   ToolErrorType,
 } from '../tools/types/index.js';
 export { ToolKind, ToolSideEffect } from '../tools/types/ToolKind.js';
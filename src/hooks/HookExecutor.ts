@@ -4,10 +4,12 @@
  * 负责执行单个或多个 Hooks
  */
 
+import type { Message } from '../services/ChatServiceInterface.js';
 import type { JsonObject, JsonValue } from '../types/common.js';
 import { OutputParser } from './OutputParser.js';
 import { SecureProcessExecutor } from './SecureProcessExecutor.js';
 import {
+  type CallbackHook,
   type CommandHook,
   type CompactionHookResult,
   type ConfigChangeHookResult,
@@ -28,6 +30,7 @@ import {
   type PostToolUseFailureHookResult,
   type PreCompactHookResult,
   type PreToolHookResult,
+  type PromptHook,
   type SessionEndHookResult,
   type SessionStartHookResult,
   type StopFailureHookResult,
@@ -1156,12 +1159,43 @@ export class HookExecutor {
     input: HookInput,
     context: HookExecutionContext
   ): Promise<HookExecutionResult> {
-    if (hook.type === HookType.Command) {
-      return this.executeCommandHook(hook, input, context);
+    const spanId = context.traceCollector?.recordHookStart(input.hook_event_name, {
+      hookType: hook.type,
+      hookExecutionId: input.hook_execution_id,
+      ...(hook.type === HookType.Prompt ? { prompt: hook.prompt } : {}),
+      ...(hook.type === HookType.Command ? { command: hook.command } : {}),
+    });
+
+    try {
+      const result = await this.dispatchHook(hook, input, context);
+      if (spanId) {
+        context.traceCollector?.recordHookEnd(spanId, {
+          hookType: hook.type,
+          status: result.status,
+        });
+      }
+      return result;
+    } catch (err) {
+      if (spanId) {
+        context.traceCollector?.recordHookError(spanId, err);
+      }
+      throw err;
     }
+  }
 
-    // Prompt hooks 未来实现
-    throw new Error(`Hook type ${hook.type} not yet implemented`);
+  private dispatchHook(
+    hook: Hook,
+    input: HookInput,
+    context: HookExecutionContext
+  ): Promise<HookExecutionResult> {
+    switch (hook.type) {
+      case HookType.Command:
+        return this.executeCommandHook(hook, input, context);
+      case HookType.Prompt:
+        return this.executePromptHook(hook, input, context);
+      case HookType.Callback:
+        return this.executeCallbackHook(hook, input, context);
+    }
   }
 
   /**
@@ -1195,6 +1229,135 @@ export class HookExecutor {
     }
   }
 
+  /**
+   * 执行提示词 Hook
+   *
+   * 以会话当前模型做一次 sideQuery，把 hook 输入作为上下文，
+   * 要求模型只回复一个 PromptHookDecision JSON。
+   */
+  private async executePromptHook(
+    hook: PromptHook,
+    input: HookInput,
+    context: HookExecutionContext
+  ): Promise<HookExecutionResult> {
+    const sideQuery = context.sideQuery;
+    if (!sideQuery) {
+      return this.outputParser.parseFailure(
+        'failure',
+        'Prompt hook requires a session model',
+        hook,
+        context.config
+      );
+    }
+
+    try {
+      const outcome = await this.raceTimeout(hook, context, (signal) =>
+        sideQuery(this.buildPromptHookMessages(hook, input), signal)
+      );
+      if (outcome.timedOut) {
+        return this.outputParser.parseFailure('timeout', 'Hook timeout', hook, context.config);
+      }
+      return this.outputParser.parsePromptResponse(
+        outcome.value.content,
+        hook,
+        input.hook_event_name,
+        context.config
+      );
+    } catch (err) {
+      return this.outputParser.parseFailure(
+        'failure',
+        err instanceof Error ? err.message : String(err),
+        hook,
+        context.config
+      );
+    }
+  }
+
+  /**
+   * 执行进程内回调 Hook
+   *
+   * 返回值按命令 Hook 的 JSON 输出解析，抛错与超时分别按 failureBehavior / timeoutBehavior 处理。
+   */
+  private async executeCallbackHook(
+    hook: CallbackHook,
+    input: HookInput,
+    context: HookExecutionContext
+  ): Promise<HookExecutionResult> {
+    try {
+      const outcome = await this.raceTimeout(hook, context, (signal) =>
+        hook.callback(input, { signal })
+      );
+      if (outcome.timedOut) {
+        return this.outputParser.parseFailure('timeout', 'Hook timeout', hook, context.config);
+      }
+      return this.outputParser.parseCallbackOutput(outcome.value, hook, context.config);
+    } catch (err) {
+      return this.outputParser.parseFailure(
+        'failure',
+        err instanceof Error ? err.message : String(err),
+        hook,
+        context.config
+      );
+    }
+  }
+
+  /**
+   * 在 Hook 超时与会话中止信号下运行任务
+   *
+   * 任务不一定响应 signal，用 race 保证超时生效；中止按失败抛出。
+   */
+  private async raceTimeout<T>(
+    hook: PromptHook | CallbackHook,
+    context: HookExecutionContext,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<{ timedOut: true } | { timedOut: false; value: T }> {
+    const timeoutMs = (hook.timeout ?? context.config.defaultTimeout ?? 60) * 1000;
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = context.abortSignal
+      ? AbortSignal.any([context.abortSignal, timeoutSignal])
+      : timeoutSignal;
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(signal.reason);
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return { timedOut: false, value: await Promise.race([run(signal), aborted]) };
+    } catch (err) {
+      if (timeoutSignal.aborted) {
+        return { timedOut: true };
+      }
+      throw err;
+    } finally {
+      if (onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  private buildPromptHookMessages(hook: PromptHook, input: HookInput): Message[] {
+    return [
+      {
+        role: 'system',
+        content: [
+          'You are a policy hook evaluating an agent event.',
+          'Apply the policy to the hook input and reply with exactly one JSON object:',
+          '{"decision": "allow" | "deny" | "ask" | "modify", "reason"?: string, "updatedInput"?: object, "updatedOutput"?: any, "updatedPrompt"?: string, "additionalContext"?: string}',
+          'Use "modify" only together with updatedInput (PreToolUse), updatedOutput (PostToolUse) or updatedPrompt (UserPromptSubmit).',
+        ].join('\n'),
+      },
+      {
+        role: 'user',
+        content: `Policy:\n${hook.prompt}\n\nHook input:\n${JSON.stringify(input, null, 2)}`,
+      },
+    ];
+  }
+
   /**
    * 并发执行多个 Hooks (带并发限制)
    */
@@ -29,6 +29,7 @@ import type {
   Hook,
   HookConfig,
   HookExecutionContext,
+  HookSessionServices,
   InstructionsLoadedHookResult,
   InstructionsLoadedInput,
   MatchContext,
@@ -119,6 +120,13 @@ export class HookManager {
     return true;
   }
 
+  /**
+   * 文件 Hook 已启用，或会话为该事件注册了回调 Hook
+   */
+  private isActive(event: HookEvent, services?: HookSessionServices): boolean {
+    return this.isEnabled() || (services?.callbackHooks?.[event]?.length ?? 0) > 0;
+  }
+
   /**
    * 运行时禁用 (当前会话)
    */
@@ -190,9 +198,9 @@ export class HookManager {
       sessionId: SessionId;
       permissionMode: PermissionMode;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<PreToolHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.PreToolUse, context)) {
       return { decision: 'allow' };
     }
 
@@ -224,7 +232,7 @@ export class HookManager {
       toolName,
       filePath: this.extractFilePath(toolInput),
       command: this.extractCommand(toolName, toolInput),
-    });
+    }, context);
 
     if (hooks.length === 0) {
       return { decision: 'allow' };
@@ -237,6 +245,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     // 执行 hooks
@@ -288,9 +298,9 @@ export class HookManager {
       sessionId: SessionId;
       permissionMode: PermissionMode;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<PostToolHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.PostToolUse, context)) {
       return {};
     }
 
@@ -323,7 +333,7 @@ export class HookManager {
       toolName,
       filePath: this.extractFilePath(toolInput),
       command: this.extractCommand(toolName, toolInput),
-    });
+    }, context);
 
     if (hooks.length === 0) {
       return {};
@@ -336,6 +346,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     // 执行 hooks
@@ -370,8 +382,8 @@ export class HookManager {
     permissionMode: PermissionMode;
     reason?: string;
     abortSignal?: AbortSignal;
-  }): Promise<StopHookResult> {
-    if (!this.isEnabled()) {
+  } & HookSessionServices): Promise<StopHookResult> {
+    if (!this.isActive(HookEvent.Stop, context)) {
       return { shouldStop: true };
     }
 
@@ -387,7 +399,7 @@ export class HookManager {
     };
 
     // 获取 hooks (Stop hooks 通常没有匹配器)
-    const hooks = this.getMatchingHooks(HookEvent.Stop, {});
+    const hooks = this.getMatchingHooks(HookEvent.Stop, {}, context);
 
     if (hooks.length === 0) {
       return { shouldStop: true };
@@ -400,6 +412,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -430,9 +444,9 @@ export class HookManager {
       taskDescription?: string;
       parentAgentId?: string;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<SubagentStartHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.SubagentStart, context)) {
       return { proceed: true };
     }
 
@@ -450,7 +464,7 @@ export class HookManager {
 
     const hooks = this.getMatchingHooks(HookEvent.SubagentStart, {
       toolName: agentType,
-    });
+    }, context);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -462,6 +476,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -494,9 +510,9 @@ export class HookManager {
       resultSummary?: string;
       error?: string;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<SubagentStopHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.SubagentStop, context)) {
       return { shouldStop: true };
     }
 
@@ -516,7 +532,7 @@ export class HookManager {
     };
 
     // 获取 hooks
-    const hooks = this.getMatchingHooks(HookEvent.SubagentStop, {});
+    const hooks = this.getMatchingHooks(HookEvent.SubagentStop, {}, context);
 
     if (hooks.length === 0) {
       return { shouldStop: true };
@@ -529,6 +545,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -560,9 +578,9 @@ export class HookManager {
       resultSummary?: string;
       success: boolean;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<TaskCompletedHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.TaskCompleted, context)) {
       return { allowCompletion: true };
     }
 
@@ -579,7 +597,7 @@ export class HookManager {
       success: context.success,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.TaskCompleted, {});
+    const hooks = this.getMatchingHooks(HookEvent.TaskCompleted, {}, context);
 
     if (hooks.length === 0) {
       return { allowCompletion: true };
@@ -591,6 +609,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -621,9 +641,9 @@ export class HookManager {
       sessionId: SessionId;
       permissionMode: PermissionMode;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<PermissionRequestHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.PermissionRequest, context)) {
       return { decision: 'ask' };
     }
 
@@ -643,7 +663,7 @@ export class HookManager {
       toolName,
       filePath: this.extractFilePath(toolInput),
       command: this.extractCommand(toolName, toolInput),
-    });
+    }, context);
 
     if (hooks.length === 0) {
       return { decision: 'ask' };
@@ -655,6 +675,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -685,9 +707,9 @@ export class HookManager {
       hasImages: boolean;
       imageCount: number;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<UserPromptSubmitHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.UserPromptSubmit, context)) {
       return { proceed: true };
     }
 
@@ -705,7 +727,7 @@ export class HookManager {
     };
 
     // 获取 hooks (UserPromptSubmit 通常没有匹配器)
-    const hooks = this.getMatchingHooks(HookEvent.UserPromptSubmit, {});
+    const hooks = this.getMatchingHooks(HookEvent.UserPromptSubmit, {}, context);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -718,6 +740,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -746,8 +770,8 @@ export class HookManager {
     isResume: boolean;
     resumeSessionId?: string;
     abortSignal?: AbortSignal;
-  }): Promise<SessionStartHookResult> {
-    if (!this.isEnabled()) {
+  } & HookSessionServices): Promise<SessionStartHookResult> {
+    if (!this.isActive(HookEvent.SessionStart, context)) {
       return { proceed: true };
     }
 
@@ -764,7 +788,7 @@ export class HookManager {
     };
 
     // 获取 hooks
-    const hooks = this.getMatchingHooks(HookEvent.SessionStart, {});
+    const hooks = this.getMatchingHooks(HookEvent.SessionStart, {}, context);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -777,6 +801,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -805,9 +831,9 @@ export class HookManager {
       sessionId: SessionId;
       permissionMode: PermissionMode;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<SessionEndHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.SessionEnd, context)) {
       return {};
     }
 
@@ -823,7 +849,7 @@ export class HookManager {
     };
 
     // 获取 hooks
-    const hooks = this.getMatchingHooks(HookEvent.SessionEnd, {});
+    const hooks = this.getMatchingHooks(HookEvent.SessionEnd, {}, context);
 
     if (hooks.length === 0) {
       return {};
@@ -836,6 +862,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -866,9 +894,9 @@ export class HookManager {
       isInterrupt: boolean;
       isTimeout: boolean;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<PostToolUseFailureHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.PostToolUseFailure, context)) {
       return {};
     }
 
@@ -894,7 +922,7 @@ export class HookManager {
       toolName,
       filePath: this.extractFilePath(toolInput),
       command: this.extractCommand(toolName, toolInput),
-    });
+    }, context);
 
     if (hooks.length === 0) {
       return {};
@@ -907,6 +935,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -936,9 +966,9 @@ export class HookManager {
       permissionMode: PermissionMode;
       title?: string;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<NotificationHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.Notification, context)) {
       return { suppress: false, message };
     }
 
@@ -956,7 +986,7 @@ export class HookManager {
     };
 
     // 获取 hooks
-    const hooks = this.getMatchingHooks(HookEvent.Notification, {});
+    const hooks = this.getMatchingHooks(HookEvent.Notification, {}, context);
 
     if (hooks.length === 0) {
       return { suppress: false, message };
@@ -969,6 +999,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -1000,9 +1032,9 @@ export class HookManager {
       messagesBefore: number;
       tokensBefore: number;
       abortSignal?: AbortSignal;
-    }
+    } & HookSessionServices
   ): Promise<CompactionHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.Compaction, context)) {
       return { blockCompaction: false };
     }
 
@@ -1020,7 +1052,7 @@ export class HookManager {
     };
 
     // 获取 hooks
-    const hooks = this.getMatchingHooks(HookEvent.Compaction, {});
+    const hooks = this.getMatchingHooks(HookEvent.Compaction, {}, context);
 
     if (hooks.length === 0) {
       return { blockCompaction: false };
@@ -1033,6 +1065,8 @@ export class HookManager {
       permissionMode: context.permissionMode,
       config: this.config,
       abortSignal: context.abortSignal,
+      sideQuery: context.sideQuery,
+      traceCollector: context.traceCollector,
     };
 
     try {
@@ -1059,9 +1093,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<StopFailureHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.StopFailure, services)) {
       return { shouldRetry: false };
     }
 
@@ -1077,7 +1112,7 @@ export class HookManager {
       tool_name: params.tool_name,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.StopFailure, {});
+    const hooks = this.getMatchingHooks(HookEvent.StopFailure, {}, services);
 
     if (hooks.length === 0) {
       return { shouldRetry: false };
@@ -1089,6 +1124,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1115,9 +1152,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<PreCompactHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.PreCompact, services)) {
       return { blockCompaction: false };
     }
 
@@ -1133,7 +1171,7 @@ export class HookManager {
       tokens_before: params.tokens_before,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.PreCompact, {});
+    const hooks = this.getMatchingHooks(HookEvent.PreCompact, {}, services);
 
     if (hooks.length === 0) {
       return { blockCompaction: false };
@@ -1145,6 +1183,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1178,9 +1218,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<PostCompactHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.PostCompact, services)) {
       return {};
     }
 
@@ -1199,7 +1240,7 @@ export class HookManager {
       summary: params.summary,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.PostCompact, {});
+    const hooks = this.getMatchingHooks(HookEvent.PostCompact, {}, services);
 
     if (hooks.length === 0) {
       return {};
@@ -1211,6 +1252,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1236,9 +1279,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<ElicitationHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.Elicitation, services)) {
       return { proceed: true };
     }
 
@@ -1254,7 +1298,7 @@ export class HookManager {
       message: params.message,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.Elicitation, {});
+    const hooks = this.getMatchingHooks(HookEvent.Elicitation, {}, services);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -1266,6 +1310,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1292,9 +1338,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<ElicitationResultHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.ElicitationResult, services)) {
       return { proceed: true };
     }
 
@@ -1310,7 +1357,7 @@ export class HookManager {
       was_cancelled: params.was_cancelled,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.ElicitationResult, {});
+    const hooks = this.getMatchingHooks(HookEvent.ElicitationResult, {}, services);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -1322,6 +1369,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1348,9 +1397,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<ConfigChangeHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.ConfigChange, services)) {
       return { proceed: true };
     }
 
@@ -1365,7 +1415,7 @@ export class HookManager {
       source: params.source,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.ConfigChange, {});
+    const hooks = this.getMatchingHooks(HookEvent.ConfigChange, {}, services);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -1377,6 +1427,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1403,9 +1455,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<CwdChangedHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.CwdChanged, services)) {
       return { proceed: true };
     }
 
@@ -1420,7 +1473,7 @@ export class HookManager {
       new_cwd: params.new_cwd,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.CwdChanged, {});
+    const hooks = this.getMatchingHooks(HookEvent.CwdChanged, {}, services);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -1432,6 +1485,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1458,9 +1513,10 @@ export class HookManager {
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<FileChangedHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.FileChanged, services)) {
       return { action: 'reload' };
     }
 
@@ -1477,7 +1533,7 @@ export class HookManager {
 
     const hooks = this.getMatchingHooks(HookEvent.FileChanged, {
       filePath: params.file_path,
-    });
+    }, services);
 
     if (hooks.length === 0) {
       return { action: 'reload' };
@@ -1489,6 +1545,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1511,13 +1569,14 @@ export class HookManager {
    * 执行 InstructionsLoaded Hooks
    */
   async executeInstructionsLoadedHooks(
-    params: { source: string; instructions_length: number },
+    params: { source: string; instructions_length: number; file_path?: string },
     projectDir: string,
     sessionId: SessionId,
     permissionMode: PermissionMode,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    services?: HookSessionServices
   ): Promise<InstructionsLoadedHookResult> {
-    if (!this.isEnabled()) {
+    if (!this.isActive(HookEvent.InstructionsLoaded, services)) {
       return { proceed: true };
     }
 
@@ -1530,9 +1589,10 @@ export class HookManager {
       permission_mode: permissionMode,
       source: params.source,
       instructions_length: params.instructions_length,
+      file_path: params.file_path,
     };
 
-    const hooks = this.getMatchingHooks(HookEvent.InstructionsLoaded, {});
+    const hooks = this.getMatchingHooks(HookEvent.InstructionsLoaded, {}, services);
 
     if (hooks.length === 0) {
       return { proceed: true };
@@ -1544,6 +1604,8 @@ export class HookManager {
       permissionMode,
       config: this.config,
       abortSignal: signal,
+      sideQuery: services?.sideQuery,
+      traceCollector: services?.traceCollector,
     };
 
     try {
@@ -1565,17 +1627,24 @@ export class HookManager {
   /**
    * 获取匹配的 Hooks
    */
-  private getMatchingHooks(event: HookEvent, context: MatchContext): Hook[] {
-    const matchers = this.config[event] || [];
-
+  private getMatchingHooks(
+    event: HookEvent,
+    context: MatchContext,
+    services?: HookSessionServices
+  ): Hook[] {
     const matchedHooks: Hook[] = [];
 
-    for (const matcher of matchers) {
-      if (this.matcher.matches(matcher.matcher, context)) {
-        matchedHooks.push(...matcher.hooks);
+    if (this.isEnabled() && services?.includeFileHooks !== false) {
+      for (const matcher of this.config[event] || []) {
+        if (this.matcher.matches(matcher.matcher, context)) {
+          matchedHooks.push(...matcher.hooks);
+        }
       }
     }
 
+    // 会话回调 Hook 不受全局开关与 matcher 约束
+    matchedHooks.push(...(services?.callbackHooks?.[event] ?? []));
+
     return matchedHooks;
   }
 
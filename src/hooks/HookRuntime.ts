@@ -1,9 +1,14 @@
 import { nanoid } from 'nanoid';
 import type { UserMessageContent } from '../agent/types.js';
 import type { RuntimeHookRegistration } from '../runtime/index.js';
-import type { ContentPart } from '../services/ChatServiceInterface.js';
+import type { ContentPart, IChatService } from '../services/ChatServiceInterface.js';
 import { cloneContentPart } from '../services/messageUtils.js';
-import type { ToolResult } from '../tools/types/index.js';
+import {
+  isMultimodalContent,
+  multimodalContent,
+  type ToolResult,
+  toolModelContentToJson,
+} from '../tools/types/index.js';
 import { ToolUseId, type SessionId } from '../types/branded.js';
 import type { JsonObject, JsonValue, PermissionMode } from '../types/common.js';
 import { HookEvent } from '../types/constants.js';
@@ -12,11 +17,14 @@ import type { HookCallback, HookInput } from '../session/types.js';
 import type { HookTraceCollector } from '../observability/index.js';
 import { HookManager } from './HookManager.js';
 import { HookBus } from './HookBus.js';
+import { resolveHookTarget } from './callbackHooks.js';
+import type { HookSessionServices, NotificationInput } from './types/HookTypes.js';
 
 interface HookRuntimeOptions {
   sessionId: SessionId;
   permissionMode: PermissionMode;
   callbacks?: Partial<Record<HookEvent, HookCallback[]>>;
+  callbackHooks?: HookSessionServices['callbackHooks'];
   resolveProjectDir: () => string | undefined;
   hookManager?: HookManager;
 }
@@ -57,6 +65,7 @@ export class HookRuntime {
   private readonly callbacks: Partial<Record<HookEvent, HookCallback[]>>;
   private readonly hookManager: HookManager;
   private traceCollector?: HookTraceCollector;
+  private sideQuery?: IChatService['sideQuery'];
   private readonly runtimeHookRegistrations = new Map<string, {
     event: HookEvent;
     callback: HookCallback;
@@ -77,10 +86,28 @@ export class HookRuntime {
     return this.callbacks;
   }
 
+  /**
+   * 会话级 Hook 能力（sideQuery、追踪、回调 Hook），供直接调用 HookManager 的模块透传。
+   */
+  getSessionServices(): HookSessionServices {
+    return {
+      sideQuery: this.sideQuery,
+      traceCollector: this.traceCollector,
+      callbackHooks: this.options.callbackHooks,
+    };
+  }
+
   setTraceCollector(traceCollector: HookTraceCollector | undefined): void {
     this.traceCollector = traceCollector;
   }
 
+  /**
+   * 注入会话模型的 sideQuery，供 HookManager 中的 prompt hooks 使用。
+   */
+  setSideQuery(sideQuery: IChatService['sideQuery'] | undefined): void {
+    this.sideQuery = sideQuery;
+  }
+
   registerRuntimeHooks(hooks: RuntimeHookRegistration[]): string[] {
     const registrationIds: string[] = [];
 
@@ -170,6 +197,7 @@ export class HookRuntime {
         sessionId: this.options.sessionId,
         permissionMode: options.permissionMode ?? this.options.permissionMode,
         abortSignal: options.abortSignal,
+        ...this.getSessionServices(),
       },
     );
 
@@ -224,6 +252,7 @@ export class HookRuntime {
           sessionId: this.options.sessionId,
           permissionMode: options.permissionMode ?? this.options.permissionMode,
           abortSignal: options.abortSignal,
+          ...this.getSessionServices(),
         },
       );
 
@@ -270,6 +299,7 @@ export class HookRuntime {
           isInterrupt: options.isInterrupt ?? false,
           isTimeout: options.isTimeout ?? false,
           abortSignal: options.abortSignal,
+          ...this.getSessionServices(),
         },
       );
 
@@ -349,6 +379,7 @@ export class HookRuntime {
         sessionId: this.options.sessionId,
         permissionMode: this.options.permissionMode,
         abortSignal: options.abortSignal,
+        ...this.getSessionServices(),
       },
     );
 
@@ -420,6 +451,7 @@ export class HookRuntime {
         hasImages: imageMeta.hasImages,
         imageCount: imageMeta.imageCount,
         abortSignal: options.abortSignal,
+        ...this.getSessionServices(),
       },
     );
 
@@ -455,6 +487,7 @@ export class HookRuntime {
       isResume: payload.isResume,
       resumeSessionId: payload.resumeSessionId,
       abortSignal: payload.abortSignal,
+      ...this.getSessionServices(),
     });
     if (!result.proceed) {
       throw new Error(result.warning || 'Session start aborted by hook manager');
@@ -486,12 +519,161 @@ export class HookRuntime {
       resultSummary: payload.resultSummary,
       success: payload.success,
       abortSignal: payload.abortSignal,
+      ...this.getSessionServices(),
     });
     if (!result.allowCompletion) {
       throw new Error(result.blockReason || 'Task completion blocked by hook manager');
     }
   }
 
+  async runCwdChanged(
+    payload: { oldCwd: string; newCwd: string; abortSignal?: AbortSignal },
+  ): Promise<void> {
+    await this.runCallbackGroup(HookEvent.CwdChanged, payload);
+
+    const target = this.hookTarget(HookEvent.CwdChanged);
+    if (!target) {
+      return;
+    }
+
+    await this.hookManager.executeCwdChangedHooks(
+      { old_cwd: payload.oldCwd, new_cwd: payload.newCwd },
+      target.projectDir,
+      this.options.sessionId,
+      this.options.permissionMode,
+      payload.abortSignal,
+      target.services,
+    );
+  }
+
+  async runFileChanged(
+    payload: {
+      filePath: string;
+      changeType: 'created' | 'modified' | 'deleted';
+      abortSignal?: AbortSignal;
+    },
+  ): Promise<void> {
+    await this.runCallbackGroup(HookEvent.FileChanged, payload);
+
+    const target = this.hookTarget(HookEvent.FileChanged);
+    if (!target) {
+      return;
+    }
+
+    const result = await this.hookManager.executeFileChangedHooks(
+      { file_path: payload.filePath, change_type: payload.changeType },
+      target.projectDir,
+      this.options.sessionId,
+      this.options.permissionMode,
+      payload.abortSignal,
+      target.services,
+    );
+    if (result.warning) {
+      console.warn(`[HookRuntime] Hook warning: ${result.warning}`);
+    }
+  }
+
+  async runStopFailure(
+    payload: {
+      reason: string;
+      error?: string;
+      toolName?: string;
+      abortSignal?: AbortSignal;
+    },
+  ): Promise<void> {
+    await this.runCallbackGroup(HookEvent.StopFailure, payload);
+
+    const target = this.hookTarget(HookEvent.StopFailure);
+    if (!target) {
+      return;
+    }
+
+    const result = await this.hookManager.executeStopFailureHooks(
+      { reason: payload.reason, error: payload.error, tool_name: payload.toolName },
+      target.projectDir,
+      this.options.sessionId,
+      this.options.permissionMode,
+      payload.abortSignal,
+      target.services,
+    );
+    if (result.warning) {
+      console.warn(`[HookRuntime] Hook warning: ${result.warning}`);
+    }
+  }
+
+  async runNotification(
+    payload: {
+      notificationType: NotificationInput['notification_type'];
+      message: string;
+      title?: string;
+      abortSignal?: AbortSignal;
+    },
+  ): Promise<{ suppress: boolean; message: string }> {
+    await this.runCallbackGroup(HookEvent.Notification, payload);
+
+    const target = this.hookTarget(HookEvent.Notification);
+    if (!target) {
+      return { suppress: false, message: payload.message };
+    }
+
+    const result = await this.hookManager.executeNotificationHooks(
+      payload.notificationType,
+      payload.message,
+      {
+        projectDir: target.projectDir,
+        sessionId: this.options.sessionId,
+        permissionMode: this.options.permissionMode,
+        title: payload.title,
+        abortSignal: payload.abortSignal,
+        ...target.services,
+      },
+    );
+    if (result.warning) {
+      console.warn(`[HookRuntime] Hook warning: ${result.warning}`);
+    }
+    return { suppress: result.suppress, message: result.message };
+  }
+
+  /**
+   * 通知指令加载，返回 Hook 修改后的指令文本
+   */
+  async runInstructionsLoaded(
+    payload: {
+      source: string;
+      instructions: string;
+      filePath?: string;
+      abortSignal?: AbortSignal;
+    },
+  ): Promise<string> {
+    await this.runCallbackGroup(HookEvent.InstructionsLoaded, {
+      source: payload.source,
+      instructionsLength: payload.instructions.length,
+      filePath: payload.filePath,
+    });
+
+    const target = this.hookTarget(HookEvent.InstructionsLoaded);
+    if (!target) {
+      return payload.instructions;
+    }
+
+    const result = await this.hookManager.executeInstructionsLoadedHooks(
+      {
+        source: payload.source,
+        instructions_length: payload.instructions.length,
+        file_path: payload.filePath,
+      },
+      target.projectDir,
+      this.options.sessionId,
+      this.options.permissionMode,
+      payload.abortSignal,
+      target.services,
+    );
+    if (result.warning) {
+      console.warn(`[HookRuntime] Hook warning: ${result.warning}`);
+    }
+    return result.modified_instructions ?? payload.instructions;
+  }
+
   async runSessionEnd(
     payload: {
       reason:
@@ -519,6 +701,7 @@ export class HookRuntime {
       sessionId: this.options.sessionId,
       permissionMode: this.options.permissionMode,
       abortSignal: payload.abortSignal,
+      ...this.getSessionServices(),
     });
   }
 
@@ -528,17 +711,18 @@ export class HookRuntime {
       abortSignal?: AbortSignal;
     },
   ): Promise<{ shouldStop: boolean; continueReason?: string; warning?: string }> {
-    const projectDir = this.options.resolveProjectDir();
-    if (!projectDir) {
+    const target = this.hookTarget(HookEvent.Stop);
+    if (!target) {
       return { shouldStop: true };
     }
 
     return this.hookManager.executeStopHooks({
-      projectDir,
+      projectDir: target.projectDir,
       sessionId: this.options.sessionId,
       permissionMode: this.options.permissionMode,
       reason: payload.reason,
       abortSignal: payload.abortSignal,
+      ...target.services,
     });
   }
 
@@ -573,10 +757,12 @@ export class HookRuntime {
     }
 
     if (hookResult.additionalContext) {
-      const currentContent = this.stringifyHookOutput(nextResult.model);
+      const hookContext = `---\n**Hook Context:**\n${hookResult.additionalContext}`;
       nextResult = {
         ...nextResult,
-        model: `${currentContent}\n\n---\n**Hook Context:**\n${hookResult.additionalContext}`,
+        model: isMultimodalContent(nextResult.model)
+          ? multimodalContent([...nextResult.model.parts, { type: 'text', text: hookContext }])
+          : `${this.stringifyHookOutput(nextResult.model)}\n\n${hookContext}`,
       };
     }
 
@@ -603,7 +789,8 @@ export class HookRuntime {
     }
 
     let nextResult = result;
-    let nextOutput: JsonValue = result.model;
+    const originalOutput = toolModelContentToJson(result.model);
+    let nextOutput: JsonValue = originalOutput;
     const outputs = await this.dispatchObserved(
       event,
       buildHookInput(this.options.sessionId, event, {
@@ -631,7 +818,7 @@ export class HookRuntime {
       }
     }
 
-    if (nextOutput !== result.model) {
+    if (nextOutput !== originalOutput) {
       const renderedOutput = this.stringifyHookOutput(nextOutput);
       nextResult = {
         ...nextResult,
@@ -642,6 +829,10 @@ export class HookRuntime {
     return { toolUseId, result: nextResult };
   }
 
+  private hookTarget(event: HookEvent) {
+    return resolveHookTarget(event, this.options.resolveProjectDir(), this.getSessionServices());
+  }
+
   private async dispatchObserved(event: HookEvent, input: HookInput) {
     const spanId = this.traceCollector?.recordHookStart(event, input);
     try {
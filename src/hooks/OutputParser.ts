@@ -1,18 +1,24 @@
 /**
  * Hook Output Parser
  *
- * 解析 Hook 命令的输出
+ * 解析 Hook 命令的输出、回调 Hook 的返回值与 Prompt Hook 的模型决策
  */
 
 import type { JsonValue } from '../types/common.js';
-import { safeParseHookOutput } from './schemas/HookSchemas.js';
+import { HookEvent } from '../types/constants.js';
+import { safeParseHookOutput, safeParsePromptHookDecision } from './schemas/HookSchemas.js';
 import {
+  type CallbackHook,
   type Hook,
   type HookConfig,
   type HookExecutionResult,
   HookExitCode,
   type HookOutput,
+  type HookSpecificOutput,
+  PermissionDecision,
   type ProcessResult,
+  type PromptHook,
+  type PromptHookDecision,
 } from './types/HookTypes.js';
 
 const VALID_EXIT_CODES = new Set(Object.values(HookExitCode).filter((v): v is number => typeof v === 'number'));
@@ -67,45 +73,132 @@ export class OutputParser {
         );
       }
 
-      const output = validation.data as HookOutput;
+      return this.fromHookOutput(validation.data as HookOutput, hook, result);
+    }
 
-      // 检查 decision.behavior
-      if (output.decision?.behavior === 'block') {
-        return {
-          status: 'blocked',
-          error: output.systemMessage || 'Hook blocked execution',
-          stdout: result.stdout,
-          stderr: result.stderr,
-          exitCode: result.exitCode,
-          hook,
-        };
-      }
+    // 3. 非 JSON 输出,根据退出码判断
+    return this.parseByExitCode(result, hook, config);
+  }
 
-      // async behavior - 不阻塞
-      if (output.decision?.behavior === 'async') {
-        return {
-          status: 'success',
-          output,
-          stdout: result.stdout,
-          stderr: result.stderr,
-          exitCode: result.exitCode,
-          hook,
-        };
-      }
+  /**
+   * 解析回调 Hook 的返回值
+   *
+   * 返回值与命令 Hook 的 JSON 输出走同一套校验与决策；undefined 视为成功且无输出。
+   */
+  parseCallbackOutput(
+    output: HookOutput | undefined,
+    hook: CallbackHook,
+    config?: Pick<HookConfig, 'timeoutBehavior' | 'failureBehavior'>
+  ): HookExecutionResult {
+    if (output === undefined) {
+      return { status: 'success', hook };
+    }
+
+    const validation = safeParseHookOutput(output);
+    if (!validation.success) {
+      const errorMsg =
+        'error' in validation ? validation.error.message : 'Unknown validation error';
+      return this.parseFailure('failure', `Invalid hook output: ${errorMsg}`, hook, config);
+    }
 
-      // approve - 成功
+    return this.fromHookOutput(validation.data as HookOutput, hook, {});
+  }
+
+  /**
+   * 解析 Prompt Hook 的模型回复
+   *
+   * 回复需包含一个 PromptHookDecision JSON 对象 (允许包裹在代码块中)，
+   * 按事件转换为对应的 hookSpecificOutput。
+   */
+  parsePromptResponse(
+    content: string,
+    hook: PromptHook,
+    event: HookEvent,
+    config?: Pick<HookConfig, 'timeoutBehavior' | 'failureBehavior'>
+  ): HookExecutionResult {
+    const jsonOutput = this.tryParseJSON(this.stripCodeFence(content));
+    const validation = jsonOutput ? safeParsePromptHookDecision(jsonOutput) : undefined;
+
+    if (!validation?.success) {
+      const errorMsg =
+        validation && 'error' in validation ? validation.error.message : 'no JSON object found';
+      return this.parseFailure(
+        'failure',
+        `Invalid prompt hook decision: ${errorMsg}`,
+        hook,
+        config,
+        content,
+      );
+    }
+
+    const decision = validation.data;
+    if (decision.decision === 'deny') {
       return {
-        status: 'success',
-        output,
-        stdout: result.stdout,
-        stderr: result.stderr,
-        exitCode: result.exitCode,
+        status: 'blocked',
+        error: decision.reason || 'Prompt hook denied execution',
+        stdout: content,
         hook,
       };
     }
 
-    // 3. 非 JSON 输出,根据退出码判断
-    return this.parseByExitCode(result, hook, config);
+    if (decision.decision === 'ask') {
+      return {
+        status: 'needs_confirmation',
+        warning: decision.reason || 'Prompt hook requires confirmation',
+        stdout: content,
+        hook,
+      };
+    }
+
+    return {
+      status: 'success',
+      output: {
+        systemMessage: decision.reason,
+        hookSpecificOutput: this.toHookSpecificOutput(event, decision),
+      },
+      hook,
+    };
+  }
+
+  /**
+   * 构建 Prompt / 回调 Hook 失败结果 (超时按 timeoutBehavior，其余按 failureBehavior)
+   */
+  parseFailure(
+    kind: 'timeout' | 'failure',
+    errorMsg: string,
+    hook: PromptHook | CallbackHook,
+    config?: Pick<HookConfig, 'timeoutBehavior' | 'failureBehavior'>,
+    content?: string,
+  ): HookExecutionResult {
+    const behavior = kind === 'timeout' ? config?.timeoutBehavior : config?.failureBehavior;
+    return this.buildFailureResult(behavior || 'ignore', errorMsg, { stdout: content }, hook);
+  }
+
+  /**
+   * 按 decision.behavior 把已校验的 HookOutput 转为执行结果
+   */
+  private fromHookOutput(
+    output: HookOutput,
+    hook: Hook,
+    result: Partial<ProcessResult>,
+  ): HookExecutionResult {
+    const common = {
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      hook,
+    };
+
+    if (output.decision?.behavior === 'block') {
+      return {
+        status: 'blocked',
+        error: output.systemMessage || 'Hook blocked execution',
+        ...common,
+      };
+    }
+
+    // approve / async - 不阻塞
+    return { status: 'success', output, ...common };
   }
 
   /**
@@ -171,7 +264,7 @@ export class OutputParser {
   private buildFailureResult(
     behavior: 'ignore' | 'deny' | 'ask',
     errorMsg: string,
-    result: ProcessResult,
+    result: Partial<ProcessResult>,
     hook: Hook,
     exitCode?: number,
   ): HookExecutionResult {
@@ -197,6 +290,56 @@ export class OutputParser {
     return { status: 'warning', warning: errorMsg, ...common };
   }
 
+  /**
+   * 将模型决策映射为事件特定输出
+   *
+   * modify 才会带上 updated* 字段；additionalContext 对 allow 同样生效。
+   */
+  private toHookSpecificOutput(
+    event: HookEvent,
+    decision: PromptHookDecision,
+  ): HookSpecificOutput | undefined {
+    const modify = decision.decision === 'modify';
+
+    switch (event) {
+      case HookEvent.PreToolUse:
+        return {
+          hookEventName: 'PreToolUse',
+          permissionDecision: PermissionDecision.Allow,
+          permissionDecisionReason: decision.reason,
+          updatedInput: modify ? decision.updatedInput : undefined,
+        };
+      case HookEvent.PostToolUse:
+        return {
+          hookEventName: 'PostToolUse',
+          additionalContext: decision.additionalContext,
+          updatedOutput: modify ? decision.updatedOutput : undefined,
+        };
+      case HookEvent.UserPromptSubmit:
+        return {
+          hookEventName: 'UserPromptSubmit',
+          updatedPrompt: modify ? decision.updatedPrompt : undefined,
+          contextInjection: decision.additionalContext,
+        };
+      case HookEvent.SubagentStart:
+        return { hookEventName: 'SubagentStart', additionalContext: decision.additionalContext };
+      case HookEvent.SubagentStop:
+        return { hookEventName: 'SubagentStop', additionalContext: decision.additionalContext };
+      case HookEvent.PostCompact:
+        return { hookEventName: 'PostCompact', additionalContext: decision.additionalContext };
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 去掉模型回复外层的 Markdown 代码块
+   */
+  private stripCodeFence(text: string): string {
+    const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return match ? match[1] : text;
+  }
+
   /**
    * 尝试解析 JSON
    */
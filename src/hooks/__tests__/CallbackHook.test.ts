@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionId } from '../../types/branded.js';
+import { PermissionMode } from '../../types/common.js';
+import { HookEvent } from '../../types/constants.js';
+import { resolveHookTarget, splitSessionHooks } from '../callbackHooks.js';
+import { DEFAULT_HOOK_CONFIG } from '../HookConfig.js';
+import { HookExecutor } from '../HookExecutor.js';
+import { HookManager } from '../HookManager.js';
+import type {
+  CallbackHook,
+  HookConfig,
+  HookEventCallback,
+  HookExecutionContext,
+  StopInput,
+  SubagentStartInput,
+} from '../types/HookTypes.js';
+import { DecisionBehavior, HookType } from '../types/HookTypes.js';
+
+const base = {
+  hook_execution_id: 'exec-1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  project_dir: '/tmp/project',
+  session_id: 'session-1',
+  permission_mode: PermissionMode.DEFAULT,
+};
+
+const subagentStartInput: SubagentStartInput = {
+  ...base,
+  hook_event_name: HookEvent.SubagentStart,
+  agent_type: 'Explore',
+  task_description: 'Find the config loader',
+};
+
+const stopInput: StopInput = {
+  ...base,
+  hook_event_name: HookEvent.Stop,
+  reason: 'Task finished',
+};
+
+function callbackHook<E extends HookEvent>(
+  callback: HookEventCallback<E>,
+  timeout?: number,
+): CallbackHook {
+  return { type: HookType.Callback, callback: callback as unknown as HookEventCallback, timeout };
+}
+
+function context(config: Partial<HookConfig> = {}): HookExecutionContext {
+  return {
+    projectDir: '/tmp/project',
+    sessionId: SessionId('session-1'),
+    permissionMode: PermissionMode.DEFAULT,
+    config: { ...DEFAULT_HOOK_CONFIG, ...config },
+  };
+}
+
+describe('callback hooks', () => {
+  const executor = new HookExecutor();
+
+  it('passes the typed input and applies hookSpecificOutput like command hooks', async () => {
+    const callback = vi.fn<HookEventCallback<typeof HookEvent.SubagentStart>>(async () => ({
+      hookSpecificOutput: {
+        hookEventName: 'SubagentStart',
+        additionalContext: 'Prefer src/config over legacy/',
+      },
+    }));
+
+    const result = await executor.executeSubagentStartHooks(
+      [callbackHook(callback)],
+      subagentStartInput,
+      context(),
+    );
+
+    expect(result).toEqual({ proceed: true, additionalContext: 'Prefer src/config over legacy/' });
+    expect(callback).toHaveBeenCalledWith(subagentStartInput, {
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('treats undefined as success and a block decision as exit code 2', async () => {
+    const passthrough = callbackHook(async () => undefined);
+    const block = callbackHook(async () => ({ decision: { behavior: DecisionBehavior.Block } }));
+
+    await expect(
+      executor.executeSubagentStartHooks([passthrough], subagentStartInput, context()),
+    ).resolves.toEqual({ proceed: true });
+    await expect(
+      executor.executeSubagentStartHooks([passthrough, block], subagentStartInput, context()),
+    ).resolves.toMatchObject({ proceed: false });
+  });
+
+  it('keeps the session running when a Stop callback asks to continue', async () => {
+    const result = await executor.executeStopHooks(
+      [
+        callbackHook<typeof HookEvent.Stop>(async () => ({
+          hookSpecificOutput: {
+            hookEventName: 'Stop',
+            continue: false,
+            continueReason: 'Run the tests first',
+          },
+        })),
+      ],
+      stopInput,
+      context(),
+    );
+
+    expect(result).toEqual({ shouldStop: false, continueReason: 'Run the tests first' });
+  });
+
+  it('applies failureBehavior and timeoutBehavior', async () => {
+    const failing = callbackHook(async () => {
+      throw new Error('audit service down');
+    });
+    const hanging = callbackHook(() => new Promise(() => {}), 0.05);
+
+    await expect(
+      executor.executeSubagentStartHooks(
+        [failing],
+        subagentStartInput,
+        context({ failureBehavior: 'deny' }),
+      ),
+    ).resolves.toEqual({ proceed: false, warning: 'audit service down' });
+    await expect(
+      executor.executeSubagentStartHooks([failing], subagentStartInput, context()),
+    ).resolves.toMatchObject({
+      proceed: true,
+      warning: expect.stringContaining('audit service down'),
+    });
+    await expect(
+      executor.executeSubagentStartHooks(
+        [hanging],
+        subagentStartInput,
+        context({ timeoutBehavior: 'deny' }),
+      ),
+    ).resolves.toEqual({ proceed: false, warning: 'Hook timeout' });
+  });
+
+  it('reports invalid callback output as a warning', async () => {
+    const invalid = callbackHook(async () => ({ decision: 'nope' }) as never);
+
+    const result = await executor.executeSubagentStartHooks(
+      [invalid],
+      subagentStartInput,
+      context(),
+    );
+
+    expect(result.proceed).toBe(true);
+    expect(result.warning).toBeDefined();
+  });
+});
+
+describe('session hook wiring', () => {
+  afterEach(() => {
+    HookManager.getInstance().loadConfig({});
+  });
+
+  it('splits action callbacks from lifecycle callbacks', () => {
+    const preToolUse = vi.fn(async () => ({ action: 'continue' as const }));
+    const stop = vi.fn(async () => undefined);
+
+    const { callbacks, callbackHooks } = splitSessionHooks({
+      [HookEvent.PreToolUse]: [preToolUse],
+      [HookEvent.Stop]: [stop],
+    });
+
+    expect(callbacks).toEqual({ [HookEvent.PreToolUse]: [preToolUse] });
+    expect(callbackHooks).toEqual({
+      [HookEvent.Stop]: [{ type: HookType.Callback, callback: stop }],
+    });
+  });
+
+  it('runs session callbacks without file hooks when there is no project directory', async () => {
+    const manager = HookManager.getInstance();
+    manager.loadConfig({
+      enabled: true,
+      SubagentStart: [{ hooks: [{ type: HookType.Command, command: 'exit 2' }] }],
+    });
+    const callback = vi.fn(async () => undefined);
+    const services = {
+      callbackHooks: { [HookEvent.SubagentStart]: [callbackHook(callback)] },
+    };
+
+    expect(resolveHookTarget(HookEvent.Stop, undefined, services)).toBeUndefined();
+    const target = resolveHookTarget(HookEvent.SubagentStart, undefined, services);
+    expect(target).toEqual({
+      projectDir: process.cwd(),
+      services: { ...services, includeFileHooks: false },
+    });
+    if (!target) return;
+
+    const result = await manager.executeSubagentStartHooks('Explore', {
+      projectDir: target.projectDir,
+      sessionId: SessionId('session-1'),
+      permissionMode: PermissionMode.DEFAULT,
+      ...target.services,
+    });
+
+    expect(result).toEqual({ proceed: true });
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ agent_type: 'Explore', project_dir: process.cwd() }),
+      expect.anything(),
+    );
+  });
+});
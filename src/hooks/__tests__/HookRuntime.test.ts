@@ -152,4 +152,32 @@ describe('HookRuntime', () => {
       }),
     );
   });
+
+  it('dispatches CwdChanged to callbacks and file hooks', async () => {
+    const callback = vi.fn(async () => ({ action: 'continue' as const }));
+    const hookManager = {
+      executeCwdChangedHooks: vi.fn(async () => ({ proceed: true })),
+    };
+    const runtime = new HookRuntime({
+      sessionId: SessionId('session-cwd'),
+      permissionMode: PermissionMode.DEFAULT,
+      callbacks: { [HookEvent.CwdChanged]: [callback] },
+      resolveProjectDir: () => '/tmp/project',
+      hookManager: hookManager as never,
+    });
+
+    await runtime.runCwdChanged({ oldCwd: '/tmp/project', newCwd: '/tmp/project/src' });
+
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({ oldCwd: '/tmp/project', newCwd: '/tmp/project/src' }),
+    );
+    expect(hookManager.executeCwdChangedHooks).toHaveBeenCalledWith(
+      { old_cwd: '/tmp/project', new_cwd: '/tmp/project/src' },
+      '/tmp/project',
+      SessionId('session-cwd'),
+      PermissionMode.DEFAULT,
+      undefined,
+      { sideQuery: undefined, traceCollector: undefined },
+    );
+  });
 });
@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { IChatService } from '../../services/ChatServiceInterface.js';
+import { createSession } from '../../session/Session.js';
+import type { StreamMessage } from '../../session/types.js';
+import { defineTool } from '../../tools/core/createTool.js';
+import { SessionId } from '../../types/branded.js';
+import { PermissionMode } from '../../types/common.js';
+import { HookEvent } from '../../types/constants.js';
+import { DEFAULT_HOOK_CONFIG } from '../HookConfig.js';
+import { HookExecutor } from '../HookExecutor.js';
+import { HookManager } from '../HookManager.js';
+import type {
+  HookConfig,
+  HookExecutionContext,
+  PostToolUseInput,
+  PreToolUseInput,
+  PromptHook,
+} from '../types/HookTypes.js';
+import { HookType } from '../types/HookTypes.js';
+
+const policy: PromptHook = {
+  type: HookType.Prompt,
+  prompt: 'Block edits that remove tests',
+};
+
+const preToolInput: PreToolUseInput = {
+  hook_event_name: HookEvent.PreToolUse,
+  hook_execution_id: 'exec-1',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  project_dir: '/tmp/project',
+  session_id: 'session-1',
+  permission_mode: PermissionMode.DEFAULT,
+  tool_name: 'Edit',
+  tool_use_id: 'tool-1',
+  tool_input: { file_path: 'a.test.ts', new_string: '' },
+};
+
+function context(
+  sideQuery: IChatService['sideQuery'] | undefined,
+  config: Partial<HookConfig> = {},
+): HookExecutionContext {
+  return {
+    projectDir: '/tmp/project',
+    sessionId: SessionId('session-1'),
+    permissionMode: PermissionMode.DEFAULT,
+    config: { ...DEFAULT_HOOK_CONFIG, ...config },
+    sideQuery,
+    traceCollector: {
+      recordHookStart: vi.fn(() => 'span-1'),
+      recordHookEnd: vi.fn(),
+      recordHookError: vi.fn(),
+    },
+  };
+}
+
+const reply = (content: string): IChatService['sideQuery'] => vi.fn(async () => ({ content }));
+
+describe('prompt hooks', () => {
+  const executor = new HookExecutor();
+
+  it('asks the session model with the hook input and applies a deny decision', async () => {
+    const sideQuery = reply('{"decision":"deny","reason":"removes a test"}');
+    const ctx = context(sideQuery);
+
+    const result = await executor.executePreToolHooks([policy], preToolInput, ctx);
+
+    expect(result).toEqual({ decision: 'deny', reason: 'removes a test' });
+    const [messages] = vi.mocked(sideQuery).mock.calls[0];
+    expect(messages.at(-1)?.content).toContain('Block edits that remove tests');
+    expect(messages.at(-1)?.content).toContain('"file_path": "a.test.ts"');
+    expect(ctx.traceCollector?.recordHookStart).toHaveBeenCalledWith(
+      HookEvent.PreToolUse,
+      expect.objectContaining({ hookType: 'prompt', prompt: policy.prompt }),
+    );
+    expect(ctx.traceCollector?.recordHookEnd).toHaveBeenCalledWith('span-1', {
+      hookType: 'prompt',
+      status: 'blocked',
+    });
+  });
+
+  it('merges updated tool input from a modify decision', async () => {
+    const result = await executor.executePreToolHooks(
+      [policy],
+      preToolInput,
+      context(reply('```json\n{"decision":"modify","updatedInput":{"new_string":"kept"}}\n```')),
+    );
+
+    expect(result).toMatchObject({
+      decision: 'allow',
+      modifiedInput: { file_path: 'a.test.ts', new_string: 'kept' },
+    });
+  });
+
+  it('collects additional context for PostToolUse', async () => {
+    const input: PostToolUseInput = {
+      ...preToolInput,
+      hook_event_name: HookEvent.PostToolUse,
+      tool_response: { status: 'success', model: 'ok' },
+    };
+
+    const result = await executor.executePostToolHooks(
+      [policy],
+      input,
+      context(reply('{"decision":"allow","additionalContext":"Run the test suite next."}')),
+    );
+
+    expect(result.additionalContext).toBe('Run the test suite next.');
+  });
+
+  it('applies timeoutBehavior when the model does not answer in time', async () => {
+    const sideQuery: IChatService['sideQuery'] = () => new Promise(() => {});
+
+    const result = await executor.executePreToolHooks(
+      [{ ...policy, timeout: 0.05 }],
+      preToolInput,
+      context(sideQuery, { timeoutBehavior: 'deny' }),
+    );
+
+    expect(result).toEqual({ decision: 'deny', reason: 'Hook timeout' });
+  });
+
+  it('applies failureBehavior to model errors and unparseable replies', async () => {
+    const failing: IChatService['sideQuery'] = vi.fn(async () => {
+      throw new Error('provider down');
+    });
+
+    await expect(
+      executor.executePreToolHooks(
+        [policy],
+        preToolInput,
+        context(failing, { failureBehavior: 'ask' }),
+      ),
+    ).resolves.toEqual({ decision: 'ask', reason: 'provider down. Continue?' });
+
+    const ignored = await executor.executePreToolHooks(
+      [policy],
+      preToolInput,
+      context(reply('Looks fine to me.')),
+    );
+    expect(ignored.decision).toBe('allow');
+    expect(ignored.warning).toContain('Invalid prompt hook decision');
+
+    const withoutModel = await executor.executePreToolHooks(
+      [policy],
+      preToolInput,
+      context(undefined, { failureBehavior: 'deny' }),
+    );
+    expect(withoutModel).toEqual({
+      decision: 'deny',
+      reason: 'Prompt hook requires a session model',
+    });
+  });
+
+  describe('in a session', () => {
+    afterEach(() => {
+      HookManager.getInstance().loadConfig({});
+    });
+
+    it('evaluates configured prompt hooks with the session model and traces them', async () => {
+      HookManager.getInstance().loadConfig({
+        enabled: true,
+        PreToolUse: [{ matcher: { tools: 'Echo' }, hooks: [policy] }],
+      });
+      const execute = vi.fn();
+      const echoTool = defineTool({
+        name: 'Echo',
+        sideEffect: 'pure',
+        description: 'Echo text back',
+        parameters: {
+          type: 'object',
+          properties: { text: { type: 'string' } },
+          required: ['text'],
+        },
+        // biome-ignore lint/correctness/useYield: terminal-only tool execution
+        async *execute(params: { text: string }) {
+          execute(params);
+          return { status: 'success' as const, model: params.text };
+        },
+      });
+      const session = await createSession({
+        provider: {
+          type: 'mock',
+          script: {
+            steps: [{ toolCalls: [{ name: 'Echo', input: { text: 'hi' } }] }, { text: 'done' }],
+            sideQuery: '{"decision":"deny","reason":"policy says no"}',
+          },
+        },
+        model: 'mock-model',
+        persistSession: false,
+        permissionMode: PermissionMode.YOLO,
+        observability: { enabled: true },
+        defaultContext: {
+          capabilities: { filesystem: { roots: [process.cwd()], cwd: process.cwd() } },
+        },
+        tools: [echoTool],
+        allowedTools: ['Echo'],
+      });
+
+      await session.send('echo hi');
+      const messages: StreamMessage[] = [];
+      for await (const message of session.stream()) {
+        messages.push(message);
+      }
+      const trace = session.getLastTrace();
+      await session.close();
+
+      expect(execute).not.toHaveBeenCalled();
+      expect(messages).toContainEqual(
+        expect.objectContaining({
+          type: 'tool_result',
+          isError: true,
+          output: expect.stringContaining('policy says no'),
+        }),
+      );
+      expect(trace?.spans).toContainEqual(
+        expect.objectContaining({ kind: 'hook', name: HookEvent.PreToolUse, status: 'success' }),
+      );
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * 会话回调 Hook
+ *
+ * SessionOptions.hooks 中动作类事件 (ActionHookEvent) 的回调交给 HookBus；
+ * 其余事件的回调包装为 CallbackHook，随 HookSessionServices 进入 HookManager，
+ * 与命令 Hook 共用同一套执行与决策逻辑。
+ */
+
+import type { ActionHookEvent, HookCallback, SessionHooks } from '../session/types.js';
+import { HookEvent } from '../types/constants.js';
+import type { Assert, IsEqual } from '../types/typeAssertions.js';
+import {
+  type CallbackHook,
+  type HookEventCallback,
+  type HookSessionServices,
+  HookType,
+} from './types/HookTypes.js';
+
+const ACTION_HOOK_EVENTS = [
+  HookEvent.PreToolUse,
+  HookEvent.PostToolUse,
+  HookEvent.PostToolUseFailure,
+  HookEvent.PermissionRequest,
+  HookEvent.UserPromptSubmit,
+  HookEvent.SessionStart,
+  HookEvent.SessionEnd,
+  HookEvent.TaskCompleted,
+] as const;
+
+type _AssertActionEvents = Assert<IsEqual<(typeof ACTION_HOOK_EVENTS)[number], ActionHookEvent>>;
+
+const actionHookEvents: ReadonlySet<HookEvent> = new Set(ACTION_HOOK_EVENTS);
+
+export interface SplitSessionHooks {
+  callbacks: Partial<Record<HookEvent, HookCallback[]>>;
+  callbackHooks: Partial<Record<HookEvent, CallbackHook[]>>;
+}
+
+/**
+ * 按事件类别拆分 SessionOptions.hooks
+ */
+export function splitSessionHooks(hooks: SessionHooks | undefined): SplitSessionHooks {
+  const split: SplitSessionHooks = { callbacks: {}, callbackHooks: {} };
+
+  for (const [event, entries] of Object.entries(hooks ?? {}) as [HookEvent, unknown[]][]) {
+    if (!entries || entries.length === 0) {
+      continue;
+    }
+    if (actionHookEvents.has(event)) {
+      split.callbacks[event] = [...(entries as HookCallback[])];
+      continue;
+    }
+    split.callbackHooks[event] = (entries as HookEventCallback[]).map((callback) => ({
+      type: HookType.Callback,
+      callback,
+    }));
+  }
+
+  return split;
+}
+
+/**
+ * 解析 HookManager 调用所需的项目目录与会话能力
+ *
+ * 有项目目录时文件 Hook 与回调 Hook 都执行；没有项目目录但会话为该事件注册了回调时，
+ * 以进程 cwd 作为 project_dir 只执行回调；都没有时返回 undefined。
+ */
+export function resolveHookTarget(
+  event: HookEvent,
+  projectDir: string | undefined,
+  services: HookSessionServices | undefined,
+): { projectDir: string; services: HookSessionServices } | undefined {
+  if (projectDir) {
+    return { projectDir, services: services ?? {} };
+  }
+  if ((services?.callbackHooks?.[event]?.length ?? 0) === 0) {
+    return undefined;
+  }
+  return {
+    projectDir: process.cwd(),
+    services: { ...services, includeFileHooks: false },
+  };
+}
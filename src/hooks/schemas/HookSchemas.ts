@@ -28,6 +28,7 @@ import type {
   PostToolUseInput,
   PreCompactInput,
   PreToolUseInput,
+  PromptHookDecision,
   SessionEndInput,
   SessionStartInput,
   StopFailureInput,
@@ -250,6 +251,7 @@ function buildHookSchemas() {
     hook_event_name: z.literal(HookEvent.InstructionsLoaded),
     source: z.string(),
     instructions_length: z.number(),
+    file_path: z.string().optional(),
   });
 
   const _HookInputSchema = z.discriminatedUnion('hook_event_name', [
@@ -438,6 +440,15 @@ function buildHookSchemas() {
 
   const HookSchema = z.discriminatedUnion('type', [CommandHookSchema, PromptHookSchema]);
 
+  const PromptHookDecisionSchema = z.object({
+    decision: z.enum(['allow', 'deny', 'ask', 'modify']),
+    reason: z.string().optional(),
+    updatedInput: z.record(z.string(), JsonValueSchema).optional(),
+    updatedOutput: JsonValueSchema.optional(),
+    updatedPrompt: z.string().optional(),
+    additionalContext: z.string().optional(),
+  });
+
   const StringOrArraySchema = z.union([z.string(), z.array(z.string())]);
 
   const MatcherConfigSchema = z.object({
@@ -508,6 +519,7 @@ function buildHookSchemas() {
     InstructionsLoadedInputSchema,
     HookInputSchema: _HookInputSchema,
     HookOutputSchema,
+    PromptHookDecisionSchema,
     HookConfigSchema: _HookConfigSchema,
   } as const;
 }
@@ -542,6 +554,7 @@ type _AssertConfigChange = Assert<KeysEqual<z.infer<HookSchemasBundle['ConfigCha
 type _AssertCwdChanged = Assert<KeysEqual<z.infer<HookSchemasBundle['CwdChangedInputSchema']>, CwdChangedInput>>;
 type _AssertFileChanged = Assert<KeysEqual<z.infer<HookSchemasBundle['FileChangedInputSchema']>, FileChangedInput>>;
 type _AssertInstructionsLoaded = Assert<KeysEqual<z.infer<HookSchemasBundle['InstructionsLoadedInputSchema']>, InstructionsLoadedInput>>;
+type _AssertPromptHookDecision = Assert<KeysEqual<z.infer<HookSchemasBundle['PromptHookDecisionSchema']>, PromptHookDecision>>;
 
 // ============================================================================
 // Validation Helpers
@@ -562,3 +575,19 @@ export function safeParseHookOutput(
   }
   return { success: false, error: result.error };
 }
+
+/**
+ * 安全解析 Prompt Hook 的模型决策 (不抛出异常)
+ */
+export function safeParsePromptHookDecision(
+  data: unknown
+):
+  | { success: true; data: PromptHookDecision }
+  | { success: false; error: z.ZodError } {
+  const { PromptHookDecisionSchema } = getHookSchemas();
+  const result = PromptHookDecisionSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: result.error };
+}
@@ -4,11 +4,13 @@
  * 定义 Blade Hooks System 的核心类型
  */
 
+import type { HookTraceCollector } from '../../observability/types.js';
+import type { IChatService } from '../../services/ChatServiceInterface.js';
 import type { ToolResult } from '../../tools/types/ToolResult.js';
 import type { SessionId } from '../../types/branded.js';
 import type { JsonObject, JsonValue, PermissionMode } from '../../types/common.js';
 import type { HookEvent } from '../../types/constants.js';
-import type { Assert, Extends } from '../../types/typeAssertions.js';
+import type { Assert, Extends, IsEqual } from '../../types/typeAssertions.js';
 
 // ============================================================================
 // Hook Input
@@ -363,6 +365,8 @@ export interface InstructionsLoadedInput extends HookInputBase {
   hook_event_name: typeof HookEvent.InstructionsLoaded;
   source: string;
   instructions_length: number;
+  /** 指令文件路径（来自指令文件时） */
+  file_path?: string;
 }
 
 /**
@@ -392,6 +396,36 @@ export type HookInput =
   | FileChangedInput
   | InstructionsLoadedInput;
 
+/**
+ * 事件 -> Hook 输入类型
+ */
+export interface HookEventInputMap {
+  PreToolUse: PreToolUseInput;
+  PostToolUse: PostToolUseInput;
+  PostToolUseFailure: PostToolUseFailureInput;
+  PermissionRequest: PermissionRequestInput;
+  UserPromptSubmit: UserPromptSubmitInput;
+  SessionStart: SessionStartInput;
+  SessionEnd: SessionEndInput;
+  Stop: StopInput;
+  SubagentStart: SubagentStartInput;
+  SubagentStop: SubagentStopInput;
+  TaskCompleted: TaskCompletedInput;
+  Notification: NotificationInput;
+  Compaction: CompactionInput;
+  StopFailure: StopFailureInput;
+  PreCompact: PreCompactInput;
+  PostCompact: PostCompactInput;
+  Elicitation: ElicitationInput;
+  ElicitationResult: ElicitationResultInput;
+  ConfigChange: ConfigChangeInput;
+  CwdChanged: CwdChangedInput;
+  FileChanged: FileChangedInput;
+  InstructionsLoaded: InstructionsLoadedInput;
+}
+
+type _AssertInputMapComplete = Assert<IsEqual<keyof HookEventInputMap, HookEvent>>;
+
 // ============================================================================
 // Hook Output
 // ============================================================================
@@ -668,6 +702,16 @@ export interface HookOutput {
   suppressOutput?: boolean;
 }
 
+/**
+ * 单个事件的 Hook 输出 (hookSpecificOutput 收窄到该事件)
+ */
+export type HookEventOutput<E extends HookEvent = HookEvent> = Omit<
+  HookOutput,
+  'hookSpecificOutput'
+> & {
+  hookSpecificOutput?: Extract<HookSpecificOutput, { hookEventName?: E }>;
+};
+
 // ============================================================================
 // Hook Configuration
 // ============================================================================
@@ -678,6 +722,7 @@ export interface HookOutput {
 export enum HookType {
   Command = 'command',
   Prompt = 'prompt',
+  Callback = 'callback',
 }
 
 /**
@@ -697,22 +742,76 @@ export interface CommandHook {
 }
 
 /**
- * 提示词 Hook (未来实现)
+ * 提示词 Hook
+ *
+ * 以会话当前模型执行一次 sideQuery，由模型按自然语言策略给出结构化决策。
  */
-interface PromptHook {
+export interface PromptHook {
   type: HookType.Prompt;
 
-  /** 提示词内容 */
+  /** 提示词内容 (策略描述，如 "阻止删除测试的编辑") */
   prompt: string;
 
   /** 超时时间 (秒) */
   timeout?: number;
 }
 
+/**
+ * Prompt Hook 的模型决策
+ *
+ * - allow: 放行
+ * - deny: 阻止 (等价于 blocked)
+ * - ask: 需要用户确认
+ * - modify: 放行并应用 updatedInput / updatedOutput / updatedPrompt
+ */
+export interface PromptHookDecision {
+  decision: 'allow' | 'deny' | 'ask' | 'modify';
+
+  /** 决策原因 */
+  reason?: string;
+
+  /** 修改后的工具输入 (PreToolUse) */
+  updatedInput?: JsonObject;
+
+  /** 修改后的工具输出 (PostToolUse) */
+  updatedOutput?: JsonValue;
+
+  /** 修改后的用户提示词 (UserPromptSubmit) */
+  updatedPrompt?: string;
+
+  /** 注入给 LLM 的额外上下文 */
+  additionalContext?: string;
+}
+
 /**
  * Hook 联合类型
  */
-export type Hook = CommandHook | PromptHook;
+/**
+ * 进程内回调 Hook 的函数签名
+ *
+ * 接收与命令 Hook stdin 相同的输入，返回值按命令 Hook 的 JSON 输出解析；
+ * 返回 undefined 等价于命令 Hook 以 0 退出且没有输出。
+ */
+export type HookEventCallback<E extends HookEvent = HookEvent> = (
+  input: HookEventInputMap[E],
+  options: { signal: AbortSignal }
+) => Promise<HookEventOutput<E> | undefined>;
+
+/**
+ * 进程内回调 Hook
+ *
+ * 由 SessionOptions.hooks 注册，不出现在 HookConfig 中。
+ */
+export interface CallbackHook {
+  type: HookType.Callback;
+
+  callback: HookEventCallback;
+
+  /** 超时时间 (秒) */
+  timeout?: number;
+}
+
+export type Hook = CommandHook | PromptHook | CallbackHook;
 
 /**
  * Matcher 配置
@@ -1194,8 +1293,25 @@ export interface HookExecutionContext {
 
   /** 中止信号 */
   abortSignal?: AbortSignal;
+
+  /** 会话模型的旁路查询 (prompt hook 使用，未注入时 prompt hook 按失败处理) */
+  sideQuery?: IChatService['sideQuery'];
+
+  /** 当前请求的 trace 收集器 */
+  traceCollector?: HookTraceCollector;
 }
 
+/**
+ * 由 Session 透传给 HookManager 的会话能力
+ */
+export type HookSessionServices = Pick<HookExecutionContext, 'sideQuery' | 'traceCollector'> & {
+  /** 会话注册的回调 Hook，不经过 matcher，对该事件的每次触发都执行 */
+  callbackHooks?: Partial<Record<HookEvent, CallbackHook[]>>;
+
+  /** 为 false 时只执行 callbackHooks (会话没有项目目录时) */
+  includeFileHooks?: boolean;
+};
+
 /**
  * Matcher 匹配上下文
  */
@@ -28,6 +28,13 @@ export {
   HookExitCode,
   HookType,
 } from './hooks/types/HookTypes.js';
+export type {
+  HookEventCallback,
+  HookEventInputMap,
+  HookEventOutput,
+  PromptHook,
+  PromptHookDecision,
+} from './hooks/types/HookTypes.js';
 export type {
   CleanupFn,
   CleanupHandle,
@@ -62,6 +69,7 @@ export type {
   TraceSpanKind,
   TraceStatus,
 } from './observability/index.js';
+export type { InstructionFilesOptions } from './prompts/index.js';
 export type {
   ContextSnapshot,
   RuntimeContext,
@@ -81,6 +89,58 @@ export {
   hasFilesystemCapability,
   mergeContext,
 } from './runtime/index.js';
+export type {
+  ChatConfig,
+  ChatResponse,
+  ChatServiceFactory,
+  IChatService,
+  StreamChunk,
+} from './services/ChatServiceInterface.js';
+export type {
+  ChatServiceFixture,
+  ChatServiceFixtureEntry,
+  ChatServiceFixtureErrorCode,
+  ChatServiceFixtureMethod,
+  ChatServiceFixtureOptions,
+  ChatServiceFixtureRequest,
+  ChatServiceFixtureTool,
+  RecordingChatServiceOptions,
+} from './services/ChatServiceRecording.js';
+export {
+  ChatServiceFixtureError,
+  chatServiceRequestKey,
+  createPlaybackChatServiceFactory,
+  createRecordingChatServiceFactory,
+} from './services/ChatServiceRecording.js';
+export {
+  type DryRunChange,
+  type DryRunChangeset,
+  DryRunWorkspace,
+  type DryRunWorkspaceOptions,
+} from './services/DryRunWorkspace.js';
+export type {
+  FileStat,
+  FileSystemEntry,
+  FileSystemService,
+} from './services/FileSystemService.js';
+export { LocalFileSystemService } from './services/FileSystemService.js';
+export { InMemoryFileSystemService } from './services/InMemoryFileSystemService.js';
+export {
+  type FileSystemChange,
+  OverlayFileSystemService,
+} from './services/OverlayFileSystemService.js';
+export type {
+  MockMessageMatcher,
+  MockModelRule,
+  MockModelScript,
+  MockModelScriptErrorCode,
+  MockModelStep,
+  MockToolCall,
+} from './services/MockChatService.js';
+export {
+  createMockChatServiceFactory,
+  MockModelScriptError,
+} from './services/MockChatService.js';
 export type {
   DeepSeekBatchChatCompletionItem,
   DeepSeekBatchChatCompletionOptions,
@@ -122,8 +182,16 @@ export {
   sanitizeDeepSeekStrictSchema,
   summarizeDeepSeekBatchChatCompletions,
 } from './services/deepseek.js';
+export type { OllamaModel, OllamaRequestOptions } from './services/ollama.js';
+export {
+  getOllamaContextLength,
+  listOllamaModels,
+  OLLAMA_DEFAULT_BASE_URL,
+  recoverOllamaTextToolCalls,
+} from './services/ollama.js';
 export * from './session/events/index.js';
 export type {
+  ActionHookEvent,
   AgentDefinition,
   ExecutionContext,
   ForkOptions,
@@ -134,15 +202,27 @@ export type {
   HookOutput,
   InputSubmission,
   ISession,
+  LifecycleHookEvent,
   McpServerStatus,
   McpToolInfo,
+  ModelCandidate,
+  ModelFallbackCandidate,
+  ModelFallbackReason,
   ModelInfo,
+  ModelRouter,
+  ModelRoutingDecision,
+  ModelRoutingRequest,
+  ModelRoutingSource,
   PendingSessionInput,
   PromptResult,
   ProviderConfig,
   ProviderType,
   ResumeOptions,
+  RewindOptions,
+  RewindResult,
   SendOptions,
+  SessionHookEvent,
+  SessionHooks,
   SessionOptions,
   SessionTool,
   StreamMessage,
@@ -153,6 +233,7 @@ export type {
   ToolDefinition,
   ToolResult,
 } from './session/index.js';
+export type { SkillDefinition, SkillSourceConfig, SkillsOptions } from './skills/index.js';
 // --- Session ---
 export {
   createSession,
@@ -176,6 +257,7 @@ export { ToolCatalog } from './tools/catalog/index.js';
 export { createTool, defineTool, toolFromDefinition } from './tools/core/createTool.js';
 export type {
   FunctionDeclaration,
+  MultimodalToolContent,
   Tool,
   ToolBehavior,
   ToolConfig,
@@ -203,6 +285,8 @@ export type {
 export {
   collectToolExecution,
   completeToolExecution,
+  isMultimodalContent,
+  multimodalContent,
   ToolErrorType,
 } from './tools/types/index.js';
 export { ToolKind, ToolSideEffect } from './tools/types/ToolKind.js';
@@ -227,6 +311,8 @@ export type {
   McpServerConfig,
   OutputFormat,
   SandboxSettings,
+  WebContentExtractor,
+  WebFetchSettings,
 } from './types/common.js';
 export {
   HookEvent,
@@ -10,10 +10,33 @@ export type {
 } from '../mcp/index.js';
 export { createSdkMcpServer, tool } from '../mcp/index.js';
 export { FileSystemMemoryStore, MemoryManager } from '../memory/index.js';
+export type {
+  ChatServiceFixture,
+  ChatServiceFixtureEntry,
+  ChatServiceFixtureErrorCode,
+  ChatServiceFixtureMethod,
+  ChatServiceFixtureOptions,
+  ChatServiceFixtureRequest,
+  ChatServiceFixtureTool,
+  RecordingChatServiceOptions,
+} from '../services/ChatServiceRecording.js';
+export {
+  ChatServiceFixtureError,
+  chatServiceRequestKey,
+  createPlaybackChatServiceFactory,
+  createRecordingChatServiceFactory,
+} from '../services/ChatServiceRecording.js';
 export {
   JsonlDurableEventStore,
   type JsonlDurableEventStoreOptions,
 } from '../session/events/JsonlDurableEventStore.js';
+export {
+  type DurableSessionListOptions,
+  type DurableSessionListPage,
+  type DurableSessionSummary,
+  SqliteDurableEventStore,
+  type SqliteDurableEventStoreOptions,
+} from '../session/events/SqliteDurableEventStore.js';
 export type {
   SandboxCapabilities,
   SandboxCheckResult,
@@ -0,0 +1,286 @@
+/**
+ * 项目指令文件发现与分层
+ *
+ * ## 层级（优先级由低到高）
+ * 1. 用户级：`userDir`（默认 `~/.blade`）
+ * 2. 项目级：仓库根目录（向上查找 `.git`）到 cwd 路径上的每一级目录
+ * 3. 嵌套目录：仓库内、cwd 路径之外，Agent 读取过文件的目录及其上级目录
+ *
+ * ## 规则
+ * - 每个目录只加载 `fileNames` 中第一个存在的文件
+ * - 独占一行的 `@path` 替换为被导入文件的内容（相对导入文件所在目录解析，支持 `~/`）
+ * - 只能导入仓库根目录、用户级指令目录和 `importRoots` 内的文件，其余导入保留原行
+ * - 代码块内的 `@path` 不处理；循环导入和超过 `maxImportDepth` 的导入保留原行
+ * - 文件内容按指令文件及其导入文件的 mtime 缓存，任一变化后重新加载并再次交给 onLoad 处理
+ */
+
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { FileSystemService } from '../services/FileSystemService.js';
+
+/** 默认查找的指令文件名（按优先级） */
+export const DEFAULT_INSTRUCTION_FILE_NAMES = ['BLADE.md', 'AGENTS.md'];
+
+/** 指令 system 消息的标记，用于在会话中定位并替换 */
+export const PROJECT_INSTRUCTIONS_MARKER = '[project-instructions]';
+
+const DEFAULT_MAX_IMPORT_DEPTH = 5;
+const IMPORT_LINE_REGEX = /^@(\S+)\s*$/;
+const CODE_FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * 指令文件发现选项
+ */
+export interface InstructionFilesOptions {
+  /** 每个目录按顺序查找的文件名，只加载第一个存在的文件（默认 `BLADE.md`、`AGENTS.md`） */
+  fileNames?: string[];
+  /** 用户级指令目录（默认 `~/.blade`），`false` 表示不加载用户级指令 */
+  userDir?: string | false;
+  /** `@` 导入的最大嵌套深度（默认 5） */
+  maxImportDepth?: number;
+  /** 额外允许 `@` 导入的目录；默认只能导入仓库根目录和用户级指令目录内的文件 */
+  importRoots?: string[];
+}
+
+export type InstructionScope = 'user' | 'project' | 'nested';
+
+/**
+ * 已加载的指令文件（content 已展开 `@` 导入）
+ */
+export interface InstructionFile {
+  path: string;
+  scope: InstructionScope;
+  content: string;
+}
+
+/**
+ * 文件首次加载或内容变化时调用，返回实际使用的指令文本
+ */
+export type InstructionLoadHandler = (file: InstructionFile) => Promise<string>;
+
+/** 一次展开过程：允许导入的目录，以及读到的导入文件及其 mtime（不存在时为 undefined） */
+interface ImportScope {
+  roots: string[];
+  imports: Map<string, number | undefined>;
+}
+
+interface CachedInstructions {
+  mtime: number;
+  roots: string[];
+  imports: Map<string, number | undefined>;
+  content: string;
+}
+
+export class ProjectInstructions {
+  private readonly readDirs = new Set<string>();
+  private readonly cache = new Map<string, CachedInstructions>();
+
+  constructor(
+    private readonly fileSystem: FileSystemService,
+    private readonly options: InstructionFilesOptions = {},
+    private readonly onLoad?: InstructionLoadHandler,
+  ) {}
+
+  /**
+   * 记录 Agent 读取过的文件，激活其所在子树的嵌套指令
+   */
+  noteFileRead(filePath: string): void {
+    this.readDirs.add(path.dirname(path.resolve(filePath)));
+  }
+
+  /**
+   * 按优先级由低到高返回 cwd 下生效的指令文件
+   */
+  async collect(cwd: string): Promise<InstructionFile[]> {
+    const resolvedCwd = path.resolve(cwd);
+    const root = (await this.findRepoRoot(resolvedCwd)) ?? resolvedCwd;
+    const seen = new Set<string>();
+    const layers: Array<{ dir: string; scope: InstructionScope }> = [];
+    const addLayer = (dir: string, scope: InstructionScope) => {
+      if (!seen.has(dir)) {
+        seen.add(dir);
+        layers.push({ dir, scope });
+      }
+    };
+
+    const userDir = this.options.userDir ?? path.join(os.homedir(), '.blade');
+    if (userDir !== false) {
+      addLayer(path.resolve(userDir), 'user');
+    }
+    const importRoots = [
+      root,
+      ...(userDir === false ? [] : [path.resolve(userDir)]),
+      ...(this.options.importRoots ?? []).map((dir) => path.resolve(dir)),
+    ];
+    for (const dir of directoryChain(root, resolvedCwd)) {
+      addLayer(dir, 'project');
+    }
+    const nestedDirs = [...this.readDirs]
+      .filter((dir) => isWithin(dir, root))
+      .flatMap((dir) => directoryChain(root, dir))
+      .filter((dir) => !seen.has(dir));
+    for (const dir of [...new Set(nestedDirs)].sort()) {
+      addLayer(dir, 'nested');
+    }
+
+    const files: InstructionFile[] = [];
+    for (const layer of layers) {
+      const file = await this.loadDirectory(layer.dir, layer.scope, importRoots);
+      if (file) {
+        files.push(file);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * 渲染为 system 消息文本；没有指令文件时返回 undefined
+   */
+  async render(cwd: string): Promise<string | undefined> {
+    const files = (await this.collect(cwd)).filter((file) => file.content.trim());
+    if (files.length === 0) {
+      return undefined;
+    }
+
+    return [
+      PROJECT_INSTRUCTIONS_MARKER,
+      'Instructions from project instruction files. Each file applies to its own directory and everything below it. ' +
+        'When instructions conflict, later (more specific) files take precedence over earlier ones.',
+      ...files.map(
+        (file) =>
+          `<instructions path="${file.path}" scope="${file.scope}">\n${file.content.trim()}\n</instructions>`,
+      ),
+    ].join('\n\n');
+  }
+
+  private async loadDirectory(
+    dir: string,
+    scope: InstructionScope,
+    importRoots: string[],
+  ): Promise<InstructionFile | undefined> {
+    for (const fileName of this.options.fileNames ?? DEFAULT_INSTRUCTION_FILE_NAMES) {
+      const filePath = path.join(dir, fileName);
+      const stat = await this.fileSystem.stat(filePath);
+      if (!stat?.isFile) {
+        continue;
+      }
+
+      const mtime = stat.mtime.getTime();
+      const cached = this.cache.get(filePath);
+      if (cached && (await this.isFresh(cached, mtime, importRoots))) {
+        return { path: filePath, scope, content: cached.content };
+      }
+
+      const raw = await this.fileSystem.readTextFile(filePath);
+      const importScope: ImportScope = { roots: importRoots, imports: new Map() };
+      const expanded = await this.expandImports(raw, filePath, [filePath], importScope);
+      const file: InstructionFile = { path: filePath, scope, content: expanded };
+      const content = this.onLoad ? await this.onLoad(file) : expanded;
+      this.cache.set(filePath, {
+        mtime,
+        roots: importRoots,
+        imports: importScope.imports,
+        content,
+      });
+      return { ...file, content };
+    }
+    return undefined;
+  }
+
+  /** 指令文件、允许导入的目录和每个导入文件都未变化时缓存才有效 */
+  private async isFresh(
+    cached: CachedInstructions,
+    mtime: number,
+    importRoots: string[],
+  ): Promise<boolean> {
+    if (cached.mtime !== mtime || cached.roots.join('\0') !== importRoots.join('\0')) {
+      return false;
+    }
+    for (const [importPath, importMtime] of cached.imports) {
+      const stat = await this.fileSystem.stat(importPath);
+      if (stat?.mtime.getTime() !== importMtime) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async expandImports(
+    content: string,
+    filePath: string,
+    stack: string[],
+    scope: ImportScope,
+  ): Promise<string> {
+    const maxDepth = this.options.maxImportDepth ?? DEFAULT_MAX_IMPORT_DEPTH;
+    const lines = content.split('\n');
+    let inCodeBlock = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (CODE_FENCE_REGEX.test(lines[i])) {
+        inCodeBlock = !inCodeBlock;
+        continue;
+      }
+      const match = inCodeBlock ? null : IMPORT_LINE_REGEX.exec(lines[i].trim());
+      if (!match || stack.length > maxDepth) {
+        continue;
+      }
+
+      const importPath = resolveImportPath(match[1], path.dirname(filePath));
+      if (stack.includes(importPath) || !scope.roots.some((root) => isWithin(importPath, root))) {
+        continue;
+      }
+      // 先记录 mtime 再读取，读取期间的修改会在下一次检查时触发重新加载
+      scope.imports.set(importPath, (await this.fileSystem.stat(importPath))?.mtime.getTime());
+      try {
+        const imported = await this.fileSystem.readTextFile(importPath);
+        lines[i] = (
+          await this.expandImports(imported, importPath, [...stack, importPath], scope)
+        ).trimEnd();
+      } catch {
+        // 导入文件不存在或不可读时保留原行
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private async findRepoRoot(cwd: string): Promise<string | undefined> {
+    let dir = cwd;
+    while (true) {
+      if (await this.fileSystem.stat(path.join(dir, '.git'))) {
+        return dir;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  }
+}
+
+function resolveImportPath(importPath: string, baseDir: string): string {
+  if (importPath.startsWith('~/')) {
+    return path.join(os.homedir(), importPath.slice(2));
+  }
+  return path.resolve(baseDir, importPath);
+}
+
+function isWithin(dir: string, root: string): boolean {
+  const relative = path.relative(root, dir);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/** 从 root 到 dir（均包含）的目录链，dir 不在 root 内时只返回 dir */
+function directoryChain(root: string, dir: string): string[] {
+  if (!isWithin(dir, root)) {
+    return [dir];
+  }
+  const chain = [root];
+  let current = root;
+  for (const segment of path.relative(root, dir).split(path.sep).filter(Boolean)) {
+    current = path.join(current, segment);
+    chain.push(current);
+  }
+  return chain;
+}
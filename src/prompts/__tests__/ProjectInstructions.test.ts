@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalFileSystemService } from '../../services/FileSystemService.js';
+import {
+  type InstructionLoadHandler,
+  PROJECT_INSTRUCTIONS_MARKER,
+  ProjectInstructions,
+} from '../ProjectInstructions.js';
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+async function createTempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'blade-instructions-test-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+async function writeFiles(root: string, files: Record<string, string>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = join(root, relativePath);
+    await mkdir(join(filePath, '..'), { recursive: true });
+    await writeFile(filePath, content);
+  }
+}
+
+describe('ProjectInstructions', () => {
+  const fileSystem = new LocalFileSystemService();
+
+  it('layers user, repo root and cwd instructions from general to specific', async () => {
+    const userDir = await createTempDir();
+    const repo = await createTempDir();
+    await writeFiles(userDir, { 'BLADE.md': 'User prefs' });
+    await writeFiles(repo, {
+      '.git/HEAD': 'ref: refs/heads/main',
+      'AGENTS.md': 'Root rules',
+      'packages/api/BLADE.md': 'API rules',
+      'packages/api/AGENTS.md': 'Ignored fallback',
+      'packages/web/BLADE.md': 'Web rules',
+    });
+    const instructions = new ProjectInstructions(fileSystem, { userDir });
+
+    const files = await instructions.collect(join(repo, 'packages/api'));
+
+    expect(files.map(({ scope, content }) => [scope, content])).toEqual([
+      ['user', 'User prefs'],
+      ['project', 'Root rules'],
+      ['project', 'API rules'],
+    ]);
+
+    const rendered = await instructions.render(join(repo, 'packages/api'));
+    expect(rendered?.startsWith(PROJECT_INSTRUCTIONS_MARKER)).toBe(true);
+    expect(rendered?.indexOf('Root rules')).toBeLessThan(rendered?.indexOf('API rules') ?? 0);
+    expect(rendered).toContain(`path="${join(repo, 'packages/api/BLADE.md')}" scope="project"`);
+  });
+
+  it('returns undefined when no instruction files exist', async () => {
+    const repo = await createTempDir();
+    const instructions = new ProjectInstructions(fileSystem, { userDir: false });
+
+    await expect(instructions.render(repo)).resolves.toBeUndefined();
+  });
+
+  it('expands @ imports outside code fences and skips cycles', async () => {
+    const repo = await createTempDir();
+    await writeFiles(repo, {
+      'BLADE.md': [
+        'Intro',
+        '@docs/style.md',
+        '```',
+        '@docs/style.md',
+        '```',
+        '@docs/missing.md',
+      ].join('\n'),
+      'docs/style.md': 'Use tabs\n@../BLADE.md\n@nested.md',
+      'docs/nested.md': 'Nested import',
+    });
+    const instructions = new ProjectInstructions(fileSystem, { userDir: false });
+
+    const [file] = await instructions.collect(repo);
+
+    expect(file.content).toBe(
+      [
+        'Intro',
+        'Use tabs\n@../BLADE.md\nNested import',
+        '```',
+        '@docs/style.md',
+        '```',
+        '@docs/missing.md',
+      ].join('\n'),
+    );
+  });
+
+  it('only imports files from the repo, the user directory and opted-in roots', async () => {
+    const userDir = await createTempDir();
+    const repo = await createTempDir();
+    const outside = await createTempDir();
+    await writeFiles(userDir, { 'shared.md': 'Shared prefs' });
+    await writeFiles(outside, { 'secret.md': 'Secret' });
+    await writeFiles(repo, {
+      '.git/HEAD': 'ref: refs/heads/main',
+      'BLADE.md': [`@${join(userDir, 'shared.md')}`, `@${join(outside, 'secret.md')}`].join('\n'),
+      'docs/style.md': 'Use tabs',
+      'packages/api/BLADE.md': '@../../docs/style.md\n@~/.aws/credentials',
+    });
+
+    const [root, api] = await new ProjectInstructions(fileSystem, { userDir: false }).collect(
+      join(repo, 'packages/api'),
+    );
+    expect(root.content).toBe(
+      [`@${join(userDir, 'shared.md')}`, `@${join(outside, 'secret.md')}`].join('\n'),
+    );
+    expect(api.content).toBe('Use tabs\n@~/.aws/credentials');
+
+    const [scoped] = await new ProjectInstructions(fileSystem, {
+      userDir,
+      importRoots: [outside],
+    }).collect(repo);
+    expect(scoped.content).toBe('Shared prefs\nSecret');
+  });
+
+  it('activates nested directory instructions after a file in that subtree is read', async () => {
+    const repo = await createTempDir();
+    await writeFiles(repo, {
+      '.git/HEAD': 'ref: refs/heads/main',
+      'BLADE.md': 'Root rules',
+      'src/BLADE.md': 'Src rules',
+      'src/db/BLADE.md': 'DB rules',
+      'src/db/schema.ts': 'export {};',
+    });
+    const instructions = new ProjectInstructions(fileSystem, { userDir: false });
+
+    expect((await instructions.collect(repo)).map((file) => file.content)).toEqual(['Root rules']);
+
+    instructions.noteFileRead(join(repo, 'src/db/schema.ts'));
+    instructions.noteFileRead(join(tmpdir(), 'outside.ts'));
+
+    expect(
+      (await instructions.collect(repo)).map(({ scope, content }) => [scope, content]),
+    ).toEqual([
+      ['project', 'Root rules'],
+      ['nested', 'Src rules'],
+      ['nested', 'DB rules'],
+    ]);
+  });
+
+  it('reports each file once and again after it changes', async () => {
+    const repo = await createTempDir();
+    await writeFiles(repo, { 'BLADE.md': 'Version 1' });
+    const onLoad = vi.fn<InstructionLoadHandler>(async (file) => `${file.content} (reviewed)`);
+    const instructions = new ProjectInstructions(fileSystem, { userDir: false }, onLoad);
+
+    await instructions.collect(repo);
+    const [cached] = await instructions.collect(repo);
+
+    expect(onLoad).toHaveBeenCalledTimes(1);
+    expect(onLoad).toHaveBeenCalledWith({
+      path: join(repo, 'BLADE.md'),
+      scope: 'project',
+      content: 'Version 1',
+    });
+    expect(cached.content).toBe('Version 1 (reviewed)');
+
+    await writeFile(join(repo, 'BLADE.md'), 'Version 2');
+    const later = new Date(Date.now() + 60_000);
+    await utimes(join(repo, 'BLADE.md'), later, later);
+    const [updated] = await instructions.collect(repo);
+
+    expect(onLoad).toHaveBeenCalledTimes(2);
+    expect(updated.content).toBe('Version 2 (reviewed)');
+  });
+
+  it('reloads a cached file when one of its imports changes', async () => {
+    const repo = await createTempDir();
+    await writeFiles(repo, {
+      'BLADE.md': '@docs/style.md\n@docs/later.md',
+      'docs/style.md': 'Tabs',
+    });
+    const onLoad = vi.fn<InstructionLoadHandler>(async (file) => file.content);
+    const instructions = new ProjectInstructions(fileSystem, { userDir: false }, onLoad);
+
+    await instructions.collect(repo);
+    await instructions.collect(repo);
+    expect(onLoad).toHaveBeenCalledTimes(1);
+
+    await writeFile(join(repo, 'docs/style.md'), 'Spaces');
+    const later = new Date(Date.now() + 60_000);
+    await utimes(join(repo, 'docs/style.md'), later, later);
+    const [updated] = await instructions.collect(repo);
+    expect(updated.content).toBe('Spaces\n@docs/later.md');
+
+    await writeFiles(repo, { 'docs/later.md': 'Added later' });
+    const [added] = await instructions.collect(repo);
+    expect(added.content).toBe('Spaces\nAdded later');
+    expect(onLoad).toHaveBeenCalledTimes(3);
+  });
+});
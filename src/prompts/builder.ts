@@ -9,11 +9,12 @@
  * ## 规则
  * - 不内置任何默认 prompt，调用方负责提供 basePrompt
  * - Plan 模式使用独立的 system prompt（PLAN_MODE_SYSTEM_PROMPT），可通过 planModePrompt 覆盖
- * - 项目配置文件（如 BLADE.md）由调用方自行加载后通过 append 注入
+ * - 构建器不读取项目指令文件（如 BLADE.md）；会话开启 `SessionOptions.instructions` 后由
+ *   ProjectInstructions 发现并作为独立 system 消息注入，也可由调用方自行加载后通过 append 注入
  * - 各部分用 `\n\n---\n\n` 分隔
  */
 
-import { getSkillRegistry } from '../skills/index.js';
+import { getSkillRegistry, type SkillRegistry } from '../skills/index.js';
 import type { SkillActivationContext } from '../skills/types.js';
 import { PermissionMode } from '../types/common.js';
 import { getEnvironmentContext } from '../utils/environment.js';
@@ -62,6 +63,11 @@ export interface BuildSystemPromptOptions {
    */
   skillActivationContext?: SkillActivationContext;
 
+  /**
+   * 填充 <available_skills> 的注册表，未提供时使用全局注册表。
+   */
+  skillRegistry?: SkillRegistry;
+
   /**
    * 覆盖 Plan 模式的 system prompt（不提供时使用 SDK 内置的 PLAN_MODE_SYSTEM_PROMPT）
    */
@@ -121,6 +127,7 @@ export async function buildSystemPrompt(
     language,
     planModePrompt,
     skillActivationContext,
+    skillRegistry,
   } = options;
 
   const parts: string[] = [];
@@ -157,7 +164,7 @@ export async function buildSystemPrompt(
   let prompt = parts.join('\n\n---\n\n');
 
   // 注入 Skills 元数据到 <available_skills> 占位符
-  prompt = injectSkillsToPrompt(prompt, skillActivationContext);
+  prompt = injectSkillsToPrompt(prompt, skillActivationContext, skillRegistry);
 
   // 注入语言指令
   prompt = injectLanguageInstruction(prompt, language);
@@ -171,8 +178,8 @@ export async function buildSystemPrompt(
 function injectSkillsToPrompt(
   prompt: string,
   activationContext?: SkillActivationContext,
+  registry: SkillRegistry = getSkillRegistry(),
 ): string {
-  const registry = getSkillRegistry();
   const skillsList = registry.generateAvailableSkillsList(activationContext);
 
   // 如果没有 skills，保持占位符为空（但保留标签结构）
@@ -5,5 +5,16 @@
 
 export type { BuildSystemPromptOptions, BuildSystemPromptResult } from './builder.js';
 export { buildSystemPrompt } from './builder.js';
+export type {
+  InstructionFile,
+  InstructionFilesOptions,
+  InstructionLoadHandler,
+  InstructionScope,
+} from './ProjectInstructions.js';
+export {
+  DEFAULT_INSTRUCTION_FILE_NAMES,
+  PROJECT_INSTRUCTIONS_MARKER,
+  ProjectInstructions,
+} from './ProjectInstructions.js';
 
 export { createPlanModeReminder, PLAN_MODE_SYSTEM_PROMPT } from './default.js';
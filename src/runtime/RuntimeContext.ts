@@ -11,8 +11,18 @@ export interface RuntimeContext {
       pageId?: string;
       tabId?: string;
     };
+    /**
+     * Egress policy for the built-in web tools. Private and metadata addresses
+     * are blocked even when it is omitted; domain patterns are exact,
+     * `*.example.com`, or `*`.
+     */
     network?: {
+      /** Only these hosts are reachable. Omit to allow every public host. */
       allowDomains?: string[];
+      /** Always unreachable; wins over allowDomains. */
+      denyDomains?: string[];
+      /** Allows loopback, private, and link-local addresses. Metadata endpoints stay blocked. */
+      allowPrivateNetwork?: boolean;
     };
   };
   environment?: Record<string, string>;
@@ -10,6 +10,11 @@ export interface SandboxExecutionOptions {
   workDir: string;
   allowedReadPaths?: string[];
   allowedWritePaths?: string[];
+  /**
+   * 只开放 allowedWritePaths 的写入：workDir 只读挂载，~/.npm、~/.pnpm 与（seatbelt 下的）/tmp
+   * 也不可写
+   */
+  isolateWrites?: boolean;
   allowNetwork?: boolean;
   allowedNetworkHosts?: string[];
   env?: Record<string, string>;
@@ -203,10 +208,12 @@ export class SandboxExecutor {
     args.push('--dev /dev');
     args.push('--tmpfs /tmp');
 
-    args.push(`--bind ${options.workDir} ${options.workDir}`);
+    args.push(
+      `${options.isolateWrites ? '--ro-bind' : '--bind'} ${options.workDir} ${options.workDir}`,
+    );
     args.push(`--chdir ${options.workDir}`);
 
-    if (options.allowedWritePaths) {
+    if (options.allowedWritePaths && !options.isolateWrites) {
       for (const path of options.allowedWritePaths) {
         if (existsSync(path) && path !== options.workDir) {
           args.push(`--bind ${path} ${path}`);
@@ -228,13 +235,23 @@ export class SandboxExecutor {
       if (existsSync(nodePath)) {
         args.push(`--ro-bind ${nodePath} ${nodePath}`);
       }
+      const cacheBind = options.isolateWrites ? '--ro-bind' : '--bind';
       const npmPath = join(homeDir, '.npm');
       if (existsSync(npmPath)) {
-        args.push(`--bind ${npmPath} ${npmPath}`);
+        args.push(`${cacheBind} ${npmPath} ${npmPath}`);
       }
       const pnpmPath = join(homeDir, '.pnpm');
       if (existsSync(pnpmPath)) {
-        args.push(`--bind ${pnpmPath} ${pnpmPath}`);
+        args.push(`${cacheBind} ${pnpmPath} ${pnpmPath}`);
+      }
+    }
+
+    // 隔离写入时可写目录最后挂载，覆盖同一路径上的只读挂载（例如位于 HOME 下的目录）
+    if (options.allowedWritePaths && options.isolateWrites) {
+      for (const path of options.allowedWritePaths) {
+        if (existsSync(path)) {
+          args.push(`--bind ${path} ${path}`);
+        }
       }
     }
 
@@ -306,12 +323,16 @@ export class SandboxExecutor {
       lines.push(`(allow file-read* (subpath "${homeDir}/.npm"))`);
       lines.push(`(allow file-read* (subpath "${homeDir}/.pnpm"))`);
       lines.push(`(allow file-read* (subpath "${homeDir}/.config"))`);
-      lines.push(`(allow file-write* (subpath "${homeDir}/.npm"))`);
-      lines.push(`(allow file-write* (subpath "${homeDir}/.pnpm"))`);
+      if (!options.isolateWrites) {
+        lines.push(`(allow file-write* (subpath "${homeDir}/.npm"))`);
+        lines.push(`(allow file-write* (subpath "${homeDir}/.pnpm"))`);
+      }
     }
 
     lines.push(`(allow file-read* (subpath "${options.workDir}"))`);
-    lines.push(`(allow file-write* (subpath "${options.workDir}"))`);
+    if (!options.isolateWrites) {
+      lines.push(`(allow file-write* (subpath "${options.workDir}"))`);
+    }
 
     if (options.allowedReadPaths) {
       for (const path of options.allowedReadPaths) {
@@ -326,9 +347,11 @@ export class SandboxExecutor {
     }
 
     lines.push('(allow file-read* (subpath "/private/tmp"))');
-    lines.push('(allow file-write* (subpath "/private/tmp"))');
     lines.push('(allow file-read* (subpath "/tmp"))');
-    lines.push('(allow file-write* (subpath "/tmp"))');
+    if (!options.isolateWrites) {
+      lines.push('(allow file-write* (subpath "/private/tmp"))');
+      lines.push('(allow file-write* (subpath "/tmp"))');
+    }
 
     if (options.allowNetwork !== false) {
       lines.push('(allow network*)');
@@ -8,6 +8,16 @@ export interface SandboxExecutionContext {
   workDir?: string;
 }
 
+/**
+ * 单条命令的沙箱文件系统范围
+ */
+export interface SandboxScope {
+  /** 设置后只有这些目录可写；工作目录与 ~/.npm 等缓存目录都只读 */
+  writableRoots?: string[];
+  /** 额外只读挂载的目录 */
+  readableRoots?: string[];
+}
+
 export type SandboxCheckOutcome =
   | 'disabled'
   | 'excluded'
@@ -171,7 +181,7 @@ export class SandboxService {
     return parts[0] || '';
   }
 
-  wrapCommandForSandbox(command: string, workDir: string): string {
+  wrapCommandForSandbox(command: string, workDir: string, scope?: SandboxScope): string {
     if (!this.isEnabled()) {
       return command;
     }
@@ -180,9 +190,33 @@ export class SandboxService {
       return command;
     }
 
-    const executor = getSandboxExecutor();
-    const options = executor.buildExecutionOptions(workDir, this.settings.network);
-    return executor.wrapCommand(command, options);
+    return getSandboxExecutor().wrapCommand(command, this.buildExecutionOptions(workDir, scope));
+  }
+
+  /**
+   * 返回在沙箱中启动常驻 bash 的命令：shell 从 `cwd` 开始，从 stdin 读取命令，
+   * cd / export 在沙箱内保留。沙箱未启用时返回不经包装的启动命令。
+   */
+  wrapShellForSandbox(cwd: string, workDir: string, scope?: SandboxScope): string {
+    const quotedCwd = `'${cwd.replace(/'/g, `'\\''`)}'`;
+    const command = `cd -- ${quotedCwd} 2>/dev/null; exec bash --noprofile --norc`;
+    if (!this.isEnabled()) {
+      return command;
+    }
+
+    return getSandboxExecutor().wrapCommand(command, this.buildExecutionOptions(workDir, scope));
+  }
+
+  private buildExecutionOptions(workDir: string, scope?: SandboxScope) {
+    const options = getSandboxExecutor().buildExecutionOptions(workDir, this.settings.network);
+    if (scope?.readableRoots) {
+      options.allowedReadPaths = [...(options.allowedReadPaths ?? []), ...scope.readableRoots];
+    }
+    if (scope?.writableRoots) {
+      options.allowedWritePaths = [...scope.writableRoots];
+      options.isolateWrites = true;
+    }
+    return options;
   }
 
   getCapabilities() {
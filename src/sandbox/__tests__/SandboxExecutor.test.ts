@@ -1,3 +1,6 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { getSandboxExecutor, SandboxExecutor } from '../SandboxExecutor.js';
 
@@ -111,6 +114,40 @@ describe('SandboxExecutor', () => {
         'Sandbox is enabled, but no supported sandbox executor is available',
       );
     });
+
+    it('should only bind the allowed write paths writable when writes are isolated', () => {
+      const executor = getSandboxExecutor();
+      executor.configure({ enabled: true });
+      vi.spyOn(executor, 'getCapabilities').mockReturnValue({
+        available: true,
+        type: 'bubblewrap',
+        features: {
+          fileSystemIsolation: true,
+          networkIsolation: true,
+          processIsolation: true,
+        },
+      });
+      const scratch = mkdtempSync(join(tmpdir(), 'sandbox-scratch-'));
+      try {
+        const workDir = join(scratch, 'src');
+        const command = executor.wrapCommand('touch x', {
+          workDir,
+          allowedReadPaths: [tmpdir()],
+          allowedWritePaths: [scratch],
+          isolateWrites: true,
+        });
+        const binds = command.match(/--(?:ro-)?bind \S+ \S+/g) ?? [];
+
+        expect(binds).toContain(`--ro-bind ${workDir} ${workDir}`);
+        expect(binds.filter((bind) => bind.startsWith('--bind '))).toEqual([
+          `--bind ${scratch} ${scratch}`,
+        ]);
+        // The writable bind comes last so it is not shadowed by a read-only parent
+        expect(binds.at(-1)).toBe(`--bind ${scratch} ${scratch}`);
+      } finally {
+        rmSync(scratch, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('buildExecutionOptions', () => {
@@ -1,3 +1,3 @@
 export { getSandboxExecutor, SandboxExecutor, type SandboxCapabilities, type SandboxExecutionOptions } from './SandboxExecutor.js';
-export { getSandboxService, SandboxService, type SandboxCheckResult, type SandboxExecutionContext } from './SandboxService.js';
+export { getSandboxService, SandboxService, type SandboxCheckResult, type SandboxExecutionContext, type SandboxScope } from './SandboxService.js';
 
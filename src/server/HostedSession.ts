@@ -0,0 +1,216 @@
+import { nanoid } from 'nanoid';
+import { SdkError } from '../errors/SdkError.js';
+import type { InternalLogger } from '../logging/Logger.js';
+import type { RuntimeContext } from '../runtime/index.js';
+import type { DurableEventStore } from '../session/events/DurableEventStore.js';
+import type { RemotePermissionRequest, SessionStreamEvent } from '../session/remote/protocol.js';
+import type { ISession } from '../session/types.js';
+import { PermissionRequestId, type RequestId } from '../types/branded.js';
+import type { PermissionHandlerRequest, PermissionResult } from '../types/permissions.js';
+
+export type StreamListener = (event: SessionStreamEvent) => void;
+
+interface StreamSubscriber {
+  listener: StreamListener;
+  /** Whether this connection answers permission_request events. */
+  permissions: boolean;
+}
+
+interface PendingPermission {
+  request: RemotePermissionRequest;
+  settle(result: PermissionResult): void;
+}
+
+/**
+ * One hosted Session plus its live StreamMessage fan-out.
+ *
+ * Session.stream() 只能有一个消费者，因此由 pump 独占消费并广播给所有 SSE 连接；
+ * 一个请求结束后若收件箱已排好下一个请求（later 输入），pump 会继续执行。
+ */
+export class HostedSession {
+  private readonly subscribers = new Set<StreamSubscriber>();
+  private readonly pendingPermissions = new Map<PermissionRequestId, PendingPermission>();
+  private pumping: Promise<void> | null = null;
+  private streamingRequestId: RequestId | undefined;
+  private closed = false;
+
+  constructor(
+    readonly session: ISession,
+    readonly durableEventStore: DurableEventStore | undefined,
+    /** 服务端授予的默认上下文；客户端提交的上下文只能在此范围内收窄。 */
+    readonly grantedContext: RuntimeContext,
+    private readonly logger: InternalLogger,
+  ) {}
+
+  /**
+   * Registers a stream connection. Permission-capable connections also receive
+   * every permission request that is still waiting for a decision.
+   */
+  subscribe(listener: StreamListener, options: { permissions: boolean }): () => void {
+    const subscriber: StreamSubscriber = { listener, permissions: options.permissions };
+    this.subscribers.add(subscriber);
+    if (subscriber.permissions) {
+      for (const [permissionRequestId, pending] of this.pendingPermissions) {
+        listener({ type: 'permission_request', permissionRequestId, request: pending.request });
+      }
+    }
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /** Starts draining the Session when send() or resume left a request pending. */
+  kick(): void {
+    if (this.pumping || this.closed || this.session.isClosed || !this.hasPendingRequest()) {
+      return;
+    }
+    this.pumping = this.pump().finally(() => {
+      this.pumping = null;
+      this.kick();
+    });
+  }
+
+  /**
+   * Forwards a permission decision to connected remote clients.
+   *
+   * Returns null when no connection handles permissions, so the caller can
+   * fall back to its own decision.
+   */
+  requestPermission(request: PermissionHandlerRequest): Promise<PermissionResult> | null {
+    if (this.closed || ![...this.subscribers].some((subscriber) => subscriber.permissions)) {
+      return null;
+    }
+    const { signal, ...remoteRequest } = request;
+    if (signal.aborted) {
+      return Promise.resolve({ behavior: 'deny', message: 'Permission request was aborted' });
+    }
+    const permissionRequestId = PermissionRequestId(nanoid());
+    const snapshot = structuredClone(remoteRequest);
+    return new Promise<PermissionResult>((resolve) => {
+      const onAbort = () => {
+        this.settlePermission(permissionRequestId, {
+          behavior: 'deny',
+          message: 'Permission request was aborted',
+        });
+      };
+      this.pendingPermissions.set(permissionRequestId, {
+        request: snapshot,
+        settle: (result) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.publish({ type: 'permission_request', permissionRequestId, request: snapshot });
+    });
+  }
+
+  /** Resolves a pending permission request. Returns false when it is unknown or already settled. */
+  settlePermission(permissionRequestId: PermissionRequestId, result: PermissionResult): boolean {
+    const pending = this.pendingPermissions.get(permissionRequestId);
+    if (!pending) {
+      return false;
+    }
+    this.pendingPermissions.delete(permissionRequestId);
+    pending.settle(result);
+    this.publish({ type: 'permission_resolved', permissionRequestId });
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    for (const permissionRequestId of [...this.pendingPermissions.keys()]) {
+      this.settlePermission(permissionRequestId, {
+        behavior: 'deny',
+        message: 'Session closed before the permission request was answered',
+      });
+    }
+    try {
+      await this.session.close();
+      await this.pumping;
+    } finally {
+      this.publish({ type: 'closed', sessionId: this.session.sessionId });
+      this.subscribers.clear();
+    }
+  }
+
+  /**
+   * Aborts the session's current request. With `requestId`, only aborts while that
+   * request is still running or about to run, so a stale abort never hits a later request.
+   */
+  async abort(requestId?: RequestId): Promise<void> {
+    if (requestId !== undefined && requestId !== this.activeRequestId()) {
+      return;
+    }
+    await this.session.abort();
+  }
+
+  /** 正在执行的请求；pump 还没接手时取收件箱里等待开始的请求。 */
+  private activeRequestId(): RequestId | undefined {
+    return (
+      this.streamingRequestId ??
+      this.session.getPendingInputs().find((input) => input.targetRequestId)?.targetRequestId
+    );
+  }
+
+  private hasPendingRequest(): boolean {
+    return this.session.getPendingInputs().some((input) => input.targetRequestId !== undefined);
+  }
+
+  private async pump(): Promise<void> {
+    const pendingInputs = this.session.getPendingInputs();
+    const requestId = pendingInputs.find((input) => input.targetRequestId)?.targetRequestId;
+    if (!requestId) {
+      return;
+    }
+    // 事件带上请求 ID，客户端据此只读取自己发起的请求
+    this.publish({
+      type: 'request_start',
+      requestId,
+      inputIds: pendingInputs
+        .filter((input) => input.targetRequestId === requestId)
+        .map((input) => input.inputId),
+    });
+    this.streamingRequestId = requestId;
+    try {
+      for await (const message of this.session.stream({ includeThinking: true })) {
+        this.publish({ type: 'message', requestId, message });
+      }
+    } catch (error) {
+      if (this.closed) {
+        return;
+      }
+      this.logger.warn(
+        `[SessionServer] Stream failed for session ${this.session.sessionId}:`,
+        error,
+      );
+      this.publish({
+        type: 'message',
+        requestId,
+        message: {
+          type: 'error',
+          message: error instanceof Error ? error.message : String(error),
+          ...(error instanceof SdkError ? { code: error.code } : {}),
+          sessionId: this.session.sessionId,
+        },
+      });
+    } finally {
+      this.streamingRequestId = undefined;
+    }
+    this.publish({ type: 'request_end', requestId });
+  }
+
+  private publish(event: SessionStreamEvent): void {
+    const permissionEvent =
+      event.type === 'permission_request' || event.type === 'permission_resolved';
+    for (const subscriber of this.subscribers) {
+      if (permissionEvent && !subscriber.permissions) {
+        continue;
+      }
+      subscriber.listener(event);
+    }
+  }
+}
@@ -0,0 +1,976 @@
+import { type Context, Hono } from 'hono';
+import { type SSEStreamingApi, streamSSE } from 'hono/streaming';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { z } from 'zod';
+import { AsyncEventQueue } from '../agent/loop/AsyncEventQueue.js';
+import type { UserMessageContent } from '../agent/types.js';
+import { SdkError } from '../errors/SdkError.js';
+import { SessionInputError } from '../errors/SessionInputError.js';
+import { createRootLogger, type InternalLogger, LogCategory } from '../logging/Logger.js';
+import { mergeContext, type RuntimeContext } from '../runtime/index.js';
+import {
+  type DurableEventStore,
+  DurableEventStoreError,
+} from '../session/events/DurableEventStore.js';
+import {
+  type DurableEventCursor,
+  type DurableEventSubscription,
+  DurableEventSubscriptionError,
+} from '../session/events/DurableEventSubscription.js';
+import { DurableSessionRecoveryRequiredError } from '../session/events/SessionDurableRecorder.js';
+import {
+  type CancelInputResponse,
+  type CreateSessionResponse,
+  type DurableEventHeadResponse,
+  decodeDurableEventCursor,
+  encodeDurableEventCursor,
+  type RewindSessionResponse,
+  type SendInputResponse,
+  type SessionMessagesResponse,
+  type SessionServerErrorBody,
+  type SessionStateResponse,
+  type SessionStreamEvent,
+  SessionStreamEventType,
+} from '../session/remote/protocol.js';
+import { createSession, forkSession, resumeSession } from '../session/Session.js';
+import type { ISession, SessionOptions } from '../session/types.js';
+import { InputPriority } from '../session/types.js';
+import {
+  EventSequence,
+  InputId,
+  PermissionRequestId,
+  RequestId,
+  SessionId,
+} from '../types/branded.js';
+import { PermissionMode } from '../types/common.js';
+import type { AgentLogger } from '../types/logging.js';
+import {
+  createPermissionHandlerFromCanUseTool,
+  type PermissionResult,
+} from '../types/permissions.js';
+import { findContextWidening } from './contextScope.js';
+import { HostedSession } from './HostedSession.js';
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15_000;
+/** How long a stream waits for the durable session_closed event after close(). */
+const CLOSE_DRAIN_TIMEOUT_MS = 5_000;
+
+export type SessionServerErrorCode =
+  | 'SESSION_SERVER_INVALID_REQUEST'
+  | 'SESSION_SERVER_FORBIDDEN'
+  | 'SESSION_SERVER_NOT_FOUND';
+
+export class SessionServerError extends SdkError {
+  // biome-ignore lint/complexity/noUselessConstructor: narrows the public error-code contract
+  constructor(code: SessionServerErrorCode, message: string, options?: { cause?: unknown }) {
+    super(code, message, options);
+  }
+}
+
+export interface SessionServerRequestContext {
+  action: 'create' | 'resume' | 'fork';
+  /** Source Session for resume and fork. */
+  sessionId?: SessionId;
+  /** Incoming HTTP request, e.g. for authentication headers. */
+  request: Request;
+}
+
+export type SessionServerAction =
+  | 'create'
+  | 'resume'
+  | 'fork'
+  | 'read'
+  | 'close'
+  | 'rewind'
+  | 'send'
+  | 'cancel_input'
+  | 'set_permission_mode'
+  | 'set_model'
+  | 'set_max_turns'
+  | 'set_default_context'
+  | 'abort'
+  | 'resolve_permission'
+  | 'read_events'
+  | 'stream';
+
+/**
+ * Authorizes one HTTP request. `sessionId` is undefined only for `create`.
+ * Return false (or throw) to reject the request.
+ */
+export type SessionServerAuthorizer = (
+  request: Request,
+  sessionId: SessionId | undefined,
+  action: SessionServerAction,
+) => boolean | Promise<boolean>;
+
+export interface SessionServerContextPatch {
+  request: Request;
+  sessionId: SessionId;
+  /** `input` scopes one submitted input; `default` replaces the Session default context. */
+  target: 'input' | 'default';
+  /** The RuntimeContext the client sent. */
+  patch: RuntimeContext;
+}
+
+/**
+ * Maps a client-supplied RuntimeContext to the one the server applies.
+ *
+ * The result may only narrow the server-granted scope: the server rejects
+ * results that add filesystem roots, network reach, browser targets, or
+ * environment variables.
+ */
+export type SessionServerContextPatchResolver = (
+  patch: SessionServerContextPatch,
+) => RuntimeContext | Promise<RuntimeContext>;
+
+/** Decides whether a client may switch a hosted Session to `mode`. */
+export type SessionServerPermissionModePolicy = (
+  request: Request,
+  sessionId: SessionId,
+  mode: PermissionMode,
+) => boolean | Promise<boolean>;
+
+/**
+ * Resolves SessionOptions for a hosted Session.
+ *
+ * Provider credentials, tools, and permission policy stay on the server; HTTP
+ * clients never supply SessionOptions directly. Clients change permission mode
+ * only through `allowPermissionModeChange`, and context only through
+ * `resolveContextPatch`.
+ */
+export type SessionServerOptionsResolver = (
+  context: SessionServerRequestContext,
+) => SessionOptions | Promise<SessionOptions>;
+
+export interface SessionServerOptions {
+  sessionOptions: SessionOptions | SessionServerOptionsResolver;
+  /** Called by every route before it runs. Without it every request is allowed. */
+  authorize?: SessionServerAuthorizer;
+  /**
+   * Accepts client-supplied context on inputs and `PUT /default-context`.
+   * Without it, requests that carry a context are rejected.
+   */
+  resolveContextPatch?: SessionServerContextPatchResolver;
+  /** Accepts `PUT /permission-mode`. Without it, permission mode changes are rejected. */
+  allowPermissionModeChange?: SessionServerPermissionModePolicy;
+  /** Route prefix, e.g. `/api`. Defaults to the root. */
+  basePath?: string;
+  /** Interval for SSE keep-alive comments. Defaults to 15 seconds. */
+  heartbeatIntervalMs?: number;
+  /** Poll interval used by durable event subscriptions behind `/stream`. */
+  durablePollIntervalMs?: number;
+  logger?: AgentLogger;
+}
+
+type StreamFrame = SessionStreamEvent | typeof HEARTBEAT;
+
+interface SessionStreamOptions {
+  includeThinking: boolean;
+  /** The connection answers permission_request events. */
+  permissions: boolean;
+}
+
+const HEARTBEAT = Symbol('heartbeat');
+
+const contentPartSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal('text'),
+      text: z.string(),
+      providerOptions: z.record(z.record(z.unknown())).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal('image_url'),
+      image_url: z.object({ url: z.string().min(1) }).strict(),
+    })
+    .strict(),
+]);
+
+const runtimeContextSchema = z
+  .object({
+    id: z.string().optional(),
+    capabilities: z
+      .object({
+        filesystem: z
+          .object({ roots: z.array(z.string()), cwd: z.string().optional() })
+          .strict()
+          .optional(),
+        browser: z
+          .object({ pageId: z.string().optional(), tabId: z.string().optional() })
+          .strict()
+          .optional(),
+        network: z
+          .object({
+            allowDomains: z.array(z.string()).optional(),
+            denyDomains: z.array(z.string()).optional(),
+            allowPrivateNetwork: z.boolean().optional(),
+          })
+          .strict()
+          .optional(),
+      })
+      .strict()
+      .optional(),
+    environment: z.record(z.string()).optional(),
+    metadata: z.record(z.unknown()).optional(),
+  })
+  .strict();
+
+const sendInputSchema = z
+  .object({
+    message: z.union([z.string(), z.array(contentPartSchema).min(1)]),
+    priority: z.nativeEnum(InputPriority).optional(),
+    expectedRequestId: z.string().min(1).optional(),
+    maxTurns: z.number().int().optional(),
+    context: runtimeContextSchema.optional(),
+  })
+  .strict();
+
+const forkSessionSchema = z
+  .object({
+    messageId: z.string().min(1).optional(),
+  })
+  .strict();
+
+const rewindSessionSchema = z
+  .object({
+    messageId: z.string().min(1),
+    keepConversation: z.boolean().optional(),
+  })
+  .strict();
+
+const abortSessionSchema = z
+  .object({
+    requestId: z.string().min(1).optional(),
+  })
+  .strict();
+
+const setPermissionModeSchema = z
+  .object({
+    mode: z.nativeEnum(PermissionMode),
+  })
+  .strict();
+
+const setModelSchema = z
+  .object({
+    model: z.string().min(1),
+  })
+  .strict();
+
+const setMaxTurnsSchema = z
+  .object({
+    maxTurns: z.number().int(),
+  })
+  .strict();
+
+const setDefaultContextSchema = z
+  .object({
+    context: runtimeContextSchema,
+  })
+  .strict();
+
+const permissionRuleSchema = z
+  .object({
+    toolName: z.string().min(1),
+    ruleContent: z.string().optional(),
+  })
+  .strict();
+
+const resolvePermissionSchema = z
+  .object({
+    result: z.discriminatedUnion('behavior', [
+      z
+        .object({
+          behavior: z.literal('allow'),
+          updatedInput: z.record(z.unknown()).optional(),
+          updatedPermissions: z
+            .array(
+              z.discriminatedUnion('type', [
+                z
+                  .object({
+                    type: z.literal('addRules'),
+                    rules: z.array(permissionRuleSchema),
+                    behavior: z.enum(['allow', 'deny']),
+                  })
+                  .strict(),
+                z
+                  .object({
+                    type: z.literal('removeRules'),
+                    rules: z.array(permissionRuleSchema),
+                  })
+                  .strict(),
+              ]),
+            )
+            .optional(),
+        })
+        .strict(),
+      z
+        .object({
+          behavior: z.literal('deny'),
+          message: z.string(),
+          interrupt: z.boolean().optional(),
+        })
+        .strict(),
+      z
+        .object({
+          behavior: z.literal('ask'),
+          message: z.string().optional(),
+        })
+        .strict(),
+    ]),
+  })
+  .strict();
+
+const durableEventsQuerySchema = z
+  .object({
+    after: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().optional(),
+  })
+  .strict();
+
+/**
+ * HTTP/SSE host for Sessions.
+ *
+ * The server is a fetch handler (`server.fetch`) and runs on any runtime
+ * adapter that speaks the Fetch API, e.g. `@hono/node-server`, Bun, or Deno.
+ */
+export class SessionServer {
+  readonly app: Hono;
+  private readonly sessions = new Map<SessionId, HostedSession>();
+  private readonly heartbeatIntervalMs: number;
+  private readonly durablePollIntervalMs: number | undefined;
+  private readonly logger: InternalLogger;
+
+  constructor(private readonly options: SessionServerOptions) {
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.durablePollIntervalMs = options.durablePollIntervalMs;
+    this.logger = createRootLogger(options.logger).child(LogCategory.SERVICE);
+    this.app = this.createApp();
+  }
+
+  readonly fetch = (request: Request): Response | Promise<Response> => this.app.fetch(request);
+
+  /** Returns a hosted live Session, if any. */
+  getSession(sessionId: SessionId): ISession | undefined {
+    return this.sessions.get(sessionId)?.session;
+  }
+
+  /** Closes every hosted Session and ends their streams. */
+  async close(): Promise<void> {
+    const hosted = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.allSettled(hosted.map((entry) => entry.close()));
+  }
+
+  private createApp(): Hono {
+    const app = new Hono();
+    const routes = this.options.basePath ? app.basePath(this.options.basePath) : app;
+
+    routes.post('/sessions', async (c) => {
+      await this.authorize(c, 'create');
+      const options = await this.resolveSessionOptions({ action: 'create', request: c.req.raw });
+      const hosted = this.host(await createSession(options), options.durableEventStore);
+      return c.json<CreateSessionResponse>({ sessionId: hosted.session.sessionId }, 201);
+    });
+
+    routes.get('/sessions/:sessionId', async (c) => {
+      await this.authorize(c, 'read');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      return c.json<SessionStateResponse>({
+        sessionId: session.sessionId,
+        isClosed: session.isClosed,
+        messageCount: session.messages.length,
+        pendingInputs: [...session.getPendingInputs()],
+        defaultContext: session.getDefaultContext(),
+      });
+    });
+
+    routes.get('/sessions/:sessionId/messages', async (c) => {
+      await this.authorize(c, 'read');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      return c.json<SessionMessagesResponse>(session.messages);
+    });
+
+    routes.delete('/sessions/:sessionId', async (c) => {
+      await this.authorize(c, 'close');
+      const sessionId = SessionId(c.req.param('sessionId'));
+      const hosted = this.requireSession(sessionId);
+      this.sessions.delete(sessionId);
+      await hosted.close();
+      return c.body(null, 204);
+    });
+
+    routes.post('/sessions/:sessionId/resume', async (c) => {
+      await this.authorize(c, 'resume');
+      const sessionId = SessionId(c.req.param('sessionId'));
+      const existing = this.sessions.get(sessionId);
+      if (existing) {
+        return c.json<CreateSessionResponse>({ sessionId });
+      }
+      const options = await this.resolveSessionOptions({
+        action: 'resume',
+        sessionId,
+        request: c.req.raw,
+      });
+      const hosted = this.host(
+        await resumeSession({ ...options, sessionId }),
+        options.durableEventStore,
+      );
+      hosted.kick();
+      return c.json<CreateSessionResponse>({ sessionId: hosted.session.sessionId });
+    });
+
+    routes.post('/sessions/:sessionId/fork', async (c) => {
+      await this.authorize(c, 'fork');
+      const sessionId = SessionId(c.req.param('sessionId'));
+      const body = await parseBody(c, forkSessionSchema, true);
+      const live = this.sessions.get(sessionId);
+      let hosted: HostedSession;
+      if (live) {
+        hosted = this.host(
+          await live.session.fork({ messageId: body.messageId }),
+          live.durableEventStore,
+          live.grantedContext,
+        );
+      } else {
+        const options = await this.resolveSessionOptions({
+          action: 'fork',
+          sessionId,
+          request: c.req.raw,
+        });
+        hosted = this.host(
+          await forkSession({ ...options, sessionId, messageId: body.messageId }),
+          options.durableEventStore,
+        );
+      }
+      return c.json<CreateSessionResponse>({ sessionId: hosted.session.sessionId }, 201);
+    });
+
+    routes.post('/sessions/:sessionId/rewind', async (c) => {
+      await this.authorize(c, 'rewind');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, rewindSessionSchema);
+      return c.json<RewindSessionResponse>(
+        await session.rewind(body.messageId, { keepConversation: body.keepConversation }),
+      );
+    });
+
+    routes.post('/sessions/:sessionId/inputs', async (c) => {
+      await this.authorize(c, 'send');
+      const hosted = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, sendInputSchema);
+      const submission = await hosted.session.send(body.message as UserMessageContent, {
+        ...(body.priority ? { priority: body.priority } : {}),
+        ...(body.expectedRequestId ? { expectedRequestId: RequestId(body.expectedRequestId) } : {}),
+        ...(body.maxTurns !== undefined ? { maxTurns: body.maxTurns } : {}),
+        ...(body.context
+          ? {
+              context: await this.resolveClientContext(
+                c,
+                hosted,
+                'input',
+                body.context as RuntimeContext,
+              ),
+            }
+          : {}),
+      });
+      hosted.kick();
+      return c.json<SendInputResponse>(submission, 202);
+    });
+
+    routes.get('/sessions/:sessionId/inputs', async (c) => {
+      await this.authorize(c, 'read');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      return c.json([...session.getPendingInputs()]);
+    });
+
+    routes.delete('/sessions/:sessionId/inputs/:inputId', async (c) => {
+      await this.authorize(c, 'cancel_input');
+      const hosted = this.requireSession(c.req.param('sessionId'));
+      const inputId = InputId(c.req.param('inputId'));
+      const cancelled = await hosted.session.cancelInput(inputId);
+      // 取消 pending 请求后 Session 可能已调度下一个 later 输入。
+      hosted.kick();
+      return c.json<CancelInputResponse>({ inputId, cancelled });
+    });
+
+    routes.put('/sessions/:sessionId/permission-mode', async (c) => {
+      await this.authorize(c, 'set_permission_mode');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, setPermissionModeSchema);
+      const policy = this.options.allowPermissionModeChange;
+      if (!policy || !(await policy(c.req.raw, session.sessionId, body.mode))) {
+        throw new SessionServerError(
+          'SESSION_SERVER_FORBIDDEN',
+          `Permission mode ${body.mode} is not allowed by the server`,
+        );
+      }
+      session.setPermissionMode(body.mode);
+      return c.body(null, 204);
+    });
+
+    routes.put('/sessions/:sessionId/model', async (c) => {
+      await this.authorize(c, 'set_model');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, setModelSchema);
+      await session.setModel(body.model);
+      return c.body(null, 204);
+    });
+
+    routes.get('/sessions/:sessionId/models', async (c) => {
+      await this.authorize(c, 'read');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      return c.json(await session.supportedModels());
+    });
+
+    routes.put('/sessions/:sessionId/max-turns', async (c) => {
+      await this.authorize(c, 'set_max_turns');
+      const { session } = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, setMaxTurnsSchema);
+      session.setMaxTurns(body.maxTurns);
+      return c.body(null, 204);
+    });
+
+    routes.put('/sessions/:sessionId/default-context', async (c) => {
+      await this.authorize(c, 'set_default_context');
+      const hosted = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, setDefaultContextSchema);
+      hosted.session.setDefaultContext(
+        await this.resolveClientContext(c, hosted, 'default', body.context as RuntimeContext),
+      );
+      return c.body(null, 204);
+    });
+
+    routes.post('/sessions/:sessionId/abort', async (c) => {
+      await this.authorize(c, 'abort');
+      const hosted = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, abortSessionSchema, true);
+      await hosted.abort(body.requestId as RequestId | undefined);
+      return c.body(null, 204);
+    });
+
+    routes.post('/sessions/:sessionId/permissions/:permissionRequestId', async (c) => {
+      await this.authorize(c, 'resolve_permission');
+      const hosted = this.requireSession(c.req.param('sessionId'));
+      const body = await parseBody(c, resolvePermissionSchema);
+      const permissionRequestId = c.req.param('permissionRequestId');
+      if (
+        !hosted.settlePermission(
+          PermissionRequestId(permissionRequestId),
+          body.result as PermissionResult,
+        )
+      ) {
+        throw new SessionServerError(
+          'SESSION_SERVER_NOT_FOUND',
+          `Permission request ${permissionRequestId} is not pending`,
+        );
+      }
+      return c.body(null, 204);
+    });
+
+    routes.get('/sessions/:sessionId/events', async (c) => {
+      await this.authorize(c, 'read_events');
+      const store = this.requireDurableEventStore(c.req.param('sessionId'));
+      const query = durableEventsQuerySchema.safeParse(c.req.query());
+      if (!query.success) {
+        throw new SessionServerError(
+          'SESSION_SERVER_INVALID_REQUEST',
+          'after and limit must be positive integers',
+          { cause: query.error },
+        );
+      }
+      return c.json(
+        await store.read(SessionId(c.req.param('sessionId')), {
+          ...(query.data.after !== undefined ? { after: EventSequence(query.data.after) } : {}),
+          ...(query.data.limit !== undefined ? { limit: query.data.limit } : {}),
+        }),
+      );
+    });
+
+    routes.get('/sessions/:sessionId/events/head', async (c) => {
+      await this.authorize(c, 'read_events');
+      const store = this.requireDurableEventStore(c.req.param('sessionId'));
+      return c.json<DurableEventHeadResponse>({
+        headSequence: await store.getHeadSequence(SessionId(c.req.param('sessionId'))),
+      });
+    });
+
+    routes.get('/sessions/:sessionId/stream', async (c) => {
+      await this.authorize(c, 'stream');
+      const hosted = this.requireSession(c.req.param('sessionId'));
+      const streamOptions: SessionStreamOptions = {
+        includeThinking: c.req.query('includeThinking') === 'true',
+        permissions: c.req.query('permissions') === 'true',
+      };
+      const rawCursor = c.req.header('Last-Event-ID') ?? c.req.query('after');
+      const after = rawCursor ? decodeDurableEventCursor(rawCursor) : undefined;
+      const controller = new AbortController();
+      // Open before the response is committed so cursor errors map to HTTP statuses.
+      const subscription =
+        c.req.query('durable') === 'false'
+          ? null
+          : await this.openDurableSubscription(hosted.session, after, controller.signal);
+      return streamSSE(c, (stream) =>
+        this.writeSessionStream(stream, hosted, subscription, controller, streamOptions),
+      );
+    });
+
+    app.notFound((c) =>
+      c.json<SessionServerErrorBody>(
+        {
+          error: {
+            code: 'SESSION_SERVER_NOT_FOUND',
+            message: `No route for ${c.req.method} ${c.req.path}`,
+          },
+        },
+        404,
+      ),
+    );
+    app.onError((error, c) => this.errorResponse(c, error));
+    return app;
+  }
+
+  private async resolveSessionOptions(
+    context: SessionServerRequestContext,
+  ): Promise<SessionOptions> {
+    const { sessionOptions } = this.options;
+    const resolved =
+      typeof sessionOptions === 'function' ? await sessionOptions(context) : sessionOptions;
+    return this.withRemotePermissions(resolved);
+  }
+
+  /**
+   * Routes permission decisions to remote clients.
+   *
+   * The server's own handler decides first; only its `ask` results (or every
+   * request, when it has none) go to connected clients. Routing is keyed by
+   * sessionId so forks of a live Session reach their own connections.
+   */
+  private withRemotePermissions(options: SessionOptions): SessionOptions {
+    const baseHandler =
+      options.permissionHandler ??
+      (options.canUseTool ? createPermissionHandlerFromCanUseTool(options.canUseTool) : undefined);
+    return {
+      ...options,
+      permissionHandler: async (request) => {
+        const decision = baseHandler ? await baseHandler(request) : undefined;
+        if (decision && decision.behavior !== 'ask') {
+          return decision;
+        }
+        const hosted = request.sessionId ? this.sessions.get(request.sessionId) : undefined;
+        const remoteDecision = hosted?.requestPermission(request);
+        return remoteDecision ? remoteDecision : (decision ?? { behavior: 'ask' });
+      },
+    };
+  }
+
+  private host(
+    session: ISession,
+    durableEventStore: DurableEventStore | undefined,
+    grantedContext: RuntimeContext = session.getDefaultContext(),
+  ): HostedSession {
+    const hosted = new HostedSession(session, durableEventStore, grantedContext, this.logger);
+    this.sessions.set(session.sessionId, hosted);
+    return hosted;
+  }
+
+  private async authorize(c: Context, action: SessionServerAction): Promise<void> {
+    const { authorize } = this.options;
+    if (!authorize) {
+      return;
+    }
+    const rawSessionId = c.req.param('sessionId');
+    const sessionId = rawSessionId ? SessionId(rawSessionId) : undefined;
+    if (!(await authorize(c.req.raw, sessionId, action))) {
+      throw new SessionServerError('SESSION_SERVER_FORBIDDEN', `${action} is not allowed`);
+    }
+  }
+
+  /**
+   * Runs client-supplied context through `resolveContextPatch` and rejects
+   * results that widen the scope the server granted when it hosted the Session.
+   */
+  private async resolveClientContext(
+    c: Context,
+    hosted: HostedSession,
+    target: SessionServerContextPatch['target'],
+    patch: RuntimeContext,
+  ): Promise<RuntimeContext> {
+    const { resolveContextPatch } = this.options;
+    if (!resolveContextPatch) {
+      throw new SessionServerError(
+        'SESSION_SERVER_FORBIDDEN',
+        'Client-supplied context is not accepted by this server',
+      );
+    }
+    const { session } = hosted;
+    const resolved = await resolveContextPatch({
+      request: c.req.raw,
+      sessionId: session.sessionId,
+      target,
+      patch,
+    });
+    // 输入上下文会合并进当前默认上下文；默认上下文则与托管时授予的范围比较。
+    const widening =
+      target === 'input'
+        ? findContextWidening(
+            session.getDefaultContext(),
+            mergeContext(session.getDefaultContext(), resolved),
+          )
+        : findContextWidening(hosted.grantedContext, resolved);
+    if (widening) {
+      throw new SessionServerError('SESSION_SERVER_FORBIDDEN', widening);
+    }
+    return resolved;
+  }
+
+  private requireSession(sessionId: string): HostedSession {
+    const hosted = this.sessions.get(SessionId(sessionId));
+    if (!hosted) {
+      throw new SessionServerError(
+        'SESSION_SERVER_NOT_FOUND',
+        `Session ${sessionId} is not hosted by this server`,
+      );
+    }
+    return hosted;
+  }
+
+  private requireDurableEventStore(sessionId: string): DurableEventStore {
+    const hosted = this.requireSession(sessionId);
+    if (!hosted.durableEventStore) {
+      throw new DurableEventSubscriptionError(
+        'DURABLE_EVENT_SUBSCRIPTION_NOT_CONFIGURED',
+        `Session ${sessionId} has no durable event store`,
+      );
+    }
+    return hosted.durableEventStore;
+  }
+
+  private async openDurableSubscription(
+    session: ISession,
+    after: DurableEventCursor | undefined,
+    signal: AbortSignal,
+  ): Promise<DurableEventSubscription | null> {
+    try {
+      return await session.subscribeDurableEvents({
+        after,
+        follow: true,
+        signal,
+        ...(this.durablePollIntervalMs !== undefined
+          ? { pollIntervalMs: this.durablePollIntervalMs }
+          : {}),
+      });
+    } catch (error) {
+      // 未配置 durable store 时 /stream 只提供实时消息；带游标重连则必须报错。
+      if (
+        !after &&
+        error instanceof DurableEventSubscriptionError &&
+        error.code === 'DURABLE_EVENT_SUBSCRIPTION_NOT_CONFIGURED'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeSessionStream(
+    stream: SSEStreamingApi,
+    hosted: HostedSession,
+    subscription: DurableEventSubscription | null,
+    controller: AbortController,
+    options: SessionStreamOptions,
+  ): Promise<void> {
+    const queue = new AsyncEventQueue<StreamFrame>();
+    const durable = subscription
+      ? forwardDurableEvents(subscription, queue, controller.signal)
+      : null;
+    let drainTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = hosted.subscribe(
+      (event) => {
+        if (event.type !== 'closed' || !durable || !subscription) {
+          queue.enqueue(event);
+          return;
+        }
+        // 先让订阅把 session_closed 等剩余 durable 事件送达，再结束流。
+        drainTimer = setTimeout(() => subscription.close(), CLOSE_DRAIN_TIMEOUT_MS);
+        void durable.then(() => queue.enqueue(event));
+      },
+      { permissions: options.permissions },
+    );
+    const heartbeat = setInterval(() => queue.enqueue(HEARTBEAT), this.heartbeatIntervalMs);
+    stream.onAbort(() => {
+      controller.abort();
+      subscription?.close();
+      queue.close();
+    });
+
+    try {
+      for await (const frame of queue) {
+        if (frame === HEARTBEAT) {
+          await stream.write(': ping\n\n');
+          continue;
+        }
+        if (
+          frame.type === 'message' &&
+          frame.message.type === 'thinking' &&
+          !options.includeThinking
+        ) {
+          continue;
+        }
+        await stream.writeSSE({
+          event: frame.type,
+          data: JSON.stringify(frame),
+          ...(frame.type === SessionStreamEventType.DURABLE
+            ? { id: encodeDurableEventCursor(frame.cursor) }
+            : {}),
+        });
+        if (
+          frame.type === SessionStreamEventType.CLOSED ||
+          frame.type === SessionStreamEventType.STREAM_ERROR
+        ) {
+          break;
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+      clearTimeout(drainTimer);
+      unsubscribe();
+      controller.abort();
+      subscription?.close();
+      queue.close();
+      await durable;
+    }
+  }
+
+  private errorResponse(c: Context, error: unknown): Response {
+    const status = errorStatus(error);
+    if (status >= 500) {
+      this.logger.error('[SessionServer] Request failed:', error);
+    }
+    return c.json<SessionServerErrorBody>(
+      {
+        error: {
+          code: error instanceof SdkError ? error.code : 'SESSION_SERVER_INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : String(error),
+        },
+      },
+      status,
+    );
+  }
+}
+
+export function createSessionServer(options: SessionServerOptions): SessionServer {
+  return new SessionServer(options);
+}
+
+async function forwardDurableEvents(
+  subscription: DurableEventSubscription,
+  queue: AsyncEventQueue<StreamFrame>,
+  signal: AbortSignal,
+): Promise<void> {
+  try {
+    for await (const message of subscription) {
+      if (message.type === 'event') {
+        queue.enqueue({ type: 'durable', event: message.event, cursor: message.cursor });
+      } else {
+        queue.enqueue({
+          type: 'caught_up',
+          cursor: message.cursor,
+          headSequence: message.headSequence,
+        });
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      return;
+    }
+    queue.enqueue({
+      type: 'stream_error',
+      error: {
+        code: error instanceof SdkError ? error.code : 'SESSION_SERVER_INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+}
+
+async function parseBody<T extends z.ZodTypeAny>(
+  c: Context,
+  schema: T,
+  allowEmpty = false,
+): Promise<z.infer<T>> {
+  const text = await c.req.text();
+  let value: unknown = {};
+  if (text.trim().length > 0) {
+    try {
+      value = JSON.parse(text);
+    } catch (cause) {
+      throw new SessionServerError(
+        'SESSION_SERVER_INVALID_REQUEST',
+        'Request body must be valid JSON',
+        { cause },
+      );
+    }
+  } else if (!allowEmpty) {
+    throw new SessionServerError('SESSION_SERVER_INVALID_REQUEST', 'Request body is required');
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new SessionServerError(
+      'SESSION_SERVER_INVALID_REQUEST',
+      result.error.issues
+        .map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+        .join('; '),
+      { cause: result.error },
+    );
+  }
+  return result.data;
+}
+
+function errorStatus(error: unknown): ContentfulStatusCode {
+  if (error instanceof SessionServerError) {
+    switch (error.code) {
+      case 'SESSION_SERVER_INVALID_REQUEST':
+        return 400;
+      case 'SESSION_SERVER_FORBIDDEN':
+        return 403;
+      case 'SESSION_SERVER_NOT_FOUND':
+        return 404;
+    }
+  }
+  if (error instanceof SessionInputError) {
+    switch (error.code) {
+      case 'SESSION_INPUT_QUEUE_FULL':
+        return 429;
+      case 'SESSION_INPUT_OPTIONS_UNSUPPORTED':
+        return 400;
+      default:
+        return 409;
+    }
+  }
+  if (error instanceof DurableSessionRecoveryRequiredError) {
+    return 409;
+  }
+  if (error instanceof DurableEventStoreError) {
+    switch (error.code) {
+      case 'DURABLE_EVENT_INVALID_CURSOR':
+        return 400;
+      case 'DURABLE_EVENT_COMPACTED':
+        return 410;
+      default:
+        return 500;
+    }
+  }
+  if (error instanceof DurableEventSubscriptionError) {
+    switch (error.code) {
+      case 'DURABLE_EVENT_SUBSCRIPTION_STALE_CURSOR':
+        return 409;
+      case 'DURABLE_EVENT_SUBSCRIPTION_NOT_CONFIGURED':
+        return 501;
+      default:
+        return 400;
+    }
+  }
+  return 500;
+}
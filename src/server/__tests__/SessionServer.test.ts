@@ -0,0 +1,545 @@
+import { mkdtempSync } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AgentEvent } from '../../agent/AgentEvent.js';
+import type { LoopOptions, LoopResult, UserMessageContent } from '../../agent/types.js';
+import { JsonlDurableEventStore } from '../../session/events/JsonlDurableEventStore.js';
+import type { SessionStreamEvent } from '../../session/remote/protocol.js';
+import type { SessionOptions } from '../../session/types.js';
+import { EventId } from '../../types/branded.js';
+import type { SessionServerOptions } from '../SessionServer.js';
+
+type StreamChat = (
+  message: UserMessageContent,
+  context: unknown,
+  options?: LoopOptions,
+) => AsyncGenerator<AgentEvent, LoopResult>;
+
+function replyWith(text: string): StreamChat {
+  return async function* reply() {
+    yield { type: 'turn_start', turn: 1, maxTurns: 10 };
+    yield { type: 'thinking_delta', delta: 'hmm' };
+    yield { type: 'content_delta', delta: text };
+    yield { type: 'turn_end', turn: 1, hasToolCalls: false };
+    return {
+      success: true,
+      finalMessage: text,
+      metadata: { turnsCount: 1, toolCallsCount: 0, duration: 1 },
+    };
+  };
+}
+
+let streamChat: StreamChat = replyWith('done');
+
+const createAgent = vi.fn(async (_config?: unknown, _options?: unknown, _deps?: unknown) => ({
+  streamChat: (message: UserMessageContent, context: unknown, options?: LoopOptions) =>
+    streamChat(message, context, options),
+  async setModel() {},
+}));
+
+vi.mock('../../agent/Agent.js', () => ({
+  Agent: { create: createAgent },
+}));
+
+const { createSessionServer } = await import('../SessionServer.js');
+
+interface SseFrame {
+  event: string;
+  id?: string;
+  data: SessionStreamEvent;
+}
+
+const tempRoots: string[] = [];
+const servers: Array<{ close(): Promise<void> }> = [];
+
+function createStore() {
+  const root = mkdtempSync(join(tmpdir(), 'session-server-'));
+  tempRoots.push(root);
+  let eventId = 0;
+  return new JsonlDurableEventStore(root, {
+    eventIdFactory: () => EventId(`event-${++eventId}`),
+  });
+}
+
+function createServer(
+  options: Partial<SessionOptions> = {},
+  serverOptions: Partial<SessionServerOptions> = {},
+) {
+  const server = createSessionServer({
+    sessionOptions: {
+      provider: { type: 'openai-compatible', apiKey: 'test-key' },
+      model: 'test-model',
+      persistSession: false,
+      durableEventStore: createStore(),
+      ...options,
+    },
+    durablePollIntervalMs: 5,
+    ...serverOptions,
+  });
+  servers.push(server);
+  return server;
+}
+
+function json(body: unknown, method = 'POST'): RequestInit {
+  return {
+    method,
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  };
+}
+
+/** Reads SSE frames until `until` matches, then cancels the response body. */
+async function readFrames(
+  response: Response,
+  until: (frame: SseFrame) => boolean,
+): Promise<SseFrame[]> {
+  const body = response.body;
+  if (!body) {
+    throw new Error('SSE response has no body');
+  }
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  const frames: SseFrame[] = [];
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return frames;
+      }
+      buffer += value;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+        const fields = new Map<string, string>();
+        for (const line of block.split('\n')) {
+          if (line.startsWith(':')) continue;
+          const separator = line.indexOf(': ');
+          fields.set(line.slice(0, separator), line.slice(separator + 2));
+        }
+        const data = fields.get('data');
+        if (data === undefined) continue;
+        const frame: SseFrame = {
+          event: fields.get('event') ?? 'message',
+          ...(fields.has('id') ? { id: fields.get('id') } : {}),
+          data: JSON.parse(data) as SessionStreamEvent,
+        };
+        frames.push(frame);
+        if (until(frame)) {
+          return frames;
+        }
+      }
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+function isResult(frame: SseFrame): boolean {
+  return frame.data.type === 'message' && frame.data.message.type === 'result';
+}
+
+async function createHostedSession(server: ReturnType<typeof createServer>): Promise<string> {
+  const response = await server.fetch(new Request('http://test/sessions', { method: 'POST' }));
+  expect(response.status).toBe(201);
+  return ((await response.json()) as { sessionId: string }).sessionId;
+}
+
+afterEach(async () => {
+  streamChat = replyWith('done');
+  await Promise.all(servers.splice(0).map((server) => server.close()));
+  await Promise.all(tempRoots.splice(0).map((root) => rm(root, { recursive: true, force: true })));
+});
+
+describe('SessionServer', () => {
+  it('runs submitted input and streams live messages with durable events', async () => {
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+
+    const stream = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+    expect(stream.headers.get('content-type')).toBe('text/event-stream');
+    const submitted = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'hello' })),
+    );
+    expect(submitted.status).toBe(202);
+    expect(await submitted.json()).toMatchObject({ status: 'started' });
+
+    let completed = false;
+    let result = false;
+    const frames = await readFrames(stream, (frame) => {
+      completed ||= frame.data.type === 'durable' && frame.data.event.type === 'request_completed';
+      result ||= isResult(frame);
+      return completed && result;
+    });
+    const messages = frames.flatMap((frame) =>
+      frame.data.type === 'message' ? [frame.data.message.type] : [],
+    );
+    expect(messages).toEqual(['turn_start', 'content', 'turn_end', 'usage', 'result']);
+    expect(frames.some((frame) => frame.event === 'caught_up')).toBe(true);
+    const durable = frames.filter((frame) => frame.event === 'durable');
+    expect(durable.every((frame) => frame.id !== undefined)).toBe(true);
+  });
+
+  it('forwards thinking only when requested', async () => {
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+
+    const stream = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/stream?includeThinking=true`),
+    );
+    await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'hello' })),
+    );
+    const frames = await readFrames(stream, isResult);
+
+    expect(
+      frames.some(
+        (frame) => frame.data.type === 'message' && frame.data.message.type === 'thinking',
+      ),
+    ).toBe(true);
+  });
+
+  it('resumes durable events after the Last-Event-ID cursor', async () => {
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+    const first = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+    await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'hello' })),
+    );
+    const initial = await readFrames(first, (frame) => frame.event === 'caught_up');
+    const lastDurable = initial.filter((frame) => frame.event === 'durable').at(-1);
+    expect(lastDurable?.id).toBeDefined();
+
+    const resumed = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/stream`, {
+        headers: { 'Last-Event-ID': lastDurable?.id ?? '' },
+      }),
+    );
+    const replayed = await readFrames(
+      resumed,
+      (frame) => frame.data.type === 'durable' && frame.data.event.type === 'request_completed',
+    );
+    const sequences = replayed.flatMap((frame) =>
+      frame.data.type === 'durable' ? [frame.data.event.sequence] : [],
+    );
+    const lastSequence = lastDurable?.data.type === 'durable' ? lastDurable.data.event.sequence : 0;
+    expect(sequences.length).toBeGreaterThan(0);
+    expect(sequences.every((sequence) => sequence > lastSequence)).toBe(true);
+  });
+
+  it('rejects malformed and stale cursors before opening the stream', async () => {
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+
+    const malformed = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/stream?after=not-json`),
+    );
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({
+      error: { code: 'DURABLE_EVENT_SUBSCRIPTION_INVALID_CURSOR' },
+    });
+
+    const ahead = encodeURIComponent(
+      JSON.stringify({ version: 1, sessionId, sequence: 99, eventId: 'event-99' }),
+    );
+    const stale = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/stream?after=${ahead}`),
+    );
+    expect(stale.status).toBe(409);
+  });
+
+  it('runs queued later input after the active request finishes', async () => {
+    let release: () => void = () => {};
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const replies: string[] = [];
+    streamChat = async function* gated(message) {
+      replies.push(String(message));
+      if (replies.length === 1) {
+        await gate;
+      }
+      return yield* replyWith(`reply ${replies.length}`)(message, undefined);
+    };
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+    const stream = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+
+    await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'first' })),
+    );
+    const queued = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/inputs`,
+        json({ message: 'second', priority: 'later' }),
+      ),
+    );
+    expect(await queued.json()).toMatchObject({ status: 'queued', priority: 'later' });
+    const pending = await server.fetch(new Request(`http://test/sessions/${sessionId}/inputs`));
+    expect(await pending.json()).toEqual([
+      expect.objectContaining({ content: 'second', priority: 'later' }),
+    ]);
+    release();
+
+    let results = 0;
+    await readFrames(stream, (frame) => isResult(frame) && ++results === 2);
+    expect(replies).toEqual(['first', 'second']);
+  });
+
+  it('aborts by request ID only while that request is still active', async () => {
+    let started: () => void = () => {};
+    const running = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+    const signals: AbortSignal[] = [];
+    streamChat = async function* aborted(message, context) {
+      const { signal } = context as { signal: AbortSignal };
+      signals.push(signal);
+      started();
+      await new Promise<void>((resolve) => {
+        signal.addEventListener('abort', () => resolve(), { once: true });
+      });
+      return yield* replyWith('aborted')(message, undefined);
+    };
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+    const stream = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+    const submitted = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'first' })),
+    );
+    const { requestId } = (await submitted.json()) as { requestId: string };
+    await running;
+
+    const stale = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/abort`, json({ requestId: 'earlier' })),
+    );
+    expect(stale.status).toBe(204);
+    expect(signals[0]?.aborted).toBe(false);
+
+    const current = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/abort`, json({ requestId })),
+    );
+    expect(current.status).toBe(204);
+    expect(signals[0]?.aborted).toBe(true);
+    await readFrames(stream, (frame) => frame.data.type === 'request_end');
+  });
+
+  it('maps validation, routing, and input errors to JSON responses', async () => {
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+
+    const invalid = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 42 })),
+    );
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      error: { code: 'SESSION_SERVER_INVALID_REQUEST' },
+    });
+
+    const mismatch = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/inputs`,
+        json({ message: 'hi', expectedRequestId: 'missing' }),
+      ),
+    );
+    expect(mismatch.status).toBe(409);
+    expect(await mismatch.json()).toMatchObject({
+      error: { code: 'SESSION_REQUEST_MISMATCH' },
+    });
+
+    const missing = await server.fetch(new Request('http://test/sessions/unknown'));
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ error: { code: 'SESSION_SERVER_NOT_FOUND' } });
+  });
+
+  it('updates permission mode, forks live sessions, and ends streams on close', async () => {
+    const allowPermissionModeChange = vi.fn(
+      (_request: Request, _sessionId: string, mode: string) => mode === 'plan',
+    );
+    const server = createServer({}, { allowPermissionModeChange });
+    const sessionId = await createHostedSession(server);
+
+    const mode = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/permission-mode`,
+        json({ mode: 'plan' }, 'PUT'),
+      ),
+    );
+    expect(mode.status).toBe(204);
+    expect(allowPermissionModeChange).toHaveBeenCalledWith(expect.any(Request), sessionId, 'plan');
+    const bypass = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/permission-mode`,
+        json({ mode: 'yolo' }, 'PUT'),
+      ),
+    );
+    expect(bypass.status).toBe(403);
+
+    const forked = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/fork`, { method: 'POST' }),
+    );
+    expect(forked.status).toBe(201);
+    const { sessionId: forkedId } = (await forked.json()) as { sessionId: string };
+    expect(forkedId).not.toBe(sessionId);
+    expect(server.getSession(forkedId as never)).toBeDefined();
+
+    const stream = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+    const closed = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}`, { method: 'DELETE' }),
+    );
+    expect(closed.status).toBe(204);
+    const frames = await readFrames(stream, (frame) => frame.event === 'closed');
+    expect(frames.at(-1)?.data).toEqual({ type: 'closed', sessionId });
+    expect(
+      frames.some(
+        (frame) => frame.data.type === 'durable' && frame.data.event.type === 'session_closed',
+      ),
+    ).toBe(true);
+    expect(server.getSession(sessionId as never)).toBeUndefined();
+  });
+
+  it('authorizes every route with the request, session, and action', async () => {
+    const authorize = vi.fn(
+      (request: Request, _sessionId: string | undefined, action: string) =>
+        request.headers.get('authorization') === 'Bearer ok' && action !== 'abort',
+    );
+    const server = createServer({}, { authorize });
+    const headers = { authorization: 'Bearer ok' };
+
+    const anonymous = await server.fetch(new Request('http://test/sessions', { method: 'POST' }));
+    expect(anonymous.status).toBe(403);
+    expect(await anonymous.json()).toMatchObject({
+      error: { code: 'SESSION_SERVER_FORBIDDEN' },
+    });
+
+    const created = await server.fetch(
+      new Request('http://test/sessions', { method: 'POST', headers }),
+    );
+    expect(created.status).toBe(201);
+    const { sessionId } = (await created.json()) as { sessionId: string };
+    expect(authorize).toHaveBeenLastCalledWith(expect.any(Request), undefined, 'create');
+
+    const state = await server.fetch(new Request(`http://test/sessions/${sessionId}`, { headers }));
+    expect(state.status).toBe(200);
+    expect(authorize).toHaveBeenLastCalledWith(expect.any(Request), sessionId, 'read');
+
+    const abort = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/abort`, { method: 'POST', headers }),
+    );
+    expect(abort.status).toBe(403);
+    const stream = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+    expect(stream.status).toBe(403);
+  });
+
+  it('rejects permission mode and context changes unless the server opts in', async () => {
+    const server = createServer();
+    const sessionId = await createHostedSession(server);
+
+    const mode = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/permission-mode`,
+        json({ mode: 'yolo' }, 'PUT'),
+      ),
+    );
+    expect(mode.status).toBe(403);
+    const input = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/inputs`,
+        json({ message: 'hi', context: { environment: { TOKEN: 'x' } } }),
+      ),
+    );
+    expect(input.status).toBe(403);
+    const defaults = await server.fetch(
+      new Request(
+        `http://test/sessions/${sessionId}/default-context`,
+        json({ context: {} }, 'PUT'),
+      ),
+    );
+    expect(defaults.status).toBe(403);
+  });
+
+  it('keeps client context within the server-granted filesystem and network scope', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'session-server-scope-'));
+    tempRoots.push(root);
+    const server = createServer(
+      {
+        defaultContext: {
+          capabilities: {
+            filesystem: { roots: [root], cwd: root },
+            network: { allowDomains: ['*.example.com'], denyDomains: ['admin.example.com'] },
+          },
+        },
+      },
+      { resolveContextPatch: ({ patch }) => patch },
+    );
+    const sessionId = await createHostedSession(server);
+    const send = (context: unknown) =>
+      server.fetch(
+        new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'hi', context })),
+      );
+    const setDefault = (context: unknown) =>
+      server.fetch(
+        new Request(`http://test/sessions/${sessionId}/default-context`, json({ context }, 'PUT')),
+      );
+
+    for (const context of [
+      { capabilities: { filesystem: { roots: [tmpdir()] } } },
+      { capabilities: { filesystem: { roots: [root], cwd: join(root, '..') } } },
+      { capabilities: { network: { allowPrivateNetwork: true } } },
+      {
+        capabilities: {
+          network: { allowDomains: ['*.example.com', 'evil.test'], denyDomains: [] },
+        },
+      },
+      { capabilities: { network: { allowDomains: ['*.example.com'] } } },
+    ]) {
+      const response = await send(context);
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({
+        error: { code: 'SESSION_SERVER_FORBIDDEN' },
+      });
+    }
+    // A default context replaces the old one whole, so omitting network lifts egress limits.
+    expect((await setDefault({})).status).toBe(403);
+    expect((await setDefault({ capabilities: { filesystem: { roots: ['/'] } } })).status).toBe(403);
+
+    const narrowed = {
+      capabilities: {
+        filesystem: { roots: [join(root, 'src')], cwd: join(root, 'src') },
+        network: { allowDomains: ['api.example.com'], denyDomains: ['admin.example.com'] },
+      },
+    };
+    expect((await setDefault(narrowed)).status).toBe(204);
+    const state = await server.fetch(new Request(`http://test/sessions/${sessionId}`));
+    expect(((await state.json()) as { defaultContext: unknown }).defaultContext).toEqual(narrowed);
+    // Input context is checked against the narrowed default, not the hosted one.
+    expect((await send({ capabilities: { filesystem: { roots: [root] } } })).status).toBe(403);
+    expect(
+      (await send({ capabilities: { filesystem: { roots: [join(root, 'src', 'lib')] } } })).status,
+    ).toBe(202);
+  });
+
+  it('streams live messages without a durable event store', async () => {
+    const server = createServer({ durableEventStore: undefined });
+    const sessionId = await createHostedSession(server);
+
+    const stream = await server.fetch(new Request(`http://test/sessions/${sessionId}/stream`));
+    const submitted = await server.fetch(
+      new Request(`http://test/sessions/${sessionId}/inputs`, json({ message: 'hello' })),
+    );
+    const { inputId, requestId } = (await submitted.json()) as {
+      inputId: string;
+      requestId: string;
+    };
+    const frames = await readFrames(stream, isResult);
+
+    expect(frames[0]?.data).toEqual({ type: 'request_start', requestId, inputIds: [inputId] });
+    expect(frames.slice(1).every((frame) => frame.event === 'message')).toBe(true);
+    expect(
+      frames.every((frame) => 'requestId' in frame.data && frame.data.requestId === requestId),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { isAbsolute, relative, resolve } from 'node:path';
+import type { RuntimeContext } from '../runtime/index.js';
+import { matchesDomainPattern } from '../tools/builtin/web/networkPolicy.js';
+
+function isWithin(path: string, roots: string[]): boolean {
+  const target = resolve(path);
+  return roots.some((root) => {
+    const fromRoot = relative(resolve(root), target);
+    return fromRoot === '' || (!fromRoot.startsWith('..') && !isAbsolute(fromRoot));
+  });
+}
+
+function normalizeDomain(pattern: string): string {
+  return pattern.trim().toLowerCase().replace(/\.$/, '');
+}
+
+/** `pattern` 匹配的每个主机是否都被 `scope` 覆盖 */
+function isDomainCovered(pattern: string, scope: string): boolean {
+  if (scope === '*') return true;
+  if (pattern === '*') return false;
+  if (pattern.startsWith('*.')) {
+    return scope.startsWith('*.') && pattern.slice(1).endsWith(scope.slice(1));
+  }
+  return matchesDomainPattern(pattern, scope);
+}
+
+function sameRecord(a: object | undefined, b: object | undefined): boolean {
+  const left = Object.entries(a ?? {});
+  const right = new Map(Object.entries(b ?? {}));
+  return left.length === right.size && left.every(([key, value]) => right.get(key) === value);
+}
+
+/**
+ * 判断 `next` 是否比 `base` 授予了更大的范围，返回原因；只保持或收窄
+ * 文件系统、网络、浏览器与环境变量范围时返回 undefined。
+ * `id` 与 `metadata` 只是描述信息，不计入范围。
+ */
+export function findContextWidening(
+  base: RuntimeContext,
+  next: RuntimeContext,
+): string | undefined {
+  const baseFilesystem = base.capabilities?.filesystem;
+  const nextFilesystem = next.capabilities?.filesystem;
+  if (nextFilesystem) {
+    // 没有 roots 时以服务端给定的 cwd 作为可达范围；两者都没有则不允许客户端指定任何路径
+    const granted = baseFilesystem?.roots.length
+      ? baseFilesystem.roots
+      : baseFilesystem?.cwd !== undefined
+        ? [baseFilesystem.cwd]
+        : [];
+    const outside = nextFilesystem.roots.find((root) => !isWithin(root, granted));
+    if (outside !== undefined) {
+      return `filesystem root ${outside} is outside the server-granted roots`;
+    }
+    if (nextFilesystem.cwd !== undefined && !isWithin(nextFilesystem.cwd, granted)) {
+      return `cwd ${nextFilesystem.cwd} is outside the server-granted roots`;
+    }
+  }
+
+  const baseNetwork = base.capabilities?.network ?? {};
+  const nextNetwork = next.capabilities?.network ?? {};
+  if (nextNetwork.allowPrivateNetwork && !baseNetwork.allowPrivateNetwork) {
+    return 'allowPrivateNetwork is not granted by the server';
+  }
+  if (baseNetwork.allowDomains) {
+    const scope = baseNetwork.allowDomains.map(normalizeDomain);
+    const allowed = nextNetwork.allowDomains?.map(normalizeDomain);
+    const uncovered = allowed
+      ? allowed.find((pattern) => !scope.some((entry) => isDomainCovered(pattern, entry)))
+      : '*';
+    if (uncovered !== undefined) {
+      return `network domain ${uncovered} is outside the server-granted allowDomains`;
+    }
+  }
+  const denied = new Set(nextNetwork.denyDomains?.map(normalizeDomain));
+  const dropped = baseNetwork.denyDomains
+    ?.map(normalizeDomain)
+    .find((domain) => !denied.has(domain));
+  if (dropped !== undefined) {
+    return `network domain ${dropped} must stay in denyDomains`;
+  }
+
+  if (!sameRecord(base.capabilities?.browser, next.capabilities?.browser)) {
+    return 'browser capability cannot be changed by clients';
+  }
+  if (!sameRecord(base.environment, next.environment)) {
+    return 'environment cannot be changed by clients';
+  }
+  return undefined;
+}
@@ -1,3 +1,18 @@
 // Server-side facade. The root package entrypoint remains session-first and
 // server-only; this subpath makes that boundary explicit for bundlers.
 export * from '../index.js';
+export {
+  createSessionServer,
+  SessionServer,
+  SessionServerError,
+  type SessionServerAction,
+  type SessionServerAuthorizer,
+  type SessionServerContextPatch,
+  type SessionServerContextPatchResolver,
+  type SessionServerErrorCode,
+  type SessionServerOptions,
+  type SessionServerOptionsResolver,
+  type SessionServerPermissionModePolicy,
+  type SessionServerRequestContext,
+} from './SessionServer.js';
+export * from '../session/remote/protocol.js';
@@ -71,7 +71,7 @@ export interface ProviderOptions {
 /**
  * 多模态内容部分 - 文本
  */
-interface TextContentPart {
+export interface TextContentPart {
   type: 'text';
   text: string;
   providerOptions?: ProviderOptions;
@@ -80,7 +80,7 @@ interface TextContentPart {
 /**
  * 多模态内容部分 - 图片 (OpenAI Vision API 格式)
  */
-interface ImageContentPart {
+export interface ImageContentPart {
   type: 'image_url';
   image_url: {
     url: string; // data:image/png;base64,... 或 https://...
@@ -94,7 +94,7 @@ export type ContentPart = TextContentPart | ImageContentPart;
 
 /**
  * 消息类型
- * content 支持纯文本或多模态内容（文本+图片）
+ * content 支持纯文本或多模态内容（文本+图片）；tool 消息的图片来自多模态工具结果
  */
 export type Message = {
   id?: string;
@@ -241,6 +241,12 @@ export interface IChatService {
   updateConfig(newConfig: Partial<ChatConfig>): void;
 }
 
+/**
+ * 自定义 ChatService 工厂
+ * 替换默认的 Provider 实现（例如录制 / 回放），由 SessionOptions.chatServiceFactory 注入
+ */
+export type ChatServiceFactory = (config: ChatConfig) => Promise<IChatService>;
+
 /**
  * ChatService 工厂函数（异步版本）
  *
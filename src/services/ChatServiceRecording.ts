@@ -0,0 +1,325 @@
+/**
+ * ChatService 录制 / 回放
+ *
+ * - 录制：包装真实 ChatService，把 chat / streamChat / sideQuery 的请求与响应写入 fixture 文件
+ * - 回放：按请求哈希从 fixture 取出响应，未录制的请求直接抛错，不会访问网络
+ *
+ * 两个工厂都返回 ChatServiceFactory，可通过 SessionOptions.chatServiceFactory 注入，
+ * 主循环、压缩与子 Agent 共用同一份 fixture。
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, open, readFile, rename, rm } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { JSONSchema7 } from 'json-schema';
+import { nanoid } from 'nanoid';
+import { SdkError } from '../errors/SdkError.js';
+import {
+  type ChatConfig,
+  type ChatResponse,
+  type ChatServiceFactory,
+  createChatServiceAsync,
+  type IChatService,
+  type Message,
+  type SideQueryOptions,
+  type StreamChunk,
+} from './ChatServiceInterface.js';
+
+export type ChatServiceFixtureErrorCode =
+  | 'CHAT_FIXTURE_UNMATCHED_REQUEST'
+  | 'CHAT_FIXTURE_INVALID'
+  | 'CHAT_FIXTURE_WRITE_FAILED';
+
+export class ChatServiceFixtureError extends SdkError {}
+
+export type ChatServiceFixtureMethod = 'chat' | 'streamChat' | 'sideQuery';
+
+export interface ChatServiceFixtureTool {
+  name: string;
+  description: string;
+  parameters: JSONSchema7;
+}
+
+/** The part of a call that identifies it; hashed into the fixture key. */
+export interface ChatServiceFixtureRequest {
+  method: ChatServiceFixtureMethod;
+  model: string;
+  messages: Message[];
+  tools?: ChatServiceFixtureTool[];
+  options?: SideQueryOptions;
+}
+
+export interface ChatServiceFixtureEntry {
+  key: string;
+  request: ChatServiceFixtureRequest;
+  /** streamChat responses. */
+  chunks?: StreamChunk[];
+  /** chat and sideQuery responses. */
+  response?: ChatResponse;
+}
+
+export interface ChatServiceFixture {
+  version: 1;
+  entries: ChatServiceFixtureEntry[];
+}
+
+export interface ChatServiceFixtureOptions {
+  /** Fixture JSON file. */
+  path: string;
+  /**
+   * Rewrites each request before it is hashed and stored, e.g. to drop the
+   * date or absolute paths from the system prompt. Must be deterministic.
+   */
+  normalizeRequest?: (request: ChatServiceFixtureRequest) => ChatServiceFixtureRequest;
+}
+
+export interface RecordingChatServiceOptions extends ChatServiceFixtureOptions {
+  /** Factory for the service being recorded. Defaults to `createChatServiceAsync`. */
+  delegate?: ChatServiceFactory;
+}
+
+const FIXTURE_VERSION = 1;
+
+type ChatTools = Parameters<IChatService['chat']>[1];
+
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+    .join(',')}}`;
+}
+
+function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/** Hash of the canonical JSON form; object key order does not matter. */
+export function chatServiceRequestKey(request: ChatServiceFixtureRequest): string {
+  return createHash('sha256').update(canonicalJson(request)).digest('hex');
+}
+
+function buildRequest(
+  options: ChatServiceFixtureOptions,
+  method: ChatServiceFixtureMethod,
+  config: ChatConfig,
+  messages: readonly Message[],
+  tools?: ChatTools,
+  queryOptions?: SideQueryOptions,
+): ChatServiceFixtureRequest {
+  // Message ids and metadata are generated per run and never reach the provider.
+  const request: ChatServiceFixtureRequest = cloneJson({
+    method,
+    model: config.model,
+    messages: messages.map(({ id: _id, metadata: _metadata, ...message }) => message),
+    ...(tools?.length ? { tools } : {}),
+    ...(queryOptions ? { options: queryOptions } : {}),
+  });
+  return options.normalizeRequest ? options.normalizeRequest(request) : request;
+}
+
+async function writeFixture(path: string, fixture: ChatServiceFixture): Promise<void> {
+  const temporaryPath = `${path}.${nanoid()}.tmp`;
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    const file = await open(temporaryPath, 'w');
+    try {
+      await file.writeFile(`${JSON.stringify(fixture, null, 2)}\n`, 'utf8');
+    } finally {
+      await file.close();
+    }
+    await rename(temporaryPath, path);
+  } catch (error) {
+    await rm(temporaryPath, { force: true });
+    throw new ChatServiceFixtureError(
+      'CHAT_FIXTURE_WRITE_FAILED',
+      `Failed to write chat service fixture ${path}`,
+      { cause: error },
+    );
+  }
+}
+
+async function readFixture(path: string): Promise<ChatServiceFixture> {
+  let fixture: unknown;
+  try {
+    fixture = JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    throw new ChatServiceFixtureError(
+      'CHAT_FIXTURE_INVALID',
+      `Failed to read chat service fixture ${path}`,
+      { cause: error },
+    );
+  }
+  if (
+    typeof fixture !== 'object' ||
+    fixture === null ||
+    (fixture as ChatServiceFixture).version !== FIXTURE_VERSION ||
+    !Array.isArray((fixture as ChatServiceFixture).entries)
+  ) {
+    throw new ChatServiceFixtureError(
+      'CHAT_FIXTURE_INVALID',
+      `Chat service fixture ${path} is not a version ${FIXTURE_VERSION} fixture`,
+    );
+  }
+  return fixture as ChatServiceFixture;
+}
+
+/**
+ * Records every call made through services from this factory and rewrites
+ * the fixture after each response, so an aborted run still leaves the calls
+ * that completed. Failed or aborted calls are not recorded.
+ */
+export function createRecordingChatServiceFactory(
+  options: RecordingChatServiceOptions,
+): ChatServiceFactory {
+  const delegate = options.delegate ?? ((config: ChatConfig) => createChatServiceAsync(config));
+  const fixture: ChatServiceFixture = { version: FIXTURE_VERSION, entries: [] };
+  let writes: Promise<void> = Promise.resolve();
+
+  const record = (
+    request: ChatServiceFixtureRequest,
+    response: Pick<ChatServiceFixtureEntry, 'chunks' | 'response'>,
+  ): Promise<void> => {
+    fixture.entries.push({ key: chatServiceRequestKey(request), request, ...cloneJson(response) });
+    writes = writes.catch(() => {}).then(() => writeFixture(options.path, fixture));
+    return writes;
+  };
+
+  return async (config) => {
+    const service = await delegate(config);
+    const requestFor = (
+      method: ChatServiceFixtureMethod,
+      messages: readonly Message[],
+      tools?: ChatTools,
+      queryOptions?: SideQueryOptions,
+    ) => buildRequest(options, method, service.getConfig(), messages, tools, queryOptions);
+
+    const recording: IChatService = {
+      async chat(messages, tools, signal) {
+        const request = requestFor('chat', messages, tools);
+        const response = await service.chat(messages, tools, signal);
+        await record(request, { response });
+        return response;
+      },
+      async sideQuery(messages, signal, queryOptions) {
+        const request = requestFor('sideQuery', messages, undefined, queryOptions);
+        const response = await service.sideQuery(messages, signal, queryOptions);
+        await record(request, { response });
+        return response;
+      },
+      async *streamChat(messages, tools, signal) {
+        const request = requestFor('streamChat', messages, tools);
+        const chunks: StreamChunk[] = [];
+        let failed = false;
+        try {
+          for await (const chunk of service.streamChat(messages, tools, signal)) {
+            chunks.push(cloneJson(chunk));
+            yield chunk;
+          }
+        } catch (error) {
+          failed = true;
+          throw error;
+        } finally {
+          // The loop may stop reading at finishReason; that still counts as complete.
+          if (!failed && !signal?.aborted) {
+            await record(request, { chunks });
+          }
+        }
+      },
+      getConfig: () => service.getConfig(),
+      updateConfig: (newConfig) => service.updateConfig(newConfig),
+    };
+
+    const chatWithRetryEvents = service.chatWithRetryEvents?.bind(service);
+    if (chatWithRetryEvents) {
+      // Recorded as a plain chat call; playback serves it through chat().
+      recording.chatWithRetryEvents = async function* (messages, tools, signal) {
+        const request = requestFor('chat', messages, tools);
+        const response = yield* chatWithRetryEvents(messages, tools, signal);
+        await record(request, { response });
+        return response;
+      };
+    }
+    return recording;
+  };
+}
+
+/**
+ * Serves responses from a fixture written by `createRecordingChatServiceFactory`.
+ * Identical requests are answered in recorded order. A request with no
+ * remaining recording throws `ChatServiceFixtureError`
+ * (`CHAT_FIXTURE_UNMATCHED_REQUEST`) instead of reaching a provider.
+ */
+export function createPlaybackChatServiceFactory(
+  options: ChatServiceFixtureOptions,
+): ChatServiceFactory {
+  let queues: Promise<Map<string, ChatServiceFixtureEntry[]>> | undefined;
+  const loadQueues = () => {
+    queues ??= readFixture(options.path).then((fixture) => {
+      const byKey = new Map<string, ChatServiceFixtureEntry[]>();
+      for (const entry of fixture.entries) {
+        const queue = byKey.get(entry.key) ?? [];
+        queue.push(entry);
+        byKey.set(entry.key, queue);
+      }
+      return byKey;
+    });
+    return queues;
+  };
+
+  return async (initialConfig) => {
+    await loadQueues();
+    let config = { ...initialConfig };
+
+    const take = async (request: ChatServiceFixtureRequest): Promise<ChatServiceFixtureEntry> => {
+      const key = chatServiceRequestKey(request);
+      const entry = (await loadQueues()).get(key)?.shift();
+      if (!entry) {
+        throw new ChatServiceFixtureError(
+          'CHAT_FIXTURE_UNMATCHED_REQUEST',
+          `No recorded ${request.method} response for model ${request.model} ` +
+            `(request ${key}) in ${options.path}`,
+        );
+      }
+      return entry;
+    };
+    const respond = async (
+      method: 'chat' | 'sideQuery',
+      messages: readonly Message[],
+      signal?: AbortSignal,
+      tools?: ChatTools,
+      queryOptions?: SideQueryOptions,
+    ): Promise<ChatResponse> => {
+      signal?.throwIfAborted();
+      const entry = await take(
+        buildRequest(options, method, config, messages, tools, queryOptions),
+      );
+      return cloneJson(entry.response ?? { content: '' });
+    };
+
+    return {
+      chat: (messages, tools, signal) => respond('chat', messages, signal, tools),
+      sideQuery: (messages, signal, queryOptions) =>
+        respond('sideQuery', messages, signal, undefined, queryOptions),
+      async *streamChat(messages, tools, signal) {
+        signal?.throwIfAborted();
+        const entry = await take(buildRequest(options, 'streamChat', config, messages, tools));
+        for (const chunk of entry.chunks ?? []) {
+          signal?.throwIfAborted();
+          yield cloneJson(chunk);
+        }
+      },
+      getConfig: () => config,
+      updateConfig: (newConfig) => {
+        config = { ...config, ...newConfig };
+      },
+    };
+  };
+}
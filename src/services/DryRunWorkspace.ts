@@ -0,0 +1,556 @@
+/**
+ * Dry run 工作区
+ *
+ * 把项目目录复制到临时 scratch 目录：Session 的 cwd 与 filesystem roots 被替换为 scratch 路径，
+ * 文件工具通过 `fileSystem` 把项目内路径映射到 scratch，Bash 在只有 scratch 可写的沙箱中执行
+ * （没有可用沙箱时拒绝执行），命令中引用项目根目录的绝对路径也会被改写。项目目录本身保持不变，
+ * 宿主可以审阅 unified diff 形式的改动集，再全部或部分写回（`apply`），或丢弃（`discard`）。
+ */
+
+import { type Stats, promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { ConfigError } from '../errors/ConfigError.js';
+import { SdkError } from '../errors/SdkError.js';
+import type { RuntimeContext } from '../runtime/RuntimeContext.js';
+import { createUnifiedDiff } from '../tools/builtin/file/diffUtils.js';
+import {
+  type FileStat,
+  type FileSystemEntry,
+  type FileSystemService,
+  LocalFileSystemService,
+} from './FileSystemService.js';
+import { createFileSystemError } from './InMemoryFileSystemService.js';
+
+/** 改动集只比较工作区内容，不包含版本库元数据 */
+const IGNORED_NAMES = new Set(['.git']);
+const DEFAULT_EXCLUDE = ['.git', 'node_modules'];
+const BINARY_SNIFF_BYTES = 8000;
+
+export interface DryRunWorkspaceOptions {
+  /** 项目根目录 */
+  root: string;
+  /** scratch 副本的父目录，默认系统临时目录；不能位于 root 内 */
+  scratchParent?: string;
+  /**
+   * 不复制到 scratch 的文件或目录名（任意层级），默认 `.git` 与 `node_modules`；
+   * 这些路径不计入改动集。传入 `[]` 复制全部文件，Git 工具需要副本中包含 `.git`。
+   */
+  exclude?: string[];
+  /**
+   * 不复制、只在 scratch 中创建指向项目目录的符号链接的目录名（任意层级），默认不链接任何目录。
+   * 这些目录不计入改动集，并且只读：沙箱中的 Bash 无法写入项目目录，文件工具拒绝经由链接写入。
+   * 适合只需读取的大目录（例如 `node_modules`）；同时出现在 `exclude` 中时以链接为准。
+   */
+  linkedDirectories?: string[];
+}
+
+/**
+ * 改动集中的单个文件
+ */
+export interface DryRunChange {
+  /** 项目目录中的绝对路径 */
+  path: string;
+  /** 相对项目根目录的路径（使用 / 分隔） */
+  relativePath: string;
+  type: 'created' | 'modified' | 'deleted';
+  binary: boolean;
+  /** 项目目录中的该文件在 dry run 开始后被其他程序改动过；`apply()` 会拒绝写回 */
+  conflict: boolean;
+  /** 该文件的 unified diff；二进制文件为 git 风格的 "Binary files ... differ" 提示 */
+  diff: string;
+}
+
+/**
+ * dry run 期间累积的改动
+ */
+export interface DryRunChangeset {
+  root: string;
+  changes: DryRunChange[];
+  /** 所有文本改动拼接成的 patch，可用 `git apply` 应用 */
+  patch: string;
+}
+
+function relativeInside(root: string, target: string): string | undefined {
+  const relative = path.relative(root, target);
+  if (relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative))) {
+    return relative;
+  }
+  return undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function isBinary(data: Buffer): boolean {
+  return data.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/** 用大小与修改时间标识文件内容 */
+interface FileState {
+  size: number;
+  mtimeMs: number;
+}
+
+function toState(stats: Stats): FileState {
+  return { size: stats.size, mtimeMs: stats.mtimeMs };
+}
+
+function sameState(a: FileState | undefined, b: FileState | undefined): boolean {
+  return a === undefined || b === undefined
+    ? a === b
+    : a.size === b.size && a.mtimeMs === b.mtimeMs;
+}
+
+export class DryRunWorkspace {
+  /** 文件工具使用的文件系统：项目内路径读写 scratch 副本，项目外路径只读 */
+  readonly fileSystem: FileSystemService;
+  private readonly exclude: Set<string>;
+  private readonly linkedDirectories: Set<string>;
+  /** 复制（以及写回、丢弃）时项目目录中各文件的状态，按相对路径索引，用来发现外部改动 */
+  private readonly originalStates = new Map<string, FileState>();
+  /** 同一时刻 scratch 副本中各文件的状态；复制保留的时间戳有精度损失，不能直接与项目目录比较 */
+  private readonly copyStates = new Map<string, FileState>();
+  /** 匹配命令文本中完整出现的项目根目录（前后不能紧邻其他路径字符） */
+  private readonly rootPattern: RegExp;
+  private disposed = false;
+
+  private constructor(
+    readonly root: string,
+    readonly scratchPath: string,
+    exclude: string[],
+    linkedDirectories: string[],
+  ) {
+    this.exclude = new Set(exclude);
+    this.linkedDirectories = new Set(linkedDirectories);
+    this.rootPattern = new RegExp(`(?<![\\w.\\-/])${escapeRegExp(root)}(?![\\w.\\-])`, 'g');
+    this.fileSystem = new DryRunFileSystemService(this);
+  }
+
+  /**
+   * 创建 scratch 副本（保留时间戳，便于快速比较）
+   */
+  static async create(options: DryRunWorkspaceOptions): Promise<DryRunWorkspace> {
+    const root = await fs.realpath(path.resolve(options.root));
+    const scratchParent = await fs.realpath(path.resolve(options.scratchParent ?? tmpdir()));
+    if (relativeInside(root, scratchParent) !== undefined) {
+      throw new ConfigError(`Dry run scratch directory must be outside the project root: ${root}`);
+    }
+
+    const scratchPath = await fs.mkdtemp(path.join(scratchParent, 'blade-dry-run-'));
+    const workspace = new DryRunWorkspace(
+      root,
+      scratchPath,
+      options.exclude ?? DEFAULT_EXCLUDE,
+      options.linkedDirectories ?? [],
+    );
+
+    const links: string[] = [];
+    try {
+      await fs.cp(root, scratchPath, {
+        recursive: true,
+        preserveTimestamps: true,
+        verbatimSymlinks: true,
+        filter: async (source) => {
+          if (source === root) {
+            return true;
+          }
+          const name = path.basename(source);
+          const stats = await fs.lstat(source);
+          if (workspace.linkedDirectories.has(name) && stats.isDirectory()) {
+            links.push(source);
+            return false;
+          }
+          if (workspace.exclude.has(name)) {
+            return false;
+          }
+          // 在复制该文件之前记录状态，复制期间发生的外部改动也会被视为冲突
+          if (stats.isFile()) {
+            const relativePath = path.relative(root, source).split(path.sep).join('/');
+            workspace.originalStates.set(relativePath, toState(stats));
+          }
+          return true;
+        },
+      });
+      for (const source of links) {
+        await fs.symlink(source, workspace.toScratchPath(source), 'dir');
+      }
+      await workspace.recordStates(workspace.copyStates, scratchPath, '');
+    } catch (error) {
+      await fs.rm(scratchPath, { recursive: true, force: true });
+      throw error;
+    }
+    return workspace;
+  }
+
+  /**
+   * 该名称的文件或目录是否复制到了 scratch 副本（被排除或改为链接时为 false）
+   */
+  isCopied(name: string): boolean {
+    return !this.exclude.has(name) && !this.linkedDirectories.has(name);
+  }
+
+  /**
+   * 把项目目录内的路径映射到 scratch 副本；其他路径原样返回
+   */
+  toScratchPath(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    const relative = relativeInside(this.root, resolved);
+    return relative === undefined ? resolved : path.join(this.scratchPath, relative);
+  }
+
+  /**
+   * 把 scratch 副本内的路径映射回项目目录；其他路径原样返回
+   */
+  toOriginalPath(filePath: string): string {
+    const resolved = path.resolve(filePath);
+    const relative = relativeInside(this.scratchPath, resolved);
+    return relative === undefined ? resolved : path.join(this.root, relative);
+  }
+
+  /**
+   * 把命令文本中引用项目根目录的绝对路径改写为 scratch 路径，
+   * 使 `cd /repo && ...`、`echo x > /repo/file` 之类的命令同样落在副本中。
+   * 这只是便利改写，不是隔离手段：隔离由沙箱保证。
+   */
+  toScratchCommand(command: string): string {
+    return command.replace(this.rootPattern, () => this.scratchPath);
+  }
+
+  /**
+   * 把运行时上下文中的 cwd 与 filesystem roots 映射到 scratch 副本；未声明 cwd 时使用 scratch 根目录。
+   * 模型、系统提示词和 Bash 只会看到 scratch 路径。
+   */
+  scopeContext(context: RuntimeContext): RuntimeContext {
+    const filesystem = context.capabilities?.filesystem;
+    return {
+      ...context,
+      capabilities: {
+        ...context.capabilities,
+        filesystem: {
+          ...filesystem,
+          roots: (filesystem?.roots ?? []).map((root) => this.toScratchPath(root)),
+          cwd: filesystem?.cwd ? this.toScratchPath(filesystem.cwd) : this.scratchPath,
+        },
+      },
+    };
+  }
+
+  /**
+   * 找出 scratch 副本中相对复制时发生变化的文件，与项目目录的当前内容比较生成改动集；
+   * 项目目录中的外部改动不计入，但会把对应改动标记为 `conflict`
+   */
+  async getChangeset(): Promise<DryRunChangeset> {
+    this.assertActive();
+    const changes: DryRunChange[] = [];
+    for (const relativePath of await this.collectChangedPaths('')) {
+      const change = await this.describeChange(relativePath);
+      if (change) {
+        changes.push(change);
+      }
+    }
+    return {
+      root: this.root,
+      changes,
+      patch: changes.map((change) => change.diff).join(''),
+    };
+  }
+
+  /**
+   * 把改动写回项目目录
+   *
+   * @param paths 只写回这些文件（项目内绝对路径、scratch 路径或相对路径）；省略时写回全部
+   * @returns 实际写回的改动
+   * @throws SdkError(`DRY_RUN_CONFLICT`) 选中的文件在项目目录中已被外部改动；此时不写回任何文件
+   */
+  async apply(paths?: string[]): Promise<DryRunChange[]> {
+    const changes = await this.selectChanges(paths);
+    const conflicts = changes.filter((change) => change.conflict);
+    if (conflicts.length > 0) {
+      throw new SdkError(
+        'DRY_RUN_CONFLICT',
+        `Project files changed since the dry run started: ${conflicts
+          .map((change) => change.relativePath)
+          .join(', ')}. Discard these changes or leave them out of apply().`,
+      );
+    }
+    for (const change of changes) {
+      const scratchFile = path.join(this.scratchPath, change.relativePath);
+      if (change.type === 'deleted') {
+        await fs.rm(change.path, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(change.path), { recursive: true });
+        await fs.cp(scratchFile, change.path, { preserveTimestamps: true });
+      }
+      await this.recordStates(this.originalStates, this.root, change.relativePath);
+      await this.recordStates(this.copyStates, this.scratchPath, change.relativePath);
+    }
+    return changes;
+  }
+
+  /**
+   * 丢弃改动，把 scratch 副本恢复为项目目录中的内容
+   *
+   * @param paths 只恢复这些文件；省略时恢复全部
+   * @returns 被丢弃的改动
+   */
+  async discard(paths?: string[]): Promise<DryRunChange[]> {
+    const changes = await this.selectChanges(paths);
+    for (const change of changes) {
+      const scratchFile = path.join(this.scratchPath, change.relativePath);
+      if (change.type === 'created') {
+        await fs.rm(scratchFile, { force: true });
+      } else {
+        await fs.mkdir(path.dirname(scratchFile), { recursive: true });
+        await fs.cp(change.path, scratchFile, { preserveTimestamps: true });
+      }
+      await this.recordStates(this.originalStates, this.root, change.relativePath);
+      await this.recordStates(this.copyStates, this.scratchPath, change.relativePath);
+    }
+    return changes;
+  }
+
+  /**
+   * 删除 scratch 副本；之后工作区不可再用
+   */
+  async dispose(): Promise<void> {
+    if (this.disposed) return;
+    this.disposed = true;
+    await fs.rm(this.scratchPath, { recursive: true, force: true });
+  }
+
+  private assertActive(): void {
+    if (this.disposed) {
+      throw new Error('Dry run workspace has been disposed');
+    }
+  }
+
+  private async selectChanges(paths?: string[]): Promise<DryRunChange[]> {
+    const { changes } = await this.getChangeset();
+    if (!paths) {
+      return changes;
+    }
+    const selected = new Set(
+      paths.map((item) =>
+        this.toOriginalPath(path.isAbsolute(item) ? item : path.join(this.root, item)),
+      ),
+    );
+    return changes.filter((change) => selected.has(change.path));
+  }
+
+  /**
+   * 把 `source` 目录中文件的当前状态记入 `states`；`relativePath` 为目录时递归记录
+   */
+  private async recordStates(
+    states: Map<string, FileState>,
+    source: string,
+    relativePath: string,
+  ): Promise<void> {
+    const filePath = path.join(source, relativePath);
+    const stats = await lstatIfExists(filePath);
+    if (stats?.isDirectory()) {
+      for (const [name, entry] of await this.listEntries(filePath)) {
+        const child = relativePath ? `${relativePath}/${name}` : name;
+        if (entry.isDirectory()) {
+          await this.recordStates(states, source, child);
+        } else {
+          states.set(child, toState(entry));
+        }
+      }
+    } else if (stats?.isFile()) {
+      states.set(relativePath, toState(stats));
+    } else {
+      states.delete(relativePath);
+    }
+  }
+
+  /**
+   * 并行遍历两棵目录树，返回 scratch 中相对基准可能变化的文件（相对路径，已排序）
+   */
+  private async collectChangedPaths(relativeDir: string): Promise<string[]> {
+    const [original, scratch] = await Promise.all([
+      this.listEntries(path.join(this.root, relativeDir)),
+      this.listEntries(path.join(this.scratchPath, relativeDir)),
+    ]);
+    const names = [...new Set([...original.keys(), ...scratch.keys()])].sort();
+
+    const changed: string[] = [];
+    for (const name of names) {
+      const relativePath = relativeDir ? `${relativeDir}/${name}` : name;
+      const before = original.get(name);
+      const after = scratch.get(name);
+      const scratchFile = after?.isDirectory() ? undefined : after;
+
+      if (!sameState(scratchFile, this.copyStates.get(relativePath))) {
+        changed.push(relativePath);
+      }
+      if (before?.isDirectory() || after?.isDirectory()) {
+        changed.push(...(await this.collectChangedPaths(relativePath)));
+      }
+    }
+    return changed;
+  }
+
+  private async listEntries(dirPath: string): Promise<Map<string, Stats>> {
+    const entries = new Map<string, Stats>();
+    let names: string[];
+    try {
+      names = await fs.readdir(dirPath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'ENOTDIR') {
+        return entries;
+      }
+      throw error;
+    }
+
+    for (const name of names) {
+      if (IGNORED_NAMES.has(name) || this.exclude.has(name) || this.linkedDirectories.has(name)) {
+        continue;
+      }
+      const stats = await fs.lstat(path.join(dirPath, name));
+      if (stats.isFile() || stats.isDirectory()) {
+        entries.set(name, stats);
+      }
+    }
+    return entries;
+  }
+
+  private async describeChange(relativePath: string): Promise<DryRunChange | null> {
+    const originalPath = path.join(this.root, relativePath);
+    const [before, after, current] = await Promise.all([
+      readFileIfRegular(originalPath),
+      readFileIfRegular(path.join(this.scratchPath, relativePath)),
+      lstatIfExists(originalPath),
+    ]);
+    if (before === null && after === null) {
+      return null;
+    }
+    if (before && after?.equals(before)) {
+      return null;
+    }
+
+    const type = before === null ? 'created' : after === null ? 'deleted' : 'modified';
+    const binary = (before !== null && isBinary(before)) || (after !== null && isBinary(after));
+    const diff = binary
+      ? `Binary files ${before === null ? '/dev/null' : `a/${relativePath}`} and ${
+          after === null ? '/dev/null' : `b/${relativePath}`
+        } differ\n`
+      : createUnifiedDiff(
+          relativePath,
+          before?.toString('utf-8') ?? null,
+          after?.toString('utf-8') ?? null,
+        );
+
+    const conflict = !sameState(
+      current?.isFile() ? current : undefined,
+      this.originalStates.get(relativePath),
+    );
+    return { path: originalPath, relativePath, type, binary, conflict, diff };
+  }
+}
+
+async function lstatIfExists(filePath: string): Promise<Stats | null> {
+  try {
+    return await fs.lstat(filePath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readFileIfRegular(filePath: string): Promise<Buffer | null> {
+  try {
+    return (await fs.lstat(filePath)).isFile() ? await fs.readFile(filePath) : null;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'ENOTDIR') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * dry run 期间文件工具使用的文件系统
+ *
+ * 项目目录内的路径（以及 Bash 输出中出现的 scratch 路径）读写 scratch 副本；
+ * 项目外的路径可以读取，但拒绝写入。写入前按真实路径检查，经由符号链接（包括 `linkedDirectories`）
+ * 指向 scratch 之外的写入同样拒绝。
+ */
+class DryRunFileSystemService implements FileSystemService {
+  private readonly local = new LocalFileSystemService();
+
+  constructor(private readonly workspace: DryRunWorkspace) {}
+
+  readTextFile(filePath: string): Promise<string> {
+    return this.local.readTextFile(this.workspace.toScratchPath(filePath));
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    await this.local.writeTextFile(await this.writablePath(filePath, 'open'), content);
+  }
+
+  exists(filePath: string): Promise<boolean> {
+    return this.local.exists(this.workspace.toScratchPath(filePath));
+  }
+
+  readBinaryFile(filePath: string): Promise<Buffer> {
+    return this.local.readBinaryFile(this.workspace.toScratchPath(filePath));
+  }
+
+  async writeBinaryFile(filePath: string, data: Uint8Array): Promise<void> {
+    await this.local.writeBinaryFile(await this.writablePath(filePath, 'open'), data);
+  }
+
+  stat(filePath: string): Promise<FileStat | null> {
+    return this.local.stat(this.workspace.toScratchPath(filePath));
+  }
+
+  async mkdir(dirPath: string, options?: { recursive?: boolean; mode?: number }): Promise<void> {
+    await this.local.mkdir(await this.writablePath(dirPath, 'mkdir'), options);
+  }
+
+  readDirectory(dirPath: string): Promise<FileSystemEntry[]> {
+    return this.local.readDirectory(this.workspace.toScratchPath(dirPath));
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    await this.local.deleteFile(await this.writablePath(filePath, 'unlink'));
+  }
+
+  private async writablePath(filePath: string, syscall: string): Promise<string> {
+    const scratchFile = this.workspace.toScratchPath(filePath);
+    const target = await resolveRealPath(scratchFile);
+    if (relativeInside(this.workspace.scratchPath, target) === undefined) {
+      throw createFileSystemError('EACCES', syscall, path.resolve(filePath));
+    }
+    return scratchFile;
+  }
+}
+
+/**
+ * 解析路径中的符号链接；路径尚不存在时解析最近的已存在上级目录，悬空链接按其目标解析
+ */
+async function resolveRealPath(target: string): Promise<string> {
+  try {
+    return await fs.realpath(target);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== 'ENOENT' && code !== 'ENOTDIR') {
+      throw error;
+    }
+  }
+  const parent = path.dirname(target);
+  if ((await lstatIfExists(target))?.isSymbolicLink()) {
+    return resolveRealPath(path.resolve(parent, await fs.readlink(target)));
+  }
+  if (parent === target) {
+    return target;
+  }
+  return path.join(await resolveRealPath(parent), path.basename(target));
+}
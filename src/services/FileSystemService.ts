@@ -2,6 +2,7 @@
  * 文件系统服务
  *
  * 抽象文件操作，工具层统一通过此接口访问文件系统。
+ * Session 可以通过 `SessionOptions.fileSystem` 注入自定义实现（内存、overlay、远程等）。
  */
 
 import * as fs from 'node:fs/promises';
@@ -9,15 +10,27 @@ import * as fs from 'node:fs/promises';
 /**
  * 文件统计信息
  */
-interface FileStat {
+export interface FileStat {
   size: number;
   isDirectory: boolean;
   isFile: boolean;
   mtime: Date;
 }
 
+/**
+ * 目录项
+ */
+export interface FileSystemEntry {
+  name: string;
+  isDirectory: boolean;
+  isFile: boolean;
+}
+
 /**
  * 文件系统服务接口
+ *
+ * 路径均为绝对路径。读取不存在的文件时应抛出带 `code: 'ENOENT'` 的错误，
+ * `stat` 对不存在的路径返回 null。
  */
 export interface FileSystemService {
   // 基础操作
@@ -27,14 +40,17 @@ export interface FileSystemService {
 
   // 扩展操作
   readBinaryFile(filePath: string): Promise<Buffer>;
+  writeBinaryFile(filePath: string, data: Uint8Array): Promise<void>;
   stat(filePath: string): Promise<FileStat | null>;
   mkdir(dirPath: string, options?: { recursive?: boolean; mode?: number }): Promise<void>;
+  readDirectory(dirPath: string): Promise<FileSystemEntry[]>;
+  deleteFile(filePath: string): Promise<void>;
 }
 
 /**
  * 本地文件系统服务（默认实现）
  */
-class LocalFileSystemService implements FileSystemService {
+export class LocalFileSystemService implements FileSystemService {
   async readTextFile(filePath: string): Promise<string> {
     return fs.readFile(filePath, 'utf-8');
   }
@@ -56,6 +72,10 @@ class LocalFileSystemService implements FileSystemService {
     return fs.readFile(filePath);
   }
 
+  async writeBinaryFile(filePath: string, data: Uint8Array): Promise<void> {
+    await fs.writeFile(filePath, data);
+  }
+
   async stat(filePath: string): Promise<FileStat | null> {
     try {
       const stats = await fs.stat(filePath);
@@ -76,21 +96,45 @@ class LocalFileSystemService implements FileSystemService {
       mode: options?.mode ?? 0o755
     });
   }
+
+  async readDirectory(dirPath: string): Promise<FileSystemEntry[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.map((entry) => ({
+      name: entry.name,
+      isDirectory: entry.isDirectory(),
+      isFile: entry.isFile(),
+    }));
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    await fs.unlink(filePath);
+  }
 }
 
 // ==================== 服务获取 ====================
 
 /**
- * 当前活跃的文件系统服务
- * 默认使用本地文件系统
+ * 默认的文件系统服务
+ * 未注入自定义实现时使用本地文件系统
  */
-const currentFileSystemService: FileSystemService = new LocalFileSystemService();
+const defaultFileSystemService: FileSystemService = new LocalFileSystemService();
 
 /**
  * 获取文件系统服务
  *
- * 返回当前活跃的文件系统服务实例。
+ * 优先返回执行上下文中 Session 注入的实现（`bladeConfig.fileSystem`），否则返回本地文件系统。
+ */
+export function getFileSystemService(
+  context?: { bladeConfig?: { fileSystem?: FileSystemService } },
+): FileSystemService {
+  return context?.bladeConfig?.fileSystem ?? defaultFileSystemService;
+}
+
+/**
+ * 是否直接操作本地磁盘
+ *
+ * 为 false 时 Glob / Grep 不能调用 ripgrep 等外部命令，需通过服务接口遍历文件。
  */
-export function getFileSystemService(): FileSystemService {
-  return currentFileSystemService;
+export function isLocalFileSystem(service: FileSystemService): boolean {
+  return service instanceof LocalFileSystemService;
 }
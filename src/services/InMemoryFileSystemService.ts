@@ -0,0 +1,175 @@
+/**
+ * 内存文件系统服务
+ *
+ * 完全在内存中保存文件和目录，适合测试、沙盒演示和不允许触碰磁盘的宿主。
+ */
+
+import * as path from 'node:path';
+import type { FileStat, FileSystemEntry, FileSystemService } from './FileSystemService.js';
+
+type MemoryNode =
+  | { kind: 'file'; data: Buffer; mtime: Date }
+  | { kind: 'directory'; mtime: Date };
+
+/**
+ * 构造与 Node fs 一致的错误（带 code），工具层据此判断 ENOENT 等情况
+ */
+export function createFileSystemError(code: string, syscall: string, filePath: string): Error {
+  const messages: Record<string, string> = {
+    ENOENT: 'no such file or directory',
+    EEXIST: 'file already exists',
+    EISDIR: 'illegal operation on a directory',
+    ENOTDIR: 'not a directory',
+    EACCES: 'permission denied',
+  };
+  return Object.assign(
+    new Error(`${code}: ${messages[code] ?? 'file system error'}, ${syscall} '${filePath}'`),
+    { code, syscall, path: filePath },
+  );
+}
+
+export class InMemoryFileSystemService implements FileSystemService {
+  private readonly nodes = new Map<string, MemoryNode>();
+
+  /**
+   * @param files 初始文件，键为绝对路径；父目录会自动创建
+   */
+  constructor(files: Record<string, string | Uint8Array> = {}) {
+    this.nodes.set(path.parse(process.cwd()).root, { kind: 'directory', mtime: new Date() });
+    for (const [filePath, content] of Object.entries(files)) {
+      const resolved = path.resolve(filePath);
+      this.createDirectories(path.dirname(resolved));
+      this.nodes.set(resolved, {
+        kind: 'file',
+        data: Buffer.from(content),
+        mtime: new Date(),
+      });
+    }
+  }
+
+  async readTextFile(filePath: string): Promise<string> {
+    return (await this.readBinaryFile(filePath)).toString('utf-8');
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    await this.writeBinaryFile(filePath, Buffer.from(content, 'utf-8'));
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.nodes.has(path.resolve(filePath));
+  }
+
+  async readBinaryFile(filePath: string): Promise<Buffer> {
+    const resolved = path.resolve(filePath);
+    const node = this.nodes.get(resolved);
+    if (!node) {
+      throw createFileSystemError('ENOENT', 'open', resolved);
+    }
+    if (node.kind === 'directory') {
+      throw createFileSystemError('EISDIR', 'read', resolved);
+    }
+    return Buffer.from(node.data);
+  }
+
+  async writeBinaryFile(filePath: string, data: Uint8Array): Promise<void> {
+    const resolved = path.resolve(filePath);
+    const parent = this.nodes.get(path.dirname(resolved));
+    if (!parent) {
+      throw createFileSystemError('ENOENT', 'open', resolved);
+    }
+    if (parent.kind !== 'directory') {
+      throw createFileSystemError('ENOTDIR', 'open', resolved);
+    }
+    if (this.nodes.get(resolved)?.kind === 'directory') {
+      throw createFileSystemError('EISDIR', 'open', resolved);
+    }
+    this.nodes.set(resolved, { kind: 'file', data: Buffer.from(data), mtime: new Date() });
+  }
+
+  async stat(filePath: string): Promise<FileStat | null> {
+    const node = this.nodes.get(path.resolve(filePath));
+    if (!node) {
+      return null;
+    }
+    return {
+      size: node.kind === 'file' ? node.data.length : 0,
+      isDirectory: node.kind === 'directory',
+      isFile: node.kind === 'file',
+      mtime: node.mtime,
+    };
+  }
+
+  async mkdir(dirPath: string, options?: { recursive?: boolean; mode?: number }): Promise<void> {
+    const resolved = path.resolve(dirPath);
+    const existing = this.nodes.get(resolved);
+    if (existing) {
+      if (existing.kind === 'directory' && options?.recursive) {
+        return;
+      }
+      throw createFileSystemError('EEXIST', 'mkdir', resolved);
+    }
+    if (options?.recursive) {
+      this.createDirectories(resolved);
+      return;
+    }
+    if (this.nodes.get(path.dirname(resolved))?.kind !== 'directory') {
+      throw createFileSystemError('ENOENT', 'mkdir', resolved);
+    }
+    this.nodes.set(resolved, { kind: 'directory', mtime: new Date() });
+  }
+
+  async readDirectory(dirPath: string): Promise<FileSystemEntry[]> {
+    const resolved = path.resolve(dirPath);
+    const node = this.nodes.get(resolved);
+    if (!node) {
+      throw createFileSystemError('ENOENT', 'scandir', resolved);
+    }
+    if (node.kind !== 'directory') {
+      throw createFileSystemError('ENOTDIR', 'scandir', resolved);
+    }
+
+    const entries: FileSystemEntry[] = [];
+    for (const [nodePath, child] of this.nodes) {
+      if (nodePath !== resolved && path.dirname(nodePath) === resolved) {
+        entries.push({
+          name: path.basename(nodePath),
+          isDirectory: child.kind === 'directory',
+          isFile: child.kind === 'file',
+        });
+      }
+    }
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const resolved = path.resolve(filePath);
+    const node = this.nodes.get(resolved);
+    if (!node) {
+      throw createFileSystemError('ENOENT', 'unlink', resolved);
+    }
+    if (node.kind === 'directory') {
+      throw createFileSystemError('EISDIR', 'unlink', resolved);
+    }
+    this.nodes.delete(resolved);
+  }
+
+  private createDirectories(dirPath: string): void {
+    const missing: string[] = [];
+    let current = dirPath;
+    while (!this.nodes.has(current)) {
+      missing.unshift(current);
+      const parent = path.dirname(current);
+      if (parent === current) {
+        break;
+      }
+      current = parent;
+    }
+
+    for (const dir of missing) {
+      if (this.nodes.get(path.dirname(dir))?.kind === 'file') {
+        throw createFileSystemError('ENOTDIR', 'mkdir', dir);
+      }
+      this.nodes.set(dir, { kind: 'directory', mtime: new Date() });
+    }
+  }
+}
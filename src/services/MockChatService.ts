@@ -0,0 +1,174 @@
+/**
+ * Mock ChatService — 按脚本应答的模型服务
+ *
+ * 通过 `provider: { type: 'mock', script }` 启用，用于在真实 Session 中测试
+ * 工具、hooks、权限处理器与循环决策，而无需手写 IChatService：
+ * - steps 按调用顺序逐个应答主循环的 chat / streamChat
+ * - steps 用完后由第一个匹配的 rule 应答
+ * - 不满足 expect 或没有可用应答时抛出 MockModelScriptError
+ */
+
+import { SdkError } from '../errors/SdkError.js';
+import type { JsonObject } from '../types/common.js';
+import type {
+  ChatConfig,
+  ChatResponse,
+  ChatServiceFactory,
+  IChatService,
+  Message,
+  StreamChunk,
+  ToolCall,
+  UsageInfo,
+} from './ChatServiceInterface.js';
+
+export type MockModelScriptErrorCode = 'MOCK_SCRIPT_MISMATCH' | 'MOCK_SCRIPT_EXHAUSTED';
+
+export class MockModelScriptError extends SdkError {}
+
+/**
+ * Matches an incoming request. A string or RegExp is tested against the text
+ * of the last message; a function receives every message.
+ */
+export type MockMessageMatcher = string | RegExp | ((messages: readonly Message[]) => boolean);
+
+export interface MockToolCall {
+  name: string;
+  input: JsonObject;
+  /** Defaults to `mock-call-<n>`, numbered across the Session. */
+  id?: string;
+}
+
+export interface MockModelStep {
+  /** Fails the call with `MOCK_SCRIPT_MISMATCH` when the request does not match. */
+  expect?: MockMessageMatcher;
+  text?: string;
+  reasoning?: string;
+  toolCalls?: MockToolCall[];
+  /** Defaults to `tool_calls` when `toolCalls` is set, otherwise `stop`. */
+  finishReason?: string;
+  usage?: UsageInfo;
+  /** Throws an Error with this message instead of answering, like a provider failure. */
+  error?: string;
+}
+
+export interface MockModelRule extends Omit<MockModelStep, 'expect'> {
+  when: MockMessageMatcher;
+}
+
+export interface MockModelScript {
+  /** Answers main-loop model calls in order; step N answers the Nth call. */
+  steps?: MockModelStep[];
+  /** Answer calls after the steps run out; the first matching rule wins and may repeat. */
+  rules?: MockModelRule[];
+  /** Answers `sideQuery` calls such as compaction summaries. */
+  sideQuery?: string;
+}
+
+function messageText(message: Message | undefined): string {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n');
+}
+
+function matches(matcher: MockMessageMatcher, messages: readonly Message[]): boolean {
+  if (typeof matcher === 'function') return matcher(messages);
+  const text = messageText(messages.at(-1));
+  return typeof matcher === 'string' ? text.includes(matcher) : matcher.test(text);
+}
+
+function describeMatcher(matcher: MockMessageMatcher): string {
+  if (typeof matcher === 'function') return 'a custom matcher';
+  return typeof matcher === 'string' ? JSON.stringify(matcher) : String(matcher);
+}
+
+/**
+ * Builds a factory whose services share one script cursor, so model switches
+ * and subagents consume the same Session-wide sequence.
+ */
+export function createMockChatServiceFactory(script: MockModelScript): ChatServiceFactory {
+  let calls = 0;
+  let nextStep = 0;
+  let nextToolCallId = 0;
+
+  const answer = (
+    messages: readonly Message[],
+  ): { response: ChatResponse; finishReason: string } => {
+    const call = ++calls;
+    let step: Omit<MockModelStep, 'expect'> | undefined;
+    const scripted = script.steps?.[nextStep];
+    if (scripted) {
+      nextStep++;
+      if (scripted.expect && !matches(scripted.expect, messages)) {
+        throw new MockModelScriptError(
+          'MOCK_SCRIPT_MISMATCH',
+          `Mock model step ${nextStep} expected ${describeMatcher(scripted.expect)}, ` +
+            `got ${JSON.stringify(messageText(messages.at(-1)))}`,
+        );
+      }
+      step = scripted;
+    } else {
+      step = script.rules?.find((rule) => matches(rule.when, messages));
+    }
+    if (!step) {
+      throw new MockModelScriptError(
+        'MOCK_SCRIPT_EXHAUSTED',
+        `Mock model script has no step or rule for call ${call}: ` +
+          JSON.stringify(messageText(messages.at(-1))),
+      );
+    }
+    if (step.error !== undefined) {
+      throw new Error(step.error);
+    }
+    const toolCalls: ToolCall[] | undefined = step.toolCalls?.map((toolCall) => ({
+      id: toolCall.id ?? `mock-call-${++nextToolCallId}`,
+      type: 'function',
+      function: { name: toolCall.name, arguments: JSON.stringify(toolCall.input) },
+    }));
+    return {
+      response: {
+        content: step.text ?? '',
+        ...(step.reasoning ? { reasoningContent: step.reasoning } : {}),
+        ...(toolCalls?.length ? { toolCalls } : {}),
+        ...(step.usage ? { usage: step.usage } : {}),
+      },
+      finishReason: step.finishReason ?? (toolCalls?.length ? 'tool_calls' : 'stop'),
+    };
+  };
+
+  return async (initialConfig) => {
+    let config: ChatConfig = { ...initialConfig };
+    const service: IChatService = {
+      chat: async (messages) => answer(messages).response,
+      sideQuery: async (messages) => {
+        if (script.sideQuery === undefined) {
+          throw new MockModelScriptError(
+            'MOCK_SCRIPT_EXHAUSTED',
+            `Mock model script has no sideQuery response: ${JSON.stringify(messageText(messages.at(-1)))}`,
+          );
+        }
+        return { content: script.sideQuery };
+      },
+      async *streamChat(messages) {
+        const { response, finishReason } = answer(messages);
+        const chunks: StreamChunk[] = [];
+        if (response.reasoningContent) chunks.push({ reasoningContent: response.reasoningContent });
+        if (response.content) chunks.push({ content: response.content });
+        if (response.toolCalls) {
+          chunks.push({
+            toolCalls: response.toolCalls.map((toolCall, index) => ({ index, ...toolCall })),
+          });
+        }
+        chunks.push({ finishReason, ...(response.usage ? { usage: response.usage } : {}) });
+        yield* chunks;
+      },
+      getConfig: () => config,
+      updateConfig: (newConfig) => {
+        config = { ...config, ...newConfig };
+      },
+    };
+    return service;
+  };
+}
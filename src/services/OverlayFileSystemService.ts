@@ -0,0 +1,235 @@
+/**
+ * Copy-on-write overlay 文件系统服务
+ *
+ * 读取透传到底层文件系统，写入只落在内存层。调用方可以先用 `getChanges()` 审阅改动，
+ * 再通过 `flush()` 写回底层，或用 `discard()` 丢弃。
+ */
+
+import * as path from 'node:path';
+import {
+  type FileStat,
+  type FileSystemEntry,
+  type FileSystemService,
+  LocalFileSystemService,
+} from './FileSystemService.js';
+import { createFileSystemError } from './InMemoryFileSystemService.js';
+
+/**
+ * overlay 中记录的一次文件改动
+ */
+export interface FileSystemChange {
+  path: string;
+  type: 'created' | 'modified' | 'deleted';
+  /** overlay 中的新内容（删除时为 undefined） */
+  content?: Buffer;
+  /** 底层文件系统中的原内容（新建文件时为 undefined） */
+  originalContent?: Buffer;
+}
+
+interface OverlayFile {
+  data: Buffer;
+  mtime: Date;
+}
+
+export class OverlayFileSystemService implements FileSystemService {
+  private readonly files = new Map<string, OverlayFile>();
+  private readonly directories = new Map<string, Date>();
+  /** 在 overlay 中删除、但底层仍存在的文件 */
+  private readonly deleted = new Set<string>();
+
+  constructor(private readonly base: FileSystemService = new LocalFileSystemService()) {}
+
+  async readTextFile(filePath: string): Promise<string> {
+    return (await this.readBinaryFile(filePath)).toString('utf-8');
+  }
+
+  async writeTextFile(filePath: string, content: string): Promise<void> {
+    await this.writeBinaryFile(filePath, Buffer.from(content, 'utf-8'));
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    const resolved = path.resolve(filePath);
+    if (this.deleted.has(resolved)) {
+      return false;
+    }
+    return this.files.has(resolved) || this.directories.has(resolved) || this.base.exists(resolved);
+  }
+
+  async readBinaryFile(filePath: string): Promise<Buffer> {
+    const resolved = path.resolve(filePath);
+    if (this.deleted.has(resolved)) {
+      throw createFileSystemError('ENOENT', 'open', resolved);
+    }
+    const overlay = this.files.get(resolved);
+    return overlay ? Buffer.from(overlay.data) : this.base.readBinaryFile(filePath);
+  }
+
+  async writeBinaryFile(filePath: string, data: Uint8Array): Promise<void> {
+    const resolved = path.resolve(filePath);
+    const parent = await this.stat(path.dirname(resolved));
+    if (!parent) {
+      throw createFileSystemError('ENOENT', 'open', resolved);
+    }
+    if (!parent.isDirectory) {
+      throw createFileSystemError('ENOTDIR', 'open', resolved);
+    }
+    if ((await this.stat(resolved))?.isDirectory) {
+      throw createFileSystemError('EISDIR', 'open', resolved);
+    }
+    this.files.set(resolved, { data: Buffer.from(data), mtime: new Date() });
+    this.deleted.delete(resolved);
+  }
+
+  async stat(filePath: string): Promise<FileStat | null> {
+    const resolved = path.resolve(filePath);
+    if (this.deleted.has(resolved)) {
+      return null;
+    }
+    const overlay = this.files.get(resolved);
+    if (overlay) {
+      return { size: overlay.data.length, isDirectory: false, isFile: true, mtime: overlay.mtime };
+    }
+    const directoryTime = this.directories.get(resolved);
+    if (directoryTime) {
+      return { size: 0, isDirectory: true, isFile: false, mtime: directoryTime };
+    }
+    return this.base.stat(resolved);
+  }
+
+  async mkdir(dirPath: string, options?: { recursive?: boolean; mode?: number }): Promise<void> {
+    const resolved = path.resolve(dirPath);
+    const existing = await this.stat(resolved);
+    if (existing) {
+      if (existing.isDirectory && options?.recursive) {
+        return;
+      }
+      throw createFileSystemError('EEXIST', 'mkdir', resolved);
+    }
+
+    const parent = path.dirname(resolved);
+    if (!(await this.stat(parent))?.isDirectory) {
+      if (!options?.recursive || parent === resolved) {
+        throw createFileSystemError('ENOENT', 'mkdir', resolved);
+      }
+      await this.mkdir(parent, options);
+    }
+    this.directories.set(resolved, new Date());
+  }
+
+  async readDirectory(dirPath: string): Promise<FileSystemEntry[]> {
+    const resolved = path.resolve(dirPath);
+    const entries = new Map<string, FileSystemEntry>();
+
+    if (!this.directories.has(resolved)) {
+      for (const entry of await this.base.readDirectory(resolved)) {
+        if (!this.deleted.has(path.join(resolved, entry.name))) {
+          entries.set(entry.name, entry);
+        }
+      }
+    }
+    for (const directory of this.directories.keys()) {
+      if (path.dirname(directory) === resolved && directory !== resolved) {
+        const name = path.basename(directory);
+        entries.set(name, { name, isDirectory: true, isFile: false });
+      }
+    }
+    for (const file of this.files.keys()) {
+      if (path.dirname(file) === resolved) {
+        const name = path.basename(file);
+        entries.set(name, { name, isDirectory: false, isFile: true });
+      }
+    }
+
+    return [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const resolved = path.resolve(filePath);
+    const existing = await this.stat(resolved);
+    if (!existing) {
+      throw createFileSystemError('ENOENT', 'unlink', resolved);
+    }
+    if (existing.isDirectory) {
+      throw createFileSystemError('EISDIR', 'unlink', resolved);
+    }
+    this.files.delete(resolved);
+    if ((await this.base.stat(resolved))?.isFile) {
+      this.deleted.add(resolved);
+    }
+  }
+
+  /**
+   * 列出尚未写回底层的文件改动（内容与底层相同的写入会被忽略）
+   */
+  async getChanges(): Promise<FileSystemChange[]> {
+    const changes: FileSystemChange[] = [];
+    for (const [filePath, overlay] of [...this.files].sort(([a], [b]) => a.localeCompare(b))) {
+      const originalContent = (await this.base.stat(filePath))?.isFile
+        ? await this.base.readBinaryFile(filePath)
+        : undefined;
+      if (originalContent?.equals(overlay.data)) {
+        continue;
+      }
+      changes.push({
+        path: filePath,
+        type: originalContent ? 'modified' : 'created',
+        content: Buffer.from(overlay.data),
+        originalContent,
+      });
+    }
+    for (const filePath of this.deleted) {
+      if ((await this.base.stat(filePath))?.isFile) {
+        changes.push({
+          path: filePath,
+          type: 'deleted',
+          originalContent: await this.base.readBinaryFile(filePath),
+        });
+      }
+    }
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * 把改动写回底层文件系统并清空 overlay
+   *
+   * @param paths 只写回指定路径；省略时写回全部改动
+   * @returns 实际写回的改动
+   */
+  async flush(paths?: string[]): Promise<FileSystemChange[]> {
+    const selected = paths ? new Set(paths.map((item) => path.resolve(item))) : undefined;
+    const changes = (await this.getChanges()).filter(
+      (change) => !selected || selected.has(change.path),
+    );
+
+    if (!selected) {
+      for (const directory of [...this.directories.keys()].sort()) {
+        await this.base.mkdir(directory, { recursive: true });
+      }
+    }
+    for (const change of changes) {
+      if (!change.content) {
+        await this.base.deleteFile(change.path);
+        continue;
+      }
+      await this.base.mkdir(path.dirname(change.path), { recursive: true });
+      await this.base.writeBinaryFile(change.path, change.content);
+    }
+    for (const filePath of selected ?? [...this.files.keys(), ...this.deleted]) {
+      this.files.delete(filePath);
+      this.deleted.delete(filePath);
+    }
+    if (!selected) {
+      this.directories.clear();
+    }
+    return changes;
+  }
+
+  /**
+   * 丢弃 overlay 中的全部改动
+   */
+  discard(): void {
+    this.files.clear();
+    this.directories.clear();
+    this.deleted.clear();
+  }
+}
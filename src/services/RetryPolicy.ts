@@ -206,7 +206,7 @@ function getErrorName(error: unknown): string | undefined {
   return undefined;
 }
 
-function extractStatusCode(error: unknown): number | undefined {
+export function extractStatusCode(error: unknown): number | undefined {
   if (!isRecord(error)) {
     return undefined;
   }
@@ -13,6 +13,7 @@ import type {
   ChatResponse,
   ContentPart,
   IChatService,
+  ImageContentPart,
   Message,
   SideQueryOptions,
   StreamChunk,
@@ -36,6 +37,11 @@ import {
   shouldOmitDeepSeekSamplingOptions,
   shouldUseDeepSeekBetaBaseUrl,
 } from './deepseek.js';
+import {
+  mayBeOllamaTextToolCall,
+  recoverOllamaTextToolCalls,
+  resolveOllamaOpenAIBaseUrl,
+} from './ollama.js';
 
 function filterOrphanToolMessages(messages: readonly Message[]): Message[] {
   const availableToolCallIds = new Set<string>();
@@ -110,7 +116,18 @@ type AIMessage =
   | { role: 'system'; content: string; providerOptions?: AIProviderOptions }
   | { role: 'user'; content: string | Array<AITextPart | { type: 'image'; image: string }> }
   | { role: 'assistant'; content: string | Array<{ type: 'reasoning'; text: string } | { type: 'text'; text: string } | { type: 'tool-call'; toolCallId: string; toolName: string; input: unknown }> }
-  | { role: 'tool'; content: Array<{ type: 'tool-result'; toolCallId: string; toolName: string; output: { type: 'text'; value: string } }> };
+  | { role: 'tool'; content: Array<{ type: 'tool-result'; toolCallId: string; toolName: string; output: AIToolResultOutput }> };
+
+type AIToolResultOutput =
+  | { type: 'text'; value: string }
+  | {
+      type: 'content';
+      value: Array<
+        | { type: 'text'; text: string }
+        | { type: 'image-data'; data: string; mediaType: string }
+        | { type: 'image-url'; url: string }
+      >;
+    };
 
 type AITool = {
   description?: string;
@@ -163,6 +180,14 @@ function parseDataUrl(url: string): { data: string; mediaType?: string } | undef
   };
 }
 
+function toAIImagePart(url: string): { type: 'image'; image: string; mediaType?: string } {
+  const dataUrl = parseDataUrl(url);
+  if (dataUrl) {
+    return { type: 'image', image: dataUrl.data, mediaType: dataUrl.mediaType };
+  }
+  return { type: 'image', image: url };
+}
+
 function safeJsonParse(
   str: string,
   logger: InternalLogger,
@@ -335,6 +360,16 @@ export class VercelAIChatService implements IChatService {
         return deepseek(normalizeDeepSeekModel(model));
       }
 
+      case 'ollama': {
+        const ollama = createOpenAICompatible({
+          name: 'ollama',
+          apiKey: apiKey || undefined,
+          baseURL: resolveOllamaOpenAIBaseUrl(baseUrl),
+          headers: customHeaders,
+        });
+        return ollama(model);
+      }
+
       default: {
         if (providerId === 'deepseek') {
           const deepseek = createDeepSeek({
@@ -385,8 +420,22 @@ export class VercelAIChatService implements IChatService {
   private convertMessages(messages: readonly Message[]): AIMessage[] {
     const result: AIMessage[] = [];
     const isDeepSeek = this.isDeepSeekProvider();
+    const deferredImages: ImageContentPart[] = [];
+    const flushDeferredImages = () => {
+      if (deferredImages.length === 0) return;
+      result.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Images returned by the preceding tool results:' },
+          ...deferredImages.splice(0).map((part) => toAIImagePart(part.image_url.url)),
+        ],
+      });
+    };
 
     for (const msg of messages) {
+      if (msg.role !== 'tool') {
+        flushDeferredImages();
+      }
       if (msg.role === 'system') {
         if (Array.isArray(msg.content)) {
           const textPart = msg.content.find((p) => p.type === 'text') as
@@ -414,15 +463,7 @@ export class VercelAIChatService implements IChatService {
               }
               return textPart;
             }
-            const dataUrl = parseDataUrl(part.image_url.url);
-            if (dataUrl) {
-              return {
-                type: 'image' as const,
-                image: dataUrl.data,
-                mediaType: dataUrl.mediaType,
-              };
-            }
-            return { type: 'image' as const, image: part.image_url.url };
+            return toAIImagePart(part.image_url.url);
           });
           result.push({ role: 'user', content: parts });
         } else {
@@ -476,16 +517,73 @@ export class VercelAIChatService implements IChatService {
               type: 'tool-result',
               toolCallId: msg.tool_call_id,
               toolName: msg.name || 'unknown',
-              output: { type: 'text', value: getTextContent(msg.content) },
+              output: this.convertToolOutput(msg.content, deferredImages),
             },
           ],
         });
       }
     }
+    flushDeferredImages();
 
     return result;
   }
 
+  /**
+   * Tool results carry images natively only on providers whose AI SDK adapter
+   * supports them; OpenAI-compatible endpoints would JSON-encode the base64
+   * data into the tool message instead.
+   */
+  private supportsToolResultImages(): boolean {
+    const { provider, baseUrl } = this.config;
+    switch (provider) {
+      case 'openai':
+      case 'anthropic':
+        return true;
+      case 'gemini':
+        return !baseUrl || this.isGeminiOfficialUrl(baseUrl);
+      case 'azure-openai':
+        return Boolean(this.extractAzureResourceName(baseUrl));
+      default:
+        return false;
+    }
+  }
+
+  private convertToolOutput(
+    content: string | ContentPart[],
+    deferredImages: ImageContentPart[],
+  ): AIToolResultOutput {
+    if (typeof content === 'string' || content.every((part) => part.type === 'text')) {
+      return { type: 'text', value: getTextContent(content) };
+    }
+
+    if (this.supportsToolResultImages()) {
+      return {
+        type: 'content',
+        value: content.map((part) => {
+          if (part.type === 'text') {
+            return { type: 'text' as const, text: part.text };
+          }
+          const dataUrl = parseDataUrl(part.image_url.url);
+          return dataUrl?.mediaType
+            ? { type: 'image-data' as const, data: dataUrl.data, mediaType: dataUrl.mediaType }
+            : { type: 'image-url' as const, url: part.image_url.url };
+        }),
+      };
+    }
+
+    // DeepSeek 不接受图片；其他兼容端点把图片放到工具结果之后的 user 消息中
+    const canDefer = !this.isDeepSeekProvider();
+    const text = content
+      .map((part) => {
+        if (part.type === 'text') return part.text;
+        if (!canDefer) return '[image omitted: the current model does not accept images]';
+        deferredImages.push(part);
+        return `[image ${deferredImages.length} attached in the next user message]`;
+      })
+      .join('\n');
+    return { type: 'text', value: text };
+  }
+
   private convertTools(
     tools?: Array<{ name: string; description: string; parameters: JSONSchema7 }>
   ): Record<string, AITool> | undefined {
@@ -719,6 +817,21 @@ export class VercelAIChatService implements IChatService {
     };
   }
 
+  /**
+   * Local models served through Ollama often write the tool call as JSON in
+   * the message text; turn it back into structured tool calls.
+   */
+  private recoverTextToolCalls(
+    response: ChatResponse,
+    tools?: Array<{ name: string }>,
+  ): ChatResponse {
+    if (this.config.provider !== 'ollama' || !tools?.length || response.toolCalls?.length) {
+      return response;
+    }
+    const toolCalls = recoverOllamaTextToolCalls(response.content, tools.map((tool) => tool.name));
+    return toolCalls ? { ...response, content: '', toolCalls } : response;
+  }
+
   async chat(
     messages: readonly Message[],
     tools?: Array<{ name: string; description: string; parameters: JSONSchema7 }>,
@@ -815,7 +928,7 @@ export class VercelAIChatService implements IChatService {
         if (done) {
           const duration = Date.now() - startTime;
           this.logger.debug('📥 [VercelAIChatService] Response received in', duration, 'ms');
-          return this.buildChatResponse(value);
+          return this.recoverTextToolCalls(this.buildChatResponse(value), tools);
         }
         yield value;
       }
@@ -861,13 +974,22 @@ export class VercelAIChatService implements IChatService {
       this.logger.debug('📥 [VercelAIChatService] Stream started');
 
       let toolCallIndex = 0;
+      // Ollama: hold back text that may turn out to be a tool call written as JSON.
+      let heldText: string | undefined =
+        this.config.provider === 'ollama' && tools?.length ? '' : undefined;
       for await (const part of result.fullStream) {
         switch (part.type) {
           case 'text-delta': {
             const delta = getStreamTextDelta(part);
-            if (delta !== undefined) {
-              yield { content: delta };
+            if (delta === undefined) break;
+            if (heldText !== undefined) {
+              heldText += delta;
+              if (mayBeOllamaTextToolCall(heldText)) break;
+              yield { content: heldText };
+              heldText = undefined;
+              break;
             }
+            yield { content: delta };
             break;
           }
 
@@ -892,9 +1014,24 @@ export class VercelAIChatService implements IChatService {
             break;
           }
 
-          case 'finish':
+          case 'finish': {
+            let finishReason = (part as { finishReason?: string }).finishReason;
+            if (heldText) {
+              const recovered = toolCallIndex === 0 && tools
+                ? recoverOllamaTextToolCalls(heldText, tools.map((tool) => tool.name))
+                : undefined;
+              if (recovered) {
+                yield {
+                  toolCalls: recovered.map((toolCall) => ({ index: toolCallIndex++, ...toolCall })),
+                };
+                finishReason = 'tool-calls';
+              } else {
+                yield { content: heldText };
+              }
+            }
+            heldText = undefined;
             yield {
-              finishReason: (part as { finishReason?: string }).finishReason,
+              finishReason,
               usage: this.convertUsage(
                 (part as {
                   totalUsage?: Parameters<VercelAIChatService['convertUsage']>[0];
@@ -903,8 +1040,12 @@ export class VercelAIChatService implements IChatService {
               ),
             };
             break;
+          }
         }
       }
+      if (heldText) {
+        yield { content: heldText };
+      }
 
       const duration = Date.now() - startTime;
       this.logger.debug('✅ [VercelAIChatService] Stream completed in', duration, 'ms');
@@ -0,0 +1,151 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSession } from '../../session/Session.js';
+import type { StreamMessage } from '../../session/types.js';
+import type { ChatConfig, IChatService, StreamChunk } from '../ChatServiceInterface.js';
+import {
+  type ChatServiceFixture,
+  ChatServiceFixtureError,
+  chatServiceRequestKey,
+  createPlaybackChatServiceFactory,
+  createRecordingChatServiceFactory,
+} from '../ChatServiceRecording.js';
+
+function scriptedService(config: ChatConfig, streams: StreamChunk[][]): IChatService {
+  let call = 0;
+  return {
+    chat: async (messages) => ({ content: `chat: ${messages.length}` }),
+    sideQuery: async () => ({ content: 'summary' }),
+    async *streamChat() {
+      const chunks = streams[call++];
+      if (!chunks) {
+        throw new Error('script exhausted');
+      }
+      yield* chunks;
+    },
+    getConfig: () => config,
+    updateConfig: () => {},
+  };
+}
+
+const config: ChatConfig = {
+  provider: 'openai-compatible',
+  apiKey: 'test-key',
+  baseUrl: '',
+  model: 'test-model',
+};
+
+describe('ChatService recording', () => {
+  let root: string;
+  let fixturePath: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'chat-service-recording-'));
+    fixturePath = join(root, 'fixtures', 'chat.json');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('plays back recorded calls in order and rejects unrecorded requests', async () => {
+    const recordFactory = createRecordingChatServiceFactory({
+      path: fixturePath,
+      delegate: async (chatConfig) =>
+        scriptedService(chatConfig, [
+          [{ content: 'first' }, { finishReason: 'stop' }],
+          [{ content: 'second' }, { finishReason: 'stop' }],
+        ]),
+    });
+    const recording = await recordFactory(config);
+    const collect = async (service: IChatService) => {
+      const chunks: StreamChunk[] = [];
+      for await (const chunk of service.streamChat([{ id: 'm1', role: 'user', content: 'hi' }])) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    await collect(recording);
+    await collect(recording);
+    await recording.chat([{ role: 'user', content: 'hi' }]);
+    await recording.sideQuery([{ role: 'user', content: 'compact' }], undefined, {
+      maxOutputTokens: 100,
+    });
+
+    const fixture = JSON.parse(await readFile(fixturePath, 'utf8')) as ChatServiceFixture;
+    expect(fixture.entries.map((entry) => entry.request.method)).toEqual([
+      'streamChat',
+      'streamChat',
+      'chat',
+      'sideQuery',
+    ]);
+    const [first] = fixture.entries;
+    expect(first?.request.messages).toEqual([{ role: 'user', content: 'hi' }]);
+    expect(first && first.key === chatServiceRequestKey(first.request)).toBe(true);
+
+    const playback = await createPlaybackChatServiceFactory({ path: fixturePath })(config);
+    // Message ids are run-specific and do not affect the key.
+    expect(await collect(playback)).toEqual([{ content: 'first' }, { finishReason: 'stop' }]);
+    expect(await collect(playback)).toEqual([{ content: 'second' }, { finishReason: 'stop' }]);
+    await expect(playback.chat([{ role: 'user', content: 'hi' }])).resolves.toEqual({
+      content: 'chat: 1',
+    });
+    await expect(
+      playback.sideQuery([{ role: 'user', content: 'compact' }], undefined, {
+        maxOutputTokens: 100,
+      }),
+    ).resolves.toEqual({ content: 'summary' });
+
+    const exhausted = collect(playback);
+    await expect(exhausted).rejects.toBeInstanceOf(ChatServiceFixtureError);
+    await expect(exhausted).rejects.toMatchObject({ code: 'CHAT_FIXTURE_UNMATCHED_REQUEST' });
+    await expect(playback.chat([{ role: 'user', content: 'bye' }])).rejects.toMatchObject({
+      code: 'CHAT_FIXTURE_UNMATCHED_REQUEST',
+    });
+  });
+
+  it('runs a createSession flow from a fixture without a provider', async () => {
+    // The environment block in the system prompt carries today's date.
+    const normalizeRequest = vi.fn((request) => ({
+      ...request,
+      messages: request.messages.filter((message: { role: string }) => message.role !== 'system'),
+    }));
+    const sessionOptions = {
+      provider: { type: 'openai-compatible' as const, apiKey: 'test-key' },
+      model: 'test-model',
+      persistSession: false,
+      allowedTools: [],
+    };
+    const run = async (chatServiceFactory: ReturnType<typeof createPlaybackChatServiceFactory>) => {
+      const session = await createSession({ ...sessionOptions, chatServiceFactory });
+      await session.send('Say hello');
+      const messages: StreamMessage[] = [];
+      for await (const message of session.stream()) {
+        messages.push(message);
+      }
+      await session.close();
+      return messages.find((message) => message.type === 'result');
+    };
+
+    const recorded = await run(
+      createRecordingChatServiceFactory({
+        path: fixturePath,
+        normalizeRequest,
+        delegate: async (chatConfig) =>
+          scriptedService(chatConfig, [
+            [{ content: 'Hello from the fixture' }, { finishReason: 'stop' }],
+          ]),
+      }),
+    );
+    const replayed = await run(
+      createPlaybackChatServiceFactory({ path: fixturePath, normalizeRequest }),
+    );
+
+    expect(recorded).toMatchObject({ subtype: 'success', content: 'Hello from the fixture' });
+    expect(replayed).toMatchObject({ subtype: 'success', content: 'Hello from the fixture' });
+    expect(normalizeRequest).toHaveBeenCalled();
+  });
+});
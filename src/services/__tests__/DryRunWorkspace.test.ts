@@ -0,0 +1,314 @@
+import { existsSync } from 'node:fs';
+import { lstat, mkdir, mkdtemp, readFile, realpath, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+import { createContextSnapshot } from '../../runtime/index.js';
+import { getSandboxExecutor, SandboxExecutor } from '../../sandbox/SandboxExecutor.js';
+import { getSandboxService, SandboxService } from '../../sandbox/SandboxService.js';
+import { createSession } from '../../session/Session.js';
+import { editTool } from '../../tools/builtin/file/edit.js';
+import { readTool } from '../../tools/builtin/file/read.js';
+import { gitStatusTool } from '../../tools/builtin/git/status.js';
+import { BackgroundShellManager } from '../../tools/builtin/shell/BackgroundShellManager.js';
+import { bashTool } from '../../tools/builtin/shell/bash.js';
+import {
+  collectToolExecution,
+  type ExecutionContext,
+  ToolErrorType,
+} from '../../tools/types/index.js';
+import { SessionId } from '../../types/branded.js';
+import { PermissionMode } from '../../types/common.js';
+import { DryRunWorkspace } from '../DryRunWorkspace.js';
+
+const sessionId = SessionId('dry-run-session');
+
+const createContext = (workspace: DryRunWorkspace, dir: string): ExecutionContext => ({
+  sessionId,
+  bladeConfig: {
+    fileSystem: workspace.fileSystem,
+    dryRun: workspace,
+  } as ExecutionContext['bladeConfig'],
+  contextSnapshot: createContextSnapshot(
+    sessionId,
+    'turn-1',
+    workspace.scopeContext({ capabilities: { filesystem: { roots: [dir], cwd: dir } } }),
+  ),
+});
+
+describe('DryRunWorkspace', () => {
+  let dir: string;
+  let workspace: DryRunWorkspace;
+  let context: ExecutionContext;
+  let wrapCommand: MockInstance<SandboxExecutor['wrapCommand']>;
+
+  beforeEach(async () => {
+    // Pretend a sandbox is available; the wrapper runs the command as-is so effects stay observable
+    const executor = getSandboxExecutor();
+    vi.spyOn(executor, 'getCapabilities').mockReturnValue({
+      available: true,
+      type: 'bubblewrap',
+      features: { fileSystemIsolation: true, networkIsolation: true, processIsolation: true },
+    });
+    wrapCommand = vi.spyOn(executor, 'wrapCommand').mockImplementation((command) => command);
+    getSandboxService().configure({ enabled: true });
+
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'blade-dry-run-project-')));
+    await mkdir(join(dir, 'src'));
+    await mkdir(join(dir, 'node_modules/dep'), { recursive: true });
+    await writeFile(join(dir, 'src/a.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    await writeFile(join(dir, 'old.txt'), 'remove me\n');
+    await writeFile(join(dir, 'node_modules/dep/index.js'), 'module.exports = 1;\n');
+
+    workspace = await DryRunWorkspace.create({ root: dir });
+    context = createContext(workspace, dir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    SandboxService.resetInstance();
+    SandboxExecutor.resetInstance();
+    BackgroundShellManager.getInstance().disposePersistentShell(sessionId);
+    await workspace.dispose();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('stages Edit and Bash effects in the scratch copy and reports a unified diff', async () => {
+    const filePath = join(dir, 'src/a.ts');
+    await collectToolExecution(
+      readTool.execute({ file_path: filePath, encoding: 'utf8' }, context),
+    );
+    const edit = await collectToolExecution(
+      editTool.execute(
+        { file_path: filePath, old_string: 'a = 1', new_string: 'a = 10', replace_all: false },
+        context,
+      ),
+    );
+    expect(edit.status).toBe('success');
+
+    const bash = await collectToolExecution(
+      bashTool.execute(
+        {
+          command: 'cd src && printf "new\\n" > b.ts && rm ../old.txt',
+          timeout: 10_000,
+          run_in_background: false,
+        },
+        context,
+      ),
+    );
+    expect(bash.metadata).toMatchObject({
+      previous_cwd: workspace.scratchPath,
+      cwd: join(workspace.scratchPath, 'src'),
+    });
+
+    expect(await readFile(filePath, 'utf8')).toBe('export const a = 1;\nexport const b = 2;\n');
+    expect(existsSync(join(dir, 'old.txt'))).toBe(true);
+    expect(existsSync(join(workspace.scratchPath, 'node_modules'))).toBe(false);
+
+    const changeset = await workspace.getChangeset();
+    expect(changeset.changes.map(({ relativePath, type }) => ({ relativePath, type }))).toEqual([
+      { relativePath: 'old.txt', type: 'deleted' },
+      { relativePath: 'src/a.ts', type: 'modified' },
+      { relativePath: 'src/b.ts', type: 'created' },
+    ]);
+    expect(changeset.patch).toBe(
+      [
+        '--- a/old.txt',
+        '+++ /dev/null',
+        '@@ -1,1 +0,0 @@',
+        '-remove me',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        '-export const a = 1;',
+        '+export const a = 10;',
+        ' export const b = 2;',
+        '--- /dev/null',
+        '+++ b/src/b.ts',
+        '@@ -0,0 +1,1 @@',
+        '+new',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('keeps Bash commands that name the absolute project path inside the scratch copy', async () => {
+    expect(context.contextSnapshot?.cwd).toBe(workspace.scratchPath);
+    expect(context.contextSnapshot?.filesystemRoots).toEqual([workspace.scratchPath]);
+
+    const bash = await collectToolExecution(
+      bashTool.execute(
+        {
+          command: `echo x > ${dir}/f && cd ${dir}/src && pwd`,
+          timeout: 10_000,
+          run_in_background: false,
+        },
+        context,
+      ),
+    );
+    expect(bash.status).toBe('success');
+    expect(bash.metadata).toMatchObject({ cwd: join(workspace.scratchPath, 'src') });
+
+    expect(existsSync(join(dir, 'f'))).toBe(false);
+    expect(await readFile(join(workspace.scratchPath, 'f'), 'utf8')).toBe('x\n');
+    expect(workspace.toScratchCommand(`ls ${dir}-backup ${dir}`)).toBe(
+      `ls ${dir}-backup ${workspace.scratchPath}`,
+    );
+  });
+
+  it('shows the session only the scratch path', async () => {
+    const systemText = (messages: readonly { role: string; content: unknown }[]) =>
+      messages
+        .filter((message) => message.role === 'system')
+        .map((message) => JSON.stringify(message.content))
+        .join('\n');
+    const session = await createSession({
+      provider: {
+        type: 'mock',
+        script: {
+          steps: [
+            {
+              expect: (messages) =>
+                systemText(messages).includes(workspace.scratchPath) &&
+                !systemText(messages).includes(dir),
+              toolCalls: [{ name: 'Bash', input: { command: `echo x > ${dir}/f` } }],
+            },
+            { text: 'done' },
+          ],
+        },
+      },
+      model: 'mock-model',
+      persistSession: false,
+      permissionMode: PermissionMode.YOLO,
+      allowedTools: ['Bash'],
+      dryRun: workspace,
+      defaultContext: { capabilities: { filesystem: { roots: [dir], cwd: dir } } },
+    });
+    try {
+      expect(session.getDefaultContext().capabilities?.filesystem?.cwd).toBe(workspace.scratchPath);
+      await session.send('write f');
+      const results = [];
+      for await (const message of session.stream()) {
+        if (message.type === 'tool_result' || message.type === 'result') results.push(message);
+      }
+      expect(results).toContainEqual(expect.objectContaining({ type: 'result', content: 'done' }));
+    } finally {
+      await session.close();
+    }
+
+    expect(existsSync(join(dir, 'f'))).toBe(false);
+    expect(existsSync(join(workspace.scratchPath, 'f'))).toBe(true);
+  });
+
+  it('applies selected changes and discards the rest', async () => {
+    await writeFile(join(workspace.scratchPath, 'src/a.ts'), 'changed\n');
+    await writeFile(join(workspace.scratchPath, 'created.txt'), 'created\n');
+
+    const applied = await workspace.apply(['src/a.ts']);
+    expect(applied.map((change) => change.relativePath)).toEqual(['src/a.ts']);
+    expect(await readFile(join(dir, 'src/a.ts'), 'utf8')).toBe('changed\n');
+    expect(existsSync(join(dir, 'created.txt'))).toBe(false);
+
+    const discarded = await workspace.discard();
+    expect(discarded.map((change) => change.relativePath)).toEqual(['created.txt']);
+    expect((await workspace.getChangeset()).changes).toEqual([]);
+  });
+
+  it('runs Bash in a sandbox where only the scratch copy is writable', async () => {
+    const bash = await collectToolExecution(
+      bashTool.execute(
+        { command: 'pwd', timeout: 10_000, run_in_background: false },
+        context,
+      ),
+    );
+    expect(bash.status).toBe('success');
+    expect(wrapCommand).toHaveBeenCalledWith(
+      expect.stringContaining('exec bash'),
+      expect.objectContaining({
+        workDir: workspace.scratchPath,
+        isolateWrites: true,
+        allowedWritePaths: [workspace.scratchPath],
+        allowedReadPaths: expect.arrayContaining([dir]),
+      }),
+    );
+  });
+
+  it('refuses Bash when no sandbox can confine it to the scratch copy', async () => {
+    for (const settings of [{ enabled: false }, { enabled: true, excludedCommands: ['touch'] }]) {
+      getSandboxService().configure(settings);
+      const bash = await collectToolExecution(
+        bashTool.execute(
+          { command: `touch ${dir}/f ~/f`, timeout: 10_000, run_in_background: false },
+          context,
+        ),
+      );
+      expect(bash.status).toBe('error');
+      expect(bash.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    }
+    expect(wrapCommand).not.toHaveBeenCalled();
+    expect(existsSync(join(dir, 'f'))).toBe(false);
+  });
+
+  it('leaves .git and node_modules out of the copy by default', async () => {
+    await mkdir(join(dir, '.git'));
+    await writeFile(join(dir, '.git/HEAD'), 'ref: refs/heads/main\n');
+    const copied = await DryRunWorkspace.create({ root: dir });
+    const linked = await DryRunWorkspace.create({
+      root: dir,
+      exclude: [],
+      linkedDirectories: ['node_modules'],
+    });
+    try {
+      expect(existsSync(join(copied.scratchPath, '.git'))).toBe(false);
+      expect(existsSync(join(copied.scratchPath, 'node_modules'))).toBe(false);
+      expect((await copied.getChangeset()).changes).toEqual([]);
+      const gitStatus = await collectToolExecution(
+        gitStatusTool.execute({}, createContext(copied, dir)),
+      );
+      expect(gitStatus.status).toBe('error');
+
+      expect(await readFile(join(linked.scratchPath, '.git/HEAD'), 'utf8')).toContain('main');
+      expect((await lstat(join(linked.scratchPath, 'node_modules'))).isSymbolicLink()).toBe(true);
+      await expect(
+        linked.fileSystem.writeTextFile(join(dir, 'node_modules/dep/index.js'), 'changed'),
+      ).rejects.toMatchObject({ code: 'EACCES' });
+      expect(await readFile(join(dir, 'node_modules/dep/index.js'), 'utf8')).toBe(
+        'module.exports = 1;\n',
+      );
+    } finally {
+      await copied.dispose();
+      await linked.dispose();
+    }
+  });
+
+  it('refuses to apply changes over files that changed in the project', async () => {
+    await writeFile(join(workspace.scratchPath, 'src/a.ts'), 'dry run\n');
+    await writeFile(join(workspace.scratchPath, 'created.txt'), 'created\n');
+    await writeFile(join(dir, 'src/a.ts'), 'edited elsewhere\n');
+    await writeFile(join(dir, 'old.txt'), 'also edited elsewhere\n');
+
+    const { changes } = await workspace.getChangeset();
+    expect(changes.map(({ relativePath, conflict }) => ({ relativePath, conflict }))).toEqual([
+      { relativePath: 'created.txt', conflict: false },
+      { relativePath: 'src/a.ts', conflict: true },
+    ]);
+
+    await expect(workspace.apply()).rejects.toMatchObject({ code: 'DRY_RUN_CONFLICT' });
+    expect(await readFile(join(dir, 'src/a.ts'), 'utf8')).toBe('edited elsewhere\n');
+    expect(existsSync(join(dir, 'created.txt'))).toBe(false);
+
+    await workspace.apply(['created.txt']);
+    await workspace.discard(['src/a.ts']);
+    expect(await readFile(join(dir, 'created.txt'), 'utf8')).toBe('created\n');
+    expect(await readFile(join(workspace.scratchPath, 'src/a.ts'), 'utf8')).toBe(
+      'edited elsewhere\n',
+    );
+    expect((await workspace.getChangeset()).changes).toEqual([]);
+  });
+
+  it('rejects writes outside the project root', async () => {
+    await expect(
+      workspace.fileSystem.writeTextFile(join(tmpdir(), 'outside.txt'), 'x'),
+    ).rejects.toMatchObject({ code: 'EACCES' });
+  });
+});
@@ -0,0 +1,226 @@
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createContextSnapshot } from '../../runtime/index.js';
+import { editTool } from '../../tools/builtin/file/edit.js';
+import { readTool } from '../../tools/builtin/file/read.js';
+import { writeTool } from '../../tools/builtin/file/write.js';
+import { globTool } from '../../tools/builtin/search/glob.js';
+import { grepTool } from '../../tools/builtin/search/grep.js';
+import { collectToolExecution, type ExecutionContext } from '../../tools/types/index.js';
+import { SessionId } from '../../types/branded.js';
+import type { FileSystemService } from '../FileSystemService.js';
+import { InMemoryFileSystemService } from '../InMemoryFileSystemService.js';
+import { OverlayFileSystemService } from '../OverlayFileSystemService.js';
+
+const root = join(tmpdir(), 'blade-memory-fs');
+
+function createContext(fileSystem: FileSystemService, dir: string): ExecutionContext {
+  const sessionId = SessionId('fs-session');
+  return {
+    sessionId,
+    bladeConfig: { fileSystem } as ExecutionContext['bladeConfig'],
+    contextSnapshot: createContextSnapshot(sessionId, 'turn-1', {
+      capabilities: { filesystem: { roots: [dir], cwd: dir } },
+    }),
+  };
+}
+
+describe('InMemoryFileSystemService', () => {
+  it('creates parent directories and reports Node-style errors', async () => {
+    const fs = new InMemoryFileSystemService({ [join(root, 'src/a.ts')]: 'a' });
+
+    expect(await fs.readDirectory(root)).toEqual([
+      { name: 'src', isDirectory: true, isFile: false },
+    ]);
+    await expect(fs.readTextFile(join(root, 'missing.ts'))).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+    await expect(fs.writeTextFile(join(root, 'nested/b.ts'), 'b')).rejects.toMatchObject({
+      code: 'ENOENT',
+    });
+
+    await fs.mkdir(join(root, 'nested'), { recursive: true });
+    await fs.writeTextFile(join(root, 'nested/b.ts'), 'b');
+    expect(await fs.stat(join(root, 'nested/b.ts'))).toMatchObject({ size: 1, isFile: true });
+  });
+
+  it('backs Read, Write, Edit, Glob and Grep without touching disk', async () => {
+    const fs = new InMemoryFileSystemService({
+      [join(root, 'src/a.ts')]: 'export const a = 1;\n',
+      [join(root, 'src/b.md')]: 'notes\n',
+      [join(root, 'node_modules/x/index.ts')]: 'export const a = 2;\n',
+    });
+    const context = createContext(fs, root);
+    const filePath = join(root, 'src/a.ts');
+
+    const read = await collectToolExecution(
+      readTool.execute({ file_path: filePath, encoding: 'utf8' }, context),
+    );
+    expect(read.status).toBe('success');
+
+    const edit = await collectToolExecution(
+      editTool.execute(
+        { file_path: filePath, old_string: 'a = 1', new_string: 'a = 3', replace_all: false },
+        context,
+      ),
+    );
+    expect(edit.status).toBe('success');
+    expect(await fs.readTextFile(filePath)).toBe('export const a = 3;\n');
+
+    const write = await collectToolExecution(
+      writeTool.execute(
+        {
+          file_path: join(root, 'src/c.ts'),
+          content: 'export const c = 3;\n',
+          encoding: 'utf8',
+          create_directories: false,
+        },
+        context,
+      ),
+    );
+    expect(write.status).toBe('success');
+
+    const glob = await collectToolExecution(
+      globTool.execute(
+        {
+          pattern: '**/*.ts',
+          max_results: 100,
+          include_directories: false,
+          case_sensitive: false,
+        },
+        context,
+      ),
+    );
+    expect(
+      (glob.metadata?.matches as Array<{ relative_path: string }>)
+        .map((match) => match.relative_path)
+        .sort(),
+    ).toEqual(['src/a.ts', 'src/c.ts']);
+
+    const grep = await collectToolExecution(
+      grepTool.execute(
+        { pattern: 'const \\w = 3', output_mode: 'content', '-n': true, multiline: false },
+        context,
+      ),
+    );
+    expect(grep.metadata).toMatchObject({ strategy: 'fallback' });
+    expect(grep.model).toEqual([
+      { file_path: 'src/a.ts', line_number: 1, content: 'export const a = 3;' },
+      { file_path: 'src/c.ts', line_number: 1, content: 'export const c = 3;' },
+    ]);
+
+    const counts = await collectToolExecution(
+      grepTool.execute(
+        { pattern: 'export', glob: '*.ts', output_mode: 'count', '-n': true, multiline: false },
+        context,
+      ),
+    );
+    expect(counts.model).toEqual([
+      { file_path: 'src/a.ts', count: 1 },
+      { file_path: 'src/c.ts', count: 1 },
+    ]);
+  });
+});
+
+describe('OverlayFileSystemService', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'blade-overlay-'));
+    await writeFile(join(dir, 'existing.txt'), 'before\n');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps writes in memory until they are flushed', async () => {
+    const overlay = new OverlayFileSystemService();
+    const context = createContext(overlay, dir);
+
+    await collectToolExecution(
+      readTool.execute({ file_path: join(dir, 'existing.txt'), encoding: 'utf8' }, context),
+    );
+    const edit = await collectToolExecution(
+      editTool.execute(
+        {
+          file_path: join(dir, 'existing.txt'),
+          old_string: 'before',
+          new_string: 'after',
+          replace_all: false,
+        },
+        context,
+      ),
+    );
+    expect(edit.status).toBe('success');
+    await overlay.mkdir(join(dir, 'new/deep'), { recursive: true });
+    await overlay.writeTextFile(join(dir, 'new/deep/file.txt'), 'created\n');
+    await overlay.writeTextFile(join(dir, 'same.txt'), 'x');
+    await overlay.flush([join(dir, 'same.txt')]);
+    await overlay.writeTextFile(join(dir, 'same.txt'), 'x');
+
+    expect(await readFile(join(dir, 'existing.txt'), 'utf8')).toBe('before\n');
+    expect(await overlay.readTextFile(join(dir, 'existing.txt'))).toBe('after\n');
+    expect((await overlay.readDirectory(dir)).map((entry) => entry.name)).toEqual([
+      'existing.txt',
+      'new',
+      'same.txt',
+    ]);
+
+    const changes = await overlay.getChanges();
+    expect(
+      changes.map(({ path, type, content, originalContent }) => ({
+        path,
+        type,
+        content: content?.toString(),
+        originalContent: originalContent?.toString(),
+      })),
+    ).toEqual([
+      {
+        path: join(dir, 'existing.txt'),
+        type: 'modified',
+        content: 'after\n',
+        originalContent: 'before\n',
+      },
+      {
+        path: join(dir, 'new/deep/file.txt'),
+        type: 'created',
+        content: 'created\n',
+        originalContent: undefined,
+      },
+    ]);
+
+    expect(await overlay.flush()).toHaveLength(2);
+    expect(await readFile(join(dir, 'existing.txt'), 'utf8')).toBe('after\n');
+    expect(await readFile(join(dir, 'new/deep/file.txt'), 'utf8')).toBe('created\n');
+    expect(await overlay.getChanges()).toEqual([]);
+  });
+
+  it('stages deletions of base files', async () => {
+    const overlay = new OverlayFileSystemService();
+    const filePath = join(dir, 'existing.txt');
+
+    await overlay.deleteFile(filePath);
+
+    expect(await overlay.exists(filePath)).toBe(false);
+    expect(await overlay.readDirectory(dir)).toEqual([]);
+    expect(await overlay.getChanges()).toEqual([
+      { path: filePath, type: 'deleted', originalContent: Buffer.from('before\n') },
+    ]);
+    await overlay.flush();
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it('discards pending changes', async () => {
+    const overlay = new OverlayFileSystemService();
+    await overlay.writeTextFile(join(dir, 'existing.txt'), 'changed');
+
+    overlay.discard();
+
+    expect(await overlay.getChanges()).toEqual([]);
+    expect(await overlay.readTextFile(join(dir, 'existing.txt'))).toBe('before\n');
+  });
+});
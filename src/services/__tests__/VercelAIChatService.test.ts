@@ -265,6 +265,72 @@ describe('VercelAIChatService', () => {
     ]);
   });
 
+  it('sends tool result images natively or in a follow-up user message', async () => {
+    mockGenerateText.mockResolvedValue({ text: 'done' });
+    const messages = [
+      {
+        role: 'assistant' as const,
+        content: '',
+        tool_calls: [
+          {
+            id: 'call_read',
+            type: 'function' as const,
+            function: { name: 'Read', arguments: '{"file_path":"/tmp/a.png"}' },
+          },
+        ],
+      },
+      {
+        role: 'tool' as const,
+        tool_call_id: 'call_read',
+        name: 'Read',
+        content: [
+          { type: 'text' as const, text: 'Image a.png (1x1)' },
+          { type: 'image_url' as const, image_url: { url: 'data:image/png;base64,AAAA' } },
+        ],
+      },
+      { role: 'user' as const, content: 'describe it' },
+    ];
+    const toolResult = (output: unknown) => ({
+      role: 'tool',
+      content: [{ type: 'tool-result', toolCallId: 'call_read', toolName: 'Read', output }],
+    });
+
+    const native = new VercelAIChatService(
+      { provider: 'openai', apiKey: 'test-key', baseUrl: '', model: 'gpt-5' },
+      NOOP_LOGGER,
+    );
+    await native.chat(messages);
+    expect((mockGenerateText.mock.calls[0]?.[0] as { messages: unknown[] }).messages[1]).toEqual(
+      toolResult({
+        type: 'content',
+        value: [
+          { type: 'text', text: 'Image a.png (1x1)' },
+          { type: 'image-data', data: 'AAAA', mediaType: 'image/png' },
+        ],
+      }),
+    );
+
+    const compatible = new VercelAIChatService(
+      { provider: 'ollama', apiKey: '', baseUrl: '', model: 'llava' },
+      NOOP_LOGGER,
+    );
+    await compatible.chat(messages);
+    expect((mockGenerateText.mock.calls[1]?.[0] as { messages: unknown[] }).messages.slice(1)).toEqual([
+      toolResult({
+        type: 'text',
+        value: 'Image a.png (1x1)\n[image 1 attached in the next user message]',
+      }),
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Images returned by the preceding tool results:' },
+          { type: 'image', image: 'AAAA', mediaType: 'image/png' },
+        ],
+      },
+      { role: 'user', content: 'describe it' },
+    ]);
+  });
+
   it('normalizes DeepSeek raw and snake_case tool call responses', async () => {
     mockGenerateText.mockResolvedValue({
       text: '',
@@ -512,6 +578,65 @@ describe('VercelAIChatService', () => {
     ]);
   });
 
+  it('recovers Ollama tool calls written as streamed text', async () => {
+    async function* fullStream() {
+      yield { type: 'text-delta', text: '{"name": "Read", ' };
+      yield { type: 'text-delta', text: '"arguments": {"file_path": "a.ts"}}' };
+      yield { type: 'finish', finishReason: 'stop' };
+    }
+    async function* plainStream() {
+      yield { type: 'text-delta', text: '{"answer": 42}' };
+      yield { type: 'finish', finishReason: 'stop' };
+    }
+    mockStreamText
+      .mockReturnValueOnce({ fullStream: fullStream() })
+      .mockReturnValueOnce({ fullStream: plainStream() });
+
+    const service = new VercelAIChatService(
+      {
+        provider: 'ollama',
+        apiKey: '',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'qwen2.5-coder:7b',
+      },
+      NOOP_LOGGER,
+    );
+    await (service as unknown as { initialized: Promise<void> }).initialized;
+    expect(mockCreateOpenAICompatible).toHaveBeenCalledWith({
+      name: 'ollama',
+      apiKey: undefined,
+      baseURL: 'http://localhost:11434/v1',
+      headers: undefined,
+    });
+
+    const tools = [{ name: 'Read', description: 'Read a file', parameters: { type: 'object' as const } }];
+    const collect = async () => {
+      const chunks = [];
+      for await (const chunk of service.streamChat([{ role: 'user', content: 'read a.ts' }], tools)) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    expect(await collect()).toEqual([
+      {
+        toolCalls: [
+          {
+            index: 0,
+            id: expect.stringMatching(/^call_/),
+            type: 'function',
+            function: { name: 'Read', arguments: '{"file_path":"a.ts"}' },
+          },
+        ],
+      },
+      expect.objectContaining({ finishReason: 'tool-calls' }),
+    ]);
+    expect(await collect()).toEqual([
+      { content: '{"answer": 42}' },
+      expect.objectContaining({ finishReason: 'stop' }),
+    ]);
+  });
+
   it('streams DeepSeek delta fields and preserves JSON-string tool inputs', async () => {
     async function* fullStream() {
       yield { type: 'reasoning-delta', delta: 'think' };
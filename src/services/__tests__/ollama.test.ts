@@ -0,0 +1,147 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createSession } from '../../session/Session.js';
+import {
+  getOllamaContextLength,
+  listOllamaModels,
+  mayBeOllamaTextToolCall,
+  recoverOllamaTextToolCalls,
+  resolveOllamaBaseUrl,
+} from '../ollama.js';
+
+function stubServer(routes: Record<string, unknown>) {
+  const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    if (!(path in routes)) {
+      return new Response('404 page not found', { status: 404 });
+    }
+    return Response.json(routes[path]);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('Ollama provider helpers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('normalizes the server base URL', () => {
+    expect(resolveOllamaBaseUrl()).toBe('http://localhost:11434');
+    expect(resolveOllamaBaseUrl('http://gpu:11434/v1/')).toBe('http://gpu:11434');
+  });
+
+  it('lists Ollama models and falls back to the OpenAI-style model list', async () => {
+    stubServer({
+      '/api/tags': {
+        models: [
+          {
+            name: 'qwen2.5-coder:7b',
+            model: 'qwen2.5-coder:7b',
+            size: 4_683_087_332,
+            details: { family: 'qwen2', parameter_size: '7.6B', quantization_level: 'Q4_K_M' },
+          },
+        ],
+      },
+    });
+    await expect(listOllamaModels({ baseUrl: 'http://gpu:11434/v1' })).resolves.toEqual([
+      {
+        id: 'qwen2.5-coder:7b',
+        name: 'qwen2.5-coder:7b',
+        family: 'qwen2',
+        parameterSize: '7.6B',
+        quantization: 'Q4_K_M',
+        sizeBytes: 4_683_087_332,
+      },
+    ]);
+
+    stubServer({ '/v1/models': { data: [{ id: 'llama-3.1-8b-instruct' }] } });
+    await expect(listOllamaModels()).resolves.toEqual([
+      { id: 'llama-3.1-8b-instruct', name: 'llama-3.1-8b-instruct' },
+    ]);
+  });
+
+  it('detects the context window from num_ctx, model_info, or llama.cpp props', async () => {
+    const fetchMock = stubServer({
+      '/api/show': {
+        parameters: 'stop "<|im_end|>"\nnum_ctx 32768',
+        model_info: { 'qwen2.context_length': 131072 },
+      },
+    });
+    await expect(getOllamaContextLength('qwen2.5-coder:7b')).resolves.toBe(32768);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:11434/api/show',
+      expect.objectContaining({ method: 'POST', body: '{"model":"qwen2.5-coder:7b"}' }),
+    );
+
+    stubServer({ '/api/show': { model_info: { 'llama.context_length': 131072 } } });
+    await expect(getOllamaContextLength('llama3.1')).resolves.toBe(131072);
+
+    stubServer({ '/props': { default_generation_settings: { n_ctx: 8192 } } });
+    await expect(getOllamaContextLength('local')).resolves.toBe(8192);
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => Response.json({ error: 'model not found' }, { status: 500 })),
+    );
+    await expect(getOllamaContextLength('missing')).rejects.toThrow('model not found');
+  });
+
+  it('recovers tool calls written as text for offered tools only', () => {
+    const tools = ['Read', 'Bash'];
+
+    expect(
+      recoverOllamaTextToolCalls('{"name":"Read","arguments":{"file_path":"a.ts"}}', tools),
+    ).toEqual([
+      {
+        id: expect.stringMatching(/^call_/),
+        type: 'function',
+        function: { name: 'Read', arguments: '{"file_path":"a.ts"}' },
+      },
+    ]);
+    expect(
+      recoverOllamaTextToolCalls(
+        '<tool_call>{"name":"Bash","parameters":{"command":"ls"}}</tool_call>\n' +
+          '<tool_call>{"name":"Read","arguments":"{\\"file_path\\":\\"b.ts\\"}"}</tool_call>',
+        tools,
+      )?.map((toolCall) => toolCall.function),
+    ).toEqual([
+      { name: 'Bash', arguments: '{"command":"ls"}' },
+      { name: 'Read', arguments: '{"file_path":"b.ts"}' },
+    ]);
+    expect(
+      recoverOllamaTextToolCalls(
+        '```json\n[{"function":{"name":"Read","arguments":{}}}]\n```',
+        tools,
+      )?.map((toolCall) => toolCall.function.name),
+    ).toEqual(['Read']);
+
+    expect(recoverOllamaTextToolCalls('{"name":"Write","arguments":{}}', tools)).toBeUndefined();
+    expect(recoverOllamaTextToolCalls('{"answer":42}', tools)).toBeUndefined();
+    expect(recoverOllamaTextToolCalls('Use {"name":"Read"} to read', tools)).toBeUndefined();
+  });
+
+  it('detects text that may still become a tool call', () => {
+    expect(mayBeOllamaTextToolCall('  {"na')).toBe(true);
+    expect(mayBeOllamaTextToolCall('<tool_')).toBe(true);
+    expect(mayBeOllamaTextToolCall('``')).toBe(true);
+    expect(mayBeOllamaTextToolCall('Sure, ')).toBe(false);
+  });
+
+  it('populates supportedModels from the local server', async () => {
+    stubServer({
+      '/api/tags': { models: [{ name: 'llama3.1:8b' }, { name: 'qwen3:4b' }] },
+      '/api/show': { model_info: { 'llama.context_length': 131072 } },
+    });
+    const session = await createSession({
+      provider: { type: 'ollama' },
+      model: 'llama3.1:8b',
+      persistSession: false,
+    });
+
+    await expect(session.supportedModels()).resolves.toEqual([
+      { id: 'llama3.1:8b', name: 'llama3.1:8b', provider: 'ollama', maxContextTokens: 131072 },
+      { id: 'qwen3:4b', name: 'qwen3:4b', provider: 'ollama', maxContextTokens: 131072 },
+    ]);
+    await session.close();
+  });
+});
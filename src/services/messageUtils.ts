@@ -41,6 +41,16 @@ export function cloneContentPart(part: ContentPart): ContentPart {
   };
 }
 
+/**
+ * Runtime check for a single ContentPart restored from JSON.
+ */
+export function isContentPart(value: unknown): value is ContentPart {
+  if (typeof value !== 'object' || value === null) return false;
+  const part = value as { type?: unknown; text?: unknown; image_url?: { url?: unknown } };
+  if (part.type === 'text') return typeof part.text === 'string';
+  return part.type === 'image_url' && typeof part.image_url?.url === 'string';
+}
+
 /**
  * Deep-clone a ToolCall.
  */
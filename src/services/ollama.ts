@@ -0,0 +1,208 @@
+import { nanoid } from 'nanoid';
+import type { JsonObject, JsonValue } from '../types/common.js';
+import type { ToolCall } from './ChatServiceInterface.js';
+
+export const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+export interface OllamaRequestOptions {
+  /** Server root, with or without the `/v1` suffix. Defaults to `OLLAMA_DEFAULT_BASE_URL`. */
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface OllamaModel {
+  id: string;
+  name: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+  sizeBytes?: number;
+}
+
+const TEXT_TOOL_CALL_PREFIXES = ['{', '[', '<tool_call>', '```'];
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toOptionalString(value: JsonValue | undefined): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/** Strips trailing slashes and the OpenAI-compatible `/v1` suffix. */
+export function resolveOllamaBaseUrl(baseUrl?: string): string {
+  const trimmed = (baseUrl || OLLAMA_DEFAULT_BASE_URL).replace(/\/+$/, '');
+  return trimmed.replace(/\/v1$/, '');
+}
+
+export function resolveOllamaOpenAIBaseUrl(baseUrl?: string): string {
+  return `${resolveOllamaBaseUrl(baseUrl)}/v1`;
+}
+
+async function requestOllamaJson(
+  path: string,
+  options: OllamaRequestOptions,
+  body?: JsonObject,
+): Promise<JsonObject | undefined> {
+  const response = await fetch(`${resolveOllamaBaseUrl(options.baseUrl)}${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...options.headers,
+    },
+    body: body ? JSON.stringify(body) : undefined,
+    signal: options.signal,
+  });
+  if (response.status === 404) {
+    return undefined;
+  }
+  const raw = (await response.json().catch(() => ({}))) as JsonValue;
+  if (!response.ok) {
+    const message =
+      isJsonObject(raw) && typeof raw.error === 'string'
+        ? raw.error
+        : `Local model server request ${path} failed with HTTP ${response.status}`;
+    throw new Error(message);
+  }
+  return isJsonObject(raw) ? raw : {};
+}
+
+/**
+ * Lists models from Ollama's `/api/tags`, falling back to the OpenAI-style
+ * `/v1/models` that llama.cpp and other local servers expose.
+ */
+export async function listOllamaModels(options: OllamaRequestOptions = {}): Promise<OllamaModel[]> {
+  const tags = await requestOllamaJson('/api/tags', options);
+  if (tags) {
+    const models = Array.isArray(tags.models) ? tags.models.filter(isJsonObject) : [];
+    return models.flatMap((model) => {
+      const id = toOptionalString(model.model) ?? toOptionalString(model.name);
+      if (!id) return [];
+      const details = isJsonObject(model.details) ? model.details : {};
+      return [
+        {
+          id,
+          name: toOptionalString(model.name) ?? id,
+          family: toOptionalString(details.family),
+          parameterSize: toOptionalString(details.parameter_size),
+          quantization: toOptionalString(details.quantization_level),
+          sizeBytes: typeof model.size === 'number' ? model.size : undefined,
+        },
+      ];
+    });
+  }
+
+  const openAIModels = await requestOllamaJson('/v1/models', options);
+  const data = Array.isArray(openAIModels?.data) ? openAIModels.data.filter(isJsonObject) : [];
+  return data.flatMap((model) => {
+    const id = toOptionalString(model.id);
+    return id ? [{ id, name: id }] : [];
+  });
+}
+
+function parseNumCtx(parameters: JsonValue | undefined): number | undefined {
+  if (typeof parameters !== 'string') return undefined;
+  const match = parameters.match(/^\s*num_ctx\s+(\d+)\s*$/m);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Detects the context window the server will run `model` with.
+ *
+ * Ollama: a `num_ctx` parameter from the Modelfile wins over the trained
+ * `<arch>.context_length` in `model_info`. llama.cpp: `n_ctx` from `/props`.
+ * Returns undefined when the server reports neither.
+ */
+export async function getOllamaContextLength(
+  model: string,
+  options: OllamaRequestOptions = {},
+): Promise<number | undefined> {
+  const show = await requestOllamaJson('/api/show', options, { model });
+  if (show) {
+    const numCtx = parseNumCtx(show.parameters);
+    if (numCtx) return numCtx;
+    const modelInfo = isJsonObject(show.model_info) ? show.model_info : {};
+    const contextKey = Object.keys(modelInfo).find((key) => key.endsWith('.context_length'));
+    const contextLength = contextKey ? modelInfo[contextKey] : undefined;
+    return typeof contextLength === 'number' && contextLength > 0 ? contextLength : undefined;
+  }
+
+  const props = await requestOllamaJson('/props', options);
+  const settings = isJsonObject(props?.default_generation_settings)
+    ? props.default_generation_settings
+    : {};
+  const nCtx = settings.n_ctx ?? props?.n_ctx;
+  return typeof nCtx === 'number' && nCtx > 0 ? nCtx : undefined;
+}
+
+/**
+ * True while `text` could still be the start of a tool call written as text,
+ * so streamed content can be held back until it is known.
+ */
+export function mayBeOllamaTextToolCall(text: string): boolean {
+  const trimmed = text.trimStart();
+  if (!trimmed) return true;
+  return TEXT_TOOL_CALL_PREFIXES.some(
+    (prefix) => trimmed.startsWith(prefix) || prefix.startsWith(trimmed),
+  );
+}
+
+function toTextToolCall(value: JsonValue, toolNames: ReadonlySet<string>): ToolCall | undefined {
+  if (!isJsonObject(value)) return undefined;
+  const fn = isJsonObject(value.function) ? value.function : value;
+  const name = toOptionalString(fn.name);
+  if (!name || !toolNames.has(name)) return undefined;
+  const args = fn.arguments ?? fn.parameters ?? {};
+  return {
+    id: `call_${nanoid(12)}`,
+    type: 'function',
+    function: {
+      name,
+      arguments: typeof args === 'string' ? args : JSON.stringify(args),
+    },
+  };
+}
+
+function parseTextToolCalls(
+  source: string,
+  toolNames: ReadonlySet<string>,
+): ToolCall[] | undefined {
+  let parsed: JsonValue;
+  try {
+    parsed = JSON.parse(source) as JsonValue;
+  } catch {
+    return undefined;
+  }
+  const candidates = Array.isArray(parsed) ? parsed : [parsed];
+  const toolCalls = candidates.map((candidate) => toTextToolCall(candidate, toolNames));
+  return toolCalls.length > 0 && toolCalls.every((toolCall) => toolCall !== undefined)
+    ? (toolCalls as ToolCall[])
+    : undefined;
+}
+
+/**
+ * Recovers tool calls that small local models write into the message text
+ * instead of the structured `tool_calls` field: a bare JSON object or array,
+ * a fenced JSON block, or `<tool_call>` tags. Only names in `toolNames` count.
+ */
+export function recoverOllamaTextToolCalls(
+  text: string,
+  toolNames: Iterable<string>,
+): ToolCall[] | undefined {
+  const names = new Set(toolNames);
+  const trimmed = text.trim();
+  if (!trimmed || names.size === 0) return undefined;
+
+  const tagged = [...trimmed.matchAll(/<tool_call>([\s\S]*?)<\/tool_call>/g)];
+  if (tagged.length > 0) {
+    if (trimmed.replace(/<tool_call>[\s\S]*?<\/tool_call>/g, '').trim()) return undefined;
+    const toolCalls = tagged.map((match) => parseTextToolCalls(match[1].trim(), names));
+    return toolCalls.every((calls) => calls !== undefined)
+      ? (toolCalls as ToolCall[][]).flat()
+      : undefined;
+  }
+
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return parseTextToolCalls(fenced ? fenced[1] : trimmed, names);
+}
@@ -122,7 +122,12 @@ export function parseDurableRuntimeContext(
       (!isJsonObject(network) ||
         (network.allowDomains !== undefined &&
           (!Array.isArray(network.allowDomains) ||
-            network.allowDomains.some((domain) => typeof domain !== 'string'))))
+            network.allowDomains.some((domain) => typeof domain !== 'string'))) ||
+        (network.denyDomains !== undefined &&
+          (!Array.isArray(network.denyDomains) ||
+            network.denyDomains.some((domain) => typeof domain !== 'string'))) ||
+        (network.allowPrivateNetwork !== undefined &&
+          typeof network.allowPrivateNetwork !== 'boolean'))
     ) {
       throw new SessionDurableRecorderError('Recoverable request network capability is invalid');
     }
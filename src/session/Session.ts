@@ -1,7 +1,10 @@
+import * as path from 'node:path';
 import { Mutex } from 'async-mutex';
 import { nanoid } from 'nanoid';
 import { Agent } from '../agent/Agent.js';
 import type { ChatContext, LoopResult, UserMessageContent } from '../agent/types.js';
+import { normalizeSessionStorageRoot } from '../context/storage/pathUtils.js';
+import { ConfigError } from '../errors/ConfigError.js';
 import { SessionInputError } from '../errors/SessionInputError.js';
 import { type CleanupHandle, registerCleanup } from '../lifecycle/CleanupRegistry.js';
 import { createRootLogger, type InternalLogger, LogCategory } from '../logging/Logger.js';
@@ -9,13 +12,27 @@ import { type AgentTrace, TraceRecorder } from '../observability/index.js';
 import {
     type ContextSnapshot,
     createContextSnapshot,
+    mergeContext,
     type RuntimeContext,
 } from '../runtime/index.js';
-import type { ContentPart, Message } from '../services/ChatServiceInterface.js';
+import {
+  type ChatServiceFactory,
+  type ContentPart,
+  createChatServiceAsync,
+  type Message,
+} from '../services/ChatServiceInterface.js';
 import { cloneMessage } from '../services/messageUtils.js';
+import { createMockChatServiceFactory, type MockModelScript } from '../services/MockChatService.js';
+import {
+  getOllamaContextLength,
+  listOllamaModels,
+  OLLAMA_DEFAULT_BASE_URL,
+} from '../services/ollama.js';
+import { SnapshotManager } from '../tools/builtin/file/SnapshotManager.js';
 import {
     CommandId,
     InputId,
+    MessageId,
     RequestId,
     SessionId,
 } from '../types/branded.js';
@@ -24,6 +41,7 @@ import {
     type JsonObject,
     type JsonValue,
     type ModelConfig,
+    type ModelFallbackReason,
     PermissionMode,
     type ProviderType,
 } from '../types/common.js';
@@ -76,10 +94,13 @@ import type {
     ISession,
     McpServerStatus,
     McpToolInfo,
+    ModelCandidate,
     ModelInfo,
     PendingSessionInput,
     PromptResult,
     ProviderConfig,
+    RewindOptions,
+    RewindResult,
     SendOptions,
     SessionOptions,
     StreamMessage,
@@ -89,6 +110,13 @@ import type {
 } from './types.js';
 import { InputPriority } from './types.js';
 
+const MODEL_FALLBACK_REASONS: readonly ModelFallbackReason[] = [
+  'overloaded',
+  'rate_limited',
+  'context_overflow',
+  'auth_failed',
+];
+
 export interface ResumeOptions extends SessionOptions {
   sessionId: SessionId;
 }
@@ -136,11 +164,19 @@ class Session implements ISession {
   private initialized = false;
   private cleanupHandle: CleanupHandle | null = null;
   private readonly traces: AgentTrace[] = [];
+  /** 当前请求的 trace，供请求外发起的记录（如模型路由决策）使用 */
+  private activeTraceRecorder: TraceRecorder | undefined;
   private readonly inputInbox = new SessionInputInbox();
   private readonly inputMutex = new Mutex();
+  private readonly fileCheckpoints: SnapshotManager;
   private durableJournal: DurableSessionJournal | null = null;
   private durableAcceptedRequest: DurableRequestProjection | null = null;
   private durableClosePromise: Promise<void> | null = null;
+  private durableContextOverlay: JsonObject | null = null;
+  private durableCommandTail: Promise<void> = Promise.resolve();
+  private durableCommandError: unknown;
+  /** 创建时的主模型，回退或切换到候选模型后仍可用 setModel 切回 */
+  private readonly primaryModel: ModelCandidate & { provider: ProviderConfig };
 
   /**
    * 请求阶段状态机：
@@ -165,14 +201,29 @@ class Session implements ISession {
   ) {
     this.sessionId = sessionId || SessionId(nanoid());
     this.options = options;
+    this.primaryModel = {
+      model: options.model,
+      provider: options.provider,
+      providerOptions: options.providerOptions,
+      maxContextTokens: options.maxContextTokens,
+      maxOutputTokens: options.maxOutputTokens,
+    };
     this.maxTurns = options.maxTurns ?? 200;
     this.permissionMode = options.permissionMode ?? PermissionMode.DEFAULT;
-    this.defaultContext = options.defaultContext ?? {};
+    this.defaultContext = this.scopeContext(options.defaultContext ?? {});
     this.persistenceEnabled = options.persistSession ?? true;
     this.store =
       this.persistenceEnabled && options.storagePath
         ? new JsonlSessionStore(options.storagePath)
         : new NoopSessionStore();
+    // 检查点与会话历史一起落盘，恢复会话后仍可 rewind 之前请求改动的文件
+    this.fileCheckpoints = new SnapshotManager({
+      sessionId: this.sessionId,
+      storageRoot:
+        this.persistenceEnabled && options.storagePath
+          ? path.dirname(normalizeSessionStorageRoot(options.storagePath))
+          : undefined,
+    });
     this.isResumeSession = isResume;
     this.rootLogger = createRootLogger(options.logger, this.sessionId);
     this.logger = this.rootLogger.child(LogCategory.AGENT);
@@ -191,7 +242,25 @@ class Session implements ISession {
   }
 
   setDefaultContext(context: RuntimeContext): void {
-    this.defaultContext = context;
+    this.defaultContext = this.scopeContext(context);
+  }
+
+  /**
+   * dry run 时把上下文中的项目路径替换为 scratch 副本，模型与工具只会看到 scratch 路径
+   */
+  private scopeContext(context: RuntimeContext): RuntimeContext {
+    return this.options.dryRun?.scopeContext(context) ?? context;
+  }
+
+  private createSnapshot(
+    turnContext?: RuntimeContext,
+    baseContext = this.defaultContext,
+  ): ContextSnapshot {
+    return createContextSnapshot(
+      this.sessionId,
+      nanoid(),
+      this.scopeContext(mergeContext(baseContext, turnContext)),
+    );
   }
 
   getLastTrace(): AgentTrace | undefined {
@@ -248,11 +317,18 @@ class Session implements ISession {
       await this.runtime.ensureSessionCreated();
     }
 
+    const systemPrompt = this.options.systemPrompt === undefined
+      ? undefined
+      : await this.runtime.getHookRuntime().runInstructionsLoaded({
+          source: 'systemPrompt',
+          instructions: this.options.systemPrompt,
+        });
+
     this.agent = await Agent.create(
       config,
       {
         permissionMode: this.permissionMode,
-        systemPrompt: this.options.systemPrompt,
+        systemPrompt,
         maxTurns: this.maxTurns,
         permissionHandler: this.options.permissionHandler,
         canUseTool: this.options.canUseTool,
@@ -263,6 +339,15 @@ class Session implements ISession {
       },
       this.runtime.getAgentRuntimeDeps(),
     );
+    const agent = this.agent;
+    this.runtime.getHookRuntime().setSideQuery((messages, signal, options) =>
+      agent.getChatService().sideQuery(messages, signal, options),
+    );
+    const restoredContext = parseDurableRuntimeContext(this.durableContextOverlay ?? undefined);
+    if (restoredContext) {
+      this.agent.applyRuntimeContextPatch({ scope: 'session', context: restoredContext });
+    }
+    this.durableContextOverlay = null;
 
     this.initialized = true;
     this.cleanupHandle = registerCleanup(() => this.close());
@@ -288,6 +373,14 @@ class Session implements ISession {
       this.logger.warn(`[Session] Failed to load history for session ${this.sessionId}:`, error);
     }
     this._messages = state?.messages ?? [];
+    try {
+      await this.fileCheckpoints.loadCheckpoints();
+    } catch (error) {
+      this.logger.warn(
+        `[Session] Failed to load file checkpoints for session ${this.sessionId}:`,
+        error,
+      );
+    }
     // Durable acceptance is authoritative. The legacy queue remains a
     // best-effort message/history projection and may be missing after a crash.
     await this.inputMutex.runExclusive(() => {
@@ -321,20 +414,125 @@ class Session implements ISession {
 
   private buildBladeConfig(): BladeConfig {
     const modelConfig = this.buildModelConfig();
+    const fallbackModels = (this.options.fallbackModels ?? []).map((candidate, index) => ({
+      candidate,
+      modelConfig: this.buildModelConfig(`fallback-${index + 1}`, candidate),
+    }));
+    const routingModels = (this.options.routingModels ?? []).map((candidate, index) =>
+      this.buildModelConfig(`route-${index + 1}`, candidate),
+    );
+    const models = [
+      modelConfig,
+      ...fallbackModels.map((fallback) => fallback.modelConfig),
+      ...routingModels,
+    ];
+    if (this.options.dryRun && this.options.fileSystem) {
+      throw new ConfigError('dryRun cannot be combined with a custom fileSystem');
+    }
 
     return {
-      models: [modelConfig],
+      models,
       currentModelId: modelConfig.id,
+      fallbackModels: fallbackModels.map(({ candidate, modelConfig }) => ({
+        modelId: modelConfig.id,
+        on: candidate.on ?? [...MODEL_FALLBACK_REASONS],
+      })),
+      modelRouter: this.createModelRouter(models),
       temperature: this.options.temperature ?? 0.7,
       permissions: {
         allow: [],
         deny: [],
       },
+      chatServiceFactory: this.options.chatServiceFactory ?? this.createMockChatServiceFactory(),
+      webFetch: this.options.webFetch,
+      fileSystem: this.options.dryRun?.fileSystem ?? this.options.fileSystem,
+      dryRun: this.options.dryRun,
+      fileCheckpoints: this.fileCheckpoints,
     };
   }
 
-  private buildModelConfig(): ModelConfig {
-    const provider = this.options.provider;
+  /**
+   * 把 SessionOptions.modelRouter 适配为 BladeConfig.modelRouter：
+   * 在模型名与 `models` id 之间转换，补充预算快照，并把决策记录到当前请求的 trace。
+   */
+  private createModelRouter(models: ModelConfig[]): BladeConfig['modelRouter'] {
+    const router = this.options.modelRouter;
+    if (!router) return undefined;
+    return async (request) => {
+      const current = models.find((m) => m.id === request.currentModelId);
+      const result = await router({
+        source: request.source,
+        currentModel: current?.model ?? request.currentModelId,
+        estimatedInputTokens: request.estimatedInputTokens,
+        budget: this.agent?.getTokenBudgetSnapshot(),
+        turn: request.turn,
+        subagentType: request.subagentType,
+        hints: request.metadata,
+      });
+      const decision = typeof result === 'string' ? { model: result } : result;
+      if (!decision) return undefined;
+      const target = models.find((m) => m.model === decision.model);
+      if (!target) {
+        throw new ConfigError(`modelRouter picked an unknown model: ${decision.model}`);
+      }
+      this.activeTraceRecorder?.addEvent('model_routed', {
+        source: request.source,
+        model: decision.model,
+        previousModel: current?.model,
+        reason: decision.reason,
+        turn: request.turn,
+        subagentType: request.subagentType,
+        estimatedInputTokens: request.estimatedInputTokens,
+      });
+      return { modelId: target.id, reason: decision.reason };
+    };
+  }
+
+  /**
+   * Mock provider 的 ChatService 工厂。使用同一脚本的模型共享脚本游标；
+   * 主模型与 fallback / 路由候选混用 mock 和真实 provider 时，按 ChatConfig 分发。
+   */
+  private createMockChatServiceFactory(): ChatServiceFactory | undefined {
+    const entries = [
+      { provider: this.options.provider, model: this.options.model },
+      ...[...(this.options.fallbackModels ?? []), ...(this.options.routingModels ?? [])].map(
+        (candidate) => ({
+          provider: candidate.provider ?? this.options.provider,
+          model: candidate.model,
+        }),
+      ),
+    ];
+    const factoriesByScript = new Map<MockModelScript, ChatServiceFactory>();
+    const factoriesByModel = new Map<string, ChatServiceFactory>();
+    for (const { provider, model } of entries) {
+      if (provider.type !== 'mock') continue;
+      if (!provider.script) {
+        throw new ConfigError("provider.script is required when provider.type is 'mock'");
+      }
+      const factory =
+        factoriesByScript.get(provider.script) ?? createMockChatServiceFactory(provider.script);
+      factoriesByScript.set(provider.script, factory);
+      if (!factoriesByModel.has(model)) factoriesByModel.set(model, factory);
+    }
+
+    const [defaultFactory] = factoriesByScript.values();
+    if (!defaultFactory) return undefined;
+    if (factoriesByScript.size === 1 && entries.every(({ provider }) => provider.type === 'mock')) {
+      return defaultFactory;
+    }
+    return (config) =>
+      config.provider === 'mock'
+        ? (factoriesByModel.get(config.model) ?? defaultFactory)(config)
+        : createChatServiceAsync(config);
+  }
+
+  /**
+   * 主模型（id `default`）、fallback 或路由候选的模型配置。
+   * 候选未指定 provider 时沿用 Session 的 provider 与 providerOptions。
+   */
+  private buildModelConfig(id = 'default', candidate?: ModelCandidate): ModelConfig {
+    const provider = candidate?.provider ?? this.options.provider;
+    const model = candidate?.model ?? this.options.model;
     const openAIHeaders =
       provider.type === 'openai'
         ? {
@@ -346,19 +544,24 @@ class Session implements ISession {
       ...provider.headers,
       ...openAIHeaders,
     };
+    const maxContextTokens = candidate ? candidate.maxContextTokens : this.options.maxContextTokens;
+    const providerOptions = candidate?.provider
+      ? candidate.providerOptions
+      : (candidate?.providerOptions ?? this.options.providerOptions);
 
     return {
-      id: 'default',
-      name: this.options.model,
+      id,
+      name: model,
       provider: this.mapProviderType(provider.type),
-      model: this.options.model,
+      model,
       apiKey: provider.apiKey || '',
       baseUrl: provider.baseUrl || this.getDefaultBaseUrl(provider.type),
       headers: Object.keys(headers).length > 0 ? headers : undefined,
-      maxContextTokens: this.options.maxContextTokens ?? 128000,
-      maxOutputTokens: this.options.maxOutputTokens,
+      // Ollama detects the window from the server when not set.
+      maxContextTokens: maxContextTokens ?? (provider.type === 'ollama' ? undefined : 128000),
+      maxOutputTokens: candidate?.maxOutputTokens ?? this.options.maxOutputTokens,
       temperature: this.options.temperature,
-      providerOptions: this.options.providerOptions,
+      providerOptions,
       thinkingEnabled: this.options.thinkingEnabled,
       thinkingBudget: this.options.thinkingBudget,
     };
@@ -372,6 +575,8 @@ class Session implements ISession {
       gemini: 'gemini',
       deepseek: 'deepseek',
       'azure-openai': 'azure-openai',
+      ollama: 'ollama',
+      mock: 'mock',
     };
     return mapping[type] || 'openai-compatible';
   }
@@ -384,6 +589,7 @@ class Session implements ISession {
       gemini: 'https://generativelanguage.googleapis.com',
       deepseek: 'https://api.deepseek.com',
       'azure-openai': '',
+      ollama: OLLAMA_DEFAULT_BASE_URL,
     };
     return urls[type] || '';
   }
@@ -393,6 +599,7 @@ class Session implements ISession {
     options?: SendOptions,
   ): Promise<InputSubmission> {
     await this.ensureInitialized();
+    await this.flushDurableCommands();
 
     return this.inputMutex.runExclusive(async () => {
       if (this.executionState.phase === 'closed') {
@@ -704,6 +911,7 @@ class Session implements ISession {
     };
 
     runtime.getHookRuntime().setTraceCollector(traceRecorder);
+    this.activeTraceRecorder = traceRecorder;
     try {
       message = await runtime.getHookRuntime().applyUserPromptSubmit(message);
     } catch (error) {
@@ -718,8 +926,10 @@ class Session implements ISession {
       }
       const errorMessage =
         terminalError instanceof Error ? terminalError.message : String(terminalError);
+      await this.runStopFailureHooks(runtime, 'exception', errorMessage);
       await finishTrace('error', { error: errorMessage });
       runtime.getHookRuntime().setTraceCollector(undefined);
+      this.activeTraceRecorder = undefined;
       // 初始输入已在进入 running 时移出收件箱；hook 失败时仍需与正常路径一样
       // 释放请求资源，否则会话会永久停留在 running 且外部 AbortSignal 监听器泄漏。
       requestController.dispose();
@@ -741,9 +951,11 @@ class Session implements ISession {
 
     const signal = requestController.requestSignal;
 
-    const snapshot =
-      pendingSnapshot ??
-      createContextSnapshot(this.sessionId, nanoid(), this.defaultContext, sendOptions?.context);
+    // 用户消息 ID 同时是本次请求的文件检查点 ID，创建消息时即写入历史
+    const userMessageId = MessageId(nanoid());
+    this.fileCheckpoints.beginCheckpoint(userMessageId);
+
+    const snapshot = pendingSnapshot ?? this.createSnapshot(sendOptions?.context);
     runtime.prepareTurn(snapshot);
 
     const context: ChatContext = {
@@ -762,9 +974,13 @@ class Session implements ISession {
       inputApplication: {
         inputId: input.inputId,
         requestId,
+        messageId: userMessageId,
       },
       runControl: requestController,
       toolExecutionLifecycle: durableRecorder ?? undefined,
+      modelResponseObserver: this.options.durableModelResponses
+        ? (durableRecorder ?? undefined)
+        : undefined,
     });
     let agentStreamCompleted = false;
 
@@ -1009,6 +1225,27 @@ class Session implements ISession {
             };
             break;
           }
+          case 'model_fallback':
+            // provider 为空表示 RetryPolicy 直接抛出的 fallback 信号，模型并未切换
+            if (value.provider) {
+              this.useModel(value.fallbackModel, value.provider);
+              if (this.durableJournal) {
+                this.recordModelChange(
+                  this.durableJournal,
+                  value.fallbackModel,
+                  value.originalModel,
+                );
+              }
+            }
+            traceRecorder?.addEvent('model_fallback', {
+              originalModel: value.originalModel,
+              fallbackModel: value.fallbackModel,
+              provider: value.provider,
+              reason: value.reason,
+              error: value.error,
+            });
+            yield { ...value, sessionId: this.sessionId };
+            break;
           case 'token_usage':
             totalUsage = {
               inputTokens: value.usage.inputTokens,
@@ -1032,6 +1269,7 @@ class Session implements ISession {
 
       if (!loopResult.success && !isAborted && !shouldExit) {
         const messageText = loopResult.error?.message || 'Unknown error';
+        await this.runStopFailureHooks(runtime, loopResult.error?.type ?? 'error', messageText);
         await finishDurableRequest({
           status: 'failed',
           error: messageText,
@@ -1117,6 +1355,7 @@ class Session implements ISession {
         }
       }
       runtime.getHookRuntime().setTraceCollector(undefined);
+      this.activeTraceRecorder = undefined;
       requestController.dispose();
       await this.finishRequest(requestId);
       if (this.executionState.phase === 'closed') {
@@ -1226,13 +1465,36 @@ class Session implements ISession {
   }
 
   setPermissionMode(mode: PermissionMode): void {
+    const previousMode = this.permissionMode;
     this.permissionMode = mode;
+    if (this.durableJournal && mode !== previousMode) {
+      this.recordPermissionModeChange(this.durableJournal, mode, previousMode);
+    }
   }
 
   async setModel(model: string): Promise<void> {
     await this.ensureInitialized();
-    await this.getAgent().setModel(model);
-    this.options.model = model;
+    await this.flushDurableCommands();
+    const previousModel = this.options.model;
+    const agent = this.getAgent();
+    await agent.setModel(model);
+    if (this.durableJournal && model !== previousModel) {
+      try {
+        await this.durableJournal.commit({
+          commandId: CommandId(nanoid()),
+          events: [
+            {
+              type: DurableEventType.MODEL_CHANGED,
+              data: { model, previousModel },
+            },
+          ],
+        });
+      } catch (error) {
+        await agent.setModel(previousModel);
+        throw error;
+      }
+    }
+    this.useModel(model);
     this.logger.debug(`[Session] Updated model to ${model}`);
   }
 
@@ -1241,6 +1503,21 @@ class Session implements ISession {
   }
 
   async supportedModels(): Promise<ModelInfo[]> {
+    const provider = this.options.provider;
+    if (provider.type === 'ollama') {
+      const requestOptions = { baseUrl: provider.baseUrl, headers: provider.headers };
+      const models = await listOllamaModels(requestOptions);
+      return Promise.all(
+        models.map(async (model) => ({
+          id: model.id,
+          name: model.name,
+          provider: provider.type,
+          maxContextTokens: await getOllamaContextLength(model.id, requestOptions).catch(
+            () => undefined,
+          ),
+        })),
+      );
+    }
     return [
       {
         id: 'default',
@@ -1314,7 +1591,9 @@ class Session implements ISession {
       return;
     }
 
-    const journal = await DurableSessionJournal.open(eventStore, this.sessionId);
+    const journal = await DurableSessionJournal.open(eventStore, this.sessionId, {
+      ...(this.options.durableSnapshots ? { snapshots: this.options.durableSnapshots } : {}),
+    });
     const projection = journal.getProjection();
     if (projection.status === 'empty') {
       await journal.commit({
@@ -1348,9 +1627,16 @@ class Session implements ISession {
     if (resumeDecision.action === 'recovery_required') {
       throw new DurableSessionRecoveryRequiredError(resumeDecision.recoveryPlan);
     }
+    const { runtime } = resumeDecision;
     if (resumeDecision.action === 'resume_accepted_request') {
       this.durableAcceptedRequest = resumeDecision.request;
-      this.options.model = resumeDecision.request.model;
+    }
+    if (runtime.model) {
+      this.useModel(runtime.model);
+    }
+    this.permissionMode = runtime.permissionMode ?? this.permissionMode;
+    if (runtime.contextOverlay?.scope === 'session') {
+      this.durableContextOverlay = runtime.contextOverlay.context;
     }
     this.durableJournal = journal;
   }
@@ -1375,6 +1661,97 @@ class Session implements ISession {
     return recorder;
   }
 
+  /**
+   * The journal serializes commits, so later requests are ordered after this
+   * change; a failure surfaces from the next send() or setModel().
+   */
+  private recordPermissionModeChange(
+    journal: DurableSessionJournal,
+    mode: PermissionMode,
+    previousMode: PermissionMode,
+  ): void {
+    const commit = journal.commit({
+      commandId: CommandId(nanoid()),
+      events: [
+        {
+          type: DurableEventType.PERMISSION_MODE_CHANGED,
+          data: { mode, previousMode },
+        },
+      ],
+    });
+    const settled = commit.then(
+      () => undefined,
+      (error: unknown) => {
+        this.durableCommandError ??= error;
+      },
+    );
+    this.durableCommandTail = Promise.all([this.durableCommandTail, settled]).then(() => undefined);
+  }
+
+  /**
+   * 记录模型回退。Agent 已经切到候选模型，提交失败时无法撤销，
+   * 与权限模式变更一样在下一次 flush 时抛出。
+   */
+  private recordModelChange(
+    journal: DurableSessionJournal,
+    model: string,
+    previousModel: string,
+  ): void {
+    const commit = journal.commit({
+      commandId: CommandId(nanoid()),
+      events: [
+        {
+          type: DurableEventType.MODEL_CHANGED,
+          data: { model, previousModel },
+        },
+      ],
+    });
+    const settled = commit.then(
+      () => undefined,
+      (error: unknown) => {
+        this.durableCommandError ??= error;
+      },
+    );
+    this.durableCommandTail = Promise.all([this.durableCommandTail, settled]).then(() => undefined);
+  }
+
+  /**
+   * 把 options 中的当前模型切到 `model`。名称匹配主模型、fallback 或路由候选时，
+   * provider 与相关选项一起切换，fork、trace 和 supportedModels 才与 Agent 实际调用的模型一致；
+   * 不匹配时 Agent 沿用当前 provider，这里也只改模型名。
+   */
+  private useModel(model: string, provider?: ProviderType): void {
+    const primary = this.primaryModel;
+    const candidate = [
+      primary,
+      ...(this.options.fallbackModels ?? []),
+      ...(this.options.routingModels ?? []),
+    ].find(
+      (entry) =>
+        entry.model === model &&
+        (!provider ||
+          this.mapProviderType((entry.provider ?? primary.provider).type) === provider),
+    );
+    this.options.model = model;
+    if (!candidate) return;
+    // 与 buildModelConfig 一致：候选未指定 provider 时沿用主模型的 provider 与 providerOptions
+    this.options.provider = candidate.provider ?? primary.provider;
+    this.options.providerOptions = candidate.provider
+      ? candidate.providerOptions
+      : (candidate.providerOptions ?? primary.providerOptions);
+    this.options.maxContextTokens = candidate.maxContextTokens;
+    this.options.maxOutputTokens = candidate.maxOutputTokens ?? primary.maxOutputTokens;
+  }
+
+  private async flushDurableCommands(): Promise<void> {
+    await this.durableCommandTail;
+    const error = this.durableCommandError;
+    if (error !== undefined) {
+      this.durableCommandError = undefined;
+      throw error;
+    }
+  }
+
   private async closeDurableSession(): Promise<void> {
     if (this.durableClosePromise) {
       return this.durableClosePromise;
@@ -1421,6 +1798,21 @@ class Session implements ISession {
     return reason?.kind === 'session_close' ? 'session_close' : 'user_abort';
   }
 
+  /**
+   * 请求失败时触发 StopFailure hooks；hook 自身的错误只记录日志，不覆盖原始失败
+   */
+  private async runStopFailureHooks(
+    runtime: SessionRuntime,
+    reason: string,
+    error: string,
+  ): Promise<void> {
+    try {
+      await runtime.getHookRuntime().runStopFailure({ reason, error });
+    } catch (hookError) {
+      this.logger.warn('[Session] StopFailure hook failed:', hookError);
+    }
+  }
+
   private async finishRequest(requestId: RequestId): Promise<void> {
     await this.inputMutex.runExclusive(() => {
       if (
@@ -1457,21 +1849,18 @@ class Session implements ISession {
       message: input.content,
       options: options || null,
       durableRecorder,
-      snapshot: snapshot ?? createContextSnapshot(
-        this.sessionId,
-        nanoid(),
-        this.defaultContext,
-        options?.context,
-      ),
+      snapshot: snapshot ?? this.createSnapshot(options?.context),
     };
   }
 
   private durableExecutionSnapshot(state: Extract<SessionExecutionState, { phase: 'pending' }>): {
     maxTurns: number;
+    permissionMode: PermissionMode;
     context: JsonObject;
   } {
     return {
       maxTurns: state.options?.maxTurns ?? this.maxTurns,
+      permissionMode: this.permissionMode,
       context: serializeDurableRuntimeContext(state.snapshot.context),
     };
   }
@@ -1495,7 +1884,7 @@ class Session implements ISession {
     this.inputInbox.enqueue(input);
 
     const recoveredContext = parseDurableRuntimeContext(request.context) ?? this.defaultContext;
-    const snapshot = createContextSnapshot(this.sessionId, nanoid(), recoveredContext);
+    const snapshot = this.createSnapshot(undefined, recoveredContext);
     const sendOptions: SendOptions = {
       ...(request.maxTurns !== undefined ? { maxTurns: request.maxTurns } : {}),
     };
@@ -1613,6 +2002,61 @@ class Session implements ISession {
     return forkedSession;
   }
 
+  async rewind(messageId: string, options?: RewindOptions): Promise<RewindResult> {
+    await this.ensureInitialized();
+    await this.flushDurableCommands();
+
+    return this.inputMutex.runExclusive(async () => {
+      if (this.executionState.phase === 'closed') {
+        throw new Error('Session is closed');
+      }
+      if (this.executionState.phase !== 'idle') {
+        throw new Error('Cannot rewind while a request is in progress');
+      }
+
+      const index = this._messages.findIndex((message) => message.id === messageId);
+      if (index === -1) {
+        throw new Error(`Message with ID "${messageId}" not found in session history`);
+      }
+
+      // 回滚目标消息及之后开始的请求，以及目标之后声明的工具调用（目标在请求中途时）
+      const later = this._messages.slice(index);
+      const restoredFiles = await this.fileCheckpoints.rewindCheckpoints(
+        {
+          messageIds: new Set(later.flatMap((message) => (message.id ? [message.id] : []))),
+          toolCallIds: new Set(
+            later.flatMap((message) => message.tool_calls?.map((call) => call.id) ?? []),
+          ),
+        },
+        this.options.dryRun?.fileSystem ?? this.options.fileSystem,
+      );
+      const keepConversation = options?.keepConversation ?? false;
+      const removedMessages = keepConversation ? 0 : this._messages.length - index;
+      if (!keepConversation) {
+        this._messages = this._messages.slice(0, index);
+        // 同时截断持久化的会话历史，resume / fork 不会带回被回滚的消息
+        await this.getRuntime()
+          .getContextManager()
+          .saveSessionRewound(this.sessionId, MessageId(messageId));
+      }
+
+      await this.durableJournal?.commit({
+        commandId: CommandId(nanoid()),
+        events: [
+          {
+            type: DurableEventType.SESSION_REWOUND,
+            data: { messageId, keepConversation, removedMessages, restoredFiles },
+          },
+        ],
+      });
+      this.logger.debug(
+        `[Session] Rewound to ${messageId}: ${removedMessages} messages removed, ${restoredFiles.length} files restored`,
+      );
+
+      return { messageId, removedMessages, restoredFiles };
+    });
+  }
+
   private cloneSnapshotMessages(snapshot: SessionSnapshot | null): Message[] {
     if (!snapshot) {
       return [];
@@ -4,6 +4,7 @@ import { AgentSessionStore } from '../agent/subagents/AgentSessionStore.js';
 import { BackgroundAgentManager } from '../agent/subagents/BackgroundAgentManager.js';
 import { SubagentRegistry } from '../agent/subagents/SubagentRegistry.js';
 import { ContextManager } from '../context/ContextManager.js';
+import { splitSessionHooks } from '../hooks/callbackHooks.js';
 import { HookManager } from '../hooks/HookManager.js';
 import { HookRuntime } from '../hooks/HookRuntime.js';
 import type { InternalLogger } from '../logging/Logger.js';
@@ -11,13 +12,17 @@ import { LogCategory } from '../logging/Logger.js';
 import { projectMcpCapabilities, type McpServerCapability } from '../mcp/McpCapabilityProjector.js';
 import { McpRegistry } from '../mcp/McpRegistry.js';
 import type { SdkMcpServerHandle } from '../mcp/SdkMcpServer.js';
+import { ProjectInstructions } from '../prompts/ProjectInstructions.js';
 import type { ContextSnapshot, RuntimeContext } from '../runtime/index.js';
 import {
   getContextCwd,
 } from '../runtime/index.js';
 import { getSandboxExecutor } from '../sandbox/SandboxExecutor.js';
 import { getSandboxService } from '../sandbox/SandboxService.js';
+import { getFileSystemService } from '../services/FileSystemService.js';
+import { createSkillRegistry, type SkillRegistry } from '../skills/index.js';
 import { getBuiltinTools } from '../tools/builtin/index.js';
+import { BackgroundShellManager } from '../tools/builtin/shell/BackgroundShellManager.js';
 import { ToolCatalog } from '../tools/catalog/ToolCatalog.js';
 import { toolFromDefinition } from '../tools/core/createTool.js';
 import { ExecutionPipeline } from '../tools/execution/ExecutionPipeline.js';
@@ -104,6 +109,8 @@ export class SessionRuntime {
   private readonly backgroundAgentManager: BackgroundAgentManager;
   private readonly hookCallbacks: Partial<Record<HookEvent, HookCallback[]>>;
   private readonly hookRuntime: HookRuntime;
+  private readonly projectInstructions?: ProjectInstructions;
+  private readonly skillRegistry?: SkillRegistry;
   private readonly rootLogger: InternalLogger;
   private readonly logger: InternalLogger;
   private initialized = false;
@@ -133,13 +140,30 @@ export class SessionRuntime {
       },
       projectPath: getContextCwd(defaultContext),
     });
-    this.hookCallbacks = options.hooks || {};
+    const { callbacks, callbackHooks } = splitSessionHooks(options.hooks);
+    this.hookCallbacks = callbacks;
     this.hookRuntime = new HookRuntime({
       sessionId,
       permissionMode,
       callbacks: this.hookCallbacks,
+      callbackHooks,
       resolveProjectDir: () => getContextCwd(this.defaultContext),
     });
+    if (options.instructions) {
+      this.projectInstructions = new ProjectInstructions(
+        getFileSystemService({ bladeConfig }),
+        options.instructions === true ? {} : options.instructions,
+        (file) =>
+          this.hookRuntime.runInstructionsLoaded({
+            source: file.scope,
+            filePath: file.path,
+            instructions: file.content,
+          }),
+      );
+    }
+    this.skillRegistry = options.skills
+      ? createSkillRegistry(options.skills, getContextCwd(defaultContext))
+      : undefined;
     this.executionPipeline = this.createExecutionPipeline();
   }
 
@@ -152,6 +176,8 @@ export class SessionRuntime {
       subagentRegistry: this.subagentRegistry,
       backgroundAgentManager: this.backgroundAgentManager,
       hookRuntime: this.hookRuntime,
+      projectInstructions: this.projectInstructions,
+      skillRegistry: this.skillRegistry,
       runtimeManaged: true,
       logger: this.rootLogger,
     };
@@ -225,6 +251,7 @@ export class SessionRuntime {
   }
 
   async close(): Promise<void> {
+    BackgroundShellManager.getInstance().disposePersistentShell(this.sessionId);
     await this.mcpRegistry.disconnectAll();
   }
 
@@ -420,10 +447,25 @@ export class SessionRuntime {
   private createPermissionHandler(): PermissionHandler | undefined {
     const hasPermissionCallbacks =
       (this.hookCallbacks[HookEvent.PermissionRequest]?.length ?? 0) > 0;
-    const basePermissionHandler = this.options.permissionHandler
+    const hostPermissionHandler = this.options.permissionHandler
       ?? (this.options.canUseTool
         ? createPermissionHandlerFromCanUseTool(this.options.canUseTool)
         : undefined);
+    // 交给宿主决策即进入等待权限状态，先触发 Notification hooks
+    const basePermissionHandler = hostPermissionHandler
+      ? (async (request) => {
+          try {
+            await this.hookRuntime.runNotification({
+              notificationType: 'permission_prompt',
+              message: `Permission requested to use ${request.toolName}`,
+              abortSignal: request.signal,
+            });
+          } catch (error) {
+            this.logger.warn('[SessionRuntime] Notification hook failed:', error);
+          }
+          return hostPermissionHandler(request);
+        }) satisfies PermissionHandler
+      : undefined;
 
     if (!hasPermissionCallbacks && !basePermissionHandler) {
       return undefined;
@@ -11,7 +11,8 @@ import type {
   SessionInfo,
 } from '../context/types.js';
 import type { ContentPart, Message, ToolCall } from '../services/ChatServiceInterface.js';
-import { cloneJsonValue, cloneMessage } from '../services/messageUtils.js';
+import { cloneContentPart, cloneJsonValue, cloneMessage } from '../services/messageUtils.js';
+import { isMultimodalContent } from '../tools/types/ToolResult.js';
 import type { JsonValue, MessageRole } from '../types/common.js';
 import { MessageId, type SessionId } from '../types/branded.js';
 
@@ -391,6 +392,16 @@ export class JsonlSessionStore implements SessionStore {
         continue;
       }
 
+      if (entry.type === 'session_rewound') {
+        const index = orderedMessageIds.indexOf(entry.data.messageId);
+        if (index !== -1) {
+          for (const messageId of orderedMessageIds.splice(index)) {
+            messageRecords.delete(messageId);
+          }
+        }
+        continue;
+      }
+
       if (entry.type !== 'part_created' && entry.type !== 'part_updated') {
         continue;
       }
@@ -693,7 +704,11 @@ export class JsonlSessionStore implements SessionStore {
         record.message.role = 'tool';
         record.message.tool_call_id = toolCallId;
         record.message.name = toolName;
-        record.message.content = error ? `Error: ${error}` : stringifyContent(output);
+        record.message.content = error
+          ? `Error: ${error}`
+          : isMultimodalContent(output)
+            ? output.parts.map(cloneContentPart)
+            : stringifyContent(output);
 
         const toolCallState = getToolCallState(toolCalls, toolOccurrenceKey ?? toolCallId, {
           id: toolCallId,
@@ -53,10 +53,14 @@ let streamChat: StreamChat = async function* defaultStream() {
   };
 };
 
+const applyRuntimeContextPatch = vi.fn();
+const setAgentModel = vi.fn(async (_model: string) => {});
+
 const createAgent = vi.fn(async (_config?: unknown, _options?: unknown, _deps?: unknown) => ({
   streamChat: (message: UserMessageContent, context: unknown, options?: LoopOptions) =>
     streamChat(message, context, options),
-  async setModel() {},
+  setModel: setAgentModel,
+  applyRuntimeContextPatch,
 }));
 
 vi.mock('../../agent/Agent.js', () => ({
@@ -523,6 +527,143 @@ describe('Session durable events', () => {
     await session.close();
   });
 
+  it('records model, permission mode and context changes and restores them on resume', async () => {
+    const { root, store } = createStore();
+    const session = await createSession(options(store));
+    session.setPermissionMode('plan');
+    await session.setModel('switched-model');
+    streamChat = async function* patchingStream() {
+      yield { type: 'turn_start', turn: 1, maxTurns: 10 };
+      yield {
+        type: 'tool_context_patch',
+        toolCall: {
+          id: 'worktree-call',
+          type: 'function',
+          function: { name: 'EnterWorktree', arguments: '{}' },
+        },
+        patch: { scope: 'session', context: { environment: { WORKTREE: 'feature' } } },
+      };
+      yield {
+        type: 'compacting',
+        isCompacting: false,
+        result: { trigger: 'auto', strategy: 'truncate', retainedMessages: 40 },
+      };
+      yield { type: 'turn_end', turn: 1, hasToolCalls: true };
+      return {
+        success: true,
+        finalMessage: 'done',
+        metadata: { turnsCount: 1, toolCallsCount: 1, duration: 1 },
+      };
+    };
+    await session.send('enter the worktree');
+    for await (const _event of session.stream()) {
+      // Drain the request.
+    }
+    // The first Session is never closed, as if its process had crashed.
+
+    const events = (await store.read(session.sessionId)).events;
+    expect(events.map((event) => event.type)).toEqual([
+      'session_created',
+      'permission_mode_changed',
+      'model_changed',
+      'request_accepted',
+      'input_applied',
+      'request_started',
+      'turn_started',
+      'context_patched',
+      'context_compacted',
+      'turn_completed',
+      'request_completed',
+    ]);
+    expect(events[1]?.data).toEqual({ mode: 'plan', previousMode: 'default' });
+    expect(events[2]?.data).toEqual({ model: 'switched-model', previousModel: 'test-model' });
+    expect(events[3]?.data).toMatchObject({ model: 'switched-model', permissionMode: 'plan' });
+
+    applyRuntimeContextPatch.mockClear();
+    let observedContext: unknown;
+    streamChat = async function* observingStream(_message, context) {
+      observedContext = context;
+      yield { type: 'turn_start', turn: 1, maxTurns: 10 };
+      yield { type: 'turn_end', turn: 1, hasToolCalls: false };
+      return {
+        success: true,
+        finalMessage: 'resumed',
+        metadata: { turnsCount: 1, toolCallsCount: 0, duration: 1 },
+      };
+    };
+    const resumed = await resumeSession({
+      ...options(store),
+      persistSession: true,
+      storagePath: root,
+      sessionId: session.sessionId,
+    });
+    const createdConfig = createAgent.mock.calls.at(-1)?.[0] as
+      | { models?: Array<{ model?: string }> }
+      | undefined;
+    expect(createdConfig?.models?.[0]?.model).toBe('switched-model');
+    expect(createAgent.mock.calls.at(-1)?.[1]).toMatchObject({ permissionMode: 'plan' });
+    expect(applyRuntimeContextPatch).toHaveBeenCalledWith({
+      scope: 'session',
+      context: { environment: { WORKTREE: 'feature' } },
+    });
+    await resumed.send('continue');
+    for await (const _event of resumed.stream()) {
+      // Drain the request.
+    }
+    expect(observedContext).toMatchObject({ permissionMode: 'plan' });
+    await resumed.close();
+  });
+
+  it('reverts the agent model when the model switch cannot be recorded', async () => {
+    const { store } = createStore();
+    const failingStore = new FailOnEventTypeStore(store, DurableEventType.MODEL_CHANGED);
+    const session = await createSession(options(failingStore));
+    setAgentModel.mockClear();
+
+    await expect(session.setModel('switched-model')).rejects.toBeInstanceOf(
+      DurableCommandOutcomeUnknownError,
+    );
+    expect(setAgentModel.mock.calls).toEqual([['switched-model'], ['test-model']]);
+    expect((await session.supportedModels())[0]?.name).toBe('test-model');
+    // The uncertain commit keeps blocking the journal until it is reopened.
+    await expect(session.close()).rejects.toBeInstanceOf(DurableCommandOutcomeUnknownError);
+  });
+
+  it('journals model responses only when durableModelResponses is enabled', async () => {
+    const { store } = createStore();
+    const observers: unknown[] = [];
+    streamChat = async function* respondingStream(_message, _context, loopOptions) {
+      observers.push(loopOptions?.modelResponseObserver);
+      yield { type: 'turn_start', turn: 1, maxTurns: 10 };
+      await loopOptions?.modelResponseObserver?.onModelResponse({
+        streamed: true,
+        tools: [],
+        chunks: [{ content: 'hi' }, { finishReason: 'stop' }],
+      });
+      yield { type: 'turn_end', turn: 1, hasToolCalls: false };
+      return {
+        success: true,
+        finalMessage: 'hi',
+        metadata: { turnsCount: 1, toolCallsCount: 0, duration: 1 },
+      };
+    };
+
+    for (const durableModelResponses of [false, true]) {
+      const session = await createSession({ ...options(store), durableModelResponses });
+      await session.send('hello');
+      for await (const _event of session.stream()) {
+        // Drain the request.
+      }
+      const events = (await store.read(session.sessionId)).events;
+      expect(
+        events.filter((event) => event.type === DurableEventType.MODEL_RESPONDED),
+      ).toHaveLength(durableModelResponses ? 1 : 0);
+      await session.close();
+    }
+    expect(observers[0]).toBeUndefined();
+    expect(observers[1]).toBeDefined();
+  });
+
   it('allows only one concurrent resume to cross request_started', async () => {
     const { root, store } = createStore();
     const sessionId = SessionId('concurrent-recovery-session');
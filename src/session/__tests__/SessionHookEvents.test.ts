@@ -0,0 +1,340 @@
+import { mkdir, mkdtemp, realpath, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HookManager } from '../../hooks/HookManager.js';
+import type { HookEventCallback } from '../../hooks/types/HookTypes.js';
+import type { MockModelScript } from '../../services/MockChatService.js';
+import { defineTool } from '../../tools/core/createTool.js';
+import { PermissionMode } from '../../types/common.js';
+import { HookEvent } from '../../types/constants.js';
+import { createSession } from '../Session.js';
+import type { ISession, SessionOptions, StreamMessage } from '../types.js';
+
+async function run(session: ISession, message: string): Promise<StreamMessage[]> {
+  await session.send(message);
+  const messages: StreamMessage[] = [];
+  for await (const event of session.stream()) {
+    messages.push(event);
+  }
+  return messages;
+}
+
+describe('Session hook events', () => {
+  let dir: string;
+  let session: ISession | undefined;
+  const manager = HookManager.getInstance();
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'blade-hook-events-')));
+  });
+
+  afterEach(async () => {
+    await session?.close();
+    session = undefined;
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function open(script: MockModelScript, options: Partial<SessionOptions> = {}) {
+    return createSession({
+      provider: { type: 'mock', script },
+      model: 'mock-model',
+      persistSession: false,
+      permissionMode: PermissionMode.YOLO,
+      defaultContext: { capabilities: { filesystem: { roots: [dir], cwd: dir } } },
+      ...options,
+    });
+  }
+
+  it('fires FileChanged for file tools and for external changes between turns', async () => {
+    const fileChanged = vi.spyOn(manager, 'executeFileChangedHooks');
+    const file = join(dir, 'notes.txt');
+    session = await open(
+      {
+        steps: [
+          { toolCalls: [{ name: 'Write', input: { file_path: file, content: 'one\n' } }] },
+          {
+            toolCalls: [
+              { name: 'Edit', input: { file_path: file, old_string: 'one', new_string: 'two' } },
+            ],
+          },
+          { text: 'edited' },
+          { text: 'noticed' },
+        ],
+      },
+      { allowedTools: ['Write', 'Edit'] },
+    );
+
+    await run(session, 'write then edit');
+    expect(fileChanged.mock.calls.map(([params]) => params)).toEqual([
+      { file_path: file, change_type: 'created' },
+      { file_path: file, change_type: 'modified' },
+    ]);
+
+    const later = new Date(Date.now() + 10_000);
+    await utimes(file, later, later);
+    await run(session, 'anything new?');
+    expect(fileChanged).toHaveBeenCalledTimes(3);
+    expect(fileChanged.mock.calls[2][0]).toEqual({ file_path: file, change_type: 'modified' });
+  });
+
+  it('fires CwdChanged when a tool patches the working directory', async () => {
+    const cwdChanged = vi.spyOn(manager, 'executeCwdChangedHooks');
+    const nested = join(dir, 'packages');
+    const chdir = defineTool({
+      name: 'Chdir',
+      sideEffect: 'pure',
+      description: 'Change the working directory',
+      parameters: { type: 'object', properties: {} },
+      async *execute() {
+        yield {
+          kind: 'effect' as const,
+          effect: {
+            type: 'contextPatch' as const,
+            patch: {
+              scope: 'session' as const,
+              context: { capabilities: { filesystem: { roots: [dir], cwd: nested } } },
+            },
+          },
+        };
+        return { status: 'success' as const, model: nested };
+      },
+    });
+    session = await open(
+      { steps: [{ toolCalls: [{ name: 'Chdir', input: {} }] }, { text: 'moved' }] },
+      { tools: [chdir], allowedTools: ['Chdir'] },
+    );
+
+    await run(session, 'cd packages');
+
+    expect(cwdChanged).toHaveBeenCalledWith(
+      { old_cwd: dir, new_cwd: nested },
+      dir,
+      expect.anything(),
+      PermissionMode.YOLO,
+      undefined,
+      expect.anything(),
+    );
+  });
+
+  it('fires StopFailure when a request fails', async () => {
+    const stopFailure = vi.spyOn(manager, 'executeStopFailureHooks');
+    session = await open({ steps: [{ error: 'Unauthorized' }] }, { allowedTools: [] });
+
+    const messages = await run(session, 'hello');
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'error' }));
+    expect(stopFailure).toHaveBeenCalledTimes(1);
+    expect(stopFailure.mock.calls[0][0]).toMatchObject({
+      reason: expect.any(String),
+      error: expect.stringContaining('Unauthorized'),
+    });
+  });
+
+  it('fires Notification before asking the host for permission', async () => {
+    const notification = vi.spyOn(manager, 'executeNotificationHooks');
+    const echo = defineTool({
+      name: 'Echo',
+      sideEffect: 'pure',
+      description: 'Echo text back',
+      parameters: { type: 'object', properties: {} },
+      // biome-ignore lint/correctness/useYield: terminal-only tool execution
+      async *execute() {
+        return { status: 'success' as const, model: 'echo' };
+      },
+    });
+    const canUseTool = vi.fn(async () => ({ behavior: 'allow' as const }));
+    session = await open(
+      { steps: [{ toolCalls: [{ name: 'Echo', input: {} }] }, { text: 'done' }] },
+      {
+        tools: [echo],
+        allowedTools: ['Echo'],
+        permissionMode: PermissionMode.DEFAULT,
+        canUseTool,
+      },
+    );
+
+    await run(session, 'echo');
+
+    expect(canUseTool).toHaveBeenCalled();
+    expect(notification).toHaveBeenCalledWith(
+      'permission_prompt',
+      'Permission requested to use Echo',
+      expect.objectContaining({ projectDir: dir }),
+    );
+  });
+
+  it('lets InstructionsLoaded hooks rewrite the session instructions', async () => {
+    const instructionsLoaded = vi
+      .spyOn(manager, 'executeInstructionsLoadedHooks')
+      .mockResolvedValue({ proceed: true, modified_instructions: 'Answer in French.' });
+    session = await open(
+      {
+        steps: [
+          {
+            expect: (messages) =>
+              messages.some(
+                (message) =>
+                  message.role === 'system' &&
+                  JSON.stringify(message.content).includes('Answer in French.'),
+              ),
+            text: 'Bonjour',
+          },
+        ],
+      },
+      { allowedTools: [], systemPrompt: 'Answer in English.' },
+    );
+
+    const messages = await run(session, 'hello');
+
+    expect(instructionsLoaded).toHaveBeenCalledWith(
+      { source: 'systemPrompt', instructions_length: 'Answer in English.'.length },
+      dir,
+      expect.anything(),
+      PermissionMode.YOLO,
+      undefined,
+      expect.anything(),
+    );
+    expect(messages).toContainEqual(
+      expect.objectContaining({ type: 'result', content: 'Bonjour' }),
+    );
+  });
+
+  it('layers project instruction files and activates nested ones after a Read', async () => {
+    const instructionsLoaded = vi
+      .spyOn(manager, 'executeInstructionsLoadedHooks')
+      .mockResolvedValue({ proceed: true });
+    await mkdir(join(dir, 'db'));
+    await writeFile(join(dir, 'BLADE.md'), 'Root rules');
+    await writeFile(join(dir, 'db', 'AGENTS.md'), 'DB rules');
+    await writeFile(join(dir, 'db', 'schema.sql'), 'create table t (id int);');
+    const systemText = (messages: readonly { role: string; content: unknown }[]) =>
+      messages
+        .filter((message) => message.role === 'system')
+        .map((message) => JSON.stringify(message.content))
+        .join('\n');
+    session = await open(
+      {
+        steps: [
+          {
+            expect: (messages) =>
+              systemText(messages).includes('Root rules') && !systemText(messages).includes('DB rules'),
+            toolCalls: [{ name: 'Read', input: { file_path: join(dir, 'db', 'schema.sql') } }],
+          },
+          {
+            expect: (messages) => systemText(messages).includes('DB rules'),
+            text: 'done',
+          },
+        ],
+      },
+      { allowedTools: ['Read'], instructions: { userDir: false } },
+    );
+
+    const messages = await run(session, 'check the schema');
+
+    expect(messages).toContainEqual(expect.objectContaining({ type: 'result', content: 'done' }));
+    expect(instructionsLoaded.mock.calls.map(([params]) => params)).toEqual([
+      { source: 'project', instructions_length: 10, file_path: join(dir, 'BLADE.md') },
+      { source: 'nested', instructions_length: 8, file_path: join(dir, 'db', 'AGENTS.md') },
+    ]);
+  });
+
+  it('runs Stop callbacks from SessionOptions.hooks without a filesystem context', async () => {
+    let stopCalls = 0;
+    const stop = vi.fn<HookEventCallback<typeof HookEvent.Stop>>(async () =>
+      ++stopCalls === 1
+        ? {
+            hookSpecificOutput: {
+              hookEventName: 'Stop',
+              continue: false,
+              continueReason: 'Also list the caveats.',
+            },
+          }
+        : undefined,
+    );
+    session = await createSession({
+      provider: {
+        type: 'mock',
+        script: {
+          steps: [
+            { text: 'Answer.' },
+            { expect: 'Also list the caveats.', text: 'Answer with caveats.' },
+          ],
+        },
+      },
+      model: 'mock-model',
+      persistSession: false,
+      permissionMode: PermissionMode.YOLO,
+      allowedTools: [],
+      hooks: { [HookEvent.Stop]: [stop] },
+    });
+
+    const messages = await run(session, 'hello');
+
+    expect(stop).toHaveBeenCalledTimes(2);
+    expect(stop.mock.calls[0][0]).toMatchObject({
+      hook_event_name: HookEvent.Stop,
+      session_id: session.sessionId,
+      project_dir: process.cwd(),
+    });
+    expect(messages.at(-1)).toMatchObject({ type: 'result', content: 'Answer with caveats.' });
+  });
+
+  it('runs subagent lifecycle callbacks around Task', async () => {
+    const subagentStart = vi.fn<HookEventCallback<typeof HookEvent.SubagentStart>>(async () => ({
+      hookSpecificOutput: {
+        hookEventName: 'SubagentStart',
+        additionalContext: 'Only look under src/.',
+      },
+    }));
+    const subagentStop = vi.fn<HookEventCallback<typeof HookEvent.SubagentStop>>(
+      async () => undefined,
+    );
+    session = await open(
+      {
+        steps: [
+          {
+            toolCalls: [
+              {
+                name: 'Task',
+                input: {
+                  subagent_type: 'Explore',
+                  description: 'Find the entry point',
+                  prompt: 'Locate the entry point',
+                },
+              },
+            ],
+          },
+          { expect: 'Only look under src/.', text: 'src/index.ts' },
+          { text: 'done' },
+        ],
+      },
+      {
+        hooks: {
+          [HookEvent.SubagentStart]: [subagentStart],
+          [HookEvent.SubagentStop]: [subagentStop],
+        },
+      },
+    );
+
+    const messages = await run(session, 'where does it start?');
+
+    expect(subagentStart.mock.calls[0][0]).toMatchObject({
+      agent_type: 'Explore',
+      task_description: 'Find the entry point',
+      project_dir: dir,
+    });
+    expect(subagentStop.mock.calls[0][0]).toMatchObject({
+      agent_type: 'Explore',
+      success: true,
+    });
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        type: 'tool_result',
+        name: 'Task',
+        output: expect.stringContaining('src/index.ts'),
+      }),
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { MockModelScript } from '../../services/MockChatService.js';
+import { defineTool } from '../../tools/core/createTool.js';
+import { multimodalContent } from '../../tools/types/index.js';
+import { PermissionMode } from '../../types/common.js';
+import type { CanUseTool } from '../../types/permissions.js';
+import { createSession } from '../Session.js';
+import type { StreamMessage } from '../types.js';
+
+const echoTool = defineTool({
+  name: 'Echo',
+  sideEffect: 'pure',
+  description: 'Echo text back',
+  parameters: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text'],
+  },
+  // biome-ignore lint/correctness/useYield: terminal-only tool execution
+  async *execute(params: { text: string }) {
+    return { status: 'success' as const, model: `echo: ${params.text}` };
+  },
+});
+
+const partsTool = defineTool({
+  name: 'Parts',
+  sideEffect: 'pure',
+  description: 'Return content parts',
+  parameters: {
+    type: 'object',
+    properties: { tagged: { type: 'boolean' } },
+    required: ['tagged'],
+  },
+  // biome-ignore lint/correctness/useYield: terminal-only tool execution
+  async *execute(params: { tagged: boolean }) {
+    const parts = [{ type: 'text' as const, text: 'from parts' }];
+    return {
+      status: 'success' as const,
+      model: params.tagged ? multimodalContent(parts) : parts,
+    };
+  },
+});
+
+async function run(script: MockModelScript, canUseTool?: CanUseTool) {
+  const session = await createSession({
+    provider: { type: 'mock', script },
+    model: 'mock-model',
+    persistSession: false,
+    allowedTools: ['Echo', 'Parts'],
+    tools: [echoTool, partsTool],
+    permissionMode: PermissionMode.YOLO,
+    canUseTool,
+  });
+  await session.send('please echo hi');
+  const messages: StreamMessage[] = [];
+  for await (const message of session.stream()) {
+    messages.push(message);
+  }
+  await session.close();
+  return messages;
+}
+
+describe('Session with the mock provider', () => {
+  it('drives tool calls and the final answer from the script', async () => {
+    const messages = await run({
+      steps: [
+        { expect: /echo hi/, toolCalls: [{ name: 'Echo', input: { text: 'hi' } }] },
+        { expect: 'echo: hi', text: 'The tool said hi' },
+      ],
+    });
+
+    expect(messages).toContainEqual(
+      expect.objectContaining({ type: 'tool_use', name: 'Echo', input: { text: 'hi' } }),
+    );
+    expect(messages).toContainEqual(
+      expect.objectContaining({ type: 'tool_result', id: 'mock-call-1', output: 'echo: hi' }),
+    );
+    expect(messages.at(-1)).toMatchObject({
+      type: 'result',
+      subtype: 'success',
+      content: 'The tool said hi',
+    });
+  });
+
+  it('exercises permission handlers and answers later turns from rules', async () => {
+    const canUseTool = vi.fn<CanUseTool>(async () => ({ behavior: 'deny', message: 'not today' }));
+    const messages = await run(
+      {
+        steps: [{ toolCalls: [{ name: 'Echo', input: { text: 'hi' } }] }],
+        rules: [{ when: (history) => history.at(-1)?.role === 'tool', text: 'Denied, stopping' }],
+      },
+      canUseTool,
+    );
+
+    expect(canUseTool).toHaveBeenCalledWith(
+      'Echo',
+      { text: 'hi' },
+      expect.objectContaining({ toolKind: 'execute' }),
+    );
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        type: 'tool_result',
+        id: 'mock-call-1',
+        isError: true,
+        output: expect.stringContaining('not today'),
+      }),
+    );
+    expect(messages.at(-1)).toMatchObject({ type: 'result', content: 'Denied, stopping' });
+  });
+
+  it('sends only tagged multimodal tool output to the model as content parts', async () => {
+    const toolContents: unknown[] = [];
+    const messages = await run({
+      steps: [
+        {
+          toolCalls: [
+            { name: 'Parts', input: { tagged: false } },
+            { name: 'Parts', input: { tagged: true } },
+          ],
+        },
+      ],
+      rules: [
+        {
+          when: (history) => {
+            toolContents.push(...history.filter((m) => m.role === 'tool').map((m) => m.content));
+            return true;
+          },
+          text: 'done',
+        },
+      ],
+    });
+
+    expect(messages.at(-1)).toMatchObject({ type: 'result', content: 'done' });
+    expect(toolContents).toEqual([
+      JSON.stringify([{ type: 'text', text: 'from parts' }], null, 2),
+      [{ type: 'text', text: 'from parts' }],
+    ]);
+  });
+
+  it('fails the request when the conversation leaves the script', async () => {
+    const messages = await run({ steps: [{ expect: 'goodbye', text: 'unreachable' }] });
+
+    expect(messages.at(-1)).toMatchObject({
+      type: 'error',
+      message: expect.stringContaining('Mock model step 1 expected "goodbye"'),
+    });
+  });
+
+  it('requires a script for the mock provider', async () => {
+    await expect(
+      createSession({ provider: { type: 'mock' }, model: 'mock-model', persistSession: false }),
+    ).rejects.toMatchObject({ code: 'CONFIG_ERROR' });
+  });
+});
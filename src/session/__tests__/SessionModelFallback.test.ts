@@ -0,0 +1,164 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { classifyModelError } from '../../agent/classifyModelError.js';
+import { CannotRetryError } from '../../services/RetryPolicy.js';
+import type { MockModelScript } from '../../services/MockChatService.js';
+import { JsonlDurableEventStore } from '../events/JsonlDurableEventStore.js';
+import { createSession, resumeSession } from '../Session.js';
+import type { ISession, ModelFallbackCandidate, StreamMessage } from '../types.js';
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+async function drain(session: ISession, message: string): Promise<StreamMessage[]> {
+  await session.send(message);
+  const messages: StreamMessage[] = [];
+  for await (const streamMessage of session.stream()) {
+    messages.push(streamMessage);
+  }
+  return messages;
+}
+
+async function collect(
+  script: MockModelScript,
+  fallbackModels: ModelFallbackCandidate[],
+): Promise<{ messages: StreamMessage[]; model: string }> {
+  const session = await createSession({
+    provider: { type: 'mock', script },
+    model: 'primary-model',
+    fallbackModels,
+    persistSession: false,
+  });
+  await session.send('hello');
+  const messages: StreamMessage[] = [];
+  for await (const message of session.stream()) {
+    messages.push(message);
+  }
+  const [model] = await session.supportedModels();
+  await session.close();
+  return { messages, model: model.name };
+}
+
+describe('model fallback', () => {
+  it('classifies provider failures by error class', () => {
+    const withStatus = (status: number, message = 'failed') =>
+      Object.assign(new Error(message), { status });
+
+    expect(classifyModelError(withStatus(529))).toBe('overloaded');
+    expect(classifyModelError(new CannotRetryError(withStatus(429), {}))).toBe('rate_limited');
+    expect(classifyModelError(withStatus(401))).toBe('auth_failed');
+    expect(classifyModelError(new Error('Invalid API key provided'))).toBe('auth_failed');
+    expect(
+      classifyModelError(new Error("This model's maximum context length is 8192 tokens")),
+    ).toBe('context_overflow');
+    expect(classifyModelError(withStatus(400, 'Bad request'))).toBeUndefined();
+  });
+
+  it('switches to the next candidate and retries the turn', async () => {
+    const { messages, model } = await collect(
+      {
+        steps: [{ error: '429 Too Many Requests' }, { text: 'answered by backup' }],
+      },
+      [{ model: 'large-context-model', on: ['context_overflow'] }, { model: 'backup-model' }],
+    );
+
+    expect(messages.filter((message) => message.type === 'turn_start')).toHaveLength(1);
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        type: 'model_fallback',
+        originalModel: 'primary-model',
+        fallbackModel: 'backup-model',
+        provider: 'mock',
+        reason: 'rate_limited',
+        error: '429 Too Many Requests',
+      }),
+    );
+    expect(messages.at(-1)).toMatchObject({
+      type: 'result',
+      subtype: 'success',
+      content: 'answered by backup',
+    });
+    expect(model).toBe('backup-model');
+  });
+
+  it('fails the request when no candidate accepts the error class', async () => {
+    const { messages } = await collect({ steps: [{ error: 'Unauthorized' }] }, [
+      { model: 'backup-model', on: ['overloaded', 'rate_limited'] },
+    ]);
+
+    expect(messages.some((message) => message.type === 'model_fallback')).toBe(false);
+    expect(messages.at(-1)).toMatchObject({
+      type: 'error',
+      message: expect.stringContaining('Unauthorized'),
+    });
+  });
+
+  it('answers from the candidate provider script', async () => {
+    const { messages } = await collect(
+      { steps: [{ error: 'Service Unavailable: model overloaded' }] },
+      [
+        {
+          model: 'other-provider-model',
+          provider: { type: 'mock', script: { steps: [{ text: 'from the other script' }] } },
+        },
+      ],
+    );
+
+    expect(messages).toContainEqual(
+      expect.objectContaining({ type: 'model_fallback', reason: 'overloaded' }),
+    );
+    expect(messages.at(-1)).toMatchObject({ type: 'result', content: 'from the other script' });
+  });
+
+  it('keeps the fallback provider for forks and resumed sessions', async () => {
+    const storagePath = await mkdtemp(join(tmpdir(), 'blade-model-fallback-'));
+    tempDirs.push(storagePath);
+    const durableEventStore = new JsonlDurableEventStore(join(storagePath, 'events'));
+    // The primary script only fails, so a session on the wrong provider falls back again.
+    const options = {
+      provider: { type: 'mock' as const, script: { steps: [{ error: '429 Too Many Requests' }] } },
+      model: 'primary-model',
+      fallbackModels: [
+        {
+          model: 'backup-model',
+          provider: {
+            type: 'mock' as const,
+            script: { steps: [{ text: 'answered by backup' }] },
+          },
+        },
+      ],
+      storagePath,
+      durableEventStore,
+    };
+    const session = await createSession(options);
+    await drain(session, 'hello');
+
+    const { events } = await durableEventStore.read(session.sessionId);
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: 'model_changed',
+        data: { model: 'backup-model', previousModel: 'primary-model' },
+      }),
+    );
+
+    const fork = await session.fork();
+    const forkMessages = await drain(fork, 'from the fork');
+    expect(forkMessages.some((message) => message.type === 'model_fallback')).toBe(false);
+    expect(forkMessages.at(-1)).toMatchObject({ type: 'result', content: 'answered by backup' });
+    await fork.close();
+
+    // The first Session is never closed, as if its process had crashed.
+    const resumed = await resumeSession({ ...options, sessionId: session.sessionId });
+    const [model] = await resumed.supportedModels();
+    expect(model.name).toBe('backup-model');
+    const resumedMessages = await drain(resumed, 'after resume');
+    expect(resumedMessages.some((message) => message.type === 'model_fallback')).toBe(false);
+    expect(resumedMessages.at(-1)).toMatchObject({ type: 'result', content: 'answered by backup' });
+    await resumed.close();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it, vi } from 'vitest';
+import { defineTool } from '../../tools/core/createTool.js';
+import { PermissionMode } from '../../types/common.js';
+import { createSession } from '../Session.js';
+import type { ModelRouter, SessionOptions, StreamMessage } from '../types.js';
+
+const echoTool = defineTool({
+  name: 'Echo',
+  sideEffect: 'pure',
+  description: 'Echo text back',
+  parameters: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text'],
+  },
+  // biome-ignore lint/correctness/useYield: terminal-only tool execution
+  async *execute(params: { text: string }) {
+    return { status: 'success' as const, model: `echo: ${params.text}` };
+  },
+});
+
+async function run(options: Partial<SessionOptions> & Pick<SessionOptions, 'provider'>) {
+  const session = await createSession({
+    model: 'strong-model',
+    persistSession: false,
+    permissionMode: PermissionMode.YOLO,
+    observability: { enabled: true, capturePayloads: true },
+    ...options,
+  });
+  await session.send('route me', { context: { metadata: { tier: 'cheap' } } });
+  const messages: StreamMessage[] = [];
+  for await (const message of session.stream()) {
+    messages.push(message);
+  }
+  const trace = session.getLastTrace();
+  await session.close();
+  return { messages, trace };
+}
+
+describe('model routing', () => {
+  it('routes a single main-loop turn and records the decision in the trace', async () => {
+    const modelRouter = vi.fn<ModelRouter>((request) =>
+      request.turn === 1 ? { model: 'cheap-model', reason: 'tool planning' } : undefined,
+    );
+    const { messages, trace } = await run({
+      provider: { type: 'mock', script: { steps: [{ text: 'strong answer' }] } },
+      routingModels: [
+        {
+          model: 'cheap-model',
+          provider: {
+            type: 'mock',
+            script: { steps: [{ toolCalls: [{ name: 'Echo', input: { text: 'hi' } }] }] },
+          },
+        },
+      ],
+      modelRouter,
+      tokenBudget: { maxTotalTokens: 100_000 },
+      tools: [echoTool],
+      allowedTools: ['Echo'],
+    });
+
+    expect(modelRouter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: 'main_thread',
+        currentModel: 'strong-model',
+        turn: 1,
+        hints: { tier: 'cheap' },
+        budget: expect.objectContaining({ budgetRemaining: 100_000 }),
+      }),
+    );
+    expect(modelRouter.mock.calls[1][0]).toMatchObject({ turn: 2, currentModel: 'strong-model' });
+    expect(messages).toContainEqual(
+      expect.objectContaining({ type: 'tool_result', output: 'echo: hi' }),
+    );
+    expect(messages.at(-1)).toMatchObject({ type: 'result', content: 'strong answer' });
+
+    const routed = trace?.events.filter((event) => event.type === 'model_routed') ?? [];
+    expect(routed).toHaveLength(1);
+    expect(routed[0].data).toMatchObject({
+      source: { value: 'main_thread' },
+      model: { value: 'cheap-model' },
+      previousModel: { value: 'strong-model' },
+      reason: { value: 'tool planning' },
+    });
+  });
+
+  it('routes subagents when they are created', async () => {
+    const modelRouter = vi.fn<ModelRouter>((request) =>
+      request.source === 'agent' && request.subagentType === 'Explore' ? 'cheap-model' : undefined,
+    );
+    const { messages } = await run({
+      provider: {
+        type: 'mock',
+        script: {
+          steps: [
+            {
+              toolCalls: [
+                {
+                  name: 'Task',
+                  input: {
+                    subagent_type: 'Explore',
+                    description: 'Find the answer',
+                    prompt: 'Look around the repository and report back',
+                  },
+                },
+              ],
+            },
+            { text: 'done' },
+          ],
+        },
+      },
+      routingModels: [
+        {
+          model: 'cheap-model',
+          provider: { type: 'mock', script: { steps: [{ text: 'explored cheaply' }] } },
+        },
+      ],
+      modelRouter,
+    });
+
+    expect(modelRouter).toHaveBeenCalledWith(
+      expect.objectContaining({ source: 'agent', subagentType: 'Explore' }),
+    );
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        type: 'tool_result',
+        name: 'Task',
+        output: expect.stringContaining('explored cheaply'),
+      }),
+    );
+    expect(messages.at(-1)).toMatchObject({ type: 'result', content: 'done' });
+  });
+});
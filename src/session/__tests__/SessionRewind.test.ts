@@ -0,0 +1,223 @@
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, realpath, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PermissionMode } from '../../types/common.js';
+import { createSession, forkSession, resumeSession } from '../Session.js';
+import type { ISession, SessionOptions } from '../types.js';
+
+async function run(session: ISession, message: string): Promise<void> {
+  await session.send(message);
+  for await (const event of session.stream()) {
+    if (event.type === 'error') {
+      throw new Error(event.message);
+    }
+  }
+}
+
+function rewindOptions(dir: string, options: Partial<SessionOptions>): SessionOptions {
+  const existing = join(dir, 'existing.txt');
+  const created = join(dir, 'created.txt');
+  return {
+    provider: {
+      type: 'mock',
+      script: {
+        steps: [
+          { expect: 'first', toolCalls: [{ name: 'Read', input: { file_path: existing } }] },
+          {
+            toolCalls: [{ name: 'Write', input: { file_path: existing, content: 'changed\n' } }],
+          },
+          { text: 'Updated existing.txt' },
+          {
+            expect: 'second',
+            toolCalls: [{ name: 'Write', input: { file_path: created, content: 'new\n' } }],
+          },
+          { text: 'Created created.txt' },
+        ],
+      },
+    },
+    model: 'mock-model',
+    allowedTools: ['Read', 'Write'],
+    permissionMode: PermissionMode.YOLO,
+    defaultContext: { capabilities: { filesystem: { roots: [dir], cwd: dir } } },
+    ...options,
+  };
+}
+
+describe('Session.rewind', () => {
+  let dir: string;
+  let session: ISession;
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'blade-rewind-')));
+    await writeFile(join(dir, 'existing.txt'), 'original\n');
+
+    session = await createSession(rewindOptions(dir, { persistSession: false }));
+    await run(session, 'first');
+    await run(session, 'second');
+  });
+
+  afterEach(async () => {
+    await session.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('restores files written after a message and truncates the conversation', async () => {
+    const [first, second] = session.messages.filter((message) => message.role === 'user');
+    expect(first.id).toBeDefined();
+    expect(second.id).toBeDefined();
+    expect(await readFile(join(dir, 'existing.txt'), 'utf8')).toBe('changed\n');
+    expect(existsSync(join(dir, 'created.txt'))).toBe(true);
+
+    const keep = await session.rewind(second.id as string, { keepConversation: true });
+    expect(keep).toEqual({
+      messageId: second.id,
+      removedMessages: 0,
+      restoredFiles: [join(dir, 'created.txt')],
+    });
+    expect(existsSync(join(dir, 'created.txt'))).toBe(false);
+    expect(session.messages.some((message) => message.id === second.id)).toBe(true);
+
+    const messageCount = session.messages.length;
+    const rewound = await session.rewind(first.id as string);
+    expect(rewound).toEqual({
+      messageId: first.id,
+      removedMessages: messageCount,
+      restoredFiles: [join(dir, 'existing.txt')],
+    });
+    expect(await readFile(join(dir, 'existing.txt'), 'utf8')).toBe('original\n');
+    expect(session.messages).toEqual([]);
+  });
+
+  it('rejects unknown message IDs', async () => {
+    await expect(session.rewind('missing')).rejects.toThrow(
+      'Message with ID "missing" not found in session history',
+    );
+  });
+});
+
+describe('Session.rewind with persistence', () => {
+  let dir: string;
+  let storagePath: string;
+  const sessions: ISession[] = [];
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'blade-rewind-')));
+    storagePath = await mkdtemp(join(tmpdir(), 'blade-rewind-storage-'));
+    await writeFile(join(dir, 'existing.txt'), 'original\n');
+  });
+
+  afterEach(async () => {
+    await Promise.all(sessions.splice(0).map((session) => session.close()));
+    await rm(dir, { recursive: true, force: true });
+    await rm(storagePath, { recursive: true, force: true });
+  });
+
+  function track(session: ISession): ISession {
+    sessions.push(session);
+    return session;
+  }
+
+  async function runBoth(): Promise<{ session: ISession; firstId: string; secondId: string }> {
+    const session = track(await createSession(rewindOptions(dir, { storagePath })));
+    await run(session, 'first');
+    await run(session, 'second');
+    const [first, second] = session.messages.filter((message) => message.role === 'user');
+    return { session, firstId: first.id as string, secondId: second.id as string };
+  }
+
+  it('restores files from persisted checkpoints and keeps rewound messages out of resumed history', async () => {
+    const { session, firstId, secondId } = await runBoth();
+    await session.close();
+
+    const resumed = track(
+      await resumeSession({ ...rewindOptions(dir, { storagePath }), sessionId: session.sessionId }),
+    );
+    const resumedUserIds = resumed.messages
+      .filter((message) => message.role === 'user')
+      .map((message) => message.id);
+    expect(resumedUserIds).toEqual([firstId, secondId]);
+
+    const rewound = await resumed.rewind(secondId);
+    expect(rewound.restoredFiles).toEqual([join(dir, 'created.txt')]);
+    expect(existsSync(join(dir, 'created.txt'))).toBe(false);
+    const remaining = resumed.messages.map((message) => message.id);
+    await resumed.close();
+
+    const again = track(
+      await resumeSession({ ...rewindOptions(dir, { storagePath }), sessionId: session.sessionId }),
+    );
+    expect(again.messages.map((message) => message.id)).toEqual(remaining);
+    expect(again.messages.some((message) => message.id === secondId)).toBe(false);
+
+    await expect(again.rewind(firstId)).resolves.toMatchObject({
+      restoredFiles: [join(dir, 'existing.txt')],
+    });
+    expect(await readFile(join(dir, 'existing.txt'), 'utf8')).toBe('original\n');
+  });
+
+  it('restores only the edits made after a message in the middle of a request', async () => {
+    const existing = join(dir, 'existing.txt');
+    const options = rewindOptions(dir, {
+      storagePath,
+      provider: {
+        type: 'mock',
+        script: {
+          steps: [
+            { toolCalls: [{ name: 'Read', input: { file_path: existing } }] },
+            { toolCalls: [{ name: 'Write', input: { file_path: existing, content: 'one\n' } }] },
+            { toolCalls: [{ name: 'Write', input: { file_path: existing, content: 'two\n' } }] },
+            { text: 'Wrote twice' },
+          ],
+        },
+      },
+    });
+    const session = track(await createSession(options));
+    await run(session, 'edit twice');
+    await session.close();
+    expect(await readFile(existing, 'utf8')).toBe('two\n');
+
+    // Resumed history carries IDs for assistant and tool messages, not just user messages.
+    const resumed = track(await resumeSession({ ...options, sessionId: session.sessionId }));
+    const declaring = (content: string) =>
+      resumed.messages.find((message) =>
+        message.tool_calls?.some((call) => call.function.arguments.includes(content)),
+      )?.id as string;
+    const secondWrite = declaring('two');
+    const firstWrite = declaring('one');
+
+    await expect(resumed.rewind(secondWrite)).resolves.toMatchObject({
+      restoredFiles: [existing],
+    });
+    expect(await readFile(existing, 'utf8')).toBe('one\n');
+
+    // The first write's result comes after its declaration, so rewinding to it keeps the edit.
+    const firstResult = resumed.messages.at(-1);
+    expect(firstResult?.role).toBe('tool');
+    await expect(resumed.rewind(firstResult?.id as string)).resolves.toMatchObject({
+      restoredFiles: [],
+    });
+    expect(await readFile(existing, 'utf8')).toBe('one\n');
+
+    await expect(resumed.rewind(firstWrite)).resolves.toMatchObject({ restoredFiles: [existing] });
+    expect(await readFile(existing, 'utf8')).toBe('original\n');
+  });
+
+  it('does not bring rewound messages back into forks', async () => {
+    const { session, firstId, secondId } = await runBoth();
+    await session.rewind(secondId);
+    const userIds = (target: ISession) =>
+      target.messages.filter((message) => message.role === 'user').map((message) => message.id);
+
+    const forked = track(await session.fork());
+    expect(forked.messages).toHaveLength(session.messages.length);
+    expect(userIds(forked)).toEqual([firstId]);
+
+    const stored = track(
+      await forkSession({ ...rewindOptions(dir, { storagePath }), sessionId: session.sessionId }),
+    );
+    expect(stored.messages).toHaveLength(session.messages.length);
+    expect(userIds(stored)).toEqual([firstId]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { SkillsOptions } from '../../skills/types.js';
+import { PermissionMode } from '../../types/common.js';
+import { createSession } from '../Session.js';
+import type { StreamMessage } from '../types.js';
+
+function inlineSkill(name: string) {
+  return { name, description: `${name} skill`, instructions: `Follow the ${name} playbook.` };
+}
+
+async function invokeSkill(skills: SkillsOptions, skill: string): Promise<StreamMessage[]> {
+  const session = await createSession({
+    provider: {
+      type: 'mock',
+      script: {
+        steps: [{ toolCalls: [{ name: 'Skill', input: { skill } }] }, { text: 'done' }],
+      },
+    },
+    model: 'mock-model',
+    persistSession: false,
+    permissionMode: PermissionMode.YOLO,
+    allowedTools: ['Skill'],
+    skills,
+  });
+  try {
+    await session.send(`use ${skill}`);
+    const messages: StreamMessage[] = [];
+    for await (const message of session.stream()) {
+      messages.push(message);
+    }
+    return messages;
+  } finally {
+    await session.close();
+  }
+}
+
+describe('Session skills', () => {
+  it('gives each session its own skill registry', async () => {
+    const [tenantA, tenantB] = await Promise.all([
+      invokeSkill({ definitions: [inlineSkill('alpha')] }, 'alpha'),
+      invokeSkill({ definitions: [inlineSkill('beta')] }, 'alpha'),
+    ]);
+
+    expect(tenantA).toContainEqual(
+      expect.objectContaining({
+        type: 'tool_result',
+        output: expect.stringContaining('Follow the alpha playbook.'),
+      }),
+    );
+    expect(tenantB).toContainEqual(
+      expect.objectContaining({
+        type: 'tool_result',
+        isError: true,
+        output: 'Skill "alpha" not found. Available skills: beta',
+      }),
+    );
+  });
+
+  it('hides denied skills', async () => {
+    const messages = await invokeSkill(
+      { definitions: [inlineSkill('alpha'), inlineSkill('beta')], deny: ['alpha'] },
+      'alpha',
+    );
+
+    expect(messages).toContainEqual(
+      expect.objectContaining({
+        type: 'tool_result',
+        output: 'Skill "alpha" not found. Available skills: beta',
+      }),
+    );
+  });
+});
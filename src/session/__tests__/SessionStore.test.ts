@@ -248,6 +248,35 @@ describe('JsonlSessionStore', () => {
     ]);
   });
 
+  it('drops messages from a rewound message onwards', async () => {
+    const workspaceRoot = createWorkspaceRoot();
+    const persistentStore = new PersistentStore(workspaceRoot);
+    const sessionStore = new JsonlSessionStore(workspaceRoot);
+    const sessionId = SessionId('session-rewound');
+
+    const first = await persistentStore.saveAppliedInputMessage(
+      sessionId,
+      InputId('input-1'),
+      RequestId('request-1'),
+      'first',
+      null,
+      undefined,
+      MessageId('user-1'),
+    );
+    await persistentStore.saveMessage(sessionId, 'assistant', 'one', first);
+    await persistentStore.saveMessage(sessionId, 'user', 'second');
+    await persistentStore.saveMessage(sessionId, 'assistant', 'two');
+    await persistentStore.saveSessionRewound(sessionId, MessageId('user-1'));
+    await persistentStore.saveMessage(sessionId, 'user', 'third');
+
+    const state = await sessionStore.loadState(sessionId);
+
+    assertDefined(state);
+    expect(first).toBe('user-1');
+    expect(state.messages.map((message) => message.content)).toEqual(['third']);
+    expect(state.messageIds).toHaveLength(1);
+  });
+
   it('should repair legacy message ID collisions and duplicate tool calls', async () => {
     const workspaceRoot = createWorkspaceRoot();
     const sessionId = SessionId('session-legacy-tool-collision');
@@ -1,5 +1,6 @@
 import { SdkError } from '../../errors/SdkError.js';
 import type { EventSequence, SessionId } from '../../types/branded.js';
+import type { DurableSessionSnapshot } from './schemas.js';
 import type {
   DurableEventAppendOptions,
   DurableEventAppendResult,
@@ -20,6 +21,45 @@ export interface DurableEventStore {
   getHeadSequence(sessionId: SessionId): Promise<EventSequence | null>;
 }
 
+export interface DurableEventCompactionResult {
+  /** Highest removed sequence, or null when the log has never been compacted. */
+  readonly compactedThroughSequence: EventSequence | null;
+  /** Number of events removed by this call. */
+  readonly removedEvents: number;
+}
+
+/**
+ * Optional DurableEventStore extension that keeps projector snapshots next to
+ * the log and can prune the events a snapshot already covers.
+ *
+ * Compaction never renumbers events. Reads with a cursor at or after
+ * `compactedThroughSequence` behave as before; older cursors, including a read
+ * from the beginning, reject with {@link DurableEventCompactedError}.
+ */
+export interface DurableSnapshotStore {
+  /** Persists a snapshot unless a snapshot at the same or a later sequence exists. */
+  saveSnapshot(snapshot: DurableSessionSnapshot): Promise<void>;
+
+  loadSnapshot(sessionId: SessionId): Promise<DurableSessionSnapshot | null>;
+
+  /**
+   * Removes events before the latest snapshot. The event at the snapshot
+   * sequence is kept so cursors at the snapshot stay resolvable.
+   */
+  compact(sessionId: SessionId): Promise<DurableEventCompactionResult>;
+}
+
+export function supportsDurableSnapshots(
+  store: DurableEventStore,
+): store is DurableEventStore & DurableSnapshotStore {
+  const candidate = store as Partial<DurableSnapshotStore>;
+  return (
+    typeof candidate.saveSnapshot === 'function' &&
+    typeof candidate.loadSnapshot === 'function' &&
+    typeof candidate.compact === 'function'
+  );
+}
+
 export class DurableEventSequenceConflictError extends SdkError {
   readonly expectedSequence: EventSequence | null;
   readonly actualSequence: EventSequence | null;
@@ -36,9 +76,11 @@ export class DurableEventSequenceConflictError extends SdkError {
 }
 
 export type DurableEventStoreErrorCode =
+  | 'DURABLE_EVENT_COMPACTED'
   | 'DURABLE_EVENT_CORRUPT_LOG'
   | 'DURABLE_EVENT_INVALID_APPEND'
   | 'DURABLE_EVENT_INVALID_CURSOR'
+  | 'DURABLE_EVENT_INVALID_SNAPSHOT'
   | 'DURABLE_EVENT_READ_FAILED'
   | 'DURABLE_EVENT_WRITE_FAILED';
 
@@ -48,3 +90,16 @@ export class DurableEventStoreError extends SdkError {
     super(code, message, options);
   }
 }
+
+export class DurableEventCompactedError extends DurableEventStoreError {
+  readonly compactedThroughSequence: EventSequence;
+
+  constructor(sessionId: SessionId, compactedThroughSequence: EventSequence) {
+    super(
+      'DURABLE_EVENT_COMPACTED',
+      `Durable events through sequence ${compactedThroughSequence} for session ${sessionId} ` +
+        'were compacted; resume from the latest snapshot',
+    );
+    this.compactedThroughSequence = compactedThroughSequence;
+  }
+}
@@ -0,0 +1,887 @@
+import { SdkError } from '../../errors/SdkError.js';
+import {
+  CommandId,
+  EventId,
+  EventSequence,
+  InputId,
+  RequestId,
+  SessionId,
+} from '../../types/branded.js';
+import {
+  DurableEventCompactedError,
+  DurableEventSequenceConflictError,
+  type DurableEventStore,
+  DurableEventStoreError,
+  type DurableEventStoreErrorCode,
+  type DurableSnapshotStore,
+  supportsDurableSnapshots,
+} from './DurableEventStore.js';
+import { DurableSessionProjector } from './DurableSessionProjector.js';
+import type { DurableSessionSnapshot } from './schemas.js';
+import {
+  DURABLE_EVENT_SCHEMA_VERSION,
+  type DurableEventDraft,
+  type DurableEventEnvelope,
+  type DurableEventPage,
+  DurableEventType,
+} from './types.js';
+
+const CONFORMANCE_CLOCK_TIME = '2026-01-01T00:00:00.000Z';
+const CONCURRENT_APPENDERS = 8;
+
+export interface DurableEventStoreConformanceOptions {
+  clock: () => Date;
+  eventIdFactory: () => EventId;
+}
+
+/**
+ * Adapter between the conformance cases and a DurableEventStore implementation.
+ *
+ * Only `createStore` is required. Each optional hook enables the cases that
+ * need it; cases whose hooks are missing are reported as skipped.
+ */
+export interface DurableEventStoreConformanceHarness<
+  TStore extends DurableEventStore = DurableEventStore,
+> {
+  /** Creates a store over fresh, empty storage. Called at least once per case. */
+  createStore(options: DurableEventStoreConformanceOptions): TStore | Promise<TStore>;
+  /**
+   * Whether created stores use `options.clock` and `options.eventIdFactory`.
+   * Enables the timestamp and duplicate event ID checks.
+   */
+  honorsStoreOptions?: boolean;
+  /**
+   * Whether created stores implement DurableSnapshotStore. Enables the
+   * snapshot and compaction cases.
+   */
+  snapshots?: boolean;
+  /**
+   * Opens another instance (connection, client, process handle) over the
+   * same storage as `store`. Enables the reopen and cross-instance cases.
+   */
+  openPeer?(store: TStore, options: DurableEventStoreConformanceOptions): TStore | Promise<TStore>;
+  /** Damages the stored event at `sequence` so it can no longer be parsed. */
+  corruptEvent?(store: TStore, sessionId: SessionId, sequence: EventSequence): void | Promise<void>;
+  /** Rewrites the stored `schemaVersion` of the event at `sequence`. */
+  setEventSchemaVersion?(
+    store: TStore,
+    sessionId: SessionId,
+    sequence: EventSequence,
+    schemaVersion: number,
+  ): void | Promise<void>;
+  /** Releases a store and its storage. Called for every created store and peer. */
+  disposeStore?(store: TStore): void | Promise<void>;
+}
+
+export interface DurableEventStoreConformanceCase {
+  name: string;
+  /** Why the case does not apply to this harness; undefined when it runs. */
+  skip?: string;
+  run(): Promise<void>;
+}
+
+export interface DurableEventStoreConformanceReport {
+  passed: string[];
+  failed: Array<{ name: string; error: unknown }>;
+  skipped: Array<{ name: string; reason: string }>;
+}
+
+export class DurableEventStoreConformanceError extends SdkError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('DURABLE_EVENT_STORE_CONFORMANCE_FAILED', message, options);
+  }
+}
+
+type HarnessHook = 'openPeer' | 'corruptEvent' | 'setEventSchemaVersion';
+
+interface CaseDefinition {
+  name: string;
+  requiresStoreOptions?: boolean;
+  requiresSnapshots?: boolean;
+  requiresHook?: HarnessHook;
+  run(context: CaseContext): Promise<void>;
+}
+
+interface CaseContext {
+  harness: DurableEventStoreConformanceHarness;
+  store: DurableEventStore;
+  options: DurableEventStoreConformanceOptions;
+  honorsStoreOptions: boolean;
+  createStore(overrides?: Partial<DurableEventStoreConformanceOptions>): Promise<DurableEventStore>;
+  openPeer(): Promise<DurableEventStore>;
+}
+
+function sessionCreated(): DurableEventDraft {
+  return { type: DurableEventType.SESSION_CREATED, data: {} };
+}
+
+function requestAccepted(suffix: string): DurableEventDraft {
+  return {
+    type: DurableEventType.REQUEST_ACCEPTED,
+    requestId: RequestId(`request-${suffix}`),
+    commandId: CommandId(`command-${suffix}`),
+    data: { inputId: InputId(`input-${suffix}`), input: suffix, priority: 'next' },
+  };
+}
+
+function requestStarted(suffix: string): DurableEventDraft {
+  return {
+    type: DurableEventType.REQUEST_STARTED,
+    requestId: RequestId(`request-${suffix}`),
+    data: {},
+  };
+}
+
+function requestCompleted(suffix: string): DurableEventDraft {
+  return {
+    type: DurableEventType.REQUEST_COMPLETED,
+    requestId: RequestId(`request-${suffix}`),
+    data: {},
+  };
+}
+
+/** A valid Session history, so snapshot cases can project it. */
+function sessionHistory(): DurableEventDraft[] {
+  return [
+    sessionCreated(),
+    requestAccepted('first'),
+    requestStarted('first'),
+    requestCompleted('first'),
+    requestAccepted('second'),
+  ];
+}
+
+function check(condition: unknown, message: string): asserts condition {
+  if (!condition) {
+    throw new DurableEventStoreConformanceError(message);
+  }
+}
+
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+    .join(',')}}`;
+}
+
+function checkEqual(actual: unknown, expected: unknown, message: string): void {
+  const actualJson = canonicalJson(actual);
+  const expectedJson = canonicalJson(expected);
+  check(actualJson === expectedJson, `${message}: expected ${expectedJson}, got ${actualJson}`);
+}
+
+async function checkRejects(
+  operation: () => Promise<unknown>,
+  matches: (error: unknown) => boolean,
+  message: string,
+): Promise<unknown> {
+  let result: unknown;
+  try {
+    result = await operation();
+  } catch (error) {
+    if (!matches(error)) {
+      throw new DurableEventStoreConformanceError(`${message}: unexpected error`, {
+        cause: error,
+      });
+    }
+    return error;
+  }
+  throw new DurableEventStoreConformanceError(
+    `${message}: expected a rejection, got ${JSON.stringify(result)}`,
+  );
+}
+
+function isStoreError(code: DurableEventStoreErrorCode): (error: unknown) => boolean {
+  return (error) => error instanceof DurableEventStoreError && error.code === code;
+}
+
+function isConflict(
+  expectedSequence: EventSequence | null,
+  actualSequence: EventSequence | null,
+): (error: unknown) => boolean {
+  return (error) =>
+    error instanceof DurableEventSequenceConflictError &&
+    error.expectedSequence === expectedSequence &&
+    error.actualSequence === actualSequence;
+}
+
+function sequences(events: readonly DurableEventEnvelope[]): number[] {
+  return events.map((event) => Number(event.sequence));
+}
+
+function checkPage(
+  page: DurableEventPage,
+  expected: {
+    sequences: number[];
+    headSequence: number | null;
+    nextCursor: number | null;
+    hasMore: boolean;
+  },
+  message: string,
+): void {
+  checkEqual(sequences(page.events), expected.sequences, `${message} sequences`);
+  checkEqual(page.headSequence, expected.headSequence, `${message} headSequence`);
+  checkEqual(page.nextCursor, expected.nextCursor, `${message} nextCursor`);
+  checkEqual(page.hasMore, expected.hasMore, `${message} hasMore`);
+}
+
+function requireSnapshotStore(store: DurableEventStore): DurableEventStore & DurableSnapshotStore {
+  check(
+    supportsDurableSnapshots(store),
+    'harness.snapshots is set but the store does not implement DurableSnapshotStore',
+  );
+  return store;
+}
+
+async function appendEach(
+  store: DurableEventStore,
+  sessionId: SessionId,
+  drafts: readonly DurableEventDraft[],
+): Promise<DurableEventEnvelope[]> {
+  const events: DurableEventEnvelope[] = [];
+  for (const draft of drafts) {
+    events.push(...(await store.append(sessionId, [draft])).events);
+  }
+  return events;
+}
+
+function snapshotThrough(
+  events: readonly DurableEventEnvelope[],
+  count: number,
+): DurableSessionSnapshot {
+  return new DurableSessionProjector()
+    .apply(events.slice(0, count))
+    .toSnapshot(new Date(CONFORMANCE_CLOCK_TIME));
+}
+
+async function readAll(
+  store: DurableEventStore,
+  sessionId: SessionId,
+): Promise<DurableEventEnvelope[]> {
+  const events: DurableEventEnvelope[] = [];
+  let after: EventSequence | undefined;
+  while (true) {
+    const page = await store.read(sessionId, { ...(after !== undefined ? { after } : {}) });
+    events.push(...page.events);
+    if (!page.hasMore) {
+      return events;
+    }
+    check(page.nextCursor !== null, 'a page with hasMore must have a nextCursor');
+    after = page.nextCursor;
+  }
+}
+
+const CASES: readonly CaseDefinition[] = [
+  {
+    name: 'returns an empty page and null head for an unknown session',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-empty');
+      checkEqual(await store.getHeadSequence(sessionId), null, 'head of an unknown session');
+      checkPage(
+        await store.read(sessionId),
+        { sequences: [], headSequence: null, nextCursor: null, hasMore: false },
+        'empty read',
+      );
+    },
+  },
+  {
+    name: 'assigns contiguous sequences starting at 1 with complete envelopes',
+    async run({ store, honorsStoreOptions }) {
+      const sessionId = SessionId('conformance-sequences');
+      const occurredAt = '2025-12-31T23:59:59.000Z';
+      const first = await store.append(sessionId, [sessionCreated(), requestAccepted('1')], {
+        expectedLastSequence: null,
+      });
+      checkEqual(first.previousSequence, null, 'previousSequence of the first append');
+      checkEqual(first.lastSequence, 2, 'lastSequence of the first append');
+      checkEqual(sequences(first.events), [1, 2], 'first append sequences');
+
+      const second = await store.append(sessionId, [{ ...requestStarted('1'), occurredAt }], {
+        expectedLastSequence: EventSequence(2),
+      });
+      checkEqual(second.previousSequence, 2, 'previousSequence of the second append');
+      checkEqual(sequences(second.events), [3], 'second append sequences');
+      checkEqual(await store.getHeadSequence(sessionId), 3, 'head after two appends');
+
+      const events = await readAll(store, sessionId);
+      checkEqual(sequences(events), [1, 2, 3], 'stored sequences');
+      checkEqual(
+        events.map((event) => event.type),
+        [
+          DurableEventType.SESSION_CREATED,
+          DurableEventType.REQUEST_ACCEPTED,
+          DurableEventType.REQUEST_STARTED,
+        ],
+        'stored event types',
+      );
+      checkEqual(
+        events.map((event) => event.eventId),
+        [...first.events, ...second.events].map((event) => event.eventId),
+        'read event IDs match appended event IDs',
+      );
+      check(new Set(events.map((event) => event.eventId)).size === 3, 'event IDs must be unique');
+      for (const event of events) {
+        checkEqual(event.schemaVersion, DURABLE_EVENT_SCHEMA_VERSION, 'schemaVersion');
+        checkEqual(event.sessionId, sessionId, 'sessionId');
+        check(!Number.isNaN(Date.parse(event.recordedAt)), 'recordedAt must be an ISO timestamp');
+      }
+      checkEqual(events[2]?.occurredAt, occurredAt, 'explicit occurredAt');
+      checkEqual(events[0]?.occurredAt, events[0]?.recordedAt, 'occurredAt defaults to recordedAt');
+      if (honorsStoreOptions) {
+        checkEqual(events[0]?.recordedAt, CONFORMANCE_CLOCK_TIME, 'recordedAt uses the clock');
+      }
+    },
+  },
+  {
+    name: 'rejects a stale expectedLastSequence without writing',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-conflict');
+      await store.append(sessionId, [sessionCreated()], { expectedLastSequence: null });
+
+      await checkRejects(
+        () => store.append(sessionId, [requestAccepted('stale')], { expectedLastSequence: null }),
+        isConflict(null, EventSequence(1)),
+        'expectedLastSequence null on a non-empty session',
+      );
+      await checkRejects(
+        () =>
+          store.append(sessionId, [requestAccepted('ahead')], {
+            expectedLastSequence: EventSequence(2),
+          }),
+        isConflict(EventSequence(2), EventSequence(1)),
+        'expectedLastSequence ahead of head',
+      );
+      await checkRejects(
+        () =>
+          store.append(SessionId('conformance-conflict-empty'), [sessionCreated()], {
+            expectedLastSequence: EventSequence(1),
+          }),
+        isConflict(EventSequence(1), null),
+        'expectedLastSequence on an empty session',
+      );
+      checkEqual(await store.getHeadSequence(sessionId), 1, 'head after rejected appends');
+      checkEqual(
+        await store.getHeadSequence(SessionId('conformance-conflict-empty')),
+        null,
+        'head of a session whose first append was rejected',
+      );
+    },
+  },
+  {
+    name: 'pages with exclusive cursors via DurableEventReadOptions',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-paging');
+      await store.append(sessionId, [
+        sessionCreated(),
+        requestAccepted('paging'),
+        requestStarted('paging'),
+        {
+          type: DurableEventType.REQUEST_COMPLETED,
+          requestId: RequestId('request-paging'),
+          data: {},
+        },
+        { type: DurableEventType.SESSION_CLOSED, data: { reason: 'completed' } },
+      ]);
+
+      const first = await store.read(sessionId, { limit: 2 });
+      checkPage(
+        first,
+        { sequences: [1, 2], headSequence: 5, nextCursor: 2, hasMore: true },
+        'first page',
+      );
+      const second = await store.read(sessionId, { after: EventSequence(2), limit: 2 });
+      checkPage(
+        second,
+        { sequences: [3, 4], headSequence: 5, nextCursor: 4, hasMore: true },
+        'second page',
+      );
+      const last = await store.read(sessionId, { after: EventSequence(4), limit: 2 });
+      checkPage(
+        last,
+        { sequences: [5], headSequence: 5, nextCursor: 5, hasMore: false },
+        'last page',
+      );
+      const atHead = await store.read(sessionId, { after: EventSequence(5) });
+      checkPage(
+        atHead,
+        { sequences: [], headSequence: 5, nextCursor: 5, hasMore: false },
+        'read at head',
+      );
+      const fromZero = await store.read(sessionId, { after: EventSequence(0), limit: 5 });
+      checkPage(
+        fromZero,
+        { sequences: [1, 2, 3, 4, 5], headSequence: 5, nextCursor: 5, hasMore: false },
+        'read after 0',
+      );
+    },
+  },
+  {
+    name: 'rejects invalid cursors and limits',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-cursor');
+      await store.append(sessionId, [sessionCreated()]);
+      const invalidCursor = isStoreError('DURABLE_EVENT_INVALID_CURSOR');
+
+      await checkRejects(
+        () => store.read(sessionId, { after: EventSequence(2) }),
+        invalidCursor,
+        'cursor ahead of head',
+      );
+      await checkRejects(
+        () => store.read(SessionId('conformance-cursor-empty'), { after: EventSequence(1) }),
+        invalidCursor,
+        'cursor on an empty session',
+      );
+      await checkRejects(
+        () => store.read(sessionId, { after: EventSequence(-1) }),
+        invalidCursor,
+        'negative cursor',
+      );
+      await checkRejects(
+        () => store.read(sessionId, { after: EventSequence(0.5) }),
+        invalidCursor,
+        'fractional cursor',
+      );
+      for (const limit of [0, -1, 1.5]) {
+        await checkRejects(() => store.read(sessionId, { limit }), invalidCursor, `limit ${limit}`);
+      }
+    },
+  },
+  {
+    name: 'rejects empty and invalid appends without writing',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-invalid-append');
+      const invalidAppend = isStoreError('DURABLE_EVENT_INVALID_APPEND');
+
+      await checkRejects(() => store.append(sessionId, []), invalidAppend, 'empty append');
+      await checkRejects(
+        () =>
+          store.append(sessionId, [
+            { type: DurableEventType.REQUEST_ACCEPTED, data: { invalid: true } },
+          ] as unknown as DurableEventDraft[]),
+        invalidAppend,
+        'draft with an invalid payload',
+      );
+      await checkRejects(
+        () =>
+          store.append(sessionId, [
+            sessionCreated(),
+            { type: 'not_a_durable_event', data: {} },
+          ] as unknown as DurableEventDraft[]),
+        invalidAppend,
+        'batch with an unknown event type',
+      );
+      checkEqual(await store.getHeadSequence(sessionId), null, 'head after invalid appends');
+    },
+  },
+  {
+    name: 'lets exactly one of concurrent compare-and-append writers win',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-race');
+      await store.append(sessionId, [sessionCreated()]);
+
+      const results = await Promise.allSettled(
+        Array.from({ length: CONCURRENT_APPENDERS }, (_, index) =>
+          store.append(sessionId, [requestAccepted(`race-${index}`)], {
+            expectedLastSequence: EventSequence(1),
+          }),
+        ),
+      );
+
+      checkEqual(
+        results.filter((result) => result.status === 'fulfilled').length,
+        1,
+        'fulfilled compare-and-append writers',
+      );
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          check(
+            isConflict(EventSequence(1), EventSequence(2))(result.reason),
+            'losing writers must fail with DurableEventSequenceConflictError(1, 2)',
+          );
+        }
+      }
+      checkEqual(await store.getHeadSequence(sessionId), 2, 'head after the race');
+    },
+  },
+  {
+    name: 'serializes concurrent unconditional appends into contiguous sequences',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-concurrent');
+
+      const results = await Promise.all(
+        Array.from({ length: CONCURRENT_APPENDERS }, (_, index) =>
+          store.append(sessionId, [
+            requestAccepted(`concurrent-${index}`),
+            requestStarted(`concurrent-${index}`),
+          ]),
+        ),
+      );
+
+      const appended = results.flatMap((result) => sequences(result.events)).sort((a, b) => a - b);
+      const expected = Array.from({ length: CONCURRENT_APPENDERS * 2 }, (_, index) => index + 1);
+      checkEqual(appended, expected, 'sequences assigned to concurrent appends');
+      for (const result of results) {
+        checkEqual(
+          Number(result.lastSequence),
+          Number(result.previousSequence ?? 0) + 2,
+          'each batch must be contiguous',
+        );
+      }
+      checkEqual(sequences(await readAll(store, sessionId)), expected, 'stored sequences');
+    },
+  },
+  {
+    name: 'keeps sequences independent per session',
+    async run({ store }) {
+      const first = SessionId('conformance-isolation/../a');
+      const second = SessionId('conformance-isolation-b');
+      await store.append(first, [sessionCreated(), requestAccepted('a')]);
+      await store.append(second, [
+        { type: DurableEventType.SESSION_CREATED, data: { source: 'resume' } },
+      ]);
+
+      checkEqual(await store.getHeadSequence(first), 2, 'head of the first session');
+      checkEqual(await store.getHeadSequence(second), 1, 'head of the second session');
+      const events = (await store.read(second)).events;
+      checkEqual(
+        events.map((event) => event.sessionId),
+        [second],
+        'second session events',
+      );
+      checkEqual(events[0]?.data, { source: 'resume' }, 'second session payload');
+    },
+  },
+  {
+    name: 'returns defensive copies of appended and read events',
+    async run({ store }) {
+      const sessionId = SessionId('conformance-copies');
+      const output = { nested: { value: 'original' } };
+      const appended = await store.append(sessionId, [
+        {
+          type: DurableEventType.REQUEST_COMPLETED,
+          requestId: RequestId('request-copies'),
+          data: { output },
+        },
+      ]);
+      output.nested.value = 'mutated-draft';
+      mutateOutput(appended.events[0]);
+      mutateOutput((await store.read(sessionId)).events[0]);
+
+      checkEqual(
+        (await store.read(sessionId)).events[0]?.data,
+        { output: { nested: { value: 'original' } } },
+        'stored payload after mutating drafts and results',
+      );
+    },
+  },
+  {
+    name: 'rejects duplicate generated event IDs without writing',
+    requiresStoreOptions: true,
+    async run({ createStore }) {
+      const store = await createStore({ eventIdFactory: () => EventId('conformance-duplicate') });
+      const sessionId = SessionId('conformance-duplicate-id');
+      await store.append(sessionId, [sessionCreated()]);
+
+      await checkRejects(
+        () => store.append(sessionId, [requestAccepted('duplicate')]),
+        isStoreError('DURABLE_EVENT_INVALID_APPEND'),
+        'append reusing an event ID',
+      );
+      checkEqual(await store.getHeadSequence(sessionId), 1, 'head after duplicate ID');
+    },
+  },
+  {
+    name: 'persists events across store instances',
+    requiresHook: 'openPeer',
+    async run({ store, openPeer }) {
+      const sessionId = SessionId('conformance-reopen');
+      const appended = await store.append(sessionId, [sessionCreated(), requestAccepted('reopen')]);
+      const peer = await openPeer();
+
+      checkEqual(
+        (await peer.read(sessionId)).events.map((event) => event.eventId),
+        appended.events.map((event) => event.eventId),
+        'events read through a peer',
+      );
+      const next = await peer.append(sessionId, [requestStarted('reopen')], {
+        expectedLastSequence: EventSequence(2),
+      });
+      checkEqual(sequences(next.events), [3], 'peer append sequence');
+      checkEqual(await store.getHeadSequence(sessionId), 3, 'head seen by the first instance');
+    },
+  },
+  {
+    name: 'enforces compare-and-append across store instances',
+    requiresHook: 'openPeer',
+    async run({ store, openPeer }) {
+      const sessionId = SessionId('conformance-peer-race');
+      await store.append(sessionId, [sessionCreated()]);
+      const peer = await openPeer();
+
+      const results = await Promise.allSettled([
+        store.append(sessionId, [requestAccepted('left')], {
+          expectedLastSequence: EventSequence(1),
+        }),
+        peer.append(sessionId, [requestAccepted('right')], {
+          expectedLastSequence: EventSequence(1),
+        }),
+      ]);
+
+      checkEqual(
+        results.filter((result) => result.status === 'fulfilled').length,
+        1,
+        'fulfilled writers across instances',
+      );
+      const rejected = results.find((result) => result.status === 'rejected');
+      check(
+        rejected?.status === 'rejected' &&
+          isConflict(EventSequence(1), EventSequence(2))(rejected.reason),
+        'the losing instance must fail with DurableEventSequenceConflictError(1, 2)',
+      );
+      checkEqual(await peer.getHeadSequence(sessionId), 2, 'head after the cross-instance race');
+    },
+  },
+  {
+    name: 'reports corrupt committed events as DURABLE_EVENT_CORRUPT_LOG',
+    requiresHook: 'corruptEvent',
+    async run({ harness, store }) {
+      const sessionId = SessionId('conformance-corrupt');
+      await store.append(sessionId, [sessionCreated(), requestAccepted('corrupt')]);
+      await harness.corruptEvent?.(store, sessionId, EventSequence(2));
+
+      await checkRejects(
+        () => store.read(sessionId),
+        isStoreError('DURABLE_EVENT_CORRUPT_LOG'),
+        'read over a corrupt event',
+      );
+    },
+  },
+  {
+    name: 'rejects events stored with an unsupported schema version',
+    requiresHook: 'setEventSchemaVersion',
+    async run({ harness, store }) {
+      const sessionId = SessionId('conformance-schema-version');
+      await store.append(sessionId, [sessionCreated()]);
+      await harness.setEventSchemaVersion?.(
+        store,
+        sessionId,
+        EventSequence(1),
+        DURABLE_EVENT_SCHEMA_VERSION - 1,
+      );
+
+      await checkRejects(
+        () => store.read(sessionId),
+        isStoreError('DURABLE_EVENT_CORRUPT_LOG'),
+        'read over an event with an older schema version',
+      );
+    },
+  },
+  {
+    name: 'keeps only the newest snapshot that matches the log',
+    requiresSnapshots: true,
+    async run({ store }) {
+      const snapshots = requireSnapshotStore(store);
+      const sessionId = SessionId('conformance-snapshot');
+      checkEqual(await snapshots.loadSnapshot(sessionId), null, 'snapshot of an unknown session');
+
+      const events = await appendEach(store, sessionId, sessionHistory());
+      const newer = snapshotThrough(events, 4);
+      await snapshots.saveSnapshot(newer);
+      await snapshots.saveSnapshot(snapshotThrough(events, 2));
+      checkEqual(
+        await snapshots.loadSnapshot(sessionId),
+        newer,
+        'snapshot after saving an older one',
+      );
+
+      const latest = snapshotThrough(events, 5);
+      const foreignEventId = EventId('conformance-foreign-event');
+      await checkRejects(
+        () =>
+          snapshots.saveSnapshot({
+            ...latest,
+            eventId: foreignEventId,
+            state: {
+              ...latest.state,
+              projection: { ...latest.state.projection, lastEventId: foreignEventId },
+            },
+          }),
+        isStoreError('DURABLE_EVENT_INVALID_SNAPSHOT'),
+        'snapshot whose event ID is not in the log',
+      );
+      checkEqual(await snapshots.loadSnapshot(sessionId), newer, 'snapshot after a rejected save');
+    },
+  },
+  {
+    name: 'compacts events before the snapshot without renumbering',
+    requiresSnapshots: true,
+    async run({ store }) {
+      const snapshots = requireSnapshotStore(store);
+      const sessionId = SessionId('conformance-compaction');
+      checkEqual(
+        await snapshots.compact(sessionId),
+        { compactedThroughSequence: null, removedEvents: 0 },
+        'compaction without a snapshot',
+      );
+
+      const events = await appendEach(store, sessionId, sessionHistory());
+      await snapshots.saveSnapshot(snapshotThrough(events, 3));
+      checkEqual(
+        await snapshots.compact(sessionId),
+        { compactedThroughSequence: 2, removedEvents: 2 },
+        'first compaction',
+      );
+
+      const isCompacted = (error: unknown) =>
+        error instanceof DurableEventCompactedError && error.compactedThroughSequence === 2;
+      await checkRejects(() => store.read(sessionId), isCompacted, 'read from the beginning');
+      await checkRejects(
+        () => store.read(sessionId, { after: EventSequence(1) }),
+        isCompacted,
+        'read with a compacted cursor',
+      );
+      checkPage(
+        await store.read(sessionId, { after: EventSequence(2) }),
+        { sequences: [3, 4, 5], headSequence: 5, nextCursor: 5, hasMore: false },
+        'read from the compaction boundary',
+      );
+      checkEqual(
+        (await store.read(sessionId, { after: EventSequence(2) })).events,
+        events.slice(2),
+        'retained events',
+      );
+      checkEqual(await store.getHeadSequence(sessionId), 5, 'head after compaction');
+
+      const next = await store.append(sessionId, [requestStarted('second')], {
+        expectedLastSequence: EventSequence(5),
+      });
+      checkEqual(sequences(next.events), [6], 'append after compaction');
+      checkEqual(
+        await snapshots.compact(sessionId),
+        { compactedThroughSequence: 2, removedEvents: 0 },
+        'repeated compaction',
+      );
+    },
+  },
+];
+
+function mutateOutput(event: DurableEventEnvelope | undefined): void {
+  if (event?.type !== DurableEventType.REQUEST_COMPLETED) {
+    throw new DurableEventStoreConformanceError('Expected a request_completed event');
+  }
+  (event.data.output as { nested: { value: string } }).nested.value = 'mutated-result';
+}
+
+function skipReason(
+  definition: CaseDefinition,
+  harness: DurableEventStoreConformanceHarness,
+): string | undefined {
+  if (definition.requiresStoreOptions && !harness.honorsStoreOptions) {
+    return 'harness.honorsStoreOptions is not set';
+  }
+  if (definition.requiresSnapshots && !harness.snapshots) {
+    return 'harness.snapshots is not set';
+  }
+  if (definition.requiresHook && typeof harness[definition.requiresHook] !== 'function') {
+    return `harness.${definition.requiresHook} is not implemented`;
+  }
+  return undefined;
+}
+
+/**
+ * Creates the DurableEventStore conformance cases for a harness.
+ *
+ * Cases are runner-agnostic: register each with a test framework, skipping
+ * those with `skip` set, or call {@link runDurableEventStoreConformance}.
+ * A failing case rejects with DurableEventStoreConformanceError.
+ */
+export function createDurableEventStoreConformanceCases<TStore extends DurableEventStore>(
+  harness: DurableEventStoreConformanceHarness<TStore>,
+): DurableEventStoreConformanceCase[] {
+  const erased = harness as unknown as DurableEventStoreConformanceHarness;
+  return CASES.map((definition) => {
+    const skip = skipReason(definition, erased);
+    return {
+      name: definition.name,
+      ...(skip ? { skip } : {}),
+      run: () => runCase(definition, erased),
+    };
+  });
+}
+
+/** Runs every applicable conformance case in order and reports the outcome. */
+export async function runDurableEventStoreConformance<TStore extends DurableEventStore>(
+  harness: DurableEventStoreConformanceHarness<TStore>,
+): Promise<DurableEventStoreConformanceReport> {
+  const report: DurableEventStoreConformanceReport = { passed: [], failed: [], skipped: [] };
+  for (const conformanceCase of createDurableEventStoreConformanceCases(harness)) {
+    if (conformanceCase.skip) {
+      report.skipped.push({ name: conformanceCase.name, reason: conformanceCase.skip });
+      continue;
+    }
+    try {
+      await conformanceCase.run();
+      report.passed.push(conformanceCase.name);
+    } catch (error) {
+      report.failed.push({ name: conformanceCase.name, error });
+    }
+  }
+  return report;
+}
+
+/**
+ * Every store opened within one case shares a single event ID counter, so a
+ * peer over the same storage never regenerates IDs its sibling already used.
+ */
+function createOptionsFactory(): (
+  overrides?: Partial<DurableEventStoreConformanceOptions>,
+) => DurableEventStoreConformanceOptions {
+  let nextEventId = 0;
+  const eventIdFactory = () => EventId(`conformance-event-${++nextEventId}`);
+  return (overrides = {}) => ({
+    clock: () => new Date(CONFORMANCE_CLOCK_TIME),
+    eventIdFactory,
+    ...overrides,
+  });
+}
+
+async function runCase(
+  definition: CaseDefinition,
+  harness: DurableEventStoreConformanceHarness,
+): Promise<void> {
+  const stores: DurableEventStore[] = [];
+  const track = (store: DurableEventStore) => {
+    stores.push(store);
+    return store;
+  };
+  const conformanceOptions = createOptionsFactory();
+  const options = conformanceOptions();
+  try {
+    const store = track(await harness.createStore(options));
+    await definition.run({
+      harness,
+      store,
+      options,
+      honorsStoreOptions: harness.honorsStoreOptions === true,
+      createStore: async (overrides) =>
+        track(await harness.createStore(conformanceOptions(overrides))),
+      openPeer: async () => {
+        check(harness.openPeer, 'harness.openPeer is required for this case');
+        return track(await harness.openPeer(store, conformanceOptions()));
+      },
+    });
+  } finally {
+    for (const store of stores.reverse()) {
+      await harness.disposeStore?.(store);
+    }
+  }
+}
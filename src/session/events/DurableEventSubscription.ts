@@ -2,7 +2,7 @@ import { AbortError } from '../../errors/AbortError.js';
 import { SdkError } from '../../errors/SdkError.js';
 import { EventId, EventSequence, type SessionId } from '../../types/branded.js';
 import type { DurableEventStore } from './DurableEventStore.js';
-import { parseDurableEventEnvelope } from './schemas.js';
+import { type DurableSessionSnapshot, parseDurableEventEnvelope } from './schemas.js';
 import { type DurableEventEnvelope, type DurableEventPage, DurableEventType } from './types.js';
 
 const DEFAULT_PAGE_SIZE = 100;
@@ -20,7 +20,10 @@ export interface DurableEventCursor {
 }
 
 export interface DurableEventSubscriptionOptions {
-  /** Exclusive cursor. Omit to replay from the beginning. */
+  /**
+   * Exclusive cursor. Omit to replay from the beginning. After compaction, use
+   * {@link durableSnapshotCursor} or a later cursor.
+   */
   readonly after?: DurableEventCursor | null;
   /** Maximum number of events buffered from one Store read. */
   readonly pageSize?: number;
@@ -72,6 +75,19 @@ export function durableEventCursor(event: DurableEventEnvelope): DurableEventCur
   };
 }
 
+/**
+ * Creates a cursor at a snapshot's sequence. Compaction keeps that event, so
+ * the cursor stays valid and a subscription resumes with the events after it.
+ */
+export function durableSnapshotCursor(snapshot: DurableSessionSnapshot): DurableEventCursor {
+  return {
+    version: DURABLE_EVENT_CURSOR_VERSION,
+    sessionId: snapshot.sessionId,
+    sequence: snapshot.sequence,
+    eventId: snapshot.eventId,
+  };
+}
+
 /** Parses an untrusted serialized cursor using the strict wire contract. */
 export function parseDurableEventCursor(value: unknown): DurableEventCursor {
   if (typeof value !== 'object' || value === null || Array.isArray(value)) {
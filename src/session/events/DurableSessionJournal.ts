@@ -1,12 +1,16 @@
 import { SdkError } from '../../errors/SdkError.js';
 import { type CommandId, EventSequence, type SessionId } from '../../types/branded.js';
-import { DurableEventSequenceConflictError, type DurableEventStore } from './DurableEventStore.js';
+import {
+  DurableEventSequenceConflictError,
+  type DurableEventStore,
+  supportsDurableSnapshots,
+} from './DurableEventStore.js';
 import {
   type DurableSessionProjection,
   DurableSessionProjector,
   type DurableSessionRecoveryPlan,
 } from './DurableSessionProjector.js';
-import { parseDurableEventDraft } from './schemas.js';
+import { type DurableSessionSnapshot, parseDurableEventDraft } from './schemas.js';
 import type {
   DurableEventAppendResult,
   DurableEventDraft,
@@ -35,9 +39,18 @@ export interface DurableCommandCommitResult extends DurableEventAppendResult {
   readonly commandId: CommandId;
 }
 
+export interface DurableSnapshotPolicy {
+  /** Saves a snapshot once this many events were committed after the previous one. */
+  readonly interval: number;
+  /** Prunes the events each new snapshot covers. Defaults to false. */
+  readonly compact?: boolean;
+}
+
 export interface DurableSessionJournalOptions {
   readonly pageSize?: number;
   readonly maxConflictRetries?: number;
+  /** Periodic snapshots; requires a store that implements DurableSnapshotStore. */
+  readonly snapshots?: DurableSnapshotPolicy;
 }
 
 export type DurableSessionJournalErrorCode =
@@ -45,7 +58,8 @@ export type DurableSessionJournalErrorCode =
   | 'DURABLE_COMMAND_INVALID'
   | 'DURABLE_COMMAND_OUTCOME_UNKNOWN'
   | 'DURABLE_JOURNAL_INVALID_COMMIT'
-  | 'DURABLE_JOURNAL_INVALID_PAGE';
+  | 'DURABLE_JOURNAL_INVALID_PAGE'
+  | 'DURABLE_JOURNAL_SNAPSHOT_UNSUPPORTED';
 
 export class DurableSessionJournalError extends SdkError {
   // biome-ignore lint/complexity/noUselessConstructor: narrows the public error-code contract
@@ -168,6 +182,7 @@ export class DurableSessionJournal {
   private projector = new DurableSessionProjector();
   private commandEvents = new Map<CommandId, DurableEventEnvelope[]>();
   private operationTail: Promise<void> = Promise.resolve();
+  private snapshotSequence = 0;
   private uncertainCommand: {
     commandId: CommandId;
     cause: unknown;
@@ -178,6 +193,7 @@ export class DurableSessionJournal {
     readonly sessionId: SessionId,
     private readonly pageSize: number,
     private readonly maxConflictRetries: number,
+    private readonly snapshotPolicy: DurableSnapshotPolicy | undefined,
   ) {}
 
   static async open(
@@ -200,7 +216,27 @@ export class DurableSessionJournal {
       );
     }
 
-    const journal = new DurableSessionJournal(store, sessionId, pageSize, maxConflictRetries);
+    const snapshots = options.snapshots;
+    if (snapshots && (!Number.isSafeInteger(snapshots.interval) || snapshots.interval <= 0)) {
+      throw new DurableSessionJournalError(
+        'DURABLE_COMMAND_INVALID',
+        'Durable Session journal snapshot interval must be a positive safe integer',
+      );
+    }
+    if (snapshots && !supportsDurableSnapshots(store)) {
+      throw new DurableSessionJournalError(
+        'DURABLE_JOURNAL_SNAPSHOT_UNSUPPORTED',
+        'Durable Session journal snapshots require a DurableSnapshotStore',
+      );
+    }
+
+    const journal = new DurableSessionJournal(
+      store,
+      sessionId,
+      pageSize,
+      maxConflictRetries,
+      snapshots,
+    );
     await journal.reload();
     return journal;
   }
@@ -228,6 +264,42 @@ export class DurableSessionJournal {
     return this.runExclusive(() => this.commitExclusive(command));
   }
 
+  /**
+   * Persists a snapshot at the current head. With `compact`, the store then
+   * prunes the events the snapshot covers.
+   */
+  saveSnapshot(options: { compact?: boolean } = {}): Promise<DurableSessionSnapshot> {
+    return this.runExclusive(() => this.saveSnapshotExclusive(options.compact ?? false));
+  }
+
+  private async saveSnapshotExclusive(compact: boolean): Promise<DurableSessionSnapshot> {
+    if (!supportsDurableSnapshots(this.store)) {
+      throw new DurableSessionJournalError(
+        'DURABLE_JOURNAL_SNAPSHOT_UNSUPPORTED',
+        'Durable Session journal snapshots require a DurableSnapshotStore',
+      );
+    }
+    const snapshot = this.projector.toSnapshot();
+    await this.store.saveSnapshot(snapshot);
+    this.snapshotSequence = snapshot.sequence;
+    if (compact) {
+      await this.store.compact(this.sessionId);
+    }
+    return snapshot;
+  }
+
+  private async saveSnapshotIfDue(headSequence: EventSequence): Promise<void> {
+    const policy = this.snapshotPolicy;
+    if (!policy || headSequence - this.snapshotSequence < policy.interval) {
+      return;
+    }
+    try {
+      await this.saveSnapshotExclusive(policy.compact ?? false);
+    } catch {
+      // The log stays canonical; the next commit retries the snapshot.
+    }
+  }
+
   private async commitExclusive(
     command: DurableSessionCommand,
   ): Promise<DurableCommandCommitResult> {
@@ -275,6 +347,7 @@ export class DurableSessionJournal {
           const committedEvents = structuredClone(result.events);
           this.projector.apply(committedEvents);
           this.indexCommandEvents(committedEvents);
+          await this.saveSnapshotIfDue(result.lastSequence);
           return {
             ...result,
             events: structuredClone(committedEvents),
@@ -394,11 +467,22 @@ export class DurableSessionJournal {
   }
 
   private async reload(): Promise<void> {
-    const projector = new DurableSessionProjector();
+    const snapshot = supportsDurableSnapshots(this.store)
+      ? await this.store.loadSnapshot(this.sessionId)
+      : null;
+    if (snapshot && snapshot.sessionId !== this.sessionId) {
+      throw new DurableSessionJournalError(
+        'DURABLE_JOURNAL_INVALID_PAGE',
+        `Durable snapshot belongs to Session ${snapshot.sessionId}, not ${this.sessionId}`,
+      );
+    }
+    const projector = snapshot
+      ? DurableSessionProjector.fromSnapshot(snapshot)
+      : new DurableSessionProjector();
     const commandEvents = new Map<CommandId, DurableEventEnvelope[]>();
     const closedCommands = new Set<CommandId>();
     let activeCommandId: CommandId | undefined;
-    let after: EventSequence | undefined;
+    let after: EventSequence | undefined = snapshot?.sequence;
 
     while (true) {
       const page = await this.store.read(this.sessionId, {
@@ -447,6 +531,7 @@ export class DurableSessionJournal {
 
     this.projector = projector;
     this.commandEvents = commandEvents;
+    this.snapshotSequence = Number(snapshot?.sequence ?? 0);
   }
 
   private validateReadPage(page: DurableEventPage, after: EventSequence | undefined): void {
@@ -13,17 +13,27 @@ import {
   type TurnId,
 } from '../../types/branded.js';
 import type { JsonObject, JsonValue } from '../../types/common.js';
-import { parseDurableEventDraft, parseDurableEventEnvelope } from './schemas.js';
+import {
+  DURABLE_SESSION_SNAPSHOT_FORMAT,
+  type DurableSessionSnapshot,
+  parseDurableEventDraft,
+  parseDurableEventEnvelope,
+  parseDurableSessionSnapshot,
+} from './schemas.js';
 import {
   DURABLE_EVENT_SCHEMA_VERSION,
   type DurableEventDataMap,
   type DurableEventDraft,
   type DurableEventEnvelope,
   type DurableEventError,
+  type DurableCompactionStrategy,
+  type DurableCompactionTrigger,
+  type DurableContextPatchScope,
   type DurableEventType,
   DurableEventType as DurableEventTypeValue,
   type DurableInputPriority,
   type DurablePermissionDecision,
+  type DurablePermissionMode,
   type DurableSessionCloseReason,
   type DurableToolCancelReason,
   type DurableToolInterruptBehavior,
@@ -88,12 +98,31 @@ export interface DurableRequestProjection {
   readonly acceptedAt: string;
   readonly maxTurns?: number;
   readonly model?: string;
+  readonly permissionMode?: DurablePermissionMode;
   readonly context?: JsonObject;
   readonly status: DurableRequestStatus;
   readonly lastTurn: number;
   readonly activeTurn: DurableTurnProjection | null;
 }
 
+/** The latest runtime context patch still in effect, mirroring the agent's single overlay slot. */
+export interface DurableContextOverlayProjection {
+  readonly requestId: RequestId;
+  readonly scope: DurableContextPatchScope;
+  readonly context: JsonObject;
+}
+
+export interface DurableCompactionProjection {
+  readonly requestId: RequestId;
+  readonly sequence: EventSequence;
+  readonly occurredAt: string;
+  readonly trigger: DurableCompactionTrigger;
+  readonly strategy: DurableCompactionStrategy;
+  readonly retainedMessages: number;
+  readonly preTokens?: number;
+  readonly postTokens?: number;
+}
+
 export interface DurableSessionProjection {
   readonly sessionId: SessionId | null;
   readonly status: DurableSessionProjectionStatus;
@@ -104,6 +133,13 @@ export interface DurableSessionProjection {
   readonly activeRequest: DurableRequestProjection | null;
   readonly appliedInputIds: readonly InputId[];
   readonly acceptedCommandIds: readonly CommandId[];
+  /** Model of the latest request, turn or `model_changed` event. */
+  readonly model: string | null;
+  /** Permission mode of the latest request or `permission_mode_changed` event. */
+  readonly permissionMode: DurablePermissionMode | null;
+  readonly contextOverlay: DurableContextOverlayProjection | null;
+  readonly compactionCount: number;
+  readonly lastCompaction: DurableCompactionProjection | null;
 }
 
 export interface DurableSessionRecoveryPlan {
@@ -171,6 +207,7 @@ interface MutableRequestProjection {
   acceptedAt: string;
   maxTurns?: number;
   model?: string;
+  permissionMode?: DurablePermissionMode;
   context?: JsonObject;
   status: DurableRequestStatus;
   lastTurn: number;
@@ -187,6 +224,11 @@ interface ProjectionAccumulator {
   activeRequest: MutableRequestProjection | null;
   appliedInputIds: InputId[];
   acceptedCommandIds: CommandId[];
+  model: string | null;
+  permissionMode: DurablePermissionMode | null;
+  contextOverlay: DurableContextOverlayProjection | null;
+  compactionCount: number;
+  lastCompaction: DurableCompactionProjection | null;
   seenEventIds: Set<EventId>;
   seenRequestIds: Set<RequestId>;
   seenTurnIds: Set<TurnId>;
@@ -332,6 +374,7 @@ function cloneRequest(request: MutableRequestProjection | null): DurableRequestP
     acceptedAt: request.acceptedAt,
     ...(request.maxTurns !== undefined ? { maxTurns: request.maxTurns } : {}),
     ...(request.model ? { model: request.model } : {}),
+    ...(request.permissionMode ? { permissionMode: request.permissionMode } : {}),
     ...(request.context ? { context: request.context } : {}),
     status: request.status,
     lastTurn: request.lastTurn,
@@ -339,6 +382,27 @@ function cloneRequest(request: MutableRequestProjection | null): DurableRequestP
   };
 }
 
+function restoreRequest(request: DurableRequestProjection | null): MutableRequestProjection | null {
+  if (!request) {
+    return null;
+  }
+  const { activeTurn, ...rest } = structuredClone(request);
+  return {
+    ...rest,
+    activeTurn: activeTurn
+      ? {
+          ...activeTurn,
+          toolAttempts: new Map(
+            activeTurn.toolAttempts.map((tool) => [
+              tool.toolAttemptId,
+              { ...tool, permission: tool.permission ? { ...tool.permission } : null },
+            ]),
+          ),
+        }
+      : null,
+  };
+}
+
 function applyEvent(state: ProjectionAccumulator, event: DurableEventEnvelope): void {
   switch (event.type) {
     case DurableEventTypeValue.SESSION_CREATED:
@@ -386,11 +450,14 @@ function applyEvent(state: ProjectionAccumulator, event: DurableEventEnvelope):
         acceptedAt: event.occurredAt,
         ...(event.data.maxTurns !== undefined ? { maxTurns: event.data.maxTurns } : {}),
         ...(event.data.model ? { model: event.data.model } : {}),
+        ...(event.data.permissionMode ? { permissionMode: event.data.permissionMode } : {}),
         ...(event.data.context ? { context: event.data.context } : {}),
         status: 'accepted',
         lastTurn: 0,
         activeTurn: null,
       };
+      state.model = event.data.model ?? state.model;
+      state.permissionMode = event.data.permissionMode ?? state.permissionMode;
       return;
 
     case DurableEventTypeValue.REQUEST_STARTED: {
@@ -407,7 +474,7 @@ function applyEvent(state: ProjectionAccumulator, event: DurableEventEnvelope):
       if (request.activeTurn) {
         invalid(event, `Turn ${request.activeTurn.turnId} is still active`);
       }
-      state.activeRequest = null;
+      endRequest(state);
       return;
     }
 
@@ -417,7 +484,7 @@ function applyEvent(state: ProjectionAccumulator, event: DurableEventEnvelope):
       if (request.activeTurn) {
         invalid(event, `Turn ${request.activeTurn.turnId} is still active`);
       }
-      state.activeRequest = null;
+      endRequest(state);
       return;
     }
 
@@ -441,6 +508,7 @@ function applyEvent(state: ProjectionAccumulator, event: DurableEventEnvelope):
         status: 'running',
         toolAttempts: new Map(),
       };
+      state.model = event.data.model ?? state.model;
       return;
     }
 
@@ -619,6 +687,62 @@ function applyEvent(state: ProjectionAccumulator, event: DurableEventEnvelope):
       state.appliedInputIds.push(event.data.inputId);
       return;
     }
+
+    case DurableEventTypeValue.MODEL_CHANGED:
+      requireOpenSession(state, event);
+      state.model = event.data.model;
+      return;
+
+    case DurableEventTypeValue.PERMISSION_MODE_CHANGED:
+      requireOpenSession(state, event);
+      state.permissionMode = event.data.mode;
+      return;
+
+    case DurableEventTypeValue.SESSION_REWOUND:
+      requireOpenSession(state, event);
+      return;
+
+    case DurableEventTypeValue.CONTEXT_PATCHED: {
+      requireActiveTurn(state, event);
+      if (event.data.reset) {
+        state.contextOverlay = null;
+      }
+      if (event.data.context) {
+        state.contextOverlay = {
+          requestId: event.requestId,
+          scope: event.data.scope,
+          context: event.data.context,
+        };
+      }
+      return;
+    }
+
+    case DurableEventTypeValue.MODEL_RESPONDED:
+      requireActiveTurn(state, event);
+      return;
+
+    case DurableEventTypeValue.CONTEXT_COMPACTED: {
+      const request = requireRunningRequest(state, event);
+      if (event.turnId && request.activeTurn?.turnId !== event.turnId) {
+        invalid(event, `No active turn matches ${event.turnId}`);
+      }
+      state.compactionCount += 1;
+      state.lastCompaction = {
+        requestId: event.requestId,
+        sequence: event.sequence,
+        occurredAt: event.occurredAt,
+        ...event.data,
+      };
+      return;
+    }
+  }
+}
+
+/** Turn-scoped context patches last for one request, as in the agent loop. */
+function endRequest(state: ProjectionAccumulator): void {
+  state.activeRequest = null;
+  if (state.contextOverlay?.scope === 'turn') {
+    state.contextOverlay = null;
   }
 }
 
@@ -633,6 +757,11 @@ function createProjectionAccumulator(): ProjectionAccumulator {
     activeRequest: null,
     appliedInputIds: [],
     acceptedCommandIds: [],
+    model: null,
+    permissionMode: null,
+    contextOverlay: null,
+    compactionCount: 0,
+    lastCompaction: null,
     seenEventIds: new Set(),
     seenRequestIds: new Set(),
     seenTurnIds: new Set(),
@@ -648,6 +777,45 @@ export class DurableSessionProjector {
   private state = createProjectionAccumulator();
   private failure: DurableEventProjectionError | null = null;
 
+  /** Restores a projector from a snapshot so replay can continue after its sequence. */
+  static fromSnapshot(snapshot: DurableSessionSnapshot): DurableSessionProjector {
+    let parsed: DurableSessionSnapshot;
+    try {
+      parsed = parseDurableSessionSnapshot(snapshot);
+    } catch (cause) {
+      throw new DurableEventProjectionError('Invalid durable session snapshot', undefined, {
+        cause,
+      });
+    }
+    const { projection, ...seen } = parsed.state;
+    const projector = new DurableSessionProjector();
+    projector.state = {
+      sessionId: projection.sessionId,
+      status: projection.status,
+      headSequence: projection.headSequence,
+      lastEventId: projection.lastEventId,
+      created: projection.created ? { ...projection.created } : null,
+      closeReason: projection.closeReason,
+      activeRequest: restoreRequest(projection.activeRequest),
+      appliedInputIds: [...projection.appliedInputIds],
+      acceptedCommandIds: [...projection.acceptedCommandIds],
+      model: projection.model,
+      permissionMode: projection.permissionMode,
+      contextOverlay: structuredClone(projection.contextOverlay),
+      compactionCount: projection.compactionCount,
+      lastCompaction: projection.lastCompaction ? { ...projection.lastCompaction } : null,
+      seenEventIds: new Set(seen.seenEventIds),
+      seenRequestIds: new Set(seen.seenRequestIds),
+      seenTurnIds: new Set(seen.seenTurnIds),
+      seenToolAttemptIds: new Set(seen.seenToolAttemptIds),
+      seenPermissionRequestIds: new Set(seen.seenPermissionRequestIds),
+      seenInputIds: new Set(seen.seenInputIds),
+      seenAppliedInputIds: new Set(seen.seenAppliedInputIds),
+      seenCommandIds: new Set(seen.seenCommandIds),
+    };
+    return projector;
+  }
+
   apply(events: readonly DurableEventEnvelope[]): this {
     this.assertHealthy();
     for (const candidate of events) {
@@ -679,9 +847,46 @@ export class DurableSessionProjector {
       activeRequest: cloneRequest(state.activeRequest),
       appliedInputIds: [...state.appliedInputIds],
       acceptedCommandIds: [...state.acceptedCommandIds],
+      model: state.model,
+      permissionMode: state.permissionMode,
+      contextOverlay: state.contextOverlay,
+      compactionCount: state.compactionCount,
+      lastCompaction: state.lastCompaction,
     });
   }
 
+  /** Captures the complete projector state at the current head. */
+  toSnapshot(createdAt: Date = new Date()): DurableSessionSnapshot {
+    const projection = this.snapshot();
+    if (
+      projection.sessionId === null ||
+      projection.headSequence === null ||
+      projection.lastEventId === null
+    ) {
+      throw new DurableEventProjectionError('Cannot snapshot an empty durable session');
+    }
+    const state = this.state;
+    return {
+      format: DURABLE_SESSION_SNAPSHOT_FORMAT,
+      schemaVersion: DURABLE_EVENT_SCHEMA_VERSION,
+      sessionId: projection.sessionId,
+      sequence: projection.headSequence,
+      eventId: projection.lastEventId,
+      createdAt: createdAt.toISOString(),
+      state: {
+        projection,
+        seenEventIds: [...state.seenEventIds],
+        seenRequestIds: [...state.seenRequestIds],
+        seenTurnIds: [...state.seenTurnIds],
+        seenToolAttemptIds: [...state.seenToolAttemptIds],
+        seenPermissionRequestIds: [...state.seenPermissionRequestIds],
+        seenInputIds: [...state.seenInputIds],
+        seenAppliedInputIds: [...state.seenAppliedInputIds],
+        seenCommandIds: [...state.seenCommandIds],
+      },
+    };
+  }
+
   recoveryPlan(): DurableSessionRecoveryPlan {
     return planDurableSessionRecovery(this.snapshot());
   }
@@ -1,4 +1,6 @@
 import { SdkError } from '../../errors/SdkError.js';
+import { mergeContext } from '../../runtime/ContextSnapshot.js';
+import type { RuntimeContext } from '../../runtime/RuntimeContext.js';
 import type {
   CommandId,
   PermissionRequestId,
@@ -6,6 +8,7 @@ import type {
   ToolAttemptId,
 } from '../../types/branded.js';
 import type { JsonObject, JsonValue } from '../../types/common.js';
+import { toJsonValue } from '../../utils/jsonValue.js';
 import type { DurableEventStore } from './DurableEventStore.js';
 import {
   type DurableCommandCommitResult,
@@ -14,6 +17,7 @@ import {
   type DurableSessionJournalOptions,
 } from './DurableSessionJournal.js';
 import {
+  type DurableContextOverlayProjection,
   DurableEventProjectionError,
   type DurablePermissionProjection,
   type DurableRequestProjection,
@@ -25,6 +29,7 @@ import {
   type DurableEventError,
   DurableEventType,
   type DurablePermissionDecision,
+  type DurablePermissionMode,
 } from './types.js';
 
 export type DurableAcceptedRequestRecovery = DurableRequestProjection & {
@@ -33,22 +38,34 @@ export type DurableAcceptedRequestRecovery = DurableRequestProjection & {
   readonly context: JsonObject;
 };
 
+/** Model, permission mode and context the session was running with at its last durable event. */
+export interface DurableSessionRuntimeState {
+  readonly model: string | null;
+  readonly permissionMode: DurablePermissionMode | null;
+  /** The active request's context with the runtime overlay merged on top. */
+  readonly context: JsonObject | null;
+  readonly contextOverlay: DurableContextOverlayProjection | null;
+}
+
 export type DurableSessionResumeDecision =
   | {
       readonly action: 'ready';
       readonly projection: DurableSessionProjection;
       readonly recoveryPlan: DurableSessionRecoveryPlan;
+      readonly runtime: DurableSessionRuntimeState;
     }
   | {
       readonly action: 'resume_accepted_request';
       readonly projection: DurableSessionProjection;
       readonly recoveryPlan: DurableSessionRecoveryPlan;
+      readonly runtime: DurableSessionRuntimeState;
       readonly request: DurableAcceptedRequestRecovery;
     }
   | {
       readonly action: 'recovery_required';
       readonly projection: DurableSessionProjection;
       readonly recoveryPlan: DurableSessionRecoveryPlan;
+      readonly runtime: DurableSessionRuntimeState;
     };
 
 export type DurableToolOutcomeReconciliation =
@@ -119,6 +136,20 @@ function isAcceptedRequestRecovery(
   );
 }
 
+function effectiveContext(projection: DurableSessionProjection): JsonObject | null {
+  const requestContext = projection.activeRequest?.context;
+  const overlay = projection.contextOverlay?.context;
+  if (!overlay) {
+    return requestContext ?? null;
+  }
+  if (!requestContext) {
+    return overlay;
+  }
+  return toJsonValue(
+    mergeContext(requestContext as RuntimeContext, overlay as RuntimeContext),
+  ) as JsonObject;
+}
+
 /**
  * Coordinates explicit recovery mutations against one durable Session journal.
  *
@@ -146,6 +177,16 @@ export class DurableSessionRecoveryCoordinator {
     return this.journal.getRecoveryPlan();
   }
 
+  getRuntimeState(): DurableSessionRuntimeState {
+    const projection = this.getProjection();
+    return {
+      model: projection.model,
+      permissionMode: projection.permissionMode,
+      context: effectiveContext(projection),
+      contextOverlay: projection.contextOverlay,
+    };
+  }
+
   async refresh(): Promise<DurableSessionRecoveryPlan> {
     await this.journal.refresh();
     return this.getRecoveryPlan();
@@ -154,11 +195,13 @@ export class DurableSessionRecoveryCoordinator {
   planResume(): DurableSessionResumeDecision {
     const projection = this.getProjection();
     const recoveryPlan = this.getRecoveryPlan();
+    const runtime = this.getRuntimeState();
     if (recoveryPlan.action === 'none') {
       return {
         action: 'ready',
         projection,
         recoveryPlan,
+        runtime,
       };
     }
 
@@ -168,6 +211,7 @@ export class DurableSessionRecoveryCoordinator {
         action: 'resume_accepted_request',
         projection,
         recoveryPlan,
+        runtime,
         request,
       };
     }
@@ -176,6 +220,7 @@ export class DurableSessionRecoveryCoordinator {
       action: 'recovery_required',
       projection,
       recoveryPlan,
+      runtime,
     };
   }
 
@@ -0,0 +1,702 @@
+import { isDeepStrictEqual } from 'node:util';
+import { z } from 'zod';
+import { agentLoop } from '../../agent/AgentLoop.js';
+import type { TokenUsageInfo } from '../../agent/AgentEvent.js';
+import { AGENT_TURN_SAFETY_LIMIT } from '../../agent/constants.js';
+import { ConversationState } from '../../agent/state/ConversationState.js';
+import type { LlmToolDefinition } from '../../agent/state/TurnState.js';
+import type { LoopResult, UserMessageContent } from '../../agent/types.js';
+import type { InternalLogger } from '../../logging/Logger.js';
+import type {
+  ChatResponse,
+  IChatService,
+  Message,
+  StreamChunk,
+  ToolCall,
+} from '../../services/ChatServiceInterface.js';
+import { createTool } from '../../tools/core/createTool.js';
+import { ExecutionPipeline } from '../../tools/execution/ExecutionPipeline.js';
+import { ToolRegistry } from '../../tools/registry/ToolRegistry.js';
+import type {
+  ExecutionContext,
+  ToolExecutionLifecycle,
+  ToolInvocationLifecycle,
+  ToolScheduledLifecycle,
+} from '../../tools/types/ExecutionTypes.js';
+import { ToolKind, ToolSideEffect } from '../../tools/types/ToolKind.js';
+import {
+  completeToolExecution,
+  type ToolExecution,
+  ToolErrorType,
+  type ToolResult,
+} from '../../tools/types/ToolResult.js';
+import type { EventSequence, RequestId, SessionId, ToolUseId } from '../../types/branded.js';
+import { type JsonObject, type JsonValue, PermissionMode } from '../../types/common.js';
+import { toJsonValue } from '../../utils/jsonValue.js';
+import { type DurableEventStore, supportsDurableSnapshots } from './DurableEventStore.js';
+import { durableRequestFinishFromLoopResult } from './SessionDurableRecorder.js';
+import { type DurableEventEnvelope, type DurableEventOfType, DurableEventType } from './types.js';
+
+export type DurableReplayDivergenceKind =
+  | 'unexpected_model_request'
+  | 'missing_model_request'
+  | 'unexpected_tool_call'
+  | 'tool_call_mismatch'
+  | 'missing_tool_call'
+  | 'outcome_mismatch';
+
+export interface DurableReplayDivergence {
+  readonly requestId: RequestId;
+  readonly kind: DurableReplayDivergenceKind;
+  readonly message: string;
+  /** Replayed turn in which the divergence was detected. */
+  readonly turn?: number;
+  readonly toolCallId?: ToolUseId;
+  /** Recorded event the replay disagreed with, when there is one. */
+  readonly sequence?: EventSequence;
+  readonly expected?: JsonValue;
+  readonly actual?: JsonValue;
+}
+
+export type DurableReplaySkipReason = 'unfinished' | 'no_model_responses' | 'steered';
+
+export interface DurableReplayRequestResult {
+  readonly requestId: RequestId;
+  readonly status: 'matched' | 'diverged' | 'skipped';
+  readonly skipReason?: DurableReplaySkipReason;
+  readonly turns: number;
+  readonly modelResponses: number;
+  readonly toolCalls: number;
+}
+
+export interface DurableReplayReport {
+  readonly sessionId: SessionId;
+  readonly requests: readonly DurableReplayRequestResult[];
+  /** First divergence in log order, or null when every replayed request matched. */
+  readonly divergence: DurableReplayDivergence | null;
+}
+
+export interface DurableReplayOptions {
+  signal?: AbortSignal;
+  logger?: InternalLogger;
+  /** Page size used while reading the log. */
+  pageSize?: number;
+}
+
+type RecordedToolOutcome = DurableEventOfType<
+  | typeof DurableEventType.TOOL_COMPLETED
+  | typeof DurableEventType.TOOL_FAILED
+  | typeof DurableEventType.TOOL_CANCELLED
+  | typeof DurableEventType.TOOL_OUTCOME_UNKNOWN
+>;
+
+interface RecordedToolAttempt {
+  scheduled: DurableEventOfType<typeof DurableEventType.TOOL_SCHEDULED>;
+  outcome?: RecordedToolOutcome;
+  replayed: boolean;
+}
+
+interface RecordedRequest {
+  accepted: DurableEventOfType<typeof DurableEventType.REQUEST_ACCEPTED>;
+  model?: string;
+  responses: DurableEventOfType<typeof DurableEventType.MODEL_RESPONDED>[];
+  toolAttempts: RecordedToolAttempt[];
+  turns: number;
+  steered: boolean;
+  finish?: DurableEventOfType<
+    typeof DurableEventType.REQUEST_COMPLETED | typeof DurableEventType.REQUEST_FAILED
+  >;
+  interrupted: boolean;
+}
+
+const EMPTY_USAGE: TokenUsageInfo = {
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  maxContextTokens: 0,
+};
+
+// Recorded inputs were validated when the session ran; replay accepts them as-is.
+const ReplayToolSchema = z.object({}).passthrough() as unknown as z.ZodType<JsonObject>;
+
+/**
+ * Re-runs every finished request of a durable session through the current
+ * `agentLoop`, feeding back the journaled `model_responded` chunks and the
+ * recorded tool outcomes instead of calling a provider or executing tools.
+ *
+ * Requests are replayed in log order with the conversation carried forward,
+ * and replay stops at the first point where the loop's behavior disagrees with
+ * the log. Requests recorded without `durableModelResponses`, interrupted
+ * requests and requests that absorbed steering input are skipped.
+ */
+export async function replayDurableSession(
+  store: DurableEventStore,
+  sessionId: SessionId,
+  options: DurableReplayOptions = {},
+): Promise<DurableReplayReport> {
+  const requests = collectRecordedRequests(await readReplayEvents(store, sessionId, options));
+  const results: DurableReplayRequestResult[] = [];
+  let history: Message[] = [];
+
+  for (const request of requests) {
+    const skipReason = resolveSkipReason(request);
+    if (skipReason) {
+      results.push({
+        requestId: request.accepted.requestId,
+        status: 'skipped',
+        skipReason,
+        turns: request.turns,
+        modelResponses: request.responses.length,
+        toolCalls: request.toolAttempts.length,
+      });
+      continue;
+    }
+
+    const replay = await replayRequest(sessionId, request, history, options);
+    history = replay.messages;
+    results.push(replay.result);
+    if (replay.divergence) {
+      return { sessionId, requests: results, divergence: replay.divergence };
+    }
+  }
+
+  return { sessionId, requests: results, divergence: null };
+}
+
+async function readReplayEvents(
+  store: DurableEventStore,
+  sessionId: SessionId,
+  options: DurableReplayOptions,
+): Promise<DurableEventEnvelope[]> {
+  const snapshot = supportsDurableSnapshots(store) ? await store.loadSnapshot(sessionId) : null;
+  const events: DurableEventEnvelope[] = [];
+  let after = snapshot?.sequence;
+  while (true) {
+    const page = await store.read(sessionId, {
+      ...(after ? { after } : {}),
+      limit: options.pageSize ?? 500,
+    });
+    events.push(...page.events);
+    if (!page.hasMore || page.nextCursor === null || page.nextCursor === after) {
+      return events;
+    }
+    after = page.nextCursor;
+  }
+}
+
+function collectRecordedRequests(events: readonly DurableEventEnvelope[]): RecordedRequest[] {
+  const requests = new Map<RequestId, RecordedRequest>();
+  let model: string | undefined;
+
+  for (const event of events) {
+    if (event.type === DurableEventType.MODEL_CHANGED) {
+      model = event.data.model;
+      continue;
+    }
+    if (event.type === DurableEventType.REQUEST_ACCEPTED) {
+      requests.set(event.requestId, {
+        accepted: event,
+        model: event.data.model ?? model,
+        responses: [],
+        toolAttempts: [],
+        turns: 0,
+        steered: false,
+        interrupted: false,
+      });
+      continue;
+    }
+    const request =
+      'requestId' in event && event.requestId ? requests.get(event.requestId) : undefined;
+    if (!request) {
+      continue;
+    }
+
+    switch (event.type) {
+      case DurableEventType.TURN_STARTED:
+        request.turns += 1;
+        request.model = event.data.model ?? request.model;
+        break;
+      case DurableEventType.MODEL_RESPONDED:
+        request.responses.push(event);
+        break;
+      case DurableEventType.INPUT_APPLIED:
+        if (event.data.inputId !== request.accepted.data.inputId) {
+          request.steered = true;
+        }
+        break;
+      case DurableEventType.TOOL_SCHEDULED:
+        request.toolAttempts.push({ scheduled: event, replayed: false });
+        break;
+      case DurableEventType.TOOL_COMPLETED:
+      case DurableEventType.TOOL_FAILED:
+      case DurableEventType.TOOL_CANCELLED:
+      case DurableEventType.TOOL_OUTCOME_UNKNOWN: {
+        const attempt = request.toolAttempts.find(
+          (candidate) => candidate.scheduled.toolAttemptId === event.toolAttemptId,
+        );
+        if (attempt) {
+          attempt.outcome = event;
+        }
+        break;
+      }
+      case DurableEventType.REQUEST_COMPLETED:
+      case DurableEventType.REQUEST_FAILED:
+        request.finish = event;
+        break;
+      case DurableEventType.REQUEST_INTERRUPTED:
+        request.interrupted = true;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return Array.from(requests.values());
+}
+
+function resolveSkipReason(request: RecordedRequest): DurableReplaySkipReason | null {
+  if (!request.finish || request.interrupted) {
+    return 'unfinished';
+  }
+  if (request.steered) {
+    return 'steered';
+  }
+  if (request.turns > 0 && request.responses.length === 0) {
+    return 'no_model_responses';
+  }
+  return null;
+}
+
+/**
+ * Tracks one request's replay against its recording. The first divergence
+ * aborts the loop; everything after it is noise.
+ */
+class RequestReplay {
+  readonly controller = new AbortController();
+  divergence: DurableReplayDivergence | null = null;
+  turn = 0;
+  private nextResponse = 0;
+  private readonly modelArguments = new Map<string, JsonObject | undefined>();
+  private readonly invocations = new WeakMap<ToolInvocationLifecycle, RecordedToolAttempt>();
+
+  constructor(readonly request: RecordedRequest) {}
+
+  get requestId(): RequestId {
+    return this.request.accepted.requestId;
+  }
+
+  get consumedResponses(): number {
+    return this.nextResponse;
+  }
+
+  diverge(divergence: Omit<DurableReplayDivergence, 'requestId' | 'turn'>): void {
+    if (this.divergence) {
+      return;
+    }
+    this.divergence = { requestId: this.requestId, turn: this.turn, ...divergence };
+    this.controller.abort();
+  }
+
+  peekResponse(): DurableEventOfType<typeof DurableEventType.MODEL_RESPONDED> | undefined {
+    return this.request.responses[this.nextResponse];
+  }
+
+  takeResponse(): StreamChunk[] {
+    const response = this.request.responses[this.nextResponse];
+    if (!response) {
+      this.diverge({
+        kind: 'unexpected_model_request',
+        message:
+          `Replay requested model response ${this.nextResponse + 1}, ` +
+          `but only ${this.request.responses.length} were recorded`,
+      });
+      throw new Error('Durable replay diverged: no recorded model response');
+    }
+    this.nextResponse += 1;
+    const chunks = response.data.chunks as unknown as StreamChunk[];
+    for (const toolCall of aggregateChunks(chunks).toolCalls ?? []) {
+      this.modelArguments.set(toolCall.id, parseArguments(toolCall.function.arguments));
+    }
+    return chunks;
+  }
+
+  toolsForNextTurn(): LlmToolDefinition[] {
+    const names = this.peekResponse()?.data.tools ?? [];
+    return names.map((name) => ({
+      name,
+      description: `Replayed ${name}`,
+      parameters: { type: 'object', additionalProperties: true },
+    }));
+  }
+
+  scheduleTool(event: ToolScheduledLifecycle): ToolInvocationLifecycle | undefined {
+    const attempt = this.request.toolAttempts.find(
+      (candidate) =>
+        !candidate.replayed && candidate.scheduled.data.toolCallId === event.toolCallId,
+    );
+    if (!attempt) {
+      this.diverge({
+        kind: 'unexpected_tool_call',
+        message: `Replay scheduled ${event.toolName} (${event.toolCallId}), which the log never scheduled`,
+        toolCallId: event.toolCallId,
+        actual: { toolName: event.toolName, input: event.input },
+      });
+      return undefined;
+    }
+    attempt.replayed = true;
+    const recorded = attempt.scheduled.data;
+    if (
+      recorded.toolName !== event.toolName ||
+      !isSameToolInput(recorded.input, event.input, this.modelArguments.get(event.toolCallId))
+    ) {
+      this.diverge({
+        kind: 'tool_call_mismatch',
+        message: `Replay scheduled ${event.toolName} (${event.toolCallId}) with different arguments`,
+        toolCallId: event.toolCallId,
+        sequence: attempt.scheduled.sequence,
+        expected: { toolName: recorded.toolName, input: recorded.input },
+        actual: { toolName: event.toolName, input: event.input },
+      });
+      return undefined;
+    }
+    const invocation: ToolInvocationLifecycle = {};
+    this.invocations.set(invocation, attempt);
+    return invocation;
+  }
+
+  resultFor(invocation: ToolInvocationLifecycle | undefined): ToolResult {
+    const outcome = invocation ? this.invocations.get(invocation)?.outcome : undefined;
+    if (!invocation || this.divergence) {
+      return replayError(ToolErrorType.INTERRUPTED, 'Durable replay diverged');
+    }
+    switch (outcome?.type) {
+      case DurableEventType.TOOL_COMPLETED:
+        return { status: 'success', model: outcome.data.result };
+      case DurableEventType.TOOL_FAILED:
+        return replayError(
+          ToolErrorType.EXECUTION_ERROR,
+          outcome.data.error.message,
+          outcome.data.error.code,
+        );
+      case DurableEventType.TOOL_CANCELLED:
+        return replayError(
+          outcome.data.reason === 'permission_denied' ||
+            outcome.data.reason === 'permission_cancelled'
+            ? ToolErrorType.PERMISSION_DENIED
+            : ToolErrorType.INTERRUPTED,
+          `Tool call was cancelled: ${outcome.data.reason}`,
+        );
+      default:
+        return replayError(ToolErrorType.EXECUTION_ERROR, 'The recorded tool outcome is unknown');
+    }
+  }
+
+  /** Recorded work the loop never reached, earliest first. */
+  findUnreplayedWork(): void {
+    const missingTool = this.request.toolAttempts.find((attempt) => !attempt.replayed);
+    const missingResponse = this.peekResponse();
+    if (
+      missingTool &&
+      (!missingResponse || missingTool.scheduled.sequence < missingResponse.sequence)
+    ) {
+      this.diverge({
+        kind: 'missing_tool_call',
+        message:
+          `Replay never scheduled ${missingTool.scheduled.data.toolName} ` +
+          `(${missingTool.scheduled.data.toolCallId})`,
+        toolCallId: missingTool.scheduled.data.toolCallId,
+        sequence: missingTool.scheduled.sequence,
+      });
+    } else if (missingResponse) {
+      this.diverge({
+        kind: 'missing_model_request',
+        message:
+          `Replay finished after ${this.nextResponse} model responses, ` +
+          `but ${this.request.responses.length} were recorded`,
+        sequence: missingResponse.sequence,
+      });
+    }
+  }
+}
+
+class ReplayExecutionPipeline extends ExecutionPipeline {
+  constructor(
+    registry: ToolRegistry,
+    private readonly replay: RequestReplay,
+  ) {
+    super(registry);
+  }
+
+  override execute(
+    _toolName: string,
+    _params: JsonObject,
+    context: ExecutionContext,
+  ): ToolExecution {
+    return completeToolExecution(this.replay.resultFor(context.toolInvocationLifecycle));
+  }
+}
+
+async function replayRequest(
+  sessionId: SessionId,
+  request: RecordedRequest,
+  history: readonly Message[],
+  options: DurableReplayOptions,
+): Promise<{
+  result: DurableReplayRequestResult;
+  messages: Message[];
+  divergence: DurableReplayDivergence | null;
+}> {
+  const replay = new RequestReplay(request);
+  const abortOnSignal = () => replay.controller.abort();
+  options.signal?.addEventListener('abort', abortOnSignal, { once: true });
+
+  const accepted = request.accepted.data;
+  const permissionMode = accepted.permissionMode as PermissionMode | undefined;
+  const configuredMaxTurns = accepted.maxTurns ?? -1;
+  const conversationState = new ConversationState(null, [...history], {
+    role: 'user',
+    content: accepted.input as UserMessageContent,
+  });
+  const lifecycle: ToolExecutionLifecycle = {
+    onToolScheduled: async (event) => replay.scheduleTool(event),
+  };
+  const chatService = createReplayChatService(replay, request.model);
+
+  let loopResult: LoopResult | undefined;
+  let loopError: unknown;
+  try {
+    const loop = agentLoop({
+      streaming: request.responses[0]?.data.streamed ?? true,
+      executionPipeline: new ReplayExecutionPipeline(createReplayRegistry(request), replay),
+      logger: options.logger,
+      conversationState,
+      maxTurns:
+        configuredMaxTurns === -1
+          ? AGENT_TURN_SAFETY_LIMIT
+          : Math.min(configuredMaxTurns, AGENT_TURN_SAFETY_LIMIT),
+      isYoloMode: permissionMode === PermissionMode.YOLO,
+      signal: replay.controller.signal,
+      prepareTurnState: (turn) => ({
+        turn,
+        messages: conversationState.toArray(),
+        tools: replay.toolsForNextTurn(),
+        chatService,
+        maxContextTokens: Number.MAX_SAFE_INTEGER,
+        permissionMode,
+        executionContext: { sessionId, userId: 'durable-replay', lifecycle },
+      }),
+    });
+    while (true) {
+      const { value, done } = await loop.next();
+      if (done) {
+        loopResult = value;
+        break;
+      }
+      if (value.type === 'turn_start') {
+        replay.turn = value.turn;
+      }
+    }
+  } catch (error) {
+    loopError = error;
+  } finally {
+    options.signal?.removeEventListener('abort', abortOnSignal);
+  }
+
+  if (options.signal?.aborted && !replay.divergence) {
+    throw options.signal.reason ?? new Error('Durable replay was aborted');
+  }
+  if (!replay.divergence) {
+    replay.findUnreplayedWork();
+  }
+  if (!replay.divergence) {
+    compareOutcome(replay, loopResult, loopError);
+  }
+
+  return {
+    result: {
+      requestId: replay.requestId,
+      status: replay.divergence ? 'diverged' : 'matched',
+      turns: replay.turn,
+      modelResponses: replay.consumedResponses,
+      toolCalls: request.toolAttempts.filter((attempt) => attempt.replayed).length,
+    },
+    messages: conversationState.getContextMessages(),
+    divergence: replay.divergence,
+  };
+}
+
+function compareOutcome(
+  replay: RequestReplay,
+  loopResult: LoopResult | undefined,
+  loopError: unknown,
+): void {
+  const recorded = replay.request.finish;
+  if (!recorded) {
+    return;
+  }
+  const finish = loopResult
+    ? durableRequestFinishFromLoopResult(loopResult, EMPTY_USAGE)
+    : ({ status: 'failed', error: loopError } as const);
+  const actual: JsonValue =
+    finish.status === 'completed'
+      ? { status: 'completed', output: toJsonValue(finish.output ?? null) }
+      : finish.status === 'failed'
+        ? {
+            status: 'failed',
+            message: finish.error instanceof Error ? finish.error.message : String(finish.error),
+          }
+        : { status: finish.status };
+  const expected: JsonValue =
+    recorded.type === DurableEventType.REQUEST_COMPLETED
+      ? { status: 'completed', output: recorded.data.output ?? null }
+      : { status: 'failed', message: recorded.data.error.message };
+
+  if (!isDeepStrictEqual(actual, expected)) {
+    replay.diverge({
+      kind: 'outcome_mismatch',
+      message:
+        `Replay ended ${finish.status}, but the log recorded ` +
+        `${recorded.type === DurableEventType.REQUEST_COMPLETED ? 'completed' : 'failed'}`,
+      sequence: recorded.sequence,
+      expected,
+      actual,
+    });
+  }
+}
+
+function createReplayRegistry(request: RecordedRequest): ToolRegistry {
+  const registry = new ToolRegistry();
+  const names = new Set(request.responses.flatMap((response) => response.data.tools));
+  for (const attempt of request.toolAttempts) {
+    names.add(attempt.scheduled.data.toolName);
+  }
+  for (const name of names) {
+    const recorded = request.toolAttempts.find(
+      (attempt) => attempt.scheduled.data.toolName === name,
+    )?.scheduled.data;
+    const sideEffect = recorded?.sideEffect ?? ToolSideEffect.NON_IDEMPOTENT;
+    registry.register(
+      createTool({
+        name,
+        displayName: name,
+        kind: sideEffect === ToolSideEffect.PURE ? ToolKind.ReadOnly : ToolKind.Execute,
+        sideEffect,
+        // Replayed tools run one at a time so divergences surface in a stable order.
+        isConcurrencySafe: false,
+        interruptBehavior: recorded?.interruptBehavior ?? 'block',
+        schema: ReplayToolSchema,
+        description: { short: `Replayed ${name}` },
+        execute: () =>
+          completeToolExecution(
+            replayError(ToolErrorType.EXECUTION_ERROR, 'Replayed tools run through the pipeline'),
+          ),
+      }),
+    );
+  }
+  return registry;
+}
+
+function createReplayChatService(replay: RequestReplay, model = 'durable-replay'): IChatService {
+  const chat = async (): Promise<ChatResponse> => aggregateChunks(replay.takeResponse());
+  return {
+    chat,
+    sideQuery: async () => {
+      throw new Error('Durable replay does not record side queries');
+    },
+    async *streamChat() {
+      // A recorded non-streaming response means the original stream produced no
+      // chunks and the loop fell back to chat(); yielding nothing does the same.
+      if (replay.peekResponse()?.data.streamed === false) {
+        return;
+      }
+      yield* replay.takeResponse();
+    },
+    getConfig: () => ({
+      provider: 'openai-compatible',
+      apiKey: '',
+      baseUrl: '',
+      model,
+    }),
+    updateConfig: () => {},
+  };
+}
+
+function aggregateChunks(chunks: readonly StreamChunk[]): ChatResponse {
+  const toolCalls = new Map<number, ToolCall>();
+  let content = '';
+  let reasoningContent = '';
+  let usage: ChatResponse['usage'];
+  for (const chunk of chunks) {
+    content += chunk.content ?? '';
+    reasoningContent += chunk.reasoningContent ?? '';
+    usage = chunk.usage ?? usage;
+    for (const [position, toolCall] of (chunk.toolCalls ?? []).entries()) {
+      const index = 'index' in toolCall ? toolCall.index : position;
+      const entry = toolCalls.get(index) ?? {
+        id: '',
+        type: 'function' as const,
+        function: { name: '', arguments: '' },
+      };
+      entry.id ||= toolCall.id ?? '';
+      entry.function.name ||= toolCall.function?.name ?? '';
+      entry.function.arguments += toolCall.function?.arguments ?? '';
+      toolCalls.set(index, entry);
+    }
+  }
+  const finalToolCalls = Array.from(toolCalls.values()).filter(
+    (toolCall) => toolCall.id && toolCall.function.name,
+  );
+  return {
+    content,
+    ...(reasoningContent ? { reasoningContent } : {}),
+    ...(finalToolCalls.length > 0 ? { toolCalls: finalToolCalls } : {}),
+    ...(usage ? { usage } : {}),
+  };
+}
+
+function parseArguments(argumentsText: string): JsonObject | undefined {
+  try {
+    const parsed: unknown = JSON.parse(argumentsText || '{}');
+    return isJsonObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parameters the loop fills in itself (for example generated subagent session
+ * IDs) are compared by presence only; everything the model sent must match.
+ */
+function isSameToolInput(
+  recorded: JsonValue,
+  replayed: JsonObject,
+  modelArguments: JsonObject | undefined,
+): boolean {
+  if (!isJsonObject(recorded)) {
+    return false;
+  }
+  const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]);
+  for (const key of keys) {
+    const generated =
+      modelArguments !== undefined &&
+      !(key in modelArguments) &&
+      key in recorded &&
+      key in replayed;
+    if (!generated && !isDeepStrictEqual(recorded[key], replayed[key])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function replayError(type: ToolErrorType, message: string, code?: string): ToolResult {
+  return {
+    status: 'error',
+    model: message,
+    error: { type, message, ...(code ? { code } : {}) },
+  };
+}
@@ -1,19 +1,27 @@
 import { Buffer } from 'node:buffer';
-import { mkdir, open, readFile, truncate } from 'node:fs/promises';
+import { mkdir, open, readFile, rename, rm, truncate } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
 import { Mutex } from 'async-mutex';
 import { nanoid } from 'nanoid';
 import { EventId, EventSequence, type SessionId } from '../../types/branded.js';
 import {
+  DurableEventCompactedError,
+  type DurableEventCompactionResult,
   DurableEventSequenceConflictError,
   type DurableEventStore,
   DurableEventStoreError,
+  type DurableSnapshotStore,
 } from './DurableEventStore.js';
 import {
+  DURABLE_EVENT_COMPACTION_FORMAT,
   DURABLE_EVENT_LOG_FORMAT,
+  type DurableSessionSnapshot,
   type PersistedDurableEventBatch,
+  type PersistedDurableEventCompaction,
   parseDurableEventDraft,
+  parseDurableSessionSnapshot,
   parsePersistedDurableEventBatch,
+  parsePersistedDurableEventCompaction,
 } from './schemas.js';
 import {
   DURABLE_EVENT_SCHEMA_VERSION,
@@ -59,7 +67,10 @@ export interface JsonlDurableEventStoreOptions {
 }
 
 interface LoadedLog {
+  batches: PersistedDurableEventBatch[];
   events: DurableEventEnvelope[];
+  compactedThroughSequence: EventSequence | null;
+  headSequence: EventSequence | null;
   committedBytes: number;
   totalBytes: number;
 }
@@ -69,8 +80,10 @@ interface LoadedLog {
  *
  * Appends are serialized across store instances in this process. Multi-process
  * or distributed executors must provide a store with external CAS/fencing.
+ * Snapshots live in a `.snapshot.json` file next to each Session log; a
+ * compacted log starts with a marker line recording the removed prefix.
  */
-export class JsonlDurableEventStore implements DurableEventStore {
+export class JsonlDurableEventStore implements DurableEventStore, DurableSnapshotStore {
   private readonly rootDirectory: string;
   private readonly clock: () => Date;
   private readonly eventIdFactory: () => EventId;
@@ -113,7 +126,7 @@ export class JsonlDurableEventStore implements DurableEventStore {
 
     return runWithFileMutex(this.getFilePath(sessionId), async () => {
       const loaded = await this.loadLog(sessionId);
-      const previousSequence = loaded.events.at(-1)?.sequence ?? null;
+      const previousSequence = loaded.headSequence;
       this.assertExpectedSequence(options.expectedLastSequence, previousSequence);
 
       const eventIds = new Set<string>(loaded.events.map((event) => event.eventId));
@@ -190,8 +203,7 @@ export class JsonlDurableEventStore implements DurableEventStore {
     }
 
     return runWithFileMutex(this.getFilePath(sessionId), async () => {
-      const { events } = await this.loadLog(sessionId);
-      const headSequence = events.at(-1)?.sequence ?? null;
+      const { events, headSequence, compactedThroughSequence } = await this.loadLog(sessionId);
       const after = options.after;
       if (after !== undefined && (!Number.isSafeInteger(after) || after < 0)) {
         throw new DurableEventStoreError(
@@ -206,6 +218,10 @@ export class JsonlDurableEventStore implements DurableEventStore {
         );
       }
 
+      if (compactedThroughSequence !== null && (after ?? 0) < compactedThroughSequence) {
+        throw new DurableEventCompactedError(sessionId, compactedThroughSequence);
+      }
+
       const unread =
         after === undefined ? events : events.filter((event) => event.sequence > after);
       const pageEvents = unread.slice(0, limit);
@@ -220,8 +236,83 @@ export class JsonlDurableEventStore implements DurableEventStore {
 
   async getHeadSequence(sessionId: SessionId): Promise<EventSequence | null> {
     return runWithFileMutex(this.getFilePath(sessionId), async () => {
-      const { events } = await this.loadLog(sessionId);
-      return events.at(-1)?.sequence ?? null;
+      const { headSequence } = await this.loadLog(sessionId);
+      return headSequence;
+    });
+  }
+
+  async saveSnapshot(snapshot: DurableSessionSnapshot): Promise<void> {
+    let parsed: DurableSessionSnapshot;
+    try {
+      parsed = parseDurableSessionSnapshot(snapshot);
+    } catch (error) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_SNAPSHOT',
+        'Invalid durable session snapshot',
+        { cause: error },
+      );
+    }
+    const sessionId = parsed.sessionId;
+
+    await runWithFileMutex(this.getFilePath(sessionId), async () => {
+      const existing = await this.readSnapshot(sessionId);
+      if (existing && existing.sequence >= parsed.sequence) {
+        return;
+      }
+      const loaded = await this.loadLog(sessionId);
+      const event = loaded.events.find((candidate) => candidate.sequence === parsed.sequence);
+      if (!event || event.eventId !== parsed.eventId) {
+        throw new DurableEventStoreError(
+          'DURABLE_EVENT_INVALID_SNAPSHOT',
+          `Snapshot at sequence ${parsed.sequence} does not match the durable log for session ${sessionId}`,
+        );
+      }
+      await this.replaceFile(
+        this.getSnapshotPath(sessionId),
+        `${JSON.stringify(parsed)}\n`,
+        `Failed to write durable snapshot for session ${sessionId}`,
+      );
+    });
+  }
+
+  async loadSnapshot(sessionId: SessionId): Promise<DurableSessionSnapshot | null> {
+    return runWithFileMutex(this.getFilePath(sessionId), () => this.readSnapshot(sessionId));
+  }
+
+  async compact(sessionId: SessionId): Promise<DurableEventCompactionResult> {
+    return runWithFileMutex(this.getFilePath(sessionId), async () => {
+      const loaded = await this.loadLog(sessionId);
+      const snapshot = await this.readSnapshot(sessionId);
+      const keepIndex = snapshot
+        ? loaded.batches.findIndex((batch) => batch.lastSequence >= snapshot.sequence)
+        : -1;
+      const firstKept = loaded.batches[keepIndex];
+      if (!firstKept || firstKept.firstSequence === 1) {
+        return {
+          compactedThroughSequence: loaded.compactedThroughSequence,
+          removedEvents: 0,
+        };
+      }
+
+      const marker: PersistedDurableEventCompaction = {
+        format: DURABLE_EVENT_COMPACTION_FORMAT,
+        schemaVersion: DURABLE_EVENT_SCHEMA_VERSION,
+        sessionId,
+        compactedThroughSequence: EventSequence(firstKept.firstSequence - 1),
+      };
+      const kept = loaded.batches.slice(keepIndex);
+      const removedEvents = loaded.batches
+        .slice(0, keepIndex)
+        .reduce((count, batch) => count + batch.events.length, 0);
+      await this.replaceFile(
+        this.getFilePath(sessionId),
+        [marker, ...kept].map((line) => `${JSON.stringify(line)}\n`).join(''),
+        `Failed to compact durable events for session ${sessionId}`,
+      );
+      return {
+        compactedThroughSequence: marker.compactedThroughSequence,
+        removedEvents,
+      };
     });
   }
 
@@ -230,6 +321,63 @@ export class JsonlDurableEventStore implements DurableEventStore {
     return join(this.rootDirectory, filename);
   }
 
+  getSnapshotPath(sessionId: SessionId): string {
+    const filename = `${Buffer.from(sessionId).toString('base64url')}.snapshot.json`;
+    return join(this.rootDirectory, filename);
+  }
+
+  private async readSnapshot(sessionId: SessionId): Promise<DurableSessionSnapshot | null> {
+    let content: string;
+    try {
+      content = await readFile(this.getSnapshotPath(sessionId), 'utf8');
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        return null;
+      }
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_READ_FAILED',
+        `Failed to read durable snapshot for session ${sessionId}`,
+        { cause: error },
+      );
+    }
+    let snapshot: DurableSessionSnapshot;
+    try {
+      snapshot = parseDurableSessionSnapshot(JSON.parse(content));
+    } catch (error) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Invalid durable snapshot for session ${sessionId}`,
+        { cause: error },
+      );
+    }
+    if (snapshot.sessionId !== sessionId) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Durable snapshot for session ${sessionId} belongs to ${snapshot.sessionId}`,
+      );
+    }
+    return snapshot;
+  }
+
+  /** Writes a sibling temp file and renames it over `filePath` so readers never see a partial file. */
+  private async replaceFile(filePath: string, content: string, failure: string): Promise<void> {
+    const temporaryPath = `${filePath}.${nanoid()}.tmp`;
+    try {
+      await mkdir(this.rootDirectory, { recursive: true, mode: 0o700 });
+      const file = await open(temporaryPath, 'w', 0o600);
+      try {
+        await file.writeFile(content, 'utf8');
+        await file.sync();
+      } finally {
+        await file.close();
+      }
+      await rename(temporaryPath, filePath);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw new DurableEventStoreError('DURABLE_EVENT_WRITE_FAILED', failure, { cause: error });
+    }
+  }
+
   private assertExpectedSequence(
     expected: EventSequence | null | undefined,
     actual: EventSequence | null,
@@ -273,7 +421,14 @@ export class JsonlDurableEventStore implements DurableEventStore {
       bytes = await readFile(filePath);
     } catch (error) {
       if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-        return { events: [], committedBytes: 0, totalBytes: 0 };
+        return {
+          batches: [],
+          events: [],
+          compactedThroughSequence: null,
+          headSequence: null,
+          committedBytes: 0,
+          totalBytes: 0,
+        };
       }
       throw new DurableEventStoreError(
         'DURABLE_EVENT_READ_FAILED',
@@ -286,11 +441,16 @@ export class JsonlDurableEventStore implements DurableEventStore {
     const committedBytes = lastNewline === -1 ? 0 : lastNewline + 1;
     const committed = bytes.subarray(0, committedBytes).toString('utf8');
     const lines = committed.split('\n').filter(Boolean);
+    const batches: PersistedDurableEventBatch[] = [];
     const events: DurableEventEnvelope[] = [];
     const eventIds = new Set<string>();
-    let expectedSequence = 1;
+    const compactedThroughSequence = this.parseCompactionMarker(lines[0], sessionId);
+    let expectedSequence = Number(compactedThroughSequence ?? 0) + 1;
 
     for (const [index, line] of lines.entries()) {
+      if (index === 0 && compactedThroughSequence !== null) {
+        continue;
+      }
       let batch: PersistedDurableEventBatch;
       try {
         batch = parsePersistedDurableEventBatch(JSON.parse(line));
@@ -303,17 +463,57 @@ export class JsonlDurableEventStore implements DurableEventStore {
       }
 
       this.assertBatchIntegrity(batch, sessionId, expectedSequence, eventIds);
+      batches.push(batch);
       events.push(...batch.events);
       expectedSequence = Number(batch.lastSequence) + 1;
     }
 
     return {
+      batches,
       events,
+      compactedThroughSequence,
+      headSequence: events.at(-1)?.sequence ?? compactedThroughSequence,
       committedBytes,
       totalBytes: bytes.length,
     };
   }
 
+  private parseCompactionMarker(
+    line: string | undefined,
+    sessionId: SessionId,
+  ): EventSequence | null {
+    let value: unknown;
+    try {
+      value = line === undefined ? undefined : JSON.parse(line);
+    } catch {
+      return null;
+    }
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      (value as { format?: unknown }).format !== DURABLE_EVENT_COMPACTION_FORMAT
+    ) {
+      return null;
+    }
+    let marker: PersistedDurableEventCompaction;
+    try {
+      marker = parsePersistedDurableEventCompaction(value);
+    } catch (error) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Invalid durable event compaction marker for session ${sessionId}`,
+        { cause: error },
+      );
+    }
+    if (marker.sessionId !== sessionId) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Durable event compaction marker does not belong to session ${sessionId}`,
+      );
+    }
+    return marker.compactedThroughSequence;
+  }
+
   private assertBatchIntegrity(
     batch: PersistedDurableEventBatch,
     sessionId: SessionId,
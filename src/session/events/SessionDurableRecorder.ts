@@ -1,5 +1,9 @@
 import { nanoid } from 'nanoid';
 import type { AgentEvent, TokenUsageInfo } from '../../agent/AgentEvent.js';
+import type {
+  ModelResponseObserver,
+  ObservedModelResponse,
+} from '../../agent/loop/observeChatService.js';
 import type { LoopResult, UserMessageContent } from '../../agent/types.js';
 import { SdkError } from '../../errors/SdkError.js';
 import type {
@@ -10,14 +14,14 @@ import type {
   ToolScheduledLifecycle,
   ToolSettledLifecycle,
 } from '../../tools/types/ExecutionTypes.js';
-import { ToolErrorType } from '../../tools/types/ToolResult.js';
+import { ToolErrorType, toolModelContentToJson } from '../../tools/types/ToolResult.js';
 import {
   CommandId,
   type InputId,
   PermissionRequestId,
   type RequestId,
   ToolAttemptId,
-  type ToolUseId,
+  ToolUseId,
   TurnId,
 } from '../../types/branded.js';
 import type { JsonObject, JsonValue } from '../../types/common.js';
@@ -26,6 +30,8 @@ import type { DurableSessionJournal } from './DurableSessionJournal.js';
 import type { DurableSessionRecoveryPlan } from './DurableSessionProjector.js';
 import {
   DurableEventType,
+  type DurableModelChunk,
+  type DurablePermissionMode,
   type DurableRequestInterruptReason,
   type DurableToolCancelReason,
 } from './types.js';
@@ -81,7 +87,7 @@ export class DurableSessionRecoveryRequiredError extends SdkError {
   }
 }
 
-export class SessionDurableRecorder implements ToolExecutionLifecycle {
+export class SessionDurableRecorder implements ToolExecutionLifecycle, ModelResponseObserver {
   private activeTurn: ActiveTurn | null = null;
   private ignoredTurnEnd: number | null = null;
   private requestStarted = false;
@@ -99,6 +105,7 @@ export class SessionDurableRecorder implements ToolExecutionLifecycle {
     priority: 'next' | 'later' = 'next',
     execution: {
       readonly maxTurns?: number;
+      readonly permissionMode?: DurablePermissionMode;
       readonly context?: JsonObject;
     } = {},
   ): Promise<void> {
@@ -112,6 +119,7 @@ export class SessionDurableRecorder implements ToolExecutionLifecycle {
           priority,
           ...(execution.maxTurns !== undefined ? { maxTurns: execution.maxTurns } : {}),
           model: this.model,
+          ...(execution.permissionMode ? { permissionMode: execution.permissionMode } : {}),
           ...(execution.context ? { context: execution.context } : {}),
         },
       },
@@ -175,6 +183,43 @@ export class SessionDurableRecorder implements ToolExecutionLifecycle {
           },
         ]);
         return;
+      case 'tool_context_patch': {
+        if (!event.patch.context && !event.patch.reset) {
+          return;
+        }
+        const turn = this.requireActiveTurn();
+        const context = event.patch.context
+          ? (toJsonValue(event.patch.context) as JsonObject)
+          : undefined;
+        await this.commit([
+          {
+            type: DurableEventType.CONTEXT_PATCHED,
+            requestId: this.requestId,
+            turnId: turn.turnId,
+            data: {
+              toolCallId: ToolUseId(event.toolCall.id),
+              toolName: event.toolCall.function.name,
+              scope: event.patch.scope,
+              ...(context ? { context } : {}),
+              ...(event.patch.reset ? { reset: true } : {}),
+            },
+          },
+        ]);
+        return;
+      }
+      case 'compacting':
+        if (event.isCompacting || !event.result) {
+          return;
+        }
+        await this.commit([
+          {
+            type: DurableEventType.CONTEXT_COMPACTED,
+            requestId: this.requestId,
+            ...(this.activeTurn ? { turnId: this.activeTurn.turnId } : {}),
+            data: { ...event.result },
+          },
+        ]);
+        return;
       default:
         return;
     }
@@ -246,6 +291,22 @@ export class SessionDurableRecorder implements ToolExecutionLifecycle {
     return true;
   }
 
+  async onModelResponse(response: ObservedModelResponse): Promise<void> {
+    const turn = this.requireActiveTurn();
+    await this.commit([
+      {
+        type: DurableEventType.MODEL_RESPONDED,
+        requestId: this.requestId,
+        turnId: turn.turnId,
+        data: {
+          streamed: response.streamed,
+          tools: response.tools,
+          chunks: toJsonValue(response.chunks) as unknown as DurableModelChunk[],
+        },
+      },
+    ]);
+  }
+
   async onToolScheduled(event: ToolScheduledLifecycle): Promise<ToolInvocationLifecycle> {
     const turn = this.requireActiveTurn();
     if (turn.tools.has(event.toolCallId)) {
@@ -318,7 +379,7 @@ export class SessionDurableRecorder implements ToolExecutionLifecycle {
           data: {
             toolCallId: tool.toolCallId,
             toolName: tool.toolName,
-            result: event.result.model,
+            result: toolModelContentToJson(event.result.model),
           },
         },
       ]);
@@ -366,7 +427,8 @@ export class SessionDurableRecorder implements ToolExecutionLifecycle {
         turnId: activeTurn.turnId,
         data: {
           turn,
-          model: this.model,
+          // A mid-request model switch is journaled before the next turn starts.
+          model: this.journal.getProjection().model ?? this.model,
         },
       },
     ]);
@@ -0,0 +1,714 @@
+import { chmod, mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { DatabaseSync, SQLInputValue, SQLOutputValue } from 'node:sqlite';
+import { nanoid } from 'nanoid';
+import { EventId, EventSequence, SessionId } from '../../types/branded.js';
+import {
+  DurableEventCompactedError,
+  type DurableEventCompactionResult,
+  DurableEventSequenceConflictError,
+  type DurableEventStore,
+  DurableEventStoreError,
+  type DurableSnapshotStore,
+} from './DurableEventStore.js';
+import {
+  type DurableSessionSnapshot,
+  parseDurableEventDraft,
+  parseDurableEventEnvelope,
+  parseDurableSessionSnapshot,
+} from './schemas.js';
+import {
+  DURABLE_EVENT_SCHEMA_VERSION,
+  type DurableEventAppendOptions,
+  type DurableEventAppendResult,
+  type DurableEventDraft,
+  type DurableEventEnvelope,
+  type DurableEventPage,
+  type DurableEventReadOptions,
+  type DurableEventType,
+} from './types.js';
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+const DEFAULT_BUSY_TIMEOUT_MS = 5_000;
+const IN_MEMORY_DATABASE = ':memory:';
+const STORE_SCHEMA_VERSION = 2;
+
+const SNAPSHOT_SCHEMA = `
+CREATE TABLE IF NOT EXISTS durable_snapshots (
+  session_id TEXT PRIMARY KEY,
+  sequence INTEGER NOT NULL,
+  event_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  snapshot TEXT NOT NULL
+) WITHOUT ROWID;
+`;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS durable_sessions (
+  session_id TEXT PRIMARY KEY,
+  head_sequence INTEGER NOT NULL,
+  compacted_through INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS durable_sessions_updated_at ON durable_sessions (updated_at);
+CREATE TABLE IF NOT EXISTS durable_events (
+  session_id TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  event_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  schema_version INTEGER NOT NULL,
+  request_id TEXT,
+  recorded_at TEXT NOT NULL,
+  envelope TEXT NOT NULL,
+  PRIMARY KEY (session_id, sequence),
+  UNIQUE (session_id, event_id)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS durable_events_type_recorded_at
+  ON durable_events (type, recorded_at, session_id);
+${SNAPSHOT_SCHEMA}`;
+
+/** Upgrades keyed by the schema version they start from. */
+const MIGRATIONS: Readonly<Record<number, string>> = {
+  1: `
+ALTER TABLE durable_sessions ADD COLUMN compacted_through INTEGER NOT NULL DEFAULT 0;
+${SNAPSHOT_SCHEMA}`,
+};
+
+export interface SqliteDurableEventStoreOptions {
+  clock?: () => Date;
+  eventIdFactory?: () => EventId;
+  /** How long a writer waits for another connection's lock. Defaults to 5 seconds. */
+  busyTimeoutMs?: number;
+}
+
+export interface DurableSessionListOptions {
+  /** Only Sessions with at least one event of these types. */
+  eventTypes?: readonly DurableEventType[];
+  /** Only Sessions with a matching event recorded at or after this time. */
+  since?: Date;
+  /** Only Sessions with a matching event recorded before this time. */
+  until?: Date;
+  /** Exclusive Session ID cursor returned as `nextCursor` by the previous page. */
+  after?: SessionId;
+  limit?: number;
+}
+
+export interface DurableSessionSummary {
+  sessionId: SessionId;
+  headSequence: EventSequence;
+  /** `recordedAt` of the first committed event. */
+  createdAt: string;
+  /** `recordedAt` of the latest committed event. */
+  updatedAt: string;
+}
+
+export interface DurableSessionListPage {
+  sessions: DurableSessionSummary[];
+  nextCursor: SessionId | null;
+  hasMore: boolean;
+}
+
+/**
+ * DurableEventStore backed by a single SQLite database via `node:sqlite`.
+ *
+ * Appends run in `BEGIN IMMEDIATE` transactions, so compare-and-append holds
+ * across store instances and processes sharing the database file. Each row
+ * keeps the full validated envelope; indexed columns serve cross-Session
+ * queries such as {@link SqliteDurableEventStore.listSessions}. Snapshots
+ * share the database, so compaction removes events and records the pruned
+ * prefix in one transaction.
+ */
+export class SqliteDurableEventStore implements DurableEventStore, DurableSnapshotStore {
+  private readonly databasePath: string;
+  private readonly clock: () => Date;
+  private readonly eventIdFactory: () => EventId;
+  private readonly busyTimeoutMs: number;
+  private database: Promise<DatabaseSync> | null = null;
+  private closed = false;
+
+  /**
+   * @param databasePath SQLite file path, or `:memory:` for a private in-memory database.
+   */
+  constructor(databasePath: string, options: SqliteDurableEventStoreOptions = {}) {
+    if (databasePath.trim() === '') {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_APPEND',
+        'Durable event database path must not be empty',
+      );
+    }
+    this.databasePath = databasePath === IN_MEMORY_DATABASE ? databasePath : resolve(databasePath);
+    this.clock = options.clock ?? (() => new Date());
+    this.eventIdFactory = options.eventIdFactory ?? (() => EventId(nanoid()));
+    this.busyTimeoutMs = options.busyTimeoutMs ?? DEFAULT_BUSY_TIMEOUT_MS;
+  }
+
+  async append(
+    sessionId: SessionId,
+    drafts: readonly DurableEventDraft[],
+    options: DurableEventAppendOptions = {},
+  ): Promise<DurableEventAppendResult> {
+    if (drafts.length === 0) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_APPEND',
+        'A durable event append requires at least one event',
+      );
+    }
+
+    const parsedDrafts = drafts.map((draft, index) => {
+      try {
+        return parseDurableEventDraft(draft);
+      } catch (error) {
+        throw new DurableEventStoreError(
+          'DURABLE_EVENT_INVALID_APPEND',
+          `Invalid durable event draft at index ${index}`,
+          { cause: error },
+        );
+      }
+    });
+
+    const database = await this.open();
+    return this.transaction(
+      database,
+      'IMMEDIATE',
+      'DURABLE_EVENT_WRITE_FAILED',
+      `Failed to append durable events for session ${sessionId}`,
+      () => {
+        const previousSequence = this.readHead(database, sessionId);
+        if (
+          options.expectedLastSequence !== undefined &&
+          options.expectedLastSequence !== previousSequence
+        ) {
+          throw new DurableEventSequenceConflictError(
+            options.expectedLastSequence,
+            previousSequence,
+          );
+        }
+
+        const eventExists = database.prepare(
+          'SELECT 1 FROM durable_events WHERE session_id = ? AND event_id = ?',
+        );
+        const batchEventIds = new Set<string>();
+        const recordedAt = this.clock().toISOString();
+        const firstSequenceValue = Number(previousSequence ?? 0) + 1;
+        const events = parsedDrafts.map((draft, index): DurableEventEnvelope => {
+          const eventId = this.eventIdFactory();
+          if (batchEventIds.has(eventId) || eventExists.get(sessionId, eventId)) {
+            throw new DurableEventStoreError(
+              'DURABLE_EVENT_INVALID_APPEND',
+              `Duplicate generated durable event ID: ${eventId}`,
+            );
+          }
+          batchEventIds.add(eventId);
+          const envelope = {
+            ...draft,
+            schemaVersion: DURABLE_EVENT_SCHEMA_VERSION,
+            eventId,
+            sequence: EventSequence(firstSequenceValue + index),
+            sessionId,
+            recordedAt,
+            occurredAt: draft.occurredAt ?? recordedAt,
+          };
+          try {
+            return parseDurableEventEnvelope(envelope);
+          } catch (error) {
+            throw new DurableEventStoreError(
+              'DURABLE_EVENT_INVALID_APPEND',
+              'Generated durable event envelope is invalid',
+              { cause: error },
+            );
+          }
+        });
+        const lastEvent = events.at(-1);
+        if (!lastEvent) {
+          throw new DurableEventStoreError(
+            'DURABLE_EVENT_INVALID_APPEND',
+            'A durable event append produced no events',
+          );
+        }
+
+        const insertEvent = database.prepare(
+          `INSERT INTO durable_events
+            (session_id, sequence, event_id, type, schema_version, request_id, recorded_at, envelope)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        );
+        for (const event of events) {
+          insertEvent.run(
+            sessionId,
+            event.sequence,
+            event.eventId,
+            event.type,
+            event.schemaVersion,
+            ('requestId' in event ? event.requestId : null) ?? null,
+            event.recordedAt,
+            JSON.stringify(event),
+          );
+        }
+        database
+          .prepare(
+            `INSERT INTO durable_sessions (session_id, head_sequence, created_at, updated_at)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT (session_id) DO UPDATE SET
+              head_sequence = excluded.head_sequence,
+              updated_at = excluded.updated_at`,
+          )
+          .run(sessionId, lastEvent.sequence, recordedAt, recordedAt);
+
+        return {
+          events,
+          previousSequence,
+          lastSequence: lastEvent.sequence,
+        };
+      },
+    );
+  }
+
+  async read(
+    sessionId: SessionId,
+    options: DurableEventReadOptions = {},
+  ): Promise<DurableEventPage> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isSafeInteger(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_CURSOR',
+        `Durable event read limit must be between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    const after = options.after;
+    if (after !== undefined && (!Number.isSafeInteger(after) || after < 0)) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_CURSOR',
+        `Invalid durable event cursor: ${String(after)}`,
+      );
+    }
+
+    const database = await this.open();
+    // 在同一读事务内读取 head 与事件页，避免并发写入造成不一致的快照。
+    return this.transaction(
+      database,
+      'DEFERRED',
+      'DURABLE_EVENT_READ_FAILED',
+      `Failed to read durable events for session ${sessionId}`,
+      () => {
+        const headSequence = this.readHead(database, sessionId);
+        if (after !== undefined && after > (headSequence ?? 0)) {
+          throw new DurableEventStoreError(
+            'DURABLE_EVENT_INVALID_CURSOR',
+            `Durable event cursor ${after} is ahead of head ${headSequence}`,
+          );
+        }
+        const compactedThrough = this.readCompactedThrough(database, sessionId);
+        if (compactedThrough !== null && (after ?? 0) < compactedThrough) {
+          throw new DurableEventCompactedError(sessionId, compactedThrough);
+        }
+
+        const start = Number(after ?? 0);
+        const rows = database
+          .prepare(
+            `SELECT session_id, sequence, event_id, schema_version, envelope
+            FROM durable_events
+            WHERE session_id = ? AND sequence > ?
+            ORDER BY sequence
+            LIMIT ?`,
+          )
+          .all(sessionId, start, limit);
+        const events = rows.map((row, index) => this.parseRow(row, sessionId, start + index + 1));
+        const expectedCount = Math.min(limit, Number(headSequence ?? 0) - start);
+        if (events.length !== expectedCount) {
+          throw new DurableEventStoreError(
+            'DURABLE_EVENT_CORRUPT_LOG',
+            `Durable events for session ${sessionId} do not match head ${headSequence}`,
+          );
+        }
+
+        const nextCursor = events.at(-1)?.sequence ?? after ?? null;
+        return {
+          events,
+          headSequence,
+          nextCursor,
+          hasMore: Number(nextCursor ?? 0) < Number(headSequence ?? 0),
+        };
+      },
+    );
+  }
+
+  async getHeadSequence(sessionId: SessionId): Promise<EventSequence | null> {
+    const database = await this.open();
+    try {
+      return this.readHead(database, sessionId);
+    } catch (error) {
+      throw this.wrapError(
+        error,
+        'DURABLE_EVENT_READ_FAILED',
+        `Failed to read durable events for session ${sessionId}`,
+      );
+    }
+  }
+
+  async saveSnapshot(snapshot: DurableSessionSnapshot): Promise<void> {
+    let parsed: DurableSessionSnapshot;
+    try {
+      parsed = parseDurableSessionSnapshot(snapshot);
+    } catch (error) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_SNAPSHOT',
+        'Invalid durable session snapshot',
+        { cause: error },
+      );
+    }
+    const sessionId = parsed.sessionId;
+
+    const database = await this.open();
+    this.transaction(
+      database,
+      'IMMEDIATE',
+      'DURABLE_EVENT_WRITE_FAILED',
+      `Failed to write durable snapshot for session ${sessionId}`,
+      () => {
+        const existing = database
+          .prepare('SELECT sequence FROM durable_snapshots WHERE session_id = ?')
+          .get(sessionId);
+        if (existing && Number(existing.sequence) >= parsed.sequence) {
+          return;
+        }
+        const event = database
+          .prepare('SELECT event_id FROM durable_events WHERE session_id = ? AND sequence = ?')
+          .get(sessionId, parsed.sequence);
+        if (!event || event.event_id !== parsed.eventId) {
+          throw new DurableEventStoreError(
+            'DURABLE_EVENT_INVALID_SNAPSHOT',
+            `Snapshot at sequence ${parsed.sequence} does not match the durable log for session ${sessionId}`,
+          );
+        }
+        database
+          .prepare(
+            `INSERT INTO durable_snapshots (session_id, sequence, event_id, created_at, snapshot)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (session_id) DO UPDATE SET
+              sequence = excluded.sequence,
+              event_id = excluded.event_id,
+              created_at = excluded.created_at,
+              snapshot = excluded.snapshot`,
+          )
+          .run(
+            sessionId,
+            parsed.sequence,
+            parsed.eventId,
+            parsed.createdAt,
+            JSON.stringify(parsed),
+          );
+      },
+    );
+  }
+
+  async loadSnapshot(sessionId: SessionId): Promise<DurableSessionSnapshot | null> {
+    const database = await this.open();
+    let row: Record<string, SQLOutputValue> | undefined;
+    try {
+      row = database
+        .prepare('SELECT sequence, snapshot FROM durable_snapshots WHERE session_id = ?')
+        .get(sessionId);
+    } catch (error) {
+      throw this.wrapError(
+        error,
+        'DURABLE_EVENT_READ_FAILED',
+        `Failed to read durable snapshot for session ${sessionId}`,
+      );
+    }
+    if (!row) {
+      return null;
+    }
+    let snapshot: DurableSessionSnapshot;
+    try {
+      snapshot = parseDurableSessionSnapshot(JSON.parse(String(row.snapshot)));
+    } catch (error) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Invalid durable snapshot for session ${sessionId}`,
+        { cause: error },
+      );
+    }
+    if (snapshot.sessionId !== sessionId || snapshot.sequence !== Number(row.sequence)) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Durable snapshot row does not match session ${sessionId}`,
+      );
+    }
+    return snapshot;
+  }
+
+  async compact(sessionId: SessionId): Promise<DurableEventCompactionResult> {
+    const database = await this.open();
+    return this.transaction(
+      database,
+      'IMMEDIATE',
+      'DURABLE_EVENT_WRITE_FAILED',
+      `Failed to compact durable events for session ${sessionId}`,
+      () => {
+        const compactedThrough = this.readCompactedThrough(database, sessionId);
+        const snapshot = database
+          .prepare('SELECT sequence FROM durable_snapshots WHERE session_id = ?')
+          .get(sessionId);
+        const through = snapshot ? Number(snapshot.sequence) - 1 : 0;
+        if (through <= Number(compactedThrough ?? 0)) {
+          return { compactedThroughSequence: compactedThrough, removedEvents: 0 };
+        }
+        const removed = database
+          .prepare('DELETE FROM durable_events WHERE session_id = ? AND sequence <= ?')
+          .run(sessionId, through);
+        database
+          .prepare('UPDATE durable_sessions SET compacted_through = ? WHERE session_id = ?')
+          .run(through, sessionId);
+        return {
+          compactedThroughSequence: EventSequence(through),
+          removedEvents: Number(removed.changes),
+        };
+      },
+    );
+  }
+
+  /**
+   * Lists Sessions ordered by Session ID.
+   *
+   * With `eventTypes`, `since` or `until`, only Sessions that have at least one
+   * event matching every given filter are returned, e.g. all Sessions with a
+   * `request_failed` event in the last day.
+   */
+  async listSessions(options: DurableSessionListOptions = {}): Promise<DurableSessionListPage> {
+    const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isSafeInteger(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_INVALID_CURSOR',
+        `Durable session list limit must be between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+
+    const eventFilters: string[] = [];
+    const parameters: SQLInputValue[] = [options.after ?? ''];
+    if (options.eventTypes) {
+      if (options.eventTypes.length === 0) {
+        return { sessions: [], nextCursor: null, hasMore: false };
+      }
+      eventFilters.push(`e.type IN (${options.eventTypes.map(() => '?').join(', ')})`);
+      parameters.push(...options.eventTypes);
+    }
+    if (options.since) {
+      eventFilters.push('e.recorded_at >= ?');
+      parameters.push(options.since.toISOString());
+    }
+    if (options.until) {
+      eventFilters.push('e.recorded_at < ?');
+      parameters.push(options.until.toISOString());
+    }
+    const eventClause =
+      eventFilters.length > 0
+        ? `AND EXISTS (
+            SELECT 1 FROM durable_events e
+            WHERE e.session_id = s.session_id AND ${eventFilters.join(' AND ')}
+          )`
+        : '';
+
+    const database = await this.open();
+    let rows: Record<string, SQLOutputValue>[];
+    try {
+      rows = database
+        .prepare(
+          `SELECT s.session_id, s.head_sequence, s.created_at, s.updated_at
+          FROM durable_sessions s
+          WHERE s.session_id > ? ${eventClause}
+          ORDER BY s.session_id
+          LIMIT ?`,
+        )
+        .all(...parameters, limit + 1);
+    } catch (error) {
+      throw this.wrapError(error, 'DURABLE_EVENT_READ_FAILED', 'Failed to list durable sessions');
+    }
+
+    const sessions = rows.slice(0, limit).map(
+      (row): DurableSessionSummary => ({
+        sessionId: SessionId(String(row.session_id)),
+        headSequence: EventSequence(Number(row.head_sequence)),
+        createdAt: String(row.created_at),
+        updatedAt: String(row.updated_at),
+      }),
+    );
+    const hasMore = rows.length > limit;
+    return {
+      sessions,
+      nextCursor: hasMore ? (sessions.at(-1)?.sessionId ?? null) : null,
+      hasMore,
+    };
+  }
+
+  /** Closes the database connection. Later calls reject with `DURABLE_EVENT_READ_FAILED`. */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    const database = this.database;
+    this.database = null;
+    if (database) {
+      (await database.catch(() => null))?.close();
+    }
+  }
+
+  private open(): Promise<DatabaseSync> {
+    if (this.closed) {
+      return Promise.reject(
+        new DurableEventStoreError(
+          'DURABLE_EVENT_READ_FAILED',
+          'Durable event store has been closed',
+        ),
+      );
+    }
+    this.database ??= this.openDatabase().catch((error: unknown) => {
+      this.database = null;
+      throw this.wrapError(
+        error,
+        'DURABLE_EVENT_READ_FAILED',
+        `Failed to open durable event database ${this.databasePath}`,
+      );
+    });
+    return this.database;
+  }
+
+  private async openDatabase(): Promise<DatabaseSync> {
+    const inMemory = this.databasePath === IN_MEMORY_DATABASE;
+    if (!inMemory) {
+      await mkdir(dirname(this.databasePath), { recursive: true, mode: 0o700 });
+    }
+    // 延迟加载：node:sqlite 仍是实验特性，静态导入会在加载 SDK 时输出警告。
+    const { DatabaseSync } = await import('node:sqlite');
+    const database = new DatabaseSync(this.databasePath);
+    try {
+      database.exec(`PRAGMA busy_timeout = ${Math.max(0, Math.trunc(this.busyTimeoutMs))}`);
+      if (!inMemory) {
+        database.exec('PRAGMA journal_mode = WAL');
+        await chmod(this.databasePath, 0o600);
+      }
+      database.exec('PRAGMA synchronous = FULL');
+      this.migrate(database);
+    } catch (error) {
+      database.close();
+      throw error;
+    }
+    return database;
+  }
+
+  private migrate(database: DatabaseSync): void {
+    const readVersion = () =>
+      Number(database.prepare('PRAGMA user_version').get()?.user_version ?? 0);
+    if (readVersion() === STORE_SCHEMA_VERSION) {
+      return;
+    }
+    database.exec('BEGIN IMMEDIATE');
+    try {
+      // Re-read under the write lock: another connection may have migrated meanwhile.
+      const version = readVersion();
+      if (version === STORE_SCHEMA_VERSION) {
+        database.exec('COMMIT');
+        return;
+      }
+      const migration = version === 0 ? SCHEMA : MIGRATIONS[version];
+      if (migration === undefined) {
+        throw new DurableEventStoreError(
+          'DURABLE_EVENT_CORRUPT_LOG',
+          `Unsupported durable event database schema version ${version}`,
+        );
+      }
+      database.exec(migration);
+      database.exec(`PRAGMA user_version = ${STORE_SCHEMA_VERSION}`);
+      database.exec('COMMIT');
+    } catch (error) {
+      database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private transaction<T>(
+    database: DatabaseSync,
+    mode: 'DEFERRED' | 'IMMEDIATE',
+    failureCode: 'DURABLE_EVENT_READ_FAILED' | 'DURABLE_EVENT_WRITE_FAILED',
+    failureMessage: string,
+    callback: () => T,
+  ): T {
+    try {
+      database.exec(`BEGIN ${mode}`);
+    } catch (error) {
+      throw this.wrapError(error, failureCode, failureMessage);
+    }
+    try {
+      const result = callback();
+      database.exec('COMMIT');
+      return result;
+    } catch (error) {
+      try {
+        database.exec('ROLLBACK');
+      } catch {
+        // COMMIT 失败时 SQLite 可能已自动回滚。
+      }
+      throw this.wrapError(error, failureCode, failureMessage);
+    }
+  }
+
+  private readHead(database: DatabaseSync, sessionId: SessionId): EventSequence | null {
+    const row = database
+      .prepare('SELECT head_sequence FROM durable_sessions WHERE session_id = ?')
+      .get(sessionId);
+    return row ? EventSequence(Number(row.head_sequence)) : null;
+  }
+
+  private readCompactedThrough(database: DatabaseSync, sessionId: SessionId): EventSequence | null {
+    const row = database
+      .prepare('SELECT compacted_through FROM durable_sessions WHERE session_id = ?')
+      .get(sessionId);
+    const compactedThrough = Number(row?.compacted_through ?? 0);
+    return compactedThrough > 0 ? EventSequence(compactedThrough) : null;
+  }
+
+  private parseRow(
+    row: Record<string, SQLOutputValue>,
+    sessionId: SessionId,
+    expectedSequence: number,
+  ): DurableEventEnvelope {
+    let event: DurableEventEnvelope;
+    try {
+      event = parseDurableEventEnvelope(JSON.parse(String(row.envelope)));
+    } catch (error) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Invalid durable event at sequence ${expectedSequence} for session ${sessionId}`,
+        { cause: error },
+      );
+    }
+    if (
+      Number(row.sequence) !== expectedSequence ||
+      event.sessionId !== sessionId ||
+      Number(event.sequence) !== expectedSequence ||
+      event.eventId !== row.event_id ||
+      event.schemaVersion !== row.schema_version
+    ) {
+      throw new DurableEventStoreError(
+        'DURABLE_EVENT_CORRUPT_LOG',
+        `Non-contiguous durable event for session ${sessionId}`,
+      );
+    }
+    return event;
+  }
+
+  private wrapError(
+    error: unknown,
+    code: 'DURABLE_EVENT_READ_FAILED' | 'DURABLE_EVENT_WRITE_FAILED',
+    message: string,
+  ): unknown {
+    if (
+      error instanceof DurableEventStoreError ||
+      error instanceof DurableEventSequenceConflictError
+    ) {
+      return error;
+    }
+    return new DurableEventStoreError(code, message, { cause: error });
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { DurableEventStore } from '../DurableEventStore.js';
+import {
+  createDurableEventStoreConformanceCases,
+  DurableEventStoreConformanceError,
+  type DurableEventStoreConformanceHarness,
+  runDurableEventStoreConformance,
+} from '../DurableEventStoreConformance.js';
+import { SqliteDurableEventStore } from '../SqliteDurableEventStore.js';
+
+function memoryHarness(
+  wrap: (store: SqliteDurableEventStore) => DurableEventStore = (store) => store,
+): DurableEventStoreConformanceHarness {
+  const opened = new Map<DurableEventStore, SqliteDurableEventStore>();
+  return {
+    createStore() {
+      const store = new SqliteDurableEventStore(':memory:');
+      const wrapped = wrap(store);
+      opened.set(wrapped, store);
+      return wrapped;
+    },
+    async disposeStore(store) {
+      await opened.get(store)?.close();
+      opened.delete(store);
+    },
+  };
+}
+
+describe('DurableEventStoreConformance', () => {
+  it('skips cases whose harness hooks or store options are unavailable', () => {
+    const cases = createDurableEventStoreConformanceCases(memoryHarness());
+    const skipped = cases.filter((conformanceCase) => conformanceCase.skip);
+
+    expect(skipped.map((conformanceCase) => conformanceCase.name)).toEqual([
+      'rejects duplicate generated event IDs without writing',
+      'persists events across store instances',
+      'enforces compare-and-append across store instances',
+      'reports corrupt committed events as DURABLE_EVENT_CORRUPT_LOG',
+      'rejects events stored with an unsupported schema version',
+      'keeps only the newest snapshot that matches the log',
+      'compacts events before the snapshot without renumbering',
+    ]);
+    expect(skipped.every((conformanceCase) => typeof conformanceCase.skip === 'string')).toBe(true);
+  });
+
+  it('passes every applicable case for a conforming store', async () => {
+    const report = await runDurableEventStoreConformance(memoryHarness());
+
+    expect(report.failed).toEqual([]);
+    expect(report.passed.length).toBeGreaterThan(0);
+    expect(report.skipped).toHaveLength(7);
+  });
+
+  it('reports the contract a broken store violates', async () => {
+    const report = await runDurableEventStoreConformance(
+      memoryHarness((store) => ({
+        append: (sessionId, events) => store.append(sessionId, events),
+        read: (sessionId, options) => store.read(sessionId, options),
+        getHeadSequence: (sessionId) => store.getHeadSequence(sessionId),
+      })),
+    );
+
+    expect(report.failed.map((failure) => failure.name)).toContain(
+      'rejects a stale expectedLastSequence without writing',
+    );
+    expect(
+      report.failed.every((failure) => failure.error instanceof DurableEventStoreConformanceError),
+    ).toBe(true);
+  });
+});
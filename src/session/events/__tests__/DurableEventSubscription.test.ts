@@ -25,6 +25,7 @@ import {
   DurableEventSubscription,
   DurableEventSubscriptionError,
   type DurableEventSubscriptionMessage,
+  durableSnapshotCursor,
   parseDurableEventCursor,
 } from '../DurableEventSubscription.js';
 import type { DurableEventStore } from '../DurableEventStore.js';
@@ -455,6 +456,42 @@ describe('DurableEventSubscription', () => {
     ).toThrow(DurableEventSubscriptionError);
   });
 
+  it('resumes from a snapshot cursor after compaction', async () => {
+    const store = createStore();
+    const journal = await DurableSessionJournal.open(store, sessionId);
+    await journal.commit({
+      commandId: CommandId('create'),
+      events: [{ type: DurableEventType.SESSION_CREATED, data: { source: 'create' } }],
+    });
+    await journal.commit({
+      commandId: CommandId('accept'),
+      events: [
+        {
+          type: DurableEventType.REQUEST_ACCEPTED,
+          requestId,
+          data: { inputId, input: 'run', priority: 'next' },
+        },
+      ],
+    });
+    const snapshot = await journal.saveSnapshot({ compact: true });
+    await journal.commit({
+      commandId: CommandId('start'),
+      events: [{ type: DurableEventType.REQUEST_STARTED, requestId, data: {} }],
+    });
+
+    const fromStart = await DurableEventSubscription.open(store, sessionId, { follow: false });
+    await expect(collect(fromStart)).rejects.toMatchObject({ code: 'DURABLE_EVENT_COMPACTED' });
+
+    const resumed = await DurableEventSubscription.open(store, sessionId, {
+      after: durableSnapshotCursor(snapshot),
+      follow: false,
+    });
+    const messages = await collect(resumed);
+    expect(
+      messages.map((message) => (message.type === 'event' ? message.event.sequence : message.type)),
+    ).toEqual([EventSequence(3), 'caught_up']);
+  });
+
   it.each([
     { pageSize: 0 },
     { pageSize: 1001 },
@@ -663,6 +663,65 @@ describe('DurableSessionJournal', () => {
     expect(replayed.events[0]?.data).toEqual({ source: 'create' });
   });
 
+  it('saves periodic snapshots and reopens from the newest one', async () => {
+    const journal = await DurableSessionJournal.open(store, sessionId, {
+      snapshots: { interval: 2 },
+    });
+    await journal.commit({ commandId: CommandId('command-create'), events: [sessionCreated()] });
+    expect(await store.loadSnapshot(sessionId)).toBeNull();
+
+    await journal.commit({ commandId: CommandId('command-request'), events: [requestAccepted()] });
+    await journal.commit({
+      commandId: CommandId('command-start'),
+      events: [{ type: DurableEventType.REQUEST_STARTED, requestId, data: {} }],
+    });
+
+    expect((await store.loadSnapshot(sessionId))?.sequence).toBe(2);
+    const reopened = await DurableSessionJournal.open(store, sessionId);
+    expect(reopened.getProjection()).toEqual(journal.getProjection());
+    expect(
+      (
+        await reopened.commit({
+          commandId: CommandId('command-start'),
+          events: [{ type: DurableEventType.REQUEST_STARTED, requestId, data: {} }],
+        })
+      ).status,
+    ).toBe('replayed');
+  });
+
+  it('reopens a compacted log from its snapshot', async () => {
+    const journal = await DurableSessionJournal.open(store, sessionId);
+    await journal.commit({ commandId: CommandId('command-create'), events: [sessionCreated()] });
+    await journal.commit({ commandId: CommandId('command-request'), events: [requestAccepted()] });
+
+    const snapshot = await journal.saveSnapshot({ compact: true });
+
+    expect(snapshot.sequence).toBe(2);
+    await expect(store.read(sessionId)).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_COMPACTED',
+      compactedThroughSequence: 1,
+    });
+    const reopened = await DurableSessionJournal.open(store, sessionId);
+    expect(reopened.getProjection()).toEqual(journal.getProjection());
+    await expect(
+      reopened.commit({
+        commandId: CommandId('command-start'),
+        events: [{ type: DurableEventType.REQUEST_STARTED, requestId, data: {} }],
+      }),
+    ).resolves.toMatchObject({ status: 'committed', lastSequence: 3 });
+  });
+
+  it('rejects snapshot policies the store cannot honor', async () => {
+    await expect(
+      DurableSessionJournal.open(new DelegatingStore(store), sessionId, {
+        snapshots: { interval: 10 },
+      }),
+    ).rejects.toMatchObject({ code: 'DURABLE_JOURNAL_SNAPSHOT_UNSUPPORTED' });
+    await expect(
+      DurableSessionJournal.open(store, sessionId, { snapshots: { interval: 0 } }),
+    ).rejects.toBeInstanceOf(DurableSessionJournalError);
+  });
+
   it('surfaces typed unknown-outcome errors', () => {
     expect(new DurableCommandOutcomeUnknownError(CommandId('command-1'))).toMatchObject({
       code: 'DURABLE_COMMAND_OUTCOME_UNKNOWN',
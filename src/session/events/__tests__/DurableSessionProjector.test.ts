@@ -221,6 +221,155 @@ describe('DurableSessionProjector', () => {
     });
   });
 
+  it('continues from a serialized snapshot with identical projection and ID checks', () => {
+    const events = envelopes([...turnPrefix(), toolScheduled(), permissionRequested()]);
+    const snapshot = new DurableSessionProjector()
+      .apply(events.slice(0, 6))
+      .toSnapshot(new Date(timestamp));
+
+    expect(snapshot).toMatchObject({
+      sessionId,
+      sequence: 6,
+      eventId: 'event-6',
+      createdAt: timestamp,
+    });
+    const restored = DurableSessionProjector.fromSnapshot(JSON.parse(JSON.stringify(snapshot)));
+    restored.apply(events.slice(6));
+    expect(restored.snapshot()).toEqual(projectDurableSession(events));
+    expect(restored.recoveryPlan()).toMatchObject({ action: 'resolve_permissions' });
+
+    const reused = envelopes([...turnPrefix(), toolScheduled(), toolScheduled()]);
+    expect(() => DurableSessionProjector.fromSnapshot(snapshot).apply(reused.slice(6))).toThrow(
+      /already used/,
+    );
+  });
+
+  it('rejects snapshots of empty projections and inconsistent snapshots', () => {
+    expect(() => new DurableSessionProjector().toSnapshot()).toThrow(DurableEventProjectionError);
+
+    const snapshot = new DurableSessionProjector().apply(envelopes(requestPrefix())).toSnapshot();
+    expect(() =>
+      DurableSessionProjector.fromSnapshot({ ...snapshot, sequence: EventSequence(2) }),
+    ).toThrow(DurableEventProjectionError);
+  });
+
+  it('rebuilds the model, permission mode, context overlay and compactions', () => {
+    const runtimeEvents = (scope: 'turn' | 'session'): DurableEventDraft[] => [
+      ...turnPrefix(),
+      {
+        type: DurableEventType.CONTEXT_PATCHED,
+        requestId,
+        turnId,
+        data: {
+          toolCallId,
+          toolName: 'EnterWorktree',
+          scope,
+          context: { capabilities: { filesystem: { roots: ['/tmp/worktree'] } } },
+        },
+      },
+      {
+        type: DurableEventType.CONTEXT_COMPACTED,
+        requestId,
+        turnId,
+        data: { trigger: 'reactive', strategy: 'truncate', retainedMessages: 40 },
+      },
+      {
+        type: DurableEventType.MODEL_CHANGED,
+        data: { model: 'claude-opus', previousModel: 'claude-sonnet' },
+      },
+      {
+        type: DurableEventType.PERMISSION_MODE_CHANGED,
+        data: { mode: 'plan', previousMode: 'default' },
+      },
+      {
+        type: DurableEventType.TURN_COMPLETED,
+        requestId,
+        turnId,
+        data: { turn: 1, hasToolCalls: true },
+      },
+      {
+        type: DurableEventType.REQUEST_COMPLETED,
+        requestId,
+        data: { output: 'done' },
+      },
+    ];
+
+    const running = project(runtimeEvents('turn').slice(0, -2));
+    expect(running).toMatchObject({
+      model: 'claude-opus',
+      permissionMode: 'plan',
+      contextOverlay: {
+        requestId,
+        scope: 'turn',
+        context: { capabilities: { filesystem: { roots: ['/tmp/worktree'] } } },
+      },
+      compactionCount: 1,
+      lastCompaction: {
+        requestId,
+        sequence: 7,
+        trigger: 'reactive',
+        strategy: 'truncate',
+        retainedMessages: 40,
+      },
+    });
+    expect(project(runtimeEvents('turn')).contextOverlay).toBeNull();
+
+    const events = envelopes(runtimeEvents('session'));
+    const snapshot = JSON.parse(
+      JSON.stringify(new DurableSessionProjector().apply(events.slice(0, 7)).toSnapshot()),
+    );
+    const restored = DurableSessionProjector.fromSnapshot(snapshot).apply(events.slice(7));
+    expect(restored.snapshot()).toEqual(projectDurableSession(events));
+    expect(restored.snapshot()).toMatchObject({
+      model: 'claude-opus',
+      permissionMode: 'plan',
+      contextOverlay: { scope: 'session' },
+      compactionCount: 1,
+    });
+
+    for (const field of [
+      'model',
+      'permissionMode',
+      'contextOverlay',
+      'compactionCount',
+      'lastCompaction',
+    ]) {
+      delete snapshot.state.projection[field];
+    }
+    expect(DurableSessionProjector.fromSnapshot(snapshot).snapshot()).toMatchObject({
+      model: null,
+      permissionMode: null,
+      contextOverlay: null,
+      compactionCount: 0,
+      lastCompaction: null,
+    });
+  });
+
+  it('rejects context events outside their active request and turn', () => {
+    expect(() =>
+      project([
+        ...requestPrefix(),
+        {
+          type: DurableEventType.CONTEXT_PATCHED,
+          requestId,
+          turnId,
+          data: { toolCallId, toolName: 'ExitWorktree', scope: 'turn', reset: true },
+        },
+      ]),
+    ).toThrow(DurableEventProjectionError);
+    expect(() =>
+      project([
+        ...turnPrefix(),
+        {
+          type: DurableEventType.CONTEXT_COMPACTED,
+          requestId,
+          turnId: TurnId('turn-2'),
+          data: { trigger: 'auto', strategy: 'summary', retainedMessages: 3 },
+        },
+      ]),
+    ).toThrow(/No active turn matches/);
+  });
+
   it('returns defensive snapshots that cannot mutate projector state', () => {
     const projector = new DurableSessionProjector().apply(
       envelopes([...turnPrefix(), toolScheduled()]),
@@ -226,6 +226,55 @@ describe('DurableSessionRecoveryCoordinator', () => {
     });
   });
 
+  it('rebuilds the model, permission mode and context the session failed with', async () => {
+    const store = createStore();
+    const journal = await createJournal(store, { requestStarted: true, tool: 'started' });
+    await journal.commit({
+      commandId: CommandId('runtime-state'),
+      events: [
+        {
+          type: DurableEventType.MODEL_CHANGED,
+          data: { model: 'switched-model', previousModel: 'accepted-model' },
+        },
+        {
+          type: DurableEventType.PERMISSION_MODE_CHANGED,
+          data: { mode: 'autoEdit', previousMode: 'default' },
+        },
+        {
+          type: DurableEventType.CONTEXT_PATCHED,
+          requestId,
+          turnId,
+          data: {
+            toolCallId,
+            toolName: 'EnterWorktree',
+            scope: 'session',
+            context: { environment: { WORKTREE: 'feature' } },
+          },
+        },
+      ],
+    });
+
+    const coordinator = await DurableSessionRecoveryCoordinator.open(store, sessionId);
+    const expected = {
+      model: 'switched-model',
+      permissionMode: 'autoEdit',
+      context: {
+        id: 'accepted-context',
+        environment: { RECOVERED: 'yes', WORKTREE: 'feature' },
+      },
+      contextOverlay: {
+        requestId,
+        scope: 'session',
+        context: { environment: { WORKTREE: 'feature' } },
+      },
+    };
+    expect(coordinator.getRuntimeState()).toMatchObject(expected);
+    expect(coordinator.planResume()).toMatchObject({
+      action: 'recovery_required',
+      runtime: expected,
+    });
+  });
+
   it('reconciles an unknown tool outcome idempotently across coordinator instances', async () => {
     const store = createStore();
     await createJournal(store, { requestStarted: true, tool: 'started' });
@@ -0,0 +1,244 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { agentLoop } from '../../../agent/AgentLoop.js';
+import { observeChatService } from '../../../agent/loop/observeChatService.js';
+import { ConversationState } from '../../../agent/state/ConversationState.js';
+import type { LoopResult } from '../../../agent/types.js';
+import type { IChatService, StreamChunk } from '../../../services/ChatServiceInterface.js';
+import { createTool } from '../../../tools/core/createTool.js';
+import { ExecutionPipeline } from '../../../tools/execution/ExecutionPipeline.js';
+import { ToolRegistry } from '../../../tools/registry/ToolRegistry.js';
+import { ToolKind } from '../../../tools/types/ToolKind.js';
+import { completeToolExecution } from '../../../tools/types/ToolResult.js';
+import {
+  CommandId,
+  EventId,
+  InputId,
+  RequestId,
+  SessionId,
+  ToolUseId,
+} from '../../../types/branded.js';
+import { PermissionMode } from '../../../types/common.js';
+import { DurableSessionJournal } from '../DurableSessionJournal.js';
+import { replayDurableSession } from '../DurableSessionReplay.js';
+import { JsonlDurableEventStore } from '../JsonlDurableEventStore.js';
+import {
+  durableRequestFinishFromLoopResult,
+  SessionDurableRecorder,
+} from '../SessionDurableRecorder.js';
+import { DurableEventType } from '../types.js';
+
+const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, maxContextTokens: 0 };
+
+function echoToolCall(id: string, text: string): StreamChunk {
+  return {
+    toolCalls: [
+      {
+        index: 0,
+        id,
+        type: 'function',
+        function: { name: 'Echo', arguments: JSON.stringify({ text }) },
+      },
+    ],
+    finishReason: 'tool_calls',
+  };
+}
+
+function scriptedChatService(responses: StreamChunk[][]): IChatService {
+  let call = 0;
+  return {
+    chat: async () => {
+      throw new Error('unexpected chat()');
+    },
+    sideQuery: async () => {
+      throw new Error('unexpected sideQuery()');
+    },
+    async *streamChat() {
+      const chunks = responses[call++];
+      if (!chunks) {
+        throw new Error('script exhausted');
+      }
+      yield* chunks;
+    },
+    getConfig: () => ({
+      provider: 'openai-compatible',
+      apiKey: '',
+      baseUrl: '',
+      model: 'test-model',
+    }),
+    updateConfig: () => {},
+  };
+}
+
+describe('replayDurableSession', () => {
+  let storageRoot: string;
+  let store: JsonlDurableEventStore;
+  let journal: DurableSessionJournal;
+  const sessionId = SessionId('session-replay');
+
+  beforeEach(async () => {
+    storageRoot = await mkdtemp(join(tmpdir(), 'durable-session-replay-'));
+    let nextEventId = 0;
+    store = new JsonlDurableEventStore(storageRoot, {
+      eventIdFactory: () => EventId(`event-${++nextEventId}`),
+    });
+    journal = await DurableSessionJournal.open(store, sessionId);
+    await journal.commit({
+      commandId: CommandId('command-create'),
+      events: [{ type: DurableEventType.SESSION_CREATED, data: { source: 'create' } }],
+    });
+  });
+
+  afterEach(async () => {
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  async function runRecordedRequest(
+    id: string,
+    input: string,
+    responses: StreamChunk[][],
+    options: { recordModelResponses?: boolean } = {},
+  ): Promise<LoopResult> {
+    const recorder = new SessionDurableRecorder(journal, RequestId(id), 'test-model');
+    const inputId = InputId(`input-${id}`);
+    await recorder.recordAccepted(inputId, input, 'next', { maxTurns: 5 });
+    await recorder.recordStarted(inputId);
+
+    const registry = new ToolRegistry();
+    registry.register(
+      createTool({
+        name: 'Echo',
+        displayName: 'Echo',
+        kind: ToolKind.ReadOnly,
+        sideEffect: 'pure',
+        schema: z.object({ text: z.string() }),
+        description: { short: 'Echo text' },
+        execute: (params) =>
+          completeToolExecution({ status: 'success', model: `echo: ${params.text}` }),
+      }) as never,
+    );
+    const service = scriptedChatService(responses);
+    const chatService =
+      options.recordModelResponses === false ? service : observeChatService(service, recorder);
+    const conversationState = new ConversationState(null, [], { role: 'user', content: input });
+    const loop = agentLoop({
+      streaming: true,
+      executionPipeline: new ExecutionPipeline(registry, { permissionMode: PermissionMode.YOLO }),
+      conversationState,
+      maxTurns: 5,
+      isYoloMode: false,
+      prepareTurnState: (turn) => ({
+        turn,
+        messages: conversationState.toArray(),
+        tools: [{ name: 'Echo', description: 'Echo text', parameters: { type: 'object' } }],
+        chatService,
+        maxContextTokens: 100000,
+        permissionMode: PermissionMode.YOLO,
+        executionContext: { sessionId, userId: 'test', lifecycle: recorder },
+      }),
+    });
+
+    while (true) {
+      const { value, done } = await loop.next();
+      if (done) {
+        await recorder.finish(durableRequestFinishFromLoopResult(value, usage));
+        return value;
+      }
+      await recorder.recordAgentEvent(value);
+    }
+  }
+
+  it('re-runs recorded requests through the loop without divergence', async () => {
+    const first = await runRecordedRequest('request-1', 'say hi', [
+      [{ content: 'Echoing. ' }, echoToolCall('call-1', 'hi')],
+      [{ content: 'Done: hi' }, { finishReason: 'stop' }],
+    ]);
+    await runRecordedRequest('request-2', 'thanks', [
+      [{ content: 'You are welcome' }, { finishReason: 'stop' }],
+    ]);
+    expect(first.finalMessage).toBe('Done: hi');
+
+    const recorded = (await store.read(sessionId)).events.filter(
+      (event) => event.type === DurableEventType.MODEL_RESPONDED,
+    );
+    expect(recorded).toHaveLength(3);
+    expect(recorded[0]).toMatchObject({
+      requestId: RequestId('request-1'),
+      data: { streamed: true, tools: ['Echo'] },
+    });
+
+    const report = await replayDurableSession(store, sessionId);
+
+    expect(report.divergence).toBeNull();
+    expect(report.requests).toEqual([
+      {
+        requestId: RequestId('request-1'),
+        status: 'matched',
+        turns: 2,
+        modelResponses: 2,
+        toolCalls: 1,
+      },
+      {
+        requestId: RequestId('request-2'),
+        status: 'matched',
+        turns: 1,
+        modelResponses: 1,
+        toolCalls: 0,
+      },
+    ]);
+  });
+
+  it('reports the first point where the loop disagrees with the log', async () => {
+    await runRecordedRequest(
+      'request-1',
+      'unrecorded',
+      [[{ content: 'No responses journaled' }, { finishReason: 'stop' }]],
+      { recordModelResponses: false },
+    );
+    const recorder = new SessionDurableRecorder(journal, RequestId('request-2'), 'test-model');
+    await recorder.recordAccepted(InputId('input-2'), 'say hi');
+    await recorder.recordStarted(InputId('input-2'));
+    await recorder.recordAgentEvent({ type: 'turn_start', turn: 1, maxTurns: 5 });
+    await recorder.onModelResponse({
+      streamed: true,
+      tools: ['Echo'],
+      chunks: [echoToolCall('call-1', 'hi')],
+    });
+    // The recorded input no longer matches what the current loop derives
+    // from the same model output.
+    const lifecycle = await recorder.onToolScheduled({
+      toolCallId: ToolUseId('call-1'),
+      toolName: 'Echo',
+      input: { text: 'bye' },
+      sideEffect: 'pure',
+      interruptBehavior: 'block',
+    });
+    await lifecycle.onExecutionStarted?.({ input: { text: 'bye' }, sideEffect: 'pure' });
+    await recorder.onToolSettled({
+      toolCallId: ToolUseId('call-1'),
+      toolName: 'Echo',
+      result: { status: 'success', model: 'echo: bye' },
+    });
+    await recorder.recordAgentEvent({ type: 'turn_end', turn: 1, hasToolCalls: true });
+    await recorder.finish({ status: 'completed', output: 'bye' });
+
+    const report = await replayDurableSession(store, sessionId);
+
+    expect(report.requests.map((request) => [request.requestId, request.status])).toEqual([
+      [RequestId('request-1'), 'skipped'],
+      [RequestId('request-2'), 'diverged'],
+    ]);
+    expect(report.requests[0]?.skipReason).toBe('no_model_responses');
+    expect(report.divergence).toMatchObject({
+      requestId: RequestId('request-2'),
+      kind: 'tool_call_mismatch',
+      turn: 1,
+      toolCallId: ToolUseId('call-1'),
+      expected: { toolName: 'Echo', input: { text: 'bye' } },
+      actual: { toolName: 'Echo', input: { text: 'hi' } },
+    });
+  });
+});
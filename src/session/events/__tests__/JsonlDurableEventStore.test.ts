@@ -1,4 +1,4 @@
-import { appendFile, mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { appendFile, mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { dirname, join, resolve } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
@@ -12,8 +12,13 @@ import {
   TurnId,
 } from '../../../types/branded.js';
 import { DurableEventSequenceConflictError, DurableEventStoreError } from '../DurableEventStore.js';
+import {
+  createDurableEventStoreConformanceCases,
+  type DurableEventStoreConformanceHarness,
+} from '../DurableEventStoreConformance.js';
+import { DurableSessionJournal } from '../DurableSessionJournal.js';
 import { JsonlDurableEventStore } from '../JsonlDurableEventStore.js';
-import { DURABLE_EVENT_LOG_FORMAT } from '../schemas.js';
+import { DURABLE_EVENT_COMPACTION_FORMAT, DURABLE_EVENT_LOG_FORMAT } from '../schemas.js';
 import { DURABLE_EVENT_SCHEMA_VERSION, DurableEventType } from '../types.js';
 
 describe('JsonlDurableEventStore', () => {
@@ -379,6 +384,33 @@ describe('JsonlDurableEventStore', () => {
     });
   });
 
+  it('records compaction as a marker line and keeps the snapshot private', async () => {
+    const sessionId = SessionId('session-compaction');
+    const journal = await DurableSessionJournal.open(store, sessionId);
+    await journal.commit({
+      commandId: CommandId('command-create'),
+      events: [{ type: DurableEventType.SESSION_CREATED, data: { source: 'create' } }],
+    });
+    await journal.commit({
+      commandId: CommandId('command-close'),
+      events: [{ type: DurableEventType.SESSION_CLOSED, data: { reason: 'shutdown' } }],
+    });
+
+    await journal.saveSnapshot({ compact: true });
+
+    const lines = (await readFile(store.getFilePath(sessionId), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toMatchObject([
+      {
+        format: DURABLE_EVENT_COMPACTION_FORMAT,
+        sessionId,
+        compactedThroughSequence: 1,
+      },
+      { firstSequence: 2, lastSequence: 2 },
+    ]);
+    expect((await stat(store.getSnapshotPath(sessionId))).mode & 0o777).toBe(0o600);
+    expect(await store.getHeadSequence(sessionId)).toBe(2);
+  });
+
   it('persists files with owner-only permissions', async () => {
     const sessionId = SessionId('session-permissions');
     await store.append(sessionId, [{ type: DurableEventType.SESSION_CREATED, data: {} }]);
@@ -387,3 +419,67 @@ describe('JsonlDurableEventStore', () => {
     expect(mode).toBe(0o600);
   });
 });
+
+describe('JsonlDurableEventStore conformance', () => {
+  const roots = new Map<JsonlDurableEventStore, string>();
+
+  async function rewriteBatch(
+    store: JsonlDurableEventStore,
+    sessionId: SessionId,
+    sequence: EventSequence,
+    rewrite: (batch: { firstSequence: number; lastSequence: number; events: unknown[] }) => unknown,
+  ): Promise<void> {
+    const filePath = store.getFilePath(sessionId);
+    const lines = (await readFile(filePath, 'utf8')).split('\n').map((line) => {
+      if (line === '') {
+        return line;
+      }
+      const batch = JSON.parse(line);
+      const contains = batch.firstSequence <= sequence && sequence <= batch.lastSequence;
+      return contains ? JSON.stringify(rewrite(batch)) : line;
+    });
+    await writeFile(filePath, lines.join('\n'), 'utf8');
+  }
+
+  const harness: DurableEventStoreConformanceHarness<JsonlDurableEventStore> = {
+    honorsStoreOptions: true,
+    snapshots: true,
+    async createStore(options) {
+      const root = await mkdtemp(join(tmpdir(), 'durable-event-conformance-'));
+      const store = new JsonlDurableEventStore(root, options);
+      roots.set(store, root);
+      return store;
+    },
+    openPeer(store, options) {
+      const root = roots.get(store);
+      if (!root) {
+        throw new Error('Unknown conformance store');
+      }
+      return new JsonlDurableEventStore(root, options);
+    },
+    corruptEvent(store, sessionId, sequence) {
+      return rewriteBatch(store, sessionId, sequence, () => ({ invalid: true }));
+    },
+    setEventSchemaVersion(store, sessionId, sequence, schemaVersion) {
+      return rewriteBatch(store, sessionId, sequence, (batch) => ({
+        ...batch,
+        events: batch.events.map((event, index) =>
+          batch.firstSequence + index === sequence
+            ? { ...(event as object), schemaVersion }
+            : event,
+        ),
+      }));
+    },
+    async disposeStore(store) {
+      const root = roots.get(store);
+      roots.delete(store);
+      if (root) {
+        await rm(root, { recursive: true, force: true });
+      }
+    },
+  };
+
+  for (const conformanceCase of createDurableEventStoreConformanceCases(harness)) {
+    (conformanceCase.skip ? it.skip : it)(conformanceCase.name, conformanceCase.run);
+  }
+});
@@ -156,6 +156,81 @@ describe('SessionDurableRecorder', () => {
     expect(journal.getProjection().activeRequest).toBeNull();
   });
 
+  it('records context patches, compactions and mid-request model switches', async () => {
+    await recorder.recordAccepted(inputId, 'enter worktree', 'next', {
+      permissionMode: 'autoEdit',
+    });
+    await recorder.recordStarted(inputId);
+    await recorder.recordAgentEvent({ type: 'compacting', isCompacting: true });
+    await recorder.recordAgentEvent({
+      type: 'compacting',
+      isCompacting: false,
+      result: { trigger: 'auto', strategy: 'summary', retainedMessages: 3, preTokens: 900 },
+    });
+    await recorder.recordAgentEvent({ type: 'turn_start', turn: 1, maxTurns: 10 });
+    const toolCall = {
+      id: 'tool-call-1',
+      type: 'function' as const,
+      function: { name: 'EnterWorktree', arguments: '{}' },
+    };
+    await recorder.recordAgentEvent({
+      type: 'tool_context_patch',
+      toolCall,
+      patch: { scope: 'session', context: { environment: { WORKTREE: 'feature' } } },
+    });
+    await recorder.recordAgentEvent({
+      type: 'tool_context_patch',
+      toolCall,
+      patch: { scope: 'turn' },
+    });
+    await recorder.recordAgentEvent({ type: 'turn_end', turn: 1, hasToolCalls: true });
+    await journal.commit({
+      commandId: CommandId('command-model'),
+      events: [
+        {
+          type: DurableEventType.MODEL_CHANGED,
+          data: { model: 'switched-model', previousModel: 'test-model' },
+        },
+      ],
+    });
+    await recorder.recordAgentEvent({ type: 'turn_start', turn: 2, maxTurns: 10 });
+
+    const events = (await store.read(sessionId)).events;
+    expect(events.map((event) => event.type)).toEqual([
+      'session_created',
+      'request_accepted',
+      'input_applied',
+      'request_started',
+      'context_compacted',
+      'turn_started',
+      'context_patched',
+      'turn_completed',
+      'model_changed',
+      'turn_started',
+    ]);
+    expect(events[1]?.data).toMatchObject({ permissionMode: 'autoEdit' });
+    expect(events[4]).not.toHaveProperty('turnId');
+    expect(events[4]?.data).toEqual({
+      trigger: 'auto',
+      strategy: 'summary',
+      retainedMessages: 3,
+      preTokens: 900,
+    });
+    expect(events[6]?.data).toEqual({
+      toolCallId: 'tool-call-1',
+      toolName: 'EnterWorktree',
+      scope: 'session',
+      context: { environment: { WORKTREE: 'feature' } },
+    });
+    expect(events[9]?.data).toMatchObject({ turn: 2, model: 'switched-model' });
+    expect(journal.getProjection()).toMatchObject({
+      model: 'switched-model',
+      permissionMode: 'autoEdit',
+      contextOverlay: { scope: 'session' },
+      compactionCount: 1,
+    });
+  });
+
   it('records a denied permission as a cancelled tool without starting it', async () => {
     await recorder.recordAccepted(inputId, 'run write');
     await recorder.recordStarted(inputId);
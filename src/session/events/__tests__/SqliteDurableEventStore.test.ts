@@ -0,0 +1,459 @@
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CommandId,
+  EventId,
+  EventSequence,
+  InputId,
+  RequestId,
+  SessionId,
+  TurnId,
+} from '../../../types/branded.js';
+import { DurableEventSequenceConflictError, DurableEventStoreError } from '../DurableEventStore.js';
+import {
+  createDurableEventStoreConformanceCases,
+  type DurableEventStoreConformanceHarness,
+} from '../DurableEventStoreConformance.js';
+import { DurableSessionJournal } from '../DurableSessionJournal.js';
+import { SqliteDurableEventStore } from '../SqliteDurableEventStore.js';
+import { DurableEventType } from '../types.js';
+
+describe('SqliteDurableEventStore', () => {
+  let storageRoot: string;
+  let databasePath: string;
+  let nextEventId: number;
+  let store: SqliteDurableEventStore;
+  const stores: SqliteDurableEventStore[] = [];
+
+  function openStore(options: ConstructorParameters<typeof SqliteDurableEventStore>[1] = {}) {
+    const opened = new SqliteDurableEventStore(databasePath, options);
+    stores.push(opened);
+    return opened;
+  }
+
+  function corrupt(sql: string, ...parameters: Array<string | number>): void {
+    const database = new DatabaseSync(databasePath);
+    try {
+      database.prepare(sql).run(...parameters);
+    } finally {
+      database.close();
+    }
+  }
+
+  beforeEach(async () => {
+    storageRoot = await mkdtemp(join(tmpdir(), 'sqlite-durable-event-store-'));
+    databasePath = join(storageRoot, 'events', 'durable.sqlite');
+    nextEventId = 0;
+    store = openStore({
+      clock: () => new Date('2026-08-22T12:00:00.000Z'),
+      eventIdFactory: () => EventId(`event-${++nextEventId}`),
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map((opened) => opened.close()));
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  it('returns an empty page for a new session', async () => {
+    const sessionId = SessionId('session-empty');
+
+    await expect(store.getHeadSequence(sessionId)).resolves.toBeNull();
+    await expect(store.read(sessionId)).resolves.toEqual({
+      events: [],
+      headSequence: null,
+      nextCursor: null,
+      hasMore: false,
+    });
+  });
+
+  it('assigns contiguous sequences and resumes them after reopening', async () => {
+    const sessionId = SessionId('session-sequences');
+    const first = await store.append(
+      sessionId,
+      [
+        {
+          type: DurableEventType.REQUEST_ACCEPTED,
+          requestId: RequestId('request-1'),
+          commandId: CommandId('command-1'),
+          data: { inputId: InputId('input-1'), input: 'hello', priority: 'next' },
+        },
+        { type: DurableEventType.REQUEST_STARTED, requestId: RequestId('request-1'), data: {} },
+      ],
+      { expectedLastSequence: null },
+    );
+
+    expect(first.previousSequence).toBeNull();
+    expect(first.events.map((event) => event.sequence)).toEqual([1, 2]);
+    expect(first.lastSequence).toBe(2);
+    await store.close();
+
+    const reopened = openStore({
+      clock: () => new Date('2026-08-22T12:00:01.000Z'),
+      eventIdFactory: () => EventId('event-3'),
+    });
+    const second = await reopened.append(
+      sessionId,
+      [
+        {
+          type: DurableEventType.TURN_STARTED,
+          requestId: RequestId('request-1'),
+          turnId: TurnId('turn-1'),
+          data: { turn: 1 },
+        },
+      ],
+      { expectedLastSequence: EventSequence(2) },
+    );
+
+    expect(second.events[0]?.sequence).toBe(3);
+    expect(await reopened.getHeadSequence(sessionId)).toBe(3);
+    expect((await reopened.read(sessionId)).events.map((event) => event.eventId)).toEqual([
+      'event-1',
+      'event-2',
+      'event-3',
+    ]);
+  });
+
+  it('reads exclusive cursor pages without gaps', async () => {
+    const sessionId = SessionId('session-pagination');
+    const requestId = RequestId('request-pagination');
+    await store.append(sessionId, [
+      { type: DurableEventType.SESSION_CREATED, data: {} },
+      {
+        type: DurableEventType.REQUEST_ACCEPTED,
+        requestId,
+        commandId: CommandId('command-pagination'),
+        data: { inputId: InputId('input-pagination'), input: 'hello', priority: 'next' },
+      },
+      { type: DurableEventType.REQUEST_STARTED, requestId, data: {} },
+    ]);
+
+    const firstPage = await store.read(sessionId, { limit: 2 });
+    expect(firstPage.events.map((event) => event.sequence)).toEqual([1, 2]);
+    expect(firstPage.nextCursor).toBe(2);
+    expect(firstPage.headSequence).toBe(3);
+    expect(firstPage.hasMore).toBe(true);
+
+    const secondPage = await store.read(sessionId, {
+      after: firstPage.nextCursor ?? undefined,
+      limit: 2,
+    });
+    expect(secondPage.events.map((event) => event.sequence)).toEqual([3]);
+    expect(secondPage.nextCursor).toBe(3);
+    expect(secondPage.hasMore).toBe(false);
+  });
+
+  it('allows only one compare-and-append writer across connections', async () => {
+    const sessionId = SessionId('session-conflict');
+    await store.append(sessionId, [{ type: DurableEventType.SESSION_CREATED, data: {} }], {
+      expectedLastSequence: null,
+    });
+    const competingStore = openStore({ eventIdFactory: () => EventId('competing-event') });
+
+    const results = await Promise.allSettled([
+      competingStore.append(
+        sessionId,
+        [
+          {
+            type: DurableEventType.REQUEST_ACCEPTED,
+            requestId: RequestId('request-a'),
+            commandId: CommandId('command-a'),
+            data: { inputId: InputId('input-a'), input: 'a', priority: 'next' },
+          },
+        ],
+        { expectedLastSequence: EventSequence(1) },
+      ),
+      store.append(
+        sessionId,
+        [
+          {
+            type: DurableEventType.REQUEST_ACCEPTED,
+            requestId: RequestId('request-b'),
+            commandId: CommandId('command-b'),
+            data: { inputId: InputId('input-b'), input: 'b', priority: 'next' },
+          },
+        ],
+        { expectedLastSequence: EventSequence(1) },
+      ),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((result) => result.status === 'rejected');
+    expect(rejected).toMatchObject({
+      status: 'rejected',
+      reason: expect.objectContaining({ expectedSequence: 1, actualSequence: 2 }),
+    });
+    if (rejected?.status === 'rejected') {
+      expect(rejected.reason).toBeInstanceOf(DurableEventSequenceConflictError);
+    }
+    expect(await store.getHeadSequence(sessionId)).toBe(2);
+  });
+
+  it('rejects duplicate event IDs without a partial write', async () => {
+    const sessionId = SessionId('session-duplicate-event-id');
+    const duplicateStore = openStore({ eventIdFactory: () => EventId('duplicate-event') });
+    await duplicateStore.append(sessionId, [{ type: DurableEventType.SESSION_CREATED, data: {} }]);
+
+    await expect(
+      duplicateStore.append(sessionId, [
+        { type: DurableEventType.REQUEST_STARTED, requestId: RequestId('request-1'), data: {} },
+      ]),
+    ).rejects.toMatchObject({ code: 'DURABLE_EVENT_INVALID_APPEND' });
+    expect(await duplicateStore.getHeadSequence(sessionId)).toBe(1);
+  });
+
+  it('rejects invalid appends before creating a session', async () => {
+    const sessionId = SessionId('session-invalid');
+
+    await expect(store.append(sessionId, [])).rejects.toBeInstanceOf(DurableEventStoreError);
+    await expect(
+      store.append(sessionId, [
+        { type: DurableEventType.REQUEST_ACCEPTED, data: { invalid: undefined } },
+      ] as never),
+    ).rejects.toMatchObject({ code: 'DURABLE_EVENT_INVALID_APPEND' });
+    expect(await store.getHeadSequence(sessionId)).toBeNull();
+    expect((await store.listSessions()).sessions).toEqual([]);
+  });
+
+  it('rejects invalid and future cursors', async () => {
+    const sessionId = SessionId('session-cursor');
+    await store.append(sessionId, [{ type: DurableEventType.SESSION_CREATED, data: {} }]);
+
+    await expect(store.read(sessionId, { after: EventSequence(2) })).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_INVALID_CURSOR',
+    });
+    await expect(store.read(sessionId, { limit: 0 })).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_INVALID_CURSOR',
+    });
+  });
+
+  it('rejects corrupt and missing committed rows', async () => {
+    const sessionId = SessionId('session-corrupt');
+    await store.append(sessionId, [
+      { type: DurableEventType.SESSION_CREATED, data: {} },
+      { type: DurableEventType.SESSION_CLOSED, data: { reason: 'user' } },
+    ]);
+
+    corrupt(
+      'UPDATE durable_events SET envelope = ? WHERE session_id = ? AND sequence = 2',
+      '{"invalid":true}',
+      sessionId,
+    );
+    await expect(store.read(sessionId)).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_CORRUPT_LOG',
+    });
+
+    corrupt('DELETE FROM durable_events WHERE session_id = ? AND sequence = 1', sessionId);
+    await expect(store.read(sessionId)).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_CORRUPT_LOG',
+    });
+  });
+
+  it('rejects events written with another schema version', async () => {
+    const sessionId = SessionId('session-schema-version');
+    await store.append(sessionId, [{ type: DurableEventType.SESSION_CREATED, data: {} }]);
+
+    corrupt(
+      "UPDATE durable_events SET envelope = json_set(envelope, '$.schemaVersion', 1) WHERE session_id = ?",
+      sessionId,
+    );
+
+    await expect(store.read(sessionId)).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_CORRUPT_LOG',
+    });
+  });
+
+  it('returns defensive copies of appended and loaded event data', async () => {
+    const sessionId = SessionId('session-clones');
+    const data = { nested: { value: 'original' } };
+    const appended = await store.append(sessionId, [
+      {
+        type: DurableEventType.REQUEST_COMPLETED,
+        requestId: RequestId('request-clones'),
+        data: { output: data },
+      },
+    ]);
+
+    data.nested.value = 'mutated-input';
+    const appendedEvent = appended.events[0];
+    if (appendedEvent?.type !== DurableEventType.REQUEST_COMPLETED) {
+      throw new Error('Expected request_completed event');
+    }
+    (appendedEvent.data.output as { nested: { value: string } }).nested.value = 'mutated-result';
+
+    expect((await store.read(sessionId)).events[0]?.data).toEqual({
+      output: { nested: { value: 'original' } },
+    });
+  });
+
+  it('lists sessions by event type and recorded time', async () => {
+    let now = new Date('2026-08-20T12:00:00.000Z');
+    const listingStore = openStore({
+      clock: () => now,
+      eventIdFactory: () => EventId(`listing-${++nextEventId}`),
+    });
+    const failed = (sessionId: SessionId) =>
+      listingStore.append(sessionId, [
+        {
+          type: DurableEventType.REQUEST_FAILED,
+          requestId: RequestId(`request-${sessionId}`),
+          data: { error: { message: 'boom' } },
+        },
+      ]);
+    await failed(SessionId('session-old-failure'));
+    now = new Date('2026-08-22T12:00:00.000Z');
+    await failed(SessionId('session-a'));
+    await failed(SessionId('session-b'));
+    await listingStore.append(SessionId('session-ok'), [
+      { type: DurableEventType.SESSION_CREATED, data: {} },
+    ]);
+
+    const recentFailures = {
+      eventTypes: [DurableEventType.REQUEST_FAILED],
+      since: new Date('2026-08-21T12:00:00.000Z'),
+    };
+    const firstPage = await listingStore.listSessions({ ...recentFailures, limit: 1 });
+    expect(firstPage.sessions).toEqual([
+      {
+        sessionId: 'session-a',
+        headSequence: 1,
+        createdAt: '2026-08-22T12:00:00.000Z',
+        updatedAt: '2026-08-22T12:00:00.000Z',
+      },
+    ]);
+    expect(firstPage).toMatchObject({ nextCursor: 'session-a', hasMore: true });
+
+    const secondPage = await listingStore.listSessions({
+      ...recentFailures,
+      after: firstPage.nextCursor ?? undefined,
+    });
+    expect(secondPage.sessions.map((session) => session.sessionId)).toEqual(['session-b']);
+    expect(secondPage).toMatchObject({ nextCursor: null, hasMore: false });
+
+    expect(
+      (await listingStore.listSessions()).sessions.map((session) => session.sessionId),
+    ).toEqual(['session-a', 'session-b', 'session-ok', 'session-old-failure']);
+  });
+
+  it('migrates a version 1 database before snapshotting it', async () => {
+    const sessionId = SessionId('session-migration');
+    await store.append(sessionId, [
+      { type: DurableEventType.SESSION_CREATED, data: { source: 'create' } },
+      { type: DurableEventType.SESSION_CLOSED, data: { reason: 'shutdown' } },
+    ]);
+    await store.close();
+    const database = new DatabaseSync(databasePath);
+    try {
+      database.exec(`
+        DROP TABLE durable_snapshots;
+        ALTER TABLE durable_sessions DROP COLUMN compacted_through;
+        PRAGMA user_version = 1;
+      `);
+    } finally {
+      database.close();
+    }
+
+    const migrated = openStore();
+    const journal = await DurableSessionJournal.open(migrated, sessionId);
+    const snapshot = await journal.saveSnapshot({ compact: true });
+
+    await expect(migrated.loadSnapshot(sessionId)).resolves.toEqual(snapshot);
+    await expect(migrated.read(sessionId, { after: EventSequence(1) })).resolves.toMatchObject({
+      events: [{ sequence: 2 }],
+      headSequence: 2,
+    });
+    await expect(migrated.read(sessionId)).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_COMPACTED',
+      compactedThroughSequence: 1,
+    });
+  });
+
+  it('persists the database with owner-only permissions', async () => {
+    await store.append(SessionId('session-permissions'), [
+      { type: DurableEventType.SESSION_CREATED, data: {} },
+    ]);
+
+    expect((await stat(databasePath)).mode & 0o777).toBe(0o600);
+  });
+
+  it('rejects calls after close', async () => {
+    await store.close();
+
+    await expect(store.getHeadSequence(SessionId('session-closed'))).rejects.toMatchObject({
+      code: 'DURABLE_EVENT_READ_FAILED',
+    });
+  });
+});
+
+describe('SqliteDurableEventStore conformance', () => {
+  const databases = new Map<SqliteDurableEventStore, { root: string; path: string }>();
+
+  function update(
+    store: SqliteDurableEventStore,
+    sql: string,
+    ...parameters: Array<string | number>
+  ): void {
+    const location = databases.get(store);
+    if (!location) {
+      throw new Error('Unknown conformance store');
+    }
+    const database = new DatabaseSync(location.path);
+    try {
+      database.prepare(sql).run(...parameters);
+    } finally {
+      database.close();
+    }
+  }
+
+  const harness: DurableEventStoreConformanceHarness<SqliteDurableEventStore> = {
+    honorsStoreOptions: true,
+    snapshots: true,
+    async createStore(options) {
+      const root = await mkdtemp(join(tmpdir(), 'sqlite-durable-event-conformance-'));
+      const path = join(root, 'durable.sqlite');
+      const store = new SqliteDurableEventStore(path, options);
+      databases.set(store, { root, path });
+      return store;
+    },
+    openPeer(store, options) {
+      const location = databases.get(store);
+      if (!location) {
+        throw new Error('Unknown conformance store');
+      }
+      return new SqliteDurableEventStore(location.path, options);
+    },
+    corruptEvent(store, sessionId, sequence) {
+      update(
+        store,
+        'UPDATE durable_events SET envelope = ? WHERE session_id = ? AND sequence = ?',
+        '{"invalid":true}',
+        sessionId,
+        sequence,
+      );
+    },
+    setEventSchemaVersion(store, sessionId, sequence, schemaVersion) {
+      update(
+        store,
+        "UPDATE durable_events SET envelope = json_set(envelope, '$.schemaVersion', ?) WHERE session_id = ? AND sequence = ?",
+        schemaVersion,
+        sessionId,
+        sequence,
+      );
+    },
+    async disposeStore(store) {
+      await store.close();
+      const location = databases.get(store);
+      databases.delete(store);
+      if (location) {
+        await rm(location.root, { recursive: true, force: true });
+      }
+    },
+  };
+
+  for (const conformanceCase of createDurableEventStoreConformanceCases(harness)) {
+    (conformanceCase.skip ? it.skip : it)(conformanceCase.name, conformanceCase.run);
+  }
+});
@@ -191,6 +191,62 @@ const validDrafts: readonly DurableEventDraft[] = [
       priority: 'now',
     },
   },
+  {
+    type: DurableEventType.MODEL_CHANGED,
+    data: { model: 'model-2', previousModel: 'model-1' },
+  },
+  {
+    type: DurableEventType.PERMISSION_MODE_CHANGED,
+    data: { mode: 'plan', previousMode: 'default' },
+  },
+  {
+    type: DurableEventType.CONTEXT_PATCHED,
+    requestId,
+    turnId,
+    data: {
+      toolCallId,
+      toolName: 'EnterWorktree',
+      scope: 'session',
+      context: { capabilities: { filesystem: { roots: ['/tmp/worktree'] } } },
+    },
+  },
+  {
+    type: DurableEventType.CONTEXT_COMPACTED,
+    requestId,
+    data: {
+      trigger: 'auto',
+      strategy: 'summary',
+      retainedMessages: 3,
+      preTokens: 120000,
+      postTokens: 8000,
+    },
+  },
+  {
+    type: DurableEventType.MODEL_RESPONDED,
+    requestId,
+    turnId,
+    data: {
+      streamed: true,
+      tools: ['Read'],
+      chunks: [
+        { content: 'Reading' },
+        {
+          toolCalls: [{ index: 0, id: 'call-1', function: { name: 'Read', arguments: '{}' } }],
+          finishReason: 'tool_calls',
+          usage: { promptTokens: 10, completionTokens: 4, totalTokens: 14 },
+        },
+      ],
+    },
+  },
+  {
+    type: DurableEventType.SESSION_REWOUND,
+    data: {
+      messageId: 'message-1',
+      keepConversation: false,
+      removedMessages: 4,
+      restoredFiles: ['/tmp/project/a.ts'],
+    },
+  },
 ];
 
 describe('durable event schemas', () => {
@@ -235,6 +291,33 @@ describe('durable event schemas', () => {
         },
       }),
     ).toThrow(/requires toolAttemptId/);
+
+    expect(() =>
+      parseDurableEventDraft({
+        type: DurableEventType.MODEL_CHANGED,
+        requestId,
+        data: { model: 'model-2' },
+      }),
+    ).toThrow(/does not allow requestId/);
+  });
+
+  it('requires a context or reset on context patches', () => {
+    expect(() =>
+      parseDurableEventDraft({
+        type: DurableEventType.CONTEXT_PATCHED,
+        requestId,
+        turnId,
+        data: { toolCallId, toolName: 'EnterWorktree', scope: 'turn' },
+      }),
+    ).toThrow(/requires context or reset/);
+    expect(
+      parseDurableEventDraft({
+        type: DurableEventType.CONTEXT_PATCHED,
+        requestId,
+        turnId,
+        data: { toolCallId, toolName: 'ExitWorktree', scope: 'turn', reset: true },
+      }).type,
+    ).toBe(DurableEventType.CONTEXT_PATCHED);
   });
 
   it('rejects unknown payload fields, non-finite JSON, and unknown event types', () => {
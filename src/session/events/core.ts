@@ -1,9 +1,22 @@
 export {
+  DurableEventCompactedError,
+  type DurableEventCompactionResult,
   DurableEventSequenceConflictError,
   type DurableEventStore,
   DurableEventStoreError,
   type DurableEventStoreErrorCode,
+  type DurableSnapshotStore,
+  supportsDurableSnapshots,
 } from './DurableEventStore.js';
+export {
+  createDurableEventStoreConformanceCases,
+  type DurableEventStoreConformanceCase,
+  DurableEventStoreConformanceError,
+  type DurableEventStoreConformanceHarness,
+  type DurableEventStoreConformanceOptions,
+  type DurableEventStoreConformanceReport,
+  runDurableEventStoreConformance,
+} from './DurableEventStoreConformance.js';
 export {
   DURABLE_EVENT_CURSOR_VERSION,
   durableEventCursor,
@@ -13,6 +26,7 @@ export {
   type DurableEventSubscriptionMessage,
   type DurableEventSubscriptionOptions,
   type DurableEventCursor,
+  durableSnapshotCursor,
   parseDurableEventCursor,
 } from './DurableEventSubscription.js';
 export {
@@ -26,6 +40,7 @@ export {
   DurableSessionJournalError,
   type DurableSessionJournalErrorCode,
   type DurableSessionJournalOptions,
+  type DurableSnapshotPolicy,
 } from './DurableSessionJournal.js';
 export {
   type DurableAcceptedRequestRecovery,
@@ -35,11 +50,14 @@ export {
   DurableSessionRecoveryError,
   type DurableSessionRecoveryErrorCode,
   type DurableSessionResumeDecision,
+  type DurableSessionRuntimeState,
   type DurableToolOutcomeReconciliation,
   type DurableToolOutcomeReconciliationCommand,
   type DurableToolStartCommand,
 } from './DurableSessionRecoveryCoordinator.js';
 export {
+  type DurableCompactionProjection,
+  type DurableContextOverlayProjection,
   DurableEventProjectionError,
   type DurablePermissionProjection,
   type DurablePermissionStatus,
@@ -64,13 +82,20 @@ export {
 } from './SessionDurableRecorder.js';
 export {
   DURABLE_EVENT_LOG_FORMAT,
+  DURABLE_SESSION_SNAPSHOT_FORMAT,
+  type DurableSessionSnapshot,
+  type DurableSessionSnapshotState,
   type PersistedDurableEventBatch,
   parseDurableEventDraft,
   parseDurableEventEnvelope,
+  parseDurableSessionSnapshot,
   parsePersistedDurableEventBatch,
 } from './schemas.js';
 export {
   DURABLE_EVENT_SCHEMA_VERSION,
+  type DurableCompactionStrategy,
+  type DurableCompactionTrigger,
+  type DurableContextPatchScope,
   type DurableEventAppendOptions,
   type DurableEventAppendResult,
   type DurableEventDataMap,
@@ -82,7 +107,9 @@ export {
   type DurableEventReadOptions,
   DurableEventType,
   type DurableInputPriority,
+  type DurableModelChunk,
   type DurablePermissionDecision,
+  type DurablePermissionMode,
   type DurableRequestInterruptReason,
   type DurableSessionCloseReason,
   type DurableTokenUsage,
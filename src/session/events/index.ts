@@ -3,3 +3,19 @@ export {
   JsonlDurableEventStore,
   type JsonlDurableEventStoreOptions,
 } from './JsonlDurableEventStore.js';
+export {
+  type DurableReplayDivergence,
+  type DurableReplayDivergenceKind,
+  type DurableReplayOptions,
+  type DurableReplayReport,
+  type DurableReplayRequestResult,
+  type DurableReplaySkipReason,
+  replayDurableSession,
+} from './DurableSessionReplay.js';
+export {
+  type DurableSessionListOptions,
+  type DurableSessionListPage,
+  type DurableSessionSummary,
+  SqliteDurableEventStore,
+  type SqliteDurableEventStoreOptions,
+} from './SqliteDurableEventStore.js';
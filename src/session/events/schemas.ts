@@ -3,12 +3,15 @@ import {
   CommandId,
   EventId,
   EventSequence,
+  type InputId,
+  type PermissionRequestId,
   RequestId,
   SessionId,
   ToolAttemptId,
   TurnId,
 } from '../../types/branded.js';
 import type { JsonObject, JsonValue } from '../../types/common.js';
+import type { DurableSessionProjection } from './DurableSessionProjector.js';
 import {
   DURABLE_EVENT_SCHEMA_VERSION,
   type DurableEventDataMap,
@@ -19,6 +22,8 @@ import {
 } from './types.js';
 
 export const DURABLE_EVENT_LOG_FORMAT = 'blade.durable-events' as const;
+export const DURABLE_EVENT_COMPACTION_FORMAT = 'blade.durable-events.compaction' as const;
+export const DURABLE_SESSION_SNAPSHOT_FORMAT = 'blade.durable-snapshot' as const;
 
 const JsonValueSchema: z.ZodType<JsonValue> = z.lazy(() =>
   z.union([
@@ -54,6 +59,17 @@ const DurableTokenUsageSchema = z
     totalTokens: NonNegativeIntegerSchema,
   })
   .strict();
+const PermissionModeSchema = z.enum(['default', 'autoEdit', 'yolo', 'plan']);
+const DurableCompactionStrategySchema = z.enum(['microcompact', 'summary', 'fallback', 'truncate']);
+const DurableModelChunkSchema = z
+  .object({
+    content: z.string().optional(),
+    reasoningContent: z.string().optional(),
+    toolCalls: z.array(JsonObjectSchema).optional(),
+    finishReason: z.string().optional(),
+    usage: JsonObjectSchema.optional(),
+  })
+  .strict();
 const ToolIdentitySchema = {
   toolCallId: NonEmptyStringSchema,
   toolName: NonEmptyStringSchema,
@@ -78,6 +94,7 @@ const DurableEventDataSchemas = {
       priority: z.enum(['now', 'next', 'later']),
       maxTurns: z.number().int().min(-1).max(Number.MAX_SAFE_INTEGER).optional(),
       model: NonEmptyStringSchema.optional(),
+      permissionMode: PermissionModeSchema.optional(),
       context: JsonObjectSchema.optional(),
     })
     .strict(),
@@ -183,6 +200,53 @@ const DurableEventDataSchemas = {
       priority: z.enum(['now', 'next']),
     })
     .strict(),
+  [DurableEventTypeValue.MODEL_CHANGED]: z
+    .object({
+      model: NonEmptyStringSchema,
+      previousModel: NonEmptyStringSchema.optional(),
+    })
+    .strict(),
+  [DurableEventTypeValue.PERMISSION_MODE_CHANGED]: z
+    .object({
+      mode: PermissionModeSchema,
+      previousMode: PermissionModeSchema.optional(),
+    })
+    .strict(),
+  [DurableEventTypeValue.SESSION_REWOUND]: z
+    .object({
+      messageId: NonEmptyStringSchema,
+      keepConversation: z.boolean(),
+      removedMessages: NonNegativeIntegerSchema,
+      restoredFiles: z.array(NonEmptyStringSchema),
+    })
+    .strict(),
+  [DurableEventTypeValue.CONTEXT_PATCHED]: z
+    .object({
+      ...ToolIdentitySchema,
+      scope: z.enum(['turn', 'session']),
+      context: JsonObjectSchema.optional(),
+      reset: z.boolean().optional(),
+    })
+    .strict()
+    .refine((data) => data.context !== undefined || data.reset === true, {
+      message: 'context_patched requires context or reset',
+    }),
+  [DurableEventTypeValue.CONTEXT_COMPACTED]: z
+    .object({
+      trigger: z.enum(['auto', 'reactive']),
+      strategy: DurableCompactionStrategySchema,
+      retainedMessages: NonNegativeIntegerSchema,
+      preTokens: NonNegativeIntegerSchema.optional(),
+      postTokens: NonNegativeIntegerSchema.optional(),
+    })
+    .strict(),
+  [DurableEventTypeValue.MODEL_RESPONDED]: z
+    .object({
+      streamed: z.boolean(),
+      tools: z.array(NonEmptyStringSchema),
+      chunks: z.array(DurableModelChunkSchema),
+    })
+    .strict(),
 } satisfies Record<DurableEventType, z.ZodTypeAny>;
 
 const DurableEventDraftBaseSchema = z
@@ -229,6 +293,153 @@ const PersistedDurableEventBatchSchema = z
   })
   .strict();
 
+const PersistedDurableEventCompactionSchema = z
+  .object({
+    format: z.literal(DURABLE_EVENT_COMPACTION_FORMAT),
+    schemaVersion: z.literal(DURABLE_EVENT_SCHEMA_VERSION),
+    sessionId: NonEmptyStringSchema,
+    compactedThroughSequence: EventSequenceSchema,
+  })
+  .strict();
+
+const DurablePermissionProjectionSchema = z
+  .object({
+    permissionRequestId: NonEmptyStringSchema,
+    input: JsonValueSchema,
+    status: z.enum(['pending', 'resolved']),
+    decision: z.enum(['allow', 'deny', 'cancel']).optional(),
+    message: z.string().optional(),
+  })
+  .strict();
+
+const DurableToolAttemptProjectionSchema = z
+  .object({
+    toolAttemptId: NonEmptyStringSchema,
+    ...ToolIdentitySchema,
+    input: JsonValueSchema,
+    sideEffect: z.enum(['pure', 'idempotent', 'non_idempotent']),
+    interruptBehavior: z.enum(['block', 'cancel']),
+    status: z.enum(['scheduled', 'started', 'completed', 'failed', 'cancelled', 'outcome_unknown']),
+    permission: DurablePermissionProjectionSchema.nullable(),
+    result: JsonValueSchema.optional(),
+    error: DurableEventErrorSchema.optional(),
+    cancelReason:
+      DurableEventDataSchemas[DurableEventTypeValue.TOOL_CANCELLED].shape.reason.optional(),
+    unknownReason:
+      DurableEventDataSchemas[DurableEventTypeValue.TOOL_OUTCOME_UNKNOWN].shape.reason.optional(),
+  })
+  .strict();
+
+const DurableTurnProjectionSchema = z
+  .object({
+    turnId: NonEmptyStringSchema,
+    turn: PositiveIntegerSchema,
+    model: NonEmptyStringSchema.optional(),
+    status: z.literal('running'),
+    toolAttempts: z.array(DurableToolAttemptProjectionSchema),
+  })
+  .strict();
+
+const DurableRequestProjectionSchema = z
+  .object({
+    requestId: NonEmptyStringSchema,
+    commandId: NonEmptyStringSchema,
+    inputId: NonEmptyStringSchema,
+    input: JsonValueSchema,
+    priority: z.enum(['now', 'next', 'later']),
+    acceptedAt: TimestampSchema,
+    maxTurns: z.number().int().min(-1).max(Number.MAX_SAFE_INTEGER).optional(),
+    model: NonEmptyStringSchema.optional(),
+    permissionMode: PermissionModeSchema.optional(),
+    context: JsonObjectSchema.optional(),
+    status: z.enum(['accepted', 'running']),
+    lastTurn: NonNegativeIntegerSchema,
+    activeTurn: DurableTurnProjectionSchema.nullable(),
+  })
+  .strict();
+
+const DurableContextOverlayProjectionSchema = z
+  .object({
+    requestId: NonEmptyStringSchema,
+    scope: z.enum(['turn', 'session']),
+    context: JsonObjectSchema,
+  })
+  .strict();
+
+const DurableCompactionProjectionSchema = z
+  .object({
+    requestId: NonEmptyStringSchema,
+    sequence: EventSequenceSchema,
+    occurredAt: TimestampSchema,
+    trigger: z.enum(['auto', 'reactive']),
+    strategy: DurableCompactionStrategySchema,
+    retainedMessages: NonNegativeIntegerSchema,
+    preTokens: NonNegativeIntegerSchema.optional(),
+    postTokens: NonNegativeIntegerSchema.optional(),
+  })
+  .strict();
+
+const DurableSessionProjectionSchema = z
+  .object({
+    sessionId: NonEmptyStringSchema.nullable(),
+    status: z.enum(['empty', 'open', 'closed']),
+    headSequence: EventSequenceSchema.nullable(),
+    lastEventId: NonEmptyStringSchema.nullable(),
+    created: DurableEventDataSchemas[DurableEventTypeValue.SESSION_CREATED].nullable(),
+    closeReason:
+      DurableEventDataSchemas[DurableEventTypeValue.SESSION_CLOSED].shape.reason.nullable(),
+    activeRequest: DurableRequestProjectionSchema.nullable(),
+    appliedInputIds: z.array(NonEmptyStringSchema),
+    acceptedCommandIds: z.array(NonEmptyStringSchema),
+    // Defaults keep snapshots written before runtime-state events readable.
+    model: NonEmptyStringSchema.nullable().default(null),
+    permissionMode: PermissionModeSchema.nullable().default(null),
+    contextOverlay: DurableContextOverlayProjectionSchema.nullable().default(null),
+    compactionCount: NonNegativeIntegerSchema.default(0),
+    lastCompaction: DurableCompactionProjectionSchema.nullable().default(null),
+  })
+  .strict();
+
+const IdListSchema = z.array(NonEmptyStringSchema);
+
+const DurableSessionSnapshotSchema = z
+  .object({
+    format: z.literal(DURABLE_SESSION_SNAPSHOT_FORMAT),
+    schemaVersion: z.literal(DURABLE_EVENT_SCHEMA_VERSION),
+    sessionId: NonEmptyStringSchema,
+    sequence: EventSequenceSchema,
+    eventId: NonEmptyStringSchema,
+    createdAt: TimestampSchema,
+    state: z
+      .object({
+        projection: DurableSessionProjectionSchema,
+        seenEventIds: IdListSchema,
+        seenRequestIds: IdListSchema,
+        seenTurnIds: IdListSchema,
+        seenToolAttemptIds: IdListSchema,
+        seenPermissionRequestIds: IdListSchema,
+        seenInputIds: IdListSchema,
+        seenAppliedInputIds: IdListSchema,
+        seenCommandIds: IdListSchema,
+      })
+      .strict(),
+  })
+  .strict()
+  .superRefine((snapshot, context) => {
+    const projection = snapshot.state.projection;
+    if (
+      projection.sessionId !== snapshot.sessionId ||
+      projection.headSequence !== snapshot.sequence ||
+      projection.lastEventId !== snapshot.eventId
+    ) {
+      context.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Snapshot position does not match its projection',
+        path: ['state', 'projection'],
+      });
+    }
+  });
+
 interface ParsedEventScope {
   type: DurableEventType;
   commandId?: string;
@@ -246,6 +457,44 @@ export interface PersistedDurableEventBatch {
   readonly events: readonly DurableEventEnvelope[];
 }
 
+export interface PersistedDurableEventCompaction {
+  readonly format: typeof DURABLE_EVENT_COMPACTION_FORMAT;
+  readonly schemaVersion: typeof DURABLE_EVENT_SCHEMA_VERSION;
+  readonly sessionId: SessionId;
+  /** Highest sequence removed from the log; later sequences keep their numbers. */
+  readonly compactedThroughSequence: EventSequence;
+}
+
+/**
+ * Projector state captured after a committed event.
+ *
+ * `projection` is the public projection at `sequence`; the `seen*` lists keep
+ * the identifiers the projector needs to keep rejecting reused IDs.
+ */
+export interface DurableSessionSnapshotState {
+  readonly projection: DurableSessionProjection;
+  readonly seenEventIds: readonly EventId[];
+  readonly seenRequestIds: readonly RequestId[];
+  readonly seenTurnIds: readonly TurnId[];
+  readonly seenToolAttemptIds: readonly ToolAttemptId[];
+  readonly seenPermissionRequestIds: readonly PermissionRequestId[];
+  readonly seenInputIds: readonly InputId[];
+  readonly seenAppliedInputIds: readonly InputId[];
+  readonly seenCommandIds: readonly CommandId[];
+}
+
+export interface DurableSessionSnapshot {
+  readonly format: typeof DURABLE_SESSION_SNAPSHOT_FORMAT;
+  readonly schemaVersion: typeof DURABLE_EVENT_SCHEMA_VERSION;
+  readonly sessionId: SessionId;
+  /** Sequence of the last event folded into `state`. */
+  readonly sequence: EventSequence;
+  /** Event ID at `sequence`, used to detect a snapshot from a different log. */
+  readonly eventId: EventId;
+  readonly createdAt: string;
+  readonly state: DurableSessionSnapshotState;
+}
+
 function validateEventScope(value: ParsedEventScope, context: z.RefinementCtx): void {
   const requireField = (field: keyof ParsedEventScope): void => {
     if (!value[field]) {
@@ -269,6 +518,9 @@ function validateEventScope(value: ParsedEventScope, context: z.RefinementCtx):
   switch (value.type) {
     case DurableEventTypeValue.SESSION_CREATED:
     case DurableEventTypeValue.SESSION_CLOSED:
+    case DurableEventTypeValue.MODEL_CHANGED:
+    case DurableEventTypeValue.PERMISSION_MODE_CHANGED:
+    case DurableEventTypeValue.SESSION_REWOUND:
       forbidField('requestId');
       forbidField('turnId');
       forbidField('toolAttemptId');
@@ -290,6 +542,8 @@ function validateEventScope(value: ParsedEventScope, context: z.RefinementCtx):
     case DurableEventTypeValue.TURN_STARTED:
     case DurableEventTypeValue.TURN_COMPLETED:
     case DurableEventTypeValue.TURN_ABORTED:
+    case DurableEventTypeValue.CONTEXT_PATCHED:
+    case DurableEventTypeValue.MODEL_RESPONDED:
       requireField('requestId');
       requireField('turnId');
       forbidField('toolAttemptId');
@@ -307,6 +561,7 @@ function validateEventScope(value: ParsedEventScope, context: z.RefinementCtx):
       requireField('toolAttemptId');
       return;
     case DurableEventTypeValue.INPUT_APPLIED:
+    case DurableEventTypeValue.CONTEXT_COMPACTED:
       requireField('requestId');
       forbidField('toolAttemptId');
       return;
@@ -364,3 +619,28 @@ export function parsePersistedDurableEventBatch(value: unknown): PersistedDurabl
     events: parsed.events.map(parseDurableEventEnvelope),
   };
 }
+
+export function parsePersistedDurableEventCompaction(
+  value: unknown,
+): PersistedDurableEventCompaction {
+  const parsed = PersistedDurableEventCompactionSchema.parse(value);
+  return {
+    format: parsed.format,
+    schemaVersion: parsed.schemaVersion,
+    sessionId: SessionId(parsed.sessionId),
+    compactedThroughSequence: EventSequence(parsed.compactedThroughSequence),
+  };
+}
+
+export function parseDurableSessionSnapshot(value: unknown): DurableSessionSnapshot {
+  const parsed = DurableSessionSnapshotSchema.parse(value);
+  return {
+    format: parsed.format,
+    schemaVersion: parsed.schemaVersion,
+    sessionId: SessionId(parsed.sessionId),
+    sequence: EventSequence(parsed.sequence),
+    eventId: EventId(parsed.eventId),
+    createdAt: parsed.createdAt,
+    state: parsed.state as unknown as DurableSessionSnapshotState,
+  };
+}
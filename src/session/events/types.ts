@@ -35,6 +35,12 @@ export const DurableEventType = {
   PERMISSION_REQUESTED: 'permission_requested',
   PERMISSION_RESOLVED: 'permission_resolved',
   INPUT_APPLIED: 'input_applied',
+  MODEL_CHANGED: 'model_changed',
+  PERMISSION_MODE_CHANGED: 'permission_mode_changed',
+  CONTEXT_PATCHED: 'context_patched',
+  CONTEXT_COMPACTED: 'context_compacted',
+  MODEL_RESPONDED: 'model_responded',
+  SESSION_REWOUND: 'session_rewound',
 } as const;
 
 export type DurableEventType = (typeof DurableEventType)[keyof typeof DurableEventType];
@@ -60,6 +66,10 @@ export type DurableToolCancelReason =
   | 'cascade_abort'
   | 'process_restart';
 export type DurableToolOutcomeUnknownReason = 'process_restart' | 'commit_outcome_unknown';
+export type DurablePermissionMode = 'default' | 'autoEdit' | 'yolo' | 'plan';
+export type DurableContextPatchScope = 'turn' | 'session';
+export type DurableCompactionTrigger = 'auto' | 'reactive';
+export type DurableCompactionStrategy = 'microcompact' | 'summary' | 'fallback' | 'truncate';
 
 export interface DurableEventError {
   message: string;
@@ -73,6 +83,18 @@ export interface DurableTokenUsage {
   totalTokens: number;
 }
 
+/**
+ * One provider stream chunk as the loop received it. Non-streaming responses
+ * are stored as a single chunk.
+ */
+export interface DurableModelChunk {
+  content?: string;
+  reasoningContent?: string;
+  toolCalls?: JsonObject[];
+  finishReason?: string;
+  usage?: JsonObject;
+}
+
 export interface DurableEventDataMap {
   [DurableEventType.SESSION_CREATED]: {
     source?: 'create' | 'resume' | 'fork';
@@ -87,6 +109,7 @@ export interface DurableEventDataMap {
     priority: DurableInputPriority;
     maxTurns?: number;
     model?: string;
+    permissionMode?: DurablePermissionMode;
     context?: JsonObject;
   };
   [DurableEventType.REQUEST_STARTED]: Record<string, never>;
@@ -162,11 +185,47 @@ export interface DurableEventDataMap {
     inputId: InputId;
     priority: Exclude<DurableInputPriority, 'later'>;
   };
+  [DurableEventType.MODEL_CHANGED]: {
+    model: string;
+    previousModel?: string;
+  };
+  [DurableEventType.PERMISSION_MODE_CHANGED]: {
+    mode: DurablePermissionMode;
+    previousMode?: DurablePermissionMode;
+  };
+  [DurableEventType.CONTEXT_PATCHED]: {
+    toolCallId: ToolUseId;
+    toolName: string;
+    scope: DurableContextPatchScope;
+    context?: JsonObject;
+    reset?: boolean;
+  };
+  [DurableEventType.CONTEXT_COMPACTED]: {
+    trigger: DurableCompactionTrigger;
+    strategy: DurableCompactionStrategy;
+    retainedMessages: number;
+    preTokens?: number;
+    postTokens?: number;
+  };
+  [DurableEventType.MODEL_RESPONDED]: {
+    streamed: boolean;
+    tools: string[];
+    chunks: DurableModelChunk[];
+  };
+  [DurableEventType.SESSION_REWOUND]: {
+    messageId: string;
+    keepConversation: boolean;
+    removedMessages: number;
+    restoredFiles: string[];
+  };
 }
 
 type SessionEventType =
   | typeof DurableEventType.SESSION_CREATED
-  | typeof DurableEventType.SESSION_CLOSED;
+  | typeof DurableEventType.SESSION_CLOSED
+  | typeof DurableEventType.MODEL_CHANGED
+  | typeof DurableEventType.PERMISSION_MODE_CHANGED
+  | typeof DurableEventType.SESSION_REWOUND;
 
 type RequestEventType =
   | typeof DurableEventType.REQUEST_ACCEPTED
@@ -178,7 +237,9 @@ type RequestEventType =
 type TurnEventType =
   | typeof DurableEventType.TURN_STARTED
   | typeof DurableEventType.TURN_COMPLETED
-  | typeof DurableEventType.TURN_ABORTED;
+  | typeof DurableEventType.TURN_ABORTED
+  | typeof DurableEventType.CONTEXT_PATCHED
+  | typeof DurableEventType.MODEL_RESPONDED;
 
 type ToolEventType =
   | typeof DurableEventType.TOOL_SCHEDULED
@@ -208,7 +269,9 @@ type DurableEventCorrelation<TType extends DurableEventType> =
             readonly turnId: TurnId;
             readonly commandId?: CommandId;
           }
-        : TType extends typeof DurableEventType.INPUT_APPLIED
+        : TType extends
+              | typeof DurableEventType.INPUT_APPLIED
+              | typeof DurableEventType.CONTEXT_COMPACTED
           ? {
               readonly requestId: RequestId;
               readonly turnId?: TurnId;
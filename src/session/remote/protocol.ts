@@ -0,0 +1,186 @@
+import type { UserMessageContent } from '../../agent/types.js';
+import type { RuntimeContext } from '../../runtime/index.js';
+import type { Message } from '../../services/ChatServiceInterface.js';
+import type {
+  EventSequence,
+  InputId,
+  PermissionRequestId,
+  RequestId,
+  SessionId,
+} from '../../types/branded.js';
+import type { PermissionMode } from '../../types/common.js';
+import type { PermissionHandlerRequest, PermissionResult } from '../../types/permissions.js';
+import {
+  type DurableEventCursor,
+  DurableEventSubscriptionError,
+  parseDurableEventCursor,
+} from '../events/DurableEventSubscription.js';
+import type { DurableEventEnvelope } from '../events/types.js';
+import type {
+  InputPriority,
+  InputSubmission,
+  PendingSessionInput,
+  RewindResult,
+  StreamMessage,
+} from '../types.js';
+
+/**
+ * HTTP/SSE wire contract shared by the Session server and remote clients.
+ *
+ * 该模块只包含类型与纯函数，必须保持浏览器安全。
+ */
+
+/** SSE `event:` names emitted by `GET /sessions/:id/stream`. */
+export const SessionStreamEventType = {
+  /** The server started draining one request; lists the inputs it runs. */
+  REQUEST_START: 'request_start',
+  /** A live StreamMessage of one request. Not replayed after reconnect. */
+  MESSAGE: 'message',
+  /** A committed durable event. Its SSE `id` is the reconnect cursor. */
+  DURABLE: 'durable',
+  /** Durable replay reached the head captured when the stream opened. */
+  CAUGHT_UP: 'caught_up',
+  /** The hosted Session was closed; the server ends the stream. */
+  CLOSED: 'closed',
+  /** The stream failed after it was opened; the server ends the stream. */
+  STREAM_ERROR: 'stream_error',
+  /** The server finished draining one request from Session.stream(). */
+  REQUEST_END: 'request_end',
+  /** A tool needs a decision from a remote PermissionHandler. */
+  PERMISSION_REQUEST: 'permission_request',
+  /** A permission request was answered or cancelled; dismiss any open prompt. */
+  PERMISSION_RESOLVED: 'permission_resolved',
+} as const;
+
+export type SessionStreamEventType =
+  (typeof SessionStreamEventType)[keyof typeof SessionStreamEventType];
+
+export type SessionStreamEvent =
+  | { type: 'request_start'; requestId: RequestId; inputIds: InputId[] }
+  | { type: 'message'; requestId: RequestId; message: StreamMessage }
+  | { type: 'durable'; event: DurableEventEnvelope; cursor: DurableEventCursor }
+  | {
+      type: 'caught_up';
+      cursor: DurableEventCursor | null;
+      headSequence: EventSequence | null;
+    }
+  | { type: 'closed'; sessionId: SessionId }
+  | { type: 'stream_error'; error: SessionServerErrorInfo }
+  | { type: 'request_end'; requestId: RequestId }
+  | {
+      type: 'permission_request';
+      permissionRequestId: PermissionRequestId;
+      request: RemotePermissionRequest;
+    }
+  | { type: 'permission_resolved'; permissionRequestId: PermissionRequestId };
+
+/** PermissionHandlerRequest without its AbortSignal, as sent to remote clients. */
+export type RemotePermissionRequest = Omit<PermissionHandlerRequest, 'signal'>;
+
+/**
+ * Decision posted back for a permission_request.
+ *
+ * Remote decisions cannot carry ToolEffects; effects stay server-side.
+ */
+export type RemotePermissionResult =
+  | Omit<Extract<PermissionResult, { behavior: 'allow' }>, 'effects'>
+  | Exclude<PermissionResult, { behavior: 'allow' }>;
+
+export interface ResolvePermissionRequest {
+  result: RemotePermissionResult;
+}
+
+export interface SessionServerErrorInfo {
+  code: string;
+  message: string;
+}
+
+/** JSON body returned with every non-2xx response. */
+export interface SessionServerErrorBody {
+  error: SessionServerErrorInfo;
+}
+
+export interface CreateSessionResponse {
+  sessionId: SessionId;
+}
+
+export interface ForkSessionRequest {
+  messageId?: string;
+}
+
+export interface RewindSessionRequest {
+  messageId: string;
+  keepConversation?: boolean;
+}
+
+export type RewindSessionResponse = RewindResult;
+
+export interface SessionStateResponse {
+  sessionId: SessionId;
+  isClosed: boolean;
+  messageCount: number;
+  pendingInputs: PendingSessionInput[];
+  defaultContext: RuntimeContext;
+}
+
+export type SessionMessagesResponse = Message[];
+
+export interface DurableEventHeadResponse {
+  headSequence: EventSequence | null;
+}
+
+export interface SendInputRequest {
+  message: UserMessageContent;
+  priority?: InputPriority;
+  expectedRequestId?: RequestId;
+  maxTurns?: number;
+  context?: RuntimeContext;
+}
+
+export type SendInputResponse = InputSubmission;
+
+export interface CancelInputResponse {
+  inputId: InputId;
+  cancelled: boolean;
+}
+
+export interface AbortSessionRequest {
+  /** Only abort when this request is still the session's current one. */
+  requestId?: RequestId;
+}
+
+export interface SetPermissionModeRequest {
+  mode: PermissionMode;
+}
+
+export interface SetModelRequest {
+  model: string;
+}
+
+export interface SetMaxTurnsRequest {
+  maxTurns: number;
+}
+
+export interface SetDefaultContextRequest {
+  context: RuntimeContext;
+}
+
+/** Serializes a durable cursor into an SSE-safe `id` / `Last-Event-ID` value. */
+export function encodeDurableEventCursor(cursor: DurableEventCursor): string {
+  return encodeURIComponent(JSON.stringify(cursor));
+}
+
+/** Parses a value produced by encodeDurableEventCursor using the strict cursor contract. */
+export function decodeDurableEventCursor(value: string): DurableEventCursor {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(decodeURIComponent(value));
+  } catch (cause) {
+    throw new DurableEventSubscriptionError(
+      'DURABLE_EVENT_SUBSCRIPTION_INVALID_CURSOR',
+      'Durable event cursor is not valid encoded JSON',
+      { cause },
+    );
+  }
+  return parseDurableEventCursor(parsed);
+}
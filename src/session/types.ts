@@ -1,14 +1,20 @@
-import type { TokenBudgetConfig } from '../agent/TokenBudget.js';
+import type { TokenBudgetConfig, TokenBudgetSnapshot } from '../agent/TokenBudget.js';
 import type { UserMessageContent } from '../agent/types.js';
+import type { HookEventCallback } from '../hooks/types/HookTypes.js';
 import type { SdkMcpServerHandle } from '../mcp/SdkMcpServer.js';
 import type { AgentTrace, ObservabilityOptions } from '../observability/index.js';
+import type { InstructionFilesOptions } from '../prompts/ProjectInstructions.js';
 import type {
   ContextSnapshot,
   RuntimeContext,
   RuntimeContextPatch,
   RuntimePatch,
 } from '../runtime/index.js';
-import type { Message } from '../services/ChatServiceInterface.js';
+import type { ChatServiceFactory, Message } from '../services/ChatServiceInterface.js';
+import type { DryRunWorkspace } from '../services/DryRunWorkspace.js';
+import type { FileSystemService } from '../services/FileSystemService.js';
+import type { MockModelScript } from '../services/MockChatService.js';
+import type { SkillsOptions } from '../skills/types.js';
 import type { ToolCatalogSourcePolicy } from '../tools/catalog/index.js';
 import type {
   ExecutionContext,
@@ -30,17 +36,20 @@ import type {
   JsonObject,
   JsonValue,
   McpServerConfig,
+  ModelFallbackReason,
   OutputFormat,
   PermissionMode,
   ProviderType,
   SandboxSettings,
   TokenUsage,
+  WebFetchSettings,
 } from '../types/common.js';
 import type { HookEvent, StreamMessageType } from '../types/constants.js';
 import type { AgentLogger } from '../types/logging.js';
 import type { CanUseTool, PermissionHandler, PermissionUpdate } from '../types/permissions.js';
 import type { Assert, IsEqual } from '../types/typeAssertions.js';
 import type { DurableEventStore } from './events/DurableEventStore.js';
+import type { DurableSnapshotPolicy } from './events/DurableSessionJournal.js';
 import type {
   DurableEventSubscription,
   DurableEventSubscriptionOptions,
@@ -52,6 +61,7 @@ import type {
 
 export type {
   ExecutionContext,
+  ModelFallbackReason,
   ProviderType,
   TokenUsage,
   ToolDefinition,
@@ -100,8 +110,71 @@ export interface ProviderConfig {
   organization?: string;
   apiVersion?: string;
   projectId?: string;
+  /** Scripted model behavior; required when `type` is `'mock'`. */
+  script?: MockModelScript;
 }
 
+/**
+ * A model the Session can switch to, listed in `SessionOptions.fallbackModels` or `routingModels`.
+ */
+export interface ModelCandidate {
+  model: string;
+  /** Defaults to the Session's `provider`, so a candidate can be another model of the same provider. */
+  provider?: ProviderConfig;
+  maxContextTokens?: number;
+  maxOutputTokens?: number;
+  providerOptions?: JsonObject;
+}
+
+/**
+ * One entry of `SessionOptions.fallbackModels`.
+ */
+export interface ModelFallbackCandidate extends ModelCandidate {
+  /** Error classes that may switch to this candidate; defaults to all of them. */
+  on?: ModelFallbackReason[];
+}
+
+/**
+ * Which model call is being routed: a main-loop turn, an LLM compaction summary,
+ * or the creation of a subagent.
+ */
+export type ModelRoutingSource = 'main_thread' | 'compact' | 'agent';
+
+export interface ModelRoutingRequest {
+  source: ModelRoutingSource;
+  /** Model used when the router returns no decision. */
+  currentModel: string;
+  /** Estimated input tokens of the call. */
+  estimatedInputTokens: number;
+  /** Spend so far; present when the Session has a `tokenBudget`. */
+  budget?: TokenBudgetSnapshot;
+  /** Main-loop turn number, for `main_thread`. */
+  turn?: number;
+  /** Subagent name, for `agent`, e.g. `Explore`. */
+  subagentType?: string;
+  /** `metadata` of the active runtime context, usable as task hints. */
+  hints?: JsonObject;
+}
+
+export interface ModelRoutingDecision {
+  /** The Session `model`, or a `model` from `routingModels` or `fallbackModels`. */
+  model: string;
+  /** Recorded in the trace. */
+  reason?: string;
+}
+
+/**
+ * Picks the model for one call. Returning a model name is shorthand for `{ model }`;
+ * returning `undefined` keeps the current model.
+ */
+export type ModelRouter = (
+  request: ModelRoutingRequest,
+) =>
+  | ModelRoutingDecision
+  | string
+  | undefined
+  | Promise<ModelRoutingDecision | string | undefined>;
+
 export interface ToolCallRecord {
   id: string;
   name: string;
@@ -191,6 +264,15 @@ export type StreamMessage =
       isError?: boolean;
       sessionId: SessionId;
     }
+  | {
+      type: 'model_fallback';
+      originalModel: string;
+      fallbackModel: string;
+      provider?: ProviderType;
+      reason: ModelFallbackReason;
+      error?: string;
+      sessionId: SessionId;
+    }
   | { type: 'usage'; usage: TokenUsage; sessionId: SessionId }
   | {
       type: 'result';
@@ -227,7 +309,10 @@ export interface HookOutput {
 
 export type HookCallback = (input: HookInput) => Promise<HookOutput>;
 
-export type SessionHookEvent =
+/**
+ * Events whose callbacks use the action-based `HookInput` / `HookOutput`.
+ */
+export type ActionHookEvent =
   | typeof HookEvent.PreToolUse
   | typeof HookEvent.PostToolUse
   | typeof HookEvent.PostToolUseFailure
@@ -237,6 +322,20 @@ export type SessionHookEvent =
   | typeof HookEvent.SessionEnd
   | typeof HookEvent.TaskCompleted;
 
+/**
+ * Events whose callbacks receive the command-hook input and return a
+ * command-hook output (`HookEventCallback`).
+ */
+export type LifecycleHookEvent = Exclude<HookEvent, ActionHookEvent>;
+
+export type SessionHookEvent = HookEvent;
+
+export type SessionHooks = {
+  [E in ActionHookEvent]?: HookCallback[];
+} & {
+  [E in LifecycleHookEvent]?: HookEventCallback<E>[];
+};
+
 export interface SubagentInfo {
   parentSessionId: string;
   subagentType: string;
@@ -269,6 +368,21 @@ export interface SessionOptions {
   thinkingEnabled?: boolean;
   thinkingBudget?: number;
   tokenBudget?: TokenBudgetConfig;
+  /** Replaces the provider-backed chat service, e.g. with `createPlaybackChatServiceFactory`. */
+  chatServiceFactory?: ChatServiceFactory;
+  /**
+   * Ordered models to switch to when a model request fails with an overload, rate limit,
+   * context overflow or authentication error. The switch lasts for the rest of the Session.
+   */
+  fallbackModels?: ModelFallbackCandidate[];
+  /** Extra models `modelRouter` may pick besides `model` and `fallbackModels`. */
+  routingModels?: ModelCandidate[];
+  /**
+   * Chooses the model per main-loop turn, per LLM compaction and per subagent.
+   * A main-loop decision only applies to that turn. Decisions are recorded as
+   * `model_routed` trace events.
+   */
+  modelRouter?: ModelRouter;
 
   allowedTools?: string[];
   disallowedTools?: string[];
@@ -282,21 +396,45 @@ export interface SessionOptions {
   canUseTool?: CanUseTool;
 
   systemPrompt?: string;
+  /**
+   * Discovers BLADE.md / AGENTS.md instruction files (user-level, repo root down
+   * to the cwd, and nested directories the agent reads) and adds them to the
+   * system prompt. Disabled by default.
+   */
+  instructions?: boolean | InstructionFilesOptions;
+  /**
+   * Session-scoped skills: extra source directories, inline definitions and allow/deny lists.
+   * When unset, the session uses the process-wide skill registry.
+   */
+  skills?: SkillsOptions;
   maxTurns?: number;
   agents?: Record<string, AgentDefinition>;
   subagent?: SubagentInfo;
 
-  hooks?: Partial<Record<SessionHookEvent, HookCallback[]>>;
+  hooks?: SessionHooks;
 
   defaultContext?: RuntimeContext;
   logger?: AgentLogger;
   storagePath?: string;
   persistSession?: boolean;
   durableEventStore?: DurableEventStore;
+  /** Periodic projection snapshots and optional compaction for `durableEventStore`. */
+  durableSnapshots?: DurableSnapshotPolicy;
+  /** Journals every main-loop model response so `replayDurableSession` can re-run requests offline. */
+  durableModelResponses?: boolean;
 
   outputFormat?: OutputFormat;
 
   sandbox?: SandboxSettings;
+  webFetch?: WebFetchSettings;
+  /** Backs the file tools, e.g. with `InMemoryFileSystemService` or `OverlayFileSystemService`. */
+  fileSystem?: FileSystemService;
+  /**
+   * Dry run mode: file tools write to the workspace's scratch copy and Bash runs there.
+   * The context `cwd` and filesystem roots are replaced with the scratch path.
+   * Review with `getChangeset()`, then `apply()` or `discard()`. Cannot be combined with `fileSystem`.
+   */
+  dryRun?: DryRunWorkspace;
 
   observability?: ObservabilityOptions;
 }
@@ -346,6 +484,19 @@ export interface ForkSessionResult {
   forkedAt?: string;
 }
 
+export interface RewindOptions {
+  /** Only restore files; keep the conversation history intact. */
+  keepConversation?: boolean;
+}
+
+export interface RewindResult {
+  messageId: string;
+  /** Number of messages dropped from the conversation history. */
+  removedMessages: number;
+  /** Files restored to their earlier content, or deleted when they did not exist yet. */
+  restoredFiles: string[];
+}
+
 export interface ISession extends AsyncDisposable {
   readonly sessionId: SessionId;
   readonly messages: Message[];
@@ -376,6 +527,11 @@ export interface ISession extends AsyncDisposable {
   mcpListTools(): Promise<McpToolInfo[]>;
 
   fork(options?: ForkSessionOptions): Promise<ISession>;
+  /**
+   * Rewinds the session to just before `messageId`: files written by Write, Edit and
+   * NotebookEdit since then are restored and later messages are dropped.
+   */
+  rewind(messageId: string, options?: RewindOptions): Promise<RewindResult>;
 
   getLastTrace(): AgentTrace | undefined;
   getTraces(): AgentTrace[];
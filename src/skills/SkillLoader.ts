@@ -18,6 +18,7 @@ import {
   type SkillAssetEntry,
   type SkillAssetManifest,
   type SkillContent,
+  type SkillDefinition,
   type SkillHookSpec,
   type SkillMetadata,
   type SkillParseResult,
@@ -34,9 +35,17 @@ const FENCED_CODE_BLOCK_REGEX = /^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n[ \t]*\1\
 const INLINE_CMD_TIMEOUT_MS = 10_000;
 const INLINE_CMD_MAX_OUTPUT_BYTES = 512 * 1024;
 const SHELL_META_CHARS = /[;|&`$(){}]/;
+/** 内联 Skill 没有 SKILL.md，path 使用此前缀标识 */
+export const INLINE_SKILL_PATH_PREFIX = 'session:';
 
 type SourceInput = SkillSourceKind | SkillSource;
 
+interface SkillContentOptions {
+  cwd?: string;
+  args?: string;
+  inlineCommandOptions?: Parameters<typeof processInlineCommands>[2];
+}
+
 interface RawHookSpec {
   event?: string;
   type?: string;
@@ -506,43 +515,108 @@ export async function loadSkillMetadata(
 
 export async function loadSkillContent(
   metadata: SkillMetadata,
-  options?: {
-    cwd?: string;
-    args?: string;
-    inlineCommandOptions?: Parameters<typeof processInlineCommands>[2];
-  },
+  options?: SkillContentOptions,
 ): Promise<SkillContent | null> {
   try {
     const content = await fs.readFile(metadata.path, 'utf-8');
     const result = parseSkillContent(content, metadata.path, metadata.source);
     if (!result.success || !result.content) return null;
 
-    if (
-      options?.cwd &&
-      result.content.instructions.includes('!`') &&
-      canProcessInlineCommands(result.content.metadata)
-    ) {
-      result.content.instructions = await processInlineCommands(
-        result.content.instructions,
-        options.cwd,
-        {
-          ...options.inlineCommandOptions,
-          allowlist: mergeInlineAllowlist(result.content.metadata, options.inlineCommandOptions),
-        },
-      );
-    }
+    return await renderSkillContent(result.content, options);
+  } catch {
+    return null;
+  }
+}
 
-    result.content.instructions = renderSkillTemplate(result.content.instructions, options?.args);
+/**
+ * 将内联定义转换为 Skill 内容，校验规则与 SKILL.md 前置数据一致
+ */
+export function createInlineSkill(
+  definition: SkillDefinition,
+  source: SkillSource = defaultSkillSource('session'),
+): SkillParseResult {
+  const validation = validateMetadata(
+    {
+      name: definition.name,
+      description: definition.description,
+      'allowed-tools': definition.allowedTools,
+      'disallowed-tools': definition.disallowedTools,
+      version: definition.version,
+      'argument-hint': definition.argumentHint,
+      'user-invocable': definition.userInvocable,
+      'disable-model-invocation': definition.disableModelInvocation,
+      model: definition.model,
+      paths: definition.paths,
+      when_to_use: definition.whenToUse,
+    },
+    definition.name,
+    source,
+  );
+  if (!validation.valid) {
+    return { success: false, error: validation.error };
+  }
 
-    result.content.assets = await discoverSkillAssets(metadata.basePath);
-    result.content.scripts = result.content.assets.scripts.map((asset) => asset.path);
+  return {
+    success: true,
+    content: {
+      metadata: {
+        ...validation.metadata,
+        path: `${INLINE_SKILL_PATH_PREFIX}${definition.name}`,
+        basePath: definition.basePath ?? '',
+        source,
+      },
+      instructions: definition.instructions.trim(),
+      assets: { scripts: [], references: [], templates: [] },
+    },
+  };
+}
 
-    return result.content;
+/**
+ * 加载内联 Skill 的完整内容（内联命令与参数模板处理同 SKILL.md）
+ */
+export async function loadInlineSkillContent(
+  content: SkillContent,
+  options?: SkillContentOptions,
+): Promise<SkillContent | null> {
+  try {
+    return await renderSkillContent(
+      { ...content, assets: { scripts: [], references: [], templates: [] } },
+      options,
+    );
   } catch {
     return null;
   }
 }
 
+async function renderSkillContent(
+  content: SkillContent,
+  options?: SkillContentOptions,
+): Promise<SkillContent> {
+  if (
+    options?.cwd &&
+    content.instructions.includes('!`') &&
+    canProcessInlineCommands(content.metadata)
+  ) {
+    content.instructions = await processInlineCommands(
+      content.instructions,
+      options.cwd,
+      {
+        ...options.inlineCommandOptions,
+        allowlist: mergeInlineAllowlist(content.metadata, options.inlineCommandOptions),
+      },
+    );
+  }
+
+  content.instructions = renderSkillTemplate(content.instructions, options?.args);
+
+  if (content.metadata.basePath) {
+    content.assets = await discoverSkillAssets(content.metadata.basePath);
+  }
+  content.scripts = content.assets.scripts.map((asset) => asset.path);
+
+  return content;
+}
+
 export async function discoverSkillScripts(basePath: string): Promise<string[]> {
   const assets = await discoverSkillAssets(basePath);
   return assets.scripts.map((asset) => asset.path);
@@ -9,13 +9,21 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { filterSkillsByActivation } from './activation.js';
 import { defaultSkillSource, type SkillSource, type SkillSourceConfig } from './types.js';
-import { hasSkillFile, loadSkillContent, loadSkillMetadata } from './SkillLoader.js';
+import {
+  createInlineSkill,
+  hasSkillFile,
+  INLINE_SKILL_PATH_PREFIX,
+  loadInlineSkillContent,
+  loadSkillContent,
+  loadSkillMetadata,
+} from './SkillLoader.js';
 import type {
   SkillActivationContext,
   SkillContent,
   SkillDiscoveryResult,
   SkillMetadata,
   SkillRegistryConfig,
+  SkillsOptions,
 } from './types.js';
 
 type ResolvedSkillRegistryConfig =
@@ -35,6 +43,7 @@ let instance: SkillRegistry | null = null;
 
 export class SkillRegistry {
   private skills: Map<string, SkillMetadata> = new Map();
+  private inlineSkills: Map<string, SkillContent> = new Map();
   private config: ResolvedSkillRegistryConfig;
   private initialized = false;
 
@@ -82,9 +91,24 @@ export class SkillRegistry {
     }
 
     const discoveredCandidates = Array.from(byCanonicalPath.values());
+    for (const definition of this.config.definitions ?? []) {
+      const result = createInlineSkill(definition);
+      if (result.success && result.content) {
+        this.inlineSkills.set(definition.name, result.content);
+        discoveredCandidates.push(result.content.metadata);
+      } else {
+        errors.push({
+          path: `${INLINE_SKILL_PATH_PREFIX}${definition.name}`,
+          error: result.error || 'Unknown error',
+        });
+      }
+    }
     discoveredCandidates.sort((left, right) => left.source.precedence - right.source.precedence);
 
     for (const skill of discoveredCandidates) {
+      if (!this.isAllowed(skill.name)) {
+        continue;
+      }
       const existing = this.skills.get(skill.name);
       if (!existing || skill.source.precedence >= existing.source.precedence) {
         this.skills.set(skill.name, skill);
@@ -126,6 +150,13 @@ export class SkillRegistry {
     return sources.sort((left, right) => left.descriptor.precedence - right.descriptor.precedence);
   }
 
+  private isAllowed(name: string): boolean {
+    if (this.config.deny?.includes(name)) {
+      return false;
+    }
+    return !this.config.allow || this.config.allow.includes(name);
+  }
+
   private toRegisteredSource(source: SkillSourceConfig): RegisteredSource {
     return {
       descriptor: defaultSkillSource(source.kind, source.directory, {
@@ -208,6 +239,10 @@ export class SkillRegistry {
   ): Promise<SkillContent | null> {
     const metadata = this.skills.get(name);
     if (!metadata) return null;
+    const inline = this.inlineSkills.get(name);
+    if (inline?.metadata === metadata) {
+      return loadInlineSkillContent(inline, options);
+    }
     return loadSkillContent(metadata, options);
   }
 
@@ -252,11 +287,29 @@ export class SkillRegistry {
 
   async refresh(): Promise<SkillDiscoveryResult> {
     this.skills.clear();
+    this.inlineSkills.clear();
     this.initialized = false;
     return this.initialize();
   }
 }
 
+/**
+ * 按会话级 Skills 配置创建独立的注册表（不影响全局单例）
+ */
+export function createSkillRegistry(options: SkillsOptions, cwd?: string): SkillRegistry {
+  return new SkillRegistry({
+    cwd,
+    projectSkillsDir: options.projectSkills === false ? undefined : DEFAULT_CONFIG.projectSkillsDir,
+    additionalSources: (options.sources ?? []).map((source) => {
+      const config = typeof source === 'string' ? { kind: 'project' as const, directory: source } : source;
+      return { ...config, directory: path.resolve(cwd ?? process.cwd(), config.directory) };
+    }),
+    definitions: options.definitions,
+    allow: options.allow,
+    deny: options.deny,
+  });
+}
+
 export function getSkillRegistry(config?: SkillRegistryConfig): SkillRegistry {
   return SkillRegistry.getInstance(config);
 }
@@ -2,7 +2,7 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import { SkillRegistry } from '../SkillRegistry.js';
+import { createSkillRegistry, SkillRegistry } from '../SkillRegistry.js';
 
 const BASE_SKILL = (name: string, description: string) => `---
 name: ${name}
@@ -148,4 +148,68 @@ Source focused instructions.
 
     expect(registry.generateAvailableSkillsList()).toContain('always-on');
   });
+
+  it('registers inline definitions above directory skills and renders their arguments', async () => {
+    const projectRoot = path.join(tmpDir, 'workspace');
+    await createSkill(path.join(projectRoot, 'skills'), 'review', BASE_SKILL('review', 'directory version'));
+
+    const registry = new SkillRegistry({
+      cwd: projectRoot,
+      projectSkillsDir: 'skills',
+      definitions: [
+        {
+          name: 'review',
+          description: 'inline version',
+          instructions: 'Review {{args}} carefully.',
+          allowedTools: ['Read'],
+        },
+        { name: 'Bad Name', description: 'invalid', instructions: 'never loaded' },
+      ],
+    });
+
+    const result = await registry.initialize();
+
+    expect(result.errors).toEqual([
+      { path: 'session:Bad Name', error: expect.stringContaining('Invalid name') },
+    ]);
+    expect(registry.get('review')).toMatchObject({
+      description: 'inline version',
+      allowedTools: ['Read'],
+      source: { kind: 'session' },
+    });
+    const content = await registry.loadContent('review', { args: 'src/index.ts' });
+    expect(content?.instructions).toBe('Review src/index.ts carefully.');
+    expect(content?.assets).toEqual({ scripts: [], references: [], templates: [] });
+  });
+
+  it('applies allow and deny lists with deny taking precedence', async () => {
+    const registry = new SkillRegistry({
+      definitions: ['alpha', 'beta', 'gamma'].map((name) => ({
+        name,
+        description: `${name} skill`,
+        instructions: name,
+      })),
+      allow: ['alpha', 'beta'],
+      deny: ['beta'],
+    });
+
+    await registry.initialize();
+
+    expect(registry.getAll().map((skill) => skill.name)).toEqual(['alpha']);
+  });
+
+  it('builds independent session registries from SkillsOptions', async () => {
+    const projectRoot = path.join(tmpDir, 'workspace');
+    await createSkill(path.join(projectRoot, 'skills'), 'project-only', BASE_SKILL('project-only', 'project skill'));
+    await createSkill(path.join(projectRoot, 'tenant-skills'), 'tenant-only', BASE_SKILL('tenant-only', 'tenant skill'));
+
+    const tenant = createSkillRegistry({ sources: ['tenant-skills'], projectSkills: false }, projectRoot);
+    const project = createSkillRegistry({}, projectRoot);
+    await Promise.all([tenant.initialize(), project.initialize()]);
+
+    expect(tenant.getAll().map((skill) => skill.name)).toEqual(['tenant-only']);
+    expect(tenant.get('tenant-only')?.source.kind).toBe('project');
+    expect(project.getAll().map((skill) => skill.name)).toEqual(['project-only']);
+    expect(SkillRegistry.getInstance().size).toBe(0);
+  });
 });
@@ -28,10 +28,20 @@
  */
 
 export { injectSkillsMetadata } from './injectSkillsMetadata.js';
-export { discoverSkills, getSkillRegistry } from './SkillRegistry.js';
+export {
+  createSkillRegistry,
+  discoverSkills,
+  getSkillRegistry,
+  type SkillRegistry,
+} from './SkillRegistry.js';
 export {
   collectSkillActivationPaths,
   filterSkillsByActivation,
   isSkillAvailableInContext,
 } from './activation.js';
-export type { SkillActivationContext } from './types.js';
+export type {
+  SkillActivationContext,
+  SkillDefinition,
+  SkillSourceConfig,
+  SkillsOptions,
+} from './types.js';
@@ -6,7 +6,7 @@
  */
 
 import type { FunctionDeclaration } from '../tools/types/index.js';
-import { getSkillRegistry } from './SkillRegistry.js';
+import { getSkillRegistry, type SkillRegistry } from './SkillRegistry.js';
 import type { SkillActivationContext } from './types.js';
 
 /** Skill 工具名称 */
@@ -22,13 +22,14 @@ const AVAILABLE_SKILLS_REGEX = /<available_skills>\s*<\/available_skills>/;
  * 替换为已发现的 skills 列表。
  *
  * @param tools - 工具函数声明列表
+ * @param registry - 会话自己的注册表，未传入时使用全局注册表
  * @returns 注入后的工具函数声明列表（新数组，不修改原数组）
  */
 export function injectSkillsMetadata(
   tools: FunctionDeclaration[],
   activationContext?: SkillActivationContext,
+  registry: SkillRegistry = getSkillRegistry(),
 ): FunctionDeclaration[] {
-  const registry = getSkillRegistry();
   const skillsList = registry.generateAvailableSkillsList(activationContext);
 
   // 如果没有发现任何 skills，返回原数组
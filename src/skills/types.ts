@@ -13,7 +13,8 @@ export type SkillSourceKind =
   | 'project'
   | 'bundled'
   | 'plugin'
-  | 'mcp';
+  | 'mcp'
+  | 'session';
 
 export type SkillTrustLevel = 'trusted' | 'workspace' | 'remote';
 
@@ -174,6 +175,35 @@ export interface SkillSourceConfig {
   sourceId?: string;
 }
 
+/**
+ * 内联定义的 Skill，字段与 SKILL.md 前置数据一一对应，无需落盘
+ */
+export interface SkillDefinition {
+  /** 唯一标识，小写+数字+连字符，≤64字符 */
+  name: string;
+
+  /** 激活描述，≤1024字符 */
+  description: string;
+
+  /** Skill 指令内容（等同 SKILL.md 正文） */
+  instructions: string;
+
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  version?: string;
+  argumentHint?: string;
+  userInvocable?: boolean;
+  disableModelInvocation?: boolean;
+  model?: string;
+  whenToUse?: string;
+
+  /** 条件激活的路径 glob */
+  paths?: string[];
+
+  /** scripts/templates/references 所在目录；未设置时不提供资源清单 */
+  basePath?: string;
+}
+
 /**
  * Skill 注册表配置
  */
@@ -189,6 +219,35 @@ export interface SkillRegistryConfig {
 
   /** 额外的 source（bundled/plugin/mcp 等） */
   additionalSources?: SkillSourceConfig[];
+
+  /** 内联定义的 skills（source.kind 为 session，优先级高于目录来源） */
+  definitions?: SkillDefinition[];
+
+  /** 只保留这些名称的 skills，未设置表示不限制 */
+  allow?: string[];
+
+  /** 排除这些名称的 skills，优先于 allow */
+  deny?: string[];
+}
+
+/**
+ * 会话级 Skills 配置（SessionOptions.skills）
+ */
+export interface SkillsOptions {
+  /** 额外的 skill 目录；字符串按项目级来源处理 */
+  sources?: Array<string | SkillSourceConfig>;
+
+  /** 内联定义的 skills */
+  definitions?: SkillDefinition[];
+
+  /** 只暴露这些名称的 skills */
+  allow?: string[];
+
+  /** 隐藏这些名称的 skills，优先于 allow */
+  deny?: string[];
+
+  /** 是否扫描工作目录下的 `skills/` 目录（默认 true） */
+  projectSkills?: boolean;
 }
 
 /**
@@ -256,6 +315,14 @@ export function defaultSkillSource(
       shellPolicy: 'deny',
       hookPolicy: 'deny',
     },
+    session: {
+      trustLevel: 'trusted',
+      sourceId: 'session',
+      rootDir,
+      precedence: 400,
+      shellPolicy: 'allow',
+      hookPolicy: 'allow',
+    },
   };
 
   return {
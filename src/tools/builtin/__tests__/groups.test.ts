@@ -23,6 +23,15 @@ describe('builtin tool groups', () => {
       'Grep',
     ]);
     expect(toolNames(groups.shell)).toEqual(['Bash', 'KillShell']);
+    expect(toolNames(groups.git)).toEqual([
+      'GitStatus',
+      'GitDiff',
+      'GitLog',
+      'GitBlame',
+      'GitShow',
+      'GitAdd',
+      'GitCommit',
+    ]);
     expect(toolNames(groups.web)).toEqual(['WebFetch', 'WebSearch']);
     expect(toolNames(groups.task)).toEqual([
       'Task',
@@ -53,6 +62,13 @@ describe('builtin tool groups', () => {
       'Grep',
       'Bash',
       'KillShell',
+      'GitStatus',
+      'GitDiff',
+      'GitLog',
+      'GitBlame',
+      'GitShow',
+      'GitAdd',
+      'GitCommit',
       'WebFetch',
       'WebSearch',
       'Task',
@@ -88,6 +104,13 @@ describe('builtin tool groups', () => {
       Grep: 'cancel',
       Bash: 'cancel',
       KillShell: 'block',
+      GitStatus: 'cancel',
+      GitDiff: 'cancel',
+      GitLog: 'cancel',
+      GitBlame: 'cancel',
+      GitShow: 'cancel',
+      GitAdd: 'block',
+      GitCommit: 'block',
       WebFetch: 'cancel',
       WebSearch: 'cancel',
       Task: 'block',
@@ -133,6 +156,13 @@ describe('builtin tool groups', () => {
       Grep: 'pure',
       Bash: 'non_idempotent',
       KillShell: 'idempotent',
+      GitStatus: 'pure',
+      GitDiff: 'pure',
+      GitLog: 'pure',
+      GitBlame: 'pure',
+      GitShow: 'pure',
+      GitAdd: 'idempotent',
+      GitCommit: 'non_idempotent',
       WebFetch: 'non_idempotent',
       WebSearch: 'pure',
       Task: 'non_idempotent',
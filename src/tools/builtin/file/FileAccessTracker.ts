@@ -1,8 +1,27 @@
 import { promises as fs } from 'node:fs';
 import { type InternalLogger, LogCategory, NOOP_LOGGER } from '../../../logging/Logger.js';
+import type { FileSystemService } from '../../../services/FileSystemService.js';
+import { createFileSystemError } from '../../../services/InMemoryFileSystemService.js';
 import type { SessionId } from '../../../types/branded.js';
 import { getErrorCode, getErrorMessage } from '../../../utils/errorUtils.js';
 
+/**
+ * 读取文件的修改时间；传入 fileSystem 时通过文件系统服务读取（支持非本地实现）
+ */
+async function statFile(
+  filePath: string,
+  fileSystem?: FileSystemService
+): Promise<{ mtimeMs: number; mtime: Date }> {
+  if (!fileSystem) {
+    return fs.stat(filePath);
+  }
+  const stats = await fileSystem.stat(filePath);
+  if (!stats) {
+    throw createFileSystemError('ENOENT', 'stat', filePath);
+  }
+  return { mtimeMs: stats.mtime.getTime(), mtime: stats.mtime };
+}
+
 /**
  * 文件访问记录
  */
@@ -13,6 +32,14 @@ export interface FileAccessRecord {
   sessionId: SessionId; // 会话 ID
   lastOperation: 'read' | 'edit' | 'write'; // 最后操作类型
 }
+
+/**
+ * 会话外部发生的文件变更
+ */
+export interface ExternalFileChange {
+  filePath: string;
+  changeType: 'modified' | 'deleted';
+}
 /**
  * 文件访问跟踪器
  *
@@ -29,6 +56,10 @@ export class FileAccessTracker {
   // 已读文件映射: filePath -> FileAccessRecord
   private accessedFiles: Map<string, FileAccessRecord> = new Map();
 
+  // 已上报的外部变更: filePath -> 上报时的 mtime（null 表示已删除）
+  // 与 accessedFiles 分开保存，避免上报后掩盖写入前的过期读取检查
+  private reportedChanges: Map<string, number | null> = new Map();
+
   // 私有构造函数（单例模式）
   private constructor() {}
 
@@ -54,11 +85,16 @@ export class FileAccessTracker {
    *
    * @param filePath 文件绝对路径
    * @param sessionId 会话 ID
+   * @param fileSystem 文件系统服务（可选，默认直接读取本地磁盘）
    */
-  async recordFileRead(filePath: string, sessionId: SessionId): Promise<void> {
+  async recordFileRead(
+    filePath: string,
+    sessionId: SessionId,
+    fileSystem?: FileSystemService
+  ): Promise<void> {
     try {
       // 获取文件的当前修改时间
-      const stats = await fs.stat(filePath);
+      const stats = await statFile(filePath, fileSystem);
 
       const record: FileAccessRecord = {
         filePath,
@@ -69,6 +105,7 @@ export class FileAccessTracker {
       };
 
       this.accessedFiles.set(filePath, record);
+      this.reportedChanges.delete(filePath);
 
       this.logger.debug(`记录文件读取: ${filePath}`);
     } catch (error) {
@@ -83,15 +120,17 @@ export class FileAccessTracker {
    * @param filePath 文件绝对路径
    * @param sessionId 会话 ID
    * @param operation 操作类型（'edit' 或 'write'）
+   * @param fileSystem 文件系统服务（可选，默认直接读取本地磁盘）
    */
   async recordFileEdit(
     filePath: string,
     sessionId: SessionId,
-    operation: 'edit' | 'write' = 'edit'
+    operation: 'edit' | 'write' = 'edit',
+    fileSystem?: FileSystemService
   ): Promise<void> {
     try {
       // 获取文件的当前修改时间
-      const stats = await fs.stat(filePath);
+      const stats = await statFile(filePath, fileSystem);
 
       const record: FileAccessRecord = {
         filePath,
@@ -102,6 +141,7 @@ export class FileAccessTracker {
       };
 
       this.accessedFiles.set(filePath, record);
+      this.reportedChanges.delete(filePath);
 
       this.logger.debug(`记录文件${operation === 'edit' ? '编辑' : '写入'}: ${filePath}`);
     } catch (error) {
@@ -138,10 +178,12 @@ export class FileAccessTracker {
    * 验证文件是否在读取后被修改
    *
    * @param filePath 文件绝对路径
+   * @param fileSystem 文件系统服务（可选，默认直接读取本地磁盘）
    * @returns { modified: boolean, message?: string }
    */
   async checkFileModification(
-    filePath: string
+    filePath: string,
+    fileSystem?: FileSystemService
   ): Promise<{ modified: boolean; message?: string }> {
     const record = this.accessedFiles.get(filePath);
 
@@ -154,7 +196,7 @@ export class FileAccessTracker {
 
     try {
       // 获取文件当前的修改时间
-      const stats = await fs.stat(filePath);
+      const stats = await statFile(filePath, fileSystem);
 
       // 比较修改时间（容差 1ms，避免浮点精度问题）
       const timeDiff = Math.abs(stats.mtimeMs - record.mtime);
@@ -186,10 +228,12 @@ export class FileAccessTracker {
    * 对比文件 mtime 与我们最后操作时间
    *
    * @param filePath 文件绝对路径
+   * @param fileSystem 文件系统服务（可选，默认直接读取本地磁盘）
    * @returns { isExternal: boolean, message?: string }
    */
   async checkExternalModification(
-    filePath: string
+    filePath: string,
+    fileSystem?: FileSystemService
   ): Promise<{ isExternal: boolean; message?: string }> {
     const record = this.accessedFiles.get(filePath);
 
@@ -202,7 +246,7 @@ export class FileAccessTracker {
 
     try {
       // 获取文件当前的修改时间
-      const stats = await fs.stat(filePath);
+      const stats = await statFile(filePath, fileSystem);
 
       // 计算时间差（文件 mtime - 我们的操作时间）
       const timeDiff = stats.mtimeMs - record.mtime;
@@ -233,6 +277,57 @@ export class FileAccessTracker {
     }
   }
 
+  /**
+   * 收集会话已跟踪文件的外部变更
+   *
+   * 每次变更只上报一次；再次 Read/Edit/Write 后重新以新的 mtime 为基准。
+   *
+   * @param sessionId 会话 ID
+   * @param fileSystem 文件系统服务（可选，默认直接读取本地磁盘）
+   */
+  async collectExternalChanges(
+    sessionId: SessionId,
+    fileSystem?: FileSystemService
+  ): Promise<ExternalFileChange[]> {
+    const changes: ExternalFileChange[] = [];
+
+    for (const record of this.accessedFiles.values()) {
+      if (record.sessionId !== sessionId) {
+        continue;
+      }
+
+      const baseline = this.reportedChanges.has(record.filePath)
+        ? (this.reportedChanges.get(record.filePath) ?? null)
+        : record.mtime;
+      let current: number | null;
+      try {
+        current = (await statFile(record.filePath, fileSystem)).mtimeMs;
+      } catch (error) {
+        if (getErrorCode(error) !== 'ENOENT') {
+          this.logger.warn(`检查文件外部修改失败: ${record.filePath}`, error);
+          continue;
+        }
+        current = null;
+      }
+
+      const changed =
+        current === null || baseline === null
+          ? current !== baseline
+          : Math.abs(current - baseline) > 1;
+      if (!changed) {
+        continue;
+      }
+
+      this.reportedChanges.set(record.filePath, current);
+      changes.push({
+        filePath: record.filePath,
+        changeType: current === null ? 'deleted' : 'modified',
+      });
+    }
+
+    return changes;
+  }
+
   /**
    * 获取文件的访问记录
    *
@@ -250,6 +345,7 @@ export class FileAccessTracker {
    */
   clearFileRecord(filePath: string): void {
     this.accessedFiles.delete(filePath);
+    this.reportedChanges.delete(filePath);
   }
 
   /**
@@ -257,6 +353,7 @@ export class FileAccessTracker {
    */
   clearAll(): void {
     this.accessedFiles.clear();
+    this.reportedChanges.clear();
   }
 
   /**
@@ -268,6 +365,7 @@ export class FileAccessTracker {
     for (const [filePath, record] of this.accessedFiles.entries()) {
       if (record.sessionId === sessionId) {
         this.accessedFiles.delete(filePath);
+        this.reportedChanges.delete(filePath);
       }
     }
   }
@@ -1,6 +1,10 @@
 import * as crypto from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import * as path from 'node:path';
+import {
+  type FileSystemService,
+  getFileSystemService,
+} from '../../../services/FileSystemService.js';
 import type { MessageId, SessionId } from '../../../types/branded.js';
 
 /**
@@ -22,6 +26,65 @@ export interface Snapshot {
   filePath: string; // 原始文件路径
 }
 
+/**
+ * 检查点信息
+ */
+export interface FileCheckpoint {
+  messageId: MessageId;
+  createdAt: Date;
+  /** 该检查点期间写入过的文件 */
+  files: string[];
+}
+
+/**
+ * rewind 要回滚的写入：属于这些检查点，或由这些工具调用产生
+ */
+export interface CheckpointSelection {
+  messageIds: ReadonlySet<string>;
+  toolCallIds: ReadonlySet<string>;
+}
+
+/** 某个文件在一次工具调用中首次写入前的内容（null 表示文件原本不存在） */
+interface CheckpointCapture {
+  filePath: string;
+  toolCallId?: string;
+  content: Buffer | null;
+}
+
+interface CheckpointRecord {
+  messageId: MessageId;
+  createdAt: Date;
+  captures: CheckpointCapture[];
+}
+
+/** `checkpoints.jsonl` 中的一行：一次记录 */
+interface CheckpointManifestEntry {
+  messageId: MessageId;
+  createdAt: string;
+  filePath: string;
+  toolCallId?: string;
+  existed: boolean;
+}
+
+const CHECKPOINT_MANIFEST = 'checkpoints.jsonl';
+
+/** 备份文件名：检查点 ID 加文件路径（与工具调用 ID）的哈希 */
+function checkpointBackupName(messageId: MessageId, capture: CheckpointCapture): string {
+  const key = capture.toolCallId ? `${capture.filePath}#${capture.toolCallId}` : capture.filePath;
+  return `${messageId}-${crypto.createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+}
+
+function checkpointManifestLine(checkpoint: CheckpointRecord, capture: CheckpointCapture): string {
+  const entry: CheckpointManifestEntry = {
+    messageId: checkpoint.messageId,
+    createdAt: checkpoint.createdAt.toISOString(),
+    filePath: capture.filePath,
+    ...(capture.toolCallId ? { toolCallId: capture.toolCallId } : {}),
+    existed: capture.content !== null,
+  };
+  return `${JSON.stringify(entry)}\n`;
+}
+
 /**
  * 快照管理器配置
  */
@@ -37,6 +100,13 @@ export interface SnapshotManagerOptions {
  * 集中式快照管理器
  *
  * snapshotDir 有值时启用文件快照，undefined 时所有操作为 no-op。
+ *
+ * 同时维护 Session.rewind 使用的会话检查点：Session 在每次请求开始时调用
+ * `begin(messageId)`；Write / Edit / NotebookEdit 写入前通过 `capture()` 记录原内容，
+ * 每个文件在每次工具调用中只记录第一次，并带上工具调用 ID，rewind 到请求中途的消息时
+ * 只回滚该消息之后的工具调用。检查点始终保存在内存中；snapshotDir 有值时同时落盘到
+ * `checkpoints/`（清单 `checkpoints.jsonl` 加写入前的备份），恢复会话后通过
+ * `loadCheckpoints()` 读回。Bash 命令对文件的改动无法追踪，不会被回滚。
  */
 export class SnapshotManager {
   private readonly sessionId: SessionId;
@@ -49,6 +119,9 @@ export class SnapshotManager {
   // 快照历史数组
   private snapshots: Snapshot[] = [];
 
+  // 会话检查点，按请求顺序排列
+  private readonly checkpoints: CheckpointRecord[] = [];
+
   constructor(options: SnapshotManagerOptions) {
     this.sessionId = options.sessionId;
     this.maxSnapshots = options.maxSnapshots ?? 10;
@@ -236,6 +309,189 @@ export class SnapshotManager {
     }
   }
 
+  // ==========================================================================
+  // 会话检查点
+  // ==========================================================================
+
+  /**
+   * 读回已落盘的检查点，排在内存中的检查点之前（恢复会话时调用）
+   */
+  async loadCheckpoints(): Promise<void> {
+    const directory = this.getCheckpointDir();
+    if (!directory) return;
+    let manifest: string;
+    try {
+      manifest = await fs.readFile(path.join(directory, CHECKPOINT_MANIFEST), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const loaded: CheckpointRecord[] = [];
+    for (const line of manifest.split('\n')) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as CheckpointManifestEntry;
+      let checkpoint = loaded.find((record) => record.messageId === entry.messageId);
+      if (!checkpoint) {
+        checkpoint = {
+          messageId: entry.messageId,
+          createdAt: new Date(entry.createdAt),
+          captures: [],
+        };
+        loaded.push(checkpoint);
+      }
+      const capture: CheckpointCapture = {
+        filePath: entry.filePath,
+        ...(entry.toolCallId ? { toolCallId: entry.toolCallId } : {}),
+        content: null,
+      };
+      if (entry.existed) {
+        capture.content = await fs.readFile(
+          path.join(directory, checkpointBackupName(entry.messageId, capture))
+        );
+      }
+      checkpoint.captures.push(capture);
+    }
+    this.checkpoints.unshift(...loaded);
+  }
+
+  /**
+   * 开启新的检查点，之后的写入都归属于它
+   */
+  beginCheckpoint(messageId: MessageId): void {
+    this.checkpoints.push({ messageId, createdAt: new Date(), captures: [] });
+  }
+
+  getCheckpoints(): FileCheckpoint[] {
+    return this.checkpoints.map(({ messageId, createdAt, captures }) => ({
+      messageId,
+      createdAt,
+      files: [...new Set(captures.map((capture) => capture.filePath))],
+    }));
+  }
+
+  /**
+   * 记录文件写入前的内容。同一检查点内每次工具调用只记录第一次；没有开启检查点时为 no-op。
+   */
+  async capture(
+    filePath: string,
+    options: { toolCallId?: string; fileSystem?: FileSystemService } = {}
+  ): Promise<void> {
+    const current = this.checkpoints.at(-1);
+    const resolved = path.resolve(filePath);
+    const { toolCallId, fileSystem = getFileSystemService() } = options;
+    if (
+      !current ||
+      current.captures.some(
+        (capture) => capture.filePath === resolved && capture.toolCallId === toolCallId
+      )
+    ) {
+      return;
+    }
+    const stats = await fileSystem.stat(resolved);
+    const capture: CheckpointCapture = {
+      filePath: resolved,
+      ...(toolCallId ? { toolCallId } : {}),
+      content: stats?.isFile ? await fileSystem.readBinaryFile(resolved) : null,
+    };
+    current.captures.push(capture);
+    await this.persistCapture(current, capture);
+  }
+
+  /**
+   * 回滚选中的写入
+   *
+   * 每个文件恢复到最早一次被选中的写入之前的内容，期间新建的文件被删除；被回滚的记录
+   * 以及因此变空的选中检查点随之丢弃。
+   *
+   * @returns 被恢复或删除的文件路径
+   */
+  async rewindCheckpoints(
+    selection: CheckpointSelection,
+    fileSystem: FileSystemService = getFileSystemService()
+  ): Promise<string[]> {
+    const isSelected = (checkpoint: CheckpointRecord, capture: CheckpointCapture) =>
+      selection.messageIds.has(checkpoint.messageId) ||
+      (capture.toolCallId !== undefined && selection.toolCallIds.has(capture.toolCallId));
+
+    const originals = new Map<string, Buffer | null>();
+    const removed: Array<{ messageId: MessageId; capture: CheckpointCapture }> = [];
+    for (const checkpoint of this.checkpoints) {
+      for (const capture of checkpoint.captures) {
+        if (!isSelected(checkpoint, capture)) continue;
+        if (!originals.has(capture.filePath)) {
+          originals.set(capture.filePath, capture.content);
+        }
+        removed.push({ messageId: checkpoint.messageId, capture });
+      }
+    }
+
+    for (const [filePath, content] of originals) {
+      if (content) {
+        await fileSystem.mkdir(path.dirname(filePath), { recursive: true });
+        await fileSystem.writeBinaryFile(filePath, content);
+      } else if ((await fileSystem.stat(filePath))?.isFile) {
+        await fileSystem.deleteFile(filePath);
+      }
+    }
+
+    for (let index = this.checkpoints.length - 1; index >= 0; index--) {
+      const checkpoint = this.checkpoints[index];
+      checkpoint.captures = checkpoint.captures.filter(
+        (capture) => !isSelected(checkpoint, capture)
+      );
+      if (selection.messageIds.has(checkpoint.messageId)) {
+        this.checkpoints.splice(index, 1);
+      }
+    }
+    await this.removePersistedCaptures(removed);
+    return [...originals.keys()].sort();
+  }
+
+  private getCheckpointDir(): string | undefined {
+    return this.snapshotDir ? path.join(this.snapshotDir, 'checkpoints') : undefined;
+  }
+
+  private async persistCapture(
+    checkpoint: CheckpointRecord,
+    capture: CheckpointCapture
+  ): Promise<void> {
+    const directory = this.getCheckpointDir();
+    if (!directory) return;
+    await fs.mkdir(directory, { recursive: true });
+    if (capture.content) {
+      await fs.writeFile(
+        path.join(directory, checkpointBackupName(checkpoint.messageId, capture)),
+        capture.content
+      );
+    }
+    await fs.appendFile(
+      path.join(directory, CHECKPOINT_MANIFEST),
+      checkpointManifestLine(checkpoint, capture)
+    );
+  }
+
+  /**
+   * 用剩余的记录重写清单，并删除被回滚记录的备份
+   */
+  private async removePersistedCaptures(
+    removed: Array<{ messageId: MessageId; capture: CheckpointCapture }>
+  ): Promise<void> {
+    const directory = this.getCheckpointDir();
+    if (!directory || removed.length === 0) return;
+    const manifest = this.checkpoints
+      .flatMap((checkpoint) =>
+        checkpoint.captures.map((capture) => checkpointManifestLine(checkpoint, capture))
+      )
+      .join('');
+    await fs.writeFile(path.join(directory, CHECKPOINT_MANIFEST), manifest);
+    for (const { messageId, capture } of removed) {
+      await fs.rm(path.join(directory, checkpointBackupName(messageId, capture)), {
+        force: true,
+      });
+    }
+  }
+
   private generateFileHash(filePath: string, version: number): string {
     const hash = crypto.createHash('md5');
     hash.update(`${filePath}:${version}`);
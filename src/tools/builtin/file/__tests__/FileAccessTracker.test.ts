@@ -1,6 +1,6 @@
 import { describe, expect, it, beforeEach } from 'vitest';
 import { FileAccessTracker } from '../FileAccessTracker.js';
-import { writeFile, mkdtemp } from 'node:fs/promises';
+import { writeFile, mkdtemp, rm, utimes } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { assertDefined } from '../../../../__tests__/helpers/assertDefined.js';
@@ -151,4 +151,38 @@ describe('FileAccessTracker', () => {
       expect(result.message).toContain('未被跟踪');
     });
   });
+
+  describe('collectExternalChanges', () => {
+    it('should report each external modification once', async () => {
+      await tracker.recordFileRead(testFile, SessionId('session-1'));
+      expect(await tracker.collectExternalChanges(SessionId('session-1'))).toEqual([]);
+
+      const later = new Date(Date.now() + 10_000);
+      await utimes(testFile, later, later);
+      expect(await tracker.collectExternalChanges(SessionId('session-1'))).toEqual([
+        { filePath: testFile, changeType: 'modified' },
+      ]);
+      expect(await tracker.collectExternalChanges(SessionId('session-1'))).toEqual([]);
+      expect(await tracker.collectExternalChanges(SessionId('session-2'))).toEqual([]);
+    });
+
+    it('should keep the stale-read check after reporting', async () => {
+      await tracker.recordFileRead(testFile, SessionId('session-1'));
+      const later = new Date(Date.now() + 10_000);
+      await utimes(testFile, later, later);
+      await tracker.collectExternalChanges(SessionId('session-1'));
+
+      const result = await tracker.checkExternalModification(testFile);
+      expect(result.isExternal).toBe(true);
+    });
+
+    it('should report deleted files', async () => {
+      await tracker.recordFileRead(testFile, SessionId('session-1'));
+      await rm(testFile);
+      expect(await tracker.collectExternalChanges(SessionId('session-1'))).toEqual([
+        { filePath: testFile, changeType: 'deleted' },
+      ]);
+      expect(await tracker.collectExternalChanges(SessionId('session-1'))).toEqual([]);
+    });
+  });
 });
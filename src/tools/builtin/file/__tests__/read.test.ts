@@ -0,0 +1,227 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createContextSnapshot } from '../../../../runtime/index.js';
+import { SessionId } from '../../../../types/branded.js';
+import { collectToolExecution } from '../../../types/index.js';
+import { encodePng, prepareImage } from '../imageContent.js';
+import { renderNotebook } from '../notebookContent.js';
+import { extractPdfPages, openPdf, parsePageRange } from '../pdfText.js';
+import { readTool } from '../read.js';
+
+/** 生成每页一个 Flate 压缩内容流的最小 PDF */
+function createPdf(pageContents: string[]): Buffer {
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+  const catalog = add('');
+  const pagesId = add('');
+  const font = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
+  const pageIds = pageContents.map((content) => {
+    const data = deflateSync(Buffer.from(content, 'latin1'));
+    const stream = add(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`),
+        data,
+        Buffer.from('\nendstream'),
+      ]),
+    );
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 612 792] /Contents ${stream} 0 R >>`,
+    );
+  });
+  objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+  objects[pagesId - 1] = Buffer.from(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} /Resources << /Font << /F1 ${font} 0 R >> >> >>`,
+  );
+
+  return Buffer.concat([
+    Buffer.from('%PDF-1.7\n'),
+    ...objects.flatMap((body, index) => [
+      Buffer.from(`${index + 1} 0 obj\n`),
+      body,
+      Buffer.from('\nendobj\n'),
+    ]),
+    Buffer.from(`trailer\n<< /Root ${catalog} 0 R >>\n%%EOF\n`),
+  ]);
+}
+
+function createSolidPng(width: number, height: number): Buffer {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set([200, 30, 30, 255], i);
+  }
+  return encodePng(pixels, width, height);
+}
+
+describe('Read multimodal content', () => {
+  let dir: string;
+
+  const read = (params: { file_path: string; pages?: string }) =>
+    collectToolExecution(
+      readTool.execute(
+        { ...params, encoding: 'utf8' },
+        {
+          contextSnapshot: createContextSnapshot(SessionId('session-1'), 'turn-1', {
+            capabilities: { filesystem: { roots: [dir] } },
+          }),
+        },
+      ),
+    );
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'blade-read-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('extracts text per page and honours page ranges', async () => {
+    const pdf = createPdf([
+      'BT /F1 12 Tf 72 720 Td (Hello PDF) Tj 0 -14 Td [(Second) -300 (line)] TJ ET',
+      'BT /F1 12 Tf 72 720 Td <50616765> Tj ( two\\051) Tj ET',
+      'BT /F1 12 Tf 72 720 Td (Third page) Tj ET',
+    ]);
+    expect(extractPdfPages(pdf)).toEqual(['Hello PDF\nSecond line', 'Page two)', 'Third page']);
+    expect(parsePageRange('2,1-2, 3-', 3)).toEqual([1, 2, 3]);
+    expect(() => parsePageRange('3-1', 3)).toThrow('Invalid page range');
+
+    const filePath = join(dir, 'report.pdf');
+    await writeFile(filePath, pdf);
+    const result = await read({ file_path: filePath, pages: '2-3' });
+
+    expect(result.status).toBe('success');
+    expect(result.model).toBe(
+      '<page number="2">\nPage two)\n</page>\n\n<page number="3">\nThird page\n</page>',
+    );
+    expect(result.metadata).toMatchObject({ total_pages: 3, pages_read: [2, 3] });
+  });
+
+  it('follows incremental updates and ignores object headers inside streams', () => {
+    const content = Buffer.from('BT /F1 12 Tf 72 720 Td (Revised 1 0 obj text) Tj ET');
+    const page = '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 6 0 R >>';
+    const objectStream = deflateSync(Buffer.from(`5 0 ${page}`));
+    const update = Buffer.concat([
+      Buffer.from(`6 0 obj\n<< /Length ${content.length} >>\nstream\n`),
+      content,
+      Buffer.from('\nendstream\nendobj\n'),
+      Buffer.from(
+        `7 0 obj\n<< /Type /ObjStm /N 1 /First 4 /Length ${objectStream.length} /Filter /FlateDecode >>\nstream\n`,
+      ),
+      objectStream,
+      Buffer.from('\nendstream\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n'),
+    ]);
+    const pdf = Buffer.concat([createPdf(['BT /F1 12 Tf 72 720 Td (Original) Tj ET']), update]);
+
+    expect(extractPdfPages(pdf)).toEqual(['Revised 1 0 obj text']);
+  });
+
+  it('decodes only the selected pages and bounds decompressed stream size', async () => {
+    const bomb = 'BT /F1 12 Tf 72 720 Td (x) Tj ET'.padEnd(4096, ' ');
+    const pdf = createPdf(['BT /F1 12 Tf 72 720 Td (Small) Tj ET', bomb, bomb]);
+
+    const limited = openPdf(pdf, { maxDecodedBytes: 1024 });
+    expect(limited.count).toBe(3);
+    expect(limited.text(1)).toBe('Small');
+    expect(() => limited.text(2)).toThrow('PDF streams decode to more than');
+    expect(() => extractPdfPages(pdf, { maxDecodedBytes: 6000 })).toThrow(
+      'PDF streams decode to more than',
+    );
+
+    const filePath = join(dir, 'bomb.pdf');
+    await writeFile(filePath, createPdf([bomb.padEnd(70 * 1024 * 1024, ' ')]));
+    const result = await read({ file_path: filePath });
+    expect(result.status).toBe('error');
+    expect(result.model).toContain('PDF streams decode to more than 64 MB');
+  });
+
+  it('returns images as content parts and downscales oversized PNGs', async () => {
+    const filePath = join(dir, 'screenshot.png');
+    await writeFile(filePath, createSolidPng(300, 150));
+
+    const result = await read({ file_path: filePath });
+
+    expect(result.status).toBe('success');
+    expect(result.model).toEqual({
+      kind: 'multimodal',
+      parts: [
+        { type: 'text', text: 'Image screenshot.png (300x150)' },
+        {
+          type: 'image_url',
+          image_url: { url: expect.stringMatching(/^data:image\/png;base64,/) },
+        },
+      ],
+    });
+
+    const downscaled = prepareImage(createSolidPng(300, 150), 'image/png', { maxDimension: 100 });
+    expect(downscaled).toMatchObject({
+      width: 100,
+      height: 50,
+      originalWidth: 300,
+      originalHeight: 150,
+    });
+    expect(prepareImage(downscaled.data, 'image/png')).toMatchObject({ width: 100, height: 50 });
+
+    // Only 8-bit RGB / RGBA PNGs are decoded; oversized variants are rejected, not sent as is.
+    const grayscale = Buffer.from(createSolidPng(300, 150));
+    grayscale[25] = 0;
+    expect(prepareImage(grayscale, 'image/png', { maxDimension: 300 })).toMatchObject({
+      width: 300,
+      data: grayscale,
+    });
+    expect(() => prepareImage(grayscale, 'image/png', { maxDimension: 100 })).toThrow(
+      'cannot be downscaled locally',
+    );
+    const jpeg = Buffer.from([
+      0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, 0x0f, 0xa0, 0x17, 0x70, 0x03, 0, 0, 0, 0, 0, 0,
+    ]);
+    expect(() => prepareImage(jpeg, 'image/jpeg')).toThrow('Image is 6000x4000');
+  });
+
+  it('renders notebook cells with outputs and image outputs', async () => {
+    const notebook = {
+      metadata: { language_info: { name: 'python' } },
+      cells: [
+        { cell_type: 'markdown', source: ['# Analysis'] },
+        {
+          cell_type: 'code',
+          execution_count: 1,
+          source: ['print("hi")\n', 'plot()'],
+          outputs: [
+            { output_type: 'stream', name: 'stdout', text: ['hi\n'] },
+            {
+              output_type: 'display_data',
+              data: { 'image/png': 'iVBORw0KGgo=\n', 'text/plain': '<Figure>' },
+            },
+            {
+              output_type: 'error',
+              ename: 'ValueError',
+              evalue: 'bad',
+              traceback: ['\u001b[31mTraceback\u001b[0m'],
+            },
+          ],
+        },
+      ],
+    };
+
+    const rendered = renderNotebook(JSON.stringify(notebook));
+
+    expect(rendered).toMatchObject({ cellCount: 2, imageCount: 1 });
+    expect(rendered.parts).toEqual([
+      {
+        type: 'text',
+        text: '<cell Cell 1 markdown>\n# Analysis\n</cell>\n\n<cell Cell 2 code [1]>\n```python\nprint("hi")\nplot()\n```\n<output stdout>\nhi\n\n</output>',
+      },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+      {
+        type: 'text',
+        text: '<output error>\nValueError: bad\nTraceback\n</output>\n</cell>',
+      },
+    ]);
+  });
+});
@@ -106,3 +106,36 @@ export function generateDiffSnippetWithMatch(
     matchLine: matchLine + 1,
   })}\n<<</DIFF>>>\n`;
 }
+
+/**
+ * 生成带 a/、b/ 前缀的标准 unified diff，可直接交给 `git apply`
+ *
+ * @param relativePath 相对仓库根目录的路径（使用 / 分隔）
+ * @param oldContent 旧内容，新建文件时为 null
+ * @param newContent 新内容，删除文件时为 null
+ * @param contextLines 上下文行数（默认 3 行，与 git 一致）
+ * @returns diff 文本；内容相同时为空字符串
+ */
+export function createUnifiedDiff(
+  relativePath: string,
+  oldContent: string | null,
+  newContent: string | null,
+  contextLines = 3
+): string {
+  if (oldContent === newContent) {
+    return '';
+  }
+
+  const patch = Diff.createTwoFilesPatch(
+    oldContent === null ? '/dev/null' : `a/${relativePath}`,
+    newContent === null ? '/dev/null' : `b/${relativePath}`,
+    oldContent ?? '',
+    newContent ?? '',
+    '',
+    '',
+    { context: contextLines }
+  );
+
+  // 去掉 diff 库输出的 "=====" 分隔行，保持与 git diff 一致
+  return patch.replace(/^=+\n/, '');
+}
@@ -104,7 +104,7 @@ export const editTool = createTool({
       };
 
       // 获取文件系统服务
-      const fsService = getFileSystemService();
+      const fsService = getFileSystemService(context);
 
       // 读取文件内容（统一使用 FileSystemService）
       let content: string;
@@ -128,13 +128,15 @@ export const editTool = createTool({
         signal.throwIfAborted();
       }
 
-      // Read-before-write、外部修改检查、快照创建
+      // Read-before-write、外部修改检查、记录检查点
       const guard = await runWriteGuard({
         filePath: file_path,
         sessionId,
-        messageId,
+        toolCallId: context.toolCallId,
         operation: 'edit',
         fileExists: true,
+        fileSystem: fsService,
+        checkpoints: context.bladeConfig?.fileCheckpoints,
       });
       if (guard.blocked) {
         return guard.blocked;
@@ -271,7 +273,7 @@ export const editTool = createTool({
       await fsService.writeTextFile(file_path, newContent);
 
       // 更新文件访问记录（记录编辑操作）
-      await recordWriteComplete(file_path, sessionId, 'edit');
+      await recordWriteComplete(file_path, sessionId, 'edit', fsService);
 
       // 验证写入成功（统一使用 FileSystemService）
       const stats = await fsService.stat(file_path);
@@ -304,7 +306,7 @@ export const editTool = createTool({
         size_diff: newContent.length - content.length,
         last_modified:
           stats?.mtime instanceof Date ? stats.mtime.toISOString() : undefined,
-        snapshot_created: !!(sessionId && messageId),
+        snapshot_created: guard.snapshotCreated,
         session_id: sessionId,
         message_id: messageId,
         diff_snippet: diffSnippet,
@@ -0,0 +1,355 @@
+/**
+ * Read 工具的图片处理
+ *
+ * 识别图片格式与尺寸，并把超出预算的图片缩小后作为 image content part 返回给模型。
+ * 只有 8 位 RGB / RGBA PNG 在本地解码缩放（无第三方依赖）；JPEG、GIF、WebP 以及
+ * 其他 PNG 变体超出尺寸或体积预算时直接报错，不把原图发给模型。
+ */
+
+import { crc32, deflateSync, inflateSync } from 'node:zlib';
+
+/** base64 后约 5MB，是主流 provider 单张图片的上限 */
+export const IMAGE_MAX_BYTES = 3_750_000;
+/** 长边超过该值时缩小；provider 通常也会在服务端缩放到这个量级 */
+export const IMAGE_MAX_DIMENSION = 2000;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface PreparedImage extends ImageSize {
+  mediaType: string;
+  data: Buffer;
+  originalWidth?: number;
+  originalHeight?: number;
+  originalBytes: number;
+}
+
+/** 返回模型可直接查看的图片 MIME 类型；其他扩展名返回 undefined */
+export function getImageMediaType(ext: string): string | undefined {
+  return IMAGE_MEDIA_TYPES[ext.toLowerCase()];
+}
+
+/**
+ * 从文件头读取图片尺寸，格式不符或文件损坏时返回 undefined
+ */
+export function readImageSize(data: Buffer, mediaType: string): ImageSize | undefined {
+  switch (mediaType) {
+    case 'image/png':
+      if (data.length < 24 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) return undefined;
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    case 'image/gif':
+      if (data.length < 10 || data.toString('latin1', 0, 3) !== 'GIF') return undefined;
+      return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    case 'image/jpeg':
+      return readJpegSize(data);
+    case 'image/webp':
+      return readWebpSize(data);
+    default:
+      return undefined;
+  }
+}
+
+function readJpegSize(data: Buffer): ImageSize | undefined {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return undefined;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = data[offset + 1];
+    // SOF0-SOF15，排除 DHT(C4)、JPG(C8)、DAC(CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function readWebpSize(data: Buffer): ImageSize | undefined {
+  if (
+    data.length < 30 ||
+    data.toString('latin1', 0, 4) !== 'RIFF' ||
+    data.toString('latin1', 8, 12) !== 'WEBP'
+  ) {
+    return undefined;
+  }
+  const chunk = data.toString('latin1', 12, 16);
+  if (chunk === 'VP8X') {
+    return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8 ') {
+    return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+  }
+  return undefined;
+}
+
+/**
+ * 按尺寸与体积预算准备图片。超出预算的 8 位 RGB / RGBA PNG 会被缩小；无法在本地解码的
+ * 图片超出预算时抛出错误。
+ */
+export function prepareImage(
+  data: Buffer,
+  mediaType: string,
+  budget: { maxBytes?: number; maxDimension?: number } = {},
+): PreparedImage {
+  const maxBytes = budget.maxBytes ?? IMAGE_MAX_BYTES;
+  const maxDimension = budget.maxDimension ?? IMAGE_MAX_DIMENSION;
+  const size = readImageSize(data, mediaType);
+  if (!size) {
+    throw new Error(`Unrecognized ${mediaType} image data`);
+  }
+
+  const tooLarge = Math.max(size.width, size.height) > maxDimension || data.length > maxBytes;
+  if (!tooLarge) {
+    return { ...size, mediaType, data, originalBytes: data.length };
+  }
+
+  const decoded = mediaType === 'image/png' ? decodePng(data) : undefined;
+  if (!decoded) {
+    throw new Error(
+      `Image is ${size.width}x${size.height} (${data.length} bytes), over the ${maxDimension}px / ${maxBytes} byte limit, and this ${mediaType} cannot be downscaled locally. Resize it or convert it to an 8-bit RGB PNG first.`,
+    );
+  }
+
+  let scale = Math.min(1, maxDimension / Math.max(size.width, size.height));
+  for (;;) {
+    const width = Math.max(1, Math.round(size.width * scale));
+    const height = Math.max(1, Math.round(size.height * scale));
+    const encoded = encodePng(resizeRgba(decoded, width, height), width, height);
+    if (encoded.length <= maxBytes || (width === 1 && height === 1)) {
+      return {
+        width,
+        height,
+        mediaType: 'image/png',
+        data: encoded,
+        originalWidth: size.width,
+        originalHeight: size.height,
+        originalBytes: data.length,
+      };
+    }
+    scale *= Math.sqrt(maxBytes / encoded.length) * 0.9;
+  }
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+interface RgbaImage extends ImageSize {
+  pixels: Uint8Array;
+}
+
+/** 解码后最多处理的像素数（RGBA 约 64MB）；纯 JS 解码是同步的，更大的图片会长时间阻塞事件循环 */
+const IMAGE_MAX_DECODE_PIXELS = 16_000_000;
+
+/**
+ * 解码 8 位、非隔行的 RGB / RGBA PNG（截图工具的常见输出）为 RGBA。
+ * 调色板、灰度、16 位、隔行以及超过 IMAGE_MAX_DECODE_PIXELS 的 PNG 返回 undefined。
+ */
+function decodePng(data: Buffer): RgbaImage | undefined {
+  let offset = 8;
+  let header: { width: number; height: number; channels: number } | undefined;
+  const idat: Buffer[] = [];
+
+  while (offset + 8 <= data.length) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('latin1', offset + 4, offset + 8);
+    const chunk = data.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === 'IHDR') {
+      const [bitDepth, colorType, , , interlace] = chunk.subarray(8, 13);
+      if (bitDepth !== 8 || (colorType !== 2 && colorType !== 6) || interlace !== 0) {
+        return undefined;
+      }
+      header = {
+        width: chunk.readUInt32BE(0),
+        height: chunk.readUInt32BE(4),
+        channels: colorType === 6 ? 4 : 3,
+      };
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (!header || header.width * header.height > IMAGE_MAX_DECODE_PIXELS) return undefined;
+  const { width, height, channels } = header;
+  const rowBytes = width * channels;
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat), { maxOutputLength: (rowBytes + 1) * height });
+  } catch {
+    return undefined;
+  }
+  if (raw.length < (rowBytes + 1) * height) return undefined;
+
+  const pixels = new Uint8Array(width * height * 4);
+  let previous: Uint8Array = new Uint8Array(rowBytes);
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowBytes + 1);
+    const row = unfilterRow(
+      raw[start],
+      raw.subarray(start + 1, start + 1 + rowBytes),
+      previous,
+      channels,
+    );
+    previous = row;
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      pixels.set(row.subarray(x * channels, x * channels + 3), target);
+      pixels[target + 3] = channels === 4 ? row[x * channels + 3] : 255;
+    }
+  }
+  return { width, height, pixels };
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+}
+
+function unfilterRow(
+  filter: number,
+  row: Uint8Array,
+  previous: Uint8Array,
+  bpp: number,
+): Uint8Array {
+  const out = new Uint8Array(row.length);
+  for (let i = 0; i < row.length; i++) {
+    const left = i >= bpp ? out[i - bpp] : 0;
+    const up = previous[i];
+    const upLeft = i >= bpp ? previous[i - bpp] : 0;
+    const predictor =
+      filter === 1
+        ? left
+        : filter === 2
+          ? up
+          : filter === 3
+            ? (left + up) >> 1
+            : filter === 4
+              ? paeth(left, up, upLeft)
+              : 0;
+    out[i] = (row[i] + predictor) & 0xff;
+  }
+  return out;
+}
+
+/** 面积平均缩放，缩小时保留细节 */
+function resizeRgba(image: RgbaImage, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.min(image.height, Math.floor((y + 1) * scaleY)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.min(image.width, Math.floor((x + 1) * scaleX)));
+      const sums = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const source = (sy * image.width + sx) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            sums[channel] += image.pixels[source + channel];
+          }
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const target = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        out[target + channel] = Math.round(sums[channel] / count);
+      }
+    }
+  }
+  return out;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/** 编码 8 位 RGBA PNG，每行选择绝对值和最小的滤波器 */
+export function encodePng(pixels: Uint8Array, width: number, height: number): Buffer {
+  const rowBytes = width * 4;
+  const filtered = Buffer.alloc((rowBytes + 1) * height);
+  let previous: Uint8Array = new Uint8Array(rowBytes);
+  const candidate = new Uint8Array(rowBytes);
+  for (let y = 0; y < height; y++) {
+    const row = pixels.subarray(y * rowBytes, (y + 1) * rowBytes);
+    let bestFilter = 0;
+    let bestScore = Number.POSITIVE_INFINITY;
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= 4 ? row[i - 4] : 0;
+        const up = previous[i];
+        const upLeft = i >= 4 ? previous[i - 4] : 0;
+        const predictor =
+          filter === 1
+            ? left
+            : filter === 2
+              ? up
+              : filter === 3
+                ? (left + up) >> 1
+                : filter === 4
+                  ? paeth(left, up, upLeft)
+                  : 0;
+        const value = (row[i] - predictor) & 0xff;
+        candidate[i] = value;
+        score += value < 128 ? value : 256 - value;
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        filtered[y * (rowBytes + 1)] = filter;
+        filtered.set(candidate, y * (rowBytes + 1) + 1);
+      }
+    }
+    filtered[y * (rowBytes + 1)] = bestFilter;
+    previous = row;
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(filtered, { level: 9 })),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
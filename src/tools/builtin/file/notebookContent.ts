@@ -0,0 +1,124 @@
+/**
+ * Read 工具的 Jupyter Notebook 渲染
+ *
+ * 把 .ipynb 的每个单元格渲染为文本（源码 + 输出），图片输出作为 image content part。
+ */
+
+import type { ContentPart } from '../../../services/ChatServiceInterface.js';
+
+const IMAGE_OUTPUT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+const MAX_OUTPUT_CHARS = 10_000;
+
+export interface RenderedNotebook {
+  parts: ContentPart[];
+  cellCount: number;
+  imageCount: number;
+}
+
+type NotebookText = string | string[] | undefined;
+
+interface NotebookOutput {
+  output_type?: string;
+  name?: string;
+  text?: NotebookText;
+  data?: Record<string, NotebookText>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+interface NotebookCell {
+  cell_type?: string;
+  id?: string;
+  source?: NotebookText;
+  execution_count?: number | null;
+  outputs?: NotebookOutput[];
+}
+
+interface Notebook {
+  cells?: NotebookCell[];
+  metadata?: {
+    language_info?: { name?: string };
+    kernelspec?: { language?: string };
+  };
+}
+
+function joinText(text: NotebookText): string {
+  return Array.isArray(text) ? text.join('') : (text ?? '');
+}
+
+function truncateOutput(text: string): string {
+  return text.length > MAX_OUTPUT_CHARS
+    ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n... (output truncated, ${text.length} chars total)`
+    : text;
+}
+
+function stripAnsi(text: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape sequences in tracebacks
+  return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * 渲染 notebook。相邻文本合并为一个 text part，图片输出单独成为 image part。
+ */
+export function renderNotebook(source: string): RenderedNotebook {
+  const notebook = JSON.parse(source) as Notebook;
+  if (!Array.isArray(notebook.cells)) {
+    throw new Error('Invalid notebook: missing cells array');
+  }
+  const language =
+    notebook.metadata?.language_info?.name ?? notebook.metadata?.kernelspec?.language ?? 'python';
+
+  const parts: ContentPart[] = [];
+  let imageCount = 0;
+  let text = '';
+  const flushText = () => {
+    if (text.trim()) parts.push({ type: 'text', text: text.trimEnd() });
+    text = '';
+  };
+
+  for (const [index, cell] of notebook.cells.entries()) {
+    const cellType = cell.cell_type ?? 'code';
+    const label = [
+      `Cell ${index + 1}`,
+      cell.id ? `id=${cell.id}` : undefined,
+      cellType,
+      typeof cell.execution_count === 'number' ? `[${cell.execution_count}]` : undefined,
+    ]
+      .filter(Boolean)
+      .join(' ');
+    const body = joinText(cell.source);
+    text += `<cell ${label}>\n`;
+    text += cellType === 'code' ? `\`\`\`${language}\n${body}\n\`\`\`\n` : `${body}\n`;
+
+    for (const output of cell.outputs ?? []) {
+      if (output.output_type === 'stream') {
+        text += `<output ${output.name ?? 'stdout'}>\n${truncateOutput(joinText(output.text))}\n</output>\n`;
+      } else if (output.output_type === 'error') {
+        const traceback = stripAnsi((output.traceback ?? []).join('\n'));
+        text += `<output error>\n${output.ename ?? 'Error'}: ${output.evalue ?? ''}\n${truncateOutput(traceback)}\n</output>\n`;
+      } else if (output.data) {
+        const imageType = IMAGE_OUTPUT_TYPES.find((type) => output.data?.[type]);
+        if (imageType) {
+          flushText();
+          imageCount++;
+          parts.push({
+            type: 'image_url',
+            image_url: {
+              url: `data:${imageType};base64,${joinText(output.data[imageType]).replace(/\s+/g, '')}`,
+            },
+          });
+        } else {
+          const plain = output.data['text/markdown'] ?? output.data['text/plain'];
+          if (plain !== undefined) {
+            text += `<output>\n${truncateOutput(joinText(plain))}\n</output>\n`;
+          }
+        }
+      }
+    }
+    text += '</cell>\n\n';
+  }
+  flushText();
+
+  return { parts, cellCount: notebook.cells.length, imageCount };
+}
@@ -0,0 +1,879 @@
+/**
+ * Read 工具的 PDF 文本提取
+ *
+ * 无第三方依赖的最小 PDF 解析器：按文件顺序扫描间接对象（跳过流数据，展开对象流），
+ * 从最后一个 trailer / xref 流的 Root 沿页面树读取每页内容流，按文本操作符还原文字。
+ * 不读取 xref 偏移表，同一对象以文件中最后出现的定义为准，这与增量更新的追加语义一致。
+ * 支持 FlateDecode / ASCIIHex / ASCII85 过滤器与 ToUnicode CMap。
+ *
+ * 不支持：加密文件（抛出错误）、其他流过滤器与 predictor、增量更新中只在 xref
+ * 里标记为 free 的删除、没有 ToUnicode 的复合字体；扫描件等没有文本层的页面返回空字符串。
+ */
+
+import { inflateSync } from 'node:zlib';
+
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | string
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfValue[]
+  | PdfDict;
+
+interface PdfName {
+  kind: 'name';
+  name: string;
+}
+
+interface PdfString {
+  kind: 'string';
+  bytes: Uint8Array;
+}
+
+interface PdfRef {
+  kind: 'ref';
+  num: number;
+}
+
+interface PdfDict {
+  kind: 'dict';
+  entries: Map<string, PdfValue>;
+}
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+  /** 定义在文件中的位置；对象流中的对象取对象流的位置 */
+  offset: number;
+}
+
+interface FontDecoder {
+  codeLength: number;
+  decode(bytes: Uint8Array): string;
+}
+
+/** 单次读取的最大页数 */
+export const PDF_MAX_PAGES_PER_READ = 20;
+
+/** 单个文档所有流解码后的总字节上限，防止压缩炸弹 */
+export const PDF_MAX_DECODED_BYTES = 64 * 1024 * 1024;
+
+export interface PdfReadOptions {
+  /** 覆盖 PDF_MAX_DECODED_BYTES */
+  maxDecodedBytes?: number;
+}
+
+/** 已解析的 PDF；页面文本在读取时才解码 */
+export interface PdfPages {
+  readonly count: number;
+  /** 返回第 `page` 页（从 1 开始）的文本 */
+  text(page: number): string;
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+const MAX_FORM_DEPTH = 4;
+const STRING_ESCAPES: Record<string, number> = { n: 0x0a, r: 0x0d, t: 0x09, b: 0x08, f: 0x0c };
+
+// WinAnsiEncoding 中与 Latin-1 不同的 0x80-0x9f 区间，按 byte - 0x80 索引
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ',
+  exclam: '!',
+  quotedbl: '"',
+  numbersign: '#',
+  dollar: '$',
+  percent: '%',
+  ampersand: '&',
+  quotesingle: "'",
+  quoteright: '’',
+  quoteleft: '‘',
+  parenleft: '(',
+  parenright: ')',
+  asterisk: '*',
+  plus: '+',
+  comma: ',',
+  hyphen: '-',
+  period: '.',
+  slash: '/',
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  colon: ':',
+  semicolon: ';',
+  less: '<',
+  equal: '=',
+  greater: '>',
+  question: '?',
+  at: '@',
+  bracketleft: '[',
+  backslash: '\\',
+  bracketright: ']',
+  underscore: '_',
+  braceleft: '{',
+  bar: '|',
+  braceright: '}',
+  endash: '–',
+  emdash: '—',
+  bullet: '•',
+  quotedblleft: '“',
+  quotedblright: '”',
+  ellipsis: '…',
+  fi: 'fi',
+  fl: 'fl',
+  ff: 'ff',
+  ffi: 'ffi',
+  ffl: 'ffl',
+};
+
+function isName(value: PdfValue | undefined, name?: string): value is PdfName {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    value.kind === 'name' &&
+    (name === undefined || value.name === name)
+  );
+}
+
+function isDict(value: PdfValue | undefined): value is PdfDict {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'dict'
+  );
+}
+
+function isRef(value: PdfValue | undefined): value is PdfRef {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'ref'
+  );
+}
+
+function isPdfString(value: PdfValue | undefined): value is PdfString {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'string'
+  );
+}
+
+// ============================================================================
+// Lexer / parser
+// ============================================================================
+
+class PdfParser {
+  position: number;
+
+  constructor(
+    private readonly data: Uint8Array,
+    position = 0,
+  ) {
+    this.position = position;
+  }
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.position >= this.data.length;
+  }
+
+  skipWhitespace(): void {
+    const { data } = this;
+    while (this.position < data.length) {
+      const byte = data[this.position];
+      if (WHITESPACE.has(byte)) {
+        this.position++;
+      } else if (byte === 0x25) {
+        while (
+          this.position < data.length &&
+          data[this.position] !== 0x0a &&
+          data[this.position] !== 0x0d
+        ) {
+          this.position++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** 解析一个值；遇到内容流操作符时返回其名称字符串 */
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const { data } = this;
+    const byte = data[this.position];
+    if (byte === 0x2f) return this.parseName();
+    if (byte === 0x28) return this.parseLiteralString();
+    if (byte === 0x3c) {
+      if (data[this.position + 1] === 0x3c) return this.parseDict();
+      return this.parseHexString();
+    }
+    if (byte === 0x5b) {
+      this.position++;
+      const items: PdfValue[] = [];
+      while (!this.done && data[this.position] !== 0x5d) {
+        items.push(this.parseValue());
+      }
+      this.position++;
+      return items;
+    }
+
+    const token = this.readToken();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = Number(token);
+      // 间接引用 `n g R`
+      if (/^\d+$/.test(token)) {
+        const saved = this.position;
+        this.skipWhitespace();
+        const generation = this.readToken();
+        this.skipWhitespace();
+        if (/^\d+$/.test(generation) && this.readToken() === 'R') {
+          return { kind: 'ref', num: number };
+        }
+        this.position = saved;
+      }
+      return number;
+    }
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    if (!token) this.position++;
+    return token;
+  }
+
+  private readToken(): string {
+    const start = this.position;
+    const { data } = this;
+    while (
+      this.position < data.length &&
+      !WHITESPACE.has(data[this.position]) &&
+      !DELIMITERS.has(data[this.position])
+    ) {
+      this.position++;
+    }
+    return Buffer.from(data.subarray(start, this.position)).toString('latin1');
+  }
+
+  private parseName(): PdfName {
+    this.position++;
+    const raw = this.readToken();
+    return {
+      kind: 'name',
+      name: raw.replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) =>
+        String.fromCharCode(Number.parseInt(hex, 16)),
+      ),
+    };
+  }
+
+  private parseDict(): PdfDict {
+    this.position += 2;
+    const entries = new Map<string, PdfValue>();
+    const { data } = this;
+    while (!this.done && !(data[this.position] === 0x3e && data[this.position + 1] === 0x3e)) {
+      const key = this.parseValue();
+      const value = this.parseValue();
+      if (isName(key)) entries.set(key.name, value);
+    }
+    this.position += 2;
+    return { kind: 'dict', entries };
+  }
+
+  private parseHexString(): PdfString {
+    const end = this.data.indexOf(0x3e, this.position);
+    const hex = Buffer.from(this.data.subarray(this.position + 1, end < 0 ? undefined : end))
+      .toString('latin1')
+      .replace(/[^0-9a-fA-F]/g, '');
+    this.position = end < 0 ? this.data.length : end + 1;
+    return { kind: 'string', bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex') };
+  }
+
+  private parseLiteralString(): PdfString {
+    const { data } = this;
+    const bytes: number[] = [];
+    let depth = 1;
+    this.position++;
+    while (this.position < data.length) {
+      const byte = data[this.position++];
+      if (byte === 0x5c) {
+        const next = data[this.position++];
+        const escaped = STRING_ESCAPES[String.fromCharCode(next)];
+        if (escaped !== undefined) {
+          bytes.push(escaped);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (
+            let i = 0;
+            i < 2 && data[this.position] >= 0x30 && data[this.position] <= 0x37;
+            i++
+          ) {
+            octal = octal * 8 + (data[this.position++] - 0x30);
+          }
+          bytes.push(octal & 0xff);
+        } else if (next === 0x0d) {
+          if (data[this.position] === 0x0a) this.position++;
+        } else if (next !== 0x0a) {
+          bytes.push(next);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return { kind: 'string', bytes: Uint8Array.from(bytes) };
+  }
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+function decodeAscii85(data: Buffer): Buffer {
+  const text = data.toString('latin1').replace(/\s+/g, '').replace(/~>.*$/, '');
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const char of text) {
+    if (char === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      const value = group.reduce((sum, digit) => sum * 85 + digit, 0);
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 0) {
+    const padded = group.length;
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((sum, digit) => sum * 85 + digit, 0);
+    out.push(
+      ...[(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].slice(
+        0,
+        padded - 1,
+      ),
+    );
+  }
+  return Buffer.from(out);
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly fontCache = new Map<PdfDict, FontDecoder>();
+  private root: PdfValue | undefined;
+  private decodedBytes = 0;
+
+  constructor(
+    private readonly data: Buffer,
+    private readonly maxDecodedBytes: number,
+  ) {
+    if (data.toString('latin1', 0, 1024).indexOf('%PDF-') < 0) {
+      throw new Error('Not a PDF file');
+    }
+    this.scanObjects();
+    this.expandObjectStreams();
+  }
+
+  private scanObjects(): void {
+    const text = this.data.toString('latin1');
+    const pattern = /(\d+)\s+\d+\s+obj\b|trailer\s*(?=<<)/g;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      const parser = new PdfParser(this.data, match.index + match[0].length);
+      let value: PdfValue;
+      try {
+        value = parser.parseValue();
+      } catch {
+        continue;
+      }
+      if (match[1] === undefined) {
+        if (isDict(value) && value.entries.has('Root')) this.root = value.entries.get('Root');
+        continue;
+      }
+      const object: PdfObject = { value, offset: match.index };
+      parser.skipWhitespace();
+      if (isDict(value) && text.startsWith('stream', parser.position)) {
+        let start = parser.position + 6;
+        if (text[start] === '\r') start++;
+        if (text[start] === '\n') start++;
+        const declared = value.entries.get('Length');
+        const end =
+          typeof declared === 'number' &&
+          text.startsWith('endstream', this.skipTo(start + declared))
+            ? start + declared
+            : text.indexOf('endstream', start);
+        object.stream = this.data.subarray(start, end < 0 ? undefined : end);
+        // 流数据里形如 `n 0 obj` 的字节不是对象定义
+        pattern.lastIndex = end < 0 ? text.length : end;
+        if (isName(value.entries.get('Type'), 'XRef') && value.entries.has('Root')) {
+          this.root = value.entries.get('Root');
+        }
+      }
+      // 增量更新中后出现的定义覆盖先前的定义
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  private skipTo(position: number): number {
+    let cursor = position;
+    while (cursor < this.data.length && WHITESPACE.has(this.data[cursor])) cursor++;
+    return cursor;
+  }
+
+  private expandObjectStreams(): void {
+    for (const object of [...this.objects.values()]) {
+      if (!isDict(object.value) || !isName(object.value.entries.get('Type'), 'ObjStm')) continue;
+      const content = this.decodeStream(object);
+      const count = this.resolve(object.value.entries.get('N'));
+      const first = this.resolve(object.value.entries.get('First'));
+      if (!content || typeof count !== 'number' || typeof first !== 'number') continue;
+      const header = new PdfParser(content);
+      const entries: [number, number][] = [];
+      for (let i = 0; i < count; i++) {
+        const num = header.parseValue();
+        const offset = header.parseValue();
+        if (typeof num === 'number' && typeof offset === 'number') entries.push([num, offset]);
+      }
+      for (const [num, offset] of entries) {
+        // 只覆盖对象流之前的定义，对象流之后的增量更新仍然优先
+        if ((this.objects.get(num)?.offset ?? -1) > object.offset) continue;
+        try {
+          this.objects.set(num, {
+            value: new PdfParser(content, first + offset).parseValue(),
+            offset: object.offset,
+          });
+        } catch {
+          // 跳过损坏的对象
+        }
+      }
+    }
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (isRef(value) && depth < 32) {
+      return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  private resolveDict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  private resolveObject(value: PdfValue | undefined): PdfObject | undefined {
+    return isRef(value) ? this.objects.get(value.num) : undefined;
+  }
+
+  decodeStream(object: PdfObject | undefined): Buffer | undefined {
+    if (!object?.stream || !isDict(object.value)) return undefined;
+    const filter = this.resolve(object.value.entries.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((item) =>
+      isName(this.resolve(item)) ? (this.resolve(item) as PdfName).name : '',
+    );
+    let data: Buffer = object.stream;
+    for (const name of filters) {
+      if (name === 'FlateDecode' || name === 'Fl') {
+        try {
+          data = inflateSync(data, {
+            finishFlush: 2,
+            maxOutputLength: Math.max(1, this.maxDecodedBytes - this.decodedBytes),
+          });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw this.decodeLimitError();
+          }
+          return undefined;
+        }
+      } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+        const hex = data
+          .toString('latin1')
+          .replace(/>.*$/s, '')
+          .replace(/[^0-9a-fA-F]/g, '');
+        data = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex');
+      } else if (name === 'ASCII85Decode' || name === 'A85') {
+        data = decodeAscii85(data);
+      } else {
+        return undefined;
+      }
+    }
+    // 同一个流（如重复引用的表单）每次解码都计入预算
+    this.decodedBytes += data.length;
+    if (this.decodedBytes > this.maxDecodedBytes) {
+      throw this.decodeLimitError();
+    }
+    return data;
+  }
+
+  private decodeLimitError(): Error {
+    const limit = Math.round(this.maxDecodedBytes / 1024 / 1024);
+    return new Error(`PDF streams decode to more than ${limit} MB; the file cannot be read`);
+  }
+
+  get encrypted(): boolean {
+    return /\/Encrypt\s+(\d+\s+\d+\s+R|<<)/.test(this.data.toString('latin1'));
+  }
+
+  /** 按文档顺序返回页面字典及其继承的 Resources */
+  getPages(): Array<{ page: PdfDict; resources?: PdfDict }> {
+    // 找不到 trailer 时退回到最后一个 Catalog
+    const catalog =
+      this.resolveDict(this.root) ??
+      [...this.objects.values()]
+        .map((object) => object.value)
+        .filter(
+          (value): value is PdfDict =>
+            isDict(value) && isName(value.entries.get('Type'), 'Catalog'),
+        )
+        .pop();
+    const pages: Array<{ page: PdfDict; resources?: PdfDict }> = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, resources: PdfDict | undefined) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const ownResources = this.resolveDict(node.entries.get('Resources')) ?? resources;
+      const kids = this.resolve(node.entries.get('Kids'));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(this.resolveDict(kid), ownResources);
+      } else if (isName(node.entries.get('Type'), 'Page') || node.entries.has('Contents')) {
+        pages.push({ page: node, resources: ownResources });
+      }
+    };
+    walk(this.resolveDict(catalog?.entries.get('Pages')), undefined);
+    return pages;
+  }
+
+  pageContent(page: PdfDict): Buffer {
+    const contents = page.entries.get('Contents');
+    const resolved = this.resolve(contents);
+    const refs = Array.isArray(resolved) ? resolved : [contents];
+    const streams = refs.flatMap((ref) => {
+      const decoded = this.decodeStream(this.resolveObject(ref));
+      return decoded ? [decoded, Buffer.from('\n')] : [];
+    });
+    return Buffer.concat(streams);
+  }
+
+  formXObject(
+    resources: PdfDict | undefined,
+    name: string,
+  ): { content: Buffer; resources?: PdfDict } | undefined {
+    const xobjects = this.resolveDict(resources?.entries.get('XObject'));
+    const object = this.resolveObject(xobjects?.entries.get(name));
+    if (!object || !isDict(object.value) || !isName(object.value.entries.get('Subtype'), 'Form')) {
+      return undefined;
+    }
+    const content = this.decodeStream(object);
+    if (!content) return undefined;
+    return {
+      content,
+      resources: this.resolveDict(object.value.entries.get('Resources')) ?? resources,
+    };
+  }
+
+  fontDecoder(resources: PdfDict | undefined, name: string): FontDecoder {
+    const fonts = this.resolveDict(resources?.entries.get('Font'));
+    const font = this.resolveDict(fonts?.entries.get(name));
+    if (!font) return createSimpleDecoder(new Map());
+    const cached = this.fontCache.get(font);
+    if (cached) return cached;
+
+    const toUnicode = this.decodeStream(this.resolveObject(font.entries.get('ToUnicode')));
+    const isComposite = isName(font.entries.get('Subtype'), 'Type0');
+    // 没有 ToUnicode 的复合字体只有字形编号，无法还原文字
+    const fallback = isComposite
+      ? { codeLength: 2, decode: () => '' }
+      : createSimpleDecoder(this.encodingDifferences(font));
+    const decoder = toUnicode
+      ? createCMapDecoder(toUnicode.toString('latin1'), fallback)
+      : fallback;
+    this.fontCache.set(font, decoder);
+    return decoder;
+  }
+
+  private encodingDifferences(font: PdfDict): Map<number, string> {
+    const differences = new Map<number, string>();
+    const encoding = this.resolveDict(font.entries.get('Encoding'));
+    const list = this.resolve(encoding?.entries.get('Differences'));
+    if (!Array.isArray(list)) return differences;
+    let code = 0;
+    for (const item of list) {
+      const resolved = this.resolve(item);
+      if (typeof resolved === 'number') {
+        code = resolved;
+      } else if (isName(resolved)) {
+        const glyph = glyphToText(resolved.name);
+        if (glyph) differences.set(code, glyph);
+        code++;
+      }
+    }
+    return differences;
+  }
+}
+
+function glyphToText(name: string): string {
+  if (name.length === 1) return name;
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  const unicode = name.match(/^uni([0-9A-Fa-f]{4,6})$/) ?? name.match(/^u([0-9A-Fa-f]{4,6})$/);
+  return unicode ? String.fromCodePoint(Number.parseInt(unicode[1], 16)) : '';
+}
+
+function createSimpleDecoder(differences: Map<number, string>): FontDecoder {
+  return {
+    codeLength: 1,
+    decode: (bytes) =>
+      Array.from(
+        bytes,
+        (byte) =>
+          differences.get(byte) ??
+          (byte >= 0x80 && byte < 0xa0 ? WIN_ANSI_HIGH[byte - 0x80] : String.fromCharCode(byte)),
+      ).join(''),
+  };
+}
+
+function hexToNumber(hex: string): number {
+  return Number.parseInt(hex, 16);
+}
+
+function utf16HexToString(hex: string): string {
+  return Buffer.from(hex.length % 4 ? hex.padStart(Math.ceil(hex.length / 4) * 4, '0') : hex, 'hex')
+    .swap16()
+    .toString('utf16le');
+}
+
+/** 解析 ToUnicode CMap；未映射的编码交给字体自身的编码解码 */
+function createCMapDecoder(cmap: string, fallback: FontDecoder): FontDecoder {
+  const map = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  const codeLength = codespace ? codespace[1].length / 2 : fallback.codeLength;
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(hexToNumber(entry[1]), utf16HexToString(entry[2]));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g,
+    )) {
+      const start = hexToNumber(entry[1]);
+      const end = hexToNumber(entry[2]);
+      if (end - start > 0xffff) continue;
+      if (entry[3].startsWith('[')) {
+        const targets = [...entry[3].matchAll(/<([0-9a-fA-F]*)>/g)].map((target) => target[1]);
+        for (const [index, target] of targets.entries()) {
+          map.set(start + index, utf16HexToString(target));
+        }
+      } else {
+        const base = entry[3].slice(1, -1);
+        const prefix = base.slice(0, -4);
+        const last = hexToNumber(base.slice(-4) || '0');
+        for (let code = start; code <= end; code++) {
+          map.set(
+            code,
+            utf16HexToString(`${prefix}${(last + code - start).toString(16).padStart(4, '0')}`),
+          );
+        }
+      }
+    }
+  }
+
+  return {
+    codeLength,
+    decode: (bytes) => {
+      let text = '';
+      for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+        let code = 0;
+        for (let j = 0; j < codeLength; j++) code = code * 256 + bytes[i + j];
+        text += map.get(code) ?? fallback.decode(bytes.subarray(i, i + codeLength));
+      }
+      return text;
+    },
+  };
+}
+
+// ============================================================================
+// Content stream text
+// ============================================================================
+
+function extractText(
+  document: PdfDocument,
+  content: Buffer,
+  resources: PdfDict | undefined,
+  depth = 0,
+): string {
+  const parser = new PdfParser(content);
+  const operands: PdfValue[] = [];
+  let font = document.fontDecoder(undefined, '');
+  let text = '';
+  let lineY: number | undefined;
+
+  const newLine = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+  const space = () => {
+    if (text && !/\s$/.test(text)) text += ' ';
+  };
+  const show = (value: PdfValue | undefined) => {
+    if (isPdfString(value)) text += font.decode(value.bytes);
+  };
+
+  while (!parser.done) {
+    let value: PdfValue;
+    try {
+      value = parser.parseValue();
+    } catch {
+      break;
+    }
+    if (typeof value !== 'string') {
+      operands.push(value);
+      continue;
+    }
+
+    switch (value) {
+      case 'BI': {
+        // 跳过内联图片数据
+        const end = content.indexOf('EI', parser.position);
+        parser.position = end < 0 ? content.length : end + 2;
+        break;
+      }
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        if (isName(name)) font = document.fontDecoder(resources, name.name);
+        break;
+      }
+      case 'Tj':
+        show(operands[operands.length - 1]);
+        break;
+      case "'":
+      case '"':
+        newLine();
+        show(operands[operands.length - 1]);
+        break;
+      case 'TJ': {
+        const items = operands[operands.length - 1];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === 'number') {
+              if (item < -200) space();
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const tx = operands[operands.length - 2];
+        const ty = operands[operands.length - 1];
+        if (typeof ty === 'number' && Math.abs(ty) > 0.01) newLine();
+        else if (typeof tx === 'number' && tx > 0) space();
+        break;
+      }
+      case 'Tm': {
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number') {
+          if (lineY !== undefined && Math.abs(y - lineY) > 0.01) newLine();
+          else space();
+          lineY = y;
+        }
+        break;
+      }
+      case 'T*':
+        newLine();
+        break;
+      case 'ET':
+        space();
+        break;
+      case 'Do': {
+        const name = operands[operands.length - 1];
+        const form =
+          isName(name) && depth < MAX_FORM_DEPTH
+            ? document.formXObject(resources, name.name)
+            : undefined;
+        if (form) {
+          newLine();
+          text += extractText(document, form.content, form.resources, depth + 1);
+          newLine();
+        }
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+  return text;
+}
+
+function normalizePageText(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 解析 PDF 的页面树；内容流在 `text()` 时才解码，只读部分页面时不会解码其余页面
+ */
+export function openPdf(data: Buffer, options: PdfReadOptions = {}): PdfPages {
+  const document = new PdfDocument(data, options.maxDecodedBytes ?? PDF_MAX_DECODED_BYTES);
+  if (document.encrypted) {
+    throw new Error('Encrypted PDF files are not supported');
+  }
+  const pages = document.getPages();
+  return {
+    count: pages.length,
+    text(page) {
+      const entry = pages[page - 1];
+      if (!entry) {
+        throw new RangeError(`Page ${page} is outside the document`);
+      }
+      return normalizePageText(
+        extractText(document, document.pageContent(entry.page), entry.resources),
+      );
+    },
+  };
+}
+
+/**
+ * 提取 PDF 每一页的文本，返回数组下标对应页码 - 1
+ */
+export function extractPdfPages(data: Buffer, options?: PdfReadOptions): string[] {
+  const pdf = openPdf(data, options);
+  return Array.from({ length: pdf.count }, (_, index) => pdf.text(index + 1));
+}
+
+/**
+ * 解析 `"1-5"`、`"3"`、`"2,4-6"`、`"10-"` 形式的页码范围，返回升序去重的页码
+ */
+export function parsePageRange(range: string, totalPages: number): number[] {
+  const pages = new Set<number>();
+  for (const part of range.split(',')) {
+    const match = part.trim().match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`Invalid page range "${range}"`);
+    }
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : totalPages) : start;
+    if (start < 1 || end < start) {
+      throw new Error(`Invalid page range "${range}"`);
+    }
+    for (let page = start; page <= Math.min(end, totalPages); page++) {
+      pages.add(page);
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+}
@@ -7,11 +7,15 @@ import { createTool } from '../../core/createTool.js';
 import type {
     ExecutionContext,
     ReadMetadata,
+    ToolResult,
 } from '../../types/index.js';
-import { ToolErrorType, ToolKind } from '../../types/index.js';
+import { multimodalContent, ToolErrorType, ToolKind } from '../../types/index.js';
 import { lazySchema } from '../../validation/lazySchema.js';
 import { ToolSchemas } from '../../validation/zodSchemas.js';
 import { FileAccessTracker } from './FileAccessTracker.js';
+import { getImageMediaType, prepareImage } from './imageContent.js';
+import { renderNotebook } from './notebookContent.js';
+import { openPdf, PDF_MAX_PAGES_PER_READ, parsePageRange } from './pdfText.js';
 
 /**
  * ReadTool - File read tool
@@ -37,6 +41,12 @@ export const readTool = createTool({
       description: 'Number of lines to read (text files only)',
     }).optional(),
     encoding: ToolSchemas.encoding(),
+    pages: z
+      .string()
+      .optional()
+      .describe(
+        `Page range for PDF files, e.g. "1-5", "3" or "2,4-6" (1-based, at most ${PDF_MAX_PAGES_PER_READ} pages per read)`,
+      ),
   })),
 
   validateInput: (_params, context) => {
@@ -61,7 +71,7 @@ export const readTool = createTool({
       'Any lines longer than 2000 characters will be truncated',
       'Results are returned using cat -n format, with line numbers starting at 1',
       'This tool allows reading images (eg PNG, JPG, etc). When reading an image file the contents are presented visually as this is a multimodal LLM.',
-      'This tool can read PDF files (.pdf). PDFs are processed page by page, extracting both text and visual content for analysis.',
+      `This tool can read PDF files (.pdf). PDFs are processed page by page and the text of each page is returned. For PDFs over ${PDF_MAX_PAGES_PER_READ} pages, use the pages parameter to read specific ranges.`,
       'This tool can read Jupyter notebooks (.ipynb files) and returns all cells with their outputs, combining code, text, and visualizations.',
       'This tool can only read files, not directories. To read a directory, use an ls command via the Bash tool.',
       'You can call multiple tools in a single response. It is always better to speculatively read multiple potentially useful files in parallel.',
@@ -81,6 +91,10 @@ export const readTool = createTool({
         description: 'Read 100 lines starting at line 50 (large file)',
         params: { file_path: '/path/to/large-file.log', offset: 50, limit: 100 },
       },
+      {
+        description: 'Read pages 3 to 5 of a PDF',
+        params: { file_path: '/path/to/report.pdf', pages: '3-5' },
+      },
     ],
     important: [
       'file_path must be absolute',
@@ -92,7 +106,7 @@ export const readTool = createTool({
 
   // 执行函数
   async *execute(params, context: ExecutionContext) {
-    const { file_path, offset, limit, encoding = 'utf8' } = params;
+    const { file_path, offset, limit, encoding = 'utf8', pages } = params;
     const { sessionId } = context;
     const signal = context.signal ?? new AbortController().signal;
 
@@ -103,7 +117,7 @@ export const readTool = createTool({
       };
 
       // 获取文件系统服务
-      const fsService = getFileSystemService();
+      const fsService = getFileSystemService(context);
 
       // 检查文件是否存在（统一使用 FileSystemService）
       try {
@@ -130,7 +144,7 @@ export const readTool = createTool({
       // 记录文件访问（用于 Read-Before-Write 验证）
       if (sessionId) {
         const tracker = FileAccessTracker.getInstance();
-        await tracker.recordFileRead(file_path, sessionId);
+        await tracker.recordFileRead(file_path, sessionId, fsService);
       }
 
       // 获取文件统计信息（统一使用 FileSystemService）
@@ -162,6 +176,24 @@ export const readTool = createTool({
         encoding: encoding,
       };
 
+      // 图片、PDF、Notebook 返回模型可直接理解的内容
+      const imageMediaType = getImageMediaType(ext);
+      if (encoding === 'utf8' && imageMediaType) {
+        const buffer = await fsService.readBinaryFile(file_path);
+        return readImage(buffer, imageMediaType, metadata);
+      }
+      if (encoding === 'utf8' && ext === '.pdf') {
+        yield {
+          kind: 'message',
+          content: { summary: '提取 PDF 文本...' },
+        };
+        const buffer = await fsService.readBinaryFile(file_path);
+        return readPdf(buffer, pages, metadata);
+      }
+      if (encoding === 'utf8' && ext === '.ipynb') {
+        return readNotebook(await fsService.readTextFile(file_path), metadata);
+      }
+
       // 处理二进制文件
       if (isBinaryFile && encoding === 'utf8') {
         yield {
@@ -270,6 +302,126 @@ export const readTool = createTool({
   },
 });
 
+/**
+ * 图片作为 image content part 返回，超出尺寸或体积预算时先缩小
+ */
+function readImage(
+  buffer: Buffer,
+  mediaType: string,
+  metadata: ReadMetadata,
+): ToolResult<never, ReadMetadata> {
+  const fileName = basename(metadata.file_path ?? '');
+  const image = prepareImage(buffer, mediaType);
+  const downscaled = image.originalWidth !== undefined;
+  const description = downscaled
+    ? `${image.width}x${image.height}, downscaled from ${image.originalWidth}x${image.originalHeight}`
+    : `${image.width}x${image.height}`;
+
+  return {
+    status: 'success',
+    model: multimodalContent([
+      { type: 'text', text: `Image ${fileName} (${description})` },
+      {
+        type: 'image_url',
+        image_url: { url: `data:${image.mediaType};base64,${image.data.toString('base64')}` },
+      },
+    ]),
+    metadata: {
+      ...metadata,
+      encoding: 'base64',
+      is_binary: true,
+      media_type: image.mediaType,
+      image_width: image.width,
+      image_height: image.height,
+      original_width: image.originalWidth,
+      original_height: image.originalHeight,
+      summary: `读取图片 ${fileName} (${description})`,
+    },
+  };
+}
+
+/**
+ * PDF 按页提取文本，未指定 pages 时最多读取前 PDF_MAX_PAGES_PER_READ 页；
+ * 只解码选中页面的内容流
+ */
+function readPdf(
+  buffer: Buffer,
+  pages: string | undefined,
+  metadata: ReadMetadata,
+): ToolResult<never, ReadMetadata> {
+  const fileName = basename(metadata.file_path ?? '');
+  const pdf = openPdf(buffer);
+  const totalPages = pdf.count;
+  const selected = pages
+    ? parsePageRange(pages, totalPages)
+    : Array.from({ length: Math.min(totalPages, PDF_MAX_PAGES_PER_READ) }, (_, index) => index + 1);
+
+  const failure = (message: string): ToolResult<never, ReadMetadata> => ({
+    status: 'error',
+    model: message,
+    error: { type: ToolErrorType.VALIDATION_ERROR, message },
+  });
+  if (selected.length > PDF_MAX_PAGES_PER_READ) {
+    return failure(
+      `Page range "${pages}" covers ${selected.length} pages; read at most ${PDF_MAX_PAGES_PER_READ} pages at a time.`,
+    );
+  }
+  if (selected.length === 0) {
+    return failure(
+      totalPages === 0
+        ? `No pages found in ${fileName}.`
+        : `Page range "${pages}" is outside ${fileName}, which has ${totalPages} pages.`,
+    );
+  }
+
+  let content = selected
+    .map(
+      (page) =>
+        `<page number="${page}">\n${pdf.text(page) || '(no extractable text on this page)'}\n</page>`,
+    )
+    .join('\n\n');
+  if (!pages && totalPages > selected.length) {
+    content += `\n\n(Showing pages 1-${selected.length} of ${totalPages}. Use the pages parameter to read more.)`;
+  }
+
+  return {
+    status: 'success',
+    model: content,
+    metadata: {
+      ...metadata,
+      is_binary: true,
+      media_type: 'application/pdf',
+      total_pages: totalPages,
+      pages_read: selected,
+      summary: `读取 ${fileName} 的 ${selected.length}/${totalPages} 页`,
+    },
+  };
+}
+
+/**
+ * Notebook 渲染为单元格与输出；包含图片输出时返回多模态内容
+ */
+function readNotebook(source: string, metadata: ReadMetadata): ToolResult<never, ReadMetadata> {
+  const fileName = basename(metadata.file_path ?? '');
+  const notebook = renderNotebook(source);
+  const [firstPart] = notebook.parts;
+
+  return {
+    status: 'success',
+    model:
+      notebook.imageCount > 0
+        ? multimodalContent(notebook.parts)
+        : firstPart?.type === 'text'
+          ? firstPart.text
+          : '(empty notebook)',
+    metadata: {
+      ...metadata,
+      cell_count: notebook.cellCount,
+      summary: `读取 ${fileName} 的 ${notebook.cellCount} 个单元格`,
+    },
+  };
+}
+
 /**
  * 检查是否是文本文件
  */
@@ -1,4 +1,3 @@
-import { promises as fs } from 'node:fs';
 import { basename, dirname, extname } from 'node:path';
 import { z } from 'zod';
 import { hasFilesystemCapability } from '../../../runtime/index.js';
@@ -89,7 +88,7 @@ export const writeTool = createTool({
       };
 
       // 获取文件系统服务
-      const fsService = getFileSystemService();
+      const fsService = getFileSystemService(context);
 
       // 检查并创建目录（统一使用 FileSystemService）
       if (create_directories) {
@@ -124,13 +123,15 @@ export const writeTool = createTool({
         // 检查失败，假设文件不存在
       }
 
-      // Read-before-write、外部修改检查、快照创建（仅对已存在文件）
+      // Read-before-write、外部修改检查（仅对已存在文件）、记录检查点
       const guard = await runWriteGuard({
         filePath: file_path,
         sessionId,
-        messageId,
+        toolCallId: context.toolCallId,
         operation: 'write',
         fileExists,
+        fileSystem: fsService,
+        checkpoints: context.bladeConfig?.fileCheckpoints,
       });
       if (guard.blocked) {
         return guard.blocked;
@@ -157,11 +158,11 @@ export const writeTool = createTool({
           writeBuffer = Buffer.from(content, 'utf8');
         }
 
-        await fs.writeFile(file_path, writeBuffer);
+        await fsService.writeBinaryFile(file_path, writeBuffer);
       }
 
       // 更新文件访问记录（记录写入操作）
-      await recordWriteComplete(file_path, sessionId, 'write');
+      await recordWriteComplete(file_path, sessionId, 'write', fsService);
 
       if (typeof signal.throwIfAborted === 'function') {
         signal.throwIfAborted();
@@ -190,6 +191,7 @@ export const writeTool = createTool({
         file_size: stats?.size,
         encoding,
         created_directories: create_directories,
+        created_file: !fileExists,
         snapshot_created: snapshotCreated, // 是否创建了快照
         session_id: sessionId,
         message_id: messageId,
@@ -4,34 +4,40 @@
  * 统一处理：
  * 1. Read-before-write 检查（必须先 Read 才能写）
  * 2. 外部修改检查（自上次 Read 后文件被外部修改则拒绝）
- * 3. 快照创建（用于撤销/对比，失败不阻断写入）
+ * 3. 记录会话检查点（用于 Session.rewind，失败不阻断写入）
  * 4. 写入后记录文件访问
  */
 
-import type { MessageId, SessionId } from '../../../types/branded.js';
+import type { FileSystemService } from '../../../services/FileSystemService.js';
+import type { SessionId, ToolUseId } from '../../../types/branded.js';
 import { ToolErrorType } from '../../types/ToolResult.js';
 import type { ToolResult } from '../../types/ToolResult.js';
 import { FileAccessTracker } from './FileAccessTracker.js';
-import { SnapshotManager } from './SnapshotManager.js';
+import type { SnapshotManager } from './SnapshotManager.js';
 
 export type WriteOperation = 'edit' | 'write';
 
 export interface WriteGuardParams {
   filePath: string;
   sessionId?: SessionId;
-  messageId?: MessageId;
+  /** 当前工具调用 ID，检查点据此支持 rewind 到请求中途的消息 */
+  toolCallId?: ToolUseId;
   operation: WriteOperation;
   /**
    * 目标文件是否已存在。write 工具新建文件时为 false，此时跳过 read-before-write
    * 与外部修改检查（仅对已存在文件强制）。edit 工具始终为 true。
    */
   fileExists: boolean;
+  /** 工具所用的文件系统服务，用于外部修改检查 */
+  fileSystem?: FileSystemService;
+  /** Session 的文件检查点，写入前记录原内容 */
+  checkpoints?: SnapshotManager;
 }
 
 export interface WriteGuardResult {
   /** 非 null 表示校验未通过，应直接返回该 ToolResult */
   blocked: ToolResult | null;
-  /** 是否成功创建了快照 */
+  /** 是否成功记录了检查点 */
   snapshotCreated: boolean;
 }
 
@@ -54,7 +60,8 @@ const EXTERNAL_MOD_DETAIL: Record<WriteOperation, string> = {
  * 执行写入前校验。返回 blocked 结果（应直接返回给调用方）或 snapshotCreated 状态。
  */
 export async function runWriteGuard(params: WriteGuardParams): Promise<WriteGuardResult> {
-  const { filePath, sessionId, messageId, operation, fileExists } = params;
+  const { filePath, sessionId, toolCallId, operation, fileExists, fileSystem, checkpoints } =
+    params;
 
   if (fileExists && sessionId) {
     const tracker = FileAccessTracker.getInstance();
@@ -74,7 +81,7 @@ export async function runWriteGuard(params: WriteGuardParams): Promise<WriteGuar
       };
     }
 
-    const externalModCheck = await tracker.checkExternalModification(filePath);
+    const externalModCheck = await tracker.checkExternalModification(filePath, fileSystem);
     if (externalModCheck.isExternal) {
       return {
         blocked: {
@@ -91,14 +98,12 @@ export async function runWriteGuard(params: WriteGuardParams): Promise<WriteGuar
     }
   }
 
-  if (fileExists && sessionId && messageId) {
+  if (checkpoints) {
     try {
-      const snapshotManager = new SnapshotManager({ sessionId });
-      await snapshotManager.initialize();
-      await snapshotManager.createSnapshot(filePath, messageId);
+      await checkpoints.capture(filePath, { toolCallId, fileSystem });
       return { blocked: null, snapshotCreated: true };
     } catch (error) {
-      console.warn(`[${operation === 'edit' ? 'EditTool' : 'WriteTool'}] 创建快照失败:`, error);
+      console.warn(`[${operation === 'edit' ? 'EditTool' : 'WriteTool'}] 记录检查点失败:`, error);
     }
   }
 
@@ -112,8 +117,9 @@ export async function recordWriteComplete(
   filePath: string,
   sessionId: SessionId | undefined,
   operation: WriteOperation,
+  fileSystem?: FileSystemService,
 ): Promise<void> {
   if (!sessionId) return;
   const tracker = FileAccessTracker.getInstance();
-  await tracker.recordFileEdit(filePath, sessionId, operation);
+  await tracker.recordFileEdit(filePath, sessionId, operation, fileSystem);
 }
@@ -0,0 +1,158 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createContextSnapshot } from '../../../../runtime/index.js';
+import { InMemoryFileSystemService } from '../../../../services/InMemoryFileSystemService.js';
+import { SessionId } from '../../../../types/branded.js';
+import { getGitInfo, runGit } from '../../../../utils/git.js';
+import { collectToolExecution, type ExecutionContext } from '../../../types/index.js';
+import {
+  gitAddTool,
+  gitBlameTool,
+  gitCommitTool,
+  gitDiffTool,
+  gitLogTool,
+  gitShowTool,
+  gitStatusTool,
+} from '../index.js';
+
+function createContext(
+  dir: string,
+  bladeConfig: Partial<NonNullable<ExecutionContext['bladeConfig']>> = {},
+): ExecutionContext {
+  const sessionId = SessionId('git-session');
+  return {
+    sessionId,
+    bladeConfig: bladeConfig as ExecutionContext['bladeConfig'],
+    contextSnapshot: createContextSnapshot(sessionId, 'turn-1', {
+      capabilities: { filesystem: { roots: [dir], cwd: dir } },
+    }),
+  };
+}
+
+describe('git tools', () => {
+  let dir: string;
+  let context: ExecutionContext;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'blade-git-'));
+    context = createContext(dir);
+    await runGit(['init', '--initial-branch=main'], { cwd: dir });
+    await runGit(['config', 'user.name', 'Blade Test'], { cwd: dir });
+    await runGit(['config', 'user.email', 'blade@example.com'], { cwd: dir });
+    await runGit(['config', 'commit.gpgsign', 'false'], { cwd: dir });
+    await writeFile(join(dir, 'a.txt'), 'one\ntwo\n');
+    await runGit(['add', 'a.txt'], { cwd: dir });
+    await runGit(['commit', '-m', 'initial commit'], { cwd: dir });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reports status and splits staged from unstaged diffs', async () => {
+    await writeFile(join(dir, 'a.txt'), 'one\nTWO\n');
+    await runGit(['add', 'a.txt'], { cwd: dir });
+    await writeFile(join(dir, 'a.txt'), 'one\nTWO\nthree\n');
+    await writeFile(join(dir, 'new.txt'), 'new\n');
+
+    const status = await collectToolExecution(gitStatusTool.execute({}, context));
+    expect(status.model).toMatchObject({
+      branch: 'main',
+      staged: [{ path: 'a.txt', status: 'modified' }],
+      unstaged: [{ path: 'a.txt', status: 'modified' }],
+      untracked: ['new.txt'],
+      conflicted: [],
+    });
+
+    const diff = await collectToolExecution(
+      gitDiffTool.execute({ scope: 'all', context_lines: 3 }, context),
+    );
+    expect(diff.status).toBe('success');
+    expect(diff.model).toMatchObject({
+      staged: {
+        files: [{ path: 'a.txt', status: 'modified', additions: 1, deletions: 1, binary: false }],
+        truncated: false,
+      },
+      unstaged: {
+        files: [{ path: 'a.txt', status: 'modified', additions: 1, deletions: 0 }],
+      },
+    });
+    const { staged, unstaged } = diff.model as {
+      staged: { patch: string };
+      unstaged: { patch: string };
+    };
+    expect(staged.patch).toContain('+TWO');
+    expect(unstaged.patch).toContain('+three');
+    expect(unstaged.patch).not.toContain('+TWO');
+
+    expect(await getGitInfo(dir)).toMatchObject({
+      branch: 'main',
+      status: '1 staged, 1 unstaged, 1 untracked',
+    });
+  });
+
+  it('reads history, blame and single commits', async () => {
+    await writeFile(join(dir, 'a.txt'), 'one\nchanged\n');
+    await runGit(['commit', '-am', 'change line two'], { cwd: dir });
+
+    const log = await collectToolExecution(gitLogTool.execute({ max_count: 20 }, context));
+    expect(log.model).toMatchObject({
+      commits: [
+        { subject: 'change line two', author: 'Blade Test', email: 'blade@example.com' },
+        { subject: 'initial commit' },
+      ],
+    });
+
+    const blame = await collectToolExecution(
+      gitBlameTool.execute({ file_path: join(dir, 'a.txt') }, context),
+    );
+    const blameModel = blame.model as {
+      commits: Record<string, { summary: string }>;
+      lines: Array<{ line: number; commit: string; content: string }>;
+    };
+    expect(blameModel.lines.map((line) => [line.line, line.content])).toEqual([
+      [1, 'one'],
+      [2, 'changed'],
+    ]);
+    expect(blameModel.commits[blameModel.lines[0].commit].summary).toBe('initial commit');
+    expect(blameModel.commits[blameModel.lines[1].commit].summary).toBe('change line two');
+
+    const show = await collectToolExecution(
+      gitShowTool.execute({ ref: 'HEAD~1', include_patch: true }, context),
+    );
+    expect(show.model).toMatchObject({
+      subject: 'initial commit',
+      message: 'initial commit',
+      parents: [],
+      files: [{ path: 'a.txt', status: 'added', additions: 2, deletions: 0 }],
+    });
+    expect((show.model as { patch: string }).patch).toContain('+two');
+  });
+
+  it('stages and commits changes', async () => {
+    await writeFile(join(dir, 'b.txt'), 'b\n');
+
+    const add = await collectToolExecution(gitAddTool.execute({ paths: ['b.txt'] }, context));
+    expect(add.model).toEqual({ staged: [{ path: 'b.txt', status: 'added' }] });
+
+    const commit = await collectToolExecution(
+      gitCommitTool.execute({ message: 'add b', all: false }, context),
+    );
+    expect(commit.status).toBe('success');
+    expect(commit.model).toMatchObject({ commit: { subject: 'add b' } });
+    expect((await runGit(['status', '--porcelain'], { cwd: dir })).trim()).toBe('');
+  });
+
+  it('rejects revisions that look like options and non-local file systems', async () => {
+    expect(() => gitShowTool.build({ ref: '--output=/tmp/x', include_patch: true })).toThrow();
+
+    expect(
+      gitStatusTool.validateInput?.(
+        {},
+        createContext(dir, { fileSystem: new InMemoryFileSystemService() }),
+      ),
+    ).toMatchObject({ message: 'Git tools require the local file system' });
+  });
+});
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { getGitStatus, runGit } from '../../../utils/git.js';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import {
+  gitErrorResult,
+  resolveGitDirectory,
+  toRepositoryPath,
+  validateGitContext,
+} from './repository.js';
+
+export const gitAddTool = createTool({
+  name: 'GitAdd',
+  displayName: 'Git 暂存',
+  kind: ToolKind.Write,
+  sideEffect: 'idempotent',
+  interruptBehavior: 'block',
+
+  schema: lazySchema(() =>
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe('Directory inside the repository (optional, defaults to cwd)'),
+      paths: z
+        .array(z.string().min(1))
+        .min(1)
+        .describe('Files or directories to stage, including deletions'),
+    }),
+  ),
+
+  validateInput: ({ path }, context) => validateGitContext(path, context),
+
+  description: {
+    short: 'Stage files for the next git commit',
+    long: 'Runs `git add` for the given paths (new, modified and deleted files) and returns the resulting staged changes.',
+    usageNotes: [
+      'Only stage the files that belong in the next commit; review them with GitDiff first',
+    ],
+  },
+
+  async *execute(params, context: ExecutionContext) {
+    const cwd = resolveGitDirectory(params.path, context);
+    const paths = params.paths.map((item) => toRepositoryPath(item, context));
+
+    try {
+      await runGit(['add', '--all', '--', ...paths], { cwd, signal: context.signal });
+      const { staged } = await getGitStatus(cwd, context.signal);
+      return {
+        status: 'success',
+        model: toJsonValue({ staged }),
+        metadata: { summary: `${staged.length} staged file(s)` },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'add');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'add', 'stage', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.paths.join(' '),
+    abstractRule: '*',
+  }),
+});
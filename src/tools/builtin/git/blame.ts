@@ -0,0 +1,90 @@
+import { dirname } from 'node:path';
+import { z } from 'zod';
+import { runGit } from '../../../utils/git.js';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import { ToolSchemas } from '../../validation/zodSchemas.js';
+import {
+  gitErrorResult,
+  gitRefSchema,
+  parseBlame,
+  toRepositoryPath,
+  validateGitContext,
+} from './repository.js';
+
+export const gitBlameTool = createTool({
+  name: 'GitBlame',
+  displayName: 'Git 逐行追溯',
+  kind: ToolKind.ReadOnly,
+  sideEffect: 'pure',
+  interruptBehavior: 'cancel',
+
+  schema: lazySchema(() =>
+    z.object({
+      file_path: ToolSchemas.filePath({ description: 'Absolute path of the file to blame' }),
+      start_line: z.number().int().min(1).optional().describe('First line to blame (1-based)'),
+      end_line: z.number().int().min(1).optional().describe('Last line to blame (inclusive)'),
+      ref: gitRefSchema(
+        'Blame the file as of this commit (defaults to the working tree)',
+      ).optional(),
+    }),
+  ),
+
+  validateInput: ({ file_path, start_line, end_line }, context) => {
+    if (start_line && end_line && end_line < start_line) {
+      return {
+        message: 'end_line must not be less than start_line',
+        model: 'end_line must be greater than or equal to start_line.',
+      };
+    }
+    return validateGitContext(dirname(file_path), context);
+  },
+
+  description: {
+    short: 'Show which commit last changed each line of a file',
+    long: 'Returns the commits (author, ISO date, summary) keyed by hash and, for every line, its line number, commit hash and content. Lines not committed yet use the all-zero hash.',
+    usageNotes: [
+      'Prefer this tool over running `git blame` through Bash',
+      'Pass start_line and end_line to blame part of a large file',
+    ],
+  },
+
+  // biome-ignore lint/correctness/useYield: terminal-only tool execution
+  async *execute(params, context: ExecutionContext) {
+    const { start_line, end_line, ref } = params;
+    const filePath = toRepositoryPath(params.file_path, context);
+    const args = ['blame', '--porcelain'];
+    if (start_line || end_line) {
+      args.push(`-L${start_line ?? 1},${end_line ?? ''}`);
+    }
+    if (ref) args.push(ref);
+    args.push('--', filePath);
+
+    try {
+      const blame = parseBlame(
+        await runGit(args, { cwd: dirname(filePath), signal: context.signal }),
+      );
+      return {
+        status: 'success',
+        model: toJsonValue(blame),
+        metadata: {
+          summary: `${blame.lines.length} line(s) from ${Object.keys(blame.commits).length} commit(s)`,
+        },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'blame');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'blame', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.file_path,
+    abstractRule: '*',
+  }),
+});
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { runGit } from '../../../utils/git.js';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import {
+  COMMIT_LOG_FORMAT,
+  gitErrorResult,
+  parseCommitLog,
+  resolveGitDirectory,
+  validateGitContext,
+} from './repository.js';
+
+export const gitCommitTool = createTool({
+  name: 'GitCommit',
+  displayName: 'Git 提交',
+  kind: ToolKind.Write,
+  sideEffect: 'non_idempotent',
+  interruptBehavior: 'block',
+
+  schema: lazySchema(() =>
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe('Directory inside the repository (optional, defaults to cwd)'),
+      message: z.string().min(1).describe('Commit message'),
+      all: z
+        .boolean()
+        .default(false)
+        .describe(
+          'Also commit modified and deleted tracked files that are not staged (git commit -a)',
+        ),
+    }),
+  ),
+
+  validateInput: ({ path, message }, context) => {
+    if (!message.trim()) {
+      return {
+        message: 'Commit message is empty',
+        model: 'Commit message must not be empty.',
+      };
+    }
+    return validateGitContext(path, context);
+  },
+
+  description: {
+    short: 'Create a git commit from the staged changes',
+    long: 'Runs `git commit` with the given message and returns the new commit (hash, author, ISO date and subject). Hooks configured in the repository still run.',
+    usageNotes: [
+      'Stage files with GitAdd first, or pass all=true to commit every tracked change',
+      'Only commit when the user asked for it',
+    ],
+  },
+
+  // biome-ignore lint/correctness/useYield: terminal-only tool execution
+  async *execute(params, context: ExecutionContext) {
+    const cwd = resolveGitDirectory(params.path, context);
+    const signal = context.signal;
+    const args = ['commit', '--message', params.message];
+    if (params.all) args.push('--all');
+
+    try {
+      await runGit(args, { cwd, signal });
+      const [commit] = parseCommitLog(
+        await runGit(['log', '-1', COMMIT_LOG_FORMAT, 'HEAD'], { cwd, signal }),
+      );
+      return {
+        status: 'success',
+        model: toJsonValue({ commit }),
+        metadata: { summary: `${commit.short_hash} ${commit.subject}` },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'commit');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'commit', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.message,
+    abstractRule: '*',
+  }),
+});
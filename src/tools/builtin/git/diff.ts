@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import {
+  type GitChangeSet,
+  gitErrorResult,
+  gitRefSchema,
+  readChangeSet,
+  resolveGitDirectory,
+  toRepositoryPath,
+  validateGitContext,
+} from './repository.js';
+
+export const gitDiffTool = createTool({
+  name: 'GitDiff',
+  displayName: 'Git 差异',
+  kind: ToolKind.ReadOnly,
+  sideEffect: 'pure',
+  interruptBehavior: 'cancel',
+
+  schema: lazySchema(() =>
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe('Directory inside the repository (optional, defaults to cwd)'),
+      paths: z
+        .array(z.string())
+        .optional()
+        .describe('Limit the diff to these files or directories'),
+      scope: z
+        .enum(['all', 'staged', 'unstaged'])
+        .default('all')
+        .describe(
+          'Which changes to show: staged (index vs HEAD), unstaged (working tree vs index) or both',
+        ),
+      ref: gitRefSchema(
+        'Compare the working tree against this commit instead of splitting staged and unstaged changes',
+      ).optional(),
+      context_lines: z
+        .number()
+        .int()
+        .min(0)
+        .max(100)
+        .default(3)
+        .describe('Lines of context around each change'),
+    }),
+  ),
+
+  validateInput: ({ path }, context) => validateGitContext(path, context),
+
+  description: {
+    short: 'Show changes in a git repository, split into staged and unstaged',
+    long: 'Returns the changed files (status, added and deleted line counts) and the unified patch for staged changes, unstaged changes, or the working tree compared with a commit. Untracked files are not included; use GitStatus to list them.',
+    usageNotes: [
+      'Prefer this tool over running `git diff` through Bash',
+      'Patches longer than 50,000 characters are truncated; pass paths to narrow the diff',
+    ],
+  },
+
+  async *execute(params, context: ExecutionContext) {
+    const { scope, ref, context_lines } = params;
+    const cwd = resolveGitDirectory(params.path, context);
+    const options = {
+      paths: params.paths?.map((item) => toRepositoryPath(item, context)),
+      contextLines: context_lines,
+      signal: context.signal,
+    };
+
+    try {
+      let payload: Record<string, GitChangeSet | string>;
+      if (ref) {
+        payload = { ref, changes: await readChangeSet(cwd, ['diff', ref], options) };
+      } else {
+        payload = {};
+        if (scope !== 'unstaged') {
+          payload.staged = await readChangeSet(cwd, ['diff', '--cached'], options);
+        }
+        if (scope !== 'staged') {
+          payload.unstaged = await readChangeSet(cwd, ['diff'], options);
+        }
+      }
+
+      const fileCount = Object.values(payload).reduce(
+        (count, section) => count + (typeof section === 'string' ? 0 : section.files.length),
+        0,
+      );
+      return {
+        status: 'success',
+        model: toJsonValue(payload),
+        metadata: { summary: `${fileCount} changed file(s)` },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'diff');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'diff', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.ref ?? params.scope,
+    abstractRule: '*',
+  }),
+});
@@ -0,0 +1,9 @@
+// Git 工具模块
+
+export { gitAddTool } from './add.js';
+export { gitBlameTool } from './blame.js';
+export { gitCommitTool } from './commit.js';
+export { gitDiffTool } from './diff.js';
+export { gitLogTool } from './log.js';
+export { gitShowTool } from './show.js';
+export { gitStatusTool } from './status.js';
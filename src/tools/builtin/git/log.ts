@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { runGit } from '../../../utils/git.js';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import {
+  COMMIT_LOG_FORMAT,
+  gitErrorResult,
+  gitRefSchema,
+  parseCommitLog,
+  resolveGitDirectory,
+  toRepositoryPath,
+  validateGitContext,
+} from './repository.js';
+
+export const gitLogTool = createTool({
+  name: 'GitLog',
+  displayName: 'Git 提交历史',
+  kind: ToolKind.ReadOnly,
+  sideEffect: 'pure',
+  interruptBehavior: 'cancel',
+
+  schema: lazySchema(() =>
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe('Directory inside the repository (optional, defaults to cwd)'),
+      ref: gitRefSchema(
+        'Branch, tag, commit or range such as main..HEAD (defaults to HEAD)',
+      ).optional(),
+      paths: z
+        .array(z.string())
+        .optional()
+        .describe('Only list commits that touch these files or directories'),
+      max_count: z.number().int().min(1).max(200).default(20).describe('Maximum number of commits'),
+      author: z.string().optional().describe('Only commits whose author matches this pattern'),
+      grep: z.string().optional().describe('Only commits whose message matches this pattern'),
+      since: z.string().optional().describe('Only commits after this date, e.g. "2 weeks ago"'),
+    }),
+  ),
+
+  validateInput: ({ path }, context) => validateGitContext(path, context),
+
+  description: {
+    short: 'List commits of a git repository',
+    long: 'Returns commits (hash, short hash, author, email, ISO date and subject), newest first. Use GitShow to inspect a single commit.',
+    usageNotes: ['Prefer this tool over running `git log` through Bash'],
+  },
+
+  async *execute(params, context: ExecutionContext) {
+    const { ref, paths, max_count, author, grep, since } = params;
+    const cwd = resolveGitDirectory(params.path, context);
+    const args = ['log', COMMIT_LOG_FORMAT, `--max-count=${max_count}`];
+    if (author) args.push(`--author=${author}`);
+    if (grep) args.push(`--grep=${grep}`);
+    if (since) args.push(`--since=${since}`);
+    if (ref) args.push(ref);
+    if (paths?.length) args.push('--', ...paths.map((item) => toRepositoryPath(item, context)));
+
+    try {
+      const commits = parseCommitLog(await runGit(args, { cwd, signal: context.signal }));
+      return {
+        status: 'success',
+        model: toJsonValue({ commits }),
+        metadata: { summary: `${commits.length} commit(s)` },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'log');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'log', 'history', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.ref ?? 'HEAD',
+    abstractRule: '*',
+  }),
+});
@@ -0,0 +1,292 @@
+/**
+ * Git 工具共享逻辑：定位仓库目录、执行命令并把 git 输出解析为结构化数据
+ */
+
+import { resolve } from 'node:path';
+import { z } from 'zod';
+import { hasFilesystemCapability } from '../../../runtime/index.js';
+import { getFileSystemService, isLocalFileSystem } from '../../../services/FileSystemService.js';
+import { getErrorMessage, getErrorName } from '../../../utils/errorUtils.js';
+import { type GitChangeType, parseGitChangeType, runGit } from '../../../utils/git.js';
+import type { ExecutionContext, ToolResult, ToolValidationError } from '../../types/index.js';
+import { ToolErrorType } from '../../types/index.js';
+
+/** 单个 patch 返回给模型的最大字符数 */
+export const MAX_PATCH_CHARS = 50_000;
+
+/**
+ * 提交 / 分支等 revision 参数；禁止以 `-` 开头，避免被 git 当作选项解析
+ */
+export function gitRefSchema(description: string) {
+  return z
+    .string()
+    .min(1)
+    .refine((value) => !value.startsWith('-'), 'Revision must not start with "-"')
+    .describe(description);
+}
+
+/**
+ * 校验当前上下文能否运行 git 工具（validateInput 使用）
+ */
+export function validateGitContext(
+  directory: string | undefined,
+  context: ExecutionContext,
+): ToolValidationError | undefined {
+  if (!hasFilesystemCapability(context.contextSnapshot)) {
+    return {
+      message: 'No filesystem access in current context',
+      model: 'No filesystem access in the current runtime context.',
+      errorType: ToolErrorType.PERMISSION_DENIED,
+    };
+  }
+  if (!directory && !context.contextSnapshot?.cwd) {
+    return {
+      message: 'No repository directory available',
+      model: 'No repository path provided and no filesystem working directory is available.',
+    };
+  }
+  // 内存 / overlay 文件系统中的改动对 git 不可见；dry run 时 git 在 scratch 副本中运行，副本需要包含 .git
+  const dryRun = context.bladeConfig?.dryRun;
+  if (!dryRun && !isLocalFileSystem(getFileSystemService(context))) {
+    return {
+      message: 'Git tools require the local file system',
+      model: 'Git tools are unavailable because this session does not use the local file system.',
+    };
+  }
+  if (dryRun && !dryRun.isCopied('.git')) {
+    return {
+      message: 'Git tools are unavailable because .git was not copied into the dry run',
+      model:
+        'Git tools are unavailable in this dry run because the scratch copy has no .git directory.',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * 把项目路径映射为 git 实际运行的路径（dry run 时为 scratch 副本中的路径）
+ */
+export function toRepositoryPath(filePath: string, context: ExecutionContext): string {
+  const resolved = resolve(context.contextSnapshot?.cwd ?? '', filePath);
+  return context.bladeConfig?.dryRun?.toScratchPath(resolved) ?? resolved;
+}
+
+/**
+ * git 运行的工作目录
+ */
+export function resolveGitDirectory(
+  directory: string | undefined,
+  context: ExecutionContext,
+): string {
+  const target = directory ?? context.contextSnapshot?.cwd;
+  if (!target) {
+    throw new Error('validateInput should guarantee a repository directory');
+  }
+  return toRepositoryPath(target, context);
+}
+
+/**
+ * 把 git 失败转换为工具错误结果
+ */
+export function gitErrorResult(error: unknown, command: string): ToolResult {
+  if (getErrorName(error) === 'AbortError') {
+    return {
+      status: 'error',
+      model: `git ${command} aborted`,
+      error: {
+        type: ToolErrorType.EXECUTION_ERROR,
+        message: '操作被中止',
+      },
+    };
+  }
+  return {
+    status: 'error',
+    model: `git ${command} failed: ${getErrorMessage(error)}`,
+    error: {
+      type: ToolErrorType.EXECUTION_ERROR,
+      message: getErrorMessage(error),
+    },
+  };
+}
+
+// ==================== diff ====================
+
+export interface GitDiffFile {
+  path: string;
+  status: GitChangeType;
+  original_path?: string;
+  /** 二进制文件为 null */
+  additions: number | null;
+  deletions: number | null;
+  binary: boolean;
+}
+
+export interface GitChangeSet {
+  files: GitDiffFile[];
+  patch: string;
+  truncated: boolean;
+}
+
+/**
+ * 读取一组改动（文件列表、增删行数与 patch）
+ *
+ * @param command 产生 diff 的 git 子命令，如 `['diff', '--cached']` 或 `['show', '--format=', sha]`
+ */
+export async function readChangeSet(
+  cwd: string,
+  command: string[],
+  options: { paths?: string[]; contextLines?: number; signal?: AbortSignal } = {},
+): Promise<GitChangeSet> {
+  const pathspec = options.paths?.length ? ['--', ...options.paths] : [];
+  const run = (args: string[]) =>
+    runGit([...command, '-M', ...args, ...pathspec], { cwd, signal: options.signal });
+
+  const [nameStatus, numstat, patch] = await Promise.all([
+    run(['--name-status', '-z']),
+    run(['--numstat', '-z']),
+    run([`-U${options.contextLines ?? 3}`]),
+  ]);
+
+  const stats = parseNumstat(numstat);
+  const files = parseNameStatus(nameStatus).map((file) => {
+    const stat = stats.get(file.path);
+    return {
+      ...file,
+      additions: stat?.additions ?? null,
+      deletions: stat?.deletions ?? null,
+      binary: stat ? stat.additions === null : false,
+    };
+  });
+
+  return {
+    files,
+    patch: patch.length > MAX_PATCH_CHARS ? patch.slice(0, MAX_PATCH_CHARS) : patch,
+    truncated: patch.length > MAX_PATCH_CHARS,
+  };
+}
+
+function parseNameStatus(
+  output: string,
+): Pick<GitDiffFile, 'path' | 'status' | 'original_path'>[] {
+  const fields = output.split('\0');
+  const files: Pick<GitDiffFile, 'path' | 'status' | 'original_path'>[] = [];
+  for (let index = 0; index < fields.length - 1; ) {
+    const code = fields[index++];
+    const status = parseGitChangeType(code);
+    if (status === 'renamed' || status === 'copied') {
+      const originalPath = fields[index++];
+      files.push({ path: fields[index++], status, original_path: originalPath });
+    } else {
+      files.push({ path: fields[index++], status });
+    }
+  }
+  return files;
+}
+
+function parseNumstat(
+  output: string,
+): Map<string, { additions: number | null; deletions: number | null }> {
+  const fields = output.split('\0');
+  const stats = new Map<string, { additions: number | null; deletions: number | null }>();
+  for (let index = 0; index < fields.length - 1; ) {
+    const [additions, deletions, filePath] = fields[index++].split('\t');
+    let target = filePath;
+    if (!target) {
+      // 重命名时路径为空，随后两个字段是原路径和新路径
+      index++;
+      target = fields[index++];
+    }
+    stats.set(target, {
+      additions: additions === '-' ? null : Number(additions),
+      deletions: deletions === '-' ? null : Number(deletions),
+    });
+  }
+  return stats;
+}
+
+// ==================== log ====================
+
+export interface GitCommitInfo {
+  hash: string;
+  short_hash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+}
+
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+/** `git log` 的 --format，与 parseCommitLog 对应 */
+export const COMMIT_LOG_FORMAT = `--format=${['%H', '%h', '%an', '%ae', '%aI', '%s'].join('%x1f')}%x1e`;
+
+export function parseCommitLog(output: string): GitCommitInfo[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [hash, shortHash, author, email, date, subject] = record.split(FIELD_SEPARATOR);
+      return { hash, short_hash: shortHash, author, email, date, subject };
+    });
+}
+
+// ==================== blame ====================
+
+export interface GitBlameCommit {
+  author: string;
+  date: string;
+  summary: string;
+}
+
+export interface GitBlameLine {
+  line: number;
+  commit: string;
+  content: string;
+}
+
+/**
+ * 解析 `git blame --porcelain` 的输出
+ *
+ * 每个提交的作者信息只在首次出现时输出，这里汇总到 commits 中，行记录只引用提交哈希。
+ */
+export function parseBlame(output: string): {
+  commits: Record<string, GitBlameCommit>;
+  lines: GitBlameLine[];
+} {
+  const commits: Record<string, GitBlameCommit> = {};
+  const lines: GitBlameLine[] = [];
+  let current: { commit: string; line: number } | undefined;
+
+  for (const row of output.split('\n')) {
+    if (row.startsWith('\t')) {
+      if (current) {
+        lines.push({ ...current, content: row.slice(1) });
+      }
+      continue;
+    }
+    const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(row);
+    if (header) {
+      current = { commit: header[1], line: Number(header[2]) };
+      commits[header[1]] ??= { author: '', date: '', summary: '' };
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const separator = row.indexOf(' ');
+    const key = separator === -1 ? row : row.slice(0, separator);
+    const value = separator === -1 ? '' : row.slice(separator + 1);
+    const commit = commits[current.commit];
+    if (key === 'author') {
+      commit.author = value;
+    } else if (key === 'author-time') {
+      commit.date = new Date(Number(value) * 1000).toISOString();
+    } else if (key === 'summary') {
+      commit.summary = value;
+    }
+  }
+
+  return { commits, lines };
+}
@@ -0,0 +1,105 @@
+import { z } from 'zod';
+import { runGit } from '../../../utils/git.js';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import {
+  COMMIT_LOG_FORMAT,
+  gitErrorResult,
+  gitRefSchema,
+  parseCommitLog,
+  readChangeSet,
+  resolveGitDirectory,
+  toRepositoryPath,
+  validateGitContext,
+} from './repository.js';
+
+export const gitShowTool = createTool({
+  name: 'GitShow',
+  displayName: 'Git 提交详情',
+  kind: ToolKind.ReadOnly,
+  sideEffect: 'pure',
+  interruptBehavior: 'cancel',
+
+  schema: lazySchema(() =>
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe('Directory inside the repository (optional, defaults to cwd)'),
+      ref: gitRefSchema('Commit, branch or tag to show').default('HEAD'),
+      paths: z
+        .array(z.string())
+        .optional()
+        .describe('Limit the changes to these files or directories'),
+      include_patch: z
+        .boolean()
+        .default(true)
+        .describe('Include the unified patch (set false to only list changed files)'),
+    }),
+  ),
+
+  validateInput: ({ path }, context) => validateGitContext(path, context),
+
+  description: {
+    short: 'Show a single commit with its message and changes',
+    long: 'Returns the commit metadata (hash, author, ISO date, parents, full message), the changed files with added and deleted line counts, and optionally the unified patch.',
+    usageNotes: [
+      'Prefer this tool over running `git show` through Bash',
+      'Patches longer than 50,000 characters are truncated; pass paths to narrow the output',
+    ],
+  },
+
+  async *execute(params, context: ExecutionContext) {
+    const { ref, include_patch } = params;
+    const cwd = resolveGitDirectory(params.path, context);
+    const signal = context.signal;
+
+    try {
+      const sha = (
+        await runGit(['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`], {
+          cwd,
+          signal,
+        })
+      ).trim();
+      const [commit] = parseCommitLog(
+        await runGit(['log', '-1', COMMIT_LOG_FORMAT, sha], { cwd, signal }),
+      );
+      const [parents, message] = await Promise.all([
+        runGit(['log', '-1', '--format=%P', sha], { cwd, signal }),
+        runGit(['log', '-1', '--format=%B', sha], { cwd, signal }),
+      ]);
+      const changes = await readChangeSet(cwd, ['show', '--format=', sha], {
+        paths: params.paths?.map((item) => toRepositoryPath(item, context)),
+        signal,
+      });
+
+      return {
+        status: 'success',
+        model: toJsonValue({
+          ...commit,
+          parents: parents.trim().split(' ').filter(Boolean),
+          message: message.trim(),
+          files: changes.files,
+          ...(include_patch ? { patch: changes.patch, truncated: changes.truncated } : {}),
+        }),
+        metadata: {
+          summary: `${commit.short_hash} ${commit.subject} (${changes.files.length} file(s))`,
+        },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'show');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'show', 'commit', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.ref,
+    abstractRule: '*',
+  }),
+});
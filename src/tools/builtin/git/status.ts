@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { getGitStatus } from '../../../utils/git.js';
+import { toJsonValue } from '../../../utils/jsonValue.js';
+import { createTool } from '../../core/createTool.js';
+import type { ExecutionContext } from '../../types/index.js';
+import { ToolKind } from '../../types/index.js';
+import { lazySchema } from '../../validation/lazySchema.js';
+import { gitErrorResult, resolveGitDirectory, validateGitContext } from './repository.js';
+
+export const gitStatusTool = createTool({
+  name: 'GitStatus',
+  displayName: 'Git 状态',
+  kind: ToolKind.ReadOnly,
+  sideEffect: 'pure',
+  interruptBehavior: 'cancel',
+
+  schema: lazySchema(() =>
+    z.object({
+      path: z
+        .string()
+        .optional()
+        .describe('Directory inside the repository (optional, defaults to cwd)'),
+    }),
+  ),
+
+  validateInput: ({ path }, context) => validateGitContext(path, context),
+
+  description: {
+    short: 'Show the working tree status of a git repository',
+    long: 'Returns the current branch, upstream tracking (ahead/behind), staged changes, unstaged changes, untracked files and merge conflicts as structured data.',
+    usageNotes: [
+      'Prefer this tool over running `git status` through Bash',
+      'Use GitDiff to see the content of staged or unstaged changes',
+    ],
+  },
+
+  // biome-ignore lint/correctness/useYield: terminal-only tool execution
+  async *execute(params, context: ExecutionContext) {
+    const cwd = resolveGitDirectory(params.path, context);
+    try {
+      const status = await getGitStatus(cwd, context.signal);
+      const changed = status.staged.length + status.unstaged.length + status.untracked.length;
+      return {
+        status: 'success',
+        model: toJsonValue(status),
+        metadata: {
+          summary: `${status.branch ?? 'detached HEAD'}: ${changed} changed file(s)`,
+        },
+      };
+    } catch (error) {
+      return gitErrorResult(error, 'status');
+    }
+  },
+
+  version: '1.0.0',
+  category: 'Git 工具',
+  tags: ['git', 'status', 'vcs'],
+
+  preparePermissionMatcher: (params) => ({
+    signatureContent: params.path ?? '',
+    abstractRule: '*',
+  }),
+});
@@ -4,6 +4,15 @@ import type { MemoryManager } from '../../memory/MemoryManager.js';
 import type { SessionId } from '../../types/branded.js';
 import type { Tool } from '../types/index.js';
 import { editTool, readTool, writeTool } from './file/index.js';
+import {
+  gitAddTool,
+  gitBlameTool,
+  gitCommitTool,
+  gitDiffTool,
+  gitLogTool,
+  gitShowTool,
+  gitStatusTool,
+} from './git/index.js';
 import { createListMcpResourcesTool, createReadMcpResourceTool } from './mcp/index.js';
 import { createMemoryReadTool, createMemoryWriteTool } from './memory/index.js';
 import { notebookEditTool } from './notebook/index.js';
@@ -26,6 +35,7 @@ import { webFetchTool, webSearchTool } from './web/index.js';
 export interface BuiltinToolGroups {
   filesystem: Tool[];
   shell: Tool[];
+  git: Tool[];
   web: Tool[];
   task: Tool[];
   memory: Tool[];
@@ -54,6 +64,15 @@ export function createBuiltinToolGroups(options: BuiltinToolGroupOptions): Built
       grepTool,
     ] as unknown as Tool[],
     shell: [bashTool, killShellTool] as unknown as Tool[],
+    git: [
+      gitStatusTool,
+      gitDiffTool,
+      gitLogTool,
+      gitBlameTool,
+      gitShowTool,
+      gitAddTool,
+      gitCommitTool,
+    ] as unknown as Tool[],
     web: [webFetchTool, webSearchTool] as unknown as Tool[],
     task: [
       createTaskTool({ registry: subagentRegistry }),
@@ -91,6 +110,7 @@ export function flattenBuiltinToolGroups(groups: BuiltinToolGroups): Tool[] {
   return [
     ...groups.filesystem,
     ...groups.shell,
+    ...groups.git,
     ...groups.web,
     ...groups.task,
     ...groups.memory,
@@ -1,9 +1,10 @@
-import * as fs from 'node:fs/promises';
 import { z } from 'zod';
+import { getFileSystemService } from '../../../services/FileSystemService.js';
 import { createTool } from '../../core/createTool.js';
 import { lazySchema } from '../../validation/lazySchema.js';
 import { ToolErrorType } from '../../types/ToolResult.js';
 import { ToolKind } from '../../types/ToolKind.js';
+import { recordWriteComplete } from '../file/writeGuard.js';
 
 /**
  * NotebookEdit tool
@@ -57,7 +58,7 @@ export const notebookEditTool = createTool({
     long: `Completely replaces the contents of a specific cell in a Jupyter notebook (.ipynb file) with new source. Jupyter notebooks are interactive documents that combine code, text, and visualizations, commonly used for data analysis and scientific computing. The notebook_path parameter must be an absolute path, not a relative path. The cell_number is 0-indexed. Use edit_mode=insert to add a new cell at the index specified by cell_number. Use edit_mode=delete to delete the cell at the index specified by cell_number.`,
   },
 
-  async *execute(params, _context) {
+  async *execute(params, context) {
     const {
       notebook_path,
       cell_id,
@@ -67,8 +68,10 @@ export const notebookEditTool = createTool({
     } = params;
 
     try {
+      const fileSystem = getFileSystemService(context);
+
       // Read notebook file
-      const content = await fs.readFile(notebook_path, 'utf-8');
+      const content = await fileSystem.readTextFile(notebook_path);
       const notebook = JSON.parse(content);
 
       if (!notebook.cells || !Array.isArray(notebook.cells)) {
@@ -178,7 +181,12 @@ export const notebookEditTool = createTool({
       }
 
       // Write back to file
-      await fs.writeFile(notebook_path, JSON.stringify(notebook, null, 2));
+      await context.bladeConfig?.fileCheckpoints?.capture(notebook_path, {
+        toolCallId: context.toolCallId,
+        fileSystem,
+      });
+      await fileSystem.writeTextFile(notebook_path, JSON.stringify(notebook, null, 2));
+      await recordWriteComplete(notebook_path, context.sessionId, 'edit', fileSystem);
 
       const actionMsg =
         edit_mode === 'replace'
@@ -1,11 +1,16 @@
 import type { Stats } from 'node:fs';
-import { stat } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
 import type { Readable } from 'node:stream';
 import type { Entry } from 'fast-glob';
 import fg from 'fast-glob';
+import picomatch from 'picomatch';
 import { z } from 'zod';
 import { hasFilesystemCapability } from '../../../runtime/index.js';
+import {
+  type FileSystemService,
+  getFileSystemService,
+  isLocalFileSystem,
+} from '../../../services/FileSystemService.js';
 import { getErrorCode, getErrorMessage, getErrorName } from '../../../utils/errorUtils.js';
 
 function getEntryStats(entry: Entry): Stats | undefined {
@@ -133,9 +138,20 @@ export const globTool = createTool({
 
       // 验证搜索路径存在
       const searchPath = resolve(searchRoot);
+      const fileSystem = getFileSystemService(context);
       try {
-        const stats = await stat(searchPath);
-        if (!stats.isDirectory()) {
+        const stats = await fileSystem.stat(searchPath);
+        if (!stats) {
+          return {
+            status: 'error',
+            model: `Search path does not exist: ${searchPath}`,
+            error: {
+              type: ToolErrorType.EXECUTION_ERROR,
+              message: '搜索路径不存在',
+            },
+          };
+        }
+        if (!stats.isDirectory) {
           return {
             status: 'error',
             model: `Search path must be a directory: ${searchPath}`,
@@ -161,28 +177,35 @@ export const globTool = createTool({
 
       signal.throwIfAborted();
 
-      // 创建文件过滤器（会读取并解析 .gitignore 一次）
-      const fileFilter = await FileFilter.create({
-        cwd: searchPath,
-        useGitignore: true,
-        useDefaults: true,
-        gitignoreScanMode: 'recursive',
-        customScanIgnore: [],
-        cacheTTL: 30000,
-      });
+      const searchOptions = {
+        maxResults: max_results,
+        includeDirectories: include_directories,
+        caseSensitive: case_sensitive,
+        signal,
+      };
 
-      // 执行 glob 搜索（复用 FileFilter 已解析的模式）
-      const { matches, wasTruncated } = await performGlobSearch(
-        searchPath,
-        pattern,
-        {
-          maxResults: max_results,
-          includeDirectories: include_directories,
-          caseSensitive: case_sensitive,
-          signal,
-        },
-        fileFilter
-      );
+      // 本地磁盘走 fast-glob 并读取 .gitignore；自定义文件系统逐层遍历，只应用默认排除规则
+      const { matches, wasTruncated } = isLocalFileSystem(fileSystem)
+        ? await performGlobSearch(
+            searchPath,
+            pattern,
+            searchOptions,
+            await FileFilter.create({
+              cwd: searchPath,
+              useGitignore: true,
+              useDefaults: true,
+              gitignoreScanMode: 'recursive',
+              customScanIgnore: [],
+              cacheTTL: 30000,
+            })
+          )
+        : await performFileSystemGlobSearch(
+            fileSystem,
+            searchPath,
+            pattern,
+            searchOptions,
+            new FileFilter({ useGitignore: false, useDefaults: true })
+          );
 
       const sortedMatches = sortMatches(matches);
 
@@ -403,6 +426,61 @@ async function performGlobSearch(
   );
 }
 
+/**
+ * 通过 FileSystemService 遍历目录执行 glob 搜索（用于内存 / overlay 等非本地文件系统）
+ */
+async function performFileSystemGlobSearch(
+  fileSystem: FileSystemService,
+  searchPath: string,
+  pattern: string,
+  options: {
+    maxResults: number;
+    includeDirectories: boolean;
+    caseSensitive: boolean;
+    signal: AbortSignal;
+  },
+  fileFilter: FileFilter
+): Promise<{ matches: FileMatch[]; wasTruncated: boolean }> {
+  const isMatch = picomatch(pattern, { dot: true, nocase: !options.caseSensitive });
+  const matches: FileMatch[] = [];
+
+  const walk = async (relativeDir: string): Promise<boolean> => {
+    const entries = await fileSystem.readDirectory(join(searchPath, relativeDir));
+    for (const entry of entries) {
+      if (options.signal.aborted) {
+        throw createAbortError('文件搜索被用户中止');
+      }
+
+      const rel = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (fileFilter.shouldIgnore(rel)) continue;
+      if (entry.isDirectory && fileFilter.shouldIgnoreDirectory(rel)) continue;
+
+      if ((entry.isFile || options.includeDirectories) && isMatch(rel)) {
+        if (matches.length >= options.maxResults) {
+          return true;
+        }
+        const abs = join(searchPath, rel);
+        const stats = await fileSystem.stat(abs);
+        matches.push({
+          path: abs,
+          relative_path: rel,
+          is_directory: entry.isDirectory,
+          size: stats?.isFile ? stats.size : undefined,
+          modified: stats?.mtime.toISOString(),
+        });
+      }
+
+      if (entry.isDirectory && (await walk(rel))) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const wasTruncated = await walk('');
+  return { matches, wasTruncated };
+}
+
 /**
  * 排序匹配结果
  */
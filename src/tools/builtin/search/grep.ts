@@ -1,6 +1,5 @@
 import { execSync, spawn } from 'node:child_process';
 import { existsSync } from 'node:fs';
-import { readdir, readFile } from 'node:fs/promises';
 import { createRequire } from 'node:module';
 import { join, relative } from 'node:path';
 
@@ -10,6 +9,11 @@ const _require = createRequire(import.meta.url);
 import picomatch from 'picomatch';
 import { z } from 'zod';
 import { hasFilesystemCapability } from '../../../runtime/index.js';
+import {
+  type FileSystemService,
+  getFileSystemService,
+  isLocalFileSystem,
+} from '../../../services/FileSystemService.js';
 import { getErrorMessage, getErrorName } from '../../../utils/errorUtils.js';
 import { toJsonValue } from '../../../utils/jsonValue.js';
 import { DEFAULT_EXCLUDE_DIRS } from '../../../utils/filePatterns.js';
@@ -357,7 +361,7 @@ async function executeSystemGrep(
 }
 
 /**
- * 纯 JavaScript 实现的搜索（最终降级方案）
+ * 纯 JavaScript 实现的搜索（最终降级方案，也用于内存 / overlay 等非本地文件系统）
  */
 async function executeFallbackGrep(
   pattern: string,
@@ -366,45 +370,69 @@ async function executeFallbackGrep(
     caseInsensitive?: boolean;
     glob?: string;
     multiline?: boolean;
+    outputMode?: string;
+    contextBefore?: number;
+    contextAfter?: number;
   },
-  signal: AbortSignal
+  signal: AbortSignal,
+  fileSystem: FileSystemService = getFileSystemService()
 ): Promise<{ matches: GrepMatch[]; totalFiles: number }> {
   const matches: GrepMatch[] = [];
-  const regex = new RegExp(pattern, options.caseInsensitive ? 'gi' : 'g');
+  const flags = `${options.caseInsensitive ? 'i' : ''}${options.multiline ? 'gms' : ''}`;
+  const regex = new RegExp(pattern, flags);
 
   // 获取所有文件
-  const files = await getAllFiles(path, signal);
+  const files = await getAllFiles(path, signal, fileSystem);
   let processedFiles = 0;
 
   for (const file of files) {
     signal.throwIfAborted();
 
-    // 检查是否应该排除此文件
-    if (shouldExcludeFile(file)) {
-      continue;
-    }
+    const filePath = relative(path, file) || file;
 
     // 如果指定了 glob，检查是否匹配
-    if (options.glob && !matchGlob(file, options.glob)) {
+    if (options.glob && !matchGlob(filePath, options.glob)) {
       continue;
     }
 
+    let content: string;
     try {
-      const content = await readFile(file, 'utf-8');
-      const lines = content.split('\n');
-
-      lines.forEach((line, index) => {
-        if (regex.test(line)) {
-          matches.push({
-            file_path: relative(path, file),
-            line_number: index + 1,
-            content: line,
-          });
-        }
-      });
+      content = await fileSystem.readTextFile(file);
+    } catch {
+      continue;
+    }
+    processedFiles++;
 
-      processedFiles++;
-    } catch (_error) {
+    const lines = content.split('\n');
+    const matchedLines = options.multiline
+      ? findMultilineMatches(content, regex)
+      : lines.flatMap((line, index) => (regex.test(line) ? [index] : []));
+    if (matchedLines.length === 0) {
+      continue;
+    }
+
+    if (options.outputMode === 'files_with_matches') {
+      matches.push({ file_path: filePath });
+      continue;
+    }
+    if (options.outputMode === 'count') {
+      matches.push({ file_path: filePath, count: matchedLines.length });
+      continue;
+    }
+
+    for (const index of matchedLines) {
+      const match: GrepMatch = {
+        file_path: filePath,
+        line_number: index + 1,
+        content: lines[index],
+      };
+      if (options.contextBefore) {
+        match.context_before = lines.slice(Math.max(0, index - options.contextBefore), index);
+      }
+      if (options.contextAfter) {
+        match.context_after = lines.slice(index + 1, index + 1 + options.contextAfter);
+      }
+      matches.push(match);
     }
   }
 
@@ -412,28 +440,62 @@ async function executeFallbackGrep(
 }
 
 /**
- * 递归获取所有文件
+ * 多行模式下返回匹配覆盖到的行号（从 0 开始）
  */
-async function getAllFiles(dir: string, signal: AbortSignal): Promise<string[]> {
+function findMultilineMatches(content: string, regex: RegExp): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line;
+  };
+
+  const matched = new Set<number>();
+  for (const match of content.matchAll(regex)) {
+    const first = lineAt(match.index);
+    const last = lineAt(match.index + Math.max(match[0].length - 1, 0));
+    for (let line = first; line <= last; line++) {
+      matched.add(line);
+    }
+  }
+  return [...matched].sort((a, b) => a - b);
+}
+
+/**
+ * 递归获取所有文件；搜索路径本身是文件时直接返回它
+ */
+async function getAllFiles(
+  dir: string,
+  signal: AbortSignal,
+  fileSystem: FileSystemService
+): Promise<string[]> {
   const files: string[] = [];
 
+  const stats = await fileSystem.stat(dir);
+  if (stats?.isFile) {
+    return [dir];
+  }
+
   async function walk(currentPath: string) {
     signal.throwIfAborted();
 
     try {
-      const entries = await readdir(currentPath, { withFileTypes: true });
+      const entries = await fileSystem.readDirectory(currentPath);
 
       for (const entry of entries) {
         signal.throwIfAborted();
 
         const fullPath = join(currentPath, entry.name);
 
-        if (entry.isDirectory()) {
+        if (entry.isDirectory) {
           // 检查是否应该排除此目录
-          if (!shouldExcludeFile(fullPath)) {
+          if (!shouldExcludeFile(entry.name)) {
             await walk(fullPath);
           }
-        } else if (entry.isFile()) {
+        } else if (entry.isFile) {
           files.push(fullPath);
         }
       }
@@ -447,22 +509,18 @@ async function getAllFiles(dir: string, signal: AbortSignal): Promise<string[]>
 }
 
 /**
- * 检查文件/目录是否应该被排除
+ * 检查目录名是否在默认排除列表中
  */
-function shouldExcludeFile(path: string): boolean {
-  for (const pattern of DEFAULT_EXCLUDE_DIRS) {
-    if (path.includes(pattern)) {
-      return true;
-    }
-  }
-  return false;
+function shouldExcludeFile(name: string): boolean {
+  return (DEFAULT_EXCLUDE_DIRS as readonly string[]).includes(name);
 }
 
 /**
  * 使用 picomatch 进行 glob 匹配
  */
 function matchGlob(filePath: string, pattern: string): boolean {
-  const isMatch = picomatch(pattern);
+  // 与 rg --glob 一致：不含路径分隔符的模式按文件名匹配
+  const isMatch = picomatch(pattern, { dot: true, basename: !pattern.includes('/') });
   return isMatch(filePath);
 }
 
@@ -777,8 +835,12 @@ export const grepTool = createTool({
       let strategy: SearchStrategy = SearchStrategy.RIPGREP;
       let matches: GrepMatch[] = [];
 
+      // 自定义文件系统（内存 / overlay）无法交给外部进程，直接使用 JavaScript 实现
+      const fileSystem = getFileSystemService(context);
+      const useExternalSearch = isLocalFileSystem(fileSystem);
+
       // 策略 1: 尝试使用 ripgrep
-      const rgPath = getRipgrepPath();
+      const rgPath = useExternalSearch ? getRipgrepPath() : null;
       if (rgPath) {
         try {
           yield {
@@ -814,7 +876,7 @@ export const grepTool = createTool({
       }
 
       // 策略 2: 降级到 git grep (如果在 git 仓库中)
-      if (!result && (await isGitRepository(searchPath))) {
+      if (!result && useExternalSearch && (await isGitRepository(searchPath))) {
         try {
           yield {
             kind: 'message',
@@ -842,7 +904,7 @@ export const grepTool = createTool({
       }
 
       // 策略 3: 降级到系统 grep
-      if (!result && isSystemGrepAvailable()) {
+      if (!result && useExternalSearch && isSystemGrepAvailable()) {
         try {
           yield {
             kind: 'message',
@@ -882,8 +944,12 @@ export const grepTool = createTool({
             caseInsensitive: caseInsensitive ?? false,
             glob,
             multiline: multiline ?? false,
+            outputMode: output_mode,
+            contextBefore: contextBefore ?? contextLines,
+            contextAfter: contextAfter ?? contextLines,
           },
-          signal
+          signal,
+          fileSystem
         );
 
         matches = fallbackResult.matches;
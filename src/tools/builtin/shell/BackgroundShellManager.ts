@@ -1,6 +1,7 @@
 import { type ChildProcess, spawn } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
 import type { SessionId } from '../../../types/branded.js';
+import { PersistentShell } from './PersistentShell.js';
 
 type BackgroundShellStatus = 'running' | 'exited' | 'killed' | 'error';
 
@@ -55,6 +56,7 @@ export interface KillResult {
 export class BackgroundShellManager {
   private static instance: BackgroundShellManager | null = null;
   private processes = new Map<string, BackgroundShellProcess>();
+  private persistentShells = new Map<SessionId, PersistentShell>();
 
   static getInstance(): BackgroundShellManager {
     if (!BackgroundShellManager.instance) {
@@ -128,6 +130,30 @@ export class BackgroundShellManager {
     return processInfo;
   }
 
+  /**
+   * 获取（或创建）Session 的常驻前台 Shell
+   */
+  getPersistentShell(sessionId: SessionId, cwd: string): PersistentShell {
+    let shell = this.persistentShells.get(sessionId);
+    if (!shell) {
+      shell = new PersistentShell(cwd);
+      this.persistentShells.set(sessionId, shell);
+    }
+    return shell;
+  }
+
+  findPersistentShell(sessionId: SessionId): PersistentShell | undefined {
+    return this.persistentShells.get(sessionId);
+  }
+
+  /**
+   * 释放 Session 的常驻 Shell（Session 关闭时调用）
+   */
+  disposePersistentShell(sessionId: SessionId): void {
+    this.persistentShells.get(sessionId)?.dispose();
+    this.persistentShells.delete(sessionId);
+  }
+
   consumeOutput(shellId: string): ShellOutputSnapshot | undefined {
     const processInfo = this.processes.get(shellId);
     if (!processInfo) {
@@ -161,7 +187,7 @@ export class BackgroundShellManager {
   kill(shellId: string): KillResult | undefined {
     const processInfo = this.processes.get(shellId);
     if (!processInfo) {
-      return undefined;
+      return this.killPersistentShell(shellId);
     }
 
     if (processInfo.status !== 'running' || !processInfo.process) {
@@ -202,7 +228,26 @@ export class BackgroundShellManager {
   }
 
   /**
-   * 终止所有后台进程
+   * 终止常驻 Shell 进程；Session 的下一条前台命令会重新拉起 Shell
+   */
+  private killPersistentShell(shellId: string): KillResult | undefined {
+    const shell = [...this.persistentShells.values()].find((item) => item.id === shellId);
+    if (!shell) {
+      return undefined;
+    }
+
+    const pid = shell.pid;
+    const killed = shell.kill();
+    return {
+      success: killed,
+      alreadyExited: !killed,
+      status: killed ? 'killed' : 'exited',
+      pid,
+    };
+  }
+
+  /**
+   * 终止所有后台进程和常驻 Shell
    * 在应用退出时调用
    */
   killAll(): void {
@@ -219,5 +264,10 @@ export class BackgroundShellManager {
       }
     }
     this.processes.clear();
+
+    for (const shell of this.persistentShells.values()) {
+      shell.dispose();
+    }
+    this.persistentShells.clear();
   }
 }
@@ -0,0 +1,392 @@
+import { type ChildProcessWithoutNullStreams, spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { existsSync } from 'node:fs';
+
+const KILL_GRACE_MS = 1000;
+const ENVIRONMENT_TIMEOUT_MS = 5000;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * shell 的启动方式（例如包装进沙箱的 bash）
+ */
+export interface ShellLauncher {
+  /** 标识启动方式（例如沙箱的工作目录与可写范围）；与运行中的 shell 不同时重新拉起 */
+  key: string;
+  /** 返回启动 shell 的命令行（由 `bash -c` 执行），shell 需从 `cwd` 开始并从 stdin 读取命令 */
+  command(cwd: string): string;
+}
+
+export interface ShellRunOptions {
+  timeout: number;
+  signal?: AbortSignal;
+  /** 仅对本次命令生效的工作目录（命令在子 shell 中执行，cd/export 不会保留） */
+  cwd?: string;
+  /**
+   * 上下文的工作目录。与上次同步的不同（如切换到 worktree）时，先在常驻 shell 中 cd 过去；
+   * 上下文未变时保留命令自己 cd 的结果
+   */
+  baseCwd?: string;
+  /** 仅对本次命令生效的环境变量（同样在子 shell 中执行） */
+  env?: Record<string, string>;
+  /** 省略时直接启动 bash；与运行中的 shell 启动方式不同时先终止它，之前 export 的变量随之丢失 */
+  launcher?: ShellLauncher;
+}
+
+export interface ShellRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  previousCwd: string;
+  cwd: string;
+  timedOut: boolean;
+  aborted: boolean;
+  /** 执行前 shell 已退出并被重新拉起，之前 export 的变量已丢失 */
+  restarted: boolean;
+  /** 命令结束时 shell 进程也退出了（exit、超时、中止或被 KillShell 终止） */
+  shellExited: boolean;
+  executionTime: number;
+}
+
+interface ActiveCommand {
+  onStdout(chunk: string): void;
+  onStderr(chunk: string): void;
+  onExit(code: number | null, signal: NodeJS.Signals | null): void;
+  onError(error: Error): void;
+}
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * 常驻 Shell 会话
+ *
+ * 设计理念：
+ * - 每个 Session 一个长期存活的 bash 进程，cd / export / source venv 在调用之间保留
+ * - 命令通过 stdin 写入，以随机 sentinel 标记 stdout / stderr 的结束，并回传退出码和 $PWD
+ * - 命令串行执行；超时或中止会终止整个进程组，下一条命令在最后已知的 cwd 中重新拉起 shell
+ */
+export class PersistentShell {
+  readonly id = `shell_${randomUUID()}`;
+  private readonly token = `__BLADE_${randomUUID().replace(/-/g, '')}__`;
+  private child?: ChildProcessWithoutNullStreams;
+  private launcher?: ShellLauncher;
+  private active?: ActiveCommand;
+  private cwd: string;
+  /** 最近一次同步到 shell 的上下文工作目录 */
+  private syncedCwd?: string;
+  private started = false;
+  private disposed = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly initialCwd: string,
+    private readonly baseEnv: Record<string, string | undefined> = process.env,
+  ) {
+    this.cwd = initialCwd;
+  }
+
+  get currentCwd(): string {
+    return this.cwd;
+  }
+
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  /**
+   * 下一条带 `baseCwd` 的命令将在哪个目录执行
+   */
+  cwdFor(baseCwd?: string): string {
+    return baseCwd && baseCwd !== this.syncedCwd ? baseCwd : this.cwd;
+  }
+
+  isAlive(): boolean {
+    return this.child !== undefined;
+  }
+
+  /**
+   * 执行命令；并发调用按提交顺序排队
+   */
+  run(command: string, options: ShellRunOptions): Promise<ShellRunResult> {
+    const next = this.queue.then(() => this.execute(command, options));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * 读取 shell 当前导出的环境变量（供后台命令继承）
+   */
+  async getEnvironment(): Promise<Record<string, string>> {
+    const result = await this.run('env -0', {
+      timeout: ENVIRONMENT_TIMEOUT_MS,
+      launcher: this.launcher,
+    });
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to read shell environment: ${result.stderr.trim()}`);
+    }
+
+    const env: Record<string, string> = {};
+    for (const entry of result.stdout.split('\0')) {
+      const separator = entry.indexOf('=');
+      if (separator > 0) {
+        env[entry.slice(0, separator)] = entry.slice(separator + 1);
+      }
+    }
+    return env;
+  }
+
+  /**
+   * 终止 shell 进程组；下一条命令会重新拉起 shell
+   */
+  kill(): boolean {
+    if (!this.child) {
+      return false;
+    }
+    this.terminate(this.child);
+    return true;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.kill();
+  }
+
+  private spawnShell(launcher: ShellLauncher | undefined): ChildProcessWithoutNullStreams {
+    if (!existsSync(this.cwd)) {
+      this.cwd = this.initialCwd;
+    }
+
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries({ ...this.baseEnv, BLADE_CLI: '1' })) {
+      if (value !== undefined) {
+        env[key] = value;
+      }
+    }
+
+    const args = launcher ? ['-c', launcher.command(this.cwd)] : ['--noprofile', '--norc'];
+    const child = spawn('bash', args, {
+      cwd: this.cwd,
+      env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // 独立进程组，超时时连同子进程一起终止
+      detached: process.platform !== 'win32',
+    });
+
+    child.stdout.setEncoding('utf8');
+    child.stderr.setEncoding('utf8');
+    // 因启动方式变化而被替换的旧 shell 不再向当前命令回传输出或退出事件
+    child.stdout.on('data', (chunk: string) => {
+      if (this.child === child) this.active?.onStdout(chunk);
+    });
+    child.stderr.on('data', (chunk: string) => {
+      if (this.child === child) this.active?.onStderr(chunk);
+    });
+    // shell 已退出时写入会触发 EPIPE，由 exit 事件统一处理
+    child.stdin.on('error', () => {});
+    child.on('exit', (code, signal) => {
+      if (this.child === child) {
+        this.child = undefined;
+        this.active?.onExit(code, signal);
+      }
+    });
+    child.on('error', (error) => {
+      if (this.child === child) {
+        this.child = undefined;
+        this.active?.onError(error);
+      }
+    });
+
+    // 空闲的 shell 不阻止宿主进程退出；执行中的命令由超时定时器保持事件循环
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as unknown as { unref?: () => void }).unref?.();
+    }
+
+    this.child = child;
+    this.launcher = launcher;
+    this.started = true;
+    return child;
+  }
+
+  private buildScript(command: string, options: ShellRunOptions, syncCwd?: string): string {
+    const overrides: string[] = [];
+    if (options.cwd) {
+      overrides.push(`cd -- ${shellQuote(options.cwd)} || exit $?`);
+    }
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+      if (!ENV_NAME_PATTERN.test(key)) {
+        throw new Error(`Invalid environment variable name: ${key}`);
+      }
+      overrides.push(`export ${key}=${shellQuote(value)}`);
+    }
+
+    const body =
+      overrides.length > 0
+        ? `( ${overrides.join('; ')}; eval "$__blade_cmd" )`
+        : 'eval "$__blade_cmd"';
+
+    return [
+      ...(syncCwd ? [`cd -- ${shellQuote(syncCwd)}`] : []),
+      `__blade_cmd=${shellQuote(command)}`,
+      `{ ${body}`,
+      '} </dev/null',
+      '__blade_status=$?',
+      `printf '\\n%s %s %s\\n' '${this.token}' "$__blade_status" "$PWD"`,
+      `printf '\\n%s\\n' '${this.token}' >&2`,
+      '',
+    ].join('\n');
+  }
+
+  private execute(command: string, options: ShellRunOptions): Promise<ShellRunResult> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Shell session has been disposed'));
+    }
+
+    const syncCwd = this.cwdFor(options.baseCwd) !== this.cwd ? options.baseCwd : undefined;
+    const script = this.buildScript(command, options, syncCwd);
+    this.syncedCwd = options.baseCwd ?? this.syncedCwd;
+    if (syncCwd) {
+      this.cwd = syncCwd;
+    }
+    if (this.child && this.launcher?.key !== options.launcher?.key) {
+      this.terminate(this.child);
+      this.child = undefined;
+    }
+    const restarted = this.started && !this.child;
+    const child = this.child ?? this.spawnShell(options.launcher);
+    const previousCwd = this.cwd;
+    const startTime = Date.now();
+    const stdoutMarker = `\n${this.token} `;
+    const stdoutStatus = /(\d+) ([^\n]*)\n/y;
+    const stderrMarker = `\n${this.token}\n`;
+
+    return new Promise((resolve, reject) => {
+      let stdout = '';
+      let stderr = '';
+      // 只扫描新到达的尾部，避免每个 chunk 都重新搜索全部输出
+      let stdoutScanFrom = 0;
+      let stderrScanFrom = 0;
+      let status: { exitCode: number; cwd: string } | undefined;
+      let stderrDone = false;
+      let timedOut = false;
+      let aborted = false;
+      const signal = options.signal;
+
+      const settle = () => {
+        clearTimeout(timeoutHandle);
+        signal?.removeEventListener('abort', abortHandler);
+        this.active = undefined;
+      };
+
+      const finish = (
+        exitCode: number | null,
+        exitSignal: NodeJS.Signals | null,
+        shellExited: boolean,
+      ) => {
+        settle();
+        resolve({
+          stdout,
+          stderr,
+          exitCode,
+          signal: exitSignal,
+          previousCwd,
+          cwd: this.cwd,
+          timedOut,
+          aborted,
+          restarted,
+          shellExited,
+          executionTime: Date.now() - startTime,
+        });
+      };
+
+      const checkComplete = () => {
+        if (status && stderrDone) {
+          this.cwd = status.cwd;
+          finish(status.exitCode, null, false);
+        }
+      };
+
+      this.active = {
+        onStdout: (chunk) => {
+          stdout += chunk;
+          if (status) {
+            return;
+          }
+          const index = stdout.indexOf(stdoutMarker, stdoutScanFrom);
+          if (index === -1) {
+            stdoutScanFrom = Math.max(0, stdout.length - stdoutMarker.length + 1);
+            return;
+          }
+          // 标记行可能尚未完整到达，下次从标记处继续
+          stdoutScanFrom = index;
+          stdoutStatus.lastIndex = index + stdoutMarker.length;
+          const match = stdoutStatus.exec(stdout);
+          if (match) {
+            status = { exitCode: Number(match[1]), cwd: match[2] || this.cwd };
+            stdout = stdout.slice(0, index);
+            checkComplete();
+          }
+        },
+        onStderr: (chunk) => {
+          stderr += chunk;
+          const index = stderrDone ? -1 : stderr.indexOf(stderrMarker, stderrScanFrom);
+          if (index !== -1) {
+            stderrDone = true;
+            stderr = stderr.slice(0, index);
+            checkComplete();
+          } else {
+            stderrScanFrom = Math.max(0, stderr.length - stderrMarker.length + 1);
+          }
+        },
+        onExit: (code, exitSignal) => finish(code, exitSignal, true),
+        onError: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+
+      const timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        this.terminate(child);
+      }, options.timeout);
+
+      const abortHandler = () => {
+        aborted = true;
+        this.terminate(child);
+      };
+
+      if (signal?.aborted) {
+        abortHandler();
+        return;
+      }
+      signal?.addEventListener('abort', abortHandler, { once: true });
+
+      child.stdin.write(script);
+    });
+  }
+
+  private terminate(child: ChildProcessWithoutNullStreams): void {
+    const sendSignal = (signal: NodeJS.Signals) => {
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, signal);
+        } else {
+          child.kill(signal);
+        }
+      } catch {
+        // 进程可能已退出
+      }
+    };
+
+    sendSignal('SIGTERM');
+    // 如果 SIGTERM 无效，强制 SIGKILL
+    const forceKill = setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) {
+        sendSignal('SIGKILL');
+      }
+    }, KILL_GRACE_MS);
+    forceKill.unref();
+  }
+}
@@ -0,0 +1,182 @@
+import { mkdir, mkdtemp, realpath, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createContextSnapshot } from '../../../../runtime/index.js';
+import { getSandboxExecutor, SandboxExecutor } from '../../../../sandbox/SandboxExecutor.js';
+import { getSandboxService, SandboxService } from '../../../../sandbox/SandboxService.js';
+import { SessionId } from '../../../../types/branded.js';
+import { collectToolExecution } from '../../../types/index.js';
+import { bashTool } from '../bash.js';
+import { BackgroundShellManager } from '../BackgroundShellManager.js';
+import { killShellTool } from '../killShell.js';
+import { PersistentShell, shellQuote } from '../PersistentShell.js';
+
+const sessionId = SessionId('bash-session');
+
+describe('Bash persistent shell', () => {
+  let dir: string;
+
+  const bash = (
+    params: { command: string; timeout?: number; run_in_background?: boolean },
+    contextCwd = dir,
+  ) =>
+    collectToolExecution(
+      bashTool.execute(
+        { timeout: 10_000, run_in_background: false, ...params },
+        {
+          sessionId,
+          contextSnapshot: createContextSnapshot(sessionId, 'turn-1', {
+            capabilities: { filesystem: { roots: [dir], cwd: contextCwd } },
+          }),
+        },
+      ),
+    );
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'blade-bash-')));
+    await mkdir(join(dir, 'sub'));
+  });
+
+  afterEach(async () => {
+    BackgroundShellManager.getInstance().disposePersistentShell(sessionId);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps cwd and exported variables between calls', async () => {
+    const first = await bash({ command: 'cd sub && export GREETING=hello' });
+    expect(first.status).toBe('success');
+    expect(first.metadata).toMatchObject({ previous_cwd: dir, cwd: join(dir, 'sub') });
+
+    const second = await bash({ command: 'printf "%s %s" "$PWD" "$GREETING"' });
+    expect(second.model).toMatchObject({ stdout: `${join(dir, 'sub')} hello`, exit_code: 0 });
+    expect(second.metadata).not.toHaveProperty('previous_cwd');
+  });
+
+  it('follows the context cwd when it changes', async () => {
+    await mkdir(join(dir, 'worktree'));
+    await bash({ command: 'cd sub' });
+
+    const switched = await bash({ command: 'pwd' }, join(dir, 'worktree'));
+    expect(switched.model).toMatchObject({ stdout: join(dir, 'worktree') });
+
+    await bash({ command: 'cd ..' }, join(dir, 'worktree'));
+    const kept = await bash({ command: 'pwd' }, join(dir, 'worktree'));
+    expect(kept.model).toMatchObject({ stdout: dir });
+  });
+
+  it('finds the end marker in output split across many chunks', async () => {
+    const shell = new PersistentShell(dir);
+    try {
+      const result = await shell.run("head -c 300000 /dev/zero | tr '\\0' a", { timeout: 10_000 });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toHaveLength(300000);
+      expect(result.stdout).toMatch(/^a+$/);
+    } finally {
+      shell.dispose();
+    }
+  });
+
+  it('separates stdout, stderr and exit codes without leaking the sentinel', async () => {
+    const result = await bash({ command: 'echo -n out; echo err >&2; false' });
+
+    expect(result.model).toMatchObject({ stdout: 'out', stderr: 'err', exit_code: 1 });
+  });
+
+  it('recovers in the last cwd after a timeout or exit', async () => {
+    await bash({ command: 'cd sub && export GREETING=hello' });
+
+    const timedOut = await bash({ command: 'sleep 5', timeout: 1000 });
+    expect(timedOut.status).toBe('error');
+    expect(timedOut.error?.type).toBe('timeout_error');
+
+    const recovered = await bash({ command: 'printf "%s|%s" "$PWD" "$GREETING"' });
+    expect(recovered.model).toMatchObject({ stdout: `${join(dir, 'sub')}|` });
+    expect(recovered.metadata).toMatchObject({ shell_restarted: true });
+
+    const exited = await bash({ command: 'exit 3' });
+    expect(exited.model).toMatchObject({ exit_code: 3 });
+    expect((await bash({ command: 'pwd' })).model).toMatchObject({ stdout: join(dir, 'sub') });
+  });
+
+  it('starts background commands from the shell state and kills the shell by id', async () => {
+    await bash({ command: 'cd sub && export GREETING=background' });
+    const started = await bash({
+      command: 'printf "%s %s" "$PWD" "$GREETING"',
+      run_in_background: true,
+    });
+    const shellId = String(started.metadata?.shell_id);
+
+    const manager = BackgroundShellManager.getInstance();
+    await expect.poll(() => manager.getProcess(shellId)?.status).toBe('exited');
+    expect(manager.consumeOutput(shellId)?.stdout).toBe(`${join(dir, 'sub')} background`);
+
+    const persistentId = manager.findPersistentShell(sessionId)?.id ?? '';
+    const killed = await collectToolExecution(
+      killShellTool.execute({ shell_id: persistentId }, {}),
+    );
+    expect(killed.status).toBe('success');
+    await expect.poll(() => manager.findPersistentShell(sessionId)?.isAlive()).toBe(false);
+  });
+
+  describe('with the sandbox enabled', () => {
+    beforeEach(() => {
+      // Stand-in wrapper: runs the command in a nested bash that marks itself as sandboxed
+      const executor = getSandboxExecutor();
+      vi.spyOn(executor, 'getCapabilities').mockReturnValue({
+        available: true,
+        type: 'bubblewrap',
+        features: { fileSystemIsolation: true, networkIsolation: true, processIsolation: true },
+      });
+      vi.spyOn(executor, 'wrapCommand').mockImplementation(
+        (command) => `SANDBOXED=yes /bin/bash -c ${shellQuote(command)}`,
+      );
+      getSandboxService().configure({ enabled: true, excludedCommands: ['printf'] });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      SandboxService.resetInstance();
+      SandboxExecutor.resetInstance();
+    });
+
+    it('keeps cd and exports inside the sandboxed shell and reports cwd changes', async () => {
+      const first = await bash({ command: 'cd sub && export GREETING=hello' });
+      expect(first.status).toBe('success');
+      expect(first.metadata).toMatchObject({ previous_cwd: dir, cwd: join(dir, 'sub') });
+
+      const second = await bash({ command: 'echo "$PWD $GREETING $SANDBOXED"' });
+      expect(second.model).toMatchObject({ stdout: `${join(dir, 'sub')} hello yes` });
+      expect(second.metadata).not.toHaveProperty('shell_restarted');
+      expect(getSandboxExecutor().wrapCommand).toHaveBeenCalledWith(
+        expect.stringContaining('exec bash --noprofile --norc'),
+        expect.objectContaining({ workDir: dir }),
+      );
+    });
+
+    it('runs excluded commands on the host with the shell environment but without persisting', async () => {
+      await bash({ command: 'cd sub && export GREETING=hello' });
+
+      const excluded = await bash({ command: 'printf "%s %s" "$PWD" "$GREETING"; cd ..' });
+      expect(excluded.model).toMatchObject({ stdout: `${join(dir, 'sub')} hello` });
+      expect(excluded.metadata).not.toHaveProperty('previous_cwd');
+      expect(getSandboxExecutor().wrapCommand).not.toHaveBeenCalledWith(
+        expect.stringContaining('printf'),
+        expect.anything(),
+      );
+
+      const after = await bash({ command: 'pwd' });
+      expect(after.model).toMatchObject({ stdout: join(dir, 'sub') });
+    });
+
+    it('restarts the shell outside the sandbox once the sandbox is disabled', async () => {
+      await bash({ command: 'export GREETING=hello' });
+      getSandboxService().configure({ enabled: false });
+
+      const unsandboxed = await bash({ command: 'echo "[$GREETING] [$SANDBOXED]"' });
+      expect(unsandboxed.model).toMatchObject({ stdout: '[] []' });
+      expect(unsandboxed.metadata).toMatchObject({ shell_restarted: true });
+    });
+  });
+});
@@ -1,4 +1,3 @@
-import { spawn } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 import { BashClassifier } from '../../../hooks/BashClassifier.js';
@@ -18,15 +17,17 @@ import { lazySchema } from '../../validation/lazySchema.js';
 import { ToolSchemas } from '../../validation/zodSchemas.js';
 import { BackgroundShellManager } from './BackgroundShellManager.js';
 import { OutputTruncator } from './OutputTruncator.js';
+import { PersistentShell, type ShellRunOptions, shellQuote } from './PersistentShell.js';
 
 /**
  * Bash Tool - Shell command executor
  *
  * 设计理念：
- * - 每次命令独立执行（非持久会话）
- * - 工作目录通过 cwd 参数临时设置，或通过 `cd && command` 命令链持久改变
- * - 环境变量通过 env 参数临时设置，或通过 `export` 命令持久改变
- * - 后台进程使用唯一 ID 管理
+ * - 每个 Session 共享一个常驻 Shell（PersistentShell），cd / export / venv 激活在调用之间保留
+ * - 工作目录通过 cwd 参数临时设置（子 shell 执行），或通过 `cd` 持久改变；上下文的 cwd 变化时 shell 跟随切换
+ * - 环境变量通过 env 参数临时设置（子 shell 执行），或通过 `export` 命令持久改变
+ * - 后台进程从常驻 Shell 的当前目录和环境启动，使用唯一 ID 管理
+ * - 启用沙箱时常驻 Shell 本身在沙箱中启动，沙箱范围变化时重新拉起
  */
 export const bashTool = createTool({
   name: 'Bash',
@@ -47,7 +48,7 @@ export const bashTool = createTool({
         .string()
         .optional()
         .describe(
-          'Working directory (optional; applies only to this command). To persist, use cd'
+          'Working directory (optional; runs this command in a subshell there). To persist, use cd'
         ),
       env: ToolSchemas.environment(),
       run_in_background: ToolSchemas.flag({
@@ -80,6 +81,7 @@ Before executing commands:
     usageNotes: [
       'The command argument is required',
       'You can specify an optional timeout in milliseconds (up to 600000ms / 10 minutes). If not specified, commands will timeout after 30000ms (30 seconds)',
+      'The shell session persists between calls: cd, exported variables and activated virtualenvs carry over to later commands. A command that times out terminates the shell, and the next command starts a new shell in the last working directory',
       'It is very helpful if you write a clear, concise description of what this command does in 5-10 words',
       'If the output exceeds 30000 characters, output will be truncated before being returned to you',
       'You can use the run_in_background parameter to run the command in the background, which allows you to continue working while the command runs. You can monitor the output using the TaskOutput tool. You do not need to use "&" at the end of the command when using this parameter',
@@ -212,7 +214,20 @@ Before executing commands:
     };
   },
 
-  validateInput: ({ cwd }, context) => {
+  validateInput: ({ command, cwd }, context) => {
+    // dry run 只靠改写命令中的路径挡不住 `..`、`~` 或符号链接，必须由沙箱把写入限制在 scratch 副本
+    if (context.bladeConfig?.dryRun) {
+      const sandboxCheck = getSandboxService().checkCommand({ command });
+      if (sandboxCheck.outcome !== 'sandboxed') {
+        return {
+          message: `Bash is unavailable in dry run: ${sandboxCheck.reason}`,
+          model:
+            'Bash is unavailable in this dry run because the command cannot be sandboxed to the scratch copy. Use the file tools instead.',
+          errorType: ToolErrorType.PERMISSION_DENIED,
+        };
+      }
+    }
+
     const workDir = cwd || context.contextSnapshot?.cwd;
     if (workDir) {
       return undefined;
@@ -250,34 +265,104 @@ Before executing commands:
 
   // 执行函数
   async *execute(params, context: ExecutionContext) {
-    const { command, timeout = 30000, cwd, env, run_in_background = false } = params;
+    const { timeout = 30000, cwd, run_in_background = false } = params;
     const signal = context.signal ?? new AbortController().signal;
+    const sessionId = context.sessionId ?? context.contextSnapshot?.sessionId;
+    const manager = BackgroundShellManager.getInstance();
+    // dry run 时命令在沙箱中执行，只有 scratch 副本可写；命令、cwd 和环境变量中引用项目根目录的路径都改写到副本
+    const dryRun = context.bladeConfig?.dryRun;
+    const toShellPath = (value: string) => dryRun?.toScratchPath(value) ?? value;
+    const command = dryRun ? dryRun.toScratchCommand(params.command) : params.command;
+    const env =
+      dryRun && params.env
+        ? Object.fromEntries(
+            Object.entries(params.env).map(([key, value]) => [key, dryRun.toScratchCommand(value)])
+          )
+        : params.env;
 
     try {
       const sandboxService = getSandboxService();
-      const workDir = cwd || context.contextSnapshot?.cwd;
-      if (!workDir) {
+      const requestedCwd = cwd ? toShellPath(cwd) : undefined;
+      const contextCwd = context.contextSnapshot?.cwd;
+      const baseCwd = contextCwd ? toShellPath(contextCwd) : undefined;
+      const defaultCwd = requestedCwd || baseCwd;
+      if (!defaultCwd) {
         throw new Error('validateInput should guarantee a working directory');
       }
-      const effectiveCommand = sandboxService.wrapCommandForSandbox(command, workDir);
+      // 没有 Session 时使用一次性的 Shell，执行完即释放
+      const shell = sessionId
+        ? manager.getPersistentShell(sessionId, defaultCwd)
+        : new PersistentShell(defaultCwd);
+      const workDir = requestedCwd || shell.cwdFor(baseCwd);
+      // 沙箱以上下文的工作目录为根；dry run 时只有 scratch 副本可写
+      const sandboxRoot = baseCwd ?? defaultCwd;
+      const scope = dryRun
+        ? { writableRoots: [dryRun.scratchPath], readableRoots: [dryRun.root] }
+        : undefined;
+      const sandboxed =
+        sandboxService.isEnabled() &&
+        sandboxService.checkCommand({ command }).outcome !== 'excluded';
+
+      yield {
+        kind: 'message',
+        content: {
+          summary: sandboxed
+            ? `Executing in sandbox: ${command}`
+            : `Executing Bash command: ${command}`,
+        },
+      };
 
-      if (sandboxService.isEnabled() && effectiveCommand !== command) {
-        yield {
-          kind: 'message',
-          content: { summary: `Executing in sandbox: ${command}` },
-        };
-      } else {
-        yield {
-          kind: 'message',
-          content: { summary: `Executing Bash command: ${command}` },
-        };
+      if (run_in_background) {
+        const backgroundCommand = sandboxed
+          ? sandboxService.wrapCommandForSandbox(
+              `cd -- ${shellQuote(workDir)} && ${command}`,
+              sandboxRoot,
+              scope
+            )
+          : command;
+        return await executeInBackground(backgroundCommand, workDir, env, sessionId, shell);
       }
 
-      if (run_in_background) {
-        return executeInBackground(effectiveCommand, workDir, env);
+      // 排除在沙箱之外的命令在一次性的宿主 Shell 中执行（继承常驻 Shell 的环境变量），cd / export 不保留
+      if (sandboxService.isEnabled() && !sandboxed) {
+        const hostShell = new PersistentShell(workDir, await readShellEnvironment(shell));
+        try {
+          return await executeInShell(hostShell, command, {
+            timeout,
+            signal,
+            cwd: workDir,
+            env,
+          });
+        } finally {
+          hostShell.dispose();
+          if (!sessionId) {
+            shell.dispose();
+          }
+        }
       }
 
-      return await executeWithTimeout(effectiveCommand, workDir, env, timeout, signal);
+      // 启用沙箱时常驻 Shell 本身在沙箱中启动，cd / export 同样在调用之间保留
+      const launcher = sandboxed
+        ? {
+            key: JSON.stringify([sandboxRoot, scope ?? null]),
+            command: (shellCwd: string) =>
+              sandboxService.wrapShellForSandbox(shellCwd, sandboxRoot, scope),
+          }
+        : undefined;
+      try {
+        return await executeInShell(shell, command, {
+          timeout,
+          signal,
+          cwd: requestedCwd,
+          baseCwd,
+          env,
+          launcher,
+        });
+      } finally {
+        if (!sessionId) {
+          shell.dispose();
+        }
+      }
     } catch (error: unknown) {
       if (getErrorName(error) === 'AbortError') {
         return {
@@ -347,20 +432,42 @@ Before executing commands:
   },
 });
 
+/**
+ * 读取常驻 Shell 导出的环境变量；Shell 未启动或读取失败时返回 undefined（回退到宿主进程环境）
+ */
+async function readShellEnvironment(
+  shell: PersistentShell
+): Promise<Record<string, string> | undefined> {
+  if (!shell.isAlive()) {
+    return undefined;
+  }
+  try {
+    return await shell.getEnvironment();
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * 后台执行命令
+ *
+ * 后台进程从常驻 Shell 的当前目录启动，并继承其导出的环境变量。
  */
-function executeInBackground(
+async function executeInBackground(
   command: string,
   cwd: string,
-  env?: Record<string, string>
-): ToolResult {
+  env: Record<string, string> | undefined,
+  sessionId: SessionId | undefined,
+  shell: PersistentShell
+): Promise<ToolResult> {
   const manager = BackgroundShellManager.getInstance();
+  const shellEnv = await readShellEnvironment(shell);
+
   const backgroundProcess = manager.startBackgroundProcess({
     command,
-    sessionId: SessionId(randomUUID()),
+    sessionId: sessionId ?? SessionId(randomUUID()),
     cwd,
-    env,
+    env: { ...shellEnv, ...env },
   });
 
   const cmdPreview = command.length > 30 ? `${command.substring(0, 30)}...` : command;
@@ -390,177 +497,102 @@ function executeInBackground(
 }
 
 /**
- * 带超时的命令执行 - 使用进程事件监听
+ * 在 Session 的常驻 Shell 中执行命令
  */
-async function executeWithTimeout(
+async function executeInShell(
+  shell: PersistentShell,
   command: string,
-  cwd: string,
-  env: Record<string, string> | undefined,
-  timeout: number,
-  signal: AbortSignal
+  options: ShellRunOptions
 ): Promise<ToolResult> {
-  return new Promise((resolve) => {
-    const startTime = Date.now();
-    let stdout = '';
-    let stderr = '';
-    let timedOut = false;
-
-    // 创建进程
-    const bashProcess = spawn('bash', ['-c', command], {
-      cwd,
-      env: { ...process.env, ...env, BLADE_CLI: '1' },
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    // 收集 stdout
-    bashProcess.stdout.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    // 收集 stderr
-    bashProcess.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    // 设置超时
-    const timeoutHandle = setTimeout(() => {
-      timedOut = true;
-      bashProcess.kill('SIGTERM');
-
-      // 如果 SIGTERM 无效,强制 SIGKILL
-      setTimeout(() => {
-        if (!bashProcess.killed) {
-          bashProcess.kill('SIGKILL');
-        }
-      }, 1000);
-    }, timeout);
+  const result = await shell.run(command, options);
+  const { stdout, stderr, exitCode, signal, executionTime, cwd } = result;
+  const cwdChanged = result.cwd !== result.previousCwd;
+  const shellMetadata = {
+    shell_id: shell.id,
+    cwd,
+    ...(cwdChanged && { previous_cwd: result.previousCwd }),
+    ...(result.restarted && { shell_restarted: true }),
+  };
 
-    // 处理中止信号
-    const abortHandler = () => {
-      bashProcess.kill('SIGTERM');
-      clearTimeout(timeoutHandle);
+  if (result.timedOut) {
+    return {
+      status: 'error',
+      model: `Command execution timed out (${options.timeout}ms). The shell session was terminated; the next command starts a new shell in ${cwd}`,
+      error: {
+        type: ToolErrorType.TIMEOUT_ERROR,
+        message: '命令执行超时',
+      },
+      metadata: {
+        command,
+        timeout: true,
+        stdout,
+        stderr,
+        execution_time: executionTime,
+        ...shellMetadata,
+      },
     };
+  }
 
-    // 兼容不同版本的 AbortSignal API
-    if (signal.addEventListener) {
-      signal.addEventListener('abort', abortHandler);
-    } else if ('onabort' in signal) {
-      (signal as unknown as { onabort: () => void }).onabort = abortHandler;
-    }
-
-    // 监听进程完成事件 - 业界标准做法
-    bashProcess.on('close', (code, sig) => {
-      clearTimeout(timeoutHandle);
-      // 移除中止监听器
-      if (signal.removeEventListener) {
-        signal.removeEventListener('abort', abortHandler);
-      } else if ('onabort' in signal) {
-        (signal as unknown as { onabort: null }).onabort = null;
-      }
-
-      const executionTime = Date.now() - startTime;
-
-      // 如果超时
-      if (timedOut) {
-        resolve({
-          status: 'error',
-          model: `Command execution timed out (${timeout}ms)`,
-          error: {
-            type: ToolErrorType.TIMEOUT_ERROR,
-            message: '命令执行超时',
-          },
-          metadata: {
-            command,
-            timeout: true,
-            stdout,
-            stderr,
-            execution_time: executionTime,
-          },
-        });
-        return;
-      }
-
-      // 如果被中止
-      if (signal.aborted) {
-        resolve({
-          status: 'error',
-          model: 'Command execution aborted by user',
-          error: {
-            type: ToolErrorType.EXECUTION_ERROR,
-            message: '操作被中止',
-          },
-          metadata: {
-            command,
-            aborted: true,
-            stdout,
-            stderr,
-            execution_time: executionTime,
-          },
-        });
-        return;
-      }
-
-      // 正常完成
-      // 生成 summary 用于流式显示
-      const cmdPreview =
-        command.length > 30 ? `${command.substring(0, 30)}...` : command;
-      const summary =
-        code === 0
-          ? `执行命令成功 (${executionTime}ms): ${cmdPreview}`
-          : `执行命令完成 (退出码 ${code}, ${executionTime}ms): ${cmdPreview}`;
-
-      const metadata: BashForegroundMetadata = {
+  if (result.aborted) {
+    return {
+      status: 'error',
+      model: 'Command execution aborted by user',
+      error: {
+        type: ToolErrorType.EXECUTION_ERROR,
+        message: '操作被中止',
+      },
+      metadata: {
         command,
+        aborted: true,
+        stdout,
+        stderr,
         execution_time: executionTime,
-        exit_code: code,
-        signal: sig,
-        stdout_length: stdout.length,
-        stderr_length: stderr.length,
-        has_stderr: stderr.length > 0,
-        summary,
-      };
+        ...shellMetadata,
+      },
+    };
+  }
 
-      const truncated = OutputTruncator.truncateForLLM(
-        stdout.trim(),
-        stderr.trim(),
-        command
-      );
-
-      resolve({
-        status: 'success',
-        model: toJsonValue({
-          stdout: truncated.stdout,
-          stderr: truncated.stderr,
-          execution_time: executionTime,
-          exit_code: code,
-          signal: sig,
-          ...(truncated.truncationInfo && {
-            truncation_info: truncated.truncationInfo,
-          }),
-        }),
-        metadata,
-      });
-    });
-
-    // 监听进程错误
-    bashProcess.on('error', (error) => {
-      clearTimeout(timeoutHandle);
-      // 移除中止监听器
-      if (signal.removeEventListener) {
-        signal.removeEventListener('abort', abortHandler);
-      } else if ('onabort' in signal) {
-        (signal as unknown as { onabort: null }).onabort = null;
-      }
+  // 生成 summary 用于流式显示
+  const cmdPreview = command.length > 30 ? `${command.substring(0, 30)}...` : command;
+  const summary =
+    exitCode === 0
+      ? `执行命令成功 (${executionTime}ms): ${cmdPreview}`
+      : `执行命令完成 (退出码 ${exitCode}, ${executionTime}ms): ${cmdPreview}`;
 
-      resolve({
-        status: 'error',
-        model: `Command execution failed: ${error.message}`,
-        error: {
-          type: ToolErrorType.EXECUTION_ERROR,
-          message: error.message,
-          details: error,
-        },
-      });
-    });
-  });
+  const metadata: BashForegroundMetadata = {
+    command,
+    execution_time: executionTime,
+    exit_code: exitCode,
+    signal,
+    stdout_length: stdout.length,
+    stderr_length: stderr.length,
+    has_stderr: stderr.length > 0,
+    summary,
+    ...shellMetadata,
+  };
+
+  const truncated = OutputTruncator.truncateForLLM(stdout.trim(), stderr.trim(), command);
+
+  return {
+    status: 'success',
+    model: toJsonValue({
+      stdout: truncated.stdout,
+      stderr: truncated.stderr,
+      execution_time: executionTime,
+      exit_code: exitCode,
+      signal,
+      ...(cwdChanged && { cwd }),
+      ...(result.restarted && {
+        shell_restarted:
+          'The previous shell exited; variables exported by earlier commands are no longer set',
+      }),
+      ...(result.shellExited && {
+        shell_exited: 'The shell exited; the next command starts a new shell',
+      }),
+      ...(truncated.truncationInfo && {
+        truncation_info: truncated.truncationInfo,
+      }),
+    }),
+    metadata,
+  };
 }
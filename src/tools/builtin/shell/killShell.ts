@@ -25,6 +25,7 @@ export const killShellTool = createTool({
 - Returns a success or failure status
 - Use this tool when you need to terminate a long-running shell
 - Shell IDs can be found using the /tasks command
+- The shell_id of the session's persistent foreground shell is also accepted; killing it resets the shell, and the next Bash command starts a new one in the last working directory
 `,
   },
 
@@ -183,4 +183,36 @@ Review code carefully.
       },
     ]);
   });
+
+  it('reads the session registry from the execution context instead of the global one', async () => {
+    await createProjectSkill(projectRoot, 'global-skill', `---
+name: global-skill
+description: Registered globally
+---
+
+Global instructions.
+`);
+    await SkillRegistry.getInstance({ cwd: projectRoot, projectSkillsDir: 'skills' }).initialize();
+    const sessionRegistry = new SkillRegistry({
+      definitions: [
+        { name: 'session-skill', description: 'Inline skill', instructions: 'Session instructions.' },
+      ],
+    });
+    await sessionRegistry.initialize();
+
+    const { result } = await executeSkill(
+      { skill: 'session-skill' },
+      { skillRegistry: sessionRegistry },
+    );
+    const { result: missing } = await executeSkill(
+      { skill: 'global-skill' },
+      { skillRegistry: sessionRegistry },
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.model).toContain('Session instructions.');
+    expect(result.model).not.toContain('Skill Base Path');
+    expect(missing.status).toBe('error');
+    expect(missing.model).toContain('Available skills: session-skill');
+  });
 });
@@ -58,8 +58,8 @@ Important:
   async *execute(params, context) {
     const { skill, args } = params;
 
-    // 获取 SkillRegistry
-    const registry = getSkillRegistry();
+    // 优先使用会话自己的 SkillRegistry
+    const registry = context.skillRegistry ?? getSkillRegistry();
     const skillMetadata = registry.get(skill);
 
     // 检查 skill 是否存在
@@ -242,13 +242,15 @@ function buildSkillInstructions(
     ? `\n**Invocation Arguments:** ${args}\n`
     : '';
 
+  // 内联定义的 Skill 可能没有目录
+  const basePathSection = basePath
+    ? `\n**Skill Base Path:** ${basePath}\n(You can reference scripts, templates, and references relative to this path)\n`
+    : '\n';
+
   return `# Skill: ${name}
 
 You are now operating in the "${name}" skill mode. Follow the instructions below to complete the task.
-
-**Skill Base Path:** ${basePath}
-(You can reference scripts, templates, and references relative to this path)
-${argsSection}${assetSection ? `\n\n${assetSection}\n` : ''}
+${basePathSection}${argsSection}${assetSection ? `\n\n${assetSection}\n` : ''}
 ---
 
 ${instructions}
@@ -18,7 +18,10 @@ import type {
   SubagentContext,
   SubagentResult,
 } from '../../../agent/subagents/types.js';
+import { resolveHookTarget } from '../../../hooks/callbackHooks.js';
 import { HookManager } from '../../../hooks/HookManager.js';
+import type { SubagentStartHookResult } from '../../../hooks/types/HookTypes.js';
+import { HookEvent } from '../../../types/constants.js';
 import { AgentId, SessionId } from '../../../types/branded.js';
 import { PermissionMode } from '../../../types/common.js';
 import { getErrorMessage } from '../../../utils/errorUtils.js';
@@ -256,9 +259,35 @@ export function createTaskTool({ registry }: { registry: SubagentRegistry }) {
           };
         }
 
-        const executor = new SubagentExecutor(subagentConfig, context.bladeConfig, registry);
+        const startResult = await runSubagentStartHooks(subagent_type, description, context);
+        if (!startResult.proceed) {
+          const reason = startResult.warning || 'Blocked by SubagentStart hook';
+          return {
+            status: 'error',
+            model: `Subagent ${subagent_type} was not started: ${reason}`,
+            error: {
+              type: ToolErrorType.EXECUTION_ERROR,
+              message: reason,
+            },
+            metadata: {
+              summary: '子 Agent 启动被 Hook 阻止',
+            },
+          };
+        }
+        if (startResult.warning) {
+          console.warn(`[Task] SubagentStart hook warning: ${startResult.warning}`);
+        }
+
+        const executor = new SubagentExecutor(
+          subagentConfig,
+          context.bladeConfig,
+          registry,
+          context.skillRegistry,
+        );
         const subagentContext: SubagentContext = {
-          prompt,
+          prompt: startResult.additionalContext
+            ? `${prompt}\n\n${startResult.additionalContext}`
+            : prompt,
           parentSessionId: context.sessionId,
           permissionMode: context.permissionMode,
           subagentSessionId,
@@ -276,20 +305,25 @@ export function createTaskTool({ registry }: { registry: SubagentRegistry }) {
         let duration = Date.now() - startTime;
 
         try {
-          const projectDir = context.contextSnapshot?.cwd;
-          if (!projectDir) {
+          const target = resolveHookTarget(
+            HookEvent.SubagentStop,
+            context.contextSnapshot?.cwd,
+            context.hookServices,
+          );
+          if (!target) {
             return buildTaskResult(result, subagent_type, description, duration, subagentSessionId);
           }
 
           const hookManager = HookManager.getInstance();
           const stopResult = await hookManager.executeSubagentStopHooks(subagent_type, {
-            projectDir,
+            projectDir: target.projectDir,
             sessionId: context.sessionId || SessionId('unknown'),
             permissionMode: context.permissionMode ?? PermissionMode.DEFAULT,
             taskDescription: description,
             success: result.success,
             resultSummary: result.message.slice(0, 500),
             error: result.error,
+            ...target.services,
           });
 
           if (!stopResult.shouldStop && stopResult.continueReason) {
@@ -347,6 +381,38 @@ export function createTaskTool({ registry }: { registry: SubagentRegistry }) {
   });
 }
 
+/**
+ * 执行 SubagentStart hooks；hook 执行异常不阻止子 Agent 启动
+ */
+async function runSubagentStartHooks(
+  agentType: string,
+  description: string,
+  context: ExecutionContext,
+): Promise<SubagentStartHookResult> {
+  const target = resolveHookTarget(
+    HookEvent.SubagentStart,
+    context.contextSnapshot?.cwd,
+    context.hookServices,
+  );
+  if (!target) {
+    return { proceed: true };
+  }
+
+  try {
+    return await HookManager.getInstance().executeSubagentStartHooks(agentType, {
+      projectDir: target.projectDir,
+      sessionId: context.sessionId || SessionId('unknown'),
+      permissionMode: context.permissionMode ?? PermissionMode.DEFAULT,
+      taskDescription: description,
+      abortSignal: context.signal,
+      ...target.services,
+    });
+  } catch (hookError) {
+    console.warn('[Task] SubagentStart hook execution failed:', hookError);
+    return { proceed: true };
+  }
+}
+
 function buildTaskResult(
   result: SubagentResult,
   subagentType: string,
@@ -439,6 +505,7 @@ function handleBackgroundExecution(
     config: subagentConfig,
     bladeConfig: context.bladeConfig,
     subagentRegistry: registry,
+    skillRegistry: context.skillRegistry,
     description,
     prompt,
     parentSessionId: context.sessionId,
@@ -547,6 +614,7 @@ function handleResume(
     context.permissionMode,
     registry,
     description,
+    context.skillRegistry,
   );
 
   if (!newAgentId) {
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { decodeResponseBody, extractHtmlContent, isHtmlContentType } from '../htmlToMarkdown.js';
+
+const ARTICLE_PAGE = `<!doctype html>
+<html>
+<head><title>Release notes</title></head>
+<body>
+  <nav><a href="/">Home</a><a href="/docs">Docs</a></nav>
+  <header class="site-header">Site banner</header>
+  <article>
+    <h1>Version 2.0</h1>
+    <p>This release adds <strong>offline</strong> extraction. See <a href="/guide">the guide</a> for details.</p>
+    <table>
+      <thead><tr><th>Option</th><th>Default</th></tr></thead>
+      <tbody><tr><td>extractor</td><td>local | jina</td></tr></tbody>
+    </table>
+    <pre><code class="language-ts">const a = 1;
+if (a &lt; 2) {}</code></pre>
+    <ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul>
+    <blockquote><p>Quoted &amp; more</p></blockquote>
+    <img src="/img.png" alt="Diagram">
+  </article>
+  <aside class="sidebar">Related posts</aside>
+  <footer>Copyright</footer>
+  <script>alert(1)</script>
+</body>
+</html>`;
+
+describe('extractHtmlContent', () => {
+  it('renders the main article as Markdown without page chrome', () => {
+    const { title, markdown } = extractHtmlContent(ARTICLE_PAGE, {
+      baseUrl: 'https://example.com/blog/post',
+    });
+
+    expect(title).toBe('Release notes');
+    expect(markdown).toContain('# Version 2.0');
+    expect(markdown).toContain(
+      'This release adds **offline** extraction. See [the guide](https://example.com/guide) for details.',
+    );
+    expect(markdown).toContain(
+      '| Option | Default |\n| --- | --- |\n| extractor | local \\| jina |',
+    );
+    expect(markdown).toContain('```ts\nconst a = 1;\nif (a < 2) {}\n```');
+    expect(markdown).toContain('- One\n- Two\n  - Nested');
+    expect(markdown).toContain('> Quoted & more');
+    expect(markdown).toContain('![Diagram](https://example.com/img.png)');
+    for (const noise of ['Site banner', 'Related posts', 'Copyright', 'alert(1)', 'Home']) {
+      expect(markdown).not.toContain(noise);
+    }
+    expect(markdown).not.toContain('## Links');
+  });
+
+  it('scores paragraph-dense blocks when the page has no article element', () => {
+    const html = `<body>
+      <div class="menu"><a href="/a">A</a> <a href="/b">B</a> <a href="/c">C</a></div>
+      <div class="post-body">
+        <p>The first paragraph explains the change in enough words to count as content, with commas, too.</p>
+        <p>The second paragraph keeps going so the block clearly outweighs the navigation links.</p>
+      </div>
+      <div class="comments"><p>Nice post!</p></div>
+    </body>`;
+
+    const { markdown } = extractHtmlContent(html);
+
+    expect(markdown).toContain('The first paragraph explains the change');
+    expect(markdown).toContain('The second paragraph keeps going');
+    expect(markdown).not.toContain('Nice post!');
+    expect(markdown).not.toContain('[A]');
+  });
+
+  it('appends a links summary when requested', () => {
+    const { markdown } = extractHtmlContent(ARTICLE_PAGE, {
+      baseUrl: 'https://example.com/blog/post',
+      withLinksSummary: true,
+    });
+
+    expect(markdown).toMatch(/## Links\n\n- \[the guide\]\(https:\/\/example\.com\/guide\)$/);
+  });
+});
+
+describe('decodeResponseBody', () => {
+  const gbkHello = [0xc4, 0xe3, 0xba, 0xc3];
+
+  it('decodes with the charset from the Content-Type header', () => {
+    expect(decodeResponseBody(new Uint8Array(gbkHello), 'text/html; charset=GBK')).toBe('你好');
+  });
+
+  it('falls back to the meta charset and then to UTF-8', () => {
+    const meta = new TextEncoder().encode('<meta charset="gbk">');
+    expect(decodeResponseBody(new Uint8Array([...meta, ...gbkHello]), 'text/html')).toBe(
+      '<meta charset="gbk">你好',
+    );
+    expect(decodeResponseBody(new TextEncoder().encode('héllo'))).toBe('héllo');
+  });
+
+  it('recognizes HTML content types', () => {
+    expect(isHtmlContentType('text/html; charset=utf-8')).toBe(true);
+    expect(isHtmlContentType('application/xhtml+xml')).toBe(true);
+    expect(isHtmlContentType('application/json')).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { checkNetworkAccess, getNetworkPolicy } from '../networkPolicy.js';
+
+describe('network policy', () => {
+  it('blocks private and metadata addresses but not public ones by default', async () => {
+    const policy = getNetworkPolicy();
+
+    await expect(checkNetworkAccess('http://93.184.216.34/', policy)).resolves.toBeUndefined();
+    await expect(checkNetworkAccess('http://[::ffff:93.184.216.34]/', policy)).resolves.toBe(
+      undefined,
+    );
+    await expect(checkNetworkAccess('http://[::ffff:127.0.0.1]/', policy)).resolves.toContain(
+      'private address',
+    );
+    await expect(checkNetworkAccess('http://169.254.169.254/', policy)).resolves.toContain(
+      'metadata endpoint',
+    );
+  });
+});
@@ -1,9 +1,18 @@
+import { lookup } from 'node:dns/promises';
 import { once } from 'node:events';
 import { createServer, type Server } from 'node:http';
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { collectToolExecution } from '../../../types/index.js';
+import { createContextSnapshot } from '../../../../runtime/ContextSnapshot.js';
+import type { RuntimeContext } from '../../../../runtime/RuntimeContext.js';
+import { SessionId } from '../../../../types/branded.js';
+import { collectToolExecution, ToolErrorType } from '../../../types/index.js';
 import { webFetchTool } from '../webFetch.js';
 
+vi.mock('node:dns/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:dns/promises')>();
+  return { ...actual, lookup: vi.fn(actual.lookup) };
+});
+
 const servers: Server[] = [];
 
 function createParams(url: string) {
@@ -18,8 +27,30 @@ function createParams(url: string) {
   };
 }
 
+function networkContext(network: NonNullable<RuntimeContext['capabilities']>['network']) {
+  return {
+    contextSnapshot: createContextSnapshot(SessionId('session-1'), 'turn-1', {
+      capabilities: { network },
+    }),
+  };
+}
+
+async function listen(handler: Parameters<typeof createServer>[1]): Promise<number> {
+  const server = createServer(handler);
+  servers.push(server);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const address = server.address();
+  if (!address || typeof address === 'string') {
+    throw new Error('Expected the test server to listen on a TCP port');
+  }
+  return address.port;
+}
+
 afterEach(async () => {
   vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  vi.mocked(lookup).mockReset();
 
   await Promise.all(
     servers.splice(0).map(
@@ -63,7 +94,10 @@ describe('WebFetch Tool', () => {
     }
 
     const result = await collectToolExecution(
-      webFetchTool.execute(createParams(`http://127.0.0.1:${address.port}`)),
+      webFetchTool.execute(
+        createParams(`http://127.0.0.1:${address.port}`),
+        networkContext({ allowPrivateNetwork: true }),
+      ),
     );
 
     expect(result.status).toBe('error');
@@ -71,4 +105,130 @@ describe('WebFetch Tool', () => {
     expect(result.error?.message).toBe('操作被中止');
     expect(result.metadata?.summary).toBe('GET 127.0.0.1 - aborted');
   });
+
+  it('denies hosts outside the runtime context network policy', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const context = networkContext({
+      allowDomains: ['*.example.com'],
+      denyDomains: ['admin.example.com'],
+    });
+
+    await expect(
+      webFetchTool.validateInput?.(createParams('https://other.org/page'), context),
+    ).resolves.toMatchObject({ errorType: ToolErrorType.PERMISSION_DENIED });
+    await expect(
+      webFetchTool.validateInput?.(createParams('https://admin.example.com/'), context),
+    ).resolves.toMatchObject({ errorType: ToolErrorType.PERMISSION_DENIED });
+
+    const result = await collectToolExecution(
+      webFetchTool.execute(
+        createParams('http://169.254.169.254/latest/meta-data'),
+        networkContext({}),
+      ),
+    );
+    expect(result.status).toBe('error');
+    expect(result.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    expect(result.error?.message).toContain('metadata endpoint');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('blocks private addresses unless allowed and re-checks every redirect', async () => {
+    const target = await listen((_request, response) => {
+      response.end('internal');
+    });
+    const redirector = await listen((_request, response) => {
+      response.writeHead(302, { location: `http://localhost:${target}/` });
+      response.end();
+    });
+
+    const blocked = await collectToolExecution(
+      webFetchTool.execute(createParams(`http://127.0.0.1:${target}/`), networkContext({})),
+    );
+    expect(blocked.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    expect(blocked.error?.message).toContain('private address');
+
+    const allowed = await collectToolExecution(
+      webFetchTool.execute(
+        createParams(`http://127.0.0.1:${target}/`),
+        networkContext({ allowPrivateNetwork: true }),
+      ),
+    );
+    expect(allowed.status).toBe('success');
+
+    const redirected = await collectToolExecution(
+      webFetchTool.execute(
+        createParams(`http://127.0.0.1:${redirector}/`),
+        networkContext({ allowDomains: ['127.0.0.1'], allowPrivateNetwork: true }),
+      ),
+    );
+    expect(redirected.status).toBe('error');
+    expect(redirected.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    expect(redirected.error?.message).toContain('localhost');
+  });
+
+  it('blocks private addresses without a network capability', async () => {
+    const port = await listen((_request, response) => {
+      response.end('internal');
+    });
+
+    const result = await collectToolExecution(
+      webFetchTool.execute(createParams(`http://127.0.0.1:${port}/`)),
+    );
+
+    expect(result.status).toBe('error');
+    expect(result.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    expect(result.error?.message).toContain('private address');
+  });
+
+  it('re-checks the address the connection resolves to', async () => {
+    const handler = vi.fn((_request: unknown, response: { end(body: string): void }) => {
+      response.end('internal');
+    });
+    const port = await listen(handler);
+    // The pre-check sees a public address; the connection would resolve to loopback.
+    vi.mocked(lookup).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+    ] as unknown as Awaited<ReturnType<typeof lookup>>);
+
+    const result = await collectToolExecution(
+      webFetchTool.execute(createParams(`http://localhost:${port}/`), networkContext({})),
+    );
+
+    expect(result.status).toBe('error');
+    expect(result.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    expect(result.error?.message).toContain('private address localhost');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('extracts HTML locally as Markdown when extract_content is set', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const port = await listen((_request, response) => {
+      response.writeHead(200, { 'content-type': 'text/html; charset=gbk' });
+      response.end(
+        Buffer.concat([
+          Buffer.from('<html><head><title>Page</title></head><body><nav>Menu</nav><article><p>'),
+          Buffer.from([0xc4, 0xe3, 0xba, 0xc3]),
+          Buffer.from('</p></article></body></html>'),
+        ]),
+      );
+    });
+    const url = `http://127.0.0.1:${port}/`;
+
+    const result = await collectToolExecution(
+      webFetchTool.execute(
+        { ...createParams(url), extract_content: true },
+        networkContext({ allowPrivateNetwork: true }),
+      ),
+    );
+
+    expect(result.status).toBe('success');
+    expect(result.metadata?.content_type).toBe('text/markdown');
+    expect(result.model).toMatchObject({
+      content_type: 'text/markdown',
+      body: `# Page\n\n**Source**: ${url}\n\n---\n\n你好`,
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0]?.[0]).toBe(url);
+  });
 });
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createContextSnapshot } from '../../../../runtime/ContextSnapshot.js';
+import { SessionId } from '../../../../types/branded.js';
+import { collectToolExecution, ToolErrorType } from '../../../types/index.js';
+import { webSearchTool } from '../webSearch.js';
+
+describe('WebSearch Tool', () => {
+  it('fails with a permission error when no search provider is allowed', async () => {
+    const contextSnapshot = createContextSnapshot(SessionId('session-1'), 'turn-1', {
+      capabilities: { network: { allowDomains: ['docs.example.com'] } },
+    });
+
+    const result = await collectToolExecution(
+      webSearchTool.execute({ query: 'vitest config' }, { contextSnapshot }),
+    );
+
+    expect(result.status).toBe('error');
+    expect(result.error?.type).toBe(ToolErrorType.PERMISSION_DENIED);
+    expect(result.error?.message).toContain(
+      'Exa: Network access to mcp.exa.ai is not in the allowed domains',
+    );
+  });
+});
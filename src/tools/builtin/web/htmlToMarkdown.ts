@@ -0,0 +1,802 @@
+/**
+ * 本地 HTML → Markdown 提取
+ *
+ * WebFetch `extract_content` 的离线实现，不依赖外部服务：
+ * - 按 BOM / Content-Type / <meta charset> 解码
+ * - 轻量 HTML 解析（容错处理未闭合标签）
+ * - 可读性评分定位正文，去除导航、侧栏、广告等噪声
+ * - 输出标题、段落、列表、表格、代码块与链接的 Markdown
+ */
+
+interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+type HtmlNode = HtmlText | HtmlElement;
+
+export interface HtmlExtractionOptions {
+  /** Resolves relative links and images; a `<base href>` in the page wins. */
+  baseUrl?: string;
+  /** Appends a `## Links` section listing every link in the extracted content. */
+  withLinksSummary?: boolean;
+}
+
+export interface HtmlExtractionResult {
+  title: string;
+  markdown: string;
+}
+
+// ============================================================================
+// 字符集
+// ============================================================================
+
+function charsetFromContentType(contentType?: string): string | undefined {
+  return contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1];
+}
+
+function charsetFromBom(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return undefined;
+}
+
+function charsetFromMeta(bytes: Uint8Array): string | undefined {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+  return head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1];
+}
+
+export function isHtmlContentType(contentType?: string): boolean {
+  return /\b(?:text\/html|application\/xhtml\+xml)\b/i.test(contentType ?? '');
+}
+
+/**
+ * Decodes a response body by BOM, then the Content-Type charset, then a
+ * `<meta charset>` in the first 1 KB of HTML, defaulting to UTF-8.
+ */
+export function decodeResponseBody(bytes: Uint8Array, contentType?: string): string {
+  const sniffMeta = !contentType || isHtmlContentType(contentType);
+  const charset =
+    charsetFromBom(bytes) ??
+    charsetFromContentType(contentType) ??
+    (sniffMeta ? charsetFromMeta(bytes) : undefined) ??
+    'utf-8';
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+// ============================================================================
+// 解析
+// ============================================================================
+
+const VOID_TAGS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+// 内容不解析为子元素的标签；script / style 的内容直接丢弃
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'noscript']);
+const DROPPED_RAW_TEXT_TAGS = new Set(['script', 'style', 'noscript']);
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'details',
+  'dialog',
+  'div',
+  'dl',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+const IMPLIED_END_TAGS: Record<string, { closes: Set<string>; boundary: Set<string> }> = {
+  li: { closes: new Set(['li']), boundary: new Set(['ul', 'ol']) },
+  dt: { closes: new Set(['dt', 'dd']), boundary: new Set(['dl']) },
+  dd: { closes: new Set(['dt', 'dd']), boundary: new Set(['dl']) },
+  tr: {
+    closes: new Set(['tr', 'td', 'th']),
+    boundary: new Set(['table', 'thead', 'tbody', 'tfoot']),
+  },
+  td: { closes: new Set(['td', 'th']), boundary: new Set(['tr', 'table']) },
+  th: { closes: new Set(['td', 'th']), boundary: new Set(['tr', 'table']) },
+  thead: {
+    closes: new Set(['thead', 'tbody', 'tfoot', 'tr', 'td', 'th']),
+    boundary: new Set(['table']),
+  },
+  tbody: {
+    closes: new Set(['thead', 'tbody', 'tfoot', 'tr', 'td', 'th']),
+    boundary: new Set(['table']),
+  },
+  tfoot: {
+    closes: new Set(['thead', 'tbody', 'tfoot', 'tr', 'td', 'th']),
+    boundary: new Set(['table']),
+  },
+  option: { closes: new Set(['option']), boundary: new Set(['select', 'datalist']) },
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  middot: '·',
+  bull: '•',
+  deg: '°',
+  times: '×',
+  divide: '÷',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  sect: '§',
+  para: '¶',
+  larr: '←',
+  rarr: '→',
+  uarr: '↑',
+  darr: '↓',
+  harr: '↔',
+  le: '≤',
+  ge: '≥',
+  ne: '≠',
+  plusmn: '±',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  shy: '\u00ad',
+  zwj: '\u200d',
+  zwnj: '\u200c',
+  thinsp: '\u2009',
+  ensp: '\u2002',
+  emsp: '\u2003',
+  micro: 'µ',
+  iexcl: '¡',
+  iquest: '¿',
+  prime: '′',
+  Prime: '″',
+  minus: '−',
+  infin: '∞',
+  check: '✓',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attrs)) {
+      attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attrs;
+}
+
+/** Index of the `>` closing a tag, skipping quoted attribute values. */
+function findTagEnd(html: string, from: number): number {
+  let quote: string | undefined;
+  for (let index = from; index < html.length; index++) {
+    const char = html[index];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    if (text) current().children.push({ type: 'text', text });
+  };
+  const popTo = (index: number) => {
+    stack.length = Math.max(index, 1);
+  };
+  const closeImplied = (tag: string) => {
+    const implied = IMPLIED_END_TAGS[tag];
+    if (implied) {
+      for (let index = stack.length - 1; index > 0; index--) {
+        const open = stack[index].tag;
+        if (implied.boundary.has(open)) break;
+        if (implied.closes.has(open)) {
+          popTo(index);
+          break;
+        }
+      }
+    }
+    if (BLOCK_TAGS.has(tag)) {
+      // 块级元素隐式结束尚未闭合的 <p>
+      for (let index = stack.length - 1; index > 0; index--) {
+        const open = stack[index].tag;
+        if (open === 'p') {
+          popTo(index);
+          break;
+        }
+        if (BLOCK_TAGS.has(open) || open === 'td' || open === 'th') break;
+      }
+    }
+  };
+
+  let position = 0;
+  while (position < html.length) {
+    const next = html.indexOf('<', position);
+    if (next === -1) {
+      appendText(decodeEntities(html.slice(position)));
+      break;
+    }
+    appendText(decodeEntities(html.slice(position, next)));
+    position = next;
+
+    if (html.startsWith('<!--', position)) {
+      const end = html.indexOf('-->', position + 4);
+      position = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[position + 1] === '!' || html[position + 1] === '?') {
+      const end = html.indexOf('>', position);
+      position = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const endTag = /^<\/([a-z][\w:-]*)[^>]*>/i.exec(html.slice(position, position + 256));
+    if (endTag) {
+      const tag = endTag[1].toLowerCase();
+      for (let index = stack.length - 1; index > 0; index--) {
+        if (stack[index].tag === tag) {
+          popTo(index);
+          break;
+        }
+      }
+      position += endTag[0].length;
+      continue;
+    }
+
+    const startTag = /^<([a-z][\w:-]*)/i.exec(html.slice(position, position + 256));
+    const tagEnd = startTag ? findTagEnd(html, position + startTag[0].length) : -1;
+    if (!startTag || tagEnd === -1) {
+      appendText('<');
+      position++;
+      continue;
+    }
+
+    const tag = startTag[1].toLowerCase();
+    const attrSource = html.slice(position + startTag[0].length, tagEnd);
+    const selfClosing = attrSource.trimEnd().endsWith('/');
+    position = tagEnd + 1;
+
+    closeImplied(tag);
+    const element: HtmlElement = {
+      type: 'element',
+      tag,
+      attrs: parseAttributes(attrSource),
+      children: [],
+      parent: current(),
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const close = html.slice(position).search(new RegExp(`</${tag}\\s*>`, 'i'));
+      const end = close === -1 ? html.length : position + close;
+      if (!DROPPED_RAW_TEXT_TAGS.has(tag)) {
+        element.children.push({ type: 'text', text: decodeEntities(html.slice(position, end)) });
+      }
+      position = close === -1 ? html.length : html.indexOf('>', end) + 1;
+      continue;
+    }
+    if (!VOID_TAGS.has(tag) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+  return root;
+}
+
+// ============================================================================
+// 正文定位
+// ============================================================================
+
+const NOISE_TAGS = new Set([
+  'aside',
+  'button',
+  'canvas',
+  'dialog',
+  'embed',
+  'footer',
+  'form',
+  'iframe',
+  'input',
+  'link',
+  'meta',
+  'nav',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+]);
+const NOISE_ROLES = new Set([
+  'banner',
+  'complementary',
+  'contentinfo',
+  'dialog',
+  'menu',
+  'navigation',
+]);
+const NEGATIVE_HINT =
+  /(?:^|[\s_-])(?:ad|ads|advert|advertisement|banner|breadcrumbs?|comments?|cookie|footer|menu|modal|nav|navbar|newsletter|popup|promo|related|share|sharing|sidebar|social|sponsor|subscribe|widget)(?:$|[\s_-])/i;
+const POSITIVE_HINT =
+  /(?:^|[\s_-])(?:article|blog|body|content|entry|main|page|post|story|text)(?:$|[\s_-])/i;
+const PROTECTED_TAGS = new Set(['#root', 'html', 'body', 'main', 'article']);
+
+interface ElementStats {
+  textLength: number;
+  linkTextLength: number;
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return node.type === 'element';
+}
+
+function hintOf(element: HtmlElement): string {
+  return `${element.attrs.class ?? ''} ${element.attrs.id ?? ''}`;
+}
+
+function isNoise(element: HtmlElement): boolean {
+  if (PROTECTED_TAGS.has(element.tag)) return false;
+  if (NOISE_TAGS.has(element.tag)) return true;
+  if (NOISE_ROLES.has(element.attrs.role ?? '')) return true;
+  if ('hidden' in element.attrs || element.attrs['aria-hidden'] === 'true') return true;
+  if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test(element.attrs.style ?? '')) return true;
+  const hint = hintOf(element);
+  return NEGATIVE_HINT.test(hint) && !POSITIVE_HINT.test(hint);
+}
+
+function pruneNoise(element: HtmlElement): void {
+  element.children = element.children.filter((child) => !isElement(child) || !isNoise(child));
+  for (const child of element.children) {
+    if (isElement(child)) pruneNoise(child);
+  }
+}
+
+function textContent(node: HtmlNode): string {
+  if (!isElement(node)) return node.text;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function collectStats(element: HtmlElement, stats: Map<HtmlElement, ElementStats>): ElementStats {
+  const result: ElementStats = { textLength: 0, linkTextLength: 0 };
+  for (const child of element.children) {
+    if (isElement(child)) {
+      const childStats = collectStats(child, stats);
+      result.textLength += childStats.textLength;
+      result.linkTextLength +=
+        child.tag === 'a' ? childStats.textLength : childStats.linkTextLength;
+    } else {
+      result.textLength += child.text.replace(/\s+/g, ' ').trim().length;
+    }
+  }
+  stats.set(element, result);
+  return result;
+}
+
+function findAll(
+  element: HtmlElement,
+  predicate: (element: HtmlElement) => boolean,
+): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (!isElement(child)) continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(element);
+  return found;
+}
+
+function classWeight(element: HtmlElement): number {
+  const hint = hintOf(element);
+  return (POSITIVE_HINT.test(hint) ? 25 : 0) - (NEGATIVE_HINT.test(hint) ? 25 : 0);
+}
+
+/**
+ * Picks the main content element: a single <article>, then <main> /
+ * role=main / itemprop=articleBody, then the best-scoring paragraph container.
+ */
+function findMainContent(body: HtmlElement): HtmlElement {
+  const stats = new Map<HtmlElement, ElementStats>();
+  collectStats(body, stats);
+  const textLength = (element: HtmlElement) => stats.get(element)?.textLength ?? 0;
+
+  const articles = findAll(body, (element) => element.tag === 'article');
+  if (articles.length === 1 && textLength(articles[0]) >= 140) {
+    return articles[0];
+  }
+  const [landmark] = findAll(
+    body,
+    (element) =>
+      element.tag === 'main' ||
+      element.attrs.role === 'main' ||
+      element.attrs.itemprop === 'articleBody',
+  );
+  if (landmark && textLength(landmark) >= 140) {
+    return landmark;
+  }
+
+  const scores = new Map<HtmlElement, number>();
+  const addScore = (element: HtmlElement | undefined, score: number) => {
+    if (!element || element.tag === '#root') return;
+    scores.set(element, (scores.get(element) ?? classWeight(element)) + score);
+  };
+  for (const paragraph of findAll(body, (element) =>
+    ['p', 'pre', 'td', 'blockquote', 'li'].includes(element.tag),
+  )) {
+    const text = textContent(paragraph).replace(/\s+/g, ' ').trim();
+    if (text.length < 25) continue;
+    const score =
+      1 + (text.match(/[,，、]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    addScore(paragraph.parent, score);
+    addScore(paragraph.parent?.parent, score / 2);
+  }
+
+  let best: HtmlElement | undefined;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const elementStats = stats.get(element);
+    const linkDensity = elementStats?.textLength
+      ? elementStats.linkTextLength / elementStats.textLength
+      : 0;
+    const finalScore = score * (1 - linkDensity);
+    if (finalScore > bestScore) {
+      best = element;
+      bestScore = finalScore;
+    }
+  }
+  return best ?? body;
+}
+
+// ============================================================================
+// Markdown 输出
+// ============================================================================
+
+interface RenderContext {
+  baseUrl?: string;
+  links: Map<string, string>;
+}
+
+function resolveUrl(url: string | undefined, baseUrl?: string): string | undefined {
+  const trimmed = url?.trim();
+  if (!trimmed || /^(?:javascript|data|mailto|tel):/i.test(trimmed) || trimmed.startsWith('#')) {
+    return trimmed?.startsWith('mailto:') ? trimmed : undefined;
+  }
+  try {
+    return new URL(trimmed, baseUrl).toString();
+  } catch {
+    return trimmed;
+  }
+}
+
+function appendPiece(output: string, piece: string): string {
+  // 块边界之后的行首空白来自源码缩进，直接丢弃
+  if (!output || output.endsWith('\n')) {
+    return output + piece.replace(/^[ \t]+/, '');
+  }
+  return output + piece;
+}
+
+function renderChildren(element: HtmlElement, context: RenderContext): string {
+  let output = '';
+  for (const child of element.children) {
+    output = appendPiece(output, renderNode(child, context));
+  }
+  return output;
+}
+
+function renderInline(element: HtmlElement, context: RenderContext): string {
+  return renderChildren(element, context)
+    .replace(/\s*\n\s*/g, ' ')
+    .trim();
+}
+
+function wrapInline(content: string, marker: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) return content;
+  const leading = content.startsWith(' ') ? ' ' : '';
+  const trailing = content.endsWith(' ') ? ' ' : '';
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function codeFence(content: string, minimum: number): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(minimum, longest + 1));
+}
+
+function renderPre(element: HtmlElement): string {
+  const code = element.children.find(
+    (child): child is HtmlElement => isElement(child) && child.tag === 'code',
+  );
+  const language =
+    `${code?.attrs.class ?? ''} ${element.attrs.class ?? ''}`.match(
+      /(?:language|lang)-([\w+#.-]+)/,
+    )?.[1] ?? '';
+  const content = textContent(element).replace(/^\n/, '').replace(/\s+$/, '');
+  const fence = codeFence(content, 3);
+  return `\n\n${fence}${language}\n${content}\n${fence}\n\n`;
+}
+
+function renderList(element: HtmlElement, context: RenderContext): string {
+  const ordered = element.tag === 'ol';
+  let number = Number.parseInt(element.attrs.start ?? '1', 10) || 1;
+  const items: string[] = [];
+  for (const child of element.children) {
+    if (!isElement(child)) continue;
+    const marker = ordered ? `${number++}.` : '-';
+    const content = renderChildren(child, context)
+      .trim()
+      .replace(/\n{2,}/g, '\n');
+    const indent = ' '.repeat(marker.length + 1);
+    items.push(`${marker} ${content.replace(/\n/g, `\n${indent}`)}`);
+  }
+  return items.length > 0 ? `\n\n${items.join('\n')}\n\n` : '';
+}
+
+function tableRows(table: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  for (const child of table.children) {
+    if (!isElement(child)) continue;
+    if (child.tag === 'tr') rows.push(child);
+    if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+      rows.push(
+        ...child.children.filter((row): row is HtmlElement => isElement(row) && row.tag === 'tr'),
+      );
+    }
+  }
+  return rows;
+}
+
+function renderTable(table: HtmlElement, context: RenderContext): string {
+  const rows = tableRows(table).map((row) => {
+    const cells: string[] = [];
+    for (const cell of row.children) {
+      if (!isElement(cell) || (cell.tag !== 'td' && cell.tag !== 'th')) continue;
+      const text = renderChildren(cell, context)
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/\|/g, '\\|')
+        .trim();
+      cells.push(text);
+      const colspan = Math.min(Number.parseInt(cell.attrs.colspan ?? '1', 10) || 1, 50);
+      for (let extra = 1; extra < colspan; extra++) cells.push('');
+    }
+    return cells;
+  });
+  const columns = Math.max(0, ...rows.map((cells) => cells.length));
+  if (columns === 0) return '';
+  // 单列或单行表格通常用于排版，按段落输出
+  if (columns === 1 || rows.length === 1) {
+    return `\n\n${rows.flat().filter(Boolean).join('\n\n')}\n\n`;
+  }
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  const [header, ...body] = rows;
+  return `\n\n${[line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n')}\n\n`;
+}
+
+function renderNode(node: HtmlNode, context: RenderContext): string {
+  if (!isElement(node)) {
+    return node.text.replace(/\s+/g, ' ');
+  }
+
+  const { tag } = node;
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = renderInline(node, context);
+      return text ? `\n\n${'#'.repeat(Number(tag[1]))} ${text}\n\n` : '';
+    }
+    case 'br':
+      return '\n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong':
+    case 'b':
+      return wrapInline(renderChildren(node, context), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(renderChildren(node, context), '_');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(renderChildren(node, context), '~~');
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const text = textContent(node).replace(/\s+/g, ' ');
+      if (!text.trim()) return text;
+      const fence = codeFence(text, 1);
+      const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+      return `${fence}${padding}${text}${padding}${fence}`;
+    }
+    case 'pre':
+      return renderPre(node);
+    case 'blockquote': {
+      const content = renderChildren(node, context)
+        .trim()
+        .replace(/\n{3,}/g, '\n\n');
+      return content ? `\n\n${content.replace(/^/gm, '> ').replace(/^> $/gm, '>')}\n\n` : '';
+    }
+    case 'ul':
+    case 'ol':
+      return renderList(node, context);
+    case 'li':
+      return `\n- ${renderChildren(node, context).trim()}\n`;
+    case 'table':
+      return renderTable(node, context);
+    case 'dt':
+      return `\n\n**${renderInline(node, context)}**\n`;
+    case 'dd':
+      return `\n${renderChildren(node, context).trim()}\n`;
+    case 'a': {
+      const text = renderInline(node, context);
+      const href = resolveUrl(node.attrs.href, context.baseUrl);
+      if (!href || !text) return text;
+      if (!context.links.has(href)) context.links.set(href, text);
+      return `[${text}](${href})`;
+    }
+    case 'img': {
+      const src = resolveUrl(node.attrs.src ?? node.attrs['data-src'], context.baseUrl);
+      const alt = (node.attrs.alt ?? '').replace(/\s+/g, ' ').trim();
+      return src ? `![${alt}](${src})` : alt;
+    }
+    case 'title':
+    case 'head':
+      return '';
+    default: {
+      const content = renderChildren(node, context);
+      return BLOCK_TAGS.has(tag) || tag === 'section' || tag === 'tr'
+        ? `\n\n${content.trim()}\n\n`
+        : content;
+    }
+  }
+}
+
+function normalizeMarkdown(markdown: string): string {
+  const lines: string[] = [];
+  let inFence = false;
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence;
+    lines.push(inFence ? line : line.trimEnd());
+  }
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function findTitle(root: HtmlElement): string {
+  const [meta] = findAll(
+    root,
+    (element) =>
+      element.tag === 'meta' &&
+      (element.attrs.property === 'og:title' || element.attrs.name === 'twitter:title'),
+  );
+  const [title] = findAll(root, (element) => element.tag === 'title');
+  const [heading] = findAll(root, (element) => element.tag === 'h1');
+  const candidates = [
+    title && textContent(title),
+    meta?.attrs.content,
+    heading && textContent(heading),
+  ];
+  for (const candidate of candidates) {
+    const text = candidate?.replace(/\s+/g, ' ').trim();
+    if (text) return text;
+  }
+  return '';
+}
+
+/** Extracts the main content of an HTML page as Markdown, without network access. */
+export function extractHtmlContent(
+  html: string,
+  options: HtmlExtractionOptions = {},
+): HtmlExtractionResult {
+  const root = parseHtml(html);
+  const title = findTitle(root);
+  const [base] = findAll(root, (element) => element.tag === 'base' && !!element.attrs.href);
+  const baseUrl = resolveUrl(base?.attrs.href, options.baseUrl) ?? options.baseUrl;
+
+  const [body] = findAll(root, (element) => element.tag === 'body');
+  const container = body ?? root;
+  pruneNoise(container);
+  const context: RenderContext = { baseUrl, links: new Map() };
+  let markdown = normalizeMarkdown(renderNode(findMainContent(container), context));
+
+  if (options.withLinksSummary && context.links.size > 0) {
+    const links = [...context.links].map(([url, text]) => `- [${text}](${url})`);
+    markdown += `\n\n## Links\n\n${links.join('\n')}`;
+  }
+  return { title, markdown };
+}
@@ -0,0 +1,212 @@
+/**
+ * 网络出站策略
+ *
+ * 由 RuntimeContext.capabilities.network 声明，WebFetch / WebSearch 在每次请求
+ * （包括每一跳重定向）前检查。未声明 network capability 时仍禁止私有地址与元数据端点，
+ * 只是不限制公网域名。实际连接通过 createPolicyDispatcher 在建连时的 DNS 解析结果上再检查一次，
+ * 避免预检与 fetch 两次解析之间的 DNS rebinding。
+ */
+
+import { type LookupAddress, lookup as lookupCallback } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Agent } from 'undici';
+import { PermissionDeniedError } from '../../../errors/PermissionDeniedError.js';
+import type { ContextSnapshot } from '../../../runtime/ContextSnapshot.js';
+
+export interface NetworkPolicy {
+  /** undefined 表示不限制域名；空数组表示禁止所有域名 */
+  allowDomains?: string[];
+  denyDomains: string[];
+  allowPrivateNetwork: boolean;
+}
+
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+// BlockList checks IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4
+// ranges itself; a ::ffff:0:0/96 entry would match every IPv4 address as well.
+
+// Cloud instance metadata endpoints stay blocked even when private networks are allowed.
+const METADATA_ADDRESSES = new BlockList();
+METADATA_ADDRESSES.addAddress('169.254.169.254', 'ipv4');
+METADATA_ADDRESSES.addAddress('169.254.170.2', 'ipv4');
+METADATA_ADDRESSES.addAddress('100.100.100.200', 'ipv4');
+METADATA_ADDRESSES.addAddress('fd00:ec2::254', 'ipv6');
+const METADATA_HOSTNAMES = new Set(['metadata', 'metadata.google.internal']);
+
+function normalizeHostname(hostname: string): string {
+  return hostname
+    .toLowerCase()
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '');
+}
+
+function normalizeDomainPatterns(patterns: string[] | undefined): string[] {
+  return (patterns ?? []).map((pattern) => normalizeHostname(pattern.trim())).filter(Boolean);
+}
+
+/**
+ * `*` matches every host, `*.example.com` matches subdomains of example.com at
+ * any depth (not example.com itself), anything else matches exactly.
+ */
+export function matchesDomainPattern(hostname: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.startsWith('*.')) return hostname.endsWith(pattern.slice(1));
+  return hostname === pattern;
+}
+
+/**
+ * Without a network capability every public host is reachable, but private
+ * and metadata addresses are still blocked.
+ */
+export function getNetworkPolicy(snapshot?: ContextSnapshot): NetworkPolicy {
+  const network = snapshot?.context.capabilities?.network ?? {};
+  return {
+    allowDomains: network.allowDomains ? normalizeDomainPatterns(network.allowDomains) : undefined,
+    denyDomains: normalizeDomainPatterns(network.denyDomains),
+    allowPrivateNetwork: network.allowPrivateNetwork ?? false,
+  };
+}
+
+function addressFamily(address: string): 'ipv4' | 'ipv6' {
+  return isIP(address) === 6 ? 'ipv6' : 'ipv4';
+}
+
+async function resolveAddresses(hostname: string): Promise<string[]> {
+  if (isIP(hostname)) return [hostname];
+  try {
+    const results = await lookup(hostname, { all: true, verbatim: true });
+    return results.map((result) => result.address);
+  } catch {
+    // Unresolvable hosts fail in fetch itself.
+    return [];
+  }
+}
+
+function checkAddress(
+  hostname: string,
+  address: string,
+  policy: NetworkPolicy,
+): string | undefined {
+  const family = addressFamily(address);
+  if (METADATA_ADDRESSES.check(address, family)) {
+    return `Network access to metadata endpoint ${hostname} (${address}) is not allowed`;
+  }
+  if (!policy.allowPrivateNetwork && PRIVATE_ADDRESSES.check(address, family)) {
+    return `Network access to private address ${hostname} (${address}) is not allowed in the current runtime context`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks one request URL against the policy and returns the reason it is
+ * denied, or undefined when it may proceed. Hostnames are resolved so a public
+ * name pointing at a private address is caught as well.
+ */
+export async function checkNetworkAccess(
+  rawUrl: string,
+  policy: NetworkPolicy,
+): Promise<string | undefined> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return `Invalid URL: ${rawUrl}`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `Network access over ${url.protocol} is not allowed in the current runtime context`;
+  }
+
+  const hostname = normalizeHostname(url.hostname);
+  if (policy.denyDomains.some((pattern) => matchesDomainPattern(hostname, pattern))) {
+    return `Network access to ${hostname} is denied in the current runtime context`;
+  }
+  if (
+    policy.allowDomains &&
+    !policy.allowDomains.some((pattern) => matchesDomainPattern(hostname, pattern))
+  ) {
+    return `Network access to ${hostname} is not in the allowed domains of the current runtime context`;
+  }
+  if (METADATA_HOSTNAMES.has(hostname)) {
+    return `Network access to metadata endpoint ${hostname} is not allowed`;
+  }
+
+  for (const address of await resolveAddresses(hostname)) {
+    const denied = checkAddress(hostname, address, policy);
+    if (denied) return denied;
+  }
+  return undefined;
+}
+
+/**
+ * Connect-time lookup that only hands out addresses the policy accepts, so the
+ * socket connects to exactly the addresses that were checked.
+ */
+function createPolicyLookup(policy: NetworkPolicy): LookupFunction {
+  return (hostname, options, callback) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+      const host = normalizeHostname(hostname);
+      const denied = addresses
+        .map((entry) => checkAddress(host, entry.address, policy))
+        .find((reason) => reason !== undefined);
+      if (denied) {
+        callback(new PermissionDeniedError(denied), '', 0);
+        return;
+      }
+      if (options.all) {
+        (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(
+          null,
+          addresses,
+        );
+        return;
+      }
+      const [first] = addresses;
+      callback(null, first?.address ?? '', first?.family ?? 0);
+    });
+  };
+}
+
+/**
+ * undici dispatcher for requests made under the policy. fetch resolves the
+ * hostname again after checkNetworkAccess, so the private / metadata address
+ * check is repeated on the connection's own lookup. Destroy it after use.
+ */
+export function createPolicyDispatcher(policy: NetworkPolicy): Agent {
+  return new Agent({ connect: { lookup: createPolicyLookup(policy) } });
+}
+
+/**
+ * fetch wraps connect errors in `TypeError: fetch failed`; returns the policy
+ * denial behind one so callers can report it as a permission error.
+ */
+export function getPolicyDenial(error: unknown): PermissionDeniedError | undefined {
+  const cause = error instanceof Error ? error.cause : undefined;
+  return cause instanceof PermissionDeniedError ? cause : undefined;
+}
@@ -39,6 +39,8 @@ export interface SdkSearchProvider {
   kind: 'sdk';
   /** 提供商名称（用于日志显示） */
   name: string;
+  /** searchFn 访问的端点（用于网络出站策略检查） */
+  endpoint: string;
   /** SDK 搜索函数 */
   searchFn: (query: string) => Promise<WebSearchResult[]>;
 }
@@ -373,6 +375,7 @@ function createExaProvider(): SearchProvider {
   return {
     kind: 'sdk',
     name: 'Exa',
+    endpoint: `${EXA_MCP_CONFIG.BASE_URL}${EXA_MCP_CONFIG.ENDPOINT}`,
 
     // 使用 MCP 搜索函数
     searchFn: async (query: string): Promise<WebSearchResult[]> => {
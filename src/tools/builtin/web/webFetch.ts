@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { Dispatcher } from 'undici';
+import { PermissionDeniedError } from '../../../errors/PermissionDeniedError.js';
 import { getErrorMessage, getErrorName } from '../../../utils/errorUtils.js';
 import { toJsonValue } from '../../../utils/jsonValue.js';
 import { createTool } from '../../core/createTool.js';
@@ -9,6 +11,16 @@ import type {
 } from '../../types/index.js';
 import { ToolErrorType, ToolKind } from '../../types/index.js';
 import { ToolSchemas } from '../../validation/zodSchemas.js';
+import { decodeResponseBody, extractHtmlContent, isHtmlContentType } from './htmlToMarkdown.js';
+import {
+  checkNetworkAccess,
+  createPolicyDispatcher,
+  getNetworkPolicy,
+  getPolicyDenial,
+  type NetworkPolicy,
+} from './networkPolicy.js';
+
+const JINA_READER_BASE_URL = 'https://r.jina.ai/';
 
 /**
  * Web response result shape
@@ -47,13 +59,19 @@ export const webFetchTool = createTool({
     extract_content: ToolSchemas.flag({
       defaultValue: false,
       description:
-        'Use Jina Reader to extract clean content in Markdown format. Removes HTML clutter, scripts, and styling, returning only the main content.',
+        'Extract the main content of an HTML page as clean Markdown. Removes navigation, scripts, and styling, keeping headings, tables, code blocks, and links.',
     }),
+    extractor: z
+      .enum(['local', 'jina'])
+      .optional()
+      .describe(
+        'How extract_content works: "local" parses the page without third-party services, "jina" uses the Jina Reader proxy. Defaults to the session setting, otherwise "local".',
+      ),
     jina_options: z
       .object({
         with_generated_alt: ToolSchemas.flag({
           defaultValue: false,
-          description: 'Generate alt text for images',
+          description: 'Generate alt text for images (Jina only)',
         }),
         with_links_summary: ToolSchemas.flag({
           defaultValue: false,
@@ -62,10 +80,10 @@ export const webFetchTool = createTool({
         wait_for_selector: z
           .string()
           .optional()
-          .describe('Wait for specific CSS selector to load'),
+          .describe('Wait for specific CSS selector to load (Jina only)'),
       })
       .optional()
-      .describe('Jina Reader advanced options (only used when extract_content is true)'),
+      .describe('Extraction options (only used when extract_content is true)'),
     headers: z.record(z.string()).optional().describe('Request headers (optional)'),
     body: z.string().optional().describe('Request body (optional)'),
     timeout: ToolSchemas.timeout(1000, 120000, 30000),
@@ -108,6 +126,18 @@ export const webFetchTool = createTool({
     };
   },
 
+  validateInput: async (params, context) => {
+    const denied = await checkNetworkAccess(params.url, getNetworkPolicy(context.contextSnapshot));
+    if (denied) {
+      return {
+        message: denied,
+        model: `${denied}.`,
+        errorType: ToolErrorType.PERMISSION_DENIED,
+      };
+    }
+    return undefined;
+  },
+
   // 工具描述（对齐 Claude Code 官方）
   description: {
     short: 'Fetches content from a specified URL and processes it using an AI model',
@@ -137,6 +167,7 @@ Usage notes:
       url,
       method = 'GET',
       extract_content = false,
+      extractor = context.bladeConfig?.webFetch?.extractor ?? 'local',
       jina_options,
       headers = {},
       body,
@@ -146,10 +177,24 @@ Usage notes:
       return_headers = false,
     } = params;
     const signal = context.signal ?? new AbortController().signal;
+    const networkPolicy = getNetworkPolicy(context.contextSnapshot);
 
     try {
-      // 如果启用内容提取，使用 Jina Reader
-      if (extract_content) {
+      // Jina Reader 只在目标地址与 Jina 本身都被允许时使用
+      const useJina = extract_content && extractor === 'jina';
+      const jinaDenied = useJina
+        ? ((await checkNetworkAccess(url, networkPolicy)) ??
+          (await checkNetworkAccess(JINA_READER_BASE_URL, networkPolicy)))
+        : undefined;
+      if (jinaDenied) {
+        yield {
+          kind: 'message',
+          content: { summary: `跳过 Jina Reader: ${jinaDenied}` },
+        };
+      }
+
+      // 如果选择 Jina 提取，使用 Jina Reader
+      if (useJina && !jinaDenied) {
         try {
           yield {
             kind: 'progress',
@@ -200,10 +245,10 @@ Usage notes:
             },
           };
         } catch {
-          // Jina Reader 失败，回退到直接获取
+          // Jina Reader 失败，回退到直接获取并本地提取
           yield {
             kind: 'message',
-            content: { summary: 'Jina Reader 失败，使用标准方式获取' },
+            content: { summary: 'Jina Reader 失败，使用本地提取' },
           };
           // 继续执行下面的标准逻辑
         }
@@ -226,11 +271,20 @@ Usage notes:
         follow_redirects,
         max_redirects,
         signal,
+        networkPolicy,
       });
 
       const responseTime = Date.now() - startTime;
       response.response_time = responseTime;
 
+      if (extract_content && response.status < 400 && isHtmlResponse(response)) {
+        extractMarkdown(response, jina_options?.with_links_summary ?? false);
+        yield {
+          kind: 'message',
+          content: { summary: `本地提取内容成功 (${response.body.length} 字符)` },
+        };
+      }
+
       // 如果不需要返回头部信息，删除它们
       if (!return_headers) {
         delete response.headers;
@@ -278,6 +332,20 @@ Usage notes:
         },
       };
     } catch (error: unknown) {
+      if (error instanceof PermissionDeniedError) {
+        return {
+          status: 'error',
+          model: `${error.message}.`,
+          error: {
+            type: ToolErrorType.PERMISSION_DENIED,
+            message: error.message,
+          },
+          metadata: {
+            summary: `${method} ${new URL(url).hostname} - denied`,
+          },
+        };
+      }
+
       if (getErrorName(error) === 'AbortError') {
         return {
           status: 'error',
@@ -336,10 +404,7 @@ Usage notes:
   },
 });
 
-/**
- * 执行请求
- */
-async function performRequest(options: {
+interface RequestOptions {
   url: string;
   method: string;
   headers: Record<string, string>;
@@ -348,7 +413,27 @@ async function performRequest(options: {
   follow_redirects: boolean;
   max_redirects: number;
   signal?: AbortSignal;
-}): Promise<WebResponse> {
+  networkPolicy: NetworkPolicy;
+}
+
+/**
+ * 执行请求
+ *
+ * 每次请求使用独立的 dispatcher，连接只会建立到通过网络策略检查的地址。
+ */
+async function performRequest(options: RequestOptions): Promise<WebResponse> {
+  const dispatcher = createPolicyDispatcher(options.networkPolicy);
+  try {
+    return await followRedirects(options, dispatcher);
+  } finally {
+    void dispatcher.destroy().catch(() => undefined);
+  }
+}
+
+async function followRedirects(
+  options: RequestOptions,
+  dispatcher: Dispatcher,
+): Promise<WebResponse> {
   const {
     url,
     method,
@@ -358,6 +443,7 @@ async function performRequest(options: {
     follow_redirects,
     max_redirects,
     signal,
+    networkPolicy,
   } = options;
 
   const normalizedHeaders: Record<string, string> = {
@@ -372,6 +458,12 @@ async function performRequest(options: {
   const redirectChain: string[] = [];
 
   while (true) {
+    // Every hop is checked: an allowed host may redirect to a denied one.
+    const denied = await checkNetworkAccess(currentUrl, networkPolicy);
+    if (denied) {
+      throw new PermissionDeniedError(denied);
+    }
+
     const requestHeaders = { ...normalizedHeaders };
     if (
       currentBody &&
@@ -394,7 +486,8 @@ async function performRequest(options: {
         redirect: 'manual',
       },
       timeout,
-      signal
+      signal,
+      dispatcher
     );
 
     const location = response.headers.get('location');
@@ -429,8 +522,11 @@ async function performRequest(options: {
       continue;
     }
 
-    const responseBody = await response.text();
     const responseHeaders = headersToObject(response.headers);
+    const responseBody = decodeResponseBody(
+      new Uint8Array(await response.arrayBuffer()),
+      responseHeaders['content-type'],
+    );
 
     return {
       status: response.status,
@@ -451,7 +547,8 @@ async function fetchWithTimeout(
   url: string,
   options: RequestInit,
   timeout: number,
-  externalSignal?: AbortSignal
+  externalSignal?: AbortSignal,
+  dispatcher?: Dispatcher
 ): Promise<Response> {
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), timeout);
@@ -459,8 +556,17 @@ async function fetchWithTimeout(
   externalSignal?.addEventListener('abort', abortListener);
 
   try {
-    return await fetch(url, { ...options, signal: controller.signal });
+    // Node 的 fetch 接受 undici dispatcher，但 RequestInit 类型未声明该字段
+    return await fetch(url, {
+      ...options,
+      signal: controller.signal,
+      ...(dispatcher ? { dispatcher } : {}),
+    } as RequestInit);
   } catch (error: unknown) {
+    const denial = getPolicyDenial(error);
+    if (denial) {
+      throw denial;
+    }
     if (getErrorName(error) === 'AbortError') {
       const wrapped = new Error('请求被中止或超时', { cause: error });
       wrapped.name = 'AbortError';
@@ -494,6 +600,28 @@ function hasHeader(headers: Record<string, string>, name: string): boolean {
   return Object.keys(headers).some((key) => key.toLowerCase() === lowered);
 }
 
+function isHtmlResponse(response: WebResponse): boolean {
+  return response.content_type
+    ? isHtmlContentType(response.content_type)
+    : /^\s*(?:<!doctype html|<html)/i.test(response.body);
+}
+
+/**
+ * 本地提取正文，替换响应体为与 Jina 路径相同格式的 Markdown
+ */
+function extractMarkdown(response: WebResponse, withLinksSummary: boolean): void {
+  const { title, markdown } = extractHtmlContent(response.body, {
+    baseUrl: response.url,
+    withLinksSummary,
+  });
+  response.body = formatExtractedContent({
+    title,
+    sourceUrl: response.url,
+    content: markdown,
+  });
+  response.content_type = 'text/markdown';
+}
+
 // ============================================================================
 // Jina Reader Integration
 // ============================================================================
@@ -523,7 +651,7 @@ async function fetchWithJinaReader(options: {
   const { url, jinaOptions, timeout, signal } = options;
 
   // 构建 Jina Reader URL
-  const jinaUrl = `https://r.jina.ai/${encodeURIComponent(url)}`;
+  const jinaUrl = `${JINA_READER_BASE_URL}${encodeURIComponent(url)}`;
 
   // 构建请求头
   const headers: Record<string, string> = {
@@ -565,7 +693,7 @@ async function fetchWithJinaReader(options: {
     status: response.status,
     status_text: response.statusText,
     headers: headersToObject(response.headers),
-    body: formatJinaContent(parsed),
+    body: formatExtractedContent(parsed),
     url: parsed.sourceUrl || url,
     redirected: false,
     redirect_count: 0,
@@ -599,16 +727,16 @@ function parseJinaResponse(text: string): JinaReaderResponse {
   const content = lines.slice(contentStartIndex).join('\n').trim();
 
   return {
-    title: title || 'Untitled',
+    title,
     sourceUrl: sourceUrl || '',
     content: content || text, // 回退到全文
   };
 }
 
 /**
- * 格式化 Jina 提取的内容
+ * 格式化提取的内容（Jina 与本地提取共用）
  */
-function formatJinaContent(parsed: JinaReaderResponse): string {
+function formatExtractedContent(parsed: JinaReaderResponse): string {
   let formatted = '';
 
   if (parsed.title) {
@@ -1,5 +1,6 @@
 import { type Dispatcher, ProxyAgent, fetch as undiciFetch } from 'undici';
 import { z } from 'zod';
+import { PermissionDeniedError } from '../../../errors/PermissionDeniedError.js';
 import type { JsonValue } from '../../../types/common.js';
 import { getErrorMessage, getErrorName } from '../../../utils/errorUtils.js';
 import { toJsonValue } from '../../../utils/jsonValue.js';
@@ -10,6 +11,13 @@ import type {
 } from '../../types/index.js';
 import { ToolErrorType, ToolKind } from '../../types/index.js';
 import { lazySchema } from '../../validation/lazySchema.js';
+import {
+    checkNetworkAccess,
+    createPolicyDispatcher,
+    getNetworkPolicy,
+    getPolicyDenial,
+    type NetworkPolicy,
+} from './networkPolicy.js';
 import { getSearchCache } from './SearchCache.js';
 import {
     getAllProviders,
@@ -233,17 +241,56 @@ async function searchWithProvider(
   return { results, providerName: provider.name };
 }
 
+/**
+ * 过滤掉网络出站策略不允许访问的提供商
+ */
+async function getAllowedProviders(networkPolicy: NetworkPolicy): Promise<SearchProvider[]> {
+  const providers = getAllProviders();
+  const denials = await Promise.all(
+    providers.map((provider) => checkNetworkAccess(provider.endpoint, networkPolicy))
+  );
+  const allowed = providers.filter((_provider, index) => !denials[index]);
+  if (allowed.length === 0) {
+    throw new PermissionDeniedError(
+      `No search provider is reachable in the current runtime context:\n${providers
+        .map((provider, index) => `${provider.name}: ${denials[index]}`)
+        .join('\n')}`
+    );
+  }
+  return allowed;
+}
+
 /**
  * 多提供商故障转移搜索
  */
 async function searchWithFallback(
   query: string,
   timeout: number,
-  signal?: AbortSignal
+  signal: AbortSignal | undefined,
+  networkPolicy: NetworkPolicy
+): Promise<{ results: WebSearchResult[]; providerName: string }> {
+  const providers = await getAllowedProviders(networkPolicy);
+  // 经代理时由代理解析域名；直连时连接只建立到通过网络策略检查的地址
+  const proxy = getProxyAgent();
+  const dispatcher = proxy ?? createPolicyDispatcher(networkPolicy);
+  try {
+    return await searchProviders(providers, query, timeout, signal, dispatcher);
+  } finally {
+    if (!proxy) {
+      void dispatcher.destroy().catch(() => undefined);
+    }
+  }
+}
+
+async function searchProviders(
+  providers: SearchProvider[],
+  query: string,
+  timeout: number,
+  signal: AbortSignal | undefined,
+  dispatcher: Dispatcher
 ): Promise<{ results: WebSearchResult[]; providerName: string }> {
-  const providers = getAllProviders();
-  const dispatcher = getProxyAgent();
   const errors: string[] = [];
+  let denied = 0;
 
   for (let i = 0; i < providers.length; i++) {
     const provider = providers[i];
@@ -262,11 +309,18 @@ async function searchWithFallback(
         dispatcher
       );
     } catch (error) {
-      const errorMsg = `${provider.name}: ${getErrorMessage(error)}`;
+      const denial = getPolicyDenial(error);
+      if (denial) {
+        denied++;
+      }
+      const errorMsg = `${provider.name}: ${getErrorMessage(denial ?? error)}`;
       errors.push(errorMsg);
 
       // 如果是最后一个提供商，抛出错误
       if (i === providers.length - 1) {
+        if (denial && denied === providers.length) {
+          throw denial;
+        }
         throw new Error(`所有搜索提供商都失败了:\n${errors.join('\n')}`);
       }
 
@@ -419,7 +473,8 @@ IMPORTANT - Use the correct year in search queries:
       const { results: rawResults, providerName } = await searchWithFallback(
         query,
         SEARCH_TIMEOUT,
-        signal
+        signal,
+        getNetworkPolicy(context.contextSnapshot)
       );
       yield {
         kind: 'message',
@@ -476,7 +531,10 @@ IMPORTANT - Use the correct year in search queries:
         status: 'error',
         model: `WebSearch call failed: ${getErrorMessage(error)}`,
         error: {
-          type: ToolErrorType.EXECUTION_ERROR,
+          type:
+            error instanceof PermissionDeniedError
+              ? ToolErrorType.PERMISSION_DENIED
+              : ToolErrorType.EXECUTION_ERROR,
           message: getErrorMessage(error),
           details: {
             query,
@@ -768,6 +768,7 @@ export class ExecutionPipeline {
       toolName: state.toolName,
       input: state.params,
       signal: state.context.signal || new AbortController().signal,
+      ...(state.context.sessionId ? { sessionId: state.context.sessionId } : {}),
       permissionMode: state.context.permissionMode || this.defaultPermissionMode,
       sessionApproved: Boolean(
         state.permissionSignature
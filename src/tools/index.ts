@@ -11,6 +11,7 @@ export { createTool, defineTool, toolFromDefinition } from './core/createTool.js
 export type {
   ExecutionContext,
   FunctionDeclaration,
+  MultimodalToolContent,
   Tool,
   ToolBehavior,
   ToolConfig,
@@ -34,6 +35,8 @@ export type {
 export {
   collectToolExecution,
   completeToolExecution,
+  isMultimodalContent,
+  multimodalContent,
   ToolErrorType,
 } from './types/index.js';
 export { ToolKind, ToolSideEffect } from './types/ToolKind.js';
@@ -1,6 +1,8 @@
 import type { MessageId, PermissionRequestId, SessionId, ToolUseId } from '@/types/branded.js';
 import type { IBackgroundAgentManager } from '../../agent/types.js';
+import type { HookSessionServices } from '../../hooks/types/HookTypes.js';
 import type { ContextSnapshot } from '../../runtime/index.js';
+import type { SkillRegistry } from '../../skills/SkillRegistry.js';
 import type { BladeConfig, JsonObject, PermissionMode } from '../../types/common.js';
 import type { ToolCatalog } from '../catalog/index.js';
 import type { ToolRegistry } from '../registry/ToolRegistry.js';
@@ -103,6 +105,8 @@ export interface ExecutionContext {
   userId?: string;
   sessionId?: SessionId;
   messageId?: MessageId;
+  /** @internal ID of the tool call being executed; file checkpoints record it for rewind. */
+  toolCallId?: ToolUseId;
   contextSnapshot?: ContextSnapshot;
   skillActivationPaths?: string[];
   signal?: AbortSignal;
@@ -113,6 +117,10 @@ export interface ExecutionContext {
   toolRegistry?: ToolRegistry;
   toolCatalog?: ToolCatalog;
   discoveredTools?: string[];
+  /** @internal Session hook services forwarded to tools that fire hooks directly. */
+  hookServices?: HookSessionServices;
+  /** @internal Session-scoped skill registry; tools fall back to the global registry when unset. */
+  skillRegistry?: SkillRegistry;
   /** @internal Awaited lifecycle boundary immediately before the tool side effect. */
   toolInvocationLifecycle?: ToolInvocationLifecycle;
 }
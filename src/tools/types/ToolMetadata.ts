@@ -31,12 +31,21 @@ interface ReadMetadataFields extends FileMetadataFields {
   total_lines?: number;
   start_line?: number;
   end_line?: number;
+  media_type?: string;
+  image_width?: number;
+  image_height?: number;
+  original_width?: number;
+  original_height?: number;
+  total_pages?: number;
+  pages_read?: number[];
+  cell_count?: number;
 }
 
 interface WriteMetadataFields extends DiffMetadataFields {
   content_size: number;
   encoding: string;
   created_directories?: boolean;
+  created_file?: boolean;
   has_diff?: boolean;
 }
 
@@ -111,6 +120,10 @@ interface BashForegroundMetadataFields extends BaseMetadataFields {
   stdout_length?: number;
   stderr_length?: number;
   has_stderr?: boolean;
+  shell_id?: string;
+  cwd?: string;
+  previous_cwd?: string;
+  shell_restarted?: boolean;
 }
 
 interface WebSearchMetadataFields extends BaseMetadataFields {
@@ -1,8 +1,46 @@
+import type { ContentPart } from '../../services/ChatServiceInterface.js';
+import { isContentPart } from '../../services/messageUtils.js';
 import type { JsonValue } from '../../types/common.js';
+import { toJsonValue } from '../../utils/jsonValue.js';
 import type { ToolEffect } from './ToolEffects.js';
 import type { ToolResultMetadata } from './ToolMetadata.js';
 
-export type ToolModelContent = JsonValue;
+/**
+ * 多模态工具结果，由 multimodalContent() 创建。只有带 `kind: 'multimodal'`
+ * 标记的结果才作为 ContentPart 交给模型，形如 ContentPart 数组的普通 JSON 结果仍是文本。
+ */
+export interface MultimodalToolContent {
+  kind: 'multimodal';
+  parts: ContentPart[];
+}
+
+/**
+ * 返回给模型的工具结果。MultimodalToolContent 用于图片等多模态内容，
+ * 其余 JSON 值序列化为文本。
+ */
+export type ToolModelContent = JsonValue | MultimodalToolContent;
+
+export function multimodalContent(parts: ContentPart[]): MultimodalToolContent {
+  return { kind: 'multimodal', parts };
+}
+
+/**
+ * 同样识别从持久化 JSON 恢复的多模态结果。
+ */
+export function isMultimodalContent(content: unknown): content is MultimodalToolContent {
+  if (typeof content !== 'object' || content === null || Array.isArray(content)) return false;
+  const { kind, parts } = content as { kind?: unknown; parts?: unknown };
+  return kind === 'multimodal' && Array.isArray(parts) && parts.every(isContentPart);
+}
+
+/**
+ * 持久化与 hook 输入使用的 JSON 形状；多模态结果保留 kind 标记与 ContentPart 结构。
+ */
+export function toolModelContentToJson(content: ToolModelContent): JsonValue {
+  return isMultimodalContent(content)
+    ? { kind: content.kind, parts: content.parts.map((part) => toJsonValue(part)) }
+    : content;
+}
 
 export interface ToolDisplayContent {
   summary: string;
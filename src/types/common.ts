@@ -1,3 +1,7 @@
+import type { ChatServiceFactory } from '../services/ChatServiceInterface.js';
+import type { DryRunWorkspace } from '../services/DryRunWorkspace.js';
+import type { FileSystemService } from '../services/FileSystemService.js';
+import type { SnapshotManager } from '../tools/builtin/file/SnapshotManager.js';
 import type { MessageRole as MessageRoleType } from './constants.js';
 import { MessageRole as MessageRoleValue } from './constants.js';
 
@@ -21,7 +25,9 @@ export type ProviderType =
   | 'azure-openai'
   | 'gemini'
   | 'deepseek'
-  | 'openai-compatible';
+  | 'openai-compatible'
+  | 'ollama'
+  | 'mock';
 
 export interface ModelConfig {
   id: string;
@@ -40,6 +46,48 @@ export interface ModelConfig {
   supportsThinking?: boolean;
 }
 
+/** 触发模型 fallback 的错误类别 */
+export type ModelFallbackReason = 'overloaded' | 'rate_limited' | 'context_overflow' | 'auth_failed';
+
+/**
+ * fallback 链中的一个候选
+ */
+export interface ModelFallbackCandidateConfig {
+  /** `models` 中的模型 id */
+  modelId: string;
+  /** 哪些错误类别可以切换到该候选 */
+  on: ModelFallbackReason[];
+}
+
+/** 模型路由的调用来源 */
+export type ModelRouteSource = 'main_thread' | 'compact' | 'agent';
+
+/**
+ * 一次模型路由请求
+ */
+export interface ModelRouteRequest {
+  source: ModelRouteSource;
+  /** 不路由时将使用的模型（`models` 中的 id） */
+  currentModelId: string;
+  /** 本次调用的输入 token 估算 */
+  estimatedInputTokens: number;
+  /** 主循环的轮次（source 为 `main_thread` 时） */
+  turn?: number;
+  /** 子 Agent 类型（source 为 `agent` 时） */
+  subagentType?: string;
+  /** 当前 RuntimeContext 的 metadata，作为任务提示 */
+  metadata?: JsonObject;
+}
+
+/**
+ * 模型路由决策
+ */
+export interface ModelRouteDecision {
+  /** `models` 中的模型 id */
+  modelId: string;
+  reason?: string;
+}
+
 export interface McpServerConfig {
   command?: string;
   args?: string[];
@@ -95,6 +143,32 @@ export interface BladeConfig {
    * 上层应用自行指定，例如 path.join(os.homedir(), '.blade')。
    */
   storageRoot?: string;
+  /**
+   * 替换默认 ChatService 的工厂（主循环、压缩与子 Agent 共用）。
+   * 不配置时使用 createChatServiceAsync。
+   */
+  chatServiceFactory?: ChatServiceFactory;
+  /**
+   * 有序的模型 fallback 链：当前模型请求失败且错误类别匹配时，ModelManager 依次切换到后续候选。
+   * 切换只向链尾前进，不会回到之前的模型。
+   */
+  fallbackModels?: ModelFallbackCandidateConfig[];
+  /**
+   * 按调用选择模型的路由策略（主循环每轮、压缩、子 Agent 创建时调用）。
+   * 返回 undefined 时使用当前模型；主循环的路由只作用于当轮，不改变当前模型。
+   */
+  modelRouter?: (request: ModelRouteRequest) => Promise<ModelRouteDecision | undefined>;
+  /** WebFetch 工具的会话级默认设置 */
+  webFetch?: WebFetchSettings;
+  /**
+   * 文件工具（Read/Write/Edit/NotebookEdit/Glob/Grep）使用的文件系统服务。
+   * 不配置时直接访问本地磁盘。
+   */
+  fileSystem?: FileSystemService;
+  /** dry run 工作区：Bash 在其 scratch 副本中执行 */
+  dryRun?: DryRunWorkspace;
+  /** 会话级文件检查点：文件工具写入前记录原内容，供 Session.rewind 回滚 */
+  fileCheckpoints?: SnapshotManager;
 }
 
 interface JsonSchemaProperty {
@@ -145,6 +219,14 @@ interface SandboxIgnoreViolations {
   network?: string[];
 }
 
+/** WebFetch `extract_content` 的提取方式：本地解析或 Jina Reader 代理 */
+export type WebContentExtractor = 'local' | 'jina';
+
+export interface WebFetchSettings {
+  /** 未在调用中指定 `extractor` 时使用，默认 `'local'` */
+  extractor?: WebContentExtractor;
+}
+
 export interface SandboxSettings {
   enabled?: boolean;
   autoAllowBashIfSandboxed?: boolean;
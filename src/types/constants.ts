@@ -68,6 +68,7 @@ export const StreamMessageType = {
   TOOL_NEW_MESSAGES: 'tool_new_messages',
   TOOL_PERMISSION_UPDATES: 'tool_permission_updates',
   TOOL_RESULT: 'tool_result',
+  MODEL_FALLBACK: 'model_fallback',
   USAGE: 'usage',
   RESULT: 'result',
   ERROR: 'error',
@@ -5,6 +5,7 @@ import {
   SensitiveFileDetector,
   SensitivityLevel,
 } from '../tools/validation/SensitiveFileDetector.js';
+import type { SessionId } from './branded.js';
 import type { JsonObject } from './common.js';
 import { PermissionMode, type PermissionsConfig } from './common.js';
 
@@ -58,6 +59,8 @@ export interface PermissionHandlerRequest {
   toolName: string;
   input: JsonObject;
   signal: AbortSignal;
+  /** Session whose tool call is being authorized, when known. */
+  sessionId?: SessionId;
   permissionMode?: PermissionMode;
   sessionApproved?: boolean;
   affectedPaths: string[];
@@ -0,0 +1,203 @@
+/**
+ * Git 命令辅助
+ *
+ * 通过 execFile 直接调用 git（不经过 shell），供内置 Git 工具和工作区上下文使用。
+ */
+
+import { execFile } from 'node:child_process';
+
+const DEFAULT_MAX_BUFFER = 16 * 1024 * 1024;
+
+export interface GitCommandOptions {
+  cwd: string;
+  signal?: AbortSignal;
+  maxBuffer?: number;
+}
+
+/**
+ * 执行 git 命令并返回 stdout
+ *
+ * 失败时抛出的 Error 以 git 的 stderr 作为消息。
+ */
+export function runGit(args: string[], options: GitCommandOptions): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['-c', 'core.quotepath=false', '-c', 'color.ui=false', ...args],
+      {
+        cwd: options.cwd,
+        signal: options.signal,
+        maxBuffer: options.maxBuffer ?? DEFAULT_MAX_BUFFER,
+        encoding: 'utf8',
+        // 只读命令不抢 index.lock，避免与用户同时运行的 git 冲突
+        env: { ...process.env, GIT_OPTIONAL_LOCKS: '0', GIT_TERMINAL_PROMPT: '0', LC_ALL: 'C' },
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(stderr.trim() || error.message));
+          return;
+        }
+        resolve(stdout);
+      },
+    );
+  });
+}
+
+// ==================== status ====================
+
+export type GitChangeType =
+  | 'added'
+  | 'modified'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'type_changed';
+
+export interface GitFileChange {
+  path: string;
+  status: GitChangeType;
+  /** 重命名 / 复制前的路径 */
+  original_path?: string;
+}
+
+export interface GitStatus {
+  /** 当前分支；detached HEAD 时为 null */
+  branch: string | null;
+  /** HEAD 指向的提交；尚无提交时为 null */
+  head: string | null;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  staged: GitFileChange[];
+  unstaged: GitFileChange[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+const CHANGE_TYPES: Record<string, GitChangeType> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type_changed',
+};
+
+export function parseGitChangeType(code: string): GitChangeType {
+  return CHANGE_TYPES[code.charAt(0)] ?? 'modified';
+}
+
+/**
+ * 解析 `git status --porcelain=v2 --branch -z` 的输出
+ */
+export function parseGitStatus(output: string): GitStatus {
+  const status: GitStatus = {
+    branch: null,
+    head: null,
+    ahead: 0,
+    behind: 0,
+    staged: [],
+    unstaged: [],
+    untracked: [],
+    conflicted: [],
+  };
+  const records = output.split('\0');
+
+  for (let index = 0; index < records.length; index++) {
+    const record = records[index];
+    if (record.startsWith('# ')) {
+      const [, key, ...rest] = record.split(' ');
+      const value = rest.join(' ');
+      if (key === 'branch.oid') {
+        status.head = value === '(initial)' ? null : value;
+      } else if (key === 'branch.head') {
+        status.branch = value === '(detached)' ? null : value;
+      } else if (key === 'branch.upstream') {
+        status.upstream = value;
+      } else if (key === 'branch.ab') {
+        const [ahead, behind] = rest;
+        status.ahead = Number.parseInt(ahead, 10) || 0;
+        status.behind = Math.abs(Number.parseInt(behind, 10) || 0);
+      }
+      continue;
+    }
+
+    const kind = record.charAt(0);
+    const fields = record.split(' ');
+    if (kind === '?') {
+      status.untracked.push(record.slice(2));
+    } else if (kind === 'u') {
+      status.conflicted.push(fields.slice(10).join(' '));
+    } else if (kind === '1' || kind === '2') {
+      const xy = fields[1];
+      const filePath = fields.slice(kind === '1' ? 8 : 9).join(' ');
+      // 类型 2（重命名 / 复制）的原路径是下一条 NUL 分隔记录
+      const originalPath = kind === '2' ? records[++index] : undefined;
+      for (const [code, target] of [
+        [xy.charAt(0), status.staged],
+        [xy.charAt(1), status.unstaged],
+      ] as const) {
+        if (code !== '.') {
+          const changeType = parseGitChangeType(code);
+          target.push({
+            path: filePath,
+            status: changeType,
+            ...(originalPath && (changeType === 'renamed' || changeType === 'copied')
+              ? { original_path: originalPath }
+              : {}),
+          });
+        }
+      }
+    }
+  }
+
+  return status;
+}
+
+/**
+ * 读取工作区 git 状态
+ */
+export async function getGitStatus(cwd: string, signal?: AbortSignal): Promise<GitStatus> {
+  return parseGitStatus(
+    await runGit(['status', '--porcelain=v2', '--branch', '-z'], { cwd, signal }),
+  );
+}
+
+// ==================== 工作区上下文 ====================
+
+export interface GitInfo {
+  branch: string;
+  status: string;
+  lastCommit?: string;
+}
+
+/**
+ * 生成工作区上下文中的 git 摘要；不在 git 仓库中或 git 不可用时返回 undefined
+ */
+export async function getGitInfo(cwd: string): Promise<GitInfo | undefined> {
+  try {
+    const status = await getGitStatus(cwd);
+    const lastCommit = status.head
+      ? (await runGit(['log', '-1', '--format=%h %s'], { cwd })).trim()
+      : undefined;
+    return {
+      branch: status.branch ?? `HEAD (detached at ${status.head?.slice(0, 7)})`,
+      status: summarizeGitStatus(status),
+      ...(lastCommit ? { lastCommit } : {}),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+function summarizeGitStatus(status: GitStatus): string {
+  const parts = [
+    [status.staged.length, 'staged'],
+    [status.unstaged.length, 'unstaged'],
+    [status.untracked.length, 'untracked'],
+    [status.conflicted.length, 'conflicted'],
+  ]
+    .filter(([count]) => count)
+    .map(([count, label]) => `${count} ${label}`);
+  return parts.length > 0 ? parts.join(', ') : 'clean';
+}